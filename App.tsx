@@ -15,7 +15,10 @@ import AppToolbar from './components/AppToolbar';
 import LoginScreen from './components/LoginScreen';
 import UserStatus from './components/UserStatus';
 import LanguageSwitcher from './components/LanguageSwitcher';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
 import HistoryPanel from './components/HistoryPanel';
+import JobQueuePanel from './components/JobQueuePanel';
+import UsageDashboardModal from './components/UsageDashboardModal';
 import { ImageEditorModal } from './components/ImageEditorModal';
 // FIX: Import LayerComposerModal directly to break circular dependency.
 import { LayerComposerModal } from './components/LayerComposerModal';
@@ -80,6 +83,8 @@ function App() {
         isGalleryOpen,
         isInfoOpen,
         isHistoryPanelOpen,
+        isJobQueuePanelOpen,
+        isUsageDashboardOpen,
         isImageLayoutModalOpen,
         isBeforeAfterModalOpen,
         isAppCoverCreatorModalOpen,
@@ -98,6 +103,8 @@ function App() {
         handleOpenInfo,
         handleCloseInfo,
         handleCloseHistoryPanel,
+        handleCloseJobQueuePanel,
+        handleCloseUsageDashboard,
         closeImageLayoutModal,
         closeBeforeAfterModal,
         closeAppCoverCreatorModal,
@@ -109,7 +116,7 @@ function App() {
     } = useAppControls();
     
     const { imageToEdit, closeImageEditor } = useImageEditor();
-    const { loginSettings, isLoggedIn, isLoading, currentUser } = useAuth();
+    const { loginSettings, isLoggedIn, isLoading, currentUser, canAccessApp } = useAuth();
 
     useEffect(() => {
         const hasSeenInfoModal = localStorage.getItem('aPix_hasSeenInfoModal');
@@ -125,6 +132,8 @@ function App() {
                                isGalleryOpen || 
                                isInfoOpen ||
                                isHistoryPanelOpen ||
+                               isJobQueuePanelOpen ||
+                               isUsageDashboardOpen ||
                                isImageLayoutModalOpen || 
                                isBeforeAfterModalOpen || 
                                isAppCoverCreatorModalOpen ||
@@ -142,7 +151,7 @@ function App() {
         return () => {
             document.body.style.overflow = 'auto';
         };
-    }, [isSearchOpen, isGalleryOpen, isInfoOpen, isHistoryPanelOpen, isImageLayoutModalOpen, isBeforeAfterModalOpen, isAppCoverCreatorModalOpen, isStoryboardingModalVisible, isLayerComposerVisible, imageToEdit]);
+    }, [isSearchOpen, isGalleryOpen, isInfoOpen, isHistoryPanelOpen, isJobQueuePanelOpen, isUsageDashboardOpen, isImageLayoutModalOpen, isBeforeAfterModalOpen, isAppCoverCreatorModalOpen, isStoryboardingModalVisible, isLayerComposerVisible, imageToEdit]);
 
     const getExportableState = useCallback((appState: any, appId: string): any => {
         const exportableState = JSON.parse(JSON.stringify(appState));
@@ -225,7 +234,7 @@ function App() {
                 onSelectApp={handleSelectApp} 
                 title={renderSmartlyWrappedTitle(t(settings.home.mainTitleKey), settings.home.useSmartTitleWrapping, settings.home.smartTitleWrapWords)}
                 subtitle={t(settings.home.subtitleKey)}
-                apps={settings.apps.map((app: AppConfig) => ({...app, title: t(app.titleKey), description: t(app.descriptionKey)}))}
+                apps={settings.apps.filter((app: AppConfig) => canAccessApp(app.id)).map((app: AppConfig) => ({...app, title: t(app.titleKey), description: t(app.descriptionKey)}))}
             />
         );
 
@@ -235,7 +244,8 @@ function App() {
 
         const appInfo = AppComponents[currentView.viewId];
 
-        if (!appInfo) {
+        // Apps hidden from the signed-in user's role can't be opened through history or links either.
+        if (!appInfo || !canAccessApp(currentView.viewId)) {
             return homeComponent;
         }
 
@@ -265,7 +275,8 @@ function App() {
         );
     }
 
-    if (loginSettings?.enabled && !isLoggedIn) {
+    // Fail closed: without login settings the app stays behind the login screen.
+    if (!loginSettings || (loginSettings.enabled !== false && !isLoggedIn)) {
         return <LoginScreen />;
     }
 
@@ -301,6 +312,7 @@ function App() {
             <div className="fixed top-4 left-4 z-20 flex items-center gap-2">
                 {isLoggedIn && currentUser && <UserStatus />}
                 <LanguageSwitcher />
+                <WorkspaceSwitcher />
             </div>
             <AppToolbar />
 
@@ -317,7 +329,7 @@ function App() {
                     handleSelectApp(appId);
                     handleCloseSearch();
                 }}
-                apps={settings ? settings.apps.map((app: AppConfig) => ({...app, title: t(app.titleKey), description: t(app.descriptionKey)})) : []}
+                apps={settings ? settings.apps.filter((app: AppConfig) => canAccessApp(app.id)).map((app: AppConfig) => ({...app, title: t(app.titleKey), description: t(app.descriptionKey)})) : []}
             />
             <GalleryModal
                 isOpen={isGalleryOpen}
@@ -332,6 +344,14 @@ function App() {
                 isOpen={isHistoryPanelOpen}
                 onClose={handleCloseHistoryPanel}
             />
+            <JobQueuePanel
+                isOpen={isJobQueuePanelOpen}
+                onClose={handleCloseJobQueuePanel}
+            />
+            <UsageDashboardModal
+                isOpen={isUsageDashboardOpen}
+                onClose={handleCloseUsageDashboard}
+            />
             <ImageEditorModal 
                 imageToEdit={imageToEdit}
                 onClose={closeImageEditor}
@@ -5,7 +5,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ReactDOM from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce, downloadImage } from './uiUtils';
+import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce, downloadImage, isVideoUrl } from './uiUtils';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
@@ -258,7 +258,7 @@ const AppCoverCreatorModal: React.FC<AppCoverCreatorModalProps> = ({ isOpen, onC
         setInputImages([]);
     };
 
-    const isVideo = (url: string | null) => url?.startsWith('blob:');
+    const isVideo = (url: string | null) => !!url && isVideoUrl(url);
 
     const handleCombine = async () => {
         if (!outputImage) return;
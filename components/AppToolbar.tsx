@@ -4,7 +4,7 @@
 */
 import React, { useEffect, useCallback, useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls, useImageEditor, ExtraTools } from './uiUtils';
+import { useAppControls, useImageEditor, useJobQueue, useAuth, ExtraTools } from './uiUtils';
 import { cn } from '../lib/utils';
 import { 
     HomeIcon, 
@@ -17,7 +17,9 @@ import {
     LayerComposerIcon, 
     EllipsisIcon,
     HistoryIcon,
-    StoryboardIcon
+    StoryboardIcon,
+    QueueIcon,
+    UsageIcon
 } from './icons';
 
 const AppToolbar: React.FC = () => {
@@ -32,6 +34,8 @@ const AppToolbar: React.FC = () => {
         handleOpenSearch,
         handleOpenInfo,
         handleOpenHistoryPanel,
+        handleOpenJobQueuePanel,
+        handleOpenUsageDashboard,
         addImagesToGallery,
         isExtraToolsOpen,
         toggleExtraTools,
@@ -45,6 +49,11 @@ const AppToolbar: React.FC = () => {
     } = useAppControls();
 
     const { openEmptyImageEditor, imageToEdit } = useImageEditor();
+    const jobs = useJobQueue();
+    const activeJobCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+    const { currentRole } = useAuth();
+    // The usage dashboard shows every account's usage, so only admins see it (everyone does without login).
+    const canViewUsage = !currentRole || currentRole === 'admin';
 
     const [activeTooltip, setActiveTooltip] = useState<{ text: string; rect: DOMRect } | null>(null);
     const tooltipTimeoutRef = useRef<number | null>(null);
@@ -102,7 +111,7 @@ const AppToolbar: React.FC = () => {
             } else if (isSearch) {
                 e.preventDefault();
                 handleOpenSearch();
-            } else if (isGallery) {
+            } else if (isGallery && !isLayerComposerVisible) {
                 e.preventDefault();
                 handleOpenGallery();
             } else if (isGoHome) {
@@ -197,6 +206,29 @@ const AppToolbar: React.FC = () => {
                 >
                     <HistoryIcon className="h-5 w-5" strokeWidth={1.5} />
                 </button>
+                <button
+                    onClick={handleOpenJobQueuePanel}
+                    className="btn-search relative"
+                    aria-label={t('appToolbar_jobQueue')}
+                    onMouseEnter={(e) => showTooltip(t('appToolbar_jobQueue'), e)}
+                    onMouseLeave={hideTooltip}
+                >
+                    <QueueIcon className="h-5 w-5" strokeWidth={1.5} />
+                    {activeJobCount > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-yellow-400 text-neutral-900 text-[10px] font-bold flex items-center justify-center">
+                            {activeJobCount}
+                        </span>
+                    )}
+                </button>
+                {canViewUsage && <button
+                    onClick={handleOpenUsageDashboard}
+                    className="btn-search"
+                    aria-label={t('appToolbar_usage')}
+                    onMouseEnter={(e) => showTooltip(t('appToolbar_usage'), e)}
+                    onMouseLeave={hideTooltip}
+                >
+                    <UsageIcon className="h-5 w-5" strokeWidth={1.5} />
+                </button>}
                 
                 {/* --- Group 2: Creation & Tools (Hidden on mobile) --- */}
                 <div className="hidden md:flex items-center gap-2">
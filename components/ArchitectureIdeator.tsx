@@ -4,7 +4,7 @@
 */
 import React, { useState, ChangeEvent, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateArchitecturalImage, editImageWithPrompt } from '../services/geminiService';
+import { generateArchitecturalImage, editImageWithPrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -118,7 +118,7 @@ const ArchitectureIdeator: React.FC<ArchitectureIdeatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -145,7 +145,7 @@ const ArchitectureIdeator: React.FC<ArchitectureIdeatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -5,7 +5,7 @@
 import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generatePatrioticImage, editImageWithPrompt, analyzeAvatarForConcepts } from '../services/geminiService';
+import { generatePatrioticImage, editImageWithPrompt, analyzeAvatarForConcepts, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -175,7 +175,7 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
                 });
                 addImagesToGallery([urlWithMetadata]);
             } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                 const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  // FIX: Pass a state object instead of a function to `onStateChange`.
                  onStateChange({
                     ...generatingState,
@@ -245,9 +245,6 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
         
         onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
 
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
         let currentAppState: AvatarCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
         const settingsToEmbed = {
             viewId: 'avatar-creator',
@@ -277,7 +274,7 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
                 addImagesToGallery([urlWithMetadata]);
 
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  currentAppState = {
                     ...currentAppState,
                     generatedImages: {
@@ -291,16 +288,8 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
             }
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // The central job queue enforces the provider's concurrency limit, so every idea is submitted at once.
+        await Promise.all(ideasToGenerate.map(processIdea));
         
         onStateChange({ ...currentAppState, stage: 'results' });
     };
@@ -353,7 +342,7 @@ const AvatarCreator: React.FC<AvatarCreatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
              onStateChange({
                 ...appState,
                 // FIX: Add 'as const' to prevent type widening of 'status' to string.
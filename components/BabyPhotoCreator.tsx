@@ -8,7 +8,7 @@
 import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateBabyPhoto, estimateAgeGroup, editImageWithPrompt } from '../services/geminiService';
+import { generateBabyPhoto, estimateAgeGroup, editImageWithPrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -175,7 +175,7 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
                 });
                 addImagesToGallery([urlWithMetadata]);
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                 // FIX: Pass a state object instead of a function to `onStateChange`.
                 onStateChange({
                     ...generatingState,
@@ -236,9 +236,6 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
         
         onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
 
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
         let currentAppState: BabyPhotoCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
         const settingsToEmbed = {
             viewId: 'baby-photo-creator',
@@ -268,7 +265,7 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
                 addImagesToGallery([urlWithMetadata]);
 
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  currentAppState = {
                     ...currentAppState,
                     generatedImages: {
@@ -282,16 +279,8 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
             }
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // The central job queue enforces the provider's concurrency limit, so every idea is submitted at once.
+        await Promise.all(ideasToGenerate.map(processIdea));
         
         onStateChange({ ...currentAppState, stage: 'results' });
     };
@@ -344,7 +333,7 @@ const BabyPhotoCreator: React.FC<BabyPhotoCreatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
              onStateChange({
                 ...appState,
                 // FIX: Add 'as const' to prevent type widening of 'status' to string.
@@ -5,7 +5,7 @@
 import React, { useState, useCallback, useEffect, useRef, ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateBeautyImage, editImageWithPrompt, analyzeForBeautyConcepts } from '../services/geminiService';
+import { generateBeautyImage, editImageWithPrompt, analyzeForBeautyConcepts, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -153,7 +153,7 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
                 });
                 addImagesToGallery([urlWithMetadata]);
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                 onStateChange({
                     ...generatingState,
                     stage: 'results',
@@ -216,9 +216,6 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
         ideasToGenerate.forEach(idea => { initialGeneratedImages[idea] = { status: 'pending' as const }; });
         onStateChange({ ...appState, stage: 'generating', generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
 
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
         let currentAppState: BeautyCreatorState = { ...appState, stage: 'generating', generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
         const settingsToEmbed = {
             viewId: 'beauty-creator',
@@ -245,7 +242,7 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
                 addImagesToGallery([urlWithMetadata]);
 
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  currentAppState = {
                     ...currentAppState,
                     // FIX: Add 'as const' to prevent type widening of 'status' to string.
@@ -254,8 +251,8 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
                 onStateChange(currentAppState);
             }
         };
-        const workers = Array(concurrencyLimit).fill(null).map(async () => { while (ideasQueue.length > 0) { const idea = ideasQueue.shift(); if (idea) await processIdea(idea); } });
-        await Promise.all(workers);
+        // The central job queue enforces the provider's concurrency limit, so every idea is submitted at once.
+        await Promise.all(ideasToGenerate.map(processIdea));
         onStateChange({ ...currentAppState, stage: 'results' });
     };
 
@@ -301,7 +298,7 @@ const BeautyCreator: React.FC<BeautyCreatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             // FIX: Add 'as const' to prevent type widening of 'status' to string.
             onStateChange({ ...appState, generatedImages: { ...appState.generatedImages, [idea]: { status: 'error' as const, error: errorMessage } } });
         }
@@ -5,7 +5,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import ReactDOM from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls, useImageEditor, useLightbox } from './uiUtils';
+import { useAppControls, useImageEditor, useLightbox, isVideoUrl } from './uiUtils';
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
@@ -83,7 +83,7 @@ const BeforeAfterModal: React.FC<BeforeAfterModalProps> = ({ isOpen, onClose })
         openLightbox(index);
     };
 
-    const isVideo = (url: string | null) => url?.startsWith('blob:');
+    const isVideo = (url: string | null) => !!url && isVideoUrl(url);
 
     return ReactDOM.createPortal(
         <>
@@ -4,7 +4,7 @@
 */
 import React, { useState, useCallback, ChangeEvent, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateDressedModelImage, editImageWithPrompt } from '../services/geminiService';
+import { generateDressedModelImage, editImageWithPrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -143,7 +143,7 @@ const DressTheModel: React.FC<DressTheModelProps> = (props) => {
             onStateChange({ ...appState, stage: 'results', generatedImage: urlWithMetadata, historicalImages: [...appState.historicalImages, urlWithMetadata] });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -163,7 +163,7 @@ const DressTheModel: React.FC<DressTheModelProps> = (props) => {
             onStateChange({ ...appState, stage: 'results', generatedImage: urlWithMetadata, historicalImages: [...appState.historicalImages, urlWithMetadata] });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
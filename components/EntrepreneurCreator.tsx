@@ -5,7 +5,7 @@
 import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateEntrepreneurImage, editImageWithPrompt, analyzeForEntrepreneurConcepts } from '../services/geminiService';
+import { generateEntrepreneurImage, editImageWithPrompt, analyzeForEntrepreneurConcepts, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -168,7 +168,7 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
                 });
                 addImagesToGallery([urlWithMetadata]);
             } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                 const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                 // FIX: Pass a state object instead of a function to `onStateChange`.
                 onStateChange({
                     ...generatingState,
@@ -238,9 +238,6 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
         
         onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
 
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
         let currentAppState: EntrepreneurCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
         const settingsToEmbed = {
             viewId: 'entrepreneur-creator',
@@ -270,7 +267,7 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
                 addImagesToGallery([urlWithMetadata]);
 
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  currentAppState = {
                     ...currentAppState,
                     generatedImages: {
@@ -284,16 +281,8 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
             }
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // The central job queue enforces the provider's concurrency limit, so every idea is submitted at once.
+        await Promise.all(ideasToGenerate.map(processIdea));
         
         onStateChange({ ...currentAppState, stage: 'results' });
     };
@@ -346,7 +335,7 @@ const EntrepreneurCreator: React.FC<EntrepreneurCreatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
              onStateChange({
                 ...appState,
                 // FIX: Add 'as const' to prevent type widening of 'status' to string.
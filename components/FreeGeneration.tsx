@@ -4,7 +4,7 @@
 */
 import React, { ChangeEvent, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { generateFreeImage, editImageWithPrompt, enhancePrompt } from '../services/geminiService';
+import { generateFreeImage, editImageWithPrompt, enhancePrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -176,7 +176,7 @@ const FreeGeneration: React.FC<FreeGenerationProps> = (props) => {
             });
             addImagesToGallery(urlsWithMetadata);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...preGenState, stage: 'results', error: errorMessage });
         }
     };
@@ -210,7 +210,7 @@ const FreeGeneration: React.FC<FreeGenerationProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage, generatedImages: originalGeneratedImages });
         }
     };
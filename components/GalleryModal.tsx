@@ -4,11 +4,13 @@
 */
 import React, { useEffect, useState, useRef, ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { downloadAllImagesAsZip, ImageForZip, useLightbox, useAppControls, useImageEditor, combineImages } from './uiUtils';
+import toast from 'react-hot-toast';
+import { downloadAllImagesAsZip, ImageForZip, useLightbox, useAppControls, useImageEditor, combineImages, isVideoUrl } from './uiUtils';
 import Lightbox from './Lightbox';
 import { ImageThumbnail } from './ImageThumbnail';
 import { GalleryToolbar } from './GalleryToolbar';
-import { CloudUploadIcon } from './icons';
+import { CloudUploadIcon, CloseIcon } from './icons';
+import { ProvenancePanel } from './ProvenancePanel';
 
 interface GalleryModalProps {
     isOpen: boolean;
@@ -24,12 +26,13 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
         navigateLightbox 
     } = useLightbox();
 
-    const { t, addImagesToGallery, removeImageFromGallery, replaceImageInGallery } = useAppControls();
+    const { t, addImagesToGallery, removeImageFromGallery, replaceImageInGallery, galleryItems, workspaces, activeWorkspaceId, copyGalleryItemsToWorkspace } = useAppControls();
     const { openImageEditor } = useImageEditor();
     const [isDraggingOver, setIsDraggingOver] = useState(false);
     const [isSelectionMode, setIsSelectionMode] = useState(false);
     const [selectedIndices, setSelectedIndices] = useState<number[]>([]);
     const [isCombining, setIsCombining] = useState(false);
+    const [infoIndex, setInfoIndex] = useState<number | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
@@ -37,6 +40,7 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
             closeLightbox();
             setIsSelectionMode(false);
             setSelectedIndices([]);
+            setInfoIndex(null);
         }
     }, [isOpen, closeLightbox]);
 
@@ -45,7 +49,7 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
             url,
             filename: `aPix-gallery-image-${index + 1}`,
             folder: 'gallery',
-            extension: url.startsWith('blob:') ? 'mp4' : undefined,
+            extension: isVideoUrl(url) ? 'mp4' : undefined,
         }));
         downloadAllImagesAsZip(imagesToZip, 'aPix-gallery.zip');
     };
@@ -53,7 +57,7 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
     const handleEditImage = (indexToEdit: number, e: React.MouseEvent) => {
         e.stopPropagation();
         const urlToEdit = images[indexToEdit];
-        if (!urlToEdit || urlToEdit.startsWith('blob:')) {
+        if (!urlToEdit || isVideoUrl(urlToEdit)) {
             alert(t('galleryModal_cannotEditVideo'));
             return;
         };
@@ -65,6 +69,7 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
 
     const handleDeleteImage = (indexToDelete: number, e: React.MouseEvent) => {
         e.stopPropagation();
+        setInfoIndex(null);
         removeImageFromGallery(indexToDelete);
     };
 
@@ -73,6 +78,14 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
         openLightbox(indexToView);
     };
 
+    const handleShowInfo = (index: number, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setInfoIndex(index);
+    };
+
+    const infoUrl = infoIndex !== null ? images[infoIndex] : undefined;
+    const infoRecord = infoUrl ? galleryItems.find(item => item.url === infoUrl)?.record : undefined;
+
     const handleToggleSelectionMode = () => {
         setIsSelectionMode(!isSelectionMode);
         setSelectedIndices([]);
@@ -101,6 +114,21 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
         setIsSelectionMode(false);
     };
 
+    const handleTransferSelected = async (workspaceId: string, move: boolean) => {
+        if (selectedIndices.length === 0) return;
+        const target = workspaces.find(workspace => workspace.id === workspaceId);
+        const targetName = target?.name || t('workspace_default');
+        try {
+            const count = await copyGalleryItemsToWorkspace(selectedIndices, workspaceId, move);
+            toast.success(move ? t('galleryModal_movedToWorkspace', count, targetName) : t('galleryModal_copiedToWorkspace', count, targetName));
+            setSelectedIndices([]);
+            setIsSelectionMode(false);
+        } catch (err) {
+            console.error("Failed to copy images to workspace:", err);
+            toast.error(t('galleryModal_transferError'));
+        }
+    };
+
     const handleCombine = async (direction: 'horizontal' | 'vertical') => {
         if (selectedIndices.length < 2) return;
         setIsCombining(true);
@@ -195,6 +223,8 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
                                 onDownloadAll={handleDownloadAll}
                                 onCombineHorizontal={() => handleCombine('horizontal')}
                                 onCombineVertical={() => handleCombine('vertical')}
+                                transferTargets={workspaces.filter(workspace => workspace.id !== activeWorkspaceId)}
+                                onTransferSelected={handleTransferSelected}
                             />
                             {images.length > 0 ? (
                                 <div className="gallery-grid">
@@ -210,6 +240,7 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
                                                 onEdit={handleEditImage}
                                                 onDelete={handleDeleteImage}
                                                 onQuickView={handleQuickView}
+                                                onInfo={handleShowInfo}
                                             />
                                         ))}
                                     </AnimatePresence>
@@ -219,6 +250,29 @@ const GalleryModal: React.FC<GalleryModalProps> = ({ isOpen, onClose, images })
                                     <p>{t('galleryModal_empty')}<br/>{t('galleryModal_empty_dragDrop')}</p>
                                 </div>
                             )}
+                            <AnimatePresence>
+                                {infoUrl && (
+                                    <motion.div
+                                        className="absolute top-0 right-0 bottom-0 w-full max-w-sm z-20 bg-neutral-900/95 backdrop-blur-md border-l border-white/10 rounded-r-lg flex flex-col"
+                                        initial={{ x: 40, opacity: 0 }}
+                                        animate={{ x: 0, opacity: 1 }}
+                                        exit={{ x: 40, opacity: 0 }}
+                                    >
+                                        <div className="flex justify-between items-center p-4 border-b border-white/10">
+                                            <h4 className="base-font font-bold text-xl text-yellow-400">{t('provenance_title')}</h4>
+                                            <button onClick={() => setInfoIndex(null)} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('provenance_close')}>
+                                                <CloseIcon className="h-5 w-5" />
+                                            </button>
+                                        </div>
+                                        <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                                            {isVideoUrl(infoUrl)
+                                                ? <video src={infoUrl} muted className="w-full rounded-md" />
+                                                : <img src={infoUrl} alt="" className="w-full rounded-md" />}
+                                            <ProvenancePanel record={infoRecord} />
+                                        </div>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
                              <AnimatePresence>
                                 {isDraggingOver && (
                                     <motion.div className="absolute inset-0 z-10 bg-black/70 border-4 border-dashed border-yellow-400 rounded-lg flex flex-col items-center justify-center pointer-events-none" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
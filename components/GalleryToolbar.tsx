@@ -5,6 +5,7 @@
 import React from 'react';
 import { useAppControls } from './uiUtils';
 import { CloseIcon, CloudUploadIcon } from './icons';
+import { type WorkspaceRecord } from './uiTypes';
 
 interface GalleryToolbarProps {
     isSelectionMode: boolean;
@@ -19,6 +20,9 @@ interface GalleryToolbarProps {
     onDownloadAll?: () => void; // Optional for contexts where download isn't needed
     onCombineHorizontal?: () => void;
     onCombineVertical?: () => void;
+    // Other workspaces that the selection can be copied or moved into.
+    transferTargets?: WorkspaceRecord[];
+    onTransferSelected?: (workspaceId: string, move: boolean) => void;
 }
 
 export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
@@ -34,9 +38,26 @@ export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
     onDownloadAll,
     onCombineHorizontal,
     onCombineVertical,
+    transferTargets,
+    onTransferSelected,
 }) => {
     const { t } = useAppControls();
 
+    const renderTransferSelect = (move: boolean) => (
+        <select
+            value=""
+            onChange={(e) => e.target.value && onTransferSelected?.(e.target.value, move)}
+            className="form-input !p-2 !text-sm !w-auto"
+            disabled={selectedCount === 0 || isCombining}
+            aria-label={move ? t('galleryToolbar_moveTo') : t('galleryToolbar_copyTo')}
+        >
+            <option value="">{move ? t('galleryToolbar_moveTo') : t('galleryToolbar_copyTo')}</option>
+            {transferTargets?.map(workspace => (
+                <option key={workspace.key} value={workspace.id}>{workspace.name || t('workspace_default')}</option>
+            ))}
+        </select>
+    );
+
     if (isSelectionMode) {
         return (
             <div className="flex justify-between items-center mb-4 flex-shrink-0">
@@ -52,6 +73,13 @@ export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
                              {isCombining ? t('galleryToolbar_combining') : t('galleryToolbar_combineVertical')}
                         </button>
                     )}
+                    {onTransferSelected && transferTargets && transferTargets.length > 0 && (
+                        <>
+                            <div className="w-px h-5 bg-white/20" />
+                            {renderTransferSelect(false)}
+                            {renderTransferSelect(true)}
+                        </>
+                    )}
                     <div className="w-px h-5 bg-white/20" />
                     <button onClick={onDeleteSelected} className="btn btn-secondary btn-sm !bg-red-500/20 !border-red-500/80 hover:!bg-red-500" disabled={selectedCount === 0 || isCombining}>
                         {t('common_delete')}
@@ -78,7 +78,11 @@ const Home: React.FC<HomeProps> = ({ onSelectApp, title, subtitle, apps }) => {
         if (settings) {
             // Check if it's a Canvas file
             if (settings.canvasSettings && Array.isArray(settings.layers)) {
-                await db.saveCanvasState(settings);
+                // Opens as a new document in the Layer Composer's library.
+                const now = Date.now();
+                const id = Math.random().toString(36).substring(2, 9);
+                await db.saveCanvasDocument({ id, name: file.name.replace(/\.[^.]+$/, ''), createdAt: now, updatedAt: now }, settings);
+                await db.setActiveCanvasDocumentId(id);
                 openLayerComposer();
             } 
             // Check if it's a regular app settings file
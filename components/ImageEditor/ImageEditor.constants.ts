@@ -2,11 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type ToolId, type ColorChannel } from './ImageEditor.types';
+import { type ToolId, type ColorChannel, type PixelAdjustments, type ToneCurves, type LevelsAdjustment } from './ImageEditor.types';
 
 export const CROP_ASPECT_RATIO_OPTIONS = ['Free', 'Original', '1:1', '2:3', '3:2', '4:5', '5:4', '3:4', '4:3', '9:16', '16:9'];
 export const HANDLE_SIZE = 10;
 export const OVERLAY_PADDING = 1000; // Padding to allow drawing outside canvas bounds
+export const AI_MASK_COLOR = '#ff3b30'; // Only the mask's alpha is used, the colour is for display.
+// Draft previews are rendered at most this size (longest side) and stretched over the canvas.
+export const DRAFT_PREVIEW_SIZE = 480;
+// How long the adjustments have to stay unchanged before the preview is rendered at full size.
+export const FULL_PREVIEW_DELAY = 250;
+// How many pixels the adjustment pipeline works through before it checks for cancellation.
+export const RENDER_CHUNK_PIXELS = 1 << 18;
 
 export const TOOLTIPS: Record<ToolId, { name: string; description: string }> = {
     rotate: { name: 'Xoay ảnh (R)', description: 'Xoay ảnh 90 độ theo chiều kim đồng hồ.' },
@@ -22,6 +29,7 @@ export const TOOLTIPS: Record<ToolId, { name: string; description: string }> = {
     colorpicker: { name: 'Chấm màu (I)', description: 'Chọn một màu từ ảnh để sử dụng cho cọ vẽ.' },
     brush: { name: 'Cọ vẽ (B)', description: 'Vẽ lên ảnh bằng màu đã chọn.' },
     eraser: { name: 'Tẩy (E)', description: 'Xóa các nét đã vẽ.' },
+    mask: { name: 'Mặt nạ AI (Q)', description: 'Tô vùng mà Chỉnh sửa AI được phép thay đổi. Phần còn lại của ảnh được giữ nguyên.' },
     undo: { name: 'Hoàn tác (Undo)', description: 'Quay lại hành động cuối cùng.' },
     redo: { name: 'Làm lại (Redo)', description: 'Thực hiện lại hành động đã hoàn tác.' },
     colorSwatch: { name: 'Màu cọ vẽ', description: 'Nhấn để chọn màu cho cọ vẽ của bạn.' },
@@ -38,4 +46,15 @@ export const COLOR_CHANNELS: { id: ColorChannel, name: string, center: number, c
 
 export const INITIAL_COLOR_ADJUSTMENTS = Object.fromEntries(
     COLOR_CHANNELS.map(channel => [channel.id, { h: 0, s: 0, l: 0 }])
-) as Record<ColorChannel, { h: number; s: number; l: number }>;
\ No newline at end of file
+) as Record<ColorChannel, { h: number; s: number; l: number }>;
+
+const IDENTITY_CURVE = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+export const INITIAL_TONE_CURVES: ToneCurves = { rgb: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE };
+export const INITIAL_LEVELS: LevelsAdjustment = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+
+export const INITIAL_PIXEL_ADJUSTMENTS: PixelAdjustments = {
+    luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
+    grain: 0, clarity: 0, dehaze: 0,
+    isInverted: false,
+    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
+};
\ No newline at end of file
@@ -4,7 +4,7 @@
 */
 
 // --- Types & Constants ---
-export type Tool = 'brush' | 'eraser' | 'crop' | 'selection' | 'pen' | 'colorpicker' | 'marquee' | 'ellipse' | 'perspective-crop' | 'hand';
+export type Tool = 'brush' | 'eraser' | 'mask' | 'crop' | 'selection' | 'pen' | 'colorpicker' | 'marquee' | 'ellipse' | 'perspective-crop' | 'hand';
 export type TransformToolId = 'rotate' | 'flipH' | 'flipV';
 export type HistoryToolId = 'undo' | 'redo';
 export type ColorToolId = 'colorSwatch';
@@ -13,6 +13,48 @@ export type ToolId = Tool | TransformToolId | HistoryToolId | ColorToolId;
 export type ColorChannel = 'reds' | 'yellows' | 'greens' | 'aquas' | 'blues' | 'magentas';
 export interface HSLAdjustment { h: number; s: number; l: number; }
 export type ColorAdjustments = Record<ColorChannel, HSLAdjustment>;
+// Points on a tone curve, input (x) to output (y), both 0-255. The first and last points are the ends.
+export type CurvePoint = { x: number; y: number };
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+export interface LevelsAdjustment {
+    inputBlack: number; inputWhite: number;
+    // Midtones: above 1 brightens, below 1 darkens.
+    gamma: number;
+    outputBlack: number; outputWhite: number;
+}
+// A 3D colour lookup table as read from a .cube file: size^3 RGB triples (0-1), red changing fastest.
+export interface ColorLut {
+    title: string;
+    size: number;
+    data: Float32Array;
+}
+// Counts of pixels at each value 0-255.
+export type Histogram = Record<'red' | 'green' | 'blue' | 'luminance', Uint32Array>;
+// The per-pixel part of the adjustment pipeline (everything except blur, which is a canvas filter).
+export interface PixelAdjustments {
+    luminance: number; contrast: number; temp: number; tint: number; saturation: number; vibrance: number; hue: number;
+    grain: number; clarity: number; dehaze: number;
+    isInverted: boolean;
+    colorAdjustments: ColorAdjustments;
+    // Applied last, levels before curves. Optional, as adjustment layers in the Layer Composer don't have them.
+    levels?: LevelsAdjustment;
+    curves?: ToneCurves;
+    // Applied after curves.
+    lut?: ColorLut | null;
+}
+export interface PixelRenderOptions {
+    adjustments: PixelAdjustments;
+    // The blur radius, in pixels of the image being rendered.
+    blur: number;
+}
+// A draft is a small render shown while a slider is dragged; see useImageEditorState.ts.
+export type PreviewQuality = 'draft' | 'full';
+export interface PixelRenderResult {
+    image: ImageBitmap;
+    // Of the adjusted pixels, before blur.
+    histogram: Histogram;
+}
 export type Point = { x: number; y: number };
 export type Rect = { x: number; y: number; width: number; height: number };
 export type CropResizeHandle = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight' | 'top' | 'right' | 'bottom' | 'left';
@@ -27,6 +69,54 @@ export interface EditorStateSnapshot {
     brushHardness: number;
     brushOpacity: number;
     colorAdjustments: ColorAdjustments; drawingCanvasDataUrl: string | null;
+    curves: ToneCurves;
+    levels: LevelsAdjustment;
+    // Never changed in place, so history compares it by reference.
+    lut: ColorLut | null;
+    // What made this step, when it was more than changing adjustments or drawing.
+    operation?: EditOperation;
+}
+
+// Steps that replace the image being edited, with what's needed to know what they did.
+export type EditOperation =
+    | { type: 'open' }
+    | { type: 'reset' }
+    | { type: 'crop'; rect: Rect } // In the pixels of the image before the crop.
+    | { type: 'perspective-crop'; corners: Point[] } // Likewise, clockwise from the top left.
+    | { type: 'rotate'; degrees: number }
+    | { type: 'apply-adjustments' }
+    | { type: 'apply-to-selection' }
+    | { type: 'delete-selection' }
+    | { type: 'ai-edit'; prompt: string; masked: boolean }
+    | { type: 'remove-background' }
+    | { type: 'look'; name: string }
+    | { type: 'white-balance' };
+
+// A history step as saved in a session. Images and drawings are kept once in the session and referred to by index.
+export type SavedHistoryStep = Omit<EditorStateSnapshot, 'imageUrl' | 'drawingCanvasDataUrl'> & { image: number; drawing: number | null };
+
+// An edit session saved to IndexedDB, so a saved image can be reopened and edited from its original.
+export interface EditSessionRecord {
+    id: string;
+    // SHA-256 hashes, as in the gallery, of the image the session started from and of its last saved result.
+    sourceHash: string;
+    resultHash?: string;
+    createdAt: number;
+    updatedAt: number;
+    images: Blob[];
+    steps: SavedHistoryStep[];
+    historyIndex: number;
+}
+
+// A saved look: every adjustment in a snapshot, without the image, its geometry, brush settings or drawing.
+export type AdjustmentLook = Pick<EditorStateSnapshot,
+    'luminance' | 'contrast' | 'temp' | 'tint' | 'saturation' | 'vibrance' | 'hue' | 'grain' | 'clarity' | 'dehaze' | 'blur' |
+    'isInverted' | 'colorAdjustments' | 'curves' | 'levels' | 'lut'>;
+export interface AdjustmentPresetRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    look: AdjustmentLook;
 }
 export type SelectionStroke = { points: Point[]; op: 'add' | 'subtract' };
 export type PenNode = { anchor: Point; inHandle: Point; outHandle: Point };
\ No newline at end of file
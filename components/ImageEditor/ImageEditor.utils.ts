@@ -2,8 +2,16 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type Point, type Rect, type CropResizeHandle } from './ImageEditor.types';
-import { HANDLE_SIZE } from './ImageEditor.constants';
+import { type Point, type Rect, type CropResizeHandle, type PixelAdjustments, type PixelRenderOptions, type PixelRenderResult, type CurvePoint, type LevelsAdjustment, type ToneCurves, type Histogram, type ColorLut } from './ImageEditor.types';
+import { HANDLE_SIZE, COLOR_CHANNELS, RENDER_CHUNK_PIXELS } from './ImageEditor.constants';
+
+export const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = url;
+});
 
 /**
  * Creates a canvas with a feathered (blurred) selection mask.
@@ -63,6 +71,63 @@ export const createFeatheredMask = (
     return maskCanvas;
 };
 
+/**
+ * Turns an alpha mask into the black-and-white PNG that inpainting models take: white wherever the mask
+ * covers anything, so the model may redraw the whole feathered edge, and black elsewhere.
+ * @param mask A canvas whose alpha channel is the mask.
+ * @param width The width of the image the mask is for.
+ * @param height The height of the image the mask is for.
+ * @returns A PNG data URL.
+ */
+export const createInpaintingMaskDataUrl = (mask: HTMLCanvasElement, width: number, height: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not create mask canvas context");
+    ctx.drawImage(mask, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = data[i + 3] > 0 ? 255 : 0;
+        data[i] = value; data[i + 1] = value; data[i + 2] = value; data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Draws `edited` over `base` only through the mask, both scaled to the given size. Where the mask is
+ * empty the result is exactly `base`.
+ * @param mask A canvas whose alpha channel is the mask, e.g. from `createFeatheredMask`.
+ * @returns A new canvas with the composite.
+ */
+export const compositeThroughMask = (
+    base: CanvasImageSource,
+    edited: CanvasImageSource,
+    mask: HTMLCanvasElement,
+    width: number,
+    height: number
+): HTMLCanvasElement => {
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const layerCtx = layer.getContext('2d');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!layerCtx || !ctx) throw new Error("Could not create composite canvas context");
+
+    layerCtx.drawImage(edited, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(mask, 0, 0, width, height);
+
+    ctx.drawImage(base, 0, 0, width, height);
+    ctx.drawImage(layer, 0, 0);
+    return canvas;
+};
+
 
 export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
     r /= 255; g /= 255; b /= 255;
@@ -104,6 +169,298 @@ export function hslToRgb(h: number, s: number, l: number): [number, number, numb
     return [r * 255, g * 255, b * 255];
 }
 
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+/**
+ * A lookup table for a tone curve: a smooth curve through the points that never overshoots between
+ * them (monotone cubic interpolation), flat beyond the first and last points.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Uint8Array => {
+    const lut = new Uint8Array(256);
+    const sorted = [...points].sort((a, b) => a.x - b.x).filter((point, i, all) => i === 0 || point.x > all[i - 1].x);
+    if (sorted.length === 0) { lut.forEach((_, i) => { lut[i] = i; }); return lut; }
+    if (sorted.length === 1) { lut.fill(clampByte(sorted[0].y)); return lut; }
+
+    const n = sorted.length;
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) slopes.push((sorted[i + 1].y - sorted[i].y) / (sorted[i + 1].x - sorted[i].x));
+    // Tangents at the points (Fritsch-Carlson), zeroed where the curve turns so it can't overshoot.
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) { tangents[i] = 0; tangents[i + 1] = 0; continue; }
+        const a = tangents[i] / slopes[i], b = tangents[i + 1] / slopes[i];
+        const length = Math.hypot(a, b);
+        if (length > 3) { tangents[i] = 3 * a / length * slopes[i]; tangents[i + 1] = 3 * b / length * slopes[i]; }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= sorted[0].x) { lut[x] = clampByte(sorted[0].y); continue; }
+        if (x >= sorted[n - 1].x) { lut[x] = clampByte(sorted[n - 1].y); continue; }
+        while (x > sorted[segment + 1].x) segment++;
+        const p0 = sorted[segment], p1 = sorted[segment + 1];
+        const h = p1.x - p0.x, t = (x - p0.x) / h, t2 = t * t, t3 = t2 * t;
+        lut[x] = clampByte(
+            (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment] +
+            (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1]
+        );
+    }
+    return lut;
+};
+
+/**
+ * A lookup table for levels: input black and white stretched to the output range, with gamma for the midtones.
+ */
+export const buildLevelsLut = (levels: LevelsAdjustment): Uint8Array => {
+    const { inputBlack, inputWhite, gamma, outputBlack, outputWhite } = levels;
+    const lut = new Uint8Array(256);
+    const inputRange = Math.max(1, inputWhite - inputBlack);
+    for (let x = 0; x < 256; x++) {
+        const normalized = Math.max(0, Math.min(1, (x - inputBlack) / inputRange));
+        lut[x] = clampByte(outputBlack + Math.pow(normalized, 1 / Math.max(0.01, gamma)) * (outputWhite - outputBlack));
+    }
+    return lut;
+};
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every(point => point.x === point.y) && points.some(point => point.x === 0) && points.some(point => point.x === 255);
+const isIdentityLevels = (levels: LevelsAdjustment) =>
+    levels.inputBlack === 0 && levels.inputWhite === 255 && levels.gamma === 1 && levels.outputBlack === 0 && levels.outputWhite === 255;
+
+/**
+ * Per-channel lookup tables for levels then curves (the RGB curve, then the channel's own curve),
+ * or null when they leave every value as it is.
+ */
+const buildToneLuts = (levels?: LevelsAdjustment, curves?: ToneCurves): [Uint8Array, Uint8Array, Uint8Array] | null => {
+    const hasLevels = !!levels && !isIdentityLevels(levels);
+    const hasCurves = !!curves && !(['rgb', 'red', 'green', 'blue'] as const).every(channel => isIdentityCurve(curves[channel]));
+    if (!hasLevels && !hasCurves) return null;
+    const levelsLut = hasLevels ? buildLevelsLut(levels!) : null;
+    const rgbLut = hasCurves ? buildCurveLut(curves!.rgb) : null;
+    return (['red', 'green', 'blue'] as const).map(channel => {
+        const channelLut = hasCurves ? buildCurveLut(curves![channel]) : null;
+        const lut = new Uint8Array(256);
+        for (let x = 0; x < 256; x++) {
+            let value = levelsLut ? levelsLut[x] : x;
+            if (rgbLut && channelLut) value = channelLut[rgbLut[value]];
+            lut[x] = value;
+        }
+        return lut;
+    }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+/**
+ * Looks a colour (0-255 channels) up in a 3D LUT, interpolating between its eight nearest entries.
+ * @returns The new colour, 0-255.
+ */
+export const sampleColorLut = (lut: ColorLut, r: number, g: number, b: number): [number, number, number] => {
+    const { size, data } = lut;
+    const max = size - 1;
+    const position = (value: number) => Math.max(0, Math.min(max, value / 255 * max));
+    const rp = position(r), gp = position(g), bp = position(b);
+    const r0 = Math.floor(rp), g0 = Math.floor(gp), b0 = Math.floor(bp);
+    const r1 = Math.min(max, r0 + 1), g1 = Math.min(max, g0 + 1), b1 = Math.min(max, b0 + 1);
+    const fr = rp - r0, fg = gp - g0, fb = bp - b0;
+    const result: [number, number, number] = [0, 0, 0];
+    for (let c = 0; c < 3; c++) {
+        const at = (ri: number, gi: number, bi: number) => data[(ri + gi * size + bi * size * size) * 3 + c];
+        const c00 = at(r0, g0, b0) * (1 - fr) + at(r1, g0, b0) * fr;
+        const c10 = at(r0, g1, b0) * (1 - fr) + at(r1, g1, b0) * fr;
+        const c01 = at(r0, g0, b1) * (1 - fr) + at(r1, g0, b1) * fr;
+        const c11 = at(r0, g1, b1) * (1 - fr) + at(r1, g1, b1) * fr;
+        result[c] = ((c00 * (1 - fg) + c10 * fg) * (1 - fb) + (c01 * (1 - fg) + c11 * fg) * fb) * 255;
+    }
+    return result;
+};
+
+/**
+ * Counts the pixels at each red, green, blue and luminance (Rec. 709) value, skipping transparent ones.
+ */
+export const computeHistogram = (data: Uint8ClampedArray): Histogram => {
+    const histogram: Histogram = { red: new Uint32Array(256), green: new Uint32Array(256), blue: new Uint32Array(256), luminance: new Uint32Array(256) };
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i], g = data[i + 1], b = data[i + 2];
+        histogram.red[r]++; histogram.green[g]++; histogram.blue[b]++;
+        histogram.luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    }
+    return histogram;
+};
+
+/**
+ * The temperature and tint that turn a colour into a neutral grey, given the invert and contrast applied
+ * before white balance. Used by the white balance eyedropper.
+ */
+export const getNeutralizingWhiteBalance = (
+    [red, green, blue]: [number, number, number],
+    { contrast, isInverted }: Pick<PixelAdjustments, 'contrast' | 'isInverted'>
+): { temp: number; tint: number } => {
+    const contrastFactor = (100 + contrast) / 100;
+    const [r, g, b] = [red, green, blue].map(value => ((isInverted ? 255 - value : value) - 127.5) * contrastFactor + 127.5);
+    // White balance adds temp / 2.5 to red, takes it from blue and adds tint / 2.5 to green; meet in the middle.
+    const clampSlider = (value: number) => Math.round(Math.max(-100, Math.min(100, value)));
+    return { temp: clampSlider((b - r) * 1.25), tint: clampSlider(((r + b) / 2 - g) * 2.5) };
+};
+
+/**
+ * Runs the per-pixel adjustment pipeline (invert, contrast, white balance, HSL, vibrance,
+ * clarity, dehaze, per-channel HSL, levels, curves, colour LUT and grain) over RGBA data.
+ * @param data The pixels to write to.
+ * @param originalData An untouched copy of the same pixels to read from.
+ * @param adjustments The adjustment values.
+ * @param selectionMask Optional RGBA mask; its alpha blends adjusted pixels with the originals.
+ */
+export const applyPixelAdjustmentsToData = (
+    data: Uint8ClampedArray,
+    originalData: Uint8ClampedArray,
+    adjustments: PixelAdjustments,
+    selectionMask: Uint8ClampedArray | null = null
+) => {
+    const { luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, isInverted, colorAdjustments } = adjustments;
+    const contrastFactor = (100 + contrast) / 100;
+    const clarityFactor = clarity / 200;
+    const dehazeFactor = dehaze / 100;
+    const grainAmount = grain * 2.55;
+    const toneLuts = buildToneLuts(adjustments.levels, adjustments.curves);
+
+    for (let i = 0; i < data.length; i += 4) {
+        const blendFactor = selectionMask ? (selectionMask[i + 3] / 255) : 1;
+        
+        if (blendFactor < 0.001) {
+            continue;
+        }
+
+        let r = originalData[i], g = originalData[i + 1], b = originalData[i + 2];
+        
+        if (isInverted) { r = 255 - r; g = 255 - g; b = 255 - b; }
+        r = (r - 127.5) * contrastFactor + 127.5; g = (g - 127.5) * contrastFactor + 127.5; b = (b - 127.5) * contrastFactor + 127.5;
+        r += temp / 2.5; g += tint / 2.5; b -= temp / 2.5;
+        let [h, s, l] = rgbToHsl(r, g, b);
+        
+        const vibranceAmount = vibrance / 100;
+        if (vibranceAmount !== 0) {
+             const max_rgb = Math.max(r, g, b); 
+             const avg_rgb = (r + g + b) / 3;
+             const sat_delta = max_rgb - avg_rgb;
+             // Vibrance should have less effect on saturated colors.
+             // We create a multiplier that is close to 1 for low saturation and close to 0 for high saturation.
+             // sat_delta is a proxy for saturation, ranging roughly from 0 to 170.
+             const vibrance_mult = 1 - (sat_delta / 200); // Normalize roughly to 0-1 range and invert
+             s += (vibranceAmount * 100) * vibrance_mult;
+        }
+
+        h = (h + hue) % 360; l += luminance / 2; s += saturation;
+
+        if (clarity !== 0) l += (l - 50) * clarityFactor;
+        if (dehaze !== 0) { l = l - (50 - l) * dehazeFactor; s = s + s * (1 - s/100) * dehazeFactor * 0.5; }
+
+        // --- NEW: Smooth HSL color adjustments ---
+        let totalHueAdj = 0, totalSatAdj = 0, totalLumAdj = 0;
+        // The influence of a color channel extends 60 degrees on either side of its center.
+        const HUE_RANGE_WIDTH = 60; 
+
+        for (const channel of COLOR_CHANNELS) {
+            const center = channel.center;
+            // Calculate the shortest distance on the color wheel (0-360 degrees)
+            const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
+            
+            // If the hue is within the influence range...
+            if (dist < HUE_RANGE_WIDTH) {
+                // Calculate the influence factor (1 at center, 0 at edge)
+                const influence = 1 - (dist / HUE_RANGE_WIDTH);
+                const adj = colorAdjustments[channel.id];
+                
+                // Add the weighted adjustment to the totals
+                totalHueAdj += adj.h * influence;
+                totalSatAdj += adj.s * influence;
+                totalLumAdj += adj.l * influence;
+            }
+        }
+        h += totalHueAdj;
+        s += totalSatAdj;
+        l += totalLumAdj;
+
+        if (h < 0) h += 360;
+        s = Math.max(0, Math.min(100, s)); l = Math.max(0, Math.min(100, l));
+        [r, g, b] = hslToRgb(h, s, l);
+        if (toneLuts) { r = toneLuts[0][clampByte(r)]; g = toneLuts[1][clampByte(g)]; b = toneLuts[2][clampByte(b)]; }
+        if (adjustments.lut) [r, g, b] = sampleColorLut(adjustments.lut, r, g, b);
+        if (grain > 0) { const noise = (Math.random() - 0.5) * grainAmount; r += noise; g += noise; b += noise; }
+
+        data[i] = originalData[i] * (1 - blendFactor) + r * blendFactor;
+        data[i+1] = originalData[i+1] * (1 - blendFactor) + g * blendFactor;
+        data[i+2] = originalData[i+2] * (1 - blendFactor) + b * blendFactor;
+    }
+};
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Applies the pixel adjustments and blur to an image, limited to the mask's alpha when one is given.
+ * Works through the pixels a chunk of rows at a time, letting other messages in between, and gives up
+ * with null as soon as isCancelled returns true. Runs in the pixel worker (see pixelWorker.ts), or on the
+ * main thread when no worker could be started.
+ * @returns The adjusted image, at the source's size, and its histogram.
+ */
+export const renderPixelAdjustments = async (
+    source: ImageBitmap,
+    mask: ImageBitmap | null,
+    options: PixelRenderOptions,
+    isCancelled: () => boolean
+): Promise<PixelRenderResult | null> => {
+    const { width, height } = source;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not get offscreen canvas context");
+    ctx.drawImage(source, 0, 0);
+
+    let maskCanvas: OffscreenCanvas | null = null;
+    let maskData: Uint8ClampedArray | null = null;
+    if (mask) {
+        maskCanvas = new OffscreenCanvas(width, height);
+        const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
+        if (!maskCtx) throw new Error("Could not get offscreen mask context");
+        // The mask may be drawn at a different size than a draft preview; stretch it over the image.
+        maskCtx.drawImage(mask, 0, 0, width, height);
+        maskData = maskCtx.getImageData(0, 0, width, height).data;
+    }
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const originalData = new Uint8ClampedArray(imageData.data);
+    const rowsPerChunk = Math.max(1, Math.floor(RENDER_CHUNK_PIXELS / width));
+    for (let row = 0; row < height; row += rowsPerChunk) {
+        if (isCancelled()) return null;
+        const start = row * width * 4;
+        const end = Math.min(height, row + rowsPerChunk) * width * 4;
+        applyPixelAdjustmentsToData(imageData.data.subarray(start, end), originalData.subarray(start, end), options.adjustments, maskData && maskData.subarray(start, end));
+        await yieldToEventLoop();
+    }
+    if (isCancelled()) return null;
+    ctx.putImageData(imageData, 0, 0);
+    const histogram = computeHistogram(imageData.data);
+
+    if (options.blur > 0) {
+        const blurredCanvas = new OffscreenCanvas(width, height);
+        const blurredCtx = blurredCanvas.getContext('2d');
+        if (!blurredCtx) throw new Error("Could not get offscreen blur context");
+        blurredCtx.filter = `blur(${options.blur}px)`;
+        blurredCtx.drawImage(canvas, 0, 0);
+        blurredCtx.filter = 'none';
+        if (maskCanvas) {
+            // Only the selection is blurred: cut the blurred image out with the mask and lay it over the sharp one.
+            blurredCtx.globalCompositeOperation = 'destination-in';
+            blurredCtx.drawImage(maskCanvas, 0, 0);
+        } else {
+            ctx.clearRect(0, 0, width, height);
+        }
+        ctx.drawImage(blurredCanvas, 0, 0);
+    }
+    return { image: canvas.transferToImageBitmap(), histogram };
+};
+
 export const isPointInRect = (point: Point, rect: Rect) => (
     point.x >= rect.x && point.x <= rect.x + rect.width &&
     point.y >= rect.y && point.y <= rect.y + rect.height
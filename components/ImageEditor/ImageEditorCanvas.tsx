@@ -8,7 +8,7 @@ import { type Point, type Rect, type CropResizeHandle, type Tool } from './Image
 import { getCursorForHandle, isPointInRect } from './ImageEditor.utils';
 import { cn } from '../../lib/utils';
 import { UndoIcon, RedoIcon, ZoomOutIcon, ZoomInIcon, HandIcon, LoadingSpinnerIcon } from '../icons';
-import { OVERLAY_PADDING } from './ImageEditor.constants';
+import { OVERLAY_PADDING, AI_MASK_COLOR } from './ImageEditor.constants';
 
 // --- Reusable Floating Toolbar ---
 interface ImageEditorCanvasToolbarProps {
@@ -57,6 +57,7 @@ interface ImageEditorCanvasProps {
     drawingCanvasRef: React.RefObject<HTMLCanvasElement>;
     overlayCanvasRef: React.RefObject<HTMLCanvasElement>;
     tempDrawingCanvasRef: React.RefObject<HTMLCanvasElement>;
+    aiMaskCanvasRef: React.RefObject<HTMLCanvasElement>;
     handleActionStart: (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => void;
     handleCanvasMouseMove: (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => void;
     handleActionEnd: (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => void;
@@ -75,6 +76,8 @@ interface ImageEditorCanvasProps {
     brushHardness: number;
     brushOpacity: number;
     brushColor: string;
+    hasAiMask: boolean;
+    maskBrushMode: 'paint' | 'erase';
     isLoading: boolean;
     isProcessing: boolean;
     
@@ -111,11 +114,11 @@ interface ImageEditorCanvasProps {
 
 export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
     const {
-        previewCanvasRef, drawingCanvasRef, overlayCanvasRef, tempDrawingCanvasRef,
+        previewCanvasRef, drawingCanvasRef, overlayCanvasRef, tempDrawingCanvasRef, aiMaskCanvasRef,
         handleActionStart, handleCanvasMouseMove, handleActionEnd,
         setIsCursorOverCanvas, setHoveredCropHandle,
         activeTool, handleToolSelect, isDrawing, isCursorOverCanvas, cursorPosition, cropSelection, hoveredCropHandle,
-        brushSize, brushHardness, brushOpacity, brushColor, isLoading, isProcessing,
+        brushSize, brushHardness, brushOpacity, brushColor, hasAiMask, maskBrushMode, isLoading, isProcessing,
         isSelectionActive, selectionPath, interactionState, currentDrawingPointsRef, marqueeRect,
         ellipseRect, penPathPoints, currentPenDrag, perspectiveCropPoints, hoveredPerspectiveHandleIndex,
         panX, panY, scale, zoomDisplay, canvasViewRef, canvasDimensions, isSpacePanning,
@@ -127,7 +130,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
     const getCursorStyle = () => {
         if (activeTool === 'hand' || isSpacePanning) return 'grab';
         if (activeTool === 'colorpicker') return 'crosshair';
-        if (activeTool === 'brush' || activeTool === 'eraser') return 'none';
+        if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask') return 'none';
         if (activeTool === 'crop') {
             const handleCursor = getCursorForHandle(hoveredCropHandle);
             if (handleCursor) return handleCursor;
@@ -178,20 +181,21 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
     };
 
     const cursorStyle = useMemo(() => {
-        if (!isCursorOverCanvas || isDrawing || (activeTool !== 'brush' && activeTool !== 'eraser') || !cursorPosition) {
+        if (!isCursorOverCanvas || isDrawing || (activeTool !== 'brush' && activeTool !== 'eraser' && activeTool !== 'mask') || !cursorPosition) {
             return { display: 'none' };
         }
         const hardness = brushHardness / 100;
         const hardnessStop = Math.pow(hardness, 2) * 100;
         let cursorBackground: string, cursorBorder: string, cursorBoxShadow: string;
     
-        if (activeTool === 'brush') {
-            let color = brushColor;
+        const isErasing = activeTool === 'eraser' || (activeTool === 'mask' && maskBrushMode === 'erase');
+        if (!isErasing) {
+            let color = activeTool === 'mask' ? AI_MASK_COLOR : brushColor;
             let transparentColor = 'transparent';
             if (color.startsWith('#')) {
                 const r = parseInt(color.slice(1, 3), 16), g = parseInt(color.slice(3, 5), 16), b = parseInt(color.slice(5, 7), 16);
                 transparentColor = `rgba(${r},${g},${b},0)`;
-                color = `rgba(${r},${g},${b},${brushOpacity / 100 * 0.85})`;
+                color = `rgba(${r},${g},${b},${activeTool === 'mask' ? 0.45 : brushOpacity / 100 * 0.85})`;
             } else {
                  transparentColor = color.replace(/rgba?\((\d+,\s*\d+,\s*\d+)[^)]*\)/, 'rgba($1, 0)');
             }
@@ -199,7 +203,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
             cursorBorder = `1px solid rgba(255,255,255,0.8)`;
             cursorBoxShadow = `0 0 0 1px rgba(0,0,0,0.8)`;
     
-        } else { // eraser
+        } else { // eraser, or the mask tool erasing
             cursorBackground = `radial-gradient(circle, rgba(255,255,255,${brushOpacity / 100 * 0.3}) ${hardnessStop}%, rgba(255,255,255,0) 100%)`;
             cursorBorder = `1px solid rgba(0,0,0,0.8)`;
             cursorBoxShadow = `0 0 0 1px rgba(255,255,255,0.8)`;
@@ -212,7 +216,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
             transform: `translate(-50%, -50%)`,
             background: cursorBackground, border: cursorBorder, boxShadow: cursorBoxShadow,
         };
-    }, [isCursorOverCanvas, isDrawing, activeTool, cursorPosition, brushSize, brushHardness, brushOpacity, brushColor]);
+    }, [isCursorOverCanvas, isDrawing, activeTool, cursorPosition, brushSize, brushHardness, brushOpacity, brushColor, maskBrushMode]);
 
     useEffect(() => {
         let animId: number;
@@ -226,9 +230,9 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
                     // --- DRAW BRUSH PREVIEW (un-translated) ---
                     // This is drawn directly onto the large overlay canvas without translation
                     // because the tempDrawingCanvas is also large and has the padding baked in.
-                    if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser') && tempDrawingCanvasRef.current) {
+                    if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask') && tempDrawingCanvasRef.current) {
                         ctx.save();
-                        ctx.globalAlpha = brushOpacity / 100;
+                        ctx.globalAlpha = activeTool === 'mask' ? 0.45 : brushOpacity / 100;
                         ctx.drawImage(tempDrawingCanvasRef.current, 0, 0);
                         ctx.restore();
                     }
@@ -238,6 +242,14 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
                     // All other drawing logic can use image-space coordinates directly.
                     ctx.save();
                     ctx.translate(OVERLAY_PADDING, OVERLAY_PADDING);
+
+                    // The AI edit mask is only ever shown here, never drawn into the image.
+                    if (hasAiMask && aiMaskCanvasRef.current) {
+                        ctx.save();
+                        ctx.globalAlpha = 0.45;
+                        ctx.drawImage(aiMaskCanvasRef.current, 0, 0);
+                        ctx.restore();
+                    }
                     
                     if (isSelectionActive && selectionPath) {
                         ctx.save(); ctx.strokeStyle = 'white'; ctx.lineWidth = 1; ctx.setLineDash([5, 5]);
@@ -452,7 +464,7 @@ export const ImageEditorCanvas: React.FC<ImageEditorCanvasProps> = (props) => {
         };
         animId = requestAnimationFrame(animate);
         return () => cancelAnimationFrame(animId);
-    }, [isSelectionActive, selectionPath, interactionState, activeTool, penPathPoints, cursorPosition, currentPenDrag, isCursorOverCanvas, marqueeRect, ellipseRect, isDrawing, brushOpacity, perspectiveCropPoints, hoveredPerspectiveHandleIndex]);
+    }, [isSelectionActive, selectionPath, interactionState, activeTool, penPathPoints, cursorPosition, currentPenDrag, isCursorOverCanvas, marqueeRect, ellipseRect, isDrawing, brushOpacity, perspectiveCropPoints, hoveredPerspectiveHandleIndex, hasAiMask]);
 
     return (
         <div 
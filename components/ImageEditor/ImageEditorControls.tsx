@@ -8,9 +8,13 @@ import { type Tool } from './ImageEditor.types';
 import { CROP_ASPECT_RATIO_OPTIONS } from './ImageEditor.constants';
 import { BasicAdjustments } from './components/BasicAdjustments';
 import { HslAdjustments } from './components/HslAdjustments';
+import { ToneAdjustments } from './components/ToneAdjustments';
 import { EffectsAdjustments } from './components/EffectsAdjustments';
+import { LookPresets } from './components/LookPresets';
+import { HistoryPanel } from './components/HistoryPanel';
 import { MagicTools } from './components/MagicTools';
 import { BrushEraserSettings } from './components/BrushEraserSettings';
+import { MaskBrushSettings } from './components/MaskBrushSettings';
 import { RangeSlider } from './components/RangeSlider';
 import { type ImageEditorState } from './useImageEditorState';
 
@@ -41,13 +45,23 @@ const SelectionControls: React.FC<ImageEditorControlsProps> = (props) => {
 };
 
 export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) => {
-    const { activeTool, openSection, setOpenSection, cropAspectRatio, setCropAspectRatio, handleCancelCrop, handleApplyCrop, cropSelection, isSelectionActive, handleCancelPerspectiveCrop, handleApplyPerspectiveCrop, perspectiveCropPoints } = props;
+    const { activeTool, openSection, setOpenSection, cropAspectRatio, setCropAspectRatio, handleCancelCrop, handleApplyCrop, cropSelection, isSelectionActive, handleCancelPerspectiveCrop, handleApplyPerspectiveCrop, perspectiveCropPoints, resumableSession, isResumingSession, handleResumeSession, dismissResumableSession } = props;
     const { activeTool: _unused, ...restProps } = props;
 
     const accordionHeaderClasses = "w-full flex justify-between items-center p-3 bg-neutral-700 hover:bg-neutral-600 transition-colors";
 
     return (
         <div className="flex-grow overflow-y-auto space-y-2 pr-2 -mr-2">
+            {resumableSession && (
+                <div className="border border-yellow-400/50 bg-yellow-400/10 rounded-lg p-3 space-y-2">
+                    <p className="text-sm text-neutral-200">This image has saved edits ({resumableSession.steps.length} steps). Reopen them to keep editing from the original?</p>
+                    <div className="flex gap-2 justify-end">
+                        <button onClick={dismissResumableSession} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3">Dismiss</button>
+                        <button onClick={handleResumeSession} className="btn btn-primary btn-sm !text-xs !py-1 !px-3" disabled={isResumingSession}>{isResumingSession ? 'Opening...' : 'Resume Edits'}</button>
+                    </div>
+                </div>
+            )}
+
             {/* --- Magic Tools (Always Open at the top) --- */}
             <div className="border border-neutral-700 rounded-lg overflow-hidden">
                 <div className="w-full flex justify-between items-center p-3 bg-neutral-700">
@@ -101,6 +115,14 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
                 )}
             </AnimatePresence>
 
+            <AnimatePresence>
+                {activeTool === 'mask' && (
+                    <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden border border-neutral-700 rounded-lg">
+                       <MaskBrushSettings {...props} />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             <div className="border border-neutral-700 rounded-lg overflow-hidden">
                 <button onClick={() => setOpenSection(s => s === 'adj' ? null : 'adj')} className={accordionHeaderClasses} aria-expanded={openSection === 'adj'}>
                     <h4 className="base-font font-bold text-neutral-200">Basic</h4>
@@ -129,6 +151,20 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
                 </AnimatePresence>
             </div>
 
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'tone' ? null : 'tone')} className={accordionHeaderClasses} aria-expanded={openSection === 'tone'}>
+                    <h4 className="base-font font-bold text-neutral-200">Curves & Levels</h4>
+                    <motion.div animate={{ rotate: openSection === 'tone' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'tone' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <ToneAdjustments {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
             <div className="border border-neutral-700 rounded-lg overflow-hidden">
                 <button onClick={() => setOpenSection(s => s === 'effects' ? null : 'effects')} className={accordionHeaderClasses} aria-expanded={openSection === 'effects'}>
                     <h4 className="base-font font-bold text-neutral-200">Effects</h4>
@@ -142,6 +178,34 @@ export const ImageEditorControls: React.FC<ImageEditorControlsProps> = (props) =
                     )}
                 </AnimatePresence>
             </div>
+
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'looks' ? null : 'looks')} className={accordionHeaderClasses} aria-expanded={openSection === 'looks'}>
+                    <h4 className="base-font font-bold text-neutral-200">Looks</h4>
+                    <motion.div animate={{ rotate: openSection === 'looks' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'looks' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <LookPresets {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
+            <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                <button onClick={() => setOpenSection(s => s === 'history' ? null : 'history')} className={accordionHeaderClasses} aria-expanded={openSection === 'history'}>
+                    <h4 className="base-font font-bold text-neutral-200">History</h4>
+                    <motion.div animate={{ rotate: openSection === 'history' ? 180 : 0 }}><svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg></motion.div>
+                </button>
+                <AnimatePresence>
+                    {openSection === 'history' && (
+                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden">
+                            <HistoryPanel {...props} />
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
         </div>
     );
 };
\ No newline at end of file
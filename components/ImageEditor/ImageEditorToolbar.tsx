@@ -17,6 +17,7 @@ import {
     PenIcon, 
     BrushIcon, 
     EraserIcon, 
+    MaskBrushIcon,
     ColorPickerIcon 
 } from '../icons';
 
@@ -72,6 +73,7 @@ export const ImageEditorToolbar: React.FC<ImageEditorToolbarProps> = (props) =>
                     <BrushIcon width="20" height="20" />
                 </button>
                 <button onMouseEnter={(e) => showTooltip('eraser', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('eraser')} className={cn(toolButtonClasses, activeTool === 'eraser' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Eraser Tool"><EraserIcon className="h-5 w-5" /></button>
+                <button onMouseEnter={(e) => showTooltip('mask', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('mask')} className={cn(toolButtonClasses, activeTool === 'mask' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="AI Mask Tool"><MaskBrushIcon className="h-5 w-5" /></button>
                 <button onMouseEnter={(e) => showTooltip('colorpicker', e)} onMouseLeave={hideTooltip} onClick={() => handleToolSelect('colorpicker')} className={cn(toolButtonClasses, activeTool === 'colorpicker' ? activeToolButtonClasses : inactiveToolButtonClasses)} aria-label="Color Picker Tool">
                     <ColorPickerIcon width="20" height="20" />
                 </button>
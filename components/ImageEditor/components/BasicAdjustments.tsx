@@ -4,6 +4,8 @@
 */
 import React from 'react';
 import { RangeSlider } from './RangeSlider';
+import { type Tool } from '../ImageEditor.types';
+import { cn } from '../../../lib/utils';
 
 interface BasicAdjustmentsProps {
     luminance: number; setLuminance: (v: number) => void;
@@ -13,6 +15,9 @@ interface BasicAdjustmentsProps {
     vibrance: number; setVibrance: (v: number) => void;
     saturation: number; setSaturation: (v: number) => void;
     hue: number; setHue: (v: number) => void;
+    activeTool: Tool | null;
+    colorPickerMode: 'brush' | 'whiteBalance';
+    handleStartWhiteBalancePick: () => void;
     commitState: () => void;
     isSelectionActive: boolean;
     handleApplyAdjustmentsToSelection: () => void;
@@ -22,8 +27,10 @@ export const BasicAdjustments: React.FC<BasicAdjustmentsProps> = (props) => {
     const {
         luminance, setLuminance, contrast, setContrast, temp, setTemp,
         tint, setTint, vibrance, setVibrance, saturation, setSaturation, hue, setHue,
+        activeTool, colorPickerMode, handleStartWhiteBalancePick,
         commitState, isSelectionActive, handleApplyAdjustmentsToSelection,
     } = props;
+    const isPickingWhiteBalance = activeTool === 'colorpicker' && colorPickerMode === 'whiteBalance';
 
     return (
         <div className="p-3 space-y-3">
@@ -31,6 +38,15 @@ export const BasicAdjustments: React.FC<BasicAdjustmentsProps> = (props) => {
             <RangeSlider id="contrast" label="Contrast" value={contrast} min={-100} max={100} step={1} onChange={setContrast} onReset={() => {setContrast(0); commitState();}} onCommit={commitState} />
             <RangeSlider id="temp" label="Temperature" value={temp} min={-100} max={100} step={1} onChange={setTemp} onReset={() => {setTemp(0); commitState();}} onCommit={commitState} />
             <RangeSlider id="tint" label="Tint" value={tint} min={-100} max={100} step={1} onChange={setTint} onReset={() => {setTint(0); commitState();}} onCommit={commitState} />
+            <button
+                onClick={handleStartWhiteBalancePick}
+                className={cn("w-full btn btn-secondary btn-sm !text-xs !py-1.5 flex items-center justify-center gap-2", isPickingWhiteBalance && '!bg-yellow-400 !text-black')}
+                aria-label="Set white balance from something in the image that should be neutral grey"
+                aria-pressed={isPickingWhiteBalance}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 4.5l-3-1.5-9 9-1.5 4.5 4.5-1.5 9-9-1.5-1.5zM6 18l-2.5 2.5" /></svg>
+                {isPickingWhiteBalance ? "Click something neutral grey..." : "Pick Neutral Grey"}
+            </button>
             <RangeSlider id="vibrance" label="Vibrance" value={vibrance} min={-100} max={100} step={1} onChange={setVibrance} onReset={() => {setVibrance(0); commitState();}} onCommit={commitState} />
             <RangeSlider id="saturation" label="Saturation" value={saturation} min={-100} max={100} step={1} onChange={setSaturation} onReset={() => {setSaturation(0); commitState();}} onCommit={commitState} />
             <RangeSlider id="hue" label="Hue" value={hue} min={-180} max={180} step={1} onChange={setHue} onReset={() => {setHue(0); commitState();}} onCommit={commitState} />
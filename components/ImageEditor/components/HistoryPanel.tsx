@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { type EditorStateSnapshot } from '../ImageEditor.types';
+import { describeHistoryStep } from '../editSession';
+import { cn } from '../../../lib/utils';
+
+interface HistoryPanelProps {
+    history: EditorStateSnapshot[];
+    historyIndex: number;
+    handleJumpToHistory: (index: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, historyIndex, handleJumpToHistory }) => {
+    const labels = useMemo(() => history.map((snapshot, i) => describeHistoryStep(snapshot, history[i - 1])), [history]);
+
+    return (
+        <div className="p-3 space-y-2">
+            <ol className="space-y-1 max-h-64 overflow-y-auto">
+                {labels.map((label, i) => (
+                    <li key={i}>
+                        <button
+                            onClick={() => handleJumpToHistory(i)}
+                            className={cn(
+                                "w-full text-left text-sm px-2 py-1 rounded-md truncate transition-colors",
+                                i === historyIndex ? 'bg-yellow-400 text-black font-bold' : 'hover:bg-neutral-700',
+                                i > historyIndex ? 'text-neutral-500' : i !== historyIndex && 'text-neutral-200'
+                            )}
+                            title={label}
+                            aria-current={i === historyIndex ? 'step' : undefined}
+                        >
+                            <span className="font-mono text-xs mr-2 opacity-60">{i + 1}</span>{label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+            <p className="text-xs text-neutral-500 text-center px-1">Click a step to go back to it. Saving keeps this history with the image.</p>
+        </div>
+    );
+};
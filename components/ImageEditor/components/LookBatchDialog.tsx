@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { type AdjustmentPresetRecord } from '../ImageEditor.types';
+import { useAppControls } from '../../uiUtils';
+import { type GalleryItem } from '../../uiTypes';
+import { cn } from '../../../lib/utils';
+
+interface LookBatchDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    lookPresets: AdjustmentPresetRecord[];
+    progress: { done: number; total: number } | null;
+    onApply: (id: string, items: GalleryItem[]) => Promise<void>;
+}
+
+/**
+ * Picks a saved look and the gallery images to apply it to. The results are added to the gallery.
+ */
+export const LookBatchDialog: React.FC<LookBatchDialogProps> = ({ isOpen, onClose, lookPresets, progress, onApply }) => {
+    const { galleryItems } = useAppControls();
+    const images = useMemo(() => galleryItems.filter(item => item.record.mimeType.startsWith('image/')), [galleryItems]);
+    const [presetId, setPresetId] = useState('');
+    const [selectedHashes, setSelectedHashes] = useState<Set<string>>(new Set<string>());
+    const isRunning = progress !== null;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedHashes(new Set<string>());
+        setPresetId(prev => lookPresets.some(preset => preset.id === prev) ? prev : lookPresets[0]?.id ?? '');
+    }, [isOpen, lookPresets]);
+
+    const toggle = (hash: string) => setSelectedHashes(prev => {
+        const next = new Set(prev);
+        if (next.has(hash)) next.delete(hash); else next.add(hash);
+        return next;
+    });
+
+    const handleApply = () => {
+        if (!presetId || selectedHashes.size === 0) return;
+        onApply(presetId, images.filter(item => selectedHashes.has(item.record.hash)));
+    };
+
+    return ReactDOM.createPortal(
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={() => !isRunning && onClose()} className="modal-overlay z-[75]" aria-modal="true" role="dialog">
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }} animate={{ scale: 1, opacity: 1, y: 0 }} exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content !max-w-3xl !h-[80vh] flex flex-col gap-3"
+                    >
+                        <div className="flex items-center justify-between gap-3">
+                            <h3 className="base-font font-bold text-xl text-yellow-400">Apply a Look to Gallery Images</h3>
+                            <button onClick={onClose} disabled={isRunning} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3">Close</button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select value={presetId} onChange={(e) => setPresetId(e.target.value)} disabled={isRunning} className="form-input !py-1.5 !text-sm !w-auto flex-1 min-w-[10rem]" aria-label="Look">
+                                {lookPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                            </select>
+                            <button onClick={() => setSelectedHashes(new Set(images.map(item => item.record.hash)))} disabled={isRunning} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3">Select All</button>
+                            <button onClick={() => setSelectedHashes(new Set<string>())} disabled={isRunning} className="btn btn-secondary btn-sm !text-xs !py-1 !px-3">Select None</button>
+                        </div>
+                        {images.length > 0 ? (
+                            <div className="gallery-grid flex-1 overflow-y-auto">
+                                {images.map(item => (
+                                    <button
+                                        key={item.record.hash}
+                                        onClick={() => toggle(item.record.hash)}
+                                        disabled={isRunning}
+                                        className={cn("relative rounded-md overflow-hidden border-2 transition-colors", selectedHashes.has(item.record.hash) ? 'border-yellow-400' : 'border-transparent hover:border-neutral-500')}
+                                        aria-pressed={selectedHashes.has(item.record.hash)}
+                                    >
+                                        <img src={item.url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-center text-neutral-400 py-8 flex-1 flex items-center justify-center">
+                                <p>The gallery has no images.</p>
+                            </div>
+                        )}
+                        <div className="flex items-center justify-end gap-3">
+                            {progress && <span className="text-sm text-neutral-400">Applying {progress.done} / {progress.total}...</span>}
+                            <button onClick={handleApply} disabled={isRunning || !presetId || selectedHashes.size === 0} className="btn btn-primary btn-sm">
+                                Apply to {selectedHashes.size} {selectedHashes.size === 1 ? 'image' : 'images'}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>,
+        document.body
+    );
+};
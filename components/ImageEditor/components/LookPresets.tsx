@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, ChangeEvent } from 'react';
+import { type AdjustmentPresetRecord, type ColorLut } from '../ImageEditor.types';
+import { LookBatchDialog } from './LookBatchDialog';
+import { type GalleryItem } from '../../uiTypes';
+
+interface LookPresetsProps {
+    lookPresets: AdjustmentPresetRecord[];
+    lut: ColorLut | null;
+    isLookBatchOpen: boolean;
+    setIsLookBatchOpen: (isOpen: boolean) => void;
+    lookBatchProgress: { done: number; total: number } | null;
+    handleSaveLook: (name: string) => Promise<void>;
+    handleApplyLook: (id: string) => void;
+    handleClearLut: () => void;
+    handleDeleteLook: (id: string) => Promise<void>;
+    handleExportLook: (id: string, format: 'json' | 'cube') => void;
+    handleImportLook: (file: File) => Promise<void>;
+    handleBatchApplyLook: (id: string, items: GalleryItem[]) => Promise<void>;
+}
+
+export const LookPresets: React.FC<LookPresetsProps> = (props) => {
+    const {
+        lookPresets, lut, isLookBatchOpen, setIsLookBatchOpen, lookBatchProgress,
+        handleSaveLook, handleApplyLook, handleClearLut, handleDeleteLook, handleExportLook, handleImportLook, handleBatchApplyLook,
+    } = props;
+    const [lookName, setLookName] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const buttonClasses = "btn btn-secondary btn-sm !text-xs !py-1 !px-2";
+
+    const handleImportChange = (e: ChangeEvent<HTMLInputElement>) => {
+        Array.from(e.target.files ?? []).forEach(file => handleImportLook(file));
+        e.target.value = '';
+    };
+
+    return (
+        <div className="p-3 space-y-3">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={lookName}
+                    onChange={(e) => setLookName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { handleSaveLook(lookName); setLookName(''); } }}
+                    placeholder="Look name"
+                    className="form-input !py-1 !text-sm flex-1 min-w-0"
+                    aria-label="Look name"
+                />
+                <button onClick={() => { handleSaveLook(lookName); setLookName(''); }} className="btn btn-primary btn-sm !text-xs !py-1 !px-3">Save</button>
+            </div>
+            <div className="flex gap-2">
+                <input type="file" ref={importInputRef} className="hidden" accept=".json,.cube,application/json" multiple onChange={handleImportChange} />
+                <button onClick={() => importInputRef.current?.click()} className={`${buttonClasses} flex-1`} aria-label="Import a look (.json) or a 3D LUT (.cube)">Import .json / .cube</button>
+                <button onClick={() => setIsLookBatchOpen(true)} className={`${buttonClasses} flex-1`} disabled={lookPresets.length === 0} aria-label="Apply a look to gallery images">Apply to Gallery...</button>
+            </div>
+
+            {lut && (
+                <div className="flex items-center justify-between gap-2 text-xs bg-neutral-800 rounded-md px-2 py-1.5">
+                    <span className="text-neutral-300 truncate">LUT: {lut.title || 'Untitled'} ({lut.size}³)</span>
+                    <button onClick={handleClearLut} className="text-neutral-400 hover:text-yellow-400 transition-colors flex-shrink-0">Remove</button>
+                </div>
+            )}
+
+            {lookPresets.length === 0 ? (
+                <p className="text-xs text-neutral-500 text-center px-1">No saved looks yet. Save the current adjustments, or import a look or .cube LUT.</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {lookPresets.map(preset => (
+                        <li key={preset.id} className="flex items-center gap-1.5 bg-neutral-800 rounded-md px-2 py-1.5">
+                            <button onClick={() => handleApplyLook(preset.id)} className="flex-1 min-w-0 text-left text-sm text-neutral-200 hover:text-yellow-400 transition-colors truncate" title={`Apply "${preset.name}"`}>
+                                {preset.name}
+                                {preset.look.lut && <span className="ml-1.5 text-[10px] text-neutral-400 border border-neutral-600 rounded px-1">LUT</span>}
+                            </button>
+                            <button onClick={() => handleExportLook(preset.id, 'json')} className="text-xs text-neutral-400 hover:text-yellow-400 transition-colors" aria-label={`Export "${preset.name}" as JSON`}>JSON</button>
+                            <button onClick={() => handleExportLook(preset.id, 'cube')} className="text-xs text-neutral-400 hover:text-yellow-400 transition-colors" aria-label={`Export "${preset.name}" as a .cube LUT`}>.cube</button>
+                            <button onClick={() => handleDeleteLook(preset.id)} className="text-xs text-neutral-400 hover:text-red-400 transition-colors" aria-label={`Delete "${preset.name}"`}>✕</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <p className="text-xs text-neutral-500 text-center px-1">A .cube export leaves out grain and blur.</p>
+
+            <LookBatchDialog
+                isOpen={isLookBatchOpen}
+                onClose={() => setIsLookBatchOpen(false)}
+                lookPresets={lookPresets}
+                progress={lookBatchProgress}
+                onApply={handleBatchApplyLook}
+            />
+        </div>
+    );
+};
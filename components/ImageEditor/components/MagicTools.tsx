@@ -15,7 +15,11 @@ interface MagicToolsProps extends Pick<
     'aiEditPrompt' | 
     'setAiEditPrompt' | 
     'handleAiEdit' | 
-    'isSelectionActive'
+    'isSelectionActive' |
+    'hasAiMask' |
+    'clearAiMask' |
+    'activeTool' |
+    'handleToolSelect'
 > {}
 
 const Spinner = () => (
@@ -30,7 +34,11 @@ export const MagicTools: React.FC<MagicToolsProps> = ({
     aiEditPrompt,
     setAiEditPrompt,
     handleAiEdit,
-    isSelectionActive
+    isSelectionActive,
+    hasAiMask,
+    clearAiMask,
+    activeTool,
+    handleToolSelect
 }) => {
     const { t } = useAppControls();
     const buttonClasses = "flex-1 p-2 bg-neutral-700 text-neutral-200 rounded-md hover:bg-neutral-600 transition-colors flex items-center justify-center gap-2 text-sm !w-full disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-neutral-700";
@@ -64,7 +72,17 @@ export const MagicTools: React.FC<MagicToolsProps> = ({
                         rows={3}
                         disabled={isLoading}
                     />
-                    {isSelectionActive && (
+                    <div className="flex gap-2 mt-2">
+                        <button type="button" onClick={() => handleToolSelect('mask')} className={buttonClasses} disabled={isLoading} aria-pressed={activeTool === 'mask'}>
+                            {activeTool === 'mask' ? t('imageEditor_aiEdit_maskDone') : t('imageEditor_aiEdit_paintMask')}
+                        </button>
+                        {hasAiMask && (
+                            <button type="button" onClick={clearAiMask} className={buttonClasses} disabled={isLoading}>
+                                {t('imageEditor_aiEdit_clearMask')}
+                            </button>
+                        )}
+                    </div>
+                    {(isSelectionActive || hasAiMask) && (
                         <p className="text-xs text-yellow-300/80 mt-1">
                             {t('imageEditor_aiEdit_selectionNote')}
                         </p>
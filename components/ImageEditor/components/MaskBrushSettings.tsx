@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { RangeSlider } from './RangeSlider';
+import { cn } from '../../../lib/utils';
+
+interface MaskBrushSettingsProps {
+    brushSize: number; setBrushSize: (v: number) => void;
+    brushHardness: number; setBrushHardness: (v: number) => void;
+    maskBrushMode: 'paint' | 'erase';
+    setMaskBrushMode: (mode: 'paint' | 'erase') => void;
+    hasAiMask: boolean;
+    clearAiMask: () => void;
+}
+
+export const MaskBrushSettings: React.FC<MaskBrushSettingsProps> = (props) => {
+    const { brushSize, setBrushSize, brushHardness, setBrushHardness, maskBrushMode, setMaskBrushMode, hasAiMask, clearAiMask } = props;
+    const modeButtonClasses = "flex-1 btn btn-sm !text-xs !py-1 !px-3";
+
+    return (
+        <div className="p-3 space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="base-font font-bold text-neutral-200">AI Mask</h4>
+                <button onClick={clearAiMask} className="text-xs text-neutral-400 hover:text-yellow-400 disabled:opacity-50" disabled={!hasAiMask}>Clear Mask</button>
+            </div>
+            <div className="flex gap-2">
+                <button onClick={() => setMaskBrushMode('paint')} className={cn(modeButtonClasses, maskBrushMode === 'paint' ? 'btn-primary' : 'btn-secondary')} aria-pressed={maskBrushMode === 'paint'}>Paint</button>
+                <button onClick={() => setMaskBrushMode('erase')} className={cn(modeButtonClasses, maskBrushMode === 'erase' ? 'btn-primary' : 'btn-secondary')} aria-pressed={maskBrushMode === 'erase'}>Erase</button>
+            </div>
+            <RangeSlider id="mask-brush-size" label="Size" value={brushSize} min={1} max={200} step={1} onChange={setBrushSize} onReset={() => setBrushSize(20)} onCommit={() => {}} />
+            <RangeSlider id="mask-brush-hardness" label="Hardness" value={brushHardness} min={0} max={100} step={1} onChange={setBrushHardness} onReset={() => setBrushHardness(50)} onCommit={() => {}} />
+            <p className="text-xs text-neutral-500 text-center px-1">AI Edit only changes the painted area, together with any selection.</p>
+        </div>
+    );
+};
@@ -15,9 +15,11 @@ interface RangeSliderProps {
     onChange: (value: number) => void;
     onReset: () => void;
     onCommit: () => void;
+    // How the value is shown next to the label; whole numbers by default.
+    formatValue?: (value: number) => string;
 }
 
-export const RangeSlider: React.FC<RangeSliderProps> = ({ id, label, value, min, max, step, onChange, onReset, onCommit }) => {
+export const RangeSlider: React.FC<RangeSliderProps> = ({ id, label, value, min, max, step, onChange, onReset, onCommit, formatValue }) => {
     const mainContainerRef = useRef<HTMLDivElement>(null);
     const handleCommit = () => {
         onCommit();
@@ -30,7 +32,7 @@ export const RangeSlider: React.FC<RangeSliderProps> = ({ id, label, value, min,
         <div className="flex justify-between items-center mb-1">
             <label htmlFor={id} className="base-font font-bold text-neutral-200 text-sm">{label}</label>
             <div className="flex items-center gap-2">
-                <span className="text-xs font-mono w-8 text-right text-neutral-300">{value.toFixed(0)}</span>
+                <span className="text-xs font-mono w-8 text-right text-neutral-300">{formatValue ? formatValue(value) : value.toFixed(0)}</span>
                 <button
                     onClick={onReset}
                     className="text-xs text-neutral-400 hover:text-yellow-400 transition-colors"
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { RangeSlider } from './RangeSlider';
+import { type CurveChannel, type CurvePoint, type ToneCurves, type LevelsAdjustment, type Histogram } from '../ImageEditor.types';
+import { INITIAL_TONE_CURVES, INITIAL_LEVELS } from '../ImageEditor.constants';
+import { buildCurveLut } from '../ImageEditor.utils';
+import { cn } from '../../../lib/utils';
+
+interface ToneAdjustmentsProps {
+    curves: ToneCurves;
+    setCurves: React.Dispatch<React.SetStateAction<ToneCurves>>;
+    levels: LevelsAdjustment;
+    setLevels: React.Dispatch<React.SetStateAction<LevelsAdjustment>>;
+    activeCurveChannel: CurveChannel;
+    setActiveCurveChannel: (channel: CurveChannel) => void;
+    histogram: Histogram | null;
+    commitState: () => void;
+    isSelectionActive: boolean;
+    handleApplyAdjustmentsToSelection: () => void;
+}
+
+const CURVE_CHANNELS: { id: CurveChannel; name: string; color: string }[] = [
+    { id: 'rgb', name: 'RGB', color: '#e5e5e5' },
+    { id: 'red', name: 'Red', color: '#f87171' },
+    { id: 'green', name: 'Green', color: '#4ade80' },
+    { id: 'blue', name: 'Blue', color: '#60a5fa' },
+];
+// Points closer than this (in 0-255 units) to the pointer are picked up rather than a new one added.
+const POINT_HIT_RADIUS = 8;
+
+// The histogram as a filled area over a 256 x 256 box, scaled to its tallest bar.
+const HistogramArea: React.FC<{ counts: Uint32Array | undefined; color: string }> = ({ counts, color }) => {
+    const path = useMemo(() => {
+        if (!counts) return null;
+        const max = Math.max(1, ...counts);
+        let d = 'M0,256';
+        counts.forEach((count, x) => { d += ` L${x},${256 - (count / max) * 256}`; });
+        return `${d} L255,256 Z`;
+    }, [counts]);
+    return path ? <path d={path} fill={color} opacity={0.25} /> : null;
+};
+
+const CurveEditor: React.FC<{
+    points: CurvePoint[];
+    color: string;
+    histogramCounts: Uint32Array | undefined;
+    onChange: (points: CurvePoint[]) => void;
+    onCommit: () => void;
+}> = ({ points, color, histogramCounts, onChange, onCommit }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+    const curvePath = useMemo(() => {
+        const lut = buildCurveLut(points);
+        return Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+    }, [points]);
+
+    const getPointerValue = (e: React.PointerEvent): CurvePoint | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+        return { x: clamp((e.clientX - rect.left) / rect.width * 255), y: clamp(255 - (e.clientY - rect.top) / rect.height * 255) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        const value = getPointerValue(e);
+        if (!value) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const nearest = points.findIndex(point => Math.hypot(point.x - value.x, point.y - value.y) <= POINT_HIT_RADIUS);
+        if (nearest !== -1) { setDragIndex(nearest); return; }
+        // A new point goes in between its neighbours, unless one is already at that input.
+        if (points.some(point => point.x === value.x)) return;
+        const newPoints = [...points, value].sort((a, b) => a.x - b.x);
+        onChange(newPoints);
+        setDragIndex(newPoints.indexOf(value));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (dragIndex === null) return;
+        const value = getPointerValue(e);
+        if (!value) return;
+        // Points can't pass their neighbours, so they stay in order.
+        const minX = dragIndex > 0 ? points[dragIndex - 1].x + 1 : 0;
+        const maxX = dragIndex < points.length - 1 ? points[dragIndex + 1].x - 1 : 255;
+        onChange(points.map((point, i) => i === dragIndex ? { x: Math.max(minX, Math.min(maxX, value.x)), y: value.y } : point));
+    };
+
+    const handlePointerUp = () => {
+        if (dragIndex === null) return;
+        setDragIndex(null);
+        onCommit();
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const x = (e.clientX - rect.left) / rect.width * 255, y = 255 - (e.clientY - rect.top) / rect.height * 255;
+        const index = points.findIndex(point => Math.hypot(point.x - x, point.y - y) <= POINT_HIT_RADIUS);
+        // The end points always stay.
+        if (index <= 0 || index === points.length - 1) return;
+        onChange(points.filter((_, i) => i !== index));
+        onCommit();
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            viewBox="0 0 255 255"
+            className="w-full aspect-square bg-neutral-900 rounded-md cursor-crosshair touch-none select-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={handleDoubleClick}
+        >
+            {[64, 128, 192].map(v => (
+                <g key={v} stroke="#404040" strokeWidth={0.5}>
+                    <line x1={v} y1={0} x2={v} y2={255} />
+                    <line x1={0} y1={v} x2={255} y2={v} />
+                </g>
+            ))}
+            <HistogramArea counts={histogramCounts} color={color} />
+            <line x1={0} y1={255} x2={255} y2={0} stroke="#525252" strokeWidth={0.75} strokeDasharray="3 3" />
+            <path d={curvePath} fill="none" stroke={color} strokeWidth={1.5} />
+            {points.map((point, i) => (
+                <circle
+                    key={i}
+                    cx={point.x} cy={255 - point.y} r={4}
+                    fill={dragIndex === i ? color : '#171717'} stroke={color} strokeWidth={1.5}
+                />
+            ))}
+        </svg>
+    );
+};
+
+export const ToneAdjustments: React.FC<ToneAdjustmentsProps> = (props) => {
+    const {
+        curves, setCurves, levels, setLevels, activeCurveChannel, setActiveCurveChannel, histogram,
+        commitState, isSelectionActive, handleApplyAdjustmentsToSelection,
+    } = props;
+
+    // commitState snapshots what was last rendered, so changes made in the same event are committed after the next render.
+    const [pendingCommit, setPendingCommit] = useState(false);
+    useEffect(() => {
+        if (!pendingCommit) return;
+        setPendingCommit(false);
+        commitState();
+    }, [pendingCommit, commitState]);
+    const commitAfterRender = () => setPendingCommit(true);
+
+    const activeChannel = CURVE_CHANNELS.find(c => c.id === activeCurveChannel) ?? CURVE_CHANNELS[0];
+    const histogramCounts = histogram?.[activeCurveChannel === 'rgb' ? 'luminance' : activeCurveChannel];
+
+    const setCurvePoints = (points: CurvePoint[]) => setCurves(prev => ({ ...prev, [activeCurveChannel]: points }));
+    const setLevel = (key: keyof LevelsAdjustment, value: number) => setLevels(prev => {
+        const next = { ...prev, [key]: value };
+        // Input black must stay below input white.
+        if (key === 'inputBlack') next.inputBlack = Math.min(value, prev.inputWhite - 2);
+        if (key === 'inputWhite') next.inputWhite = Math.max(value, prev.inputBlack + 2);
+        return next;
+    });
+    const resetLevel = (key: keyof LevelsAdjustment) => { setLevels(prev => ({ ...prev, [key]: INITIAL_LEVELS[key] })); commitAfterRender(); };
+
+    return (
+        <div className="p-3 space-y-3">
+            <div className="flex justify-between items-center">
+                <h5 className="base-font font-bold text-neutral-200 text-sm">Curves</h5>
+                <button
+                    onClick={() => { setCurvePoints(INITIAL_TONE_CURVES[activeCurveChannel]); commitAfterRender(); }}
+                    className="text-xs text-neutral-400 hover:text-yellow-400 transition-colors"
+                    aria-label={`Reset ${activeChannel.name} curve`}
+                >
+                    Reset
+                </button>
+            </div>
+            <div className="flex gap-1">
+                {CURVE_CHANNELS.map(c => (
+                    <button
+                        key={c.id}
+                        onClick={() => setActiveCurveChannel(c.id)}
+                        className={cn("flex-1 text-xs py-1 rounded-md transition-colors", activeCurveChannel === c.id ? 'bg-neutral-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700')}
+                        style={{ color: activeCurveChannel === c.id ? c.color : undefined }}
+                        aria-label={`Edit ${c.name} curve`}
+                    >
+                        {c.name}
+                    </button>
+                ))}
+            </div>
+            <CurveEditor
+                points={curves[activeCurveChannel]}
+                color={activeChannel.color}
+                histogramCounts={histogramCounts}
+                onChange={setCurvePoints}
+                onCommit={commitAfterRender}
+            />
+            <p className="text-xs text-neutral-500 text-center px-1">Click to add a point, drag to move it, double-click to remove it.</p>
+
+            <div className="border-t border-neutral-700/50 pt-3 space-y-3">
+                <h5 className="base-font font-bold text-neutral-200 text-sm">Levels</h5>
+                <svg viewBox="0 0 255 256" preserveAspectRatio="none" className="w-full h-16 bg-neutral-900 rounded-md">
+                    <HistogramArea counts={histogram?.luminance} color="#e5e5e5" />
+                    <line x1={levels.inputBlack} y1={0} x2={levels.inputBlack} y2={256} stroke="#facc15" strokeWidth={1} />
+                    <line x1={levels.inputWhite} y1={0} x2={levels.inputWhite} y2={256} stroke="#facc15" strokeWidth={1} />
+                </svg>
+                <RangeSlider id="levels-input-black" label="Input Black" value={levels.inputBlack} min={0} max={253} step={1} onChange={v => setLevel('inputBlack', v)} onReset={() => resetLevel('inputBlack')} onCommit={commitState} />
+                <RangeSlider id="levels-gamma" label="Midtones" value={levels.gamma} min={0.1} max={9.99} step={0.01} onChange={v => setLevel('gamma', v)} onReset={() => resetLevel('gamma')} onCommit={commitState} formatValue={v => v.toFixed(2)} />
+                <RangeSlider id="levels-input-white" label="Input White" value={levels.inputWhite} min={2} max={255} step={1} onChange={v => setLevel('inputWhite', v)} onReset={() => resetLevel('inputWhite')} onCommit={commitState} />
+                <RangeSlider id="levels-output-black" label="Output Black" value={levels.outputBlack} min={0} max={255} step={1} onChange={v => setLevel('outputBlack', v)} onReset={() => resetLevel('outputBlack')} onCommit={commitState} />
+                <RangeSlider id="levels-output-white" label="Output White" value={levels.outputWhite} min={0} max={255} step={1} onChange={v => setLevel('outputWhite', v)} onReset={() => resetLevel('outputWhite')} onCommit={commitState} />
+            </div>
+
+            <div className="border-t border-neutral-700/50 mt-3 pt-3">
+                <button
+                    onClick={handleApplyAdjustmentsToSelection}
+                    disabled={!isSelectionActive}
+                    className="w-full btn btn-primary btn-sm !text-xs !py-1.5 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed disabled:transform-none"
+                    aria-label="Apply adjustments to selection and reset sliders"
+                >
+                    Apply to Selection
+                </button>
+                <p className="text-xs text-neutral-500 text-center mt-1 px-1">
+                    {!isSelectionActive ? "Make a selection to enable." : "Bake adjustments and reset sliders."}
+                </p>
+            </div>
+        </div>
+    );
+};
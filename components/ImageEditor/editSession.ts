@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type EditorStateSnapshot, type EditOperation, type SavedHistoryStep } from './ImageEditor.types';
+import { hashBlob } from '../../lib/db';
+
+// Names for history steps that only changed these fields, in the order they're listed.
+const FIELD_LABELS: [keyof EditorStateSnapshot, string][] = [
+    ['luminance', 'Exposure'], ['contrast', 'Contrast'], ['temp', 'Temperature'], ['tint', 'Tint'],
+    ['vibrance', 'Vibrance'], ['saturation', 'Saturation'], ['hue', 'Hue'],
+    ['colorAdjustments', 'Color (HSL)'], ['curves', 'Curves'], ['levels', 'Levels'], ['lut', 'LUT'],
+    ['grain', 'Grain'], ['clarity', 'Clarity'], ['dehaze', 'Dehaze'], ['blur', 'Blur'],
+    ['isInverted', 'Invert Colors'], ['rotation', 'Rotation'], ['flipHorizontal', 'Flip Horizontal'], ['flipVertical', 'Flip Vertical'],
+    ['drawingCanvasDataUrl', 'Drawing'], ['imageUrl', 'Image'],
+];
+
+const describeOperation = (operation: EditOperation): string => {
+    switch (operation.type) {
+        case 'open': return 'Open';
+        case 'reset': return 'Reset All';
+        case 'crop': return `Crop to ${Math.round(operation.rect.width)}×${Math.round(operation.rect.height)}`;
+        case 'perspective-crop': return 'Perspective Crop';
+        case 'rotate': return `Rotate ${operation.degrees}°`;
+        case 'apply-adjustments': return 'Apply Adjustments';
+        case 'apply-to-selection': return 'Apply to Selection';
+        case 'delete-selection': return 'Delete Selection';
+        case 'ai-edit': return `AI Edit${operation.masked ? ' (masked)' : ''}: ${operation.prompt}`;
+        case 'remove-background': return 'Remove Background';
+        case 'look': return `Look: ${operation.name}`;
+        case 'white-balance': return 'White Balance';
+    }
+};
+
+/**
+ * A name for a history step: its operation, or else the adjustments it changed from the step before.
+ */
+export const describeHistoryStep = (snapshot: EditorStateSnapshot, previous?: EditorStateSnapshot): string => {
+    if (snapshot.operation) return describeOperation(snapshot.operation);
+    if (!previous) return 'Open';
+    const changed = FIELD_LABELS
+        .filter(([key]) => key === 'lut' ? snapshot.lut !== previous.lut : JSON.stringify(snapshot[key]) !== JSON.stringify(previous[key]))
+        .map(([, label]) => label);
+    if (changed.length === 0) return 'Brush Settings';
+    return changed.length > 2 ? `${changed.slice(0, 2).join(', ')} +${changed.length - 2}` : changed.join(', ');
+};
+
+const urlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * The gallery content hash of an image, so a session can be found again from the image it saved.
+ */
+export const hashImageUrl = async (url: string): Promise<string> => hashBlob(await urlToBlob(url));
+
+/**
+ * Turns the history into the form it's saved in: every image and drawing once, as a Blob, and the steps
+ * referring to them by index.
+ */
+export const packHistory = async (history: EditorStateSnapshot[]): Promise<{ images: Blob[]; steps: SavedHistoryStep[] }> => {
+    const urls: string[] = [];
+    const indexOf = (url: string) => {
+        const index = urls.indexOf(url);
+        if (index !== -1) return index;
+        urls.push(url);
+        return urls.length - 1;
+    };
+    const steps = history.map(({ imageUrl, drawingCanvasDataUrl, ...rest }): SavedHistoryStep => ({
+        ...rest,
+        image: indexOf(imageUrl),
+        drawing: drawingCanvasDataUrl ? indexOf(drawingCanvasDataUrl) : null,
+    }));
+    return { images: await Promise.all(urls.map(urlToBlob)), steps };
+};
+
+/**
+ * Rebuilds history from its saved form, with the images back as data URLs.
+ */
+export const unpackHistory = async (images: Blob[], steps: SavedHistoryStep[]): Promise<EditorStateSnapshot[]> => {
+    const urls = await Promise.all(images.map(blobToDataUrl));
+    return steps.map(({ image, drawing, ...rest }) => ({
+        ...rest,
+        imageUrl: urls[image],
+        drawingCanvasDataUrl: drawing === null ? null : urls[drawing],
+    }));
+};
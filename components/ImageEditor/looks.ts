@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type AdjustmentLook, type ColorLut, type EditorStateSnapshot } from './ImageEditor.types';
+import { INITIAL_PIXEL_ADJUSTMENTS, INITIAL_TONE_CURVES, INITIAL_LEVELS } from './ImageEditor.constants';
+import { applyPixelAdjustmentsToData } from './ImageEditor.utils';
+
+// Marks exported look files, so importing can tell them from other JSON.
+const LOOK_FILE_TYPE = 'apix-image-editor-look';
+const LOOK_FILE_VERSION = 1;
+// Entries per side of exported .cube files; 33 is what most grading tools write.
+export const CUBE_EXPORT_SIZE = 33;
+const MAX_CUBE_SIZE = 256;
+
+export const EMPTY_LOOK: AdjustmentLook = {
+    ...INITIAL_PIXEL_ADJUSTMENTS, blur: 0,
+    curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null,
+};
+
+export const getLookFromSnapshot = (snapshot: EditorStateSnapshot): AdjustmentLook => ({
+    luminance: snapshot.luminance, contrast: snapshot.contrast, temp: snapshot.temp, tint: snapshot.tint,
+    saturation: snapshot.saturation, vibrance: snapshot.vibrance, hue: snapshot.hue,
+    grain: snapshot.grain, clarity: snapshot.clarity, dehaze: snapshot.dehaze, blur: snapshot.blur,
+    isInverted: snapshot.isInverted, colorAdjustments: snapshot.colorAdjustments,
+    curves: snapshot.curves, levels: snapshot.levels, lut: snapshot.lut,
+});
+
+/**
+ * A look as a JSON file's contents. The LUT's numbers are written as a plain array.
+ */
+export const serializeLook = (name: string, look: AdjustmentLook) => JSON.stringify({
+    type: LOOK_FILE_TYPE, version: LOOK_FILE_VERSION, name,
+    look: { ...look, lut: look.lut && { title: look.lut.title, size: look.lut.size, data: Array.from(look.lut.data) } },
+}, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Reads a serialized LUT: a size within what .cube files allow and exactly size³ RGB triples of numbers.
+ * @throws When the LUT doesn't have that shape.
+ */
+const toLut = (value: unknown): ColorLut | null => {
+    if (!value) return null;
+    if (!isRecord(value)) throw new Error("The look's colour LUT is damaged.");
+    const { size, title } = value;
+    const data: unknown = value.data;
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 2 || size > MAX_CUBE_SIZE) {
+        throw new Error("The look's colour LUT has an invalid size.");
+    }
+    if (!Array.isArray(data) || data.length !== size ** 3 * 3) {
+        throw new Error(`The look's colour LUT should have ${size ** 3 * 3} values.`);
+    }
+    const values: unknown[] = data;
+    if (!values.every(isFiniteNumber)) throw new Error("The look's colour LUT is damaged.");
+    return { title: typeof title === 'string' ? title : '', size, data: Float32Array.from(values) };
+};
+
+// A value read from a look file replaces an adjustment only when it has that adjustment's type.
+const isLookValue = <K extends keyof AdjustmentLook>(key: K, value: unknown): value is AdjustmentLook[K] =>
+    value !== undefined && typeof value === typeof EMPTY_LOOK[key];
+
+const copyLookValue = <K extends keyof AdjustmentLook>(look: AdjustmentLook, key: K, value: unknown) => {
+    if (isLookValue(key, value)) look[key] = value;
+};
+
+/**
+ * Reads a look file written by serializeLook. Adjustments missing from older files are left at zero.
+ * @throws When the text isn't a look file.
+ */
+export const parseLookFile = (text: string): { name: string; look: AdjustmentLook } => {
+    let file: unknown;
+    try { file = JSON.parse(text); } catch { throw new Error("The file isn't valid JSON."); }
+    if (!isRecord(file) || file.type !== LOOK_FILE_TYPE || !isRecord(file.look)) throw new Error("The file isn't an Image Editor look.");
+    const { lut, ...adjustments } = file.look;
+    const look: AdjustmentLook = { ...EMPTY_LOOK };
+    (Object.keys(EMPTY_LOOK) as (keyof AdjustmentLook)[]).forEach(key => {
+        if (key !== 'lut') copyLookValue(look, key, adjustments[key]);
+    });
+    look.lut = toLut(lut);
+    return { name: typeof file.name === 'string' ? file.name : '', look };
+};
+
+/**
+ * Reads a 3D LUT in the .cube format (Adobe/Resolve). 1D LUTs aren't supported.
+ * @throws When the text isn't a 3D .cube LUT.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): ColorLut => {
+    let title = fallbackTitle;
+    let size = 0;
+    let domainMin = [0, 0, 0], domainMax = [1, 1, 1];
+    const values: number[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+        const [keyword, ...rest] = line.split(/\s+/);
+        if (keyword === 'TITLE') { title = line.slice(5).trim().replace(/^"|"$/g, '') || fallbackTitle; continue; }
+        if (keyword === 'LUT_3D_SIZE') { size = parseInt(rest[0], 10); continue; }
+        if (keyword === 'LUT_1D_SIZE') throw new Error("1D LUTs aren't supported; use a 3D .cube LUT.");
+        if (keyword === 'DOMAIN_MIN') { domainMin = rest.map(Number); continue; }
+        if (keyword === 'DOMAIN_MAX') { domainMax = rest.map(Number); continue; }
+        if (/^[A-Z_]+$/.test(keyword)) continue; // Other keywords, such as LUT_3D_INPUT_RANGE, don't change the table.
+        const triple = line.split(/\s+/).map(Number);
+        if (triple.length !== 3 || triple.some(Number.isNaN)) throw new Error(`The .cube file has a line that isn't a colour: "${line}".`);
+        values.push(...triple.map((value, c) => (value - domainMin[c]) / ((domainMax[c] - domainMin[c]) || 1)));
+    }
+    if (!Number.isInteger(size) || size < 2 || size > MAX_CUBE_SIZE) throw new Error("The .cube file has no valid LUT_3D_SIZE.");
+    if (values.length !== size ** 3 * 3) throw new Error(`The .cube file should have ${size ** 3} colours but has ${values.length / 3}.`);
+    return { title, size, data: Float32Array.from(values) };
+};
+
+/**
+ * Writes a look as a 3D .cube LUT by running every entry's colour through it. Grain and blur can't be
+ * expressed as a colour lookup and are left out.
+ */
+export const writeCubeLut = (title: string, look: AdjustmentLook, size: number = CUBE_EXPORT_SIZE): string => {
+    const count = size ** 3;
+    const data = new Uint8ClampedArray(count * 4);
+    for (let i = 0; i < count; i++) {
+        data[i * 4] = Math.round((i % size) / (size - 1) * 255);
+        data[i * 4 + 1] = Math.round((Math.floor(i / size) % size) / (size - 1) * 255);
+        data[i * 4 + 2] = Math.round(Math.floor(i / (size * size)) / (size - 1) * 255);
+        data[i * 4 + 3] = 255;
+    }
+    applyPixelAdjustmentsToData(data, new Uint8ClampedArray(data), { ...look, grain: 0 });
+
+    const lines = [`TITLE "${title.replace(/"/g, "'")}"`, `LUT_3D_SIZE ${size}`, 'DOMAIN_MIN 0.0 0.0 0.0', 'DOMAIN_MAX 1.0 1.0 1.0'];
+    for (let i = 0; i < count; i++) {
+        lines.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2]].map(value => (value / 255).toFixed(6)).join(' '));
+    }
+    return `${lines.join('\n')}\n`;
+};
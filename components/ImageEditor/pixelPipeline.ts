@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type PixelRenderOptions, type PixelRenderResult } from './ImageEditor.types';
+import { renderPixelAdjustments } from './ImageEditor.utils';
+
+// Messages to and from pixelWorker.ts.
+export type PixelWorkerRequest =
+    | { type: 'render'; id: number; source: ImageBitmap; mask: ImageBitmap | null; options: PixelRenderOptions }
+    | { type: 'cancel'; id: number };
+export type PixelWorkerResponse = { id: number; result: PixelRenderResult | null; error?: string };
+
+// undefined until the first render tries to start it; null when it couldn't be started or crashed.
+let worker: Worker | null | undefined;
+let nextRenderId = 1;
+const pendingRenders = new Map<number, { resolve: (result: PixelRenderResult | null) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+    if (worker !== undefined) return worker;
+    try {
+        const instance = new Worker(new URL('./pixelWorker.ts', import.meta.url), { type: 'module' });
+        instance.onmessage = (event: MessageEvent<PixelWorkerResponse>) => {
+            const { id, result, error } = event.data;
+            const pending = pendingRenders.get(id);
+            if (!pending) { result?.image.close(); return; }
+            pendingRenders.delete(id);
+            if (error) pending.reject(new Error(error));
+            else pending.resolve(result);
+        };
+        instance.onerror = (event) => {
+            // Renders from now on run on the main thread.
+            console.error("Pixel worker failed:", event.message);
+            instance.terminate();
+            worker = null;
+            pendingRenders.forEach(pending => pending.reject(new Error("Pixel worker failed")));
+            pendingRenders.clear();
+        };
+        worker = instance;
+    } catch (error) {
+        console.error("Could not start the pixel worker:", error);
+        worker = null;
+    }
+    return worker;
+};
+
+/**
+ * Renders the adjustments over an image (already rotated and flipped, at the size wanted) in a Web Worker,
+ * so the page stays responsive. Aborting the signal stops the render between chunks.
+ * @returns The adjusted image, which the caller must close, and its histogram; or null when the render was aborted.
+ */
+export const renderAdjustedImage = async (
+    source: ImageBitmapSource,
+    mask: ImageBitmapSource | null,
+    options: PixelRenderOptions,
+    signal?: AbortSignal
+): Promise<PixelRenderResult | null> => {
+    const [sourceBitmap, maskBitmap] = await Promise.all([createImageBitmap(source), mask ? createImageBitmap(mask) : Promise.resolve(null)]);
+    if (signal?.aborted) {
+        sourceBitmap.close(); maskBitmap?.close();
+        return null;
+    }
+
+    const activeWorker = getWorker();
+    if (!activeWorker) {
+        try {
+            return await renderPixelAdjustments(sourceBitmap, maskBitmap, options, () => !!signal?.aborted);
+        } finally {
+            sourceBitmap.close(); maskBitmap?.close();
+        }
+    }
+
+    const id = nextRenderId++;
+    const onAbort = () => { if (pendingRenders.has(id)) activeWorker.postMessage({ type: 'cancel', id } satisfies PixelWorkerRequest); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+        return await new Promise<PixelRenderResult | null>((resolve, reject) => {
+            pendingRenders.set(id, { resolve, reject });
+            const request: PixelWorkerRequest = { type: 'render', id, source: sourceBitmap, mask: maskBitmap, options };
+            activeWorker.postMessage(request, maskBitmap ? [sourceBitmap, maskBitmap] : [sourceBitmap]);
+        });
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Runs the Image Editor's adjustment pipeline off the main thread. Started by pixelPipeline.ts.
+import type { PixelWorkerRequest, PixelWorkerResponse } from './pixelPipeline';
+import { renderPixelAdjustments } from './ImageEditor.utils';
+
+const scope = self as unknown as Worker;
+// Renders asked to stop. They're checked between chunks, so a newer render doesn't wait for an old one.
+const cancelledIds = new Set<number>();
+
+scope.onmessage = async (event: MessageEvent<PixelWorkerRequest>) => {
+    const message = event.data;
+    if (message.type === 'cancel') {
+        cancelledIds.add(message.id);
+        return;
+    }
+
+    const { id, source, mask, options } = message;
+    let response: PixelWorkerResponse;
+    try {
+        response = { id, result: await renderPixelAdjustments(source, mask, options, () => cancelledIds.has(id)) };
+    } catch (error) {
+        response = { id, result: null, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+        source.close(); mask?.close();
+        cancelledIds.delete(id);
+    }
+    scope.postMessage(response, response.result ? [response.result.image] : []);
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { type EditorStateSnapshot, type EditSessionRecord } from './ImageEditor.types';
+import { hashImageUrl, packHistory, unpackHistory } from './editSession';
+import * as db from '../../lib/db';
+
+interface UseEditSessionOptions {
+    isOpen: boolean;
+    // The image the editor was opened with.
+    sourceUrl: string | null;
+    history: EditorStateSnapshot[];
+    historyIndex: number;
+    setHistory: (history: EditorStateSnapshot[]) => void;
+    setHistoryIndex: (index: number) => void;
+    restoreState: (snapshot: EditorStateSnapshot) => void;
+    originalImageRef: React.MutableRefObject<HTMLImageElement | null>;
+}
+
+const createId = () => Math.random().toString(36).substring(2, 9);
+
+/**
+ * Keeps the editor's history as a session in IndexedDB when the image is saved, and offers to resume a
+ * saved session when the editor is opened on an image one started from or produced.
+ */
+export const useEditSession = ({
+    isOpen, sourceUrl, history, historyIndex, setHistory, setHistoryIndex, restoreState, originalImageRef,
+}: UseEditSessionOptions) => {
+    const [resumableSession, setResumableSession] = useState<EditSessionRecord | null>(null);
+    const [isResumingSession, setIsResumingSession] = useState(false);
+    // The session being edited: a new one until a saved one is resumed.
+    const sessionRef = useRef<{ id: string; createdAt: number; sourceHash: Promise<string> } | null>(null);
+
+    useEffect(() => {
+        setResumableSession(null);
+        sessionRef.current = null;
+        if (!isOpen || !sourceUrl) return;
+        let isCancelled = false;
+        const sourceHash = hashImageUrl(sourceUrl);
+        sessionRef.current = { id: createId(), createdAt: Date.now(), sourceHash };
+        sourceHash
+            .then(db.findEditSession)
+            .then(session => { if (!isCancelled && session) setResumableSession(session); })
+            .catch(err => console.error("Failed to look up saved edit session:", err));
+        return () => { isCancelled = true; };
+    }, [isOpen, sourceUrl]);
+
+    const handleResumeSession = useCallback(async () => {
+        if (!resumableSession) return;
+        setIsResumingSession(true);
+        try {
+            const steps = await unpackHistory(resumableSession.images, resumableSession.steps);
+            const index = Math.min(resumableSession.historyIndex, steps.length - 1);
+            const original = new Image();
+            original.crossOrigin = "anonymous";
+            original.onload = () => { originalImageRef.current = original; };
+            original.src = steps[0].imageUrl;
+            setHistory(steps);
+            setHistoryIndex(index);
+            restoreState(steps[index]);
+            sessionRef.current = { id: resumableSession.id, createdAt: resumableSession.createdAt, sourceHash: Promise.resolve(resumableSession.sourceHash) };
+            setResumableSession(null);
+        } catch (error) {
+            console.error("Error resuming edit session:", error);
+            alert("The saved edits could not be opened.");
+        } finally {
+            setIsResumingSession(false);
+        }
+    }, [resumableSession, setHistory, setHistoryIndex, restoreState, originalImageRef]);
+
+    const dismissResumableSession = useCallback(() => setResumableSession(null), []);
+
+    /**
+     * Saves the history as the session behind a saved image. Errors are logged rather than thrown, so saving
+     * the image itself never fails because of it.
+     * @param resultUrl The image that was saved.
+     */
+    const saveEditSession = useCallback(async (resultUrl: string) => {
+        const session = sessionRef.current;
+        if (!session || history.length < 2) return;
+        try {
+            const [sourceHash, resultHash, { images, steps }] = await Promise.all([session.sourceHash, hashImageUrl(resultUrl), packHistory(history)]);
+            await db.saveEditSession({
+                id: session.id, sourceHash, resultHash, createdAt: session.createdAt, updatedAt: Date.now(),
+                images, steps, historyIndex,
+            });
+        } catch (error) {
+            console.error("Error saving edit session:", error);
+        }
+    }, [history, historyIndex]);
+
+    return { resumableSession, isResumingSession, handleResumeSession, dismissResumableSession, saveEditSession };
+};
@@ -4,25 +4,31 @@
 */
 import React, { useState, useRef, useEffect, useCallback, useMemo, ChangeEvent } from 'react';
 import { useMotionValue, useMotionValueEvent } from 'framer-motion';
-import { handleFileUpload, type ImageToEdit } from '../uiUtils';
-import { removeImageBackground, editImageWithPrompt } from '../../services/geminiService';
+import { handleFileUpload, useAppControls, type ImageToEdit } from '../uiUtils';
+import { removeImageBackground, editImageWithPrompt, inpaintImageWithPrompt, getLocalizedErrorMessage } from '../../services/geminiService';
 import { 
     type Tool, type EditorStateSnapshot, type Point, type Rect, type CropResizeHandle, type CropAction,
     type Interaction, type SelectionStroke, type PenNode, type ColorChannel,
-    type ColorAdjustments,
+    type ColorAdjustments, type PixelAdjustments, type PreviewQuality, type ToneCurves, type CurveChannel,
+    type LevelsAdjustment, type Histogram, type ColorLut,
 } from './ImageEditor.types';
-import { INITIAL_COLOR_ADJUSTMENTS, COLOR_CHANNELS, HANDLE_SIZE, OVERLAY_PADDING } from './ImageEditor.constants';
+import { INITIAL_COLOR_ADJUSTMENTS, INITIAL_TONE_CURVES, INITIAL_LEVELS, HANDLE_SIZE, OVERLAY_PADDING, DRAFT_PREVIEW_SIZE, FULL_PREVIEW_DELAY, AI_MASK_COLOR } from './ImageEditor.constants';
 import { 
-    rgbToHsl, hslToRgb, isPointInRect, getRatioValue, getHandleAtPoint, 
+    isPointInRect, getRatioValue, getHandleAtPoint, 
     getCursorForHandle, approximateCubicBezier, getPerspectiveTransform, warpPerspective, hexToRgba,
-    createFeatheredMask
+    createFeatheredMask, getNeutralizingWhiteBalance, loadImage, createInpaintingMaskDataUrl, compositeThroughMask
 } from './ImageEditor.utils';
+import { renderAdjustedImage } from './pixelPipeline';
+import { useLookPresets } from './useLookPresets';
+import { useEditSession } from './useEditSession';
 
 
 export const useImageEditorState = (
     imageToEdit: ImageToEdit | null,
     canvasViewRef: React.RefObject<HTMLDivElement>
 ) => {
+    const { t } = useAppControls();
+
     // --- State & Refs ---
     const [internalImageUrl, setInternalImageUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -49,9 +55,15 @@ export const useImageEditorState = (
     const [flipVertical, setFlipVertical] = useState(false);
     const [isInverted, setIsInverted] = useState(false);
     const [colorAdjustments, setColorAdjustments] = useState<ColorAdjustments>(INITIAL_COLOR_ADJUSTMENTS);
+    const [curves, setCurves] = useState<ToneCurves>(INITIAL_TONE_CURVES);
+    const [levels, setLevels] = useState<LevelsAdjustment>(INITIAL_LEVELS);
+    const [lut, setLut] = useState<ColorLut | null>(null);
     
     // UI states
-    const [openSection, setOpenSection] = useState<'adj' | 'hls' | 'effects' | 'magic' | null>('magic');
+    const [openSection, setOpenSection] = useState<'adj' | 'hls' | 'tone' | 'effects' | 'looks' | 'history' | 'magic' | null>('magic');
+    const [activeCurveChannel, setActiveCurveChannel] = useState<CurveChannel>('rgb');
+    // Of the latest preview render, for the curves and levels panel.
+    const [histogram, setHistogram] = useState<Histogram | null>(null);
     const [isGalleryPickerOpen, setIsGalleryPickerOpen] = useState(false);
     const [isWebcamModalOpen, setIsWebcamModalOpen] = useState(false);
     const [activeColorTab, setActiveColorTab] = useState<ColorChannel>(Object.keys(INITIAL_COLOR_ADJUSTMENTS)[0] as ColorChannel);
@@ -63,6 +75,8 @@ export const useImageEditorState = (
     const [brushHardness, setBrushHardness] = useState(50);
     const [brushOpacity, setBrushOpacity] = useState(50);
     const [brushColor, setBrushColor] = useState('#ffffff');
+    // What a colour picker click does: set the brush colour, or neutralise the white balance there.
+    const [colorPickerMode, setColorPickerMode] = useState<'brush' | 'whiteBalance'>('brush');
     const [isDrawing, setIsDrawing] = useState(false);
     const [cursorPosition, setCursorPosition] = useState<Point | null>(null);
     const [isCursorOverCanvas, setIsCursorOverCanvas] = useState(false);
@@ -86,6 +100,9 @@ export const useImageEditorState = (
     const [marqueeRect, setMarqueeRect] = useState<Rect | null>(null);
     const [ellipseRect, setEllipseRect] = useState<Rect | null>(null);
     const [featherAmount, setFeatherAmount] = useState(0);
+    // The mask painted with the mask tool, for AI edits. It isn't part of the history, like the selection.
+    const [hasAiMask, setHasAiMask] = useState(false);
+    const [maskBrushMode, setMaskBrushMode] = useState<'paint' | 'erase'>('paint');
 
     const panX = useMotionValue(0);
     const panY = useMotionValue(0);
@@ -104,13 +121,17 @@ export const useImageEditorState = (
     const drawingCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const tempDrawingCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const aiMaskCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationFrameRef = useRef<number | null>(null);
     const interactionStartRef = useRef<{ mouse: Point; selection?: Rect, handle?: CropResizeHandle | null | number } | null>(null);
     const selectionModifierRef = useRef<'new' | 'add' | 'subtract'>('new');
     const currentDrawingPointsRef = useRef<Point[]>([]);
     const previousToolRef = useRef<Tool | null>(null);
     const lastPointRef = useRef<Point | null>(null);
-    const drawAdjustedImageRef = useRef<(() => void) | null>(null);
+    const drawAdjustedImageRef = useRef<((quality?: PreviewQuality) => void) | null>(null);
+    const fullPreviewTimeoutRef = useRef<number | null>(null);
+    // The preview render in progress, aborted when a newer one starts.
+    const previewRenderRef = useRef<AbortController | null>(null);
     const panStartRef = useRef<{ pan: {x: number, y: number}, pointer: Point } | null>(null);
 
     const isOpen = imageToEdit !== null;
@@ -146,20 +167,30 @@ export const useImageEditorState = (
         setEllipseRect(null);
     }, []);
 
+    const clearAiMask = useCallback(() => {
+        const canvas = aiMaskCanvasRef.current;
+        canvas?.getContext('2d', { willReadFrequently: true })?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasAiMask(false);
+    }, []);
+
     const captureState = useCallback((): EditorStateSnapshot => ({
         luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur,
         rotation, flipHorizontal, flipVertical, isInverted, colorAdjustments, brushHardness, brushOpacity,
         drawingCanvasDataUrl: drawingCanvasRef.current?.toDataURL('image/png') ?? null,
         imageUrl: internalImageUrl!,
+        curves, levels, lut,
     }), [
         luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur,
-        rotation, flipHorizontal, flipVertical, isInverted, colorAdjustments, brushHardness, brushOpacity, internalImageUrl
+        rotation, flipHorizontal, flipVertical, isInverted, colorAdjustments, brushHardness, brushOpacity, internalImageUrl,
+        curves, levels, lut
     ]);
 
     const pushHistory = useCallback((newState: EditorStateSnapshot) => {
         const newHistory = history.slice(0, historyIndex + 1);
         const lastState = newHistory[newHistory.length - 1];
-        if (lastState && JSON.stringify(lastState) === JSON.stringify(newState)) return;
+        // LUTs are large and never changed in place, so they're compared by reference.
+        const withoutLut = (snapshot: EditorStateSnapshot) => JSON.stringify({ ...snapshot, lut: null });
+        if (lastState && lastState.lut === newState.lut && withoutLut(lastState) === withoutLut(newState)) return;
         newHistory.push(newState);
         setHistory(newHistory);
         setHistoryIndex(newHistory.length - 1);
@@ -174,6 +205,9 @@ export const useImageEditorState = (
         setBrushHardness(snapshot.brushHardness);
         setBrushOpacity(snapshot.brushOpacity);
         setColorAdjustments(snapshot.colorAdjustments);
+        setCurves(snapshot.curves);
+        setLevels(snapshot.levels);
+        setLut(snapshot.lut);
         
         if (internalImageUrl !== snapshot.imageUrl) {
             setInternalImageUrl(snapshot.imageUrl);
@@ -189,24 +223,41 @@ export const useImageEditorState = (
                 img.src = snapshot.drawingCanvasDataUrl;
             }
         }
-    }, [internalImageUrl, setLuminance, setContrast, setTemp, setTint, setSaturation, setVibrance, setHue, setGrain, setClarity, setDehaze, setBlur, setRotation, setFlipHorizontal, setFlipVertical, setIsInverted, setBrushHardness, setBrushOpacity, setColorAdjustments, setInternalImageUrl]);
+    }, [internalImageUrl, setLuminance, setContrast, setTemp, setTint, setSaturation, setVibrance, setHue, setGrain, setClarity, setDehaze, setBlur, setRotation, setFlipHorizontal, setFlipVertical, setIsInverted, setBrushHardness, setBrushOpacity, setColorAdjustments, setCurves, setLevels, setLut, setInternalImageUrl]);
+
+    // Replaces a draft preview (or one waiting to be drawn) with a full-size render straight away.
+    const renderFullPreview = useCallback(() => {
+        if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+        if (fullPreviewTimeoutRef.current) clearTimeout(fullPreviewTimeoutRef.current);
+        animationFrameRef.current = null;
+        fullPreviewTimeoutRef.current = null;
+        drawAdjustedImageRef.current?.('full');
+    }, []);
 
     const commitState = useCallback(() => {
         if (!internalImageUrl) return;
+        // Sliders commit when they're released, which is when the draft preview should go.
+        renderFullPreview();
         const snapshot = captureState();
         pushHistory(snapshot);
-    }, [captureState, pushHistory, internalImageUrl]);
+    }, [captureState, pushHistory, internalImageUrl, renderFullPreview]);
+
+    const lookPresets = useLookPresets({ isOpen, captureState, pushHistory, restoreState });
+    const editSession = useEditSession({
+        isOpen, sourceUrl: imageToEdit?.url ?? null, history, historyIndex, setHistory, setHistoryIndex, restoreState, originalImageRef,
+    });
 
     const resetAll = useCallback((keepImage = false) => {
         // Reset all adjustments and tool states
         setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
         setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false); setGrain(0); setClarity(0); setDehaze(0); setBlur(0);
         setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS); setActiveColorTab(Object.keys(INITIAL_COLOR_ADJUSTMENTS)[0] as keyof typeof INITIAL_COLOR_ADJUSTMENTS); setOpenSection('magic');
-        setActiveTool(null); setBrushSize(20); setBrushHardness(50); setBrushOpacity(50); setBrushColor('#ffffff');
+        setCurves(INITIAL_TONE_CURVES); setLevels(INITIAL_LEVELS); setLut(null); setActiveCurveChannel('rgb'); setHistogram(null);
+        setActiveTool(null); setBrushSize(20); setBrushHardness(50); setBrushOpacity(50); setBrushColor('#ffffff'); setColorPickerMode('brush');
         setCropSelection(null); setCropAspectRatio('Free'); setCropAction(null);
         setPerspectiveCropPoints([]); setHoveredPerspectiveHandleIndex(null);
         deselect(); setInteractionState('none'); setFeatherAmount(0);
-        setAiEditPrompt('');
+        setAiEditPrompt(''); clearAiMask(); setMaskBrushMode('paint');
         
         // Clear drawing canvas
         if (drawingCanvasRef.current) {
@@ -226,8 +277,8 @@ export const useImageEditorState = (
                     imageUrl: originalUrl,
                     luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
                     grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false,
-                    isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-                    drawingCanvasDataUrl: null,
+                    isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null,
+                    drawingCanvasDataUrl: null, operation: { type: 'reset' },
                 };
                 setHistory([initialSnapshot]);
                 setHistoryIndex(0);
@@ -238,7 +289,7 @@ export const useImageEditorState = (
             setHistory([]);
             setHistoryIndex(-1);
         }
-    }, [deselect]);
+    }, [deselect, clearAiMask]);
     
     const setupNewImage = useCallback((newUrl: string) => {
         resetAll(false);
@@ -256,8 +307,8 @@ export const useImageEditorState = (
             luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
             grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false,
             isInverted: false, brushHardness: 50, brushOpacity: 50,
-            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-            drawingCanvasDataUrl: null,
+            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null,
+            drawingCanvasDataUrl: null, operation: { type: 'open' },
         };
         setHistory([initialSnapshot]);
         setHistoryIndex(0);
@@ -277,96 +328,32 @@ export const useImageEditorState = (
     }, [setupNewImage]);
     
     // --- Canvas & Drawing Logic ---
-    const applyPixelAdjustments = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number, options: { ignoreSelection?: boolean } = {}) => {
-        const sourceImageData = ctx.getImageData(0, 0, width, height);
-        const originalData = new Uint8ClampedArray(sourceImageData.data);
-        const data = sourceImageData.data;
-    
-        // Create a selection mask if a selection is active
-        let selectionMask: Uint8ClampedArray | null = null;
-        if (!options.ignoreSelection && isSelectionActive && selectionPath) {
-            const maskCanvas = createFeatheredMask(selectionPath, width, height, featherAmount);
-            const maskCtx = maskCanvas.getContext('2d');
-            if (maskCtx) {
-                selectionMask = maskCtx.getImageData(0, 0, width, height).data;
-            }
-        }
-    
-        const contrastFactor = (100 + contrast) / 100;
-        const clarityFactor = clarity / 200;
-        const dehazeFactor = dehaze / 100;
-        const grainAmount = grain * 2.55;
-    
-        for (let i = 0; i < data.length; i += 4) {
-            const blendFactor = selectionMask ? (selectionMask[i + 3] / 255) : 1;
-            
-            if (blendFactor < 0.001 && !options.ignoreSelection) {
-                continue;
-            }
-    
-            let r = originalData[i], g = originalData[i + 1], b = originalData[i + 2];
-            
-            if (isInverted) { r = 255 - r; g = 255 - g; b = 255 - b; }
-            r = (r - 127.5) * contrastFactor + 127.5; g = (g - 127.5) * contrastFactor + 127.5; b = (b - 127.5) * contrastFactor + 127.5;
-            r += temp / 2.5; g += tint / 2.5; b -= temp / 2.5;
-            let [h, s, l] = rgbToHsl(r, g, b);
-            
-            const vibranceAmount = vibrance / 100;
-            if (vibranceAmount !== 0) {
-                 const max_rgb = Math.max(r, g, b); 
-                 const avg_rgb = (r + g + b) / 3;
-                 const sat_delta = max_rgb - avg_rgb;
-                 // Vibrance should have less effect on saturated colors.
-                 // We create a multiplier that is close to 1 for low saturation and close to 0 for high saturation.
-                 // sat_delta is a proxy for saturation, ranging roughly from 0 to 170.
-                 const vibrance_mult = 1 - (sat_delta / 200); // Normalize roughly to 0-1 range and invert
-                 s += (vibranceAmount * 100) * vibrance_mult;
-            }
-
-            h = (h + hue) % 360; l += luminance / 2; s += saturation;
-
-            if (clarity !== 0) l += (l - 50) * clarityFactor;
-            if (dehaze !== 0) { l = l - (50 - l) * dehazeFactor; s = s + s * (1 - s/100) * dehazeFactor * 0.5; }
-
-            // --- NEW: Smooth HSL color adjustments ---
-            let totalHueAdj = 0, totalSatAdj = 0, totalLumAdj = 0;
-            // The influence of a color channel extends 60 degrees on either side of its center.
-            const HUE_RANGE_WIDTH = 60; 
-
-            for (const channel of COLOR_CHANNELS) {
-                const center = channel.center;
-                // Calculate the shortest distance on the color wheel (0-360 degrees)
-                const dist = Math.min(Math.abs(h - center), 360 - Math.abs(h - center));
-                
-                // If the hue is within the influence range...
-                if (dist < HUE_RANGE_WIDTH) {
-                    // Calculate the influence factor (1 at center, 0 at edge)
-                    const influence = 1 - (dist / HUE_RANGE_WIDTH);
-                    const adj = colorAdjustments[channel.id];
-                    
-                    // Add the weighted adjustment to the totals
-                    totalHueAdj += adj.h * influence;
-                    totalSatAdj += adj.s * influence;
-                    totalLumAdj += adj.l * influence;
-                }
-            }
-            h += totalHueAdj;
-            s += totalSatAdj;
-            l += totalLumAdj;
-
-            if (h < 0) h += 360;
-            s = Math.max(0, Math.min(100, s)); l = Math.max(0, Math.min(100, l));
-            [r, g, b] = hslToRgb(h, s, l);
-            if (grain > 0) { const noise = (Math.random() - 0.5) * grainAmount; r += noise; g += noise; b += noise; }
-    
-            data[i] = originalData[i] * (1 - blendFactor) + r * blendFactor;
-            data[i+1] = originalData[i+1] * (1 - blendFactor) + g * blendFactor;
-            data[i+2] = originalData[i+2] * (1 - blendFactor) + b * blendFactor;
-        }
-        ctx.putImageData(sourceImageData, 0, 0);
-    }, [luminance, contrast, temp, tint, saturation, vibrance, hue, colorAdjustments, grain, clarity, dehaze, isInverted, isSelectionActive, selectionPath, featherAmount]);
-
-    const drawAdjustedImage = useCallback(() => {
+    const pixelAdjustments = useMemo<PixelAdjustments>(() => ({
+        luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, isInverted, colorAdjustments, curves, levels, lut,
+    }), [luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, isInverted, colorAdjustments, curves, levels, lut]);
+
+    // The image rotated and flipped into a canvas of the given size, with no adjustments.
+    const drawTransformedSource = useCallback((image: HTMLImageElement, width: number, height: number): HTMLCanvasElement | null => {
+        const sourceCanvas = document.createElement('canvas');
+        sourceCanvas.width = width;
+        sourceCanvas.height = height;
+        const sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+        if (!sourceCtx) return null;
+        const isSwapped = rotation === 90 || rotation === 270;
+        const drawWidth = isSwapped ? sourceCanvas.height : sourceCanvas.width;
+        const drawHeight = isSwapped ? sourceCanvas.width : sourceCanvas.height;
+        sourceCtx.translate(sourceCanvas.width / 2, sourceCanvas.height / 2);
+        sourceCtx.rotate(rotation * Math.PI / 180);
+        sourceCtx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
+        sourceCtx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+        return sourceCanvas;
+    }, [rotation, flipHorizontal, flipVertical]);
+
+    /**
+     * Renders the adjusted image into the preview canvas. The pixel work runs in a worker; a draft is
+     * rendered small and stretched, to keep up with a slider being dragged.
+     */
+    const drawAdjustedImage = useCallback(async (quality: PreviewQuality = 'full') => {
         if (!previewCanvasRef.current) return;
         const canvas = previewCanvasRef.current;
         const ctx = canvas.getContext('2d');
@@ -378,68 +365,40 @@ export const useImageEditorState = (
             return;
         }
 
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        previewRenderRef.current?.abort();
+        previewRenderRef.current = null;
 
         // If showing original, just draw it and return. No transforms/adjustments.
         if (isShowingOriginal) {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
             ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
             return;
         }
     
-        // --- Draw transformed image without any filters ---
-        const isSwapped = rotation === 90 || rotation === 270;
-        const drawWidth = isSwapped ? canvas.height : canvas.width;
-        const drawHeight = isSwapped ? canvas.width : canvas.height;
-        ctx.save();
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate(rotation * Math.PI / 180);
-        ctx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-        ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-        ctx.restore();
-    
-        // --- Apply selective HSL/etc adjustments ---
-        applyPixelAdjustments(ctx, canvas.width, canvas.height);
-    
-        // --- Apply selective (or global) blur ---
-        if (blur > 0) {
-            const unblurredCanvas = document.createElement('canvas');
-            unblurredCanvas.width = canvas.width;
-            unblurredCanvas.height = canvas.height;
-            const unblurredCtx = unblurredCanvas.getContext('2d');
-            if (!unblurredCtx) return;
-            unblurredCtx.drawImage(canvas, 0, 0); // Capture the state after adjustments
-    
-            const blurredCanvas = document.createElement('canvas');
-            blurredCanvas.width = canvas.width;
-            blurredCanvas.height = canvas.height;
-            const blurredCtx = blurredCanvas.getContext('2d');
-            if (!blurredCtx) return;
-    
-            blurredCtx.filter = `blur(${blur}px)`;
-            blurredCtx.drawImage(unblurredCanvas, 0, 0);
-    
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            
-            if (isSelectionActive && selectionPath) {
-                // If there's a selection, composite blurred and unblurred versions using a feathered mask.
-                const maskCanvas = createFeatheredMask(selectionPath, canvas.width, canvas.height, featherAmount);
-
-                // Start with the unblurred image on the main canvas
-                ctx.drawImage(unblurredCanvas, 0, 0);
-
-                // Now, "cut out" the blurred image using the feathered mask
-                blurredCtx.globalCompositeOperation = 'destination-in';
-                blurredCtx.drawImage(maskCanvas, 0, 0);
-
-                // Finally, draw the masked blurred image on top of the unblurred one.
-                ctx.drawImage(blurredCanvas, 0, 0);
-
-            } else {
-                // No selection, just draw the fully blurred image.
-                ctx.drawImage(blurredCanvas, 0, 0);
+        // --- Draw transformed image without any filters, at the size being rendered ---
+        const renderScale = quality === 'draft' ? Math.min(1, DRAFT_PREVIEW_SIZE / Math.max(canvas.width, canvas.height)) : 1;
+        const sourceCanvas = drawTransformedSource(image, Math.max(1, Math.round(canvas.width * renderScale)), Math.max(1, Math.round(canvas.height * renderScale)));
+        if (!sourceCanvas) return;
+
+        // --- Apply adjustments and blur, only inside the selection when there is one ---
+        const mask = isSelectionActive && selectionPath ? createFeatheredMask(selectionPath, canvas.width, canvas.height, featherAmount) : null;
+        const controller = new AbortController();
+        previewRenderRef.current = controller;
+        try {
+            const adjusted = await renderAdjustedImage(sourceCanvas, mask, { adjustments: pixelAdjustments, blur: blur * renderScale }, controller.signal);
+            if (!adjusted) return;
+            if (!controller.signal.aborted) {
+                ctx.clearRect(0, 0, canvas.width, canvas.height);
+                ctx.drawImage(adjusted.image, 0, 0, canvas.width, canvas.height);
+                setHistogram(adjusted.histogram);
             }
+            adjusted.image.close();
+        } catch (error) {
+            console.error("Error rendering adjustments:", error);
+        } finally {
+            if (previewRenderRef.current === controller) previewRenderRef.current = null;
         }
-    }, [rotation, flipHorizontal, flipVertical, applyPixelAdjustments, blur, isSelectionActive, selectionPath, isShowingOriginal, featherAmount]);
+    }, [drawTransformedSource, pixelAdjustments, blur, isSelectionActive, selectionPath, isShowingOriginal, featherAmount]);
 
     useEffect(() => {
         if(drawAdjustedImageRef) {
@@ -488,7 +447,7 @@ export const useImageEditorState = (
         
         // For eraser, the color doesn't matter for the gradient, only the alpha channel.
         // For brush, we use the selected color.
-        const color = (activeTool === 'brush') ? brushColor : '#000000';
+        const color = (activeTool === 'brush') ? brushColor : (activeTool === 'mask') ? AI_MASK_COLOR : '#000000';
         
         // We need RGBA strings to manipulate alpha for the gradient stops.
         const colorOpaque = hexToRgba(color, 100);
@@ -542,6 +501,28 @@ export const useImageEditorState = (
             return;
         }
 
+        if (activeTool === 'colorpicker' && colorPickerMode === 'whiteBalance') {
+            // Sample the image before adjustments, averaged over a few pixels so noise doesn't throw it off.
+            const image = sourceImageRef.current;
+            const sourceCanvas = image && drawTransformedSource(image, canvasDimensions.width, canvasDimensions.height);
+            const sample = sourceCanvas?.getContext('2d', { willReadFrequently: true })?.getImageData(Math.round(coords.x) - 2, Math.round(coords.y) - 2, 5, 5).data;
+            if (!sample) return;
+            const total = [0, 0, 0];
+            let count = 0;
+            for (let i = 0; i < sample.length; i += 4) {
+                if (sample[i + 3] === 0) continue;
+                total[0] += sample[i]; total[1] += sample[i + 1]; total[2] += sample[i + 2]; count++;
+            }
+            if (count === 0) return;
+            const whiteBalance = getNeutralizingWhiteBalance([total[0] / count, total[1] / count, total[2] / count], { contrast, isInverted });
+            const newSnapshot: EditorStateSnapshot = { ...captureState(), ...whiteBalance, operation: { type: 'white-balance' } };
+            pushHistory(newSnapshot);
+            restoreState(newSnapshot);
+            setColorPickerMode('brush');
+            setActiveTool(null);
+            return;
+        }
+
         if (activeTool === 'colorpicker') {
             const previewCtx = previewCanvasRef.current?.getContext('2d', { willReadFrequently: true });
             if (!previewCtx) return;
@@ -551,7 +532,7 @@ export const useImageEditorState = (
             return;
         }
 
-        if (activeTool === 'brush' || activeTool === 'eraser') {
+        if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask') {
             setIsDrawing(true);
             lastPointRef.current = coords;
             if (!tempDrawingCanvasRef.current) tempDrawingCanvasRef.current = document.createElement('canvas');
@@ -668,7 +649,7 @@ export const useImageEditorState = (
         setCursorPosition(coords); 
         if (!coords) return;
         
-        if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser')) {
+        if (isDrawing && (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask')) {
             const tempCtx = tempDrawingCanvasRef.current?.getContext('2d');
             if (!tempCtx || !lastPointRef.current) return;
             
@@ -787,6 +768,20 @@ export const useImageEditorState = (
                 }
                 commitState();
             }
+            if (activeTool === 'mask' && tempDrawingCanvasRef.current && aiMaskCanvasRef.current) {
+                const maskCanvas = aiMaskCanvasRef.current;
+                const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
+                if (maskCtx) {
+                    maskCtx.save();
+                    maskCtx.globalCompositeOperation = maskBrushMode === 'paint' ? 'source-over' : 'destination-out';
+                    maskCtx.drawImage(tempDrawingCanvasRef.current, -OVERLAY_PADDING, -OVERLAY_PADDING);
+                    maskCtx.restore();
+                    const { data } = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+                    let hasContent = false;
+                    for (let i = 3; i < data.length && !hasContent; i += 4) hasContent = data[i] > 0;
+                    setHasAiMask(hasContent);
+                }
+            }
         }
         if (cropAction) { setCropAction(null); interactionStartRef.current = null; }
         if (interactionState === 'resizingPerspective') {
@@ -846,6 +841,11 @@ export const useImageEditorState = (
     // --- Lifecycle & Side Effects ---
     const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); restoreState(history[newIndex]); } }, [history, historyIndex, restoreState]);
     const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); restoreState(history[newIndex]); } }, [history, historyIndex, restoreState]);
+    // Like undoing or redoing several steps at once; the steps after it stay until something new is done.
+    const handleJumpToHistory = useCallback((index: number) => {
+        if (index < 0 || index >= history.length || index === historyIndex) return;
+        setHistoryIndex(index); restoreState(history[index]);
+    }, [history, historyIndex, restoreState]);
     
     useEffect(() => {
         if (isOpen) {
@@ -854,7 +854,7 @@ export const useImageEditorState = (
                 const image = new Image(); image.crossOrigin = "anonymous"; image.src = url;
                 image.onload = () => {
                     originalImageRef.current = image;
-                    const initialSnapshot: EditorStateSnapshot = { luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, imageUrl: url };
+                    const initialSnapshot: EditorStateSnapshot = { luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: 50, brushOpacity: 50, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null, imageUrl: url, operation: { type: 'open' } };
                     setHistory([initialSnapshot]);
                     setHistoryIndex(0);
                 };
@@ -892,6 +892,10 @@ export const useImageEditorState = (
             canvas.height = canvasHeight;
             drawingCanvas.width = canvasWidth;
             drawingCanvas.height = canvasHeight;
+            if (!aiMaskCanvasRef.current) aiMaskCanvasRef.current = document.createElement('canvas');
+            aiMaskCanvasRef.current.width = canvasWidth;
+            aiMaskCanvasRef.current.height = canvasHeight;
+            setHasAiMask(false);
             overlayCanvas.width = canvasWidth + OVERLAY_PADDING * 2;
             overlayCanvas.height = canvasHeight + OVERLAY_PADDING * 2;
             setCanvasDimensions({ width: canvasWidth, height: canvasHeight });
@@ -907,14 +911,24 @@ export const useImageEditorState = (
         }
     }, [isOpen, internalImageUrl, setupCanvas]);
 
+    // Each change draws a quick draft, then the full-size preview once the changes stop.
     useEffect(() => {
         if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-        if(drawAdjustedImageRef.current) {
-            animationFrameRef.current = requestAnimationFrame(drawAdjustedImageRef.current);
+        if (fullPreviewTimeoutRef.current) clearTimeout(fullPreviewTimeoutRef.current);
+        const canvas = previewCanvasRef.current;
+        const needsDraft = !!canvas && Math.max(canvas.width, canvas.height) > DRAFT_PREVIEW_SIZE;
+        animationFrameRef.current = requestAnimationFrame(() => drawAdjustedImageRef.current?.(needsDraft ? 'draft' : 'full'));
+        if (needsDraft) {
+            fullPreviewTimeoutRef.current = window.setTimeout(() => drawAdjustedImageRef.current?.('full'), FULL_PREVIEW_DELAY);
         }
-        return () => { if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current) };
+        return () => {
+            if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+            if (fullPreviewTimeoutRef.current) clearTimeout(fullPreviewTimeoutRef.current);
+        };
     }, [drawAdjustedImage, canvasDimensions]);
 
+    useEffect(() => () => previewRenderRef.current?.abort(), []);
+
     const getFinalImage = useCallback((): Promise<string | null> => {
         return new Promise((resolve, reject) => {
             if (!sourceImageRef.current || !drawingCanvasRef.current) {
@@ -922,7 +936,7 @@ export const useImageEditorState = (
                 return;
             }
             
-            setTimeout(() => {
+            setTimeout(async () => {
                 try {
                     const image = sourceImageRef.current!;
                     const drawingCanvas = drawingCanvasRef.current!;
@@ -944,22 +958,13 @@ export const useImageEditorState = (
                     finalCtx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
                     finalCtx.restore();
 
-                    // 2. Apply pixel adjustments (filters) to the full-res canvas
-                    // We pass ignoreSelection: true because saving applies to the whole image.
-                    applyPixelAdjustments(finalCtx, finalCanvas.width, finalCanvas.height, { ignoreSelection: true });
-
-                    // 3. Apply blur effect
-                    if (blur > 0) {
-                        const tempCanvas = document.createElement('canvas');
-                        tempCanvas.width = finalCanvas.width;
-                        tempCanvas.height = finalCanvas.height;
-                        const tempCtx = tempCanvas.getContext('2d');
-                        if (!tempCtx) throw new Error("Could not get temp canvas context for blur");
-                        tempCtx.drawImage(finalCanvas, 0, 0);
+                    // 2-3. Apply pixel adjustments (filters) and blur to the full-res canvas, in the worker.
+                    // No selection mask, because saving applies to the whole image.
+                    const adjusted = await renderAdjustedImage(finalCanvas, null, { adjustments: pixelAdjustments, blur });
+                    if (adjusted) {
                         finalCtx.clearRect(0, 0, finalCanvas.width, finalCanvas.height);
-                        finalCtx.filter = `blur(${blur}px)`;
-                        finalCtx.drawImage(tempCanvas, 0, 0);
-                        finalCtx.filter = 'none';
+                        finalCtx.drawImage(adjusted.image, 0, 0);
+                        adjusted.image.close();
                     }
 
                     // 4. Draw brush strokes, scaled up
@@ -979,8 +984,7 @@ export const useImageEditorState = (
             }, 50);
         });
     }, [
-        rotation, flipHorizontal, flipVertical, applyPixelAdjustments, blur,
-        luminance, contrast, temp, tint, saturation, vibrance, hue, colorAdjustments, grain, clarity, dehaze, isInverted
+        rotation, flipHorizontal, flipVertical, pixelAdjustments, blur
     ]);
     
     // --- More Logic (Shortcuts, Actions) ---
@@ -1039,7 +1043,8 @@ export const useImageEditorState = (
             grain: 0, clarity: 0, dehaze: 0, blur: 0,
             rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
             brushHardness: brushHardness, brushOpacity: brushOpacity,
-            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
+            colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null,
+            operation: { type: 'perspective-crop', corners: srcPoints },
         };
     
         pushHistory(postCropState);
@@ -1051,7 +1056,7 @@ export const useImageEditorState = (
     const handleApplyAllAdjustments = useCallback(() => {
         if (!internalImageUrl || !sourceImageRef.current || !previewCanvasRef.current || !drawingCanvasRef.current) return;
         setIsProcessing(true);
-        setTimeout(() => {
+        setTimeout(async () => {
             try {
                 const image = sourceImageRef.current!;
                 const previewCanvas = previewCanvasRef.current!;
@@ -1085,18 +1090,11 @@ export const useImageEditorState = (
                 finalCtx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
                 finalCtx.drawImage(sourceForFinal, -finalWidth / 2, -finalHeight / 2, finalWidth, finalHeight);
                 finalCtx.restore();
-                applyPixelAdjustments(finalCtx, finalCanvas.width, finalCanvas.height, { ignoreSelection: true });
-                if (blur > 0) {
-                    const tempCanvas = document.createElement('canvas');
-                    tempCanvas.width = finalCanvas.width;
-                    tempCanvas.height = finalCanvas.height;
-                    const tempCtx = tempCanvas.getContext('2d');
-                    if(!tempCtx) throw new Error("Could not get temp canvas context for blur");
-                    tempCtx.drawImage(finalCanvas, 0, 0);
-                    finalCtx.clearRect(0,0,finalCanvas.width, finalCanvas.height);
-                    finalCtx.filter = `blur(${blur}px)`;
-                    finalCtx.drawImage(tempCanvas, 0, 0);
-                    finalCtx.filter = 'none';
+                const adjusted = await renderAdjustedImage(finalCanvas, null, { adjustments: pixelAdjustments, blur });
+                if (adjusted) {
+                    finalCtx.clearRect(0, 0, finalCanvas.width, finalCanvas.height);
+                    finalCtx.drawImage(adjusted.image, 0, 0);
+                    adjusted.image.close();
                 }
                 const drawScaleX = finalCanvas.width / drawingCanvas.width;
                 const drawScaleY = finalCanvas.height / drawingCanvas.height;
@@ -1107,7 +1105,7 @@ export const useImageEditorState = (
                 const newDataUrl = finalCanvas.toDataURL('image/png');
                 const resetAndApply = () => {
                     setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
+                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS); setCurves(INITIAL_TONE_CURVES); setLevels(INITIAL_LEVELS); setLut(null);
                     setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
                     setCropSelection(null); setActiveTool(null); deselect();
                     if (drawingCanvasRef.current) {
@@ -1117,7 +1115,7 @@ export const useImageEditorState = (
                     const appliedState: EditorStateSnapshot = {
                         imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
                         grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
+                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null, operation: { type: 'apply-adjustments' },
                     };
                     pushHistory(appliedState);
                 };
@@ -1132,7 +1130,7 @@ export const useImageEditorState = (
                 setIsProcessing(false);
             }
         }, 50);
-    }, [ internalImageUrl, sourceImageRef, previewCanvasRef, drawingCanvasRef, cropSelection, rotation, flipHorizontal, flipVertical, blur, applyPixelAdjustments, pushHistory, deselect, brushHardness, brushOpacity ]);
+    }, [ internalImageUrl, sourceImageRef, previewCanvasRef, drawingCanvasRef, cropSelection, rotation, flipHorizontal, flipVertical, blur, pixelAdjustments, pushHistory, deselect, brushHardness, brushOpacity ]);
 
     const handleApplyAdjustmentsToSelection = useCallback(() => {
         if (!isSelectionActive || !selectionPath || !previewCanvasRef.current || !drawingCanvasRef.current || !sourceImageRef.current) return;
@@ -1185,7 +1183,7 @@ export const useImageEditorState = (
     
                 const resetAndBake = () => {
                     setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
+                    setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS); setCurves(INITIAL_TONE_CURVES); setLevels(INITIAL_LEVELS); setLut(null);
                     setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
                     if (drawingCanvasRef.current) {
                         drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
@@ -1194,7 +1192,7 @@ export const useImageEditorState = (
                     const bakedState: EditorStateSnapshot = {
                         imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
                         grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
-                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
+                        brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null, operation: { type: 'apply-to-selection' },
                     };
                     pushHistory(bakedState);
                 };
@@ -1219,8 +1217,22 @@ export const useImageEditorState = (
             setInteractionState('placingPerspectivePoints');
             setPerspectiveCropPoints([]); // Reset points on tool selection
         }
+        setColorPickerMode('brush');
         setActiveTool(prev => (prev === tool ? null : tool));
     }, [activeTool]);
+
+    // Arms the colour picker to set the white balance from the next click on something that should be grey.
+    const handleStartWhiteBalancePick = useCallback(() => {
+        if (activeTool === 'colorpicker' && colorPickerMode === 'whiteBalance') {
+            setColorPickerMode('brush');
+            setActiveTool(null);
+            return;
+        }
+        setPenPathPoints([]);
+        setCurrentPenDrag(null);
+        setColorPickerMode('whiteBalance');
+        setActiveTool('colorpicker');
+    }, [activeTool, colorPickerMode]);
     const handleCancelCrop = useCallback(() => { setCropSelection(null); setActiveTool(null); }, []);
     const handleApplyCrop = useCallback(() => {
         if (!cropSelection || !sourceImageRef.current || !previewCanvasRef.current) return;
@@ -1235,7 +1247,7 @@ export const useImageEditorState = (
         const cropCtx = cropCanvas.getContext('2d'); if (!cropCtx) return;
         cropCtx.drawImage(image, sx, sy, sWidth, sHeight, 0, 0, sWidth, sHeight);
         const newDataUrl = cropCanvas.toDataURL('image/png');
-        const postCropState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, };
+        const postCropState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null, operation: { type: 'crop', rect: { x: sx, y: sy, width: sWidth, height: sHeight } } };
         pushHistory(postCropState);
         restoreState(postCropState); setCropSelection(null); setActiveTool(null);
     }, [cropSelection, commitState, handleCancelCrop, pushHistory, restoreState, brushHardness, brushOpacity]);
@@ -1261,7 +1273,7 @@ export const useImageEditorState = (
                 ctx.drawImage(maskCanvas, 0, 0);
 
                 const newDataUrl = combinedCanvas.toDataURL('image/png');
-                const bakedState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null, };
+                const bakedState: EditorStateSnapshot = { imageUrl: newDataUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0, grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false, brushHardness: brushHardness, brushOpacity: brushOpacity, colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null, operation: { type: 'delete-selection' } };
                 pushHistory(bakedState); restoreState(bakedState); deselect();
             } catch (error) { console.error("Error deleting content:", error); alert("An error occurred while deleting the selected content."); } 
             finally { setIsProcessing(false); }
@@ -1310,60 +1322,53 @@ export const useImageEditorState = (
         setupNewImage(newUrl);
     }, [setupNewImage]);
 
+    // The area an AI edit may change, from the selection and the painted mask, at the size of the preview.
+    const getAiEditMask = useCallback((): HTMLCanvasElement | null => {
+        const previewCanvas = previewCanvasRef.current;
+        const hasSelection = isSelectionActive && selectionPath !== null;
+        if (!previewCanvas || (!hasSelection && !hasAiMask)) return null;
+        const { width, height } = previewCanvas;
+        let mask: HTMLCanvasElement;
+        if (hasSelection) {
+            mask = createFeatheredMask(selectionPath!, width, height, featherAmount);
+        } else {
+            mask = document.createElement('canvas');
+            mask.width = width;
+            mask.height = height;
+        }
+        if (hasAiMask && aiMaskCanvasRef.current) mask.getContext('2d')?.drawImage(aiMaskCanvasRef.current, 0, 0, width, height);
+        return mask;
+    }, [isSelectionActive, selectionPath, hasAiMask, featherAmount]);
+
     const handleAiEdit = useCallback(async () => {
         if (!aiEditPrompt.trim() || !internalImageUrl) return;
         setIsLoading(true);
 
         try {
-            let imageToSendUrl: string;
-            let promptToSend = aiEditPrompt;
-
             const currentImageAsUrl = await getFinalImage();
             if (!currentImageAsUrl) throw new Error("Could not get current image data.");
 
-            if (isSelectionActive && selectionPath) {
-                const tempCanvas = document.createElement('canvas');
-                const tempCtx = tempCanvas.getContext('2d');
-                const img = new Image();
-
-                await new Promise<void>((resolve, reject) => {
-                    img.onload = () => resolve();
-                    img.onerror = (err) => reject(new Error("Failed to load image for masking."));
-                    img.src = currentImageAsUrl;
-                });
-                
-                tempCanvas.width = img.naturalWidth;
-                tempCanvas.height = img.naturalHeight;
-                if (!tempCtx) throw new Error("Could not get temp canvas context");
-
-                tempCtx.drawImage(img, 0, 0);
-
-                const previewCanvas = previewCanvasRef.current;
-                if (!previewCanvas) throw new Error("Preview canvas not found");
-                const scaleX = img.naturalWidth / previewCanvas.width;
-                const scaleY = img.naturalHeight / previewCanvas.height;
-                
-                tempCtx.save();
-                tempCtx.scale(scaleX, scaleY);
-                tempCtx.fillStyle = 'rgba(255, 0, 0, 0.5)';
-                tempCtx.fill(selectionPath);
-                tempCtx.restore();
-
-                imageToSendUrl = tempCanvas.toDataURL('image/png');
-                promptToSend = `${aiEditPrompt}. **HƯỚNG DẪN DÀNH CHO AI:** Vùng được tô màu đỏ mờ trên ảnh là khu vực duy nhất bạn được phép chỉnh sửa. Vùng màu đỏ này chỉ là một MẶT NẠ (MASK) để chỉ định khu vực, không phải là một phần của ảnh. **YÊU CẦU QUAN TRỌNG NHẤT:** Kết quả cuối cùng TUYỆT ĐỐI không được chứa bất kỳ vùng màu đỏ mờ nào.`;
-
+            // With a mask, the model gets it as a separate input and its result is only let through the
+            // feathered mask, so everything outside stays exactly as it was.
+            const editMask = getAiEditMask();
+            let resultUrl: string;
+            if (editMask) {
+                const currentImage = await loadImage(currentImageAsUrl);
+                const { naturalWidth: width, naturalHeight: height } = currentImage;
+                const maskDataUrl = createInpaintingMaskDataUrl(editMask, width, height);
+                const editedImage = await loadImage(await inpaintImageWithPrompt(currentImageAsUrl, maskDataUrl, aiEditPrompt));
+                resultUrl = compositeThroughMask(currentImage, editedImage, editMask, width, height).toDataURL('image/png');
             } else {
-                imageToSendUrl = currentImageAsUrl;
+                resultUrl = await editImageWithPrompt(currentImageAsUrl, aiEditPrompt);
             }
-
-            const resultUrl = await editImageWithPrompt(imageToSendUrl, promptToSend);
             
             const resetAndApply = () => {
                 setLuminance(0); setContrast(0); setTemp(0); setTint(0); setSaturation(0); setVibrance(0); setHue(0);
-                setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS);
+                setGrain(0); setClarity(0); setDehaze(0); setBlur(0); setColorAdjustments(INITIAL_COLOR_ADJUSTMENTS); setCurves(INITIAL_TONE_CURVES); setLevels(INITIAL_LEVELS); setLut(null);
                 setRotation(0); setFlipHorizontal(false); setFlipVertical(false); setIsInverted(false);
                 setCropSelection(null); 
                 deselect();
+                clearAiMask();
                 if (drawingCanvasRef.current) {
                     drawingCanvasRef.current.getContext('2d')?.clearRect(0, 0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
                 }
@@ -1372,7 +1377,8 @@ export const useImageEditorState = (
                     imageUrl: resultUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
                     grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
                     brushHardness: 50, brushOpacity: 50,
-                    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, drawingCanvasDataUrl: null,
+                    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null,
+                    operation: { type: 'ai-edit', prompt: aiEditPrompt, masked: editMask !== null },
                 };
                 pushHistory(appliedState);
                 setAiEditPrompt('');
@@ -1384,11 +1390,11 @@ export const useImageEditorState = (
             newImage.src = resultUrl;
 
         } catch (err) {
-            alert(`Lỗi với Chỉnh sửa AI: ${err instanceof Error ? err.message : "Đã xảy ra lỗi không xác định."}`);
+            alert(`Lỗi với Chỉnh sửa AI: ${getLocalizedErrorMessage(err, t, "Đã xảy ra lỗi không xác định.")}`);
         } finally {
             setIsLoading(false);
         }
-    }, [aiEditPrompt, internalImageUrl, getFinalImage, isSelectionActive, selectionPath, previewCanvasRef, pushHistory, deselect]);
+    }, [aiEditPrompt, internalImageUrl, getFinalImage, getAiEditMask, pushHistory, deselect, clearAiMask, t]);
     
     const handleSave = useCallback(async () => {
         if (!imageToEdit) return;
@@ -1445,8 +1451,8 @@ export const useImageEditorState = (
                 flipHorizontal: false, flipVertical: false, isInverted: false,
                 brushHardness: brushHardness,
                 brushOpacity: brushOpacity,
-                colorAdjustments: INITIAL_COLOR_ADJUSTMENTS,
-                drawingCanvasDataUrl: null, 
+                colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null,
+                drawingCanvasDataUrl: null, operation: { type: 'rotate', degrees: 90 },
             };
             
             pushHistory(postRotateState);
@@ -1532,12 +1538,13 @@ export const useImageEditorState = (
                     case 'KeyM': handleToolSelect('marquee'); handled = true; break;
                     case 'KeyC': handleToolSelect('crop'); handled = true; break;
                     case 'KeyE': handleToolSelect('eraser'); handled = true; break;
+                    case 'KeyQ': handleToolSelect('mask'); handled = true; break;
                     case 'KeyR':
                         handleRotateCanvas();
                         handled = true;
                         break;
-                    case 'BracketLeft': if (activeTool === 'brush' || activeTool === 'eraser') { setBrushSize(s => Math.max(1, s - (s > 30 ? 5 : 1))); handled = true; } break;
-                    case 'BracketRight': if (activeTool === 'brush' || activeTool === 'eraser') { setBrushSize(s => Math.min(200, s + (s >= 30 ? 5 : 1))); handled = true; } break;
+                    case 'BracketLeft': if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask') { setBrushSize(s => Math.max(1, s - (s > 30 ? 5 : 1))); handled = true; } break;
+                    case 'BracketRight': if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'mask') { setBrushSize(s => Math.min(200, s + (s >= 30 ? 5 : 1))); handled = true; } break;
                 }
                 if (handled) e.preventDefault();
             }
@@ -1571,7 +1578,7 @@ export const useImageEditorState = (
         internalImageUrl, isLoading, isProcessing, setIsProcessing, openSection, activeTool, brushSize, brushColor, brushHardness, brushOpacity, cropSelection, cropAspectRatio,
         cursorPosition, isCursorOverCanvas, isDrawing, isSelectionActive, isSelectionInverted, penPathPoints, currentPenDrag, marqueeRect,
         ellipseRect, interactionState, hoveredCropHandle, historyIndex, history, isGalleryPickerOpen, isWebcamModalOpen, featherAmount,
-        selectionPath, aiEditPrompt,
+        selectionPath, aiEditPrompt, hasAiMask, maskBrushMode,
         perspectiveCropPoints,
         hoveredPerspectiveHandleIndex,
         handleCancelPerspectiveCrop,
@@ -1581,8 +1588,9 @@ export const useImageEditorState = (
         // Filters & Adjustments
         luminance, contrast, temp, tint, saturation, vibrance, hue, grain, clarity, dehaze, blur, rotation, flipHorizontal, flipVertical, isInverted,
         colorAdjustments, activeColorTab,
+        curves, levels, lut, activeCurveChannel, histogram, colorPickerMode,
         // Refs
-        previewCanvasRef, drawingCanvasRef, overlayCanvasRef, tempDrawingCanvasRef,
+        previewCanvasRef, drawingCanvasRef, overlayCanvasRef, tempDrawingCanvasRef, aiMaskCanvasRef,
         currentDrawingPointsRef, lastPointRef,
         // Setters & Handlers
         setInternalImageUrl, setIsLoading, setOpenSection, setActiveTool, setBrushSize, setBrushColor, setBrushHardness, setBrushOpacity, setCropAspectRatio,
@@ -1590,9 +1598,10 @@ export const useImageEditorState = (
         setHoveredCropHandle,
         setLuminance, setContrast, setTemp, setTint, setSaturation, setVibrance, setHue, setGrain, setClarity, setDehaze, setBlur, setRotation, setFlipHorizontal, setFlipVertical, setIsInverted,
         setColorAdjustments, setActiveColorTab,
-        setIsGalleryPickerOpen, setIsWebcamModalOpen, setFeatherAmount, setAiEditPrompt,
+        setCurves, setLevels, setLut, setActiveCurveChannel, handleStartWhiteBalancePick,
+        setIsGalleryPickerOpen, setIsWebcamModalOpen, setFeatherAmount, setAiEditPrompt, setMaskBrushMode, clearAiMask,
         handleActionStart, handleCanvasMouseMove, handleActionEnd,
-        handleUndo, handleRedo, commitState, resetAll, getFinalImage, handleSave,
+        handleUndo, handleRedo, handleJumpToHistory, commitState, resetAll, getFinalImage, handleSave,
         handleToolSelect, handleCancelCrop, handleApplyCrop, handleAiEdit,
         handleRotateCanvas,
         handleFile,
@@ -1616,14 +1625,23 @@ export const useImageEditorState = (
             if (!internalImageUrl) return; setIsLoading(true);
             try {
                 const resultUrl = await removeImageBackground(internalImageUrl);
-                resetAll(true); setInternalImageUrl(resultUrl); commitState();
-            } catch (err) { alert(`Error removing background: ${err instanceof Error ? err.message : "An unknown error occurred."}`); } 
+                const appliedState: EditorStateSnapshot = {
+                    ...captureState(), imageUrl: resultUrl, luminance: 0, contrast: 0, temp: 0, tint: 0, saturation: 0, vibrance: 0, hue: 0,
+                    grain: 0, clarity: 0, dehaze: 0, blur: 0, rotation: 0, flipHorizontal: false, flipVertical: false, isInverted: false,
+                    colorAdjustments: INITIAL_COLOR_ADJUSTMENTS, curves: INITIAL_TONE_CURVES, levels: INITIAL_LEVELS, lut: null, drawingCanvasDataUrl: null,
+                    operation: { type: 'remove-background' },
+                };
+                deselect(); setCropSelection(null);
+                pushHistory(appliedState); restoreState(appliedState);
+            } catch (err) { alert(`Error removing background: ${getLocalizedErrorMessage(err, t, "An unknown error occurred.")}`); } 
             finally { setIsLoading(false); }
         },
         handleInvertColors: () => { const snapshot = captureState(); const newSnapshot = { ...snapshot, isInverted: !snapshot.isInverted }; pushHistory(newSnapshot); restoreState(newSnapshot); },
         handleApplyAllAdjustments,
         handleApplyAdjustmentsToSelection,
         invertSelection, deselect, deleteImageContentInSelection, fillSelection,
+        ...lookPresets,
+        ...editSession,
     };
 };
 
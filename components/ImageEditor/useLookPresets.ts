@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useState, useEffect, useCallback } from 'react';
+import { type EditorStateSnapshot, type AdjustmentPresetRecord } from './ImageEditor.types';
+import { getLookFromSnapshot, serializeLook, parseLookFile, parseCubeLut, writeCubeLut, EMPTY_LOOK } from './looks';
+import { renderAdjustedImage } from './pixelPipeline';
+import { loadImage } from './ImageEditor.utils';
+import { useAppControls, downloadBlob } from '../uiUtils';
+import { type GalleryItem } from '../uiTypes';
+import * as db from '../../lib/db';
+
+interface UseLookPresetsOptions {
+    isOpen: boolean;
+    captureState: () => EditorStateSnapshot;
+    pushHistory: (snapshot: EditorStateSnapshot) => void;
+    restoreState: (snapshot: EditorStateSnapshot) => void;
+}
+
+const createId = () => Math.random().toString(36).substring(2, 9);
+const toFileName = (name: string) => name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'look';
+
+/**
+ * Saved looks for the Image Editor: named sets of adjustments kept in IndexedDB, applied in one step,
+ * exported and imported as JSON or .cube LUTs, and applied to gallery images in bulk.
+ */
+export const useLookPresets = ({ isOpen, captureState, pushHistory, restoreState }: UseLookPresetsOptions) => {
+    const { addImagesToGallery } = useAppControls();
+    const [lookPresets, setLookPresets] = useState<AdjustmentPresetRecord[]>([]);
+    const [isLookBatchOpen, setIsLookBatchOpen] = useState(false);
+    // Set while looks are being applied to gallery images.
+    const [lookBatchProgress, setLookBatchProgress] = useState<{ done: number; total: number } | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        db.getAdjustmentPresets().then(setLookPresets).catch(err => console.error("Failed to list looks:", err));
+    }, [isOpen]);
+
+    const addPreset = useCallback(async (preset: AdjustmentPresetRecord) => {
+        await db.saveAdjustmentPreset(preset);
+        setLookPresets(prev => [preset, ...prev]);
+    }, []);
+
+    const handleSaveLook = useCallback(async (name: string) => {
+        try {
+            await addPreset({
+                id: createId(), createdAt: Date.now(),
+                name: name.trim() || `Look ${new Date().toLocaleString()}`,
+                look: getLookFromSnapshot(captureState()),
+            });
+        } catch (error) {
+            console.error("Error saving look:", error);
+            alert("An error occurred while saving the look.");
+        }
+    }, [addPreset, captureState]);
+
+    const handleApplyLook = useCallback((id: string) => {
+        const preset = lookPresets.find(item => item.id === id);
+        if (!preset) return;
+        const newSnapshot: EditorStateSnapshot = { ...captureState(), ...preset.look, operation: { type: 'look', name: preset.name } };
+        pushHistory(newSnapshot);
+        restoreState(newSnapshot);
+    }, [lookPresets, captureState, pushHistory, restoreState]);
+
+    const handleClearLut = useCallback(() => {
+        const newSnapshot = { ...captureState(), lut: null };
+        pushHistory(newSnapshot);
+        restoreState(newSnapshot);
+    }, [captureState, pushHistory, restoreState]);
+
+    const handleDeleteLook = useCallback(async (id: string) => {
+        try {
+            await db.deleteAdjustmentPreset(id);
+            setLookPresets(prev => prev.filter(item => item.id !== id));
+        } catch (error) {
+            console.error("Error deleting look:", error);
+        }
+    }, []);
+
+    const handleExportLook = useCallback((id: string, format: 'json' | 'cube') => {
+        const preset = lookPresets.find(item => item.id === id);
+        if (!preset) return;
+        if (format === 'json') {
+            downloadBlob(new Blob([serializeLook(preset.name, preset.look)], { type: 'application/json' }), `${toFileName(preset.name)}.json`);
+        } else {
+            downloadBlob(new Blob([writeCubeLut(preset.name, preset.look)], { type: 'text/plain' }), `${toFileName(preset.name)}.cube`);
+        }
+    }, [lookPresets]);
+
+    // Imports a look file (.json) or a 3D LUT (.cube), which becomes a look with no other adjustments.
+    const handleImportLook = useCallback(async (file: File) => {
+        try {
+            const text = await file.text();
+            const baseName = file.name.replace(/\.[^.]+$/, '');
+            const { name, look } = /\.cube$/i.test(file.name)
+                ? { name: baseName, look: { ...EMPTY_LOOK, lut: parseCubeLut(text, baseName) } }
+                : parseLookFile(text);
+            await addPreset({ id: createId(), createdAt: Date.now(), name: name || baseName, look });
+        } catch (error) {
+            console.error("Error importing look:", error);
+            alert(`Could not import "${file.name}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, [addPreset]);
+
+    /**
+     * Applies a look to gallery images, one at a time, adding each result to the gallery next to its original.
+     */
+    const handleBatchApplyLook = useCallback(async (id: string, items: GalleryItem[]) => {
+        const preset = lookPresets.find(item => item.id === id);
+        if (!preset || items.length === 0) return;
+        const { blur, ...adjustments } = preset.look;
+        let failed = 0;
+        setLookBatchProgress({ done: 0, total: items.length });
+        for (const [index, item] of items.entries()) {
+            try {
+                const image = await loadImage(item.url);
+                const adjusted = await renderAdjustedImage(image, null, { adjustments, blur });
+                if (!adjusted) throw new Error("Render was cancelled");
+                const canvas = document.createElement('canvas');
+                canvas.width = adjusted.image.width;
+                canvas.height = adjusted.image.height;
+                canvas.getContext('2d')?.drawImage(adjusted.image, 0, 0);
+                adjusted.image.close();
+                addImagesToGallery([canvas.toDataURL('image/png')], { sourceApp: 'image-editor', parentHash: item.record.hash });
+            } catch (error) {
+                console.error(`Error applying look to gallery image ${item.record.hash}:`, error);
+                failed++;
+            }
+            setLookBatchProgress({ done: index + 1, total: items.length });
+        }
+        setLookBatchProgress(null);
+        if (failed > 0) alert(`The look couldn't be applied to ${failed} of ${items.length} images.`);
+        else setIsLookBatchOpen(false);
+    }, [lookPresets, addImagesToGallery]);
+
+    return {
+        lookPresets, isLookBatchOpen, setIsLookBatchOpen, lookBatchProgress,
+        handleSaveLook, handleApplyLook, handleClearLut, handleDeleteLook, handleExportLook, handleImportLook, handleBatchApplyLook,
+    };
+};
@@ -44,6 +44,7 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ imageToEdit,
         getFinalImage,
         panX, panY, scale, zoomDisplay,
         history, historyIndex, handleUndo, handleRedo,
+        saveEditSession,
     } = editorState;
     
     const fileInputRef = useRef<HTMLInputElement | null>(null);
@@ -68,6 +69,7 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ imageToEdit,
         try {
             const finalUrl = await getFinalImage();
             if (finalUrl) {
+                await saveEditSession(finalUrl);
                 imageToEdit.onSave(finalUrl);
                 onClose();
             }
@@ -76,7 +78,7 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ imageToEdit,
         } finally {
             setIsProcessing(false);
         }
-    }, [getFinalImage, imageToEdit, onClose, setIsProcessing]);
+    }, [getFinalImage, imageToEdit, onClose, setIsProcessing, saveEditSession]);
 
     const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
@@ -4,7 +4,7 @@
 */
 import React, { useEffect, ChangeEvent, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { analyzeImagePairForPrompt, analyzeImagePairForPromptDeep, analyzeImagePairForPromptExpert, editImageWithPrompt, interpolatePrompts, adaptPromptToContext } from '../services/geminiService';
+import { analyzeImagePairForPrompt, analyzeImagePairForPromptDeep, analyzeImagePairForPromptExpert, editImageWithPrompt, interpolatePrompts, adaptPromptToContext, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -144,7 +144,7 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
             }
             onStateChange({ ...appStateRef.current, stage: 'configuring', generatedPrompt: result.mainPrompt, promptSuggestions: result.suggestions || '' });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appStateRef.current, stage: 'idle', generatedPrompt: '', promptSuggestions: '', error: t('imageInterpolation_analysisError', errorMessage) });
         }
     };
@@ -196,7 +196,7 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
             addImagesToGallery([urlWithMetadata]);
 
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ 
                 ...appState, 
                 stage: 'results', 
@@ -239,7 +239,7 @@ const ImageInterpolation: React.FC<ImageInterpolationProps> = (props) => {
             addImagesToGallery([urlWithMetadata]);
 
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ 
                 ...appState, 
                 stage: 'results', 
@@ -4,7 +4,7 @@
 */
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce, downloadImage } from './uiUtils';
+import { useAppControls, useImageEditor, combineImages, useLightbox, useDebounce, downloadImage, isVideoUrl } from './uiUtils';
 import { cn } from '../lib/utils';
 import Lightbox from './Lightbox';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
@@ -129,7 +129,7 @@ const ImageLayoutModal: React.FC<ImageLayoutModalProps> = ({ isOpen, onClose })
     const handleEditImage = (indexToEdit: number, e: React.MouseEvent) => {
         e.stopPropagation();
         const urlToEdit = imageGallery[indexToEdit];
-        if (!urlToEdit || urlToEdit.startsWith('blob:')) {
+        if (!urlToEdit || isVideoUrl(urlToEdit)) {
             alert('Không thể chỉnh sửa video.');
             return;
         }
@@ -367,7 +367,7 @@ const ImageLayoutModal: React.FC<ImageLayoutModalProps> = ({ isOpen, onClose })
                                             {imageGallery.map((img, index) => {
                                                 const selectedIndex = selectedItems.findIndex(item => item.url === img);
                                                 const isSelected = selectedIndex !== -1;
-                                                const isVideo = img.startsWith('blob:');
+                                                const isVideo = isVideoUrl(img);
                                                 return (
                                                     <motion.div 
                                                         key={`${img.slice(-20)}-${index}`} 
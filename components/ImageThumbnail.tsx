@@ -6,6 +6,7 @@ import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../lib/utils';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
+import { isVideoUrl } from './uiFileUtilities';
 
 interface ImageThumbnailProps {
     index: number;
@@ -16,6 +17,7 @@ interface ImageThumbnailProps {
     onEdit?: (index: number, e: React.MouseEvent) => void;
     onDelete: (index: number, e: React.MouseEvent) => void;
     onQuickView?: (index: number, e: React.MouseEvent) => void;
+    onInfo?: (index: number, e: React.MouseEvent) => void;
 }
 
 export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
@@ -27,8 +29,9 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
     onEdit,
     onDelete,
     onQuickView,
+    onInfo,
 }) => {
-    const isVideo = imageUrl.startsWith('blob:');
+    const isVideo = isVideoUrl(imageUrl);
 
     return (
         <motion.div
@@ -75,6 +78,7 @@ export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({
                 isSelectionMode={isSelectionMode}
                 isVideo={isVideo}
                 onQuickView={onQuickView ? (e) => onQuickView(index, e) : undefined}
+                onInfo={onInfo ? (e) => onInfo(index, e) : undefined}
                 onEdit={onEdit ? (e) => onEdit(index, e) : undefined}
                 onDelete={(e) => onDelete(index, e)}
             />
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { VisibleIcon, EditorIcon, DeleteIcon } from './icons';
+import { VisibleIcon, EditorIcon, DeleteIcon, InfoIcon } from './icons';
 
 interface ImageThumbnailActionsProps {
     isSelectionMode: boolean;
@@ -11,6 +11,7 @@ interface ImageThumbnailActionsProps {
     onEdit?: (e: React.MouseEvent) => void;
     onDelete: (e: React.MouseEvent) => void;
     onQuickView?: (e: React.MouseEvent) => void;
+    onInfo?: (e: React.MouseEvent) => void;
 }
 
 export const ImageThumbnailActions: React.FC<ImageThumbnailActionsProps> = ({
@@ -19,6 +20,7 @@ export const ImageThumbnailActions: React.FC<ImageThumbnailActionsProps> = ({
     onEdit,
     onDelete,
     onQuickView,
+    onInfo,
 }) => {
     if (isSelectionMode) {
         return null;
@@ -31,6 +33,11 @@ export const ImageThumbnailActions: React.FC<ImageThumbnailActionsProps> = ({
                     <VisibleIcon className="h-4 w-4" strokeWidth={2} />
                 </button>
             )}
+            {onInfo && (
+                <button onClick={onInfo} className="thumbnail-action-btn" aria-label="Thông tin ảnh" title="Thông tin ảnh">
+                    <InfoIcon className="h-4 w-4" />
+                </button>
+            )}
             {!isVideo && onEdit && (
                 <button onClick={onEdit} className="thumbnail-action-btn" aria-label="Sửa ảnh" title="Sửa ảnh">
                     <EditorIcon className="h-4 w-4" />
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import toast from 'react-hot-toast';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAppControls, useJobQueue } from './uiUtils';
+import { cancelJob, cancelAllJobs, clearFinishedJobs, setJobPriority, clearResponseCache, type GenerationJob } from '../services/geminiService';
+import { CloseIcon, LoadingSpinnerIcon, UpArrowIcon } from './icons';
+
+const STATUS_STYLES: Record<GenerationJob['status'], string> = {
+    queued: 'text-neutral-400',
+    running: 'text-yellow-400',
+    done: 'text-green-400',
+    error: 'text-red-400',
+    cancelled: 'text-neutral-500',
+};
+
+const JobItem: React.FC<{ job: GenerationJob }> = ({ job }) => {
+    const { t } = useAppControls();
+    const isActive = job.status === 'queued' || job.status === 'running';
+
+    return (
+        <motion.li
+            layout
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className="p-3 bg-neutral-800/50 rounded-lg border border-transparent hover:border-yellow-400/30 transition-all"
+        >
+            <div className="flex items-start gap-3">
+                {job.status === 'running' && <LoadingSpinnerIcon className="animate-spin h-4 w-4 mt-0.5 text-yellow-400 flex-shrink-0" />}
+                <div className="flex-grow min-w-0">
+                    <p className="text-sm text-neutral-200 truncate" title={job.label}>{job.label}</p>
+                    <p className="text-xs text-neutral-400">
+                        <span className={STATUS_STYLES[job.status]}>{t(`jobQueue_status_${job.status}`)}</span>
+                        {' · '}{job.providerId}
+                        {job.priority !== 0 && ` · ${t('jobQueue_priority')} ${job.priority}`}
+                        {job.resumed && ` · ${t('jobQueue_resumed')}`}
+                    </p>
+                    {job.error && <p className="text-xs text-red-400 mt-1 line-clamp-2" title={job.error}>{job.error}</p>}
+                </div>
+                {job.status === 'queued' && (
+                    <button onClick={() => setJobPriority(job.id, job.priority + 1)} className="thumbnail-action-btn" title={t('jobQueue_raisePriority')}>
+                        <UpArrowIcon className="h-4 w-4" />
+                    </button>
+                )}
+                {isActive && (
+                    <button onClick={() => cancelJob(job.id)} className="thumbnail-action-btn" title={t('jobQueue_cancel')}>
+                        <CloseIcon className="h-4 w-4" />
+                    </button>
+                )}
+            </div>
+            {job.status === 'running' && (
+                <div className="mt-2 h-1 w-full bg-neutral-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400 transition-all" style={{ width: `${Math.max(5, job.progress * 100)}%` }} />
+                </div>
+            )}
+        </motion.li>
+    );
+};
+
+interface JobQueuePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ isOpen, onClose }) => {
+    const { t, settings, forceFreshGeneration, handleForceFreshGenerationChange } = useAppControls();
+    const jobs = useJobQueue();
+    const isCacheEnabled = !!settings?.responseCache?.enabled;
+
+    const handleClearCache = async () => {
+        try {
+            await clearResponseCache();
+            toast.success(t('responseCache_cleared'));
+        } catch (error) {
+            console.error('Failed to clear the response cache:', error);
+        }
+    };
+    const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+    const hasFinished = jobs.length > activeCount;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className="fixed inset-0 bg-black/30 z-40"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                />
+            )}
+            {isOpen && (
+                <motion.div
+                    className="fixed top-0 right-0 bottom-0 w-full max-w-sm bg-neutral-900/80 backdrop-blur-lg border-l border-white/10 shadow-2xl z-50 flex flex-col"
+                    initial={{ x: '100%' }}
+                    animate={{ x: '0%' }}
+                    exit={{ x: '100%' }}
+                    transition={{ type: 'spring', stiffness: 400, damping: 40 }}
+                >
+                    <div className="flex justify-between items-center p-4 border-b border-white/10 flex-shrink-0">
+                        <h3 className="base-font font-bold text-2xl text-yellow-400">{t('jobQueue_title')}</h3>
+                        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('jobQueue_close')}>
+                            <CloseIcon className="h-6 w-6" />
+                        </button>
+                    </div>
+
+                    {isCacheEnabled && (
+                        <div className="flex items-center justify-between gap-2 px-4 pt-3 text-sm">
+                            <label className="flex items-center gap-2 text-neutral-300 cursor-pointer" title={t('responseCache_forceFreshHint')}>
+                                <input
+                                    type="checkbox"
+                                    checked={forceFreshGeneration}
+                                    onChange={(e) => handleForceFreshGenerationChange(e.target.checked)}
+                                    className="h-4 w-4 rounded border-neutral-500 bg-neutral-700 text-yellow-400 focus:ring-yellow-400 focus:ring-offset-neutral-800"
+                                />
+                                {t('responseCache_forceFresh')}
+                            </label>
+                            <button onClick={handleClearCache} className="btn btn-secondary btn-sm">
+                                {t('responseCache_clear')}
+                            </button>
+                        </div>
+                    )}
+
+                    {jobs.length > 0 ? (
+                        <>
+                            <div className="flex items-center gap-2 px-4 pt-3">
+                                <button onClick={() => cancelAllJobs()} className="btn btn-secondary btn-sm" disabled={activeCount === 0}>
+                                    {t('jobQueue_cancelAll')}
+                                </button>
+                                <button onClick={clearFinishedJobs} className="btn btn-secondary btn-sm" disabled={!hasFinished}>
+                                    {t('jobQueue_clearFinished')}
+                                </button>
+                            </div>
+                            <ul className="flex-grow overflow-y-auto p-4 space-y-3">
+                                <AnimatePresence>
+                                    {jobs.map(job => <JobItem key={job.id} job={job} />)}
+                                </AnimatePresence>
+                            </ul>
+                        </>
+                    ) : (
+                        <div className="flex-grow flex items-center justify-center text-center text-neutral-400 p-4">
+                            <p>{t('jobQueue_empty')}</p>
+                        </div>
+                    )}
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default JobQueuePanel;
@@ -6,7 +6,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAppControls } from '../uiUtils';
 import type { Chat } from '@google/genai';
-import { sendChatMessage } from '../../services/geminiService';
+import { sendChatMessage, getLocalizedErrorMessage } from '../../services/geminiService';
 import { type Layer } from './LayerComposer.types';
 import { LoadingSpinnerIcon, CloseIcon, SendIcon } from '../icons';
 import toast from 'react-hot-toast';
@@ -198,7 +198,7 @@ export const AIChatbot: React.FC<AIChatbotProps> = ({ isOpen, onClose, selectedL
             }
         } catch (error) {
             if (isVisibleRef.current) {
-                const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(error, t, "An unknown error occurred.");
                 setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}` }]);
             }
         } finally {
@@ -219,7 +219,7 @@ export const AIChatbot: React.FC<AIChatbotProps> = ({ isOpen, onClose, selectedL
                 // Capture all selected layers concurrently
                 imageUrls = await Promise.all(selectedLayers.map(layer => captureLayer(layer)));
             } catch (err) {
-                 const errorMessage = err instanceof Error ? err.message : "Failed to capture one or more layers.";
+                 const errorMessage = getLocalizedErrorMessage(err, t, "Failed to capture one or more layers.");
                 setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}` }]);
                 return;
             }
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { type Layer, type LayerAdjustments } from './LayerComposer.types';
+import { useAppControls, Switch } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { RangeSlider } from '../ImageEditor/components/RangeSlider';
+import { COLOR_CHANNELS, INITIAL_PIXEL_ADJUSTMENTS } from '../ImageEditor/ImageEditor.constants';
+import { type ColorChannel, type HSLAdjustment } from '../ImageEditor/ImageEditor.types';
+
+interface AdjustmentLayerControlsProps {
+    layer: Layer;
+    onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
+    beginInteraction: () => void;
+}
+
+type NumericAdjustment = Exclude<keyof LayerAdjustments, 'isInverted' | 'colorAdjustments'>;
+
+const SLIDERS: { key: NumericAdjustment; labelKey: string; min: number; max: number }[] = [
+    { key: 'luminance', labelKey: 'layerComposer_adjustment_exposure', min: -100, max: 100 },
+    { key: 'contrast', labelKey: 'layerComposer_adjustment_contrast', min: -100, max: 100 },
+    { key: 'temp', labelKey: 'layerComposer_adjustment_temperature', min: -100, max: 100 },
+    { key: 'tint', labelKey: 'layerComposer_adjustment_tint', min: -100, max: 100 },
+    { key: 'vibrance', labelKey: 'layerComposer_adjustment_vibrance', min: -100, max: 100 },
+    { key: 'saturation', labelKey: 'layerComposer_adjustment_saturation', min: -100, max: 100 },
+    { key: 'hue', labelKey: 'layerComposer_adjustment_hue', min: -180, max: 180 },
+    { key: 'grain', labelKey: 'layerComposer_adjustment_grain', min: 0, max: 100 },
+    { key: 'clarity', labelKey: 'layerComposer_adjustment_clarity', min: -100, max: 100 },
+    { key: 'dehaze', labelKey: 'layerComposer_adjustment_dehaze', min: -100, max: 100 },
+    { key: 'blur', labelKey: 'layerComposer_adjustment_blur', min: 0, max: 20 },
+];
+
+/**
+ * Settings of an adjustment layer: the same controls as the ImageEditor's adjustment panels.
+ */
+export const AdjustmentLayerControls: React.FC<AdjustmentLayerControlsProps> = ({ layer, onUpdate, beginInteraction }) => {
+    const { t } = useAppControls();
+    const [activeChannel, setActiveChannel] = useState<ColorChannel>(COLOR_CHANNELS[0].id);
+    const adjustments: LayerAdjustments = layer.adjustments || { ...INITIAL_PIXEL_ADJUSTMENTS, blur: 0 };
+
+    // Slider drags update live and are committed to history on release.
+    const update = (changes: Partial<LayerAdjustments>, isFinal: boolean) => {
+        onUpdate(layer.id, { adjustments: { ...adjustments, ...changes } }, isFinal);
+    };
+    const commit = () => onUpdate(layer.id, { adjustments }, true);
+    const reset = (changes: Partial<LayerAdjustments>) => {
+        beginInteraction();
+        update(changes, true);
+    };
+
+    const updateChannel = (type: keyof HSLAdjustment, value: number, isFinal: boolean) => {
+        const channel = adjustments.colorAdjustments[activeChannel];
+        update({ colorAdjustments: { ...adjustments.colorAdjustments, [activeChannel]: { ...channel, [type]: value } } }, isFinal);
+    };
+    const channelAdjustments = adjustments.colorAdjustments[activeChannel];
+
+    return (
+        // Any slider drag starts an undoable interaction.
+        <div className="p-3 space-y-3" onPointerDownCapture={beginInteraction}>
+            {SLIDERS.map(({ key, labelKey, min, max }) => (
+                <RangeSlider
+                    key={key}
+                    id={`adjustment-${key}-${layer.id}`}
+                    label={t(labelKey)}
+                    value={adjustments[key]}
+                    min={min}
+                    max={max}
+                    step={1}
+                    onChange={v => update({ [key]: v }, false)}
+                    onReset={() => reset({ [key]: 0 })}
+                    onCommit={commit}
+                />
+            ))}
+            <div className="flex items-center justify-between">
+                <label htmlFor={`adjustment-invert-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_adjustment_invert')}</label>
+                <Switch id={`adjustment-invert-${layer.id}`} checked={adjustments.isInverted} onChange={(checked) => reset({ isInverted: checked })} />
+            </div>
+
+            <div className="border-t border-neutral-700/50 pt-3 space-y-3">
+                <p className="text-sm font-bold text-neutral-200">{t('layerComposer_adjustment_hsl')}</p>
+                <div className="flex justify-center gap-4">
+                    {COLOR_CHANNELS.map(c => (
+                        <button
+                            key={c.id}
+                            onClick={() => setActiveChannel(c.id)}
+                            className={cn("w-6 h-6 rounded-full transition-transform", activeChannel === c.id ? 'ring-2 ring-yellow-400 scale-110' : 'hover:scale-110')}
+                            style={{ backgroundColor: c.color }}
+                            aria-label={c.name}
+                        />
+                    ))}
+                </div>
+                <RangeSlider id={`adjustment-${activeChannel}-h-${layer.id}`} label={t('layerComposer_adjustment_hue')} value={channelAdjustments.h} min={-180} max={180} step={1} onChange={v => updateChannel('h', v, false)} onReset={() => { beginInteraction(); updateChannel('h', 0, true); }} onCommit={commit} />
+                <RangeSlider id={`adjustment-${activeChannel}-s-${layer.id}`} label={t('layerComposer_adjustment_saturation')} value={channelAdjustments.s} min={-100} max={100} step={1} onChange={v => updateChannel('s', v, false)} onReset={() => { beginInteraction(); updateChannel('s', 0, true); }} onCommit={commit} />
+                <RangeSlider id={`adjustment-${activeChannel}-l-${layer.id}`} label={t('layerComposer_adjustment_luminance')} value={channelAdjustments.l} min={-100} max={100} step={1} onChange={v => updateChannel('l', v, false)} onReset={() => { beginInteraction(); updateChannel('l', 0, true); }} onCommit={commit} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion, useMotionValueEvent, useTransform, type MotionValue } from 'framer-motion';
+import { type CanvasSettings, type Rect, type UserGuide } from './LayerComposer.types';
+import { createUserGuide } from './snapping';
+
+const RULER_SIZE = 20;
+const USER_GUIDE_COLOR = '#22d3ee';
+// Numbered ticks use the smallest of these steps that leaves room for the numbers at the current zoom.
+const TICK_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const MIN_LABEL_SPACING = 56;
+
+interface CanvasRulersProps {
+    canvasViewRef: React.RefObject<HTMLDivElement>;
+    canvasSettings: CanvasSettings;
+    panX: MotionValue<number>;
+    panY: MotionValue<number>;
+    scaleMV: MotionValue<number>;
+    selectionBoundingBox: Rect | null;
+    onGuidesChange: (guides: UserGuide[]) => void;
+}
+
+type GuideDrag = {
+    // The guide being moved, or null for a new one coming out of a ruler.
+    id: string | null;
+    axis: 'x' | 'y';
+    position: number;
+    // Letting go over the ruler removes the guide.
+    isOverRuler: boolean;
+    viewPoint: { x: number; y: number };
+};
+
+interface UserGuideLineProps {
+    axis: 'x' | 'y';
+    position: number;
+    viewSize: { width: number; height: number };
+    canvasSettings: CanvasSettings;
+    panX: MotionValue<number>;
+    panY: MotionValue<number>;
+    scaleMV: MotionValue<number>;
+    onPointerDown?: (e: React.PointerEvent) => void;
+}
+
+const UserGuideLine: React.FC<UserGuideLineProps> = ({ axis, position, viewSize, canvasSettings, panX, panY, scaleMV, onPointerDown }) => {
+    const isVertical = axis === 'x';
+    const offset = useTransform([isVertical ? panX : panY, scaleMV], ([pan, s]: number[]) =>
+        (isVertical ? viewSize.width : viewSize.height) / 2 + pan + (position - (isVertical ? canvasSettings.width : canvasSettings.height) / 2) * s
+    );
+    return (
+        <motion.div
+            className={isVertical ? "absolute top-0 bottom-0 w-[7px] -ml-[3px] flex justify-center cursor-ew-resize z-[1001]" : "absolute left-0 right-0 h-[7px] -mt-[3px] flex flex-col justify-center cursor-ns-resize z-[1001]"}
+            style={isVertical ? { left: offset } : { top: offset }}
+            onPointerDown={onPointerDown}
+        >
+            <div className={isVertical ? "w-px h-full" : "h-px w-full"} style={{ backgroundColor: USER_GUIDE_COLOR }} />
+        </motion.div>
+    );
+};
+
+/**
+ * Rulers along the top and left of the canvas view, and the guides dragged out of them. Drag from the
+ * top ruler for a horizontal guide and from the left one for a vertical guide; drag a guide back onto
+ * its ruler to remove it. Rendered in the view rather than the canvas wrapper, so positions are view pixels.
+ */
+export const CanvasRulers: React.FC<CanvasRulersProps> = ({ canvasViewRef, canvasSettings, panX, panY, scaleMV, selectionBoundingBox, onGuidesChange }) => {
+    const topRulerRef = useRef<HTMLCanvasElement>(null);
+    const leftRulerRef = useRef<HTMLCanvasElement>(null);
+    const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+    const [guideDrag, setGuideDrag] = useState<GuideDrag | null>(null);
+    const guideDragRef = useRef<GuideDrag | null>(null);
+    guideDragRef.current = guideDrag;
+    const userGuides = canvasSettings.userGuides || [];
+    const showRulers = canvasSettings.showRulers !== false;
+
+    useEffect(() => {
+        const view = canvasViewRef.current;
+        if (!view) return;
+        const resizeObserver = new ResizeObserver(() => setViewSize({ width: view.clientWidth, height: view.clientHeight }));
+        resizeObserver.observe(view);
+        return () => resizeObserver.disconnect();
+    }, [canvasViewRef]);
+
+    // Where canvas (0, 0) is in the view, matching how the canvas wrapper is centred, panned and scaled.
+    const getCanvasOrigin = useCallback(() => {
+        const s = scaleMV.get();
+        return {
+            x: viewSize.width / 2 + panX.get() - canvasSettings.width / 2 * s,
+            y: viewSize.height / 2 + panY.get() - canvasSettings.height / 2 * s,
+            s,
+        };
+    }, [viewSize, panX, panY, scaleMV, canvasSettings.width, canvasSettings.height]);
+
+    const drawRulers = useCallback(() => {
+        const origin = getCanvasOrigin();
+        const step = TICK_STEPS.find(value => value * origin.s >= MIN_LABEL_SPACING) ?? TICK_STEPS[TICK_STEPS.length - 1];
+        const minorStep = step / 5;
+        const dpr = window.devicePixelRatio || 1;
+        ([['x', topRulerRef.current, viewSize.width], ['y', leftRulerRef.current, viewSize.height]] as const).forEach(([axis, canvas, length]) => {
+            if (!canvas || length <= 0) return;
+            const isHorizontal = axis === 'x';
+            const width = isHorizontal ? length : RULER_SIZE, height = isHorizontal ? RULER_SIZE : length;
+            if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+                canvas.width = Math.round(width * dpr);
+                canvas.height = Math.round(height * dpr);
+            }
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return;
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.fillStyle = '#171717';
+            ctx.fillRect(0, 0, width, height);
+
+            const offset = isHorizontal ? origin.x : origin.y;
+            if (selectionBoundingBox) {
+                const start = offset + (isHorizontal ? selectionBoundingBox.x : selectionBoundingBox.y) * origin.s;
+                const size = (isHorizontal ? selectionBoundingBox.width : selectionBoundingBox.height) * origin.s;
+                ctx.fillStyle = 'rgba(251, 191, 36, 0.25)';
+                if (isHorizontal) ctx.fillRect(start, 0, size, RULER_SIZE);
+                else ctx.fillRect(0, start, RULER_SIZE, size);
+            }
+
+            ctx.strokeStyle = '#737373';
+            ctx.fillStyle = '#a3a3a3';
+            ctx.lineWidth = 1;
+            ctx.font = '10px sans-serif';
+            ctx.textBaseline = 'top';
+            ctx.beginPath();
+            const showMinorTicks = minorStep * origin.s >= 5;
+            for (let i = Math.floor(-offset / origin.s / minorStep); i * minorStep <= (length - offset) / origin.s; i++) {
+                const isMajor = i % 5 === 0;
+                if (!isMajor && !showMinorTicks) continue;
+                const value = i * minorStep;
+                const pos = Math.round(offset + value * origin.s) + 0.5;
+                const tickLength = isMajor ? RULER_SIZE : RULER_SIZE / 4;
+                if (isHorizontal) {
+                    ctx.moveTo(pos, RULER_SIZE - tickLength);
+                    ctx.lineTo(pos, RULER_SIZE);
+                } else {
+                    ctx.moveTo(RULER_SIZE - tickLength, pos);
+                    ctx.lineTo(RULER_SIZE, pos);
+                }
+                if (!isMajor) continue;
+                const label = String(Math.round(value));
+                if (isHorizontal) {
+                    ctx.fillText(label, pos + 3, 2);
+                } else {
+                    ctx.save();
+                    ctx.translate(2, pos - 3);
+                    ctx.rotate(-Math.PI / 2);
+                    ctx.fillText(label, 0, 0);
+                    ctx.restore();
+                }
+            }
+            if (isHorizontal) {
+                ctx.moveTo(0, RULER_SIZE - 0.5);
+                ctx.lineTo(width, RULER_SIZE - 0.5);
+            } else {
+                ctx.moveTo(RULER_SIZE - 0.5, 0);
+                ctx.lineTo(RULER_SIZE - 0.5, height);
+            }
+            ctx.stroke();
+        });
+    }, [getCanvasOrigin, viewSize, selectionBoundingBox]);
+
+    useMotionValueEvent(scaleMV, 'change', drawRulers);
+    useMotionValueEvent(panX, 'change', drawRulers);
+    useMotionValueEvent(panY, 'change', drawRulers);
+    useEffect(() => { if (showRulers) drawRulers(); }, [drawRulers, showRulers]);
+
+    const getGuideDragPosition = useCallback((axis: 'x' | 'y', e: { clientX: number; clientY: number }) => {
+        const rect = canvasViewRef.current?.getBoundingClientRect();
+        const viewPoint = { x: e.clientX - (rect?.left || 0), y: e.clientY - (rect?.top || 0) };
+        const origin = getCanvasOrigin();
+        return {
+            position: axis === 'x' ? (viewPoint.x - origin.x) / origin.s : (viewPoint.y - origin.y) / origin.s,
+            isOverRuler: showRulers && (axis === 'x' ? viewPoint.x < RULER_SIZE : viewPoint.y < RULER_SIZE),
+            viewPoint,
+        };
+    }, [canvasViewRef, getCanvasOrigin, showRulers]);
+
+    const startGuideDrag = (e: React.PointerEvent, id: string | null, axis: 'x' | 'y') => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        setGuideDrag({ id, axis, ...getGuideDragPosition(axis, e) });
+    };
+
+    const isDraggingGuide = !!guideDrag;
+    useEffect(() => {
+        if (!isDraggingGuide) return;
+        const handlePointerMove = (e: PointerEvent) => {
+            setGuideDrag(drag => drag && { ...drag, ...getGuideDragPosition(drag.axis, e) });
+        };
+        const handlePointerUp = (e: PointerEvent) => {
+            const drag = guideDragRef.current;
+            setGuideDrag(null);
+            if (!drag) return;
+            const { position, isOverRuler } = getGuideDragPosition(drag.axis, e);
+            if (isOverRuler) {
+                if (drag.id) onGuidesChange(userGuides.filter(g => g.id !== drag.id));
+            } else if (drag.id) {
+                onGuidesChange(userGuides.map(g => g.id === drag.id ? { ...g, position: Math.round(position) } : g));
+            } else {
+                onGuidesChange([...userGuides, createUserGuide(drag.axis, position)]);
+            }
+        };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+        };
+    }, [isDraggingGuide, getGuideDragPosition, onGuidesChange, userGuides]);
+
+    const lineProps = { viewSize, canvasSettings, panX, panY, scaleMV };
+
+    return (
+        <>
+            {userGuides.filter(guide => guide.id !== guideDrag?.id).map(guide => (
+                <UserGuideLine key={guide.id} axis={guide.axis} position={guide.position} {...lineProps} onPointerDown={e => startGuideDrag(e, guide.id, guide.axis)} />
+            ))}
+            {guideDrag && !guideDrag.isOverRuler && (
+                <>
+                    <UserGuideLine key="guide-drag" axis={guideDrag.axis} position={Math.round(guideDrag.position)} {...lineProps} />
+                    <div
+                        className="absolute z-[1004] bg-cyan-400 text-black text-xs font-bold font-mono px-1.5 py-0.5 rounded pointer-events-none"
+                        style={{ left: guideDrag.viewPoint.x + 12, top: guideDrag.viewPoint.y + 12 }}
+                    >
+                        {Math.round(guideDrag.position)}
+                    </div>
+                </>
+            )}
+            {showRulers && (
+                <>
+                    <canvas ref={topRulerRef} className="absolute top-0 left-0 z-[1003] cursor-ns-resize" style={{ width: viewSize.width, height: RULER_SIZE }} onPointerDown={e => startGuideDrag(e, null, 'y')} />
+                    <canvas ref={leftRulerRef} className="absolute top-0 left-0 z-[1003] cursor-ew-resize" style={{ width: RULER_SIZE, height: viewSize.height }} onPointerDown={e => startGuideDrag(e, null, 'x')} />
+                    <div className="absolute top-0 left-0 z-[1003] bg-neutral-900 border-r border-b border-neutral-500" style={{ width: RULER_SIZE, height: RULER_SIZE }} onPointerDown={e => e.stopPropagation()} />
+                </>
+            )}
+        </>
+    );
+};
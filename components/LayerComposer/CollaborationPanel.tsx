@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { type CollabSession, type CollabStatus, type CollabPeer } from './LayerComposer.types';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+
+interface CollaborationPanelProps {
+    session: CollabSession | null;
+    status: CollabStatus;
+    peers: CollabPeer[];
+    color: string | null;
+    onJoin: (session: CollabSession) => void;
+    onLeave: () => void;
+}
+
+const DEFAULT_RELAY_URL = 'ws://localhost:8788';
+
+const STATUS_COLORS: Record<CollabStatus, string> = { disconnected: 'bg-neutral-500', connecting: 'bg-yellow-400', connected: 'bg-green-400' };
+
+/**
+ * Joins or leaves a shared editing room on the collaboration relay, and lists who else is in it.
+ */
+export const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ session, status, peers, color, onJoin, onLeave }) => {
+    const { t } = useAppControls();
+    const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+    const [room, setRoom] = useState('');
+    const [token, setToken] = useState('');
+    const [name, setName] = useState('');
+
+    const handleJoin = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!url.trim() || !room.trim() || !token) return;
+        onJoin({ url: url.trim(), room: room.trim(), token, name: name.trim() || t('layerComposer_collab_anonymous') });
+    };
+
+    if (session) {
+        return (
+            <div className="space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                    <span className={cn("w-2.5 h-2.5 rounded-full flex-shrink-0", STATUS_COLORS[status])} />
+                    <span className="flex-grow min-w-0 text-neutral-200 truncate">{t(`layerComposer_collab_status_${status}`, session.room)}</span>
+                </div>
+                <ul className="space-y-1">
+                    <li className="flex items-center gap-2 text-neutral-300">
+                        <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: color || '#737373' }} />
+                        <span className="truncate">{t('layerComposer_collab_you', session.name)}</span>
+                    </li>
+                    {peers.map(peer => (
+                        <li key={peer.clientId} className="flex items-center gap-2 text-neutral-300">
+                            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: peer.color }} />
+                            <span className="truncate">{peer.name}</span>
+                        </li>
+                    ))}
+                </ul>
+                <p className="text-xs text-neutral-400">{t('layerComposer_collab_undoHint')}</p>
+                <button onClick={onLeave} className="btn btn-secondary btn-sm w-full">{t('layerComposer_collab_leave')}</button>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleJoin} className="space-y-3 text-sm">
+            <p className="text-xs text-neutral-400">{t('layerComposer_collab_description')}</p>
+            <div>
+                <label htmlFor="collab-url" className="block text-neutral-300 mb-1">{t('layerComposer_collab_relayUrl')}</label>
+                <input id="collab-url" type="text" value={url} onChange={e => setUrl(e.target.value)} className="form-input !p-1.5 !text-sm w-full" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label htmlFor="collab-room" className="block text-neutral-300 mb-1">{t('layerComposer_collab_room')}</label>
+                    <input id="collab-room" type="text" value={room} onChange={e => setRoom(e.target.value)} className="form-input !p-1.5 !text-sm w-full" />
+                </div>
+                <div>
+                    <label htmlFor="collab-name" className="block text-neutral-300 mb-1">{t('layerComposer_collab_name')}</label>
+                    <input id="collab-name" type="text" value={name} onChange={e => setName(e.target.value)} className="form-input !p-1.5 !text-sm w-full" />
+                </div>
+            </div>
+            <div>
+                <label htmlFor="collab-token" className="block text-neutral-300 mb-1">{t('layerComposer_collab_token')}</label>
+                <input id="collab-token" type="password" value={token} onChange={e => setToken(e.target.value)} className="form-input !p-1.5 !text-sm w-full" autoComplete="off" />
+                <p className="text-xs text-neutral-400 mt-1">{t('layerComposer_collab_tokenHint')}</p>
+            </div>
+            <button type="submit" className="btn btn-primary btn-sm w-full" disabled={!url.trim() || !room.trim() || !token}>{t('layerComposer_collab_join')}</button>
+        </form>
+    );
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion, useTransform, type MotionValue } from 'framer-motion';
+import { type Layer, type CollabPeer } from './LayerComposer.types';
+
+interface CollaboratorPresenceProps {
+    peers: CollabPeer[];
+    layers: Layer[];
+    scaleMV: MotionValue<number>;
+}
+
+/**
+ * Draws other participants' selections and pointers on the canvas, in each participant's colour.
+ * Rendered inside the canvas wrapper, so positions are canvas coordinates.
+ */
+export const CollaboratorPresence: React.FC<CollaboratorPresenceProps> = ({ peers, layers, scaleMV }) => {
+    const inverseScale = useTransform(scaleMV, (s: number) => 1 / s);
+    const outlineWidth = useTransform(scaleMV, (s: number) => 2 / s);
+    const layersById = new Map<string, Layer>(layers.map(l => [l.id, l]));
+
+    return (
+        <>
+            {peers.flatMap(peer => peer.selection.map(id => {
+                const layer = layersById.get(id);
+                if (!layer) return null;
+                return (
+                    <motion.div
+                        key={`${peer.clientId}-${id}`}
+                        className="absolute pointer-events-none z-[999]"
+                        style={{
+                            left: layer.x, top: layer.y, width: layer.width, height: layer.height, rotate: layer.rotation,
+                            outlineStyle: 'solid', outlineColor: peer.color, outlineWidth,
+                        }}
+                    />
+                );
+            }))}
+            {peers.map(peer => peer.cursor && (
+                <motion.div
+                    key={`cursor-${peer.clientId}`}
+                    className="absolute pointer-events-none z-[1002]"
+                    style={{ left: peer.cursor.x, top: peer.cursor.y, scale: inverseScale, transformOrigin: 'top left' }}
+                    animate={{ left: peer.cursor.x, top: peer.cursor.y }}
+                    transition={{ duration: 0.08, ease: 'linear' }}
+                >
+                    <svg width="18" height="18" viewBox="0 0 18 18" className="drop-shadow">
+                        <path d="M1 1 L1 15 L5 11 L8 17 L10.5 16 L7.5 10 L13 10 Z" fill={peer.color} stroke="#171717" strokeWidth="1.2" strokeLinejoin="round" />
+                    </svg>
+                    <span className="absolute left-4 top-4 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-semibold text-neutral-900 shadow" style={{ backgroundColor: peer.color }}>
+                        {peer.name}
+                    </span>
+                </motion.div>
+            ))}
+        </>
+    );
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { type Layer } from './LayerComposer.types';
+import { type DocumentExportFormat, type ExportRegion } from './documentExport';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+
+interface DocumentExportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onExport: (format: DocumentExportFormat, region: ExportRegion) => void;
+    layers: Layer[];
+    isInfiniteCanvas: boolean;
+    hasSelection: boolean;
+    isExporting: boolean;
+}
+
+const FORMATS: DocumentExportFormat[] = ['png', 'svg', 'ora'];
+
+// Regions are kept as strings in the select: 'canvas', 'content', 'selection' or 'artboard:<id>'.
+const parseRegion = (value: string): ExportRegion =>
+    value.startsWith('artboard:') ? { type: 'artboard', id: value.slice('artboard:'.length) } : { type: value as 'canvas' | 'content' | 'selection' };
+
+/**
+ * Exports the whole document, or part of it, as PNG, SVG or a layered OpenRaster file.
+ */
+export const DocumentExportDialog: React.FC<DocumentExportDialogProps> = ({ isOpen, onClose, onExport, layers, isInfiniteCanvas, hasSelection, isExporting }) => {
+    const { t } = useAppControls();
+    const [format, setFormat] = useState<DocumentExportFormat>('svg');
+    const [region, setRegion] = useState('content');
+    const artboards = layers.filter(l => l.type === 'artboard');
+
+    // The infinite canvas has no fixed area, so it defaults to everything on it.
+    useEffect(() => {
+        if (isOpen) setRegion(isInfiniteCanvas ? 'content' : 'canvas');
+    }, [isOpen, isInfiniteCanvas]);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay z-[80]"
+                    aria-modal="true" role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content !max-w-md"
+                    >
+                        <h3 className="base-font font-bold text-2xl text-yellow-400">{t('layerComposer_exportDocument_title')}</h3>
+                        <div className="space-y-4 my-2">
+                            <div>
+                                <p className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_exportDocument_format')}</p>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {FORMATS.map(f => (
+                                        <button
+                                            key={f}
+                                            onClick={() => setFormat(f)}
+                                            className={cn("btn btn-sm", format === f ? 'btn-primary' : 'btn-secondary')}
+                                        >
+                                            {t(`layerComposer_exportDocument_format_${f}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-neutral-400 mt-2">{t(`layerComposer_exportDocument_format_${format}_description`)}</p>
+                            </div>
+                            <div>
+                                <label htmlFor="export-region" className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_exportDocument_region')}</label>
+                                <select id="export-region" value={region} onChange={(e) => setRegion(e.target.value)} className="form-input !p-2 !text-sm w-full">
+                                    {!isInfiniteCanvas && <option value="canvas">{t('layerComposer_exportDocument_region_canvas')}</option>}
+                                    <option value="content">{t('layerComposer_exportDocument_region_content')}</option>
+                                    {hasSelection && <option value="selection">{t('layerComposer_exportDocument_region_selection')}</option>}
+                                    {artboards.map(artboard => (
+                                        <option key={artboard.id} value={`artboard:${artboard.id}`}>{t('layerComposer_exportDocument_region_artboard', artboard.name || artboard.id)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="flex justify-end items-center gap-4 mt-4">
+                            <button onClick={onClose} className="btn btn-secondary btn-sm">{t('common_cancel')}</button>
+                            <button onClick={() => onExport(format, parseRegion(region))} className="btn btn-primary btn-sm" disabled={isExporting}>
+                                {isExporting ? t('layerComposer_exportDocument_exporting') : t('layerComposer_exportDocument_export')}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
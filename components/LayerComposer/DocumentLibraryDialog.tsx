@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { type CanvasDocumentRecord, type CanvasVersionRecord } from './LayerComposer.types';
+import { type LayerChanges, type VisualDiff } from './documentLibrary';
+import { getLayerDisplayName } from './layerTree';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+
+interface DocumentLibraryDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    documents: CanvasDocumentRecord[];
+    activeDocumentId: string | null;
+    versions: CanvasVersionRecord[];
+    isBusy: boolean;
+    onOpen: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onSaveVersion: (name: string) => void;
+    onRestoreVersion: (id: string) => void;
+    onDeleteVersion: (id: string) => void;
+    onCompareVersion: (id: string) => Promise<{ changes: LayerChanges; visual: VisualDiff | null } | null>;
+}
+
+const Thumbnail: React.FC<{ url?: string; className?: string }> = ({ url, className }) => (
+    <div className={cn("bg-neutral-900 bg-[repeating-conic-gradient(#262626_0_25%,#1f1f1f_0_50%)] bg-[length:16px_16px] flex items-center justify-center overflow-hidden", className)}>
+        {url && <img src={url} alt="" className="max-w-full max-h-full object-contain" />}
+    </div>
+);
+
+const VersionComparison: React.FC<{ version: CanvasVersionRecord; result: { changes: LayerChanges; visual: VisualDiff | null } | null; onBack: () => void; onRestore: () => void }> = ({ version, result, onBack, onRestore }) => {
+    const { t } = useAppControls();
+    if (!result) return <p className="text-sm text-neutral-400 text-center py-8">{t('layerComposer_library_comparing')}</p>;
+    const { changes, visual } = result;
+    const hasChanges = changes.added.length + changes.removed.length + changes.changed.length > 0;
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <h4 className="font-semibold text-neutral-200 truncate">{t('layerComposer_library_compareTitle', version.name)}</h4>
+                <button onClick={onBack} className="btn btn-secondary btn-sm">{t('layerComposer_library_back')}</button>
+            </div>
+            {visual && (
+                <>
+                    <div className="grid grid-cols-2 gap-2 text-xs text-neutral-400">
+                        <div><Thumbnail url={visual.beforeUrl} className="h-32 rounded-md" /><p className="mt-1 text-center">{version.name}</p></div>
+                        <div><Thumbnail url={visual.afterUrl} className="h-32 rounded-md" /><p className="mt-1 text-center">{t('layerComposer_library_current')}</p></div>
+                    </div>
+                    <div>
+                        <Thumbnail url={visual.diffUrl} className="h-48 rounded-md" />
+                        <p className="mt-1 text-xs text-neutral-400 text-center">{t('layerComposer_library_diffLegend', (visual.changedRatio * 100).toFixed(1))}</p>
+                    </div>
+                </>
+            )}
+            {hasChanges ? (
+                <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+                    {changes.added.map(layer => <li key={`a-${layer.id}`} className="text-green-400">{t('layerComposer_library_layerAdded', getLayerDisplayName(layer))}</li>)}
+                    {changes.removed.map(layer => <li key={`r-${layer.id}`} className="text-red-400">{t('layerComposer_library_layerRemoved', getLayerDisplayName(layer))}</li>)}
+                    {changes.changed.map(({ layer, fields }) => <li key={`c-${layer.id}`} className="text-yellow-300">{t('layerComposer_library_layerChanged', getLayerDisplayName(layer), fields.join(', '))}</li>)}
+                </ul>
+            ) : (
+                <p className="text-sm text-neutral-400">{t('layerComposer_library_noLayerChanges')}</p>
+            )}
+            <button onClick={onRestore} className="btn btn-primary btn-sm w-full">{t('layerComposer_library_restore')}</button>
+        </div>
+    );
+};
+
+/**
+ * The Layer Composer's saved documents, and the named versions of the open one.
+ */
+export const DocumentLibraryDialog: React.FC<DocumentLibraryDialogProps> = ({
+    isOpen, onClose, documents, activeDocumentId, versions, isBusy, onOpen, onCreate, onRename, onDuplicate, onDelete,
+    onSaveVersion, onRestoreVersion, onDeleteVersion, onCompareVersion
+}) => {
+    const { t } = useAppControls();
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+    const [versionName, setVersionName] = useState('');
+    const [comparing, setComparing] = useState<{ version: CanvasVersionRecord; result: { changes: LayerChanges; visual: VisualDiff | null } | null } | null>(null);
+    const activeDocument = documents.find(d => d.id === activeDocumentId) || null;
+
+    useEffect(() => {
+        if (!isOpen) { setRenamingId(null); setConfirmingDeleteId(null); setComparing(null); }
+    }, [isOpen]);
+
+    const commitRename = () => {
+        if (renamingId) onRename(renamingId, renameValue);
+        setRenamingId(null);
+    };
+
+    const handleCompare = async (version: CanvasVersionRecord) => {
+        setComparing({ version, result: null });
+        const result = await onCompareVersion(version.id);
+        setComparing(prev => prev?.version.id === version.id ? { version, result } : prev);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay z-[80]"
+                    aria-modal="true" role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content !max-w-5xl"
+                    >
+                        <div className="flex items-center justify-between gap-4">
+                            <h3 className="base-font font-bold text-2xl text-yellow-400">{t('layerComposer_library_title')}</h3>
+                            <button onClick={onCreate} className="btn btn-primary btn-sm" disabled={isBusy}>{t('layerComposer_library_new')}</button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-2 max-h-[70vh]">
+                            <div className="md:col-span-2 overflow-y-auto pr-1">
+                                {documents.length === 0 ? (
+                                    <p className="text-sm text-neutral-500 text-center py-8">{t('layerComposer_library_empty')}</p>
+                                ) : (
+                                    <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                                        {documents.map(doc => (
+                                            <div key={doc.id} className={cn("rounded-lg border bg-neutral-800 overflow-hidden flex flex-col", doc.id === activeDocumentId ? 'border-yellow-400' : 'border-neutral-700 hover:border-neutral-600')}>
+                                                <button onClick={() => onOpen(doc.id)} disabled={isBusy} className="block" title={t('layerComposer_library_open')}>
+                                                    <Thumbnail url={doc.thumbnail} className="h-28" />
+                                                </button>
+                                                <div className="p-2 space-y-1 text-sm">
+                                                    {renamingId === doc.id ? (
+                                                        <input
+                                                            autoFocus
+                                                            value={renameValue}
+                                                            onChange={e => setRenameValue(e.target.value)}
+                                                            onBlur={commitRename}
+                                                            onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                                                            className="form-input !p-1 !text-sm w-full"
+                                                        />
+                                                    ) : (
+                                                        <p className="text-neutral-200 truncate" title={doc.name} onDoubleClick={() => { setRenamingId(doc.id); setRenameValue(doc.name); }}>{doc.name}</p>
+                                                    )}
+                                                    <p className="text-xs text-neutral-500">{t('layerComposer_library_modified', new Date(doc.updatedAt).toLocaleString())}</p>
+                                                    {confirmingDeleteId === doc.id ? (
+                                                        <div className="flex gap-1">
+                                                            <button onClick={() => { onDelete(doc.id); setConfirmingDeleteId(null); }} className="btn btn-sm flex-1 !px-1 !bg-red-500 hover:!bg-red-600 text-white">{t('layerComposer_library_confirmDelete')}</button>
+                                                            <button onClick={() => setConfirmingDeleteId(null)} className="btn btn-secondary btn-sm flex-1 !px-1">{t('common_cancel')}</button>
+                                                        </div>
+                                                    ) : (
+                                                        <div className="flex gap-1 text-xs">
+                                                            <button onClick={() => { setRenamingId(doc.id); setRenameValue(doc.name); }} className="flex-1 py-1 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_library_rename')}</button>
+                                                            <button onClick={() => onDuplicate(doc.id)} disabled={isBusy} className="flex-1 py-1 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_library_duplicate')}</button>
+                                                            <button onClick={() => setConfirmingDeleteId(doc.id)} disabled={isBusy} className="flex-1 py-1 rounded bg-white/5 hover:bg-red-500/30 text-neutral-300">{t('layerComposer_library_delete')}</button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="border-t md:border-t-0 md:border-l border-neutral-700 md:pl-4 pt-4 md:pt-0 overflow-y-auto">
+                                {!activeDocument ? (
+                                    <p className="text-sm text-neutral-500 text-center py-8">{t('layerComposer_library_noOpenDocument')}</p>
+                                ) : comparing ? (
+                                    <VersionComparison
+                                        version={comparing.version}
+                                        result={comparing.result}
+                                        onBack={() => setComparing(null)}
+                                        onRestore={() => onRestoreVersion(comparing.version.id)}
+                                    />
+                                ) : (
+                                    <div className="space-y-3">
+                                        <h4 className="font-semibold text-neutral-200 truncate">{t('layerComposer_library_versionsOf', activeDocument.name)}</h4>
+                                        <form onSubmit={e => { e.preventDefault(); onSaveVersion(versionName); setVersionName(''); }} className="flex gap-2">
+                                            <input value={versionName} onChange={e => setVersionName(e.target.value)} placeholder={t('layerComposer_library_versionNamePlaceholder')} className="form-input !p-1.5 !text-sm flex-grow min-w-0" />
+                                            <button type="submit" className="btn btn-secondary btn-sm" disabled={isBusy}>{t('layerComposer_library_saveVersion')}</button>
+                                        </form>
+                                        {versions.length === 0 ? (
+                                            <p className="text-sm text-neutral-500 text-center py-4">{t('layerComposer_library_noVersions')}</p>
+                                        ) : (
+                                            <ul className="space-y-2">
+                                                {versions.map(version => (
+                                                    <li key={version.id} className="flex gap-2 p-2 rounded-md bg-neutral-800 border border-neutral-700">
+                                                        <Thumbnail url={version.thumbnail} className="w-14 h-14 rounded flex-shrink-0" />
+                                                        <div className="flex-grow min-w-0 text-sm">
+                                                            <p className="text-neutral-200 truncate" title={version.name}>{version.name}</p>
+                                                            <p className="text-xs text-neutral-500">{new Date(version.createdAt).toLocaleString()}</p>
+                                                            <div className="flex gap-1 mt-1 text-xs">
+                                                                <button onClick={() => handleCompare(version)} className="px-2 py-0.5 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_library_compare')}</button>
+                                                                <button onClick={() => onRestoreVersion(version.id)} className="px-2 py-0.5 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_library_restore')}</button>
+                                                                <button onClick={() => onDeleteVersion(version.id)} disabled={isBusy} className="px-2 py-0.5 rounded bg-white/5 hover:bg-red-500/30 text-neutral-300">{t('layerComposer_library_delete')}</button>
+                                                            </div>
+                                                        </div>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                        <div className="flex justify-end items-center gap-4 mt-4">
+                            <button onClick={onClose} className="btn btn-secondary btn-sm">{t('layerComposer_library_close')}</button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
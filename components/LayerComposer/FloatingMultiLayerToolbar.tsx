@@ -18,9 +18,15 @@ import {
     DistributeHorizontalScaleIcon,
     DistributeVerticalScaleIcon,
     MergeIcon, 
+    GroupIcon,
     DownloadIcon, 
     DuplicateIcon, 
-    DeleteIcon 
+    DeleteIcon,
+    UnionIcon,
+    SubtractIcon,
+    IntersectIcon,
+    ExcludeIcon,
+    TextOnPathIcon
 } from '../icons';
 
 interface FloatingMultiLayerToolbarProps {
@@ -28,6 +34,9 @@ interface FloatingMultiLayerToolbarProps {
     onAction: (action: MultiLayerAction) => void;
     scaleMV: MotionValue<number>;
     selectedLayerCount: number;
+    // Every selected layer is a shape or path, so boolean operations and SVG export apply.
+    canCombineShapes: boolean;
+    canPlaceTextOnPath: boolean;
 }
 
 const ToolButton: React.FC<{
@@ -51,7 +60,7 @@ const ToolButton: React.FC<{
     </button>
 );
 
-export const FloatingMultiLayerToolbar: React.FC<FloatingMultiLayerToolbarProps> = ({ boundingBox, onAction, scaleMV, selectedLayerCount }) => {
+export const FloatingMultiLayerToolbar: React.FC<FloatingMultiLayerToolbarProps> = ({ boundingBox, onAction, scaleMV, selectedLayerCount, canCombineShapes, canPlaceTextOnPath }) => {
     
     const inverseScale = useTransform(scaleMV, s => 1 / s);
     const yOffset = useTransform(scaleMV, s => -45 / s);
@@ -111,9 +120,37 @@ export const FloatingMultiLayerToolbar: React.FC<FloatingMultiLayerToolbarProps>
              <ToolButton label="Gộp Layer" onClick={() => onAction('merge')} disabled={selectedLayerCount < 2}>
                 <MergeIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
+            <ToolButton label="Nhóm Layer (Ctrl+G)" onClick={() => onAction('group')}>
+                <GroupIcon className="h-5 w-5" strokeWidth="1.5" />
+            </ToolButton>
             <ToolButton label="Xuất" onClick={() => onAction('export')}>
                 <DownloadIcon className="h-5 w-5" strokeWidth="1.5" />
             </ToolButton>
+            {canCombineShapes && (
+                <>
+                    <ToolButton label="Xuất SVG" onClick={() => onAction('export-svg')}>
+                        <span className="block h-5 min-w-5 text-xs font-bold leading-5">SVG</span>
+                    </ToolButton>
+                    <div className="w-px h-5 bg-white/20 mx-1 self-center" />
+                    <ToolButton label="Hợp hình (Union)" onClick={() => onAction('boolean-union')}>
+                        <UnionIcon className="h-5 w-5" strokeWidth="1.5" />
+                    </ToolButton>
+                    <ToolButton label="Trừ hình (Subtract)" onClick={() => onAction('boolean-subtract')}>
+                        <SubtractIcon className="h-5 w-5" strokeWidth="1.5" />
+                    </ToolButton>
+                    <ToolButton label="Giao hình (Intersect)" onClick={() => onAction('boolean-intersect')}>
+                        <IntersectIcon className="h-5 w-5" strokeWidth="1.5" />
+                    </ToolButton>
+                    <ToolButton label="Loại trừ phần giao (Exclude)" onClick={() => onAction('boolean-exclude')}>
+                        <ExcludeIcon className="h-5 w-5" strokeWidth="1.5" />
+                    </ToolButton>
+                </>
+            )}
+            {canPlaceTextOnPath && (
+                <ToolButton label="Đặt chữ theo đường (Text on Path)" onClick={() => onAction('text-on-path')}>
+                    <TextOnPathIcon className="h-5 w-5" strokeWidth="1.5" />
+                </ToolButton>
+            )}
 
             <div className="w-px h-5 bg-white/20 mx-1 self-center" />
 
@@ -2,6 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { type PixelAdjustments, type PenNode } from '../ImageEditor/ImageEditor.types';
 
 // --- Shared Types ---
 export type Point = { x: number; y: number };
@@ -22,9 +23,30 @@ export interface CanvasSettings {
         enabled: boolean;
         color: string;
     };
+    // Fonts uploaded by the user, kept with the canvas so saved files still render with them.
+    customFonts?: CustomFont[];
+    // Rulers along the top and left of the view; guides are dragged out of them. Shown unless false.
+    showRulers?: boolean;
+    userGuides?: UserGuide[];
+    // How far the arrow keys move the selection; Shift moves ten times as far. See snapping.ts.
+    nudgeStep?: number;
 }
 
-export type CanvasTool = 'select' | 'hand' | 'rectangle' | 'ellipse';
+/** A guide dragged out of a ruler: a line across the whole canvas that layers snap to. */
+export interface UserGuide {
+    id: string;
+    // 'x' is a vertical line at x = position, 'y' a horizontal one, as with Guide.
+    axis: 'x' | 'y';
+    position: number;
+}
+
+export interface CustomFont {
+    family: string;
+    // The font file as a data URL.
+    url: string;
+}
+
+export type CanvasTool = 'select' | 'hand' | 'rectangle' | 'ellipse' | 'artboard' | 'pen' | 'measure';
 export type Handle = 'tl' | 'tr' | 'bl' | 'br' | 't' | 'b' | 'l' | 'r';
 
 export type Interaction = {
@@ -48,7 +70,11 @@ export type BlendMode = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'dar
 
 export interface Layer {
     id: string;
-    type: 'image' | 'text' | 'shape';
+    type: 'image' | 'text' | 'shape' | 'group' | 'artboard' | 'adjustment' | 'path';
+    // Display name in the layer list; used by groups and artboards.
+    name?: string;
+    // The group this layer belongs to. See layerTree.ts.
+    parentId?: string;
     x: number;
     y: number;
     width: number;
@@ -70,10 +96,130 @@ export interface Layer {
     textAlign?: 'left' | 'center' | 'right';
     color?: string;
     lineHeight?: number;
-    // Shape-specific
+    // In pixels, added between characters.
+    letterSpacing?: number;
+    // Styles for parts of the text, on top of the layer's own text style. See richText.ts.
+    textRuns?: TextRun[];
+    textStroke?: TextStroke;
+    textShadow?: TextShadow;
+    // Sets the text along a curve instead of wrapping it in the box.
+    textPath?: TextPath;
+    // Shape-specific (fillColor is also an artboard's background, and a path's fill; 'none' for no fill)
     shapeType?: 'rectangle' | 'ellipse';
     fillColor?: string;
     borderRadius?: number;
+    // Shapes, paths and text: replaces fillColor (or a text's colors) when set.
+    fillGradient?: GradientFill;
+    // Path-specific. See vectorPaths.ts.
+    path?: VectorPath;
+    stroke?: StrokeStyle;
+    // Non-destructive masking, applied when the layer is drawn. See layerRendering.ts.
+    mask?: LayerMask;
+    // Show this layer only where the nearest non-clipped layer below it has pixels.
+    clipToBelow?: boolean;
+    // Adjustment-specific: applied to everything beneath the layer's box (or only to the clipping base).
+    adjustments?: LayerAdjustments;
+    // Marks an image or text layer as a placeholder a template asks to be filled. See templates.ts.
+    slot?: LayerSlot;
+}
+
+// How new content goes into an image slot's box: 'fit' shows all of it and shrinks the box to match,
+// 'fill' crops it to cover the box, 'stretch' scales it to the box.
+export type SlotFit = 'fit' | 'fill' | 'stretch';
+
+export interface LayerSlot {
+    // Layers with the same name are filled with the same content.
+    name: string;
+    fit: SlotFit;
+}
+
+export interface VectorSubpath {
+    nodes: PenNode[];
+    closed: boolean;
+}
+
+export interface VectorPath {
+    // The size of the space the nodes are in; the path is stretched from it over the layer's box.
+    width: number;
+    height: number;
+    subpaths: VectorSubpath[];
+    fillRule?: 'nonzero' | 'evenodd';
+}
+
+export interface StrokeStyle {
+    color: string;
+    width: number;
+    dash: 'solid' | 'dashed' | 'dotted';
+    lineCap: 'butt' | 'round' | 'square';
+    // Arrowheads on the ends of open subpaths.
+    startArrow?: boolean;
+    endArrow?: boolean;
+}
+
+export type GradientStop = { offset: number; color: string };
+
+export interface GradientFill {
+    type: 'linear' | 'radial';
+    // Linear only: direction in degrees, 0 running left to right.
+    angle: number;
+    stops: GradientStop[];
+}
+
+export type TextRunStyle = {
+    fontFamily?: string;
+    fontSize?: number;
+    fontWeight?: string;
+    fontStyle?: 'normal' | 'italic';
+    color?: string;
+    letterSpacing?: number;
+};
+
+export interface TextRun {
+    // Character offsets into the layer's text; end is exclusive.
+    start: number;
+    end: number;
+    style: TextRunStyle;
+}
+
+export interface TextStroke {
+    color: string;
+    // The visible outline width; the outline sits behind the fill.
+    width: number;
+}
+
+export interface TextShadow {
+    color: string;
+    offsetX: number;
+    offsetY: number;
+    blur: number;
+}
+
+export interface TextPath {
+    // In the same form as a path layer's path, stretched over the text layer's box.
+    path: VectorPath;
+    // Where the text is anchored along the path, in percent of its length; textAlign picks which end of the text sits there.
+    startOffset: number;
+}
+
+// The ImageEditor's adjustment pipeline, plus its blur radius in canvas pixels.
+export type LayerAdjustments = PixelAdjustments & { blur: number };
+
+export type MaskShape = {
+    type: 'rectangle' | 'ellipse';
+    // In fractions of the layer's box (0-1), so the shape follows the layer when it is resized.
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    // Rectangles only, as a fraction of the shape's shorter side (0-0.5).
+    borderRadius?: number;
+};
+
+export interface LayerMask {
+    isEnabled: boolean;
+    // Painted mask: a PNG stretched over the layer's box; its alpha is the layer's visibility.
+    url?: string;
+    shape?: MaskShape;
 }
 
 
@@ -85,12 +231,81 @@ export type Guide = {
     end: number;
 };
 
+// A gap shown while it equals other gaps in the row: from start to end along the axis, drawn at position across it.
+export type SpacingGuide = {
+    axis: 'x' | 'y';
+    start: number;
+    end: number;
+    position: number;
+    distance: number;
+};
+
 export type MultiLayerAction = 
     | 'align-left' | 'align-center' | 'align-right'
     | 'align-top' | 'align-middle' | 'align-bottom'
     | 'distribute-horizontal' | 'distribute-vertical'
     | 'distribute-and-scale-horizontal' | 'distribute-and-scale-vertical'
-    | 'merge' | 'delete' | 'duplicate' | 'export';
+    | 'merge' | 'group' | 'delete' | 'duplicate' | 'export' | 'export-svg'
+    | 'boolean-union' | 'boolean-subtract' | 'boolean-intersect' | 'boolean-exclude'
+    | 'text-on-path';
+
+// --- Collaboration Types ---
+export type CollabStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface CollabSession {
+    url: string;
+    room: string;
+    /** Shared secret for the room; whoever opens the room first sets it. */
+    token: string;
+    name: string;
+}
+
+/** What each participant shares about themselves: who they are, where their pointer is and what they have selected. */
+export interface CollabPresence {
+    name: string;
+    color: string;
+    cursor: Point | null;
+    selection: string[];
+}
+
+export type CollabPeer = CollabPresence & { clientId: string };
+
+// --- Document Library Types ---
+/** Everything saved for a document: the layers, the canvas and the undo history. */
+export interface CanvasDocumentState {
+    layers: Layer[];
+    canvasSettings: CanvasSettings;
+    isInfiniteCanvas: boolean;
+    history?: Layer[][];
+    historyIndex?: number;
+}
+
+export interface CanvasDocumentRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail?: string;
+}
+
+/** A named snapshot of a document. Snapshots don't keep the undo history. */
+export interface CanvasVersionRecord {
+    id: string;
+    documentId: string;
+    name: string;
+    createdAt: number;
+    thumbnail?: string;
+    state: CanvasDocumentState;
+}
+
+/** A saved composition whose slot layers are filled in to start a new document. */
+export interface CanvasTemplateRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    thumbnail?: string;
+    state: CanvasDocumentState;
+}
 
 // --- AI & Preset Types ---
 export type AIPreset = {
@@ -5,12 +5,20 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion, MotionValue, useMotionValueEvent, useTransform, AnimatePresence } from 'framer-motion';
 import { cn } from '../../lib/utils';
-import { type Layer, type CanvasSettings, type Interaction, type Handle, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type Guide, type CanvasTool } from './LayerComposer.types';
+import { type Layer, type CanvasSettings, type Interaction, type Handle, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type Guide, type SpacingGuide, type UserGuide, type CanvasTool, type Point, type CollabPeer } from './LayerComposer.types';
 import { LayerItem } from './LayerItem';
 import { SelectionFrame } from './SelectionFrame';
 import { CanvasToolbar } from './CanvasToolbar';
 import { FloatingLayerToolbar, type LayerAction } from './FloatingLayerToolbar';
 import { FloatingMultiLayerToolbar } from './FloatingMultiLayerToolbar';
+import { getTopLevelLayer, getTransformTargets, getChildLayers, isLayerLocked } from './layerTree';
+import { renderClipMask, renderAdjustmentPreview } from './layerRendering';
+import { MaskBrushOverlay } from './MaskBrushOverlay';
+import { CollaboratorPresence } from './CollaboratorPresence';
+import { CanvasRulers } from './CanvasRulers';
+import { type SnapContext, findSnap, getSnapLines, measureBetween } from './snapping';
+import { createPathFromCanvasSubpaths, subpathsToSvgData, DEFAULT_STROKE } from './vectorPaths';
+import { type PenNode } from '../ImageEditor/ImageEditor.types';
 import { useAppControls } from '../uiUtils';
 
 interface LayerComposerCanvasProps {
@@ -53,6 +61,14 @@ interface LayerComposerCanvasProps {
     captureLayer: (layer: Layer) => Promise<string>;
     addLayer: (layer: Omit<Layer, 'id'>) => void;
     shapeFillColor: string;
+    handleUngroupSelected: () => void;
+    handleAddArtboard: (rect?: Rect) => void;
+    editingMaskForLayerId: string | null;
+    setEditingMaskForLayerId: (id: string | null) => void;
+    handleExportSvg: () => void;
+    collabPeers: CollabPeer[];
+    updateCollabCursor: (point: Point | null) => void;
+    onCanvasSettingsChange: React.Dispatch<React.SetStateAction<CanvasSettings>>;
 }
 
 const snap = (value: number, gridSize: number) => {
@@ -60,6 +76,39 @@ const snap = (value: number, gridSize: number) => {
 };
 
 const SNAP_THRESHOLD = 12;
+const MEASURE_COLOR = '#fbbf24';
+const WORKSPACE_SETTINGS: (keyof CanvasSettings)[] = ['userGuides', 'showRulers', 'nudgeStep'];
+
+/**
+ * Draws a distance on the preview canvas: a line with end ticks and its length in a label at the middle.
+ * Sizes are divided by the zoom so they look the same at any zoom.
+ */
+const drawDimensionLine = (ctx: CanvasRenderingContext2D, from: Point, to: Point, label: string, color: string, s: number) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const tick = { x: -Math.sin(angle) * 4 / s, y: Math.cos(angle) * 4 / s };
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1 / s;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    [from, to].forEach(p => {
+        ctx.moveTo(p.x - tick.x, p.y - tick.y);
+        ctx.lineTo(p.x + tick.x, p.y + tick.y);
+    });
+    ctx.stroke();
+    ctx.font = `bold ${11 / s}px monospace`;
+    const textWidth = ctx.measureText(label).width;
+    const padding = 4 / s, height = 16 / s;
+    const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    ctx.fillStyle = color;
+    ctx.fillRect(mid.x - textWidth / 2 - padding, mid.y - height / 2, textWidth + padding * 2, height);
+    ctx.fillStyle = '#000000';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, mid.x, mid.y);
+    ctx.restore();
+};
 
 export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     canvasViewRef, layers, canvasSettings, isInfiniteCanvas, selectedLayerIds, selectedLayers, 
@@ -72,7 +121,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     setSelectedLayerIds, onFilesDrop, onMultiLayerAction,
     onDuplicateForDrag, handleMergeLayers, openImageEditor,
     deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleBakeSelectedLayer,
-    captureLayer, addLayer, shapeFillColor
+    captureLayer, addLayer, shapeFillColor, handleUngroupSelected, handleAddArtboard,
+    editingMaskForLayerId, setEditingMaskForLayerId, handleExportSvg, collabPeers, updateCollabCursor,
+    onCanvasSettingsChange
 }) => {
     const { t } = useAppControls();
     const previewCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -80,9 +131,55 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     const [cursorPosition, setCursorPosition] = useState<{x:number, y:number} | null>(null);
     const [isDraggingOver, setIsDraggingOver] = useState(false);
     const [activeGuides, setActiveGuides] = useState<Guide[]>([]);
+    const [spacingGuides, setSpacingGuides] = useState<SpacingGuide[]>([]);
+    // The line dragged out with the measure tool; it stays until the next drag.
+    const [measureLine, setMeasureLine] = useState<{ from: Point; to: Point } | null>(null);
+    const [isMeasuring, setIsMeasuring] = useState(false);
     const [isCommandKeyPressed, setIsCommandKeyPressed] = useState(false);
 
+    useEffect(() => { updateCollabCursor(cursorPosition); }, [cursorPosition, updateCollabCursor]);
+
     const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : null;
+    const maskEditingLayer = editingMaskForLayerId ? layers.find(l => l.id === editingMaskForLayerId) || null : null;
+    const [clipMasks, setClipMasks] = useState<Record<string, string>>({});
+    const [adjustmentPreviews, setAdjustmentPreviews] = useState<Record<string, string>>({});
+    // The path being drawn with the pen tool, in canvas coordinates.
+    const [penNodes, setPenNodes] = useState<PenNode[]>([]);
+    const [isDraggingPenHandle, setIsDraggingPenHandle] = useState(false);
+
+    // Clipping and adjustment layers can't be expressed in CSS, so they are rendered with the export
+    // renderer: each clipped layer gets a mask rendered from its base, each adjustment layer an image
+    // of what it does to the layers beneath.
+    useEffect(() => {
+        const clippedLayers = layers.filter(l => l.clipToBelow && l.isVisible && l.type !== 'group' && l.type !== 'artboard');
+        const adjustmentLayers = layers.filter(l => l.type === 'adjustment' && l.isVisible);
+        if (clippedLayers.length === 0 && adjustmentLayers.length === 0) {
+            setClipMasks({});
+            setAdjustmentPreviews({});
+            return;
+        }
+        let isCancelled = false;
+        const renderAll = async (targets: Layer[], render: (layers: Layer[], target: Layer) => Promise<string | null>) => {
+            const entries = await Promise.all(targets.map(async layer => {
+                try {
+                    return [layer.id, await render(layers, layer)] as const;
+                } catch (err) {
+                    console.error("Failed to render layer preview:", err);
+                    return [layer.id, null] as const;
+                }
+            }));
+            const urls: Record<string, string> = {};
+            entries.forEach(([id, url]) => { if (url) urls[id] = url; });
+            return urls;
+        };
+        const timer = setTimeout(async () => {
+            const [masks, previews] = await Promise.all([renderAll(clippedLayers, renderClipMask), renderAll(adjustmentLayers, renderAdjustmentPreview)]);
+            if (isCancelled) return;
+            setClipMasks(masks);
+            setAdjustmentPreviews(previews);
+        }, 100);
+        return () => { isCancelled = true; clearTimeout(timer); };
+    }, [layers]);
     
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -108,6 +205,50 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         };
     }, []);
 
+    const finishPenPath = useCallback((closed: boolean) => {
+        // Double-clicking to finish places extra nodes on the same spot; they are dropped.
+        const nodes = penNodes.filter((node, i) => i === 0 || Math.hypot(node.anchor.x - penNodes[i - 1].anchor.x, node.anchor.y - penNodes[i - 1].anchor.y) > 0.5);
+        setPenNodes([]);
+        setIsDraggingPenHandle(false);
+        const geometry = nodes.length >= 2 ? createPathFromCanvasSubpaths([{ nodes, closed }]) : null;
+        if (!geometry) return;
+        addLayer({
+            type: 'path',
+            ...geometry,
+            fillColor: closed ? shapeFillColor : 'none',
+            stroke: { ...DEFAULT_STROKE },
+            rotation: 0,
+            opacity: 100,
+            blendMode: 'source-over',
+            isVisible: true,
+            isLocked: false,
+        });
+        setActiveCanvasTool('select');
+    }, [penNodes, addLayer, shapeFillColor, setActiveCanvasTool]);
+
+    useEffect(() => {
+        if (activeCanvasTool !== 'pen') setPenNodes([]);
+        if (activeCanvasTool !== 'measure') setMeasureLine(null);
+    }, [activeCanvasTool]);
+
+    // While a path is being drawn, Enter finishes it, Escape discards it and Backspace removes the last node.
+    // Listening in the capture phase keeps these keys away from the composer's own shortcuts.
+    useEffect(() => {
+        if (penNodes.length === 0) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            if (e.code === 'Enter') finishPenPath(false);
+            else if (e.code === 'Escape') setPenNodes([]);
+            else if (e.code === 'Backspace' || e.code === 'Delete') setPenNodes(nodes => nodes.slice(0, -1));
+            else return;
+            e.preventDefault();
+            e.stopPropagation();
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [penNodes.length, finishPenPath]);
+
     const getPointerInCanvas = useCallback((e: React.PointerEvent) => {
         const view = canvasViewRef.current;
         if (!view) return null;
@@ -155,9 +296,15 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             case 'export':
                 exportSelectedLayer();
                 break;
+            case 'export-svg':
+                handleExportSvg();
+                break;
             case 'bake':
                 handleBakeSelectedLayer();
                 break;
+            case 'ungroup':
+                handleUngroupSelected();
+                break;
             case 'edit':
                 if (layer.type === 'image' && layer.url) {
                     openImageEditor(layer.url, (newUrl) => {
@@ -177,111 +324,16 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         }
     };
 
-    const findGuides = (movingBox: Rect, targets: Rect[]): { guides: Guide[], snapOffset: {x: number, y: number} } => {
-        const guides: Guide[] = [];
-        let snapOffsetX = 0;
-        let snapOffsetY = 0;
-        let minSnapX = Infinity;
-        let minSnapY = Infinity;
-
-        const movingPoints = {
-            l: movingBox.x,
-            cx: movingBox.x + movingBox.width / 2,
-            r: movingBox.x + movingBox.width,
-            t: movingBox.y,
-            cy: movingBox.y + movingBox.height / 2,
-            b: movingBox.y + movingBox.height,
+    // What a moving or resizing selection snaps to. With smart guides off, only the user's own guides remain.
+    const getSnapContext = (movingIds: Set<string>, snapToSpacing: boolean): SnapContext => {
+        const userGuides = canvasSettings.userGuides || [];
+        if (!canvasSettings.guides.enabled) return { targets: [], lines: getSnapLines(userGuides, null), snapToSpacing: false };
+        const otherLayers = layers.filter(l => !movingIds.has(l.id) && !selectedLayerIds.includes(l.id) && l.type !== 'group' && l.isVisible);
+        return {
+            targets: otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height })),
+            lines: getSnapLines(userGuides, isInfiniteCanvas ? null : { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height }),
+            snapToSpacing,
         };
-
-        targets.forEach(target => {
-            const targetPoints = {
-                l: target.x,
-                cx: target.x + target.width / 2,
-                r: target.x + target.width,
-                t: target.y,
-                cy: target.y + target.height / 2,
-                b: target.y + target.height,
-            };
-
-            const checks = [
-                { moving: movingPoints.l, target: targetPoints.l, axis: 'x' },
-                { moving: movingPoints.l, target: targetPoints.cx, axis: 'x' },
-                { moving: movingPoints.l, target: targetPoints.r, axis: 'x' },
-                { moving: movingPoints.cx, target: targetPoints.l, axis: 'x' },
-                { moving: movingPoints.cx, target: targetPoints.cx, axis: 'x' },
-                { moving: movingPoints.cx, target: targetPoints.r, axis: 'x' },
-                { moving: movingPoints.r, target: targetPoints.l, axis: 'x' },
-                { moving: movingPoints.r, target: targetPoints.cx, axis: 'x' },
-                { moving: movingPoints.r, target: targetPoints.r, axis: 'x' },
-                { moving: movingPoints.t, target: targetPoints.t, axis: 'y' },
-                { moving: movingPoints.t, target: targetPoints.cy, axis: 'y' },
-                { moving: movingPoints.t, target: targetPoints.b, axis: 'y' },
-                { moving: movingPoints.cy, target: targetPoints.t, axis: 'y' },
-                { moving: movingPoints.cy, target: targetPoints.cy, axis: 'y' },
-                { moving: movingPoints.cy, target: targetPoints.b, axis: 'y' },
-                { moving: movingPoints.b, target: targetPoints.t, axis: 'y' },
-                { moving: movingPoints.b, target: targetPoints.cy, axis: 'y' },
-                { moving: movingPoints.b, target: targetPoints.b, axis: 'y' },
-            ];
-
-            checks.forEach(check => {
-                const diff = check.target - check.moving;
-                const absDiff = Math.abs(diff);
-
-                if (absDiff < SNAP_THRESHOLD / scale.get()) {
-                    if (check.axis === 'x') {
-                        if (absDiff < minSnapX) {
-                            minSnapX = absDiff;
-                            snapOffsetX = diff;
-                        }
-                    } else {
-                        if (absDiff < minSnapY) {
-                            minSnapY = absDiff;
-                            snapOffsetY = diff;
-                        }
-                    }
-                }
-            });
-        });
-
-        // After finding best snaps, generate guide lines
-        if (minSnapX !== Infinity) {
-             const finalMovingXPoints = {
-                l: movingPoints.l + snapOffsetX,
-                cx: movingPoints.cx + snapOffsetX,
-                r: movingPoints.r + snapOffsetX
-            };
-            targets.forEach(target => {
-                const targetPoints = { l: target.x, cx: target.x + target.width / 2, r: target.x + target.width };
-                for (const mKey of ['l', 'cx', 'r'] as const) {
-                    for (const tKey of ['l', 'cx', 'r'] as const) {
-                        if (Math.abs(finalMovingXPoints[mKey] - targetPoints[tKey]) < 0.1) {
-                            guides.push({ axis: 'x', position: targetPoints[tKey], start: Math.min(movingBox.y, target.y), end: Math.max(movingBox.y + movingBox.height, target.y + target.height) });
-                        }
-                    }
-                }
-            });
-        }
-         if (minSnapY !== Infinity) {
-            const finalMovingYPoints = {
-                t: movingPoints.t + snapOffsetY,
-                cy: movingPoints.cy + snapOffsetY,
-                b: movingPoints.b + snapOffsetY
-            };
-            targets.forEach(target => {
-                const targetPoints = { t: target.y, cy: target.y + target.height / 2, b: target.y + target.height };
-                for (const mKey of ['t', 'cy', 'b'] as const) {
-                    for (const tKey of ['t', 'cy', 'b'] as const) {
-                        if (Math.abs(finalMovingYPoints[mKey] - targetPoints[tKey]) < 0.1) {
-                            guides.push({ axis: 'y', position: targetPoints[tKey], start: Math.min(movingBox.x, target.x), end: Math.max(movingBox.x + movingBox.width, target.x + target.width) });
-                        }
-                    }
-                }
-            });
-        }
-
-
-        return { guides, snapOffset: { x: snapOffsetX, y: snapOffsetY } };
     };
 
     const handlePointerMove = (e: React.PointerEvent) => {
@@ -294,6 +346,31 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             }
             return;
         }
+
+        if (isMeasuring) {
+            const coords = getPointerInCanvas(e);
+            if (!coords) return;
+            setMeasureLine(line => {
+                if (!line) return line;
+                let to = coords;
+                // Shift keeps the line horizontal or vertical.
+                if (e.shiftKey) to = Math.abs(coords.x - line.from.x) > Math.abs(coords.y - line.from.y) ? { x: coords.x, y: line.from.y } : { x: line.from.x, y: coords.y };
+                return { from: line.from, to };
+            });
+            return;
+        }
+
+        if (isDraggingPenHandle) {
+            const coords = getPointerInCanvas(e);
+            if (!coords) return;
+            // Dragging pulls out the new node's outgoing handle and mirrors it for a smooth curve.
+            setPenNodes(nodes => {
+                const last = nodes[nodes.length - 1];
+                if (!last) return nodes;
+                return [...nodes.slice(0, -1), { anchor: last.anchor, outHandle: coords, inHandle: { x: 2 * last.anchor.x - coords.x, y: 2 * last.anchor.y - coords.y } }];
+            });
+            return;
+        }
         
         let currentInteraction = interaction;
 
@@ -336,28 +413,21 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             else if (currentInteraction.lockedAxis === 'y') dx = 0;
             
             let finalGuides: Guide[] = [];
+            let finalSpacingGuides: SpacingGuide[] = [];
             const bbox = getBoundingBoxForLayers(currentInteraction.initialLayers);
             if(bbox) {
                 const movingBox: Rect = { x: bbox.x + dx, y: bbox.y + dy, width: bbox.width, height: bbox.height };
                 
-                if (canvasSettings.guides.enabled && !e.altKey) {
-                    const otherLayers = layers.filter(l => !selectedLayerIds.includes(l.id) && l.isVisible);
-                    let targets: Rect[] = otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height }));
-                    if (!isInfiniteCanvas) {
-                        targets.push({ x: 0, y: 0, width: canvasSettings.width, height: 0 }); // Top Edge
-                        targets.push({ x: 0, y: canvasSettings.height / 2, width: canvasSettings.width, height: 0 }); // V Center
-                        targets.push({ x: 0, y: canvasSettings.height, width: canvasSettings.width, height: 0 }); // Bottom Edge
-                        targets.push({ x: 0, y: 0, width: 0, height: canvasSettings.height }); // Left Edge
-                        targets.push({ x: canvasSettings.width / 2, y: 0, width: 0, height: canvasSettings.height }); // H Center
-                        targets.push({ x: canvasSettings.width, y: 0, width: 0, height: canvasSettings.height }); // Right Edge
-                    }
-                    const { guides, snapOffset } = findGuides(movingBox, targets);
-                    dx += snapOffset.x;
-                    dy += snapOffset.y;
+                if (!e.altKey) {
+                    const movingIds = new Set<string>(currentInteraction.initialLayers.map(l => l.id));
+                    const { guides, spacingGuides: gaps, offset } = findSnap(movingBox, getSnapContext(movingIds, true), SNAP_THRESHOLD / scale.get());
+                    dx += offset.x;
+                    dy += offset.y;
                     finalGuides = guides;
+                    finalSpacingGuides = gaps;
                 }
                 
-                if (canvasSettings.grid.snap && !e.altKey && finalGuides.length === 0) {
+                if (canvasSettings.grid.snap && !e.altKey && finalGuides.length === 0 && finalSpacingGuides.length === 0) {
                     const initialBbox = currentInteraction.initialBoundingBox;
                     if(initialBbox) {
                         const newBboxX = initialBbox.x + dx;
@@ -369,6 +439,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                     }
                 }
             }
+            setSpacingGuides(finalSpacingGuides);
             setActiveGuides(finalGuides);
             const updates = currentInteraction.initialLayers.map(layer => ({ id: layer.id, props: { x: layer.x + dx, y: layer.y + dy } }));
             onUpdateLayers(updates, false);
@@ -415,14 +486,12 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
 
             let newBboxForSnapping: Rect = { x: newX, y: newY, width: newWidth, height: newHeight };
             let finalGuides: Guide[] = [];
-            if (canvasSettings.guides.enabled && !e.altKey) {
-                const otherLayers = layers.filter(l => !selectedLayerIds.includes(l.id) && l.isVisible);
-                const targets: Rect[] = otherLayers.map(l => ({ x: l.x, y: l.y, width: l.width, height: l.height }));
-                if (!isInfiniteCanvas) { targets.push( { x: 0, y: 0, width: canvasSettings.width, height: 0 }, { x: 0, y: canvasSettings.height / 2, width: canvasSettings.width, height: 0 }, { x: 0, y: canvasSettings.height, width: canvasSettings.width, height: 0 }, { x: 0, y: 0, width: 0, height: canvasSettings.height }, { x: canvasSettings.width / 2, y: 0, width: 0, height: canvasSettings.height }, { x: canvasSettings.width, y: 0, width: 0, height: canvasSettings.height } ); }
-                const { guides, snapOffset } = findGuides(newBboxForSnapping, targets);
+            if (!e.altKey) {
+                const movingIds = new Set<string>(initialLayers.map(l => l.id));
+                const { guides, offset } = findSnap(newBboxForSnapping, getSnapContext(movingIds, false), SNAP_THRESHOLD / scale.get());
                 finalGuides = guides;
-                newBboxForSnapping.x += snapOffset.x;
-                newBboxForSnapping.y += snapOffset.y;
+                newBboxForSnapping.x += offset.x;
+                newBboxForSnapping.y += offset.y;
             }
             setActiveGuides(finalGuides);
 
@@ -446,9 +515,26 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             
         } else if (currentInteraction.type === 'rotate' && selectedLayer && currentInteraction.initialLayers) {
             const { initialLayers, initialCenter, initialAngle } = currentInteraction;
-            if (!initialCenter || initialAngle === undefined || initialLayers.length !== 1) return;
+            if (!initialCenter || initialAngle === undefined) return;
             const currentAngle = Math.atan2(currentPointer.y - initialCenter.y, currentPointer.x - initialCenter.x);
             const angleDiff = currentAngle - initialAngle;
+            if (selectedLayer.type === 'group') {
+                // Groups have no rotation of their own: each child turns around the group's center.
+                let degrees = angleDiff * 180 / Math.PI;
+                if (e.shiftKey) degrees = Math.round(degrees / 15) * 15;
+                const radians = degrees * Math.PI / 180;
+                const cos = Math.cos(radians), sin = Math.sin(radians);
+                const updates = initialLayers.map(child => {
+                    const cx = child.x + child.width / 2 - initialCenter.x;
+                    const cy = child.y + child.height / 2 - initialCenter.y;
+                    const newCx = initialCenter.x + cx * cos - cy * sin;
+                    const newCy = initialCenter.y + cx * sin + cy * cos;
+                    return { id: child.id, props: { x: newCx - child.width / 2, y: newCy - child.height / 2, rotation: child.rotation + degrees } };
+                });
+                onUpdateLayers(updates, false);
+                return;
+            }
+            if (initialLayers.length !== 1) return;
             let newRotation = initialLayers[0].rotation + (angleDiff * 180 / Math.PI);
             if (e.shiftKey) { // Snap rotation to 15-degree increments
                 newRotation = Math.round(newRotation / 15) * 15;
@@ -468,8 +554,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             };
             setMarqueeRect(newMarqueeRect);
 
-            const layersInMarqueeIds = layers.filter(layer => {
-                if (layer.isLocked) return false;
+            // Hits inside a group select the whole group, as a click would.
+            const hitLayers = layers.filter(layer => {
+                if (layer.type === 'artboard' || layer.type === 'adjustment' || layer.type === 'group' || isLayerLocked(layers, layer)) return false;
                 const layerRect = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
                 return !(
                     layerRect.x > newMarqueeRect.x + newMarqueeRect.width ||
@@ -477,7 +564,8 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                     layerRect.y > newMarqueeRect.y + newMarqueeRect.height ||
                     layerRect.y + layerRect.height < newMarqueeRect.y
                 );
-            }).map(l => l.id);
+            });
+            const layersInMarqueeIds = Array.from(new Set<string>(hitLayers.map(l => getTopLevelLayer(layers, l).id)));
 
             if (isShift) {
                 const newIds = new Set<string>(initialSelectedIds || []);
@@ -527,7 +615,10 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
 
     const handlePointerUp = (e: React.PointerEvent) => {
         if (panStartRef.current) panStartRef.current = null;
+        setIsDraggingPenHandle(false);
+        setIsMeasuring(false);
         setActiveGuides([]); // Clear guides on mouse up
+        setSpacingGuides([]);
         if (interaction) {
             if (interaction.type === 'marquee') {
                 if (!interaction.hasActionStarted) {
@@ -537,7 +628,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             } else if (interaction.type === 'drawingShape') {
                 if (marqueeRect && marqueeRect.width > 5 && marqueeRect.height > 5) {
                     const tool = interaction.tool;
-                    if (tool === 'rectangle' || tool === 'ellipse') {
+                    if (tool === 'artboard') {
+                        handleAddArtboard(marqueeRect);
+                    } else if (tool === 'rectangle' || tool === 'ellipse') {
                         addLayer({
                             type: 'shape',
                             shapeType: tool,
@@ -561,7 +654,8 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 setMarqueeRect(null);
                 setActiveCanvasTool('select');
             } else if (interaction.type === 'move' || interaction.type === 'resize' || interaction.type === 'rotate') {
-                const updatedLayers = selectedLayerIds.map(id => ({ id, props: layers.find(layer => layer.id === id) || {} }));
+                const changedIds = interaction.initialLayers?.map(l => l.id) || selectedLayerIds;
+                const updatedLayers = changedIds.map(id => ({ id, props: layers.find(layer => layer.id === id) || {} }));
                 onUpdateLayers(updatedLayers, true);
             }
             setInteraction(null);
@@ -572,11 +666,14 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         if (activeCanvasTool !== 'select' || isSpacePanning) return;
         e.stopPropagation();
         
-        const layer = layers.find(l => l.id === layerId);
-        if (!layer || layer.isLocked) {
+        const clickedLayer = layers.find(l => l.id === layerId);
+        // A click selects the outermost group; holding Cmd/Ctrl reaches the layer inside it.
+        const layer = clickedLayer && !(e.metaKey || e.ctrlKey) ? getTopLevelLayer(layers, clickedLayer) : clickedLayer;
+        if (!layer || isLayerLocked(layers, layer)) {
             if (!e.shiftKey) setSelectedLayerIds([]);
             return;
         }
+        layerId = layer.id;
         
         const pointer = getPointerInCanvas(e);
         if (!pointer) return;
@@ -599,7 +696,16 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             if (e.altKey) {
                 setInteraction({ type: 'duplicate-move', initialLayers: currentSelectedLayers.map(l => ({...l})), initialBoundingBox: bbox, initialPointer: pointer, hasActionStarted: false });
             } else {
-                setInteraction({ type: 'move', initialLayers: currentSelectedLayers.map(l => ({...l})), initialBoundingBox: bbox, initialPointer: pointer });
+                // Dragging an artboard carries along the unlocked layers whose center lies on it.
+                const artboardContentIds = currentSelectedLayers.filter(l => l.type === 'artboard').flatMap(artboard =>
+                    getChildLayers(layers).filter(l => {
+                        if (l.type === 'artboard' || l.isLocked || newSelectedIds.includes(l.id)) return false;
+                        const cx = l.x + l.width / 2, cy = l.y + l.height / 2;
+                        return cx >= artboard.x && cx <= artboard.x + artboard.width && cy >= artboard.y && cy <= artboard.y + artboard.height;
+                    }).map(l => l.id)
+                );
+                const movingLayers = getTransformTargets(layers, [...newSelectedIds, ...artboardContentIds]);
+                setInteraction({ type: 'move', initialLayers: movingLayers.map(l => ({...l})), initialBoundingBox: bbox, initialPointer: pointer });
             }
         }
     };
@@ -609,7 +715,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         const pointer = getPointerInCanvas(e);
         if (pointer && selectionBoundingBox) {
             beginInteraction();
-            setInteraction({ type: 'resize', handle, initialLayers: selectedLayers.map(l => ({...l})), initialPointer: pointer, initialBoundingBox: selectionBoundingBox });
+            setInteraction({ type: 'resize', handle, initialLayers: getTransformTargets(layers, selectedLayerIds).map(l => ({...l})), initialPointer: pointer, initialBoundingBox: selectionBoundingBox });
         }
     };
 
@@ -621,7 +727,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             const centerX = selectedLayer.x + selectedLayer.width / 2;
             const centerY = selectedLayer.y + selectedLayer.height / 2;
             const initialAngle = Math.atan2(pointer.y - centerY, pointer.x - centerX);
-            setInteraction({ type: 'rotate', initialLayers: [{...selectedLayer}], initialPointer: pointer, initialCenter: { x: centerX, y: centerY }, initialAngle });
+            setInteraction({ type: 'rotate', initialLayers: getTransformTargets(layers, [selectedLayer.id]).map(l => ({...l})), initialPointer: pointer, initialCenter: { x: centerX, y: centerY }, initialAngle });
         }
     };
     
@@ -642,7 +748,7 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 initialSelectedIds: selectedLayerIds,
                 hasActionStarted: false,
             });
-        } else if (activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse') {
+        } else if (activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse' || activeCanvasTool === 'artboard') {
             const coords = getPointerInCanvas(e);
             if (!coords) return;
             
@@ -655,9 +761,28 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 isAlt: e.altKey,
             });
             setMarqueeRect({ x: coords.x, y: coords.y, width: 0, height: 0 });
+        } else if (activeCanvasTool === 'measure') {
+            const coords = getPointerInCanvas(e);
+            if (!coords) return;
+            setMeasureLine({ from: coords, to: coords });
+            setIsMeasuring(true);
+        } else if (activeCanvasTool === 'pen') {
+            const coords = getPointerInCanvas(e);
+            if (!coords) return;
+            const first = penNodes[0];
+            if (first && penNodes.length >= 2 && Math.hypot(coords.x - first.anchor.x, coords.y - first.anchor.y) < 8 / scale.get()) {
+                finishPenPath(true);
+                return;
+            }
+            setPenNodes(nodes => [...nodes, { anchor: coords, inHandle: coords, outHandle: coords }]);
+            setIsDraggingPenHandle(true);
         }
     };
 
+    const handleUserGuidesChange = useCallback((userGuides: UserGuide[]) => {
+        onCanvasSettingsChange(s => ({ ...s, userGuides }));
+    }, [onCanvasSettingsChange]);
+
     const handleFitCanvas = useCallback(() => {
         if (canvasViewRef.current) {
             const { clientWidth: viewWidth, clientHeight: viewHeight } = canvasViewRef.current;
@@ -696,7 +821,15 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
     const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDraggingOver(false); };
     const handleDrop = (e: React.DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDraggingOver(false); onFilesDrop(e.dataTransfer.files); };
 
+    // Guides, rulers and the nudge step are changed while working, so changing only those keeps the view where it is.
+    const lastFittedSettingsRef = useRef<CanvasSettings | null>(null);
     useEffect(() => {
+        const previous = lastFittedSettingsRef.current;
+        lastFittedSettingsRef.current = canvasSettings;
+        if (previous) {
+            const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(canvasSettings)])) as (keyof CanvasSettings)[];
+            if (keys.every(key => WORKSPACE_SETTINGS.includes(key) || previous[key] === canvasSettings[key])) return;
+        }
         handleFitCanvas();
     }, [canvasSettings, handleFitCanvas]);
 
@@ -720,6 +853,20 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         return () => resizeObserver.disconnect();
     }, [canvasViewRef, previewCanvasRef]);
 
+    // With the measure tool, hovering a layer shows how far it is from the selection; hovering empty space
+    // measures to the canvas edges.
+    const hoverMeasurement = useMemo(() => {
+        if (activeCanvasTool !== 'measure' || isMeasuring || !selectionBoundingBox || !cursorPosition) return null;
+        const hovered = layers.find(l => {
+            if (l.type === 'group' || l.type === 'adjustment' || !l.isVisible) return false;
+            if (selectedLayerIds.includes(l.id) || selectedLayerIds.includes(getTopLevelLayer(layers, l).id)) return false;
+            const box = getBoundingBoxForLayers([l]);
+            return !!box && cursorPosition.x >= box.x && cursorPosition.x <= box.x + box.width && cursorPosition.y >= box.y && cursorPosition.y <= box.y + box.height;
+        });
+        const target = hovered ? getBoundingBoxForLayers([hovered]) : isInfiniteCanvas ? null : { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height };
+        return target ? { target, measurements: measureBetween(selectionBoundingBox, target) } : null;
+    }, [activeCanvasTool, isMeasuring, selectionBoundingBox, cursorPosition, layers, selectedLayerIds, isInfiniteCanvas, canvasSettings.width, canvasSettings.height]);
+
     const redrawPreview = useCallback(() => {
         const canvas = previewCanvasRef.current;
         const view = canvasViewRef.current;
@@ -762,8 +909,70 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             ctx.restore();
         }
 
+        if (penNodes.length > 0) {
+            ctx.save();
+            ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+            ctx.fillStyle = '#FFFFFF';
+            ctx.lineWidth = 1.5 / s;
+            ctx.stroke(new Path2D(subpathsToSvgData([{ nodes: penNodes, closed: false }])));
+            const last = penNodes[penNodes.length - 1];
+            if (cursorPosition && !isDraggingPenHandle) {
+                ctx.setLineDash([4 / s, 4 / s]);
+                ctx.beginPath();
+                ctx.moveTo(last.anchor.x, last.anchor.y);
+                ctx.bezierCurveTo(last.outHandle.x, last.outHandle.y, cursorPosition.x, cursorPosition.y, cursorPosition.x, cursorPosition.y);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+            ctx.beginPath();
+            ctx.moveTo(last.inHandle.x, last.inHandle.y);
+            ctx.lineTo(last.outHandle.x, last.outHandle.y);
+            ctx.stroke();
+            [last.inHandle, last.outHandle].forEach(p => {
+                ctx.beginPath();
+                ctx.arc(p.x, p.y, 3 / s, 0, 2 * Math.PI);
+                ctx.fill();
+                ctx.stroke();
+            });
+            // The first node is drawn larger: clicking it closes the path.
+            penNodes.forEach((node, i) => {
+                const size = (i === 0 ? 9 : 6) / s;
+                ctx.fillRect(node.anchor.x - size / 2, node.anchor.y - size / 2, size, size);
+                ctx.strokeRect(node.anchor.x - size / 2, node.anchor.y - size / 2, size, size);
+            });
+            ctx.restore();
+        }
+
+        spacingGuides.forEach(guide => {
+            const from = guide.axis === 'x' ? { x: guide.start, y: guide.position } : { x: guide.position, y: guide.start };
+            const to = guide.axis === 'x' ? { x: guide.end, y: guide.position } : { x: guide.position, y: guide.end };
+            drawDimensionLine(ctx, from, to, String(Math.round(guide.distance)), canvasSettings.guides.color, s);
+        });
+
+        if (hoverMeasurement) {
+            const { target, measurements } = hoverMeasurement;
+            ctx.save();
+            ctx.strokeStyle = MEASURE_COLOR;
+            ctx.lineWidth = 1 / s;
+            ctx.setLineDash([4 / s, 4 / s]);
+            ctx.strokeRect(target.x, target.y, target.width, target.height);
+            ctx.restore();
+            measurements.forEach(m => {
+                const from = m.axis === 'x' ? { x: m.start, y: m.position } : { x: m.position, y: m.start };
+                const to = m.axis === 'x' ? { x: m.end, y: m.position } : { x: m.position, y: m.end };
+                drawDimensionLine(ctx, from, to, String(Math.round(m.end - m.start)), MEASURE_COLOR, s);
+            });
+        }
+
+        if (measureLine) {
+            const dx = Math.round(Math.abs(measureLine.to.x - measureLine.from.x));
+            const dy = Math.round(Math.abs(measureLine.to.y - measureLine.from.y));
+            const length = Math.round(Math.hypot(measureLine.to.x - measureLine.from.x, measureLine.to.y - measureLine.from.y));
+            if (length > 0) drawDimensionLine(ctx, measureLine.from, measureLine.to, dx && dy ? `${length} (${dx} × ${dy})` : String(length), MEASURE_COLOR, s);
+        }
+
         ctx.restore();
-    }, [marqueeRect, canvasSettings, interaction, canvasViewRef, panX, panY, scale]);
+    }, [marqueeRect, canvasSettings, interaction, canvasViewRef, panX, panY, scale, penNodes, isDraggingPenHandle, cursorPosition, spacingGuides, hoverMeasurement, measureLine]);
 
     useEffect(() => {
         let animId: number;
@@ -788,6 +997,43 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
         };
     }, [isInfiniteCanvas, canvasSettings]);
     
+    // Groups become wrappers so their opacity and blend mode apply to the children as a whole.
+    const renderLayers = (parentId: string | undefined): React.ReactNode => getChildLayers(layers, parentId).map(layer => {
+        const zIndex = layer.type === 'artboard' ? 0 : layers.length - layers.indexOf(layer);
+        if (layer.type === 'group') {
+            if (!layer.isVisible) return null;
+            return (
+                <div
+                    key={layer.id}
+                    className="absolute left-0 top-0 w-0 h-0"
+                    style={{
+                        zIndex,
+                        opacity: layer.opacity / 100,
+                        mixBlendMode: (layer.blendMode === 'source-over' ? 'normal' : layer.blendMode) as any,
+                        isolation: 'isolate',
+                    }}
+                >
+                    {renderLayers(layer.id)}
+                </div>
+            );
+        }
+        return (
+            <LayerItem
+                key={layer.id}
+                layer={layer}
+                isInteracting={!!interaction}
+                captureLayer={captureLayer}
+                activeCanvasTool={activeCanvasTool}
+                isSpacePanning={isSpacePanning}
+                onLayerPointerDown={handleLayerPointerDown}
+                zIndex={zIndex}
+                scaleMV={scale}
+                clipMaskUrl={layer.clipToBelow ? clipMasks[layer.id] : undefined}
+                adjustmentPreviewUrl={layer.type === 'adjustment' ? adjustmentPreviews[layer.id] : undefined}
+            />
+        );
+    });
+
     const inverseScale = useTransform(scale, s => 1 / s);
     const yOffset = useTransform(scale, s => 10 / s);
     const xOffset = useTransform(scale, s => 10 / s);
@@ -803,8 +1049,9 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
             onPointerLeave={(e) => { handlePointerUp(e); setCursorPosition(null); }}
+            onDoubleClick={() => { if (activeCanvasTool === 'pen' && penNodes.length > 0) finishPenPath(false); }}
             onWheel={handleWheel}
-            style={{ cursor: interaction?.type === 'rotate' ? 'alias' : (activeCanvasTool === 'hand' || isSpacePanning) ? 'grab' : 'default' }}
+            style={{ cursor: interaction?.type === 'rotate' ? 'alias' : (activeCanvasTool === 'hand' || isSpacePanning) ? 'grab' : (activeCanvasTool === 'pen' || activeCanvasTool === 'measure') ? 'crosshair' : 'default' }}
             onDragOver={handleDragOver}
             onDragLeave={handleDragLeave}
             onDrop={handleDrop}
@@ -849,22 +1096,22 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                         style={gridStyle}
                     />
                 )}
-                {layers.map((layer, index) => {
-                    return (
-                        <LayerItem
-                            key={layer.id}
-                            layer={layer}
-                            isInteracting={!!interaction}
-                            captureLayer={captureLayer}
-                            activeCanvasTool={activeCanvasTool}
-                            isSpacePanning={isSpacePanning}
-                            onLayerPointerDown={handleLayerPointerDown}
-                            zIndex={layers.length - 1 - index}
-                        />
-                    );
-                })}
+                {renderLayers(undefined)}
+                <CollaboratorPresence peers={collabPeers} layers={layers} scaleMV={scale} />
                 
-                {(selectionBoundingBox && (selectedLayers.length > 0) && !(selectedLayers.length === 1 && selectedLayers[0].isLocked)) && (
+                {maskEditingLayer && (
+                    <MaskBrushOverlay
+                        layer={maskEditingLayer}
+                        scaleMV={scale}
+                        getPointerInCanvas={getPointerInCanvas}
+                        onCommit={(maskUrl) => {
+                            beginInteraction();
+                            onUpdateLayers([{ id: maskEditingLayer.id, props: { mask: { ...maskEditingLayer.mask, isEnabled: true, url: maskUrl } } }], true);
+                        }}
+                        onDone={() => setEditingMaskForLayerId(null)}
+                    />
+                )}
+                {(!maskEditingLayer && selectionBoundingBox && (selectedLayers.length > 0) && !(selectedLayers.length === 1 && selectedLayers[0].isLocked)) && (
                     <SelectionFrame 
                         boundingBox={selectionBoundingBox} 
                         rotation={(selectedLayer ? selectedLayer.rotation : 0)}
@@ -873,15 +1120,18 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                         onHandlePointerDown={handleHandlePointerDown} 
                         onRotatePointerDown={handleRotatePointerDown}
                         isInteracting={!!interaction}
+                        canRotate={!(selectedLayer?.type === 'artboard')}
                     />
                 )}
                 
-                {selectedLayers.length === 1 && selectedLayer && !selectedLayer.isLocked && <FloatingLayerToolbar layer={selectedLayer} onAction={onToolbarAction} scaleMV={scale} />}
+                {!maskEditingLayer && selectedLayers.length === 1 && selectedLayer && !selectedLayer.isLocked && <FloatingLayerToolbar layer={selectedLayer} onAction={onToolbarAction} scaleMV={scale} />}
                 {selectedLayers.length > 1 && selectionBoundingBox && <FloatingMultiLayerToolbar 
                     boundingBox={selectionBoundingBox}
                     scaleMV={scale}
                     onAction={onMultiLayerAction}
                     selectedLayerCount={selectedLayers.length}
+                    canCombineShapes={selectedLayers.every(l => l.type === 'shape' || l.type === 'path')}
+                    canPlaceTextOnPath={selectedLayers.length === 2 && selectedLayers.some(l => l.type === 'text') && selectedLayers.some(l => l.type === 'path')}
                 />}
                 <AnimatePresence>
                     {isCommandKeyPressed && selectionBoundingBox && selectedLayers.length > 0 && (
@@ -933,6 +1183,16 @@ export const LayerComposerCanvas: React.FC<LayerComposerCanvasProps> = ({
                 style={{ zIndex: 1002 }} 
             />
 
+            <CanvasRulers
+                canvasViewRef={canvasViewRef}
+                canvasSettings={canvasSettings}
+                panX={panX}
+                panY={panY}
+                scaleMV={scale}
+                selectionBoundingBox={selectionBoundingBox}
+                onGuidesChange={handleUserGuidesChange}
+            />
+
             <CanvasToolbar zoomDisplay={zoomDisplay} activeTool={activeCanvasTool} isLayerSelected={!!selectedLayer} onZoomIn={() => handleZoomChange('in')} onZoomOut={() => handleZoomChange('out')} onFit={handleFitCanvas} onToolSelect={setActiveCanvasTool} onUndo={handleUndo} onRedo={handleRedo} canUndo={canUndo} canRedo={canRedo} />
              <AnimatePresence>
                 {isDraggingOver && (
@@ -12,6 +12,10 @@ import { LayerComposerSidebar } from './LayerComposerSidebar';
 import { LayerComposerCanvas } from './LayerComposerCanvas';
 import { AIProcessLogger } from './AIProcessLogger';
 import { AIChatbot } from './AIChatbot';
+import { DocumentExportDialog } from './DocumentExportDialog';
+import { DocumentLibraryDialog } from './DocumentLibraryDialog';
+import { TemplateDialog } from './TemplateDialog';
+import { getTemplateSlots } from './templates';
 import { CloudUploadIcon } from '../icons';
 
 interface LayerComposerModalProps {
@@ -26,6 +30,8 @@ interface StartScreenProps {
     onOpenGallery: () => void;
     onUpload: () => void;
     onOpenWebcam: () => void;
+    onOpenLibrary: () => void;
+    onOpenTemplates: () => void;
     hasGalleryImages: boolean;
 }
 
@@ -34,6 +40,8 @@ const StartScreen: React.FC<StartScreenProps> = ({
     onOpenGallery,
     onUpload,
     onOpenWebcam,
+    onOpenLibrary,
+    onOpenTemplates,
     hasGalleryImages,
 }) => {
     const { t, settings } = useAppControls();
@@ -48,6 +56,8 @@ const StartScreen: React.FC<StartScreenProps> = ({
                 {settings?.enableWebcam && (
                     <button onClick={onOpenWebcam} className="btn btn-secondary btn-sm">{t('imageEditor_webcamButton')}</button>
                 )}
+                <button onClick={onOpenLibrary} className="btn btn-secondary btn-sm">{t('layerComposer_library_openButton')}</button>
+                <button onClick={onOpenTemplates} className="btn btn-secondary btn-sm">{t('layerComposer_templates_openButton')}</button>
             </div>
         </div>
     );
@@ -98,6 +108,8 @@ export const LayerComposerModal: React.FC<LayerComposerModalProps> = ({ isOpen,
                                 onOpenGallery={() => state.setIsGalleryOpen(true)}
                                 onUpload={state.handleUploadClick}
                                 onOpenWebcam={() => state.setIsWebcamOpen(true)}
+                                onOpenLibrary={() => state.setIsDocumentLibraryOpen(true)}
+                                onOpenTemplates={() => state.setIsTemplateDialogOpen(true)}
                                 hasGalleryImages={state.imageGallery.length > 0}
                             />
                             <AnimatePresence>
@@ -145,6 +157,45 @@ export const LayerComposerModal: React.FC<LayerComposerModalProps> = ({ isOpen,
                 onClose={() => state.setIsWebcamOpen(false)}
                 onCapture={state.handleAddImage}
             />
+            <DocumentExportDialog
+                isOpen={isOpen && state.isExportDialogOpen}
+                onClose={() => state.setIsExportDialogOpen(false)}
+                onExport={state.handleExportDocument}
+                layers={state.layers}
+                isInfiniteCanvas={state.isInfiniteCanvas}
+                hasSelection={state.selectedLayerIds.length > 0}
+                isExporting={state.runningJobCount > 0}
+            />
+            <DocumentLibraryDialog
+                isOpen={isOpen && state.isDocumentLibraryOpen}
+                onClose={() => state.setIsDocumentLibraryOpen(false)}
+                documents={state.documents}
+                activeDocumentId={state.canvasInitialized ? state.activeDocument?.id || null : null}
+                versions={state.versions}
+                isBusy={state.runningJobCount > 0}
+                onOpen={state.handleOpenDocument}
+                onCreate={() => { state.setIsDocumentLibraryOpen(false); state.handleConfirmNew(); }}
+                onRename={state.handleRenameDocument}
+                onDuplicate={state.handleDuplicateDocument}
+                onDelete={state.handleDeleteDocument}
+                onSaveVersion={state.handleSaveVersion}
+                onRestoreVersion={state.handleRestoreVersion}
+                onDeleteVersion={state.handleDeleteVersion}
+                onCompareVersion={state.compareVersion}
+            />
+            <TemplateDialog
+                isOpen={isOpen && state.isTemplateDialogOpen}
+                onClose={() => state.setIsTemplateDialogOpen(false)}
+                templates={state.templates}
+                currentSlotCount={state.canvasInitialized ? getTemplateSlots(state.layers).length : 0}
+                galleryImages={state.imageGallery}
+                isBusy={state.runningJobCount > 0}
+                error={state.error}
+                onSave={state.handleSaveTemplate}
+                onDelete={state.handleDeleteTemplate}
+                onApply={state.handleApplyTemplate}
+                onGenerateImage={state.generateSlotImage}
+            />
             <AnimatePresence>
                  {isOpen && state.isConfirmingClose && (
                     <motion.div
@@ -191,7 +242,7 @@ export const LayerComposerModal: React.FC<LayerComposerModalProps> = ({ isOpen,
                             <p className="text-neutral-300 my-2">{state.t('layerComposer_new_message')}</p>
                             <div className="flex justify-end items-center gap-4 mt-4">
                                 <button onClick={() => state.setIsConfirmingNew(false)} className="btn btn-secondary btn-sm">{state.t('common_cancel')}</button>
-                                <button onClick={state.handleConfirmNew} className="btn btn-primary btn-sm !bg-red-500 hover:!bg-red-600">{state.t('layerComposer_new_confirm')}</button>
+                                <button onClick={state.handleConfirmNew} className="btn btn-primary btn-sm">{state.t('layerComposer_new_confirm')}</button>
                             </div>
                         </motion.div>
                     </motion.div>
@@ -5,13 +5,17 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAppControls, Switch, type GenerationHistoryEntry } from '../uiUtils';
-import { type Layer, type CanvasSettings, type CanvasTool, type AIPreset } from './LayerComposer.types';
+import { type Layer, type CanvasSettings, type CanvasTool, type AIPreset, type CollabSession, type CollabStatus, type CollabPeer } from './LayerComposer.types';
 import { LayerList } from './LayerList';
 import { TextLayerControls } from './TextLayerControls';
 import { LayerPropertiesControls } from './LayerPropertiesControls';
+import { AdjustmentLayerControls } from './AdjustmentLayerControls';
+import { VectorStyleControls } from './VectorStyleControls';
 import { cn } from '../../lib/utils';
-import { AccordionArrowIcon, AddTextIcon, AddIcon, InfoIcon, ChatIcon, NewFileIcon } from '../icons';
+import { AccordionArrowIcon, AddTextIcon, AddIcon, InfoIcon, ChatIcon, NewFileIcon, DownloadIcon, AdjustmentsIcon, FolderIcon, LayoutIcon } from '../icons';
 import { PresetControls } from './PresetControls';
+import { CollaborationPanel } from './CollaborationPanel';
+import { DEFAULT_NUDGE_STEP } from './snapping';
 
 interface LayerComposerSidebarProps {
     layers: Layer[];
@@ -62,6 +66,21 @@ interface LayerComposerSidebarProps {
     setAiNumberOfImages: (num: number) => void;
     aiAspectRatio: string;
     setAiAspectRatio: (ratio: string) => void;
+    handleAddArtboard: () => void;
+    handleExportArtboards: (ids?: string[]) => Promise<void>;
+    setEditingMaskForLayerId: (id: string | null) => void;
+    handleAddAdjustmentLayer: () => void;
+    handleImportSvg: (file: File) => Promise<void>;
+    handleUploadFont: (file: File) => Promise<string | null>;
+    setIsExportDialogOpen: (isOpen: boolean) => void;
+    collabSession: CollabSession | null;
+    collabStatus: CollabStatus;
+    collabPeers: CollabPeer[];
+    collabColor: string | null;
+    joinCollabSession: (session: CollabSession) => void;
+    leaveCollabSession: () => void;
+    setIsDocumentLibraryOpen: (isOpen: boolean) => void;
+    setIsTemplateDialogOpen: (isOpen: boolean) => void;
 }
 
 const AccordionHeader: React.FC<{ title: string; isOpen: boolean; onClick: () => void; children?: React.ReactNode; rightContent?: React.ReactNode; }> = ({ title, isOpen, onClick, rightContent }) => {
@@ -90,23 +109,27 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
         onResizeSelectedLayers,
         activeCanvasTool, shapeFillColor, setShapeFillColor, generationHistory,
         onOpenChatbot,
-        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio
+        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio,
+        handleAddArtboard, handleExportArtboards, setEditingMaskForLayerId, handleAddAdjustmentLayer, handleImportSvg, handleUploadFont, setIsExportDialogOpen,
+        collabSession, collabStatus, collabPeers, collabColor, joinCollabSession, leaveCollabSession, setIsDocumentLibraryOpen, setIsTemplateDialogOpen
     } = props;
     const { t, language } = useAppControls();
-    const [openSection, setOpenSection] = useState<'ai' | 'preset' | 'canvas' | 'layers' | null>('ai');
-    const [activeTab, setActiveTab] = useState<'properties' | 'text'>('properties');
+    const [openSection, setOpenSection] = useState<'ai' | 'preset' | 'canvas' | 'layers' | 'artboards' | 'collab' | null>('ai');
+    const [activeTab, setActiveTab] = useState<'properties' | 'text' | 'adjustment' | 'style'>('properties');
+    const svgInputRef = useRef<HTMLInputElement>(null);
     const selectedLayer = selectedLayers[0];
     const isGenerating = runningJobCount > 0;
     const hasImageInput = selectedLayers.length > 0;
     const ASPECT_RATIO_OPTIONS: string[] = t('aspectRatioOptions');
+    const artboards = layers.filter(l => l.type === 'artboard');
 
     useEffect(() => {
         if (selectedLayer) {
-            setActiveTab(selectedLayer.type === 'text' ? 'text' : 'properties');
+            setActiveTab(selectedLayer.type === 'text' ? 'text' : selectedLayer.type === 'adjustment' ? 'adjustment' : selectedLayer.type === 'path' ? 'style' : 'properties');
         }
     }, [selectedLayer?.id, selectedLayer?.type]);
 
-    const toggleSection = (section: 'ai' | 'preset' |'canvas' | 'layers') => { setOpenSection(prev => prev === section ? null : section); };
+    const toggleSection = (section: 'ai' | 'preset' |'canvas' | 'layers' | 'artboards' | 'collab') => { setOpenSection(prev => prev === section ? null : section); };
 
     return (
         <aside className="w-1/3 max-w-sm flex flex-col bg-neutral-900/50 p-6 border-r border-white/10">
@@ -119,7 +142,7 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
             
             <div className="flex-grow overflow-y-auto space-y-2 pr-2 -mr-4">
                 <AnimatePresence>
-                    {(activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse') && (
+                    {(activeCanvasTool === 'rectangle' || activeCanvasTool === 'ellipse' || activeCanvasTool === 'pen') && (
                         <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden border border-neutral-700 rounded-lg">
                             <div className="p-3 bg-neutral-800/50 space-y-2">
                                 <h4 className="font-semibold text-neutral-200">Shape Tool Options</h4>
@@ -337,14 +360,73 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                                 <label htmlFor="snap-grid-toggle" className="text-sm font-medium text-neutral-200">Bắt dính vào Lưới</label>
                                 <Switch id="snap-grid-toggle" checked={canvasSettings.grid.snap} onChange={v => onCanvasSettingsChange(s => ({...s, grid: {...s.grid, snap: v}}))} />
                             </div>
+                            <div className="flex items-center justify-between">
+                                <label htmlFor="show-rulers-toggle" className="text-sm font-medium text-neutral-200">{t('layerComposer_rulers_show')}</label>
+                                <Switch id="show-rulers-toggle" checked={canvasSettings.showRulers !== false} onChange={v => onCanvasSettingsChange(s => ({...s, showRulers: v}))} />
+                            </div>
+                            <div className="flex items-center justify-between gap-3">
+                                <label htmlFor="nudge-step" className="text-sm font-medium text-neutral-200" title={t('layerComposer_nudge_hint')}>{t('layerComposer_nudge_step')}</label>
+                                <input id="nudge-step" type="number" min={0.1} step={0.1} value={canvasSettings.nudgeStep || DEFAULT_NUDGE_STEP} onChange={e => { const value = Number(e.target.value); if (value > 0) onCanvasSettingsChange(s => ({...s, nudgeStep: value})); }} className="form-input !p-1.5 !text-sm !w-20" />
+                            </div>
+                            <div className="flex items-center justify-between gap-3">
+                                <span className="text-sm text-neutral-400">{t('layerComposer_guides_count', (canvasSettings.userGuides || []).length)}</span>
+                                <button onClick={() => onCanvasSettingsChange(s => ({...s, userGuides: []}))} disabled={!canvasSettings.userGuides?.length} className="btn btn-secondary btn-sm !py-1 !px-2 !text-xs">{t('layerComposer_guides_clear')}</button>
+                            </div>
                         </div>
                      </div> </motion.div> )} </AnimatePresence>
                 </div>
                 <div className="border border-neutral-700 rounded-lg overflow-hidden">
-                     <AccordionHeader title={t('layerComposer_layers')} isOpen={openSection === 'layers'} onClick={() => toggleSection('layers')} rightContent={ <> <button onClick={(e) => { e.stopPropagation(); onAddText(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addText')} title={t('layerComposer_addText')} > <AddTextIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); onAddImage(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addImage')} title={t('layerComposer_addImage')} > <AddIcon className="h-4 w-4" strokeWidth={2.5} /> </button> </> } />
+                     <AccordionHeader title={t('layerComposer_layers')} isOpen={openSection === 'layers'} onClick={() => toggleSection('layers')} rightContent={ <> <button onClick={(e) => { e.stopPropagation(); onAddText(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addText')} title={t('layerComposer_addText')} > <AddTextIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); handleAddAdjustmentLayer(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addAdjustment')} title={t('layerComposer_addAdjustment')} > <AdjustmentsIcon className="h-4 w-4" /> </button> <button onClick={(e) => { e.stopPropagation(); svgInputRef.current?.click(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors text-[10px] font-bold leading-4" aria-label={t('layerComposer_svg_import')} title={t('layerComposer_svg_import')} > SVG </button> <button onClick={(e) => { e.stopPropagation(); onAddImage(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_addImage')} title={t('layerComposer_addImage')} > <AddIcon className="h-4 w-4" strokeWidth={2.5} /> </button> </> } />
+                     <input type="file" ref={svgInputRef} onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImportSvg(file); e.target.value = ''; }} accept=".svg,image/svg+xml" className="hidden" />
                      <AnimatePresence> {openSection === 'layers' && ( <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50"> <div className="p-3"> <LayerList layers={layers} selectedLayerId={selectedLayerId} onLayersReorder={onLayersReorder} onLayerUpdate={onLayerUpdate} onLayerDelete={onLayerDelete} onLayerSelect={onLayerSelect} beginInteraction={beginInteraction} /> </div> </motion.div> )} </AnimatePresence>
                 </div>
-                 {selectedLayers.length > 0 && ( <div className="mt-2 border border-neutral-700 rounded-lg"> <div className="flex border-b border-neutral-700 bg-neutral-800 rounded-t-lg"> <button onClick={() => setActiveTab('properties')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'properties' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_properties')} </button> {selectedLayer?.type === 'text' && ( <button onClick={() => setActiveTab('text')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'text' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_text')} </button> )} </div> <div className="bg-neutral-800/50"> <AnimatePresence mode="wait"> <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }} > {activeTab === 'properties' && ( <LayerPropertiesControls selectedLayers={selectedLayers} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} onResize={onResizeSelectedLayers} /> )} {activeTab === 'text' && selectedLayer?.type === 'text' && ( <TextLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} </motion.div> </AnimatePresence> </div> </div> )}
+                <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                    <AccordionHeader title={t('layerComposer_artboards')} isOpen={openSection === 'artboards'} onClick={() => toggleSection('artboards')} rightContent={
+                        <button onClick={(e) => { e.stopPropagation(); handleAddArtboard(); }} className="p-1.5 rounded-md bg-white/10 text-neutral-300 hover:bg-white/20 transition-colors" aria-label={t('layerComposer_artboard_add')} title={t('layerComposer_artboard_add')}>
+                            <AddIcon className="h-4 w-4" strokeWidth={2.5} />
+                        </button>
+                    } />
+                    <AnimatePresence>
+                        {openSection === 'artboards' && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50">
+                                <div className="p-3 space-y-2">
+                                    {artboards.length === 0 ? (
+                                        <p className="text-sm text-neutral-500 text-center py-2">{t('layerComposer_artboard_empty')}</p>
+                                    ) : (
+                                        <>
+                                            {artboards.map(artboard => (
+                                                <div key={artboard.id} className={cn("flex items-center gap-2 p-2 rounded-md bg-neutral-800 border cursor-pointer", selectedLayerIds.includes(artboard.id) ? 'border-yellow-400' : 'border-neutral-700 hover:border-neutral-600')} onClick={() => onLayerSelect(artboard.id)}>
+                                                    <div className="w-4 h-4 rounded-sm border border-white/20 flex-shrink-0" style={{ backgroundColor: artboard.fillColor || '#FFFFFF' }} />
+                                                    <span className="flex-grow min-w-0 text-sm text-neutral-200 truncate">{artboard.name}</span>
+                                                    <span className="text-xs text-neutral-500 font-mono">{Math.round(artboard.width)}×{Math.round(artboard.height)}</span>
+                                                    <button onClick={(e) => { e.stopPropagation(); handleExportArtboards([artboard.id]); }} className="p-1 rounded-md text-neutral-400 hover:text-white hover:bg-white/10" disabled={isGenerating} aria-label={t('layerComposer_artboard_export', artboard.name)} title={t('layerComposer_artboard_export', artboard.name)}>
+                                                        <DownloadIcon className="h-4 w-4" strokeWidth={1.5} />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                            <button onClick={() => handleExportArtboards()} className="btn btn-secondary btn-sm w-full" disabled={isGenerating}>{t('layerComposer_artboard_exportAll')}</button>
+                                        </>
+                                    )}
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </div>
+                <div className="border border-neutral-700 rounded-lg overflow-hidden">
+                    <AccordionHeader title={t('layerComposer_collab_title')} isOpen={openSection === 'collab'} onClick={() => toggleSection('collab')} rightContent={
+                        collabSession && <span className="text-xs text-neutral-400">{t('layerComposer_collab_peerCount', collabPeers.length + 1)}</span>
+                    } />
+                    <AnimatePresence>
+                        {openSection === 'collab' && (
+                            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="overflow-hidden bg-neutral-800/50">
+                                <div className="p-3">
+                                    <CollaborationPanel session={collabSession} status={collabStatus} peers={collabPeers} color={collabColor} onJoin={joinCollabSession} onLeave={leaveCollabSession} />
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </div>
+                 {selectedLayers.length > 0 && ( <div className="mt-2 border border-neutral-700 rounded-lg"> <div className="flex border-b border-neutral-700 bg-neutral-800 rounded-t-lg"> <button onClick={() => setActiveTab('properties')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'properties' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_properties')} </button> {selectedLayer?.type === 'text' && ( <button onClick={() => setActiveTab('text')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'text' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_text')} </button> )} {selectedLayer?.type === 'adjustment' && ( <button onClick={() => setActiveTab('adjustment')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'adjustment' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_adjustment')} </button> )} {(selectedLayer?.type === 'path' || selectedLayer?.type === 'shape') && selectedLayers.length === 1 && ( <button onClick={() => setActiveTab('style')} className={cn('flex-1 py-2 text-sm font-bold transition-colors', activeTab === 'style' ? 'text-yellow-400 border-b-2 border-yellow-400 bg-neutral-700/50' : 'text-neutral-400 hover:text-white')} > {t('layerComposer_tab_style')} </button> )} </div> <div className="bg-neutral-800/50"> <AnimatePresence mode="wait"> <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }} > {activeTab === 'properties' && ( <LayerPropertiesControls selectedLayers={selectedLayers} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} onResize={onResizeSelectedLayers} onEditMask={setEditingMaskForLayerId} /> )} {activeTab === 'text' && selectedLayer?.type === 'text' && ( <TextLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} customFonts={canvasSettings.customFonts} onUploadFont={handleUploadFont} /> )} {activeTab === 'adjustment' && selectedLayer?.type === 'adjustment' && ( <AdjustmentLayerControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} {activeTab === 'style' && (selectedLayer?.type === 'path' || selectedLayer?.type === 'shape') && ( <VectorStyleControls layer={selectedLayer} onUpdate={onLayerUpdate} beginInteraction={beginInteraction} /> )} </motion.div> </AnimatePresence> </div> </div> )}
             </div>
             
             <div className="flex-shrink-0 pt-6 border-t border-white/10">
@@ -353,6 +435,15 @@ export const LayerComposerSidebar: React.FC<LayerComposerSidebarProps> = (props)
                     <button onClick={onNew} className="btn btn-secondary btn-sm p-2.5" title="New Canvas">
                         <NewFileIcon className="h-5 w-5" />
                     </button>
+                    <button onClick={() => setIsDocumentLibraryOpen(true)} className="btn btn-secondary btn-sm p-2.5" title={t('layerComposer_library_tooltip')}>
+                        <FolderIcon className="h-5 w-5" />
+                    </button>
+                    <button onClick={() => setIsTemplateDialogOpen(true)} className="btn btn-secondary btn-sm p-2.5" title={t('layerComposer_templates_tooltip')}>
+                        <LayoutIcon className="h-5 w-5" />
+                    </button>
+                    <button onClick={() => setIsExportDialogOpen(true)} className="btn btn-secondary btn-sm p-2.5" title={t('layerComposer_exportDocument_tooltip')} disabled={layers.length === 0 || isGenerating}>
+                        <DownloadIcon className="h-5 w-5" />
+                    </button>
                     <button onClick={onClose} className="btn btn-secondary btn-sm flex-grow"> {t('common_cancel')} </button>
                     <button onClick={onSave} className="btn btn-primary btn-sm flex-grow" disabled={(layers.length === 0 && !isInfiniteCanvas) || isGenerating} title={isInfiniteCanvas ? t('layerComposer_exportJsonTooltip') : t('layerComposer_saveTooltip')} > {isGenerating ? t('layerComposer_saving') : (isInfiniteCanvas ? t('layerComposer_exportJson') : t('layerComposer_save'))} </button>
                 </div>
@@ -3,9 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { motion } from 'framer-motion';
+import { motion, useMotionValue, useTransform, type MotionValue } from 'framer-motion';
 import { cn } from '../../lib/utils';
-import { type Layer, type CanvasTool } from './LayerComposer.types';
+import { type Layer, type CanvasTool, type BlendMode } from './LayerComposer.types';
+import { getLayerSubpaths, subpathsToSvgData, getDashArray, getArrowHeads, ringToSvgData, getGradientGeometry, toCssGradient, scaleVectorPath } from './vectorPaths';
+import { getTextSegments, getTextEffectStyle, type ResolvedTextStyle } from './richText';
 
 interface LayerItemProps {
     layer: Layer;
@@ -15,16 +17,51 @@ interface LayerItemProps {
     isSpacePanning: boolean;
     isInteracting: boolean;
     captureLayer: (layer: Layer) => Promise<string>;
+    // Keeps an artboard's name label the same size on screen at any zoom level.
+    scaleMV?: MotionValue<number>;
+    // For clipped layers: the base layer's alpha in this layer's box, already combined with its painted mask.
+    clipMaskUrl?: string | null;
+    // For adjustment layers: the layers beneath, adjusted, rendered in this layer's box.
+    adjustmentPreviewUrl?: string | null;
 }
 
+// Canvas compositing calls normal blending 'source-over'; every other mode has the same name in CSS.
+const toMixBlendMode = (blendMode: BlendMode): React.CSSProperties['mixBlendMode'] => blendMode === 'source-over' ? 'normal' : blendMode;
+
+// The on-screen counterpart of the masking in layerRendering.ts: painted masks and clipping become
+// a CSS mask image, shape masks a clip path.
+const getMaskStyle = (layer: Layer, clipMaskUrl?: string | null): React.CSSProperties => {
+    const mask = layer.mask?.isEnabled ? layer.mask : undefined;
+    const style: React.CSSProperties = {};
+    const maskUrl = clipMaskUrl || mask?.url;
+    if (maskUrl) {
+        style.maskImage = style.WebkitMaskImage = `url(${maskUrl})`;
+        style.maskSize = style.WebkitMaskSize = '100% 100%';
+        style.maskRepeat = style.WebkitMaskRepeat = 'no-repeat';
+    }
+    const shape = mask?.shape;
+    if (shape) {
+        const pct = (value: number) => `${value * 100}%`;
+        if (shape.type === 'ellipse') {
+            style.clipPath = `ellipse(${pct(shape.width / 2)} ${pct(shape.height / 2)} at ${pct(shape.x + shape.width / 2)} ${pct(shape.y + shape.height / 2)})`;
+        } else {
+            const radius = (shape.borderRadius || 0) * Math.min(shape.width * layer.width, shape.height * layer.height);
+            style.clipPath = `inset(${pct(shape.y)} ${pct(1 - shape.x - shape.width)} ${pct(1 - shape.y - shape.height)} ${pct(shape.x)} round ${radius}px)`;
+        }
+    }
+    return style;
+};
+
 export const LayerItem: React.FC<LayerItemProps> = React.memo(({
     layer, zIndex,
     activeCanvasTool, isSpacePanning,
     onLayerPointerDown,
-    isInteracting,
+    isInteracting, scaleMV, clipMaskUrl, adjustmentPreviewUrl,
 }) => {
     
     const isHandToolActive = activeCanvasTool === 'hand' || isSpacePanning;
+    const fallbackScale = useMotionValue(1);
+    const labelScale = useTransform(scaleMV ?? fallbackScale, (s: number) => 1 / s);
 
     if (!layer.isVisible) {
         return null;
@@ -35,6 +72,8 @@ export const LayerItem: React.FC<LayerItemProps> = React.memo(({
             onPointerDown={(e) => onLayerPointerDown(e, layer.id)}
             className={cn(
                 "absolute",
+                // Artboards and adjustment layers cover other layers, so they are picked from the layer list instead.
+                (layer.type === 'artboard' || layer.type === 'adjustment') && 'pointer-events-none',
                 layer.isLocked ? 'cursor-default' : (isHandToolActive ? 'cursor-grab' : 'cursor-move')
             )}
             style={{
@@ -43,9 +82,10 @@ export const LayerItem: React.FC<LayerItemProps> = React.memo(({
                 width: layer.width,
                 height: layer.height,
                 rotate: layer.rotation,
-                mixBlendMode: (layer.blendMode === 'source-over' ? 'normal' : layer.blendMode) as any,
+                mixBlendMode: toMixBlendMode(layer.blendMode),
                 opacity: layer.opacity / 100,
                 zIndex: zIndex,
+                ...getMaskStyle(layer, clipMaskUrl),
             }}
             transition={isInteracting ? { duration: 0 } : { type: 'spring', stiffness: 500, damping: 50 }}
         >
@@ -57,32 +97,146 @@ export const LayerItem: React.FC<LayerItemProps> = React.memo(({
                     loading="lazy"
                 />
             ) : layer.type === 'text' ? (
-                <div 
-                    className="w-full h-full pointer-events-none p-1 box-border"
-                    style={{
-                        fontFamily: layer.fontFamily,
-                        fontSize: `${layer.fontSize}px`,
-                        fontWeight: layer.fontWeight,
-                        fontStyle: layer.fontStyle,
-                        color: layer.color,
-                        textAlign: layer.textAlign,
-                        lineHeight: layer.lineHeight,
-                        textTransform: layer.textTransform,
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                    }}
-                >
-                    {layer.text}
-                </div>
+                <TextGraphic layer={layer} />
             ) : layer.type === 'shape' ? (
                 <div
                     className="w-full h-full pointer-events-none"
                     style={{
-                        backgroundColor: layer.fillColor || '#FFFFFF',
+                        background: layer.fillGradient ? toCssGradient(layer.fillGradient) : (layer.fillColor || '#FFFFFF'),
                         borderRadius: layer.shapeType === 'ellipse' ? '50%' : `${layer.borderRadius || 0}px`,
                     }}
                 />
+            ) : layer.type === 'path' ? (
+                <PathGraphic layer={layer} />
+            ) : layer.type === 'adjustment' ? (
+                adjustmentPreviewUrl ? <img src={adjustmentPreviewUrl} className="w-full h-full pointer-events-none" alt="" /> : <div className="w-full h-full" />
+            ) : layer.type === 'artboard' ? (
+                <>
+                    {/* Only the name label picks up the artboard; clicks on its body reach the layers and canvas below. */}
+                    <div className="w-full h-full pointer-events-none shadow-md" style={{ backgroundColor: layer.fillColor || '#FFFFFF' }} />
+                    <motion.div
+                        className="absolute left-0 bottom-full pb-1 text-sm text-neutral-300 whitespace-nowrap pointer-events-auto select-none"
+                        style={{ scale: labelScale, transformOrigin: 'left bottom' }}
+                    >
+                        {layer.name}
+                    </motion.div>
+                </>
             ) : null}
         </motion.div>
     );
-});
\ No newline at end of file
+});
+
+const segmentStyle = (style: ResolvedTextStyle, hasGradient: boolean): React.CSSProperties => ({
+    fontFamily: `"${style.fontFamily}"`,
+    fontSize: `${style.fontSize}px`,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+    letterSpacing: `${style.letterSpacing}px`,
+    // With a gradient the parent paints the glyphs through a transparent colour.
+    color: hasGradient ? undefined : style.color,
+});
+
+/**
+ * Draws a text layer as styled spans in its box, or as SVG <textPath> when the text follows a path.
+ * Mirrors drawTextLayer in richText.ts, which draws the same text onto canvas.
+ */
+const TextGraphic: React.FC<{ layer: Layer }> = ({ layer }) => {
+    const segments = getTextSegments(layer);
+    const hasGradient = !!layer.fillGradient;
+
+    if (layer.textPath) {
+        const subpath = scaleVectorPath(layer.textPath.path, layer.width, layer.height)[0];
+        const pathId = `text-path-${layer.id}`;
+        const gradientId = `text-gradient-${layer.id}`;
+        const gradient = layer.fillGradient ? getGradientGeometry(layer.fillGradient, layer.width, layer.height) : null;
+        const stops = layer.fillGradient?.stops.map((stop, i) => <stop key={i} offset={stop.offset} stopColor={stop.color} />);
+        const stroke = layer.textStroke && layer.textStroke.width > 0 ? layer.textStroke : undefined;
+        return (
+            <svg
+                className="w-full h-full pointer-events-none overflow-visible"
+                width={layer.width}
+                height={layer.height}
+                style={{ filter: getTextEffectStyle(layer).filter }}
+            >
+                <defs>
+                    {subpath && <path id={pathId} d={subpathsToSvgData([subpath])} />}
+                    {gradient && (gradient.type === 'radial'
+                        ? <radialGradient id={gradientId} gradientUnits="userSpaceOnUse" cx={gradient.cx} cy={gradient.cy} r={gradient.r}>{stops}</radialGradient>
+                        : <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" x1={gradient.x1} y1={gradient.y1} x2={gradient.x2} y2={gradient.y2}>{stops}</linearGradient>)}
+                </defs>
+                {subpath && (
+                    <text
+                        textAnchor={layer.textAlign === 'center' ? 'middle' : layer.textAlign === 'right' ? 'end' : 'start'}
+                        stroke={stroke?.color}
+                        strokeWidth={stroke ? stroke.width * 2 : undefined}
+                        strokeLinejoin="round"
+                        paintOrder="stroke"
+                        style={{ whiteSpace: 'pre' }}
+                    >
+                        <textPath href={`#${pathId}`} startOffset={`${layer.textPath.startOffset}%`}>
+                            {segments.map((segment, i) => (
+                                <tspan key={i} fill={gradient ? `url(#${gradientId})` : segment.style.color} style={segmentStyle(segment.style, false)}>
+                                    {segment.text.replace(/\n/g, ' ')}
+                                </tspan>
+                            ))}
+                        </textPath>
+                    </text>
+                )}
+            </svg>
+        );
+    }
+
+    return (
+        <div
+            className="w-full h-full pointer-events-none p-1 box-border"
+            style={{
+                fontFamily: layer.fontFamily,
+                fontSize: `${layer.fontSize}px`,
+                fontWeight: layer.fontWeight,
+                fontStyle: layer.fontStyle,
+                color: layer.color,
+                textAlign: layer.textAlign,
+                lineHeight: layer.lineHeight,
+                whiteSpace: 'pre-wrap',
+                wordBreak: 'break-word',
+                ...getTextEffectStyle(layer),
+            }}
+        >
+            {segments.map((segment, i) => <span key={i} style={segmentStyle(segment.style, hasGradient)}>{segment.text}</span>)}
+        </div>
+    );
+};
+
+/**
+ * Draws a path layer as inline SVG in its box's units. Strokes and arrowheads may reach past the box.
+ */
+const PathGraphic: React.FC<{ layer: Layer }> = ({ layer }) => {
+    const subpaths = getLayerSubpaths(layer);
+    const stroke = layer.stroke;
+    const gradientId = `path-gradient-${layer.id}`;
+    const gradient = layer.fillGradient ? getGradientGeometry(layer.fillGradient, layer.width, layer.height) : null;
+    const stops = layer.fillGradient?.stops.map((stop, i) => <stop key={i} offset={stop.offset} stopColor={stop.color} />);
+    const fill = !layer.fillColor || layer.fillColor === 'none' ? 'none' : (gradient ? `url(#${gradientId})` : layer.fillColor);
+    return (
+        <svg className="w-full h-full pointer-events-none overflow-visible" width={layer.width} height={layer.height}>
+            {gradient && (
+                <defs>
+                    {gradient.type === 'radial'
+                        ? <radialGradient id={gradientId} gradientUnits="userSpaceOnUse" cx={gradient.cx} cy={gradient.cy} r={gradient.r}>{stops}</radialGradient>
+                        : <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" x1={gradient.x1} y1={gradient.y1} x2={gradient.x2} y2={gradient.y2}>{stops}</linearGradient>}
+                </defs>
+            )}
+            <path
+                d={subpathsToSvgData(subpaths)}
+                fill={fill}
+                fillRule={layer.path?.fillRule || 'nonzero'}
+                stroke={stroke && stroke.width > 0 ? stroke.color : 'none'}
+                strokeWidth={stroke?.width}
+                strokeLinecap={stroke?.lineCap}
+                strokeLinejoin="round"
+                strokeDasharray={stroke && getDashArray(stroke).length ? getDashArray(stroke).join(' ') : undefined}
+            />
+            {stroke && stroke.width > 0 && getArrowHeads(subpaths, stroke).map((head, i) => <path key={i} d={ringToSvgData(head)} fill={stroke.color} />)}
+        </svg>
+    );
+};
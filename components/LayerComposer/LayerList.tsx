@@ -2,11 +2,12 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
 import { Reorder } from 'framer-motion';
 import { useAppControls } from '../uiUtils';
 import { type Layer } from './LayerComposer.types';
 import { LayerListItem } from './LayerListItem';
+import { getChildLayers, reorderChildLayers } from './layerTree';
 
 interface LayerListProps {
     layers: Layer[];
@@ -22,24 +23,42 @@ export const LayerList: React.FC<LayerListProps> = ({
     layers, selectedLayerId, onLayersReorder, onLayerUpdate, onLayerDelete, onLayerSelect, beginInteraction
 }) => {
     const { t } = useAppControls();
+    const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
 
-    if (layers.length === 0) {
+    // Artboards have their own section in the sidebar.
+    const listedLayers = layers.filter(l => l.type !== 'artboard');
+
+    if (listedLayers.length === 0) {
         return ( <p className="text-sm text-neutral-500 text-center py-4"> {t('layerComposer_empty')} </p> );
     }
-    
-    return (
-        <Reorder.Group axis="y" values={layers} onReorder={onLayersReorder} className="space-y-2">
-            {layers.map(layer => (
-                <LayerListItem
-                    key={layer.id}
-                    layer={layer}
-                    onUpdate={onLayerUpdate}
-                    onLayerDelete={onLayerDelete}
-                    onSelect={onLayerSelect}
-                    isSelected={selectedLayerId === layer.id}
-                    beginInteraction={beginInteraction}
-                />
-            ))}
-        </Reorder.Group>
-    );
+
+    const toggleGroup = (id: string) => {
+        setCollapsedGroupIds(prev => prev.includes(id) ? prev.filter(groupId => groupId !== id) : [...prev, id]);
+    };
+
+    // Each group gets its own Reorder.Group, so layers are reordered within their group.
+    const renderLevel = (parentId: string | undefined): React.ReactNode => {
+        const children = getChildLayers(listedLayers, parentId);
+        return (
+            <Reorder.Group axis="y" values={children} onReorder={(reordered) => onLayersReorder(reorderChildLayers(layers, parentId, reordered))} className="space-y-2">
+                {children.map(layer => (
+                    <LayerListItem
+                        key={layer.id}
+                        layer={layer}
+                        onUpdate={onLayerUpdate}
+                        onLayerDelete={onLayerDelete}
+                        onSelect={onLayerSelect}
+                        isSelected={selectedLayerId === layer.id}
+                        beginInteraction={beginInteraction}
+                        isExpanded={layer.type === 'group' ? !collapsedGroupIds.includes(layer.id) : undefined}
+                        onToggleExpanded={() => toggleGroup(layer.id)}
+                    >
+                        {layer.type === 'group' && !collapsedGroupIds.includes(layer.id) && renderLevel(layer.id)}
+                    </LayerListItem>
+                ))}
+            </Reorder.Group>
+        );
+    };
+
+    return <>{renderLevel(undefined)}</>;
 };
\ No newline at end of file
@@ -2,11 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useState } from 'react';
 import { Reorder, useDragControls } from 'framer-motion';
 import { cn } from '../../lib/utils';
 import { type Layer } from './LayerComposer.types';
-import { DragHandleIcon, LockIcon, UnlockIcon, VisibleIcon, HiddenIcon } from '../icons';
+import { subpathsToSvgData, toCssGradient } from './vectorPaths';
+import { getLayerDisplayName } from './layerTree';
+import { DragHandleIcon, LockIcon, UnlockIcon, VisibleIcon, HiddenIcon, AccordionArrowIcon, GroupIcon, ArtboardIcon, AdjustmentsIcon } from '../icons';
 
 interface LayerListItemProps {
     layer: Layer;
@@ -15,21 +17,26 @@ interface LayerListItemProps {
     onSelect: (id: string) => void;
     isSelected: boolean;
     beginInteraction: () => void;
+    // Only set for groups.
+    isExpanded?: boolean;
+    onToggleExpanded?: () => void;
+    children?: React.ReactNode;
 }
 
 export const LayerListItem: React.FC<LayerListItemProps> = ({
-    layer, onUpdate, onLayerDelete, onSelect, isSelected, beginInteraction
+    layer, onUpdate, onLayerDelete, onSelect, isSelected, beginInteraction, isExpanded, onToggleExpanded, children
 }) => {
     const dragControls = useDragControls();
+    const [draftName, setDraftName] = useState<string | null>(null);
+    const canRename = layer.type === 'group' || layer.type === 'artboard' || layer.type === 'adjustment' || layer.type === 'path';
 
-    const getLayerName = () => {
-        switch(layer.type) {
-            case 'image': return 'Image Layer';
-            case 'text': return layer.text || 'Text Layer';
-            case 'shape': return `${layer.shapeType === 'rectangle' ? 'Rectangle' : 'Ellipse'} Shape`;
-            default: return 'Layer';
+    const commitRename = () => {
+        if (draftName !== null && draftName.trim() && draftName !== layer.name) {
+            beginInteraction();
+            onUpdate(layer.id, { name: draftName.trim() }, true);
         }
-    }
+        setDraftName(null);
+    };
 
     return (
         <Reorder.Item
@@ -43,6 +50,11 @@ export const LayerListItem: React.FC<LayerListItemProps> = ({
         >
             <div className="p-2 cursor-pointer" onClick={() => onSelect(layer.id)} >
                 <div className="flex items-center gap-3">
+                    {isExpanded !== undefined && (
+                        <button onClick={(e) => { e.stopPropagation(); onToggleExpanded?.(); }} className="text-neutral-400 hover:text-white -mr-2" aria-expanded={isExpanded}>
+                            <AccordionArrowIcon className={cn("h-4 w-4 transition-transform", !isExpanded && '-rotate-90')} />
+                        </button>
+                    )}
                     <div className={cn("text-neutral-500", !layer.isLocked && "cursor-grab hover:text-white")} onPointerDown={(e) => { if (!layer.isLocked) { e.stopPropagation(); dragControls.start(e); } }} >
                         <DragHandleIcon className="h-5 w-5" />
                     </div>
@@ -53,13 +65,42 @@ export const LayerListItem: React.FC<LayerListItemProps> = ({
                             <div 
                                 className="w-full h-full rounded-md"
                                 style={{
-                                    backgroundColor: layer.fillColor || '#FFFFFF',
+                                    background: layer.fillGradient ? toCssGradient(layer.fillGradient) : (layer.fillColor || '#FFFFFF'),
                                     borderRadius: layer.shapeType === 'ellipse' ? '50%' : '3px'
                                 }}
                             />
+                        ) : layer.type === 'path' && layer.path ? (
+                            <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md p-1">
+                                <svg className="w-full h-full" viewBox={`0 0 ${layer.path.width} ${layer.path.height}`} preserveAspectRatio="xMidYMid meet" overflow="visible">
+                                    <path
+                                        d={subpathsToSvgData(layer.path.subpaths)}
+                                        fill={layer.fillColor && layer.fillColor !== 'none' ? (layer.fillGradient?.stops[0]?.color || layer.fillColor) : 'none'}
+                                        fillRule={layer.path.fillRule || 'nonzero'}
+                                        stroke={layer.stroke?.color || 'none'}
+                                        strokeWidth={1.5}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                </svg>
+                            </div>
+                        ) : layer.type === 'group' ? ( <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md text-neutral-300"> <GroupIcon className="h-6 w-6" strokeWidth="1.5" /> </div>
+                        ) : layer.type === 'adjustment' ? ( <div className="w-full h-full flex items-center justify-center bg-neutral-700 rounded-md text-neutral-300"> <AdjustmentsIcon className="h-6 w-6" strokeWidth="1.5" /> </div>
+                        ) : layer.type === 'artboard' ? ( <div className="w-full h-full flex items-center justify-center rounded-md text-neutral-500" style={{ backgroundColor: layer.fillColor || '#FFFFFF' }}> <ArtboardIcon className="h-6 w-6" strokeWidth="1.5" /> </div>
                         ) : null}
                     </div>
-                    <div className="flex-grow min-w-0"> <p className="text-sm font-bold text-white truncate">{getLayerName()}</p> <p className="text-xs text-neutral-400 capitalize"> {(layer.blendMode === 'source-over' ? 'Normal' : layer.blendMode)} </p> </div>
+                    <div className="flex-grow min-w-0">
+                        {draftName !== null ? (
+                            <input
+                                autoFocus
+                                value={draftName}
+                                onChange={(e) => setDraftName(e.target.value)}
+                                onBlur={commitRename}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setDraftName(null); }}
+                                onClick={(e) => e.stopPropagation()}
+                                className="form-input !p-1 !text-sm w-full"
+                            />
+                        ) : (
+                            <p className="text-sm font-bold text-white truncate" onDoubleClick={canRename ? (e) => { e.stopPropagation(); setDraftName(layer.name || ''); } : undefined}>{getLayerDisplayName(layer)}</p>
+                        )} <p className="text-xs text-neutral-400 capitalize"> {(layer.blendMode === 'source-over' ? 'Normal' : layer.blendMode)} </p> </div>
                     <div className="flex items-center gap-2">
                         <button onClick={(e) => { e.stopPropagation(); beginInteraction(); onUpdate(layer.id, { isLocked: !layer.isLocked }, true)}} className={cn("hover:text-white p-1 rounded-full", layer.isLocked ? 'text-yellow-400' : 'text-neutral-500')} title={layer.isLocked ? 'Mở khoá Layer' : 'Khoá Layer'}>
                            {layer.isLocked ? ( <LockIcon className="h-5 w-5" /> ) : ( <UnlockIcon className="h-5 w-5" /> )}
@@ -70,6 +111,7 @@ export const LayerListItem: React.FC<LayerListItemProps> = ({
                     </div>
                 </div>
             </div>
+            {children && <div className="pl-4 pr-2 pb-2">{children}</div>}
         </Reorder.Item>
     );
 };
\ No newline at end of file
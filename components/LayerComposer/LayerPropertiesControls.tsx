@@ -3,8 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
-import { useAppControls } from '../uiUtils';
-import { type Layer, type BlendMode } from './LayerComposer.types';
+import { useAppControls, Switch } from '../uiUtils';
+import { type Layer, type BlendMode, type LayerMask, type MaskShape, type SlotFit } from './LayerComposer.types';
 
 const BLEND_MODES: BlendMode[] = ['source-over', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'];
 
@@ -13,14 +13,20 @@ interface LayerPropertiesControlsProps {
     onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
     beginInteraction: () => void;
     onResize: (dimension: 'width' | 'height', newValue: number) => void;
+    onEditMask: (layerId: string) => void;
 }
 
-export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = ({ selectedLayers, onUpdate, beginInteraction, onResize }) => {
+const SLOT_FITS: SlotFit[] = ['fill', 'fit', 'stretch'];
+
+const DEFAULT_MASK_SHAPE: Omit<MaskShape, 'type'> = { x: 0.1, y: 0.1, width: 0.8, height: 0.8, borderRadius: 0 };
+
+export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = ({ selectedLayers, onUpdate, beginInteraction, onResize, onEditMask }) => {
     const { t } = useAppControls();
     const layer = selectedLayers[0]; // The first selected layer is used for single-value properties like ID
 
     const [widthInput, setWidthInput] = useState('');
     const [heightInput, setHeightInput] = useState('');
+    const [slotNameInput, setSlotNameInput] = useState('');
 
     useEffect(() => {
         if (selectedLayers.length === 1) {
@@ -90,9 +96,49 @@ export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = (
         });
     };
     
+    useEffect(() => {
+        setSlotNameInput(layer?.slot?.name || '');
+    }, [layer?.id, layer?.slot?.name]);
+
+    const canBeSlot = selectedLayers.length === 1 && (layer.type === 'image' || layer.type === 'text');
+    const updateSlot = (slot: Layer['slot']) => { beginInteraction(); onUpdate(layer.id, { slot }, true); };
+    const commitSlotName = () => {
+        const name = slotNameInput.trim();
+        if (layer.slot && name && name !== layer.slot.name) updateSlot({ ...layer.slot, name });
+        else setSlotNameInput(layer.slot?.name || '');
+    };
+
     const hasMultipleOpacities = new Set(selectedLayers.map(l => l.opacity)).size > 1;
     const hasMultipleBlendModes = new Set(selectedLayers.map(l => l.blendMode)).size > 1;
-    const isSingleShape = selectedLayers.length === 1 && selectedLayers[0].type === 'shape';
+    const hasFillColor = selectedLayers.length === 1 && (selectedLayers[0].type === 'shape' || selectedLayers[0].type === 'artboard');
+    const canMask = selectedLayers.length === 1 && (layer.type === 'image' || layer.type === 'text' || layer.type === 'shape' || layer.type === 'path' || layer.type === 'adjustment');
+    const mask: LayerMask = layer.mask || { isEnabled: true };
+
+    const updateMask = (newMask: Partial<LayerMask>, isFinal: boolean) => {
+        const merged = { ...mask, ...newMask };
+        onUpdate(layer.id, { mask: merged.url || merged.shape ? merged : undefined }, isFinal);
+    };
+
+    const updateMaskShape = (newShape: Partial<MaskShape>, isFinal: boolean) => {
+        if (mask.shape) updateMask({ shape: { ...mask.shape, ...newShape } }, isFinal);
+    };
+
+    const maskShapeSlider = (key: 'x' | 'y' | 'width' | 'height' | 'borderRadius', labelKey: string, max: number) => (
+        <div key={key}>
+            <label htmlFor={`mask-${key}-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t(labelKey)}</label>
+            <input
+                id={`mask-${key}-${layer.id}`}
+                type="range"
+                min="0"
+                max={max}
+                value={Math.round((mask.shape?.[key] || 0) * 100)}
+                onMouseDown={beginInteraction}
+                onInput={(e) => updateMaskShape({ [key]: Number((e.target as HTMLInputElement).value) / 100 }, false)}
+                onChange={(e) => updateMaskShape({ [key]: Number((e.target as HTMLInputElement).value) / 100 }, true)}
+                className="slider-track"
+            />
+        </div>
+    );
     
     return (
         <div className="p-3 space-y-4">
@@ -157,7 +203,7 @@ export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = (
                 </select>
             </div>
 
-            {isSingleShape && (
+            {hasFillColor && (
                 <div className="pt-4 border-t border-neutral-700/50 space-y-4">
                     <div className="flex items-center justify-between">
                         <label htmlFor={`fill-color-${layer.id}`} className="text-sm font-medium text-neutral-300">Fill Color</label>
@@ -191,6 +237,99 @@ export const LayerPropertiesControls: React.FC<LayerPropertiesControlsProps> = (
                     )}
                 </div>
             )}
+
+            {canBeSlot && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <label htmlFor={`slot-enabled-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_slot_title')}</label>
+                        <Switch
+                            id={`slot-enabled-${layer.id}`}
+                            checked={!!layer.slot}
+                            onChange={(checked) => updateSlot(checked ? { name: t(layer.type === 'text' ? 'layerComposer_slot_defaultTextName' : 'layerComposer_slot_defaultImageName'), fit: 'fill' } : undefined)}
+                        />
+                    </div>
+                    {layer.slot && (
+                        <>
+                            <div>
+                                <label htmlFor={`slot-name-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_slot_name')}</label>
+                                <input
+                                    id={`slot-name-${layer.id}`}
+                                    value={slotNameInput}
+                                    onChange={(e) => setSlotNameInput(e.target.value)}
+                                    onBlur={commitSlotName}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                                    className="form-input !p-2 !text-sm w-full"
+                                />
+                            </div>
+                            {layer.type === 'image' && (
+                                <div>
+                                    <label htmlFor={`slot-fit-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_slot_fit')}</label>
+                                    <select
+                                        id={`slot-fit-${layer.id}`}
+                                        value={layer.slot.fit}
+                                        onMouseDown={(e) => e.stopPropagation()}
+                                        onChange={(e) => updateSlot({ ...layer.slot!, fit: e.target.value as SlotFit })}
+                                        className="form-input !p-2 !text-sm w-full"
+                                    >
+                                        {SLOT_FITS.map(fit => <option key={fit} value={fit}>{t(`layerComposer_slot_fit_${fit}`)}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            <p className="text-xs text-neutral-500">{t('layerComposer_slot_hint')}</p>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {canMask && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-bold text-neutral-200">{t('layerComposer_mask_title')}</span>
+                        {layer.mask && (
+                            <div className="flex items-center gap-2">
+                                <label htmlFor={`mask-enabled-${layer.id}`} className="text-sm text-neutral-300">{t('layerComposer_mask_enabled')}</label>
+                                <Switch id={`mask-enabled-${layer.id}`} checked={mask.isEnabled} onChange={(checked) => { beginInteraction(); updateMask({ isEnabled: checked }, true); }} />
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => onEditMask(layer.id)} className="btn btn-secondary btn-sm flex-1">{t('layerComposer_mask_paint')}</button>
+                        {mask.url && (
+                            <button onClick={() => { beginInteraction(); updateMask({ url: undefined }, true); }} className="btn btn-secondary btn-sm flex-1">{t('layerComposer_mask_removePainted')}</button>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor={`mask-shape-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_mask_shape')}</label>
+                        <select
+                            id={`mask-shape-${layer.id}`}
+                            value={mask.shape?.type || 'none'}
+                            onMouseDown={(e) => { e.stopPropagation(); beginInteraction(); }}
+                            onChange={(e) => {
+                                const type = e.target.value;
+                                updateMask({ shape: type === 'none' ? undefined : { ...DEFAULT_MASK_SHAPE, ...mask.shape, type: type as MaskShape['type'] } }, true);
+                            }}
+                            className="form-input !p-2 !text-sm w-full"
+                        >
+                            <option value="none">{t('layerComposer_mask_shape_none')}</option>
+                            <option value="rectangle">{t('layerComposer_mask_shape_rectangle')}</option>
+                            <option value="ellipse">{t('layerComposer_mask_shape_ellipse')}</option>
+                        </select>
+                    </div>
+                    {mask.shape && (
+                        <div className="grid grid-cols-2 gap-3">
+                            {maskShapeSlider('x', 'layerComposer_mask_left', 100)}
+                            {maskShapeSlider('y', 'layerComposer_mask_top', 100)}
+                            {maskShapeSlider('width', 'layerComposer_mask_width', 100)}
+                            {maskShapeSlider('height', 'layerComposer_mask_height', 100)}
+                            {mask.shape.type === 'rectangle' && maskShapeSlider('borderRadius', 'layerComposer_mask_radius', 50)}
+                        </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                        <label htmlFor={`clip-to-below-${layer.id}`} className="text-sm text-neutral-300">{t('layerComposer_mask_clipToBelow')}</label>
+                        <Switch id={`clip-to-below-${layer.id}`} checked={!!layer.clipToBelow} onChange={(checked) => { beginInteraction(); onUpdate(layer.id, { clipToBelow: checked }, true); }} />
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, useTransform, type MotionValue } from 'framer-motion';
+import { cn } from '../../lib/utils';
+import { useAppControls } from '../uiUtils';
+import { type Layer, type Point } from './LayerComposer.types';
+
+const MAX_MASK_SIZE = 2048;
+
+interface MaskBrushOverlayProps {
+    layer: Layer;
+    scaleMV: MotionValue<number>;
+    getPointerInCanvas: (e: React.PointerEvent) => Point | null;
+    onCommit: (maskUrl: string) => void;
+    onDone: () => void;
+}
+
+/**
+ * Paints a layer's mask. Sits on top of the layer with the same box and rotation; hidden areas
+ * are tinted red. Each finished stroke is committed as the layer's new mask image.
+ */
+export const MaskBrushOverlay: React.FC<MaskBrushOverlayProps> = ({ layer, scaleMV, getPointerInCanvas, onCommit, onDone }) => {
+    const { t } = useAppControls();
+    const displayCanvasRef = useRef<HTMLCanvasElement>(null);
+    const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const lastPointRef = useRef<Point | null>(null);
+    const [mode, setMode] = useState<'hide' | 'reveal'>('hide');
+    const [brushSize, setBrushSize] = useState(60);
+
+    const inverseScale = useTransform(scaleMV, (s: number) => 1 / s);
+    const toolbarOffset = useTransform(scaleMV, (s: number) => -50 / s);
+
+    const redraw = () => {
+        const display = displayCanvasRef.current;
+        const mask = maskCanvasRef.current;
+        const ctx = display?.getContext('2d');
+        if (!display || !mask || !ctx) return;
+        ctx.clearRect(0, 0, display.width, display.height);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.45)';
+        ctx.fillRect(0, 0, display.width, display.height);
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.drawImage(mask, 0, 0, display.width, display.height);
+        ctx.globalCompositeOperation = 'source-over';
+    };
+
+    // Start from the layer's current mask, or a fully visible one.
+    useEffect(() => {
+        const scale = Math.min(1, MAX_MASK_SIZE / Math.max(layer.width, layer.height, 1));
+        const mask = document.createElement('canvas');
+        mask.width = Math.max(1, Math.round(layer.width * scale));
+        mask.height = Math.max(1, Math.round(layer.height * scale));
+        const display = displayCanvasRef.current;
+        if (display) { display.width = mask.width; display.height = mask.height; }
+        maskCanvasRef.current = mask;
+        const ctx = mask.getContext('2d');
+        if (!ctx) return;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, mask.width, mask.height);
+        if (layer.mask?.url) {
+            const img = new Image();
+            img.onload = () => {
+                ctx.clearRect(0, 0, mask.width, mask.height);
+                ctx.drawImage(img, 0, 0, mask.width, mask.height);
+                redraw();
+            };
+            img.src = layer.mask.url;
+        }
+        redraw();
+    // Only re-initialize when switching layers; later mask updates are the strokes painted here.
+    }, [layer.id]);
+
+    const toMaskPoint = (e: React.PointerEvent): Point | null => {
+        const pointer = getPointerInCanvas(e);
+        const mask = maskCanvasRef.current;
+        if (!pointer || !mask || layer.width <= 0 || layer.height <= 0) return null;
+        const rad = -layer.rotation * Math.PI / 180;
+        const dx = pointer.x - (layer.x + layer.width / 2);
+        const dy = pointer.y - (layer.y + layer.height / 2);
+        const localX = dx * Math.cos(rad) - dy * Math.sin(rad) + layer.width / 2;
+        const localY = dx * Math.sin(rad) + dy * Math.cos(rad) + layer.height / 2;
+        return { x: localX * mask.width / layer.width, y: localY * mask.height / layer.height };
+    };
+
+    const paintTo = (point: Point) => {
+        const mask = maskCanvasRef.current;
+        const ctx = mask?.getContext('2d');
+        if (!mask || !ctx) return;
+        const from = lastPointRef.current || point;
+        ctx.save();
+        ctx.globalCompositeOperation = mode === 'hide' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = brushSize * mask.width / layer.width;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x + 0.01, point.y);
+        ctx.stroke();
+        ctx.restore();
+        lastPointRef.current = point;
+        redraw();
+    };
+
+    const commit = () => {
+        if (maskCanvasRef.current) onCommit(maskCanvasRef.current.toDataURL('image/png'));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        const point = toMaskPoint(e);
+        if (point) paintTo(point);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPointRef.current) return;
+        e.stopPropagation();
+        const point = toMaskPoint(e);
+        if (point) paintTo(point);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPointRef.current) return;
+        e.stopPropagation();
+        lastPointRef.current = null;
+        commit();
+    };
+
+    const transformMask = (operation: 'invert' | 'reset') => {
+        const mask = maskCanvasRef.current;
+        const ctx = mask?.getContext('2d');
+        if (!mask || !ctx) return;
+        if (operation === 'reset') {
+            ctx.clearRect(0, 0, mask.width, mask.height);
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, mask.width, mask.height);
+        } else {
+            const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+            for (let i = 0; i < imageData.data.length; i += 4) {
+                imageData.data[i] = imageData.data[i + 1] = imageData.data[i + 2] = 255;
+                imageData.data[i + 3] = 255 - imageData.data[i + 3];
+            }
+            ctx.putImageData(imageData, 0, 0);
+        }
+        redraw();
+        commit();
+    };
+
+    return (
+        <>
+            <motion.div
+                className="absolute"
+                style={{ x: layer.x, y: layer.y, width: layer.width, height: layer.height, rotate: layer.rotation, zIndex: 999 }}
+            >
+                <canvas
+                    ref={displayCanvasRef}
+                    className="w-full h-full cursor-crosshair"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                />
+            </motion.div>
+            <motion.div
+                style={{ position: 'absolute', top: layer.y, left: layer.x + layer.width / 2, x: '-50%', y: toolbarOffset, scale: inverseScale, transformOrigin: 'center top', zIndex: 1001 }}
+                className="flex items-center gap-2 p-1.5 rounded-lg bg-neutral-900/80 backdrop-blur-sm border border-white/10 shadow-lg text-sm text-white whitespace-nowrap"
+                onPointerDown={e => e.stopPropagation()}
+            >
+                {(['hide', 'reveal'] as const).map(brushMode => (
+                    <button
+                        key={brushMode}
+                        onClick={() => setMode(brushMode)}
+                        className={cn("px-2 py-1 rounded-md transition-colors", mode === brushMode ? 'bg-yellow-400 text-black font-bold' : 'bg-neutral-800 hover:bg-neutral-700')}
+                    >
+                        {t(`layerComposer_maskBrush_${brushMode}`)}
+                    </button>
+                ))}
+                <label className="flex items-center gap-1 text-neutral-300" title={t('layerComposer_maskBrush_size')}>
+                    <input type="range" min="5" max="400" value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="slider-track w-24" />
+                    <span className="font-mono w-8 text-right">{brushSize}</span>
+                </label>
+                <button onClick={() => transformMask('invert')} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">{t('layerComposer_maskBrush_invert')}</button>
+                <button onClick={() => transformMask('reset')} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700">{t('layerComposer_maskBrush_reset')}</button>
+                <button onClick={onDone} className="px-2 py-1 rounded-md bg-neutral-800 hover:bg-neutral-700 text-yellow-400 font-bold">{t('layerComposer_maskBrush_done')}</button>
+            </motion.div>
+        </>
+    );
+};
@@ -14,9 +14,10 @@ interface SelectionFrameProps {
     onRotatePointerDown: (e: React.PointerEvent<HTMLDivElement>) => void;
     scaleMV: MotionValue<number>;
     isInteracting: boolean;
+    canRotate?: boolean;
 }
 
-export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rotation, isMultiSelect, onHandlePointerDown, onRotatePointerDown, scaleMV, isInteracting }) => {
+export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rotation, isMultiSelect, onHandlePointerDown, onRotatePointerDown, scaleMV, isInteracting, canRotate = true }) => {
     const HANDLES: Handle[] = ['tl', 'tr', 'bl', 'br', 't', 'b', 'l', 'r'];
     const ROTATION_CORNERS: ('tl' | 'tr' | 'bl' | 'br')[] = ['tl', 'tr', 'bl', 'br'];
 
@@ -70,7 +71,7 @@ export const SelectionFrame: React.FC<SelectionFrameProps> = ({ boundingBox, rot
             transition={isInteracting ? { duration: 0 } : { type: 'spring', stiffness: 500, damping: 50 }}
         >
             <motion.div className="absolute inset-0 border-dashed border-yellow-400" style={{ borderWidth }} />
-             {!isMultiSelect && ROTATION_CORNERS.map(corner => ( <motion.div key={`${corner}-rotate`} style={getRotationHandleStyle(corner)} onPointerDown={(e) => onRotatePointerDown(e)} /> ))}
+             {!isMultiSelect && canRotate && ROTATION_CORNERS.map(corner => ( <motion.div key={`${corner}-rotate`} style={getRotationHandleStyle(corner)} onPointerDown={(e) => onRotatePointerDown(e)} /> ))}
             {HANDLES.map(handle => ( <motion.div key={handle} style={getHandleMotionStyle(handle)} onPointerDown={(e) => onHandlePointerDown(e, handle)} /> ))}
         </motion.div>
     );
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { type Rect, type CanvasTemplateRecord } from './LayerComposer.types';
+import { getTemplateSlots, type TemplateSlot, type SlotContent } from './templates';
+import { useAppControls } from '../uiUtils';
+import { cn } from '../../lib/utils';
+import { resolveGalleryImageUrl } from '../../lib/db';
+
+interface TemplateDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    templates: CanvasTemplateRecord[];
+    // How many slots the open canvas has; it can only be saved as a template when it has some.
+    currentSlotCount: number;
+    galleryImages: string[];
+    isBusy: boolean;
+    error: string | null;
+    onSave: (name: string) => void;
+    onDelete: (id: string) => void;
+    onApply: (id: string, contents: Record<string, SlotContent>) => void;
+    onGenerateImage: (prompt: string, box: Rect) => Promise<string | null>;
+}
+
+const Thumbnail: React.FC<{ url?: string; className?: string }> = ({ url, className }) => (
+    <div className={cn("bg-neutral-900 bg-[repeating-conic-gradient(#262626_0_25%,#1f1f1f_0_50%)] bg-[length:16px_16px] flex items-center justify-center overflow-hidden", className)}>
+        {url && <img src={url} alt="" className="max-w-full max-h-full object-contain" />}
+    </div>
+);
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+interface SlotEditorProps {
+    slot: TemplateSlot;
+    content: SlotContent | undefined;
+    galleryImages: string[];
+    onChange: (content: SlotContent | undefined) => void;
+    onGenerateImage: (prompt: string, box: Rect) => Promise<string | null>;
+}
+
+/**
+ * Picks the content for one slot: text typed in, or an image from the gallery, a file or generation.
+ */
+const SlotEditor: React.FC<SlotEditorProps> = ({ slot, content, galleryImages, onChange, onGenerateImage }) => {
+    const { t } = useAppControls();
+    const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+    const [prompt, setPrompt] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (slot.kind === 'text') {
+        return (
+            <div className="p-3 rounded-lg bg-neutral-800 border border-neutral-700 space-y-2">
+                <p className="text-sm font-semibold text-neutral-200">{slot.name}</p>
+                <textarea
+                    value={content?.kind === 'text' ? content.text : slot.placeholder}
+                    onChange={e => onChange({ kind: 'text', text: e.target.value })}
+                    rows={2}
+                    className="form-input !p-1.5 !text-sm w-full resize-y"
+                />
+            </div>
+        );
+    }
+
+    const handleGenerate = async () => {
+        if (!prompt.trim() || isGenerating) return;
+        setIsGenerating(true);
+        try {
+            const url = await onGenerateImage(prompt.trim(), slot.box);
+            if (url) onChange({ kind: 'image', url });
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onChange({ kind: 'image', url: await readFileAsDataUrl(file) });
+    };
+
+    const imageUrl = content?.kind === 'image' ? content.url : undefined;
+    return (
+        <div className="p-3 rounded-lg bg-neutral-800 border border-neutral-700 space-y-2">
+            <div className="flex gap-3">
+                <Thumbnail url={imageUrl || slot.placeholder} className={cn("w-20 h-20 rounded flex-shrink-0", !imageUrl && 'opacity-40')} />
+                <div className="flex-grow min-w-0 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-semibold text-neutral-200 truncate">{slot.name}</p>
+                        <span className="text-xs text-neutral-500">{t(`layerComposer_slot_fit_${slot.fit}`)}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 text-xs">
+                        <button onClick={() => setIsGalleryOpen(prev => !prev)} disabled={galleryImages.length === 0} className={cn("px-2 py-1 rounded text-neutral-300", isGalleryOpen ? 'bg-white/15' : 'bg-white/5 hover:bg-white/10')}>{t('layerComposer_templates_fromGallery')}</button>
+                        <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_templates_upload')}</button>
+                        {imageUrl && <button onClick={() => onChange(undefined)} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_templates_keepPlaceholder')}</button>}
+                        <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileSelected} />
+                    </div>
+                    <form onSubmit={e => { e.preventDefault(); handleGenerate(); }} className="flex gap-1">
+                        <input value={prompt} onChange={e => setPrompt(e.target.value)} placeholder={t('layerComposer_templates_promptPlaceholder')} className="form-input !p-1 !text-xs flex-grow min-w-0" />
+                        <button type="submit" disabled={!prompt.trim() || isGenerating} className="btn btn-secondary btn-sm !px-2 !text-xs">{isGenerating ? t('layerComposer_templates_generating') : t('layerComposer_templates_generate')}</button>
+                    </form>
+                </div>
+            </div>
+            {isGalleryOpen && (
+                <div className="grid grid-cols-5 gap-1 max-h-40 overflow-y-auto">
+                    {galleryImages.map((url, index) => (
+                        <button key={`${url.slice(-24)}-${index}`} onClick={async () => { onChange({ kind: 'image', url: await resolveGalleryImageUrl(url) }); setIsGalleryOpen(false); }} className={cn("rounded overflow-hidden border", url === imageUrl ? 'border-yellow-400' : 'border-transparent hover:border-neutral-500')}>
+                            <Thumbnail url={url} className="h-14" />
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * The Layer Composer's templates: saving the open canvas as one, and starting a document from one by
+ * filling in its slots.
+ */
+export const TemplateDialog: React.FC<TemplateDialogProps> = ({
+    isOpen, onClose, templates, currentSlotCount, galleryImages, isBusy, error, onSave, onDelete, onApply, onGenerateImage
+}) => {
+    const { t } = useAppControls();
+    const [templateName, setTemplateName] = useState('');
+    const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+    const [fillingId, setFillingId] = useState<string | null>(null);
+    const [contents, setContents] = useState<Record<string, SlotContent>>({});
+    const filling = templates.find(template => template.id === fillingId) || null;
+    const slots = useMemo(() => filling ? getTemplateSlots(filling.state.layers) : [], [filling]);
+
+    useEffect(() => {
+        if (!isOpen) { setConfirmingDeleteId(null); setFillingId(null); }
+    }, [isOpen]);
+
+    useEffect(() => { setContents({}); }, [fillingId]);
+
+    const setSlotContent = (name: string, content: SlotContent | undefined) => setContents(prev => {
+        const next = { ...prev };
+        if (content) next[name] = content; else delete next[name];
+        return next;
+    });
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay z-[80]"
+                    aria-modal="true" role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content !max-w-5xl"
+                    >
+                        <div className="flex items-center justify-between gap-4">
+                            <h3 className="base-font font-bold text-2xl text-yellow-400 truncate">{filling ? t('layerComposer_templates_fillTitle', filling.name) : t('layerComposer_templates_title')}</h3>
+                            {filling && <button onClick={() => setFillingId(null)} className="btn btn-secondary btn-sm">{t('layerComposer_library_back')}</button>}
+                        </div>
+                        {error && <p className="text-red-400 text-sm">{error}</p>}
+                        {filling ? (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-2 max-h-[70vh]">
+                                <div>
+                                    <Thumbnail url={filling.thumbnail} className="h-48 rounded-md" />
+                                    <p className="mt-2 text-xs text-neutral-400">{t('layerComposer_templates_fillHint')}</p>
+                                </div>
+                                <div className="md:col-span-2 overflow-y-auto pr-1 space-y-2">
+                                    {slots.map(slot => (
+                                        <SlotEditor
+                                            key={slot.name}
+                                            slot={slot}
+                                            content={contents[slot.name]}
+                                            galleryImages={galleryImages}
+                                            onChange={content => setSlotContent(slot.name, content)}
+                                            onGenerateImage={onGenerateImage}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="my-2 space-y-3">
+                                <form onSubmit={e => { e.preventDefault(); onSave(templateName); setTemplateName(''); }} className="flex gap-2 items-center">
+                                    <input value={templateName} onChange={e => setTemplateName(e.target.value)} placeholder={t('layerComposer_templates_namePlaceholder')} className="form-input !p-1.5 !text-sm flex-grow min-w-0" disabled={currentSlotCount === 0} />
+                                    <button type="submit" className="btn btn-secondary btn-sm" disabled={isBusy || currentSlotCount === 0}>{t('layerComposer_templates_saveCurrent')}</button>
+                                </form>
+                                <p className="text-xs text-neutral-500">{currentSlotCount > 0 ? t('layerComposer_templates_slotCount', currentSlotCount) : t('layerComposer_templates_noSlots')}</p>
+                                <div className="max-h-[60vh] overflow-y-auto pr-1">
+                                    {templates.length === 0 ? (
+                                        <p className="text-sm text-neutral-500 text-center py-8">{t('layerComposer_templates_empty')}</p>
+                                    ) : (
+                                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                            {templates.map(template => (
+                                                <div key={template.id} className="rounded-lg border border-neutral-700 hover:border-neutral-600 bg-neutral-800 overflow-hidden flex flex-col">
+                                                    <button onClick={() => setFillingId(template.id)} disabled={isBusy} className="block" title={t('layerComposer_templates_use')}>
+                                                        <Thumbnail url={template.thumbnail} className="h-28" />
+                                                    </button>
+                                                    <div className="p-2 space-y-1 text-sm">
+                                                        <p className="text-neutral-200 truncate" title={template.name}>{template.name}</p>
+                                                        <p className="text-xs text-neutral-500">{t('layerComposer_templates_slotCount', getTemplateSlots(template.state.layers).length)}</p>
+                                                        {confirmingDeleteId === template.id ? (
+                                                            <div className="flex gap-1">
+                                                                <button onClick={() => { onDelete(template.id); setConfirmingDeleteId(null); }} className="btn btn-sm flex-1 !px-1 !bg-red-500 hover:!bg-red-600 text-white">{t('layerComposer_library_confirmDelete')}</button>
+                                                                <button onClick={() => setConfirmingDeleteId(null)} className="btn btn-secondary btn-sm flex-1 !px-1">{t('common_cancel')}</button>
+                                                            </div>
+                                                        ) : (
+                                                            <div className="flex gap-1 text-xs">
+                                                                <button onClick={() => setFillingId(template.id)} disabled={isBusy} className="flex-1 py-1 rounded bg-white/5 hover:bg-white/10 text-neutral-300">{t('layerComposer_templates_use')}</button>
+                                                                <button onClick={() => setConfirmingDeleteId(template.id)} disabled={isBusy} className="flex-1 py-1 rounded bg-white/5 hover:bg-red-500/30 text-neutral-300">{t('layerComposer_library_delete')}</button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        <div className="flex justify-end items-center gap-4 mt-4">
+                            <button onClick={onClose} className="btn btn-secondary btn-sm">{t('layerComposer_library_close')}</button>
+                            {filling && <button onClick={() => onApply(filling.id, contents)} className="btn btn-primary btn-sm" disabled={isBusy}>{t('layerComposer_templates_create')}</button>}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
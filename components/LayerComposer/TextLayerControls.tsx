@@ -2,54 +2,138 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { type Layer } from './LayerComposer.types';
-import { useAppControls } from '../uiUtils';
+import React, { useState, useEffect, useRef } from 'react';
+import { type Layer, type TextRunStyle, type CustomFont, type TextStroke, type TextShadow } from './LayerComposer.types';
+import { useAppControls, Switch } from '../uiUtils';
 import { cn } from '../../lib/utils';
 import { BoldIcon, ItalicIcon, UppercaseIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon } from '../icons';
+import { ColorSwatch, GradientFillControls } from './VectorStyleControls';
+import { applyTextRunStyle, clearTextRunStyles, adjustTextRunsForEdit, getTextStyleAt, getBaseTextStyle } from './richText';
 
 interface TextLayerControlsProps {
     layer: Layer;
     onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
     beginInteraction: () => void;
+    customFonts?: CustomFont[];
+    onUploadFont: (file: File) => Promise<string | null>;
 }
 
 const FONT_FAMILIES = [ 'Be Vietnam Pro', 'Asimovian', 'Playwrite AU SA', 'Arial', 'Verdana', 'Times New Roman', 'Courier New', 'Georgia', 'Comic Sans MS' ];
 const FONT_WEIGHTS: { label: string, value: string }[] = [ { label: 'Thin', value: '100' }, { label: 'Extra Light', value: '200' }, { label: 'Light', value: '300' }, { label: 'Normal', value: '400' }, { label: 'Medium', value: '500' }, { label: 'Semi Bold', value: '600' }, { label: 'Bold', value: '700' }, { label: 'Extra Bold', value: '800' }, { label: 'Black', value: '900' }, ];
+const DEFAULT_TEXT_STROKE: TextStroke = { color: '#FFFFFF', width: 3 };
+const DEFAULT_TEXT_SHADOW: TextShadow = { color: '#000000', offsetX: 4, offsetY: 4, blur: 8 };
 
-export const TextLayerControls: React.FC<TextLayerControlsProps> = ({ layer, onUpdate, beginInteraction }) => {
+const Slider: React.FC<{ id: string; label: string; value: number; min: number; max: number; onStart: () => void; onChange: (value: number, isFinal: boolean) => void }> = ({ id, label, value, min, max, onStart, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-neutral-300 mb-1">{label}</label>
+        <input
+            id={id}
+            type="range"
+            min={min}
+            max={max}
+            value={value}
+            onMouseDown={onStart}
+            onInput={(e) => onChange(Number((e.target as HTMLInputElement).value), false)}
+            onChange={(e) => onChange(Number((e.target as HTMLInputElement).value), true)}
+            className="slider-track"
+        />
+    </div>
+);
+
+/**
+ * Text, font and effects of a text layer. With characters selected in the text box, font, size, weight,
+ * style, colour and spacing changes apply to just those characters as a text run.
+ */
+export const TextLayerControls: React.FC<TextLayerControlsProps> = ({ layer, onUpdate, beginInteraction, customFonts = [], onUploadFont }) => {
     const { t } = useAppControls();
+    const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+    const text = layer.text || '';
+
+    useEffect(() => { setSelection(null); }, [layer.id]);
+
+    const hasSelection = !!selection && selection.end > selection.start && selection.end <= text.length;
+    const style = hasSelection ? getTextStyleAt(layer, selection!.start) : getBaseTextStyle(layer);
+    const fontFamilies = [...FONT_FAMILIES, ...customFonts.map(font => font.family).filter(family => !FONT_FAMILIES.includes(family))];
+
+    // The run style keys share their names with the layer's own font fields.
+    const applyStyle = (changes: TextRunStyle, isFinal = true) => {
+        if (hasSelection) {
+            onUpdate(layer.id, { textRuns: applyTextRunStyle(layer.textRuns, selection!.start, selection!.end, changes, text.length) }, isFinal);
+        } else {
+            onUpdate(layer.id, changes, isFinal);
+        }
+    };
+    const commitStyle = (changes: TextRunStyle) => {
+        beginInteraction();
+        applyStyle(changes);
+    };
+    const handleTextChange = (newText: string) => {
+        onUpdate(layer.id, { text: newText, ...(layer.textRuns ? { textRuns: adjustTextRunsForEdit(layer.textRuns, text, newText) } : {}) }, true);
+    };
+    const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        const { selectionStart, selectionEnd } = e.currentTarget;
+        setSelection(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+    };
+    const handleFontFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const family = await onUploadFont(file);
+        if (family) commitStyle({ fontFamily: family });
+    };
+    const updateStroke = (changes: Partial<TextStroke>, isFinal: boolean) => {
+        if (layer.textStroke) onUpdate(layer.id, { textStroke: { ...layer.textStroke, ...changes } }, isFinal);
+    };
+    const updateShadow = (changes: Partial<TextShadow>, isFinal: boolean) => {
+        if (layer.textShadow) onUpdate(layer.id, { textShadow: { ...layer.textShadow, ...changes } }, isFinal);
+    };
 
     return (
         <div className="p-3 space-y-4">
             <div>
                 <label htmlFor={`text-content-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_content')}</label>
-                <textarea id={`text-content-${layer.id}`} value={layer.text || ''} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { text: e.target.value }, true)} className="form-input !p-2 !text-sm" rows={3} />
+                <textarea id={`text-content-${layer.id}`} value={text} onMouseDown={beginInteraction} onChange={(e) => handleTextChange(e.target.value)} onSelect={handleSelect} className="form-input !p-2 !text-sm" rows={3} />
+                <div className="flex items-center justify-between gap-2 mt-1 text-xs text-neutral-400">
+                    <span>{hasSelection ? t('layerComposer_textControls_selection', selection!.end - selection!.start) : t('layerComposer_textControls_selectionHint')}</span>
+                    {hasSelection ? (
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => { beginInteraction(); onUpdate(layer.id, { textRuns: clearTextRunStyles(layer.textRuns, selection!.start, selection!.end, text.length) }, true); }} className="hover:text-yellow-400">{t('layerComposer_textControls_clearRunStyles')}</button>
+                            <button onClick={() => setSelection(null)} className="hover:text-yellow-400">{t('layerComposer_textControls_wholeText')}</button>
+                        </div>
+                    ) : (layer.textRuns?.length ? (
+                        <button onClick={() => { beginInteraction(); onUpdate(layer.id, { textRuns: undefined }, true); }} className="hover:text-yellow-400">{t('layerComposer_textControls_clearAllRunStyles')}</button>
+                    ) : null)}
+                </div>
             </div>
             <div>
                 <label htmlFor={`font-family-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontFamily')}</label>
-                <select id={`font-family-${layer.id}`} value={layer.fontFamily} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontFamily: e.target.value }, true)} className="form-input !p-2 !text-sm" >
-                    {FONT_FAMILIES.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
-                </select>
+                <div className="flex items-center gap-2">
+                    <select id={`font-family-${layer.id}`} value={style.fontFamily} onMouseDown={beginInteraction} onChange={(e) => applyStyle({ fontFamily: e.target.value })} className="form-input !p-2 !text-sm" >
+                        {fontFamilies.map(font => <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>)}
+                    </select>
+                    <button onClick={() => fontInputRef.current?.click()} className="btn btn-secondary btn-sm whitespace-nowrap" title={t('layerComposer_textControls_uploadFont_tooltip')}>{t('layerComposer_textControls_uploadFont')}</button>
+                    <input ref={fontInputRef} type="file" accept=".ttf,.otf,.woff,.woff2" className="hidden" onChange={handleFontFileChange} />
+                </div>
             </div>
             <div className="grid grid-cols-2 gap-3">
                 <div>
                     <label htmlFor={`font-size-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontSize')}</label>
-                    <input id={`font-size-${layer.id}`} type="number" min="1" value={layer.fontSize} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontSize: Number(e.target.value) }, true)} className="form-input !p-2 !text-sm" />
+                    <input id={`font-size-${layer.id}`} type="number" min="1" value={style.fontSize} onMouseDown={beginInteraction} onChange={(e) => applyStyle({ fontSize: Number(e.target.value) })} className="form-input !p-2 !text-sm" />
                 </div>
                  <div>
                     <label htmlFor={`font-weight-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_textControls_fontWeight')}</label>
-                    <select id={`font-weight-${layer.id}`} value={layer.fontWeight} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { fontWeight: e.target.value }, true)} className="form-input !p-2 !text-sm" >
+                    <select id={`font-weight-${layer.id}`} value={style.fontWeight} onMouseDown={beginInteraction} onChange={(e) => applyStyle({ fontWeight: e.target.value })} className="form-input !p-2 !text-sm" >
                         {FONT_WEIGHTS.map(weight => <option key={weight.value} value={weight.value}>{weight.label}</option>)}
                     </select>
                 </div>
             </div>
             <div className="flex items-center justify-between gap-4 pt-2">
                 <div className="flex items-center gap-1 bg-neutral-700/50 p-1 rounded-md">
-                    <button onClick={() => { beginInteraction(); onUpdate(layer.id, { fontWeight: layer.fontWeight === '700' ? '400' : '700' }, true); }} className={cn("p-1.5 rounded", layer.fontWeight === '700' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_bold')}>
+                    <button onClick={() => commitStyle({ fontWeight: style.fontWeight === '700' ? '400' : '700' })} className={cn("p-1.5 rounded", style.fontWeight === '700' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_bold')}>
                         <BoldIcon className="h-4 w-4" />
                     </button>
-                    <button onClick={() => { beginInteraction(); onUpdate(layer.id, { fontStyle: layer.fontStyle === 'italic' ? 'normal' : 'italic' }, true); }} className={cn("p-1.5 rounded", layer.fontStyle === 'italic' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_italic')}>
+                    <button onClick={() => commitStyle({ fontStyle: style.fontStyle === 'italic' ? 'normal' : 'italic' })} className={cn("p-1.5 rounded", style.fontStyle === 'italic' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_italic')}>
                         <ItalicIcon className="h-4 w-4" />
                     </button>
                     <button onClick={() => { beginInteraction(); onUpdate(layer.id, { textTransform: layer.textTransform === 'uppercase' ? 'none' : 'uppercase' }, true); }} className={cn("p-1.5 rounded", layer.textTransform === 'uppercase' ? 'bg-yellow-400 text-black' : 'hover:bg-neutral-600')} title={t('layerComposer_textControls_uppercase')}>
@@ -63,12 +147,56 @@ export const TextLayerControls: React.FC<TextLayerControlsProps> = ({ layer, onU
                 </div>
                 <div className="flex items-center gap-2">
                     <label htmlFor={`color-${layer.id}`} className="text-sm font-medium text-neutral-300 sr-only">{t('layerComposer_textControls_color')}</label>
-                    <div className="relative h-6 w-6 rounded-full border-2 border-white/20 shadow-inner">
-                        <input id={`color-${layer.id}`} type="color" value={layer.color} onMouseDown={beginInteraction} onChange={(e) => onUpdate(layer.id, { color: e.target.value }, true)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
-                        <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: layer.color }}></div>
+                    <ColorSwatch id={`color-${layer.id}`} value={style.color} onOpen={beginInteraction} onChange={(color) => applyStyle({ color })} />
+                </div>
+            </div>
+            <Slider id={`letter-spacing-${layer.id}`} label={t('layerComposer_textControls_letterSpacing', style.letterSpacing)} value={style.letterSpacing} min={-20} max={100} onStart={beginInteraction} onChange={(letterSpacing, isFinal) => applyStyle({ letterSpacing }, isFinal)} />
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                <div className="flex items-center justify-between">
+                    <label htmlFor={`text-stroke-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_textControls_outline')}</label>
+                    <div className="flex items-center gap-3">
+                        {layer.textStroke && <ColorSwatch id={`text-stroke-color-${layer.id}`} value={layer.textStroke.color} onOpen={beginInteraction} onChange={(color) => updateStroke({ color }, true)} />}
+                        <Switch id={`text-stroke-${layer.id}`} checked={!!layer.textStroke} onChange={(checked) => { beginInteraction(); onUpdate(layer.id, { textStroke: checked ? { ...DEFAULT_TEXT_STROKE } : undefined }, true); }} />
+                    </div>
+                </div>
+                {layer.textStroke && (
+                    <Slider id={`text-stroke-width-${layer.id}`} label={t('layerComposer_textControls_outlineWidth', layer.textStroke.width)} value={layer.textStroke.width} min={1} max={30} onStart={beginInteraction} onChange={(width, isFinal) => updateStroke({ width }, isFinal)} />
+                )}
+            </div>
+
+            <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                <div className="flex items-center justify-between">
+                    <label htmlFor={`text-shadow-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_textControls_shadow')}</label>
+                    <div className="flex items-center gap-3">
+                        {layer.textShadow && <ColorSwatch id={`text-shadow-color-${layer.id}`} value={layer.textShadow.color} onOpen={beginInteraction} onChange={(color) => updateShadow({ color }, true)} />}
+                        <Switch id={`text-shadow-${layer.id}`} checked={!!layer.textShadow} onChange={(checked) => { beginInteraction(); onUpdate(layer.id, { textShadow: checked ? { ...DEFAULT_TEXT_SHADOW } : undefined }, true); }} />
                     </div>
                 </div>
+                {layer.textShadow && (
+                    <>
+                        <div className="grid grid-cols-2 gap-3">
+                            <Slider id={`text-shadow-x-${layer.id}`} label={t('layerComposer_textControls_shadowX', layer.textShadow.offsetX)} value={layer.textShadow.offsetX} min={-50} max={50} onStart={beginInteraction} onChange={(offsetX, isFinal) => updateShadow({ offsetX }, isFinal)} />
+                            <Slider id={`text-shadow-y-${layer.id}`} label={t('layerComposer_textControls_shadowY', layer.textShadow.offsetY)} value={layer.textShadow.offsetY} min={-50} max={50} onStart={beginInteraction} onChange={(offsetY, isFinal) => updateShadow({ offsetY }, isFinal)} />
+                        </div>
+                        <Slider id={`text-shadow-blur-${layer.id}`} label={t('layerComposer_textControls_shadowBlur', layer.textShadow.blur)} value={layer.textShadow.blur} min={0} max={50} onStart={beginInteraction} onChange={(blur, isFinal) => updateShadow({ blur }, isFinal)} />
+                    </>
+                )}
             </div>
+
+            <div className="pt-4 border-t border-neutral-700/50">
+                <GradientFillControls layer={layer} baseColor={layer.color || '#000000'} onUpdate={onUpdate} beginInteraction={beginInteraction} />
+            </div>
+
+            {layer.textPath && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                    <p className="text-sm font-bold text-neutral-200">{t('layerComposer_textControls_textOnPath')}</p>
+                    <Slider id={`text-path-offset-${layer.id}`} label={t('layerComposer_textControls_pathOffset', layer.textPath.startOffset)} value={layer.textPath.startOffset} min={0} max={100} onStart={beginInteraction} onChange={(startOffset, isFinal) => onUpdate(layer.id, { textPath: { ...layer.textPath!, startOffset } }, isFinal)} />
+                    <button onClick={() => { beginInteraction(); onUpdate(layer.id, { textPath: undefined }, true); }} className="btn btn-secondary btn-sm w-full">
+                        {t('layerComposer_textControls_detachFromPath')}
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { type Layer, type StrokeStyle, type GradientFill } from './LayerComposer.types';
+import { useAppControls, Switch } from '../uiUtils';
+import { DEFAULT_STROKE } from './vectorPaths';
+
+interface VectorStyleControlsProps {
+    layer: Layer;
+    onUpdate: (id: string, newProps: Partial<Layer>, isFinalChange: boolean) => void;
+    beginInteraction: () => void;
+}
+
+export const ColorSwatch: React.FC<{ id: string; value: string; onOpen: () => void; onChange: (color: string) => void }> = ({ id, value, onOpen, onChange }) => (
+    <div className="relative h-6 w-6 rounded-full border-2 border-white/20 shadow-inner">
+        <input id={id} type="color" value={value} onMouseDown={onOpen} onChange={(e) => onChange(e.target.value)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+        <div className="w-full h-full rounded-full pointer-events-none" style={{ backgroundColor: value }}></div>
+    </div>
+);
+
+/**
+ * Gradient fill of a shape, path or text layer. A new gradient starts from the layer's current colour.
+ */
+export const GradientFillControls: React.FC<VectorStyleControlsProps & { baseColor: string }> = ({ layer, baseColor, onUpdate, beginInteraction }) => {
+    const { t } = useAppControls();
+    const gradient = layer.fillGradient;
+
+    const commit = (fillGradient: GradientFill | undefined) => {
+        beginInteraction();
+        onUpdate(layer.id, { fillGradient }, true);
+    };
+    const setGradientType = (type: string) => {
+        if (type === 'none') { commit(undefined); return; }
+        commit({ angle: 0, stops: [{ offset: 0, color: baseColor }, { offset: 1, color: '#000000' }], ...gradient, type: type as GradientFill['type'] });
+    };
+    const setStopColor = (index: number, color: string) => {
+        if (gradient) onUpdate(layer.id, { fillGradient: { ...gradient, stops: gradient.stops.map((stop, i) => i === index ? { ...stop, color } : stop) } }, true);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label htmlFor={`vector-gradient-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_vector_gradient')}</label>
+                <select
+                    id={`vector-gradient-${layer.id}`}
+                    value={gradient?.type || 'none'}
+                    onChange={(e) => setGradientType(e.target.value)}
+                    className="form-input !p-2 !text-sm w-full"
+                >
+                    <option value="none">{t('layerComposer_vector_gradient_none')}</option>
+                    <option value="linear">{t('layerComposer_vector_gradient_linear')}</option>
+                    <option value="radial">{t('layerComposer_vector_gradient_radial')}</option>
+                </select>
+            </div>
+            {gradient && (
+                <>
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-neutral-300">{t('layerComposer_vector_gradient_colors')}</span>
+                        <div className="flex items-center gap-2">
+                            {gradient.stops.map((stop, i) => (
+                                <ColorSwatch key={i} id={`vector-gradient-stop-${i}-${layer.id}`} value={stop.color} onOpen={beginInteraction} onChange={(color) => setStopColor(i, color)} />
+                            ))}
+                        </div>
+                    </div>
+                    {gradient.type === 'linear' && (
+                        <div>
+                            <label htmlFor={`vector-gradient-angle-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_vector_gradient_angle', gradient.angle)}</label>
+                            <input
+                                id={`vector-gradient-angle-${layer.id}`}
+                                type="range"
+                                min="0"
+                                max="359"
+                                value={gradient.angle}
+                                onMouseDown={beginInteraction}
+                                onInput={(e) => onUpdate(layer.id, { fillGradient: { ...gradient, angle: Number((e.target as HTMLInputElement).value) } }, false)}
+                                onChange={(e) => onUpdate(layer.id, { fillGradient: { ...gradient, angle: Number((e.target as HTMLInputElement).value) } }, true)}
+                                className="slider-track"
+                            />
+                        </div>
+                    )}
+                    <button onClick={() => commit({ ...gradient, stops: [...gradient.stops].reverse().map(stop => ({ ...stop, offset: 1 - stop.offset })) })} className="btn btn-secondary btn-sm w-full">
+                        {t('layerComposer_vector_gradient_reverse')}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Fill, gradient and stroke of a path layer. Shape layers only get the gradient, since their
+ * fill colour lives in the properties tab.
+ */
+export const VectorStyleControls: React.FC<VectorStyleControlsProps> = ({ layer, onUpdate, beginInteraction }) => {
+    const { t } = useAppControls();
+    const isPath = layer.type === 'path';
+    const hasFill = !!layer.fillColor && layer.fillColor !== 'none';
+    const fillColor = hasFill ? layer.fillColor! : '#FFFFFF';
+    const stroke = layer.stroke;
+
+    const commit = (props: Partial<Layer>) => {
+        beginInteraction();
+        onUpdate(layer.id, props, true);
+    };
+    const updateStroke = (changes: Partial<StrokeStyle>, isFinal: boolean) => {
+        if (stroke) onUpdate(layer.id, { stroke: { ...stroke, ...changes } }, isFinal);
+    };
+
+    return (
+        <div className="p-3 space-y-4">
+            {isPath && (
+                <div className="flex items-center justify-between">
+                    <label htmlFor={`vector-fill-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_vector_fill')}</label>
+                    <div className="flex items-center gap-3">
+                        {hasFill && !layer.fillGradient && <ColorSwatch id={`vector-fill-color-${layer.id}`} value={fillColor} onOpen={beginInteraction} onChange={(color) => onUpdate(layer.id, { fillColor: color }, true)} />}
+                        <Switch id={`vector-fill-${layer.id}`} checked={hasFill} onChange={(checked) => commit({ fillColor: checked ? '#FFFFFF' : 'none' })} />
+                    </div>
+                </div>
+            )}
+
+            {(hasFill || !isPath) && <GradientFillControls layer={layer} baseColor={fillColor} onUpdate={onUpdate} beginInteraction={beginInteraction} />}
+
+            {isPath && (
+                <div className="pt-4 border-t border-neutral-700/50 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <label htmlFor={`vector-stroke-${layer.id}`} className="text-sm font-bold text-neutral-200">{t('layerComposer_vector_stroke')}</label>
+                        <div className="flex items-center gap-3">
+                            {stroke && <ColorSwatch id={`vector-stroke-color-${layer.id}`} value={stroke.color} onOpen={beginInteraction} onChange={(color) => updateStroke({ color }, true)} />}
+                            <Switch id={`vector-stroke-${layer.id}`} checked={!!stroke} onChange={(checked) => commit({ stroke: checked ? { ...DEFAULT_STROKE } : undefined })} />
+                        </div>
+                    </div>
+                    {stroke && (
+                        <>
+                            <div>
+                                <label htmlFor={`vector-stroke-width-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_vector_stroke_width', stroke.width)}</label>
+                                <input
+                                    id={`vector-stroke-width-${layer.id}`}
+                                    type="range"
+                                    min="1"
+                                    max="100"
+                                    value={stroke.width}
+                                    onMouseDown={beginInteraction}
+                                    onInput={(e) => updateStroke({ width: Number((e.target as HTMLInputElement).value) }, false)}
+                                    onChange={(e) => updateStroke({ width: Number((e.target as HTMLInputElement).value) }, true)}
+                                    className="slider-track"
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor={`vector-stroke-dash-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_vector_stroke_dash')}</label>
+                                    <select
+                                        id={`vector-stroke-dash-${layer.id}`}
+                                        value={stroke.dash}
+                                        onMouseDown={beginInteraction}
+                                        onChange={(e) => updateStroke({ dash: e.target.value as StrokeStyle['dash'] }, true)}
+                                        className="form-input !p-2 !text-sm w-full"
+                                    >
+                                        {(['solid', 'dashed', 'dotted'] as const).map(dash => <option key={dash} value={dash}>{t(`layerComposer_vector_stroke_dash_${dash}`)}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor={`vector-stroke-cap-${layer.id}`} className="block text-sm font-medium text-neutral-300 mb-1">{t('layerComposer_vector_stroke_cap')}</label>
+                                    <select
+                                        id={`vector-stroke-cap-${layer.id}`}
+                                        value={stroke.lineCap}
+                                        onMouseDown={beginInteraction}
+                                        onChange={(e) => updateStroke({ lineCap: e.target.value as StrokeStyle['lineCap'] }, true)}
+                                        className="form-input !p-2 !text-sm w-full"
+                                    >
+                                        {(['butt', 'round', 'square'] as const).map(cap => <option key={cap} value={cap}>{t(`layerComposer_vector_stroke_cap_${cap}`)}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            {/* Arrowheads only show on the open ends of a path, which makes callouts and arrows. */}
+                            <div className="flex items-center justify-between">
+                                <label htmlFor={`vector-start-arrow-${layer.id}`} className="text-sm text-neutral-300">{t('layerComposer_vector_startArrow')}</label>
+                                <Switch id={`vector-start-arrow-${layer.id}`} checked={!!stroke.startArrow} onChange={(checked) => { beginInteraction(); updateStroke({ startArrow: checked }, true); }} />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <label htmlFor={`vector-end-arrow-${layer.id}`} className="text-sm text-neutral-300">{t('layerComposer_vector_endArrow')}</label>
+                                <Switch id={`vector-end-arrow-${layer.id}`} checked={!!stroke.endArrow} onChange={(checked) => { beginInteraction(); updateStroke({ endArrow: checked }, true); }} />
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type CanvasSettings } from './LayerComposer.types';
+import { normalizeLayers } from './layerTree';
+
+// A shared document is a last-writer-wins map: every layer field, the layer order and the canvas
+// settings are separate entries, each stamped with a Lamport clock. Concurrent edits to different
+// fields of the same layer both survive; edits to the same field resolve the same way everywhere,
+// so peers converge whatever order operations arrive in. The relay (server/collab-relay.mjs) merges
+// entries with the same rule.
+
+/** [counter, clientId]: higher counters win; the client id breaks ties. */
+export type CollabClock = [number, string];
+
+export interface CollabOp {
+    key: string;
+    value: unknown;
+    clock: CollabClock;
+}
+
+export interface CollabDocument {
+    clientId: string;
+    counter: number;
+    entries: Map<string, CollabOp>;
+}
+
+/** A change to one entry, as recorded for undo. */
+export interface CollabChange {
+    key: string;
+    before: unknown;
+    after: unknown;
+}
+
+const ORDER_KEY = 'order';
+const SETTINGS_KEY = 'settings';
+const LAYER_PREFIX = 'layer/';
+// Deleting a layer tombstones it rather than removing its fields, so a late edit can't bring it back half-made.
+const DELETED_FIELD = '$deleted';
+
+const layerKey = (id: string, field: string) => `${LAYER_PREFIX}${id}/${field}`;
+
+const parseLayerKey = (key: string): { id: string; field: string } | null => {
+    if (!key.startsWith(LAYER_PREFIX)) return null;
+    const rest = key.slice(LAYER_PREFIX.length);
+    const slash = rest.indexOf('/');
+    return slash > 0 ? { id: rest.slice(0, slash), field: rest.slice(slash + 1) } : null;
+};
+
+const compareClocks = (a: CollabClock, b: CollabClock) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+// Fields that are missing and fields set to undefined are the same thing; JSON carries neither, so both become null.
+const toWire = (value: unknown) => value === undefined ? null : value;
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(toWire(a)) === JSON.stringify(toWire(b));
+
+const isLayerField = (layer: Layer, field: string): field is keyof Layer => field in layer;
+const getLayerField = (layer: Layer | undefined, field: string): unknown => layer && isLayerField(layer, field) ? layer[field] : undefined;
+
+export const createCollabDocument = (clientId: string): CollabDocument => ({ clientId, counter: 0, entries: new Map() });
+
+export const createOp = (doc: CollabDocument, key: string, value: unknown): CollabOp => {
+    doc.counter += 1;
+    return { key, value: toWire(value), clock: [doc.counter, doc.clientId] };
+};
+
+/**
+ * Merges operations into the document. Returns whether anything changed.
+ */
+export const applyOps = (doc: CollabDocument, ops: CollabOp[]): boolean => {
+    let changed = false;
+    ops.forEach(op => {
+        doc.counter = Math.max(doc.counter, op.clock[0]);
+        const current = doc.entries.get(op.key);
+        if (!current || compareClocks(op.clock, current.clock) > 0) {
+            doc.entries.set(op.key, op);
+            changed = true;
+        }
+    });
+    return changed;
+};
+
+export const getEntryValue = (doc: CollabDocument, key: string): unknown => doc.entries.get(key)?.value ?? null;
+
+/**
+ * The layers the document describes, in paint order. Layers missing from the stored order (added by
+ * someone whose reordering lost to another) go on top.
+ */
+export const materializeLayers = (doc: CollabDocument): Layer[] => {
+    const fieldsById = new Map<string, Record<string, unknown>>();
+    doc.entries.forEach((op, key) => {
+        const parsed = parseLayerKey(key);
+        if (!parsed) return;
+        const fields = fieldsById.get(parsed.id) || {};
+        if (op.value !== null) fields[parsed.field] = op.value;
+        fieldsById.set(parsed.id, fields);
+    });
+    const layers: Layer[] = [];
+    fieldsById.forEach((fields, id) => {
+        if (fields[DELETED_FIELD] === true || !fields.type) return;
+        const { [DELETED_FIELD]: _, ...layer } = fields;
+        layers.push({ ...layer, id } as Layer);
+    });
+    const order = (getEntryValue(doc, ORDER_KEY) as string[] | null) || [];
+    const rank = new Map(order.map((id, index) => [id, index]));
+    const unranked = layers.filter(l => !rank.has(l.id));
+    const ranked = layers.filter(l => rank.has(l.id)).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+    return normalizeLayers([...unranked, ...ranked]);
+};
+
+export const materializeSettings = (doc: CollabDocument): CanvasSettings | null =>
+    getEntryValue(doc, SETTINGS_KEY) as CanvasSettings | null;
+
+/**
+ * The entry changes that turn one list of layers into another.
+ */
+export const diffLayers = (before: Layer[], after: Layer[]): CollabChange[] => {
+    const changes: CollabChange[] = [];
+    const beforeById = new Map(before.map(l => [l.id, l]));
+    const afterIds = new Set(after.map(l => l.id));
+    after.forEach(layer => {
+        const previous = beforeById.get(layer.id);
+        if (!previous) changes.push({ key: layerKey(layer.id, DELETED_FIELD), before: null, after: false });
+        const fields = new Set([...Object.keys(layer), ...Object.keys(previous || {})]);
+        fields.delete('id');
+        fields.forEach(field => {
+            const oldValue = getLayerField(previous, field);
+            const newValue = getLayerField(layer, field);
+            if (!isEqual(oldValue, newValue)) changes.push({ key: layerKey(layer.id, field), before: toWire(oldValue), after: toWire(newValue) });
+        });
+    });
+    before.forEach(layer => {
+        if (!afterIds.has(layer.id)) changes.push({ key: layerKey(layer.id, DELETED_FIELD), before: false, after: true });
+    });
+    const beforeOrder = before.map(l => l.id), afterOrder = after.map(l => l.id);
+    if (!isEqual(beforeOrder, afterOrder)) changes.push({ key: ORDER_KEY, before: beforeOrder, after: afterOrder });
+    return changes;
+};
+
+export const diffSettings = (before: CanvasSettings | null, after: CanvasSettings): CollabChange[] =>
+    isEqual(before, after) ? [] : [{ key: SETTINGS_KEY, before, after }];
+
+/**
+ * Folds new changes into an undo step, keeping each entry's earliest `before` and latest `after`.
+ */
+export const mergeChanges = (step: CollabChange[], changes: CollabChange[]): CollabChange[] => {
+    const byKey = new Map(step.map(change => [change.key, change]));
+    changes.forEach(change => {
+        const existing = byKey.get(change.key);
+        byKey.set(change.key, existing ? { ...existing, after: change.after } : change);
+    });
+    return Array.from(byKey.values()).filter(change => !isEqual(change.before, change.after));
+};
+
+/**
+ * Puts ids back in the order `target` has them, keeping ids that only exist in `current` (other
+ * people's new layers) next to the layer they sit above now.
+ */
+const mergeOrder = (target: string[], current: string[]): string[] => {
+    const currentIds = new Set(current);
+    const result = target.filter(id => currentIds.has(id));
+    const placed = new Set(result);
+    current.forEach((id, index) => {
+        if (placed.has(id)) return;
+        const below = current.slice(index + 1).find(other => placed.has(other));
+        const at = below ? result.indexOf(below) : result.length;
+        result.splice(at, 0, id);
+        placed.add(id);
+    });
+    return result;
+};
+
+/**
+ * Reverts an undo step (or, with the step inverted, redoes it). Entries somebody else has changed since
+ * are left alone, so undo only takes back this user's own edits. Returns the operations to apply and
+ * send, and the step that reverses what was done.
+ */
+export const revertChanges = (doc: CollabDocument, step: CollabChange[]): { ops: CollabOp[]; inverse: CollabChange[] } => {
+    const ops: CollabOp[] = [];
+    const inverse: CollabChange[] = [];
+    step.forEach(change => {
+        const current = getEntryValue(doc, change.key);
+        let target = change.before;
+        if (change.key === ORDER_KEY) {
+            target = mergeOrder((change.before as string[] | null) || [], (current as string[] | null) || []);
+        } else if (!isEqual(current, change.after)) {
+            return;
+        }
+        ops.push(createOp(doc, change.key, target));
+        inverse.push({ key: change.key, before: current, after: target });
+    });
+    applyOps(doc, ops);
+    return { ops, inverse };
+};
+
+export const changesToOps = (doc: CollabDocument, changes: CollabChange[]): CollabOp[] => {
+    const ops = changes.map(change => createOp(doc, change.key, change.after));
+    applyOps(doc, ops);
+    return ops;
+};
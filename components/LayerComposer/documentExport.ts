@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, type CustomFont, getBoundingBoxForLayers } from './LayerComposer.types';
+import { getChildLayers, getClippingBase, getLayersWithDescendants, getLayerDisplayName } from './layerTree';
+import { captureCanvas, renderLayerForExport, hasActiveMask } from './layerRendering';
+import { vectorLayerToSvg, layerBoxTransform, escapeXml, fmt } from './vectorPaths';
+import { textLayerToSvg, getTextSegments } from './richText';
+import { createZip, type ZipEntry } from '../../lib/zip';
+
+// Whole-document exports: SVG, which keeps text live and shapes as vectors, and OpenRaster (.ora), a
+// layered format Krita, GIMP and MyPaint open that keeps names, order, opacity, blend modes and
+// visibility. Both walk the layer tree, so groups come out as <g> elements and nested stacks.
+
+export type DocumentExportFormat = 'png' | 'svg' | 'ora';
+
+export type ExportRegion =
+    | { type: 'canvas' }
+    | { type: 'content' }
+    | { type: 'selection' }
+    | { type: 'artboard'; id: string };
+
+const toPixelRect = (rect: Rect | null): Rect | null => {
+    if (!rect) return null;
+    const x = Math.floor(rect.x), y = Math.floor(rect.y);
+    const width = Math.ceil(rect.x + rect.width) - x, height = Math.ceil(rect.y + rect.height) - y;
+    return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+/**
+ * The area of the document an export covers, in whole canvas pixels. Null when the region is empty.
+ */
+export const getExportBounds = (layers: Layer[], region: ExportRegion, canvasSize: { width: number; height: number }, selectedLayerIds: string[]): Rect | null => {
+    switch (region.type) {
+        case 'canvas': return { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height };
+        case 'content': return toPixelRect(getBoundingBoxForLayers(layers.filter(l => l.isVisible && l.type !== 'group')));
+        case 'selection': return toPixelRect(getBoundingBoxForLayers(getLayersWithDescendants(layers, selectedLayerIds).filter(l => l.type !== 'group')));
+        case 'artboard': {
+            const artboard = layers.find(l => l.id === region.id && l.type === 'artboard');
+            return artboard ? toPixelRect(getBoundingBoxForLayers([artboard])) : null;
+        }
+    }
+};
+
+/**
+ * Cuts a canvas down to its non-transparent pixels. Null when there are none.
+ */
+const trimCanvas = (canvas: HTMLCanvasElement): { canvas: HTMLCanvasElement; x: number; y: number } | null => {
+    const ctx = canvas.getContext('2d')!;
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    const trimmed = document.createElement('canvas');
+    trimmed.width = maxX - minX + 1;
+    trimmed.height = maxY - minY + 1;
+    trimmed.getContext('2d')!.drawImage(canvas, -minX, -minY);
+    return { canvas: trimmed, x: minX, y: minY };
+};
+
+const canvasToPngBytes = (canvas: HTMLCanvasElement) => new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => {
+        if (!blob) { reject(new Error("Could not encode layer as PNG")); return; }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+});
+
+const dataUrlToBytes = (dataUrl: string) => Uint8Array.from(atob(dataUrl.split(',')[1] || ''), c => c.charCodeAt(0));
+
+/**
+ * Images from the gallery may be object or remote URLs; the exported file needs them inline.
+ */
+const toDataUrl = async (url: string): Promise<string> => {
+    if (url.startsWith('data:')) return url;
+    try {
+        const blob = await (await fetch(url)).blob();
+        return await new Promise<string>((resolve, reject) => { const reader = new FileReader(); reader.onloadend = () => { if (typeof reader.result === 'string') resolve(reader.result); else reject(new Error('Failed to read image')); }; reader.onerror = reject; reader.readAsDataURL(blob); });
+    } catch {
+        return url;
+    }
+};
+
+// --- SVG ---
+
+/**
+ * Writes the layers into a standalone SVG document covering `bounds`. Text stays live text and shapes and
+ * paths stay vectors; images are embedded. Masks and clipping become SVG alpha masks, and adjustment layers,
+ * which have no vector form, are embedded as the pixels they produce. Hidden layers are kept, but not displayed.
+ */
+export const buildDocumentSvg = async (layers: Layer[], bounds: Rect, background: string | null, fonts: CustomFont[] = []): Promise<string> => {
+    const defs: string[] = [];
+    const clipMasks = new Set<string>();
+
+    const maskedContent = (layer: Layer, id: string, content: string) => {
+        if (!hasActiveMask(layer)) return content;
+        const { url, shape } = layer.mask!;
+        const maskDef = (suffix: string, body: string) =>
+            `<mask id="${id}-${suffix}" mask-type="alpha" maskUnits="userSpaceOnUse" x="0" y="0" width="${fmt(layer.width)}" height="${fmt(layer.height)}">${body}</mask>`;
+        if (url) {
+            defs.push(maskDef('mask', `<image href="${escapeXml(url)}" width="${fmt(layer.width)}" height="${fmt(layer.height)}" preserveAspectRatio="none"/>`));
+            content = `<g mask="url(#${id}-mask)">${content}</g>`;
+        }
+        if (shape) {
+            const x = shape.x * layer.width, y = shape.y * layer.height, w = shape.width * layer.width, h = shape.height * layer.height;
+            const body = shape.type === 'ellipse'
+                ? `<ellipse cx="${fmt(x + w / 2)}" cy="${fmt(y + h / 2)}" rx="${fmt(w / 2)}" ry="${fmt(h / 2)}"/>`
+                : `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}" rx="${fmt(Math.min((shape.borderRadius || 0) * Math.min(w, h), w / 2, h / 2))}"/>`;
+            defs.push(maskDef('shape-mask', body));
+            content = `<g mask="url(#${id}-shape-mask)">${content}</g>`;
+        }
+        return content;
+    };
+
+    const layerToSvg = async (layer: Layer): Promise<string> => {
+        const id = `layer-${layer.id}`;
+        let content = '';
+        if (layer.type === 'group') {
+            content = await childrenToSvg(layer.id);
+        } else if (layer.type === 'adjustment') {
+            const trimmed = trimCanvas(await renderLayerForExport(layers, layer, bounds));
+            if (trimmed) content = `<image x="${trimmed.x}" y="${trimmed.y}" width="${trimmed.canvas.width}" height="${trimmed.canvas.height}" href="${trimmed.canvas.toDataURL('image/png')}"/>`;
+        } else {
+            let local = '';
+            if (layer.type === 'image' && layer.url) {
+                local = `<image width="${fmt(layer.width)}" height="${fmt(layer.height)}" preserveAspectRatio="none" href="${escapeXml(await toDataUrl(layer.url))}"/>`;
+            } else if (layer.type === 'text' && layer.text) {
+                local = textLayerToSvg(layer, id, defs);
+            } else if (layer.type === 'shape' || layer.type === 'path') {
+                local = vectorLayerToSvg(layer, id, defs);
+            } else if (layer.type === 'artboard') {
+                local = `<rect width="${fmt(layer.width)}" height="${fmt(layer.height)}" fill="${escapeXml(layer.fillColor || '#FFFFFF')}"/>`;
+            }
+            content = `<g transform="${layerBoxTransform(layer, bounds)}">${maskedContent(layer, id, local)}</g>`;
+        }
+
+        const styles: string[] = [];
+        if (layer.blendMode !== 'source-over') styles.push(`mix-blend-mode:${layer.blendMode}`);
+        if (layer.type === 'group') styles.push('isolation:isolate');
+        let attributes = ` id="${id}" inkscape:label="${escapeXml(getLayerDisplayName(layer))}"`;
+        if (layer.opacity < 100) attributes += ` opacity="${layer.opacity / 100}"`;
+        if (styles.length) attributes += ` style="${styles.join(';')}"`;
+        if (!layer.isVisible) attributes += ' display="none"';
+        // Adjustment pixels are already cut to their clipping base by renderLayerForExport.
+        const base = layer.clipToBelow && layer.type !== 'adjustment' ? getClippingBase(layers, layer) : null;
+        if (base) {
+            clipMasks.add(base.id);
+            attributes += ` mask="url(#clip-${base.id})"`;
+        }
+        return `<g${attributes}>${content}</g>`;
+    };
+
+    const childrenToSvg = async (parentId: string | undefined): Promise<string> => {
+        const parts: string[] = [];
+        // SVG paints in document order, the reverse of the layer stack.
+        for (const child of [...getChildLayers(layers, parentId)].reverse()) parts.push(await layerToSvg(child));
+        return parts.join('');
+    };
+
+    const body = await childrenToSvg(undefined);
+    clipMasks.forEach(baseId => defs.push(
+        `<mask id="clip-${baseId}" mask-type="alpha" maskUnits="userSpaceOnUse" x="0" y="0" width="${bounds.width}" height="${bounds.height}"><use href="#layer-${baseId}"/></mask>`
+    ));
+    const usedFamilies = new Set(layers.filter(l => l.type === 'text').flatMap(l => getTextSegments(l).map(segment => segment.style.fontFamily)));
+    const fontFaces = fonts.filter(font => usedFamilies.has(font.family))
+        .map(font => `@font-face{font-family:"${escapeXml(font.family)}";src:url(${font.url})}`).join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${bounds.width}" height="${bounds.height}" viewBox="0 0 ${bounds.width} ${bounds.height}">`
+        + (fontFaces ? `<style>${fontFaces}</style>` : '')
+        + (defs.length ? `<defs>${defs.join('')}</defs>` : '')
+        + (background ? `<rect width="${bounds.width}" height="${bounds.height}" fill="${escapeXml(background)}"/>` : '')
+        + body
+        + '</svg>';
+};
+
+// --- OpenRaster ---
+
+const toCompositeOp = (blendMode: Layer['blendMode']) => blendMode === 'source-over' ? 'svg:src-over' : `svg:${blendMode}`;
+
+/**
+ * Writes the layers into an OpenRaster archive covering `bounds`. Every layer is stored as a PNG trimmed to
+ * its pixels, with masks and clipping applied; groups become nested stacks.
+ */
+export const buildOpenRasterArchive = async (layers: Layer[], bounds: Rect, background: string | null): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [{ name: 'mimetype', data: encoder.encode('image/openraster') }];
+    let pngCount = 0;
+    const addPng = async (canvas: HTMLCanvasElement) => {
+        const name = `data/layer${pngCount++}.png`;
+        entries.push({ name, data: await canvasToPngBytes(canvas) });
+        return name;
+    };
+
+    const layerToXml = async (layer: Layer): Promise<string> => {
+        const attributes = `name="${escapeXml(getLayerDisplayName(layer))}" opacity="${layer.opacity / 100}" visibility="${layer.isVisible ? 'visible' : 'hidden'}" composite-op="${toCompositeOp(layer.blendMode)}"`;
+        if (layer.type === 'group') {
+            return `<stack ${attributes} isolation="isolate">${await childrenToXml(layer.id)}</stack>`;
+        }
+        const trimmed = trimCanvas(await renderLayerForExport(layers, layer, bounds));
+        const canvas = trimmed?.canvas ?? Object.assign(document.createElement('canvas'), { width: 1, height: 1 });
+        return `<layer ${attributes} src="${await addPng(canvas)}" x="${trimmed?.x ?? 0}" y="${trimmed?.y ?? 0}"/>`;
+    };
+
+    const childrenToXml = async (parentId: string | undefined): Promise<string> => {
+        const parts: string[] = [];
+        // Like the layer stack, a stack lists its topmost child first.
+        for (const child of getChildLayers(layers, parentId)) parts.push(await layerToXml(child));
+        return parts.join('');
+    };
+
+    let stack = await childrenToXml(undefined);
+    if (background) {
+        const fill = Object.assign(document.createElement('canvas'), { width: bounds.width, height: bounds.height });
+        const ctx = fill.getContext('2d')!;
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, bounds.width, bounds.height);
+        stack += `<layer name="Background" opacity="1" visibility="visible" composite-op="svg:src-over" src="${await addPng(fill)}" x="0" y="0"/>`;
+    }
+    entries.push({
+        name: 'stack.xml',
+        data: encoder.encode(`<?xml version="1.0" encoding="UTF-8"?><image version="0.0.5" w="${bounds.width}" h="${bounds.height}"><stack>${stack}</stack></image>`),
+    });
+
+    const merged = await captureCanvas(layers, bounds, background);
+    entries.push({ name: 'mergedimage.png', data: dataUrlToBytes(merged) });
+    const mergedImage = new Image();
+    await new Promise((resolve, reject) => { mergedImage.onload = resolve; mergedImage.onerror = reject; mergedImage.src = merged; });
+    const thumbnailScale = Math.min(1, 256 / Math.max(bounds.width, bounds.height));
+    const thumbnail = Object.assign(document.createElement('canvas'), { width: Math.max(1, Math.round(bounds.width * thumbnailScale)), height: Math.max(1, Math.round(bounds.height * thumbnailScale)) });
+    thumbnail.getContext('2d')!.drawImage(mergedImage, 0, 0, thumbnail.width, thumbnail.height);
+    entries.push({ name: 'Thumbnails/thumbnail.png', data: await canvasToPngBytes(thumbnail) });
+
+    return createZip(entries, 'image/openraster');
+};
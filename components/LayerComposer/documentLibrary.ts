@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, type CanvasDocumentState, getBoundingBoxForLayers } from './LayerComposer.types';
+import { renderCanvasPreview } from './layerRendering';
+
+const THUMBNAIL_SIZE = 240;
+const DIFF_PREVIEW_SIZE = 480;
+// Channel differences below this are antialiasing and rounding, not edits.
+const DIFF_THRESHOLD = 24;
+const DIFF_HIGHLIGHT = [255, 0, 170];
+
+// Fields that change without the layer looking different.
+const IGNORED_DIFF_FIELDS = new Set(['id', 'isLocked']);
+
+const isLayerField = (layer: Layer, field: string): field is keyof Layer => field in layer;
+const getLayerField = (layer: Layer, field: string): unknown => isLayerField(layer, field) ? layer[field] : undefined;
+
+export interface LayerChanges {
+    added: Layer[];
+    removed: Layer[];
+    changed: { layer: Layer; fields: string[] }[];
+}
+
+export interface VisualDiff {
+    beforeUrl: string;
+    afterUrl: string;
+    diffUrl: string;
+    // The share of pixels that differ, 0-1.
+    changedRatio: number;
+}
+
+/**
+ * The area a document's previews show: the fixed canvas, or everything on an infinite one.
+ */
+const getDocumentBounds = (state: CanvasDocumentState): Rect | null => {
+    if (!state.isInfiniteCanvas) return { x: 0, y: 0, width: state.canvasSettings.width, height: state.canvasSettings.height };
+    return getBoundingBoxForLayers(state.layers.filter(l => l.isVisible && l.type !== 'adjustment'));
+};
+
+const unionRects = (a: Rect | null, b: Rect | null): Rect | null => {
+    if (!a || !b) return a || b;
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+const getBackground = (state: CanvasDocumentState) => state.isInfiniteCanvas ? null : state.canvasSettings.background;
+
+/**
+ * A small preview of the document for the library, or undefined when there is nothing to show.
+ */
+export const createDocumentThumbnail = async (state: CanvasDocumentState): Promise<string | undefined> => {
+    const bounds = getDocumentBounds(state);
+    if (!bounds || state.layers.length === 0) return undefined;
+    const canvas = await renderCanvasPreview(state.layers, bounds, getBackground(state), THUMBNAIL_SIZE);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Which layers were added, removed or edited between two versions of a document, and which of their
+ * fields changed.
+ */
+export const compareDocumentLayers = (before: Layer[], after: Layer[]): LayerChanges => {
+    const beforeById = new Map<string, Layer>(before.map(l => [l.id, l]));
+    const afterIds = new Set(after.map(l => l.id));
+    const changes: LayerChanges = { added: [], removed: before.filter(l => !afterIds.has(l.id)), changed: [] };
+    after.forEach(layer => {
+        const previous = beforeById.get(layer.id);
+        if (!previous) {
+            changes.added.push(layer);
+            return;
+        }
+        const fields = Array.from(new Set([...Object.keys(layer), ...Object.keys(previous)])).filter(field =>
+            !IGNORED_DIFF_FIELDS.has(field) && JSON.stringify(getLayerField(layer, field)) !== JSON.stringify(getLayerField(previous, field))
+        );
+        if (fields.length > 0) changes.changed.push({ layer, fields });
+    });
+    return changes;
+};
+
+/**
+ * Renders two versions of a document over the same area, plus an image of the second one faded out
+ * with the pixels that differ highlighted.
+ */
+export const renderVisualDiff = async (before: CanvasDocumentState, after: CanvasDocumentState): Promise<VisualDiff | null> => {
+    const bounds = unionRects(getDocumentBounds(before), getDocumentBounds(after));
+    if (!bounds) return null;
+    const beforeCanvas = await renderCanvasPreview(before.layers, bounds, getBackground(before), DIFF_PREVIEW_SIZE);
+    const afterCanvas = await renderCanvasPreview(after.layers, bounds, getBackground(after), DIFF_PREVIEW_SIZE);
+    const { width, height } = afterCanvas;
+    const beforeData = beforeCanvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+    const afterImage = afterCanvas.getContext('2d')!.getImageData(0, 0, width, height);
+    const afterData = afterImage.data;
+
+    const diffCanvas = document.createElement('canvas');
+    diffCanvas.width = width;
+    diffCanvas.height = height;
+    const diffCtx = diffCanvas.getContext('2d')!;
+    const diffImage = diffCtx.createImageData(width, height);
+    const diffData = diffImage.data;
+    let changedPixels = 0;
+    for (let i = 0; i < afterData.length; i += 4) {
+        const delta = Math.max(
+            Math.abs(afterData[i] - beforeData[i]), Math.abs(afterData[i + 1] - beforeData[i + 1]),
+            Math.abs(afterData[i + 2] - beforeData[i + 2]), Math.abs(afterData[i + 3] - beforeData[i + 3])
+        );
+        if (delta > DIFF_THRESHOLD) {
+            changedPixels++;
+            diffData.set([...DIFF_HIGHLIGHT, 255], i);
+        } else {
+            // Unchanged areas stay recognisable but step back: greyscale at low contrast.
+            const grey = (afterData[i] * 0.3 + afterData[i + 1] * 0.59 + afterData[i + 2] * 0.11) * 0.4 + 150;
+            diffData.set([grey, grey, grey, Math.max(afterData[i + 3], beforeData[i + 3]) * 0.6], i);
+        }
+    }
+    diffCtx.putImageData(diffImage, 0, 0);
+
+    return {
+        beforeUrl: beforeCanvas.toDataURL('image/png'),
+        afterUrl: afterCanvas.toDataURL('image/png'),
+        diffUrl: diffCanvas.toDataURL('image/png'),
+        changedRatio: changedPixels / (width * height),
+    };
+};
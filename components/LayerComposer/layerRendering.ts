@@ -0,0 +1,479 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, type LayerMask, type MaskShape } from './LayerComposer.types';
+import { getLayersWithDescendants, getClippingBase, getLayersBeneath } from './layerTree';
+import { applyPixelAdjustmentsToData } from '../ImageEditor/ImageEditor.utils';
+import { getLayerSubpaths, subpathsToSvgData, getDashArray, getArrowHeads, ringToSvgData, createCanvasGradient } from './vectorPaths';
+import { drawTextLayer, loadTextLayerFonts } from './richText';
+
+// Draws layers onto a 2D canvas for exports, merges, bakes and AI inputs. Masks, clipping and
+// adjustment layers are applied here at draw time, so the stored layers always keep their original pixels.
+
+const EXPORT_SCALE_FACTOR = 4;
+// Clip masks and adjustment previews are only used on screen and get stretched over the layer.
+const MAX_PREVIEW_SIZE = 1024;
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'Anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
+        img.src = url;
+    });
+};
+
+/**
+ * Loads every image the given layers need (their own pixels and their painted masks), keyed by URL.
+ */
+const loadLayerImages = async (layers: Layer[]): Promise<Map<string, HTMLImageElement>> => {
+    const urls = new Set<string>();
+    layers.forEach(layer => {
+        if (layer.type === 'image' && layer.url) urls.add(layer.url);
+        if (hasActiveMask(layer) && layer.mask?.url) urls.add(layer.mask.url);
+    });
+    const entries = await Promise.all(Array.from(urls).map(async url => [url, await loadImage(url)] as const));
+    return new Map(entries);
+};
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+    ctx.beginPath();
+    ctx.moveTo(x + r, y);
+    ctx.lineTo(x + width - r, y);
+    ctx.arcTo(x + width, y, x + width, y + r, r);
+    ctx.lineTo(x + width, y + height - r);
+    ctx.arcTo(x + width, y + height, x + width - r, y + height, r);
+    ctx.lineTo(x + r, y + height);
+    ctx.arcTo(x, y + height, x, y + height - r, r);
+    ctx.lineTo(x, y + r);
+    ctx.arcTo(x, y, x + r, y, r);
+    ctx.closePath();
+};
+
+const traceMaskShape = (ctx: CanvasRenderingContext2D, shape: MaskShape, width: number, height: number) => {
+    const x = shape.x * width, y = shape.y * height, w = shape.width * width, h = shape.height * height;
+    if (shape.type === 'ellipse') {
+        ctx.beginPath();
+        ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, 2 * Math.PI);
+    } else {
+        traceRoundedRect(ctx, x, y, w, h, (shape.borderRadius || 0) * Math.min(w, h));
+    }
+};
+
+export const hasActiveMask = (layer: Layer): boolean =>
+    !!layer.mask?.isEnabled && !!(layer.mask.url || layer.mask.shape);
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context for capture");
+    return { canvas, ctx };
+};
+
+/**
+ * A frame (see renderLayers) that maps a layer's rotated box onto a canvas of width × height.
+ */
+const layerBoxFrame = (layer: Layer, width: number, height: number) => (ctx: CanvasRenderingContext2D) => {
+    ctx.scale(width / layer.width, height / layer.height);
+    ctx.translate(layer.width / 2, layer.height / 2);
+    ctx.rotate(-layer.rotation * Math.PI / 180);
+    ctx.translate(-(layer.x + layer.width / 2), -(layer.y + layer.height / 2));
+};
+
+/**
+ * Draws a layer's own pixels in its local space, with the top-left corner at the origin and
+ * the box measured in layer units.
+ */
+const drawLayerContent = (ctx: CanvasRenderingContext2D, layer: Layer, images: Map<string, HTMLImageElement>) => {
+    if (layer.type === 'text' && layer.text) {
+        drawTextLayer(ctx, layer);
+    } else if (layer.type === 'image') {
+        const loadedImage = layer.url ? images.get(layer.url) : undefined;
+        if (loadedImage) {
+            ctx.drawImage(loadedImage, 0, 0, layer.width, layer.height);
+        }
+    } else if (layer.type === 'artboard') {
+        ctx.fillStyle = layer.fillColor || '#FFFFFF';
+        ctx.fillRect(0, 0, layer.width, layer.height);
+    } else if (layer.type === 'shape') {
+        ctx.fillStyle = layer.fillGradient ? createCanvasGradient(ctx, layer.fillGradient, layer.width, layer.height) : (layer.fillColor || '#FFFFFF');
+        if (layer.shapeType === 'ellipse') {
+            ctx.beginPath();
+            ctx.ellipse(layer.width / 2, layer.height / 2, layer.width / 2, layer.height / 2, 0, 0, 2 * Math.PI);
+        } else {
+            traceRoundedRect(ctx, 0, 0, layer.width, layer.height, layer.borderRadius || 0);
+        }
+        ctx.fill();
+    } else if (layer.type === 'path' && layer.path) {
+        const subpaths = getLayerSubpaths(layer);
+        const path = new Path2D(subpathsToSvgData(subpaths));
+        if (layer.fillColor && layer.fillColor !== 'none') {
+            ctx.fillStyle = layer.fillGradient ? createCanvasGradient(ctx, layer.fillGradient, layer.width, layer.height) : layer.fillColor;
+            ctx.fill(path, layer.path.fillRule || 'nonzero');
+        }
+        const stroke = layer.stroke;
+        if (stroke && stroke.width > 0) {
+            ctx.save();
+            ctx.strokeStyle = stroke.color;
+            ctx.lineWidth = stroke.width;
+            ctx.lineCap = stroke.lineCap;
+            ctx.lineJoin = 'round';
+            ctx.setLineDash(getDashArray(stroke));
+            ctx.stroke(path);
+            ctx.fillStyle = stroke.color;
+            getArrowHeads(subpaths, stroke).forEach(head => ctx.fill(new Path2D(ringToSvgData(head))));
+            ctx.restore();
+        }
+    }
+};
+
+/**
+ * Cuts what has been drawn on a canvas of width × height down to a layer mask.
+ */
+const applyMask = (ctx: CanvasRenderingContext2D, mask: LayerMask, images: Map<string, HTMLImageElement>, width: number, height: number) => {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    const maskImage = mask.url ? images.get(mask.url) : undefined;
+    if (maskImage) {
+        ctx.drawImage(maskImage, 0, 0, width, height);
+    }
+    if (mask.shape) {
+        traceMaskShape(ctx, mask.shape, width, height);
+        ctx.fillStyle = '#000000';
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws into a layer's rotated box, with the box's top-left corner at the origin, and cuts the result
+ * down to the layer's mask.
+ */
+const drawInLayerBox = (ctx: CanvasRenderingContext2D, layer: Layer, images: Map<string, HTMLImageElement>, draw: (ctx: CanvasRenderingContext2D) => void) => {
+    ctx.save();
+    ctx.translate(layer.x + layer.width / 2, layer.y + layer.height / 2);
+    ctx.rotate(layer.rotation * Math.PI / 180);
+    ctx.translate(-layer.width / 2, -layer.height / 2);
+    if (hasActiveMask(layer) && layer.width > 0 && layer.height > 0) {
+        const local = document.createElement('canvas');
+        local.width = Math.max(1, Math.ceil(layer.width));
+        local.height = Math.max(1, Math.ceil(layer.height));
+        const localCtx = local.getContext('2d');
+        if (localCtx) {
+            localCtx.scale(local.width / layer.width, local.height / layer.height);
+            draw(localCtx);
+            applyMask(localCtx, layer.mask!, images, local.width, local.height);
+            ctx.drawImage(local, 0, 0, layer.width, layer.height);
+        }
+    } else {
+        draw(ctx);
+    }
+    ctx.restore();
+};
+
+/**
+ * Runs an adjustment layer over what has already been drawn on a canvas. The ImageEditor's pixel
+ * pipeline is applied to the whole canvas and blended back in through the layer's box and mask and,
+ * for clipped adjustments, the alpha of the clipping base.
+ */
+const applyAdjustmentLayer = (ctx: CanvasRenderingContext2D, layer: Layer, images: Map<string, HTMLImageElement>, clipBase?: HTMLCanvasElement | null) => {
+    const adjustments = layer.adjustments;
+    if (!adjustments || layer.width <= 0 || layer.height <= 0) return;
+    const { width, height } = ctx.canvas;
+    const frame = ctx.getTransform();
+
+    const region = createCanvas(width, height);
+    region.ctx.setTransform(frame);
+    drawInLayerBox(region.ctx, layer, images, regionCtx => {
+        regionCtx.fillStyle = '#ffffff';
+        regionCtx.fillRect(0, 0, layer.width, layer.height);
+    });
+    if (clipBase) {
+        region.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        region.ctx.globalCompositeOperation = 'destination-in';
+        region.ctx.drawImage(clipBase, 0, 0);
+    }
+
+    let adjusted = createCanvas(width, height);
+    adjusted.ctx.drawImage(ctx.canvas, 0, 0);
+    const imageData = adjusted.ctx.getImageData(0, 0, width, height);
+    applyPixelAdjustmentsToData(imageData.data, new Uint8ClampedArray(imageData.data), adjustments);
+    adjusted.ctx.putImageData(imageData, 0, 0);
+    if (adjustments.blur > 0) {
+        const blurred = createCanvas(width, height);
+        // The blur radius is in canvas pixels, so it follows the frame's scale.
+        blurred.ctx.filter = `blur(${adjustments.blur * Math.hypot(frame.a, frame.b)}px)`;
+        blurred.ctx.drawImage(adjusted.canvas, 0, 0);
+        adjusted = blurred;
+    }
+    adjusted.ctx.filter = 'none';
+    adjusted.ctx.globalCompositeOperation = 'destination-in';
+    adjusted.ctx.drawImage(region.canvas, 0, 0);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = layer.opacity / 100;
+    if (layer.blendMode === 'source-over') {
+        // Cross-fade: take out the covered pixels, then add the adjusted ones back in their place.
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.drawImage(region.canvas, 0, 0);
+        ctx.globalCompositeOperation = 'lighter';
+    } else {
+        ctx.globalCompositeOperation = layer.blendMode;
+    }
+    ctx.drawImage(adjusted.canvas, 0, 0);
+    ctx.restore();
+};
+
+/**
+ * Renders layers (in paint order, index 0 on top) onto a new canvas of width × height.
+ * `applyFrame` maps canvas coordinates onto the new canvas and is applied to every
+ * intermediate canvas too.
+ */
+const renderLayers = async (
+    layersToRender: Layer[],
+    width: number,
+    height: number,
+    applyFrame: (ctx: CanvasRenderingContext2D) => void
+): Promise<HTMLCanvasElement> => {
+    const images = await loadLayerImages(layersToRender);
+    await loadTextLayerFonts(layersToRender);
+
+    const createFrameCanvas = () => {
+        const frame = createCanvas(width, height);
+        applyFrame(frame.ctx);
+        return frame;
+    };
+
+    const compositeCanvas = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, blendMode: GlobalCompositeOperation, alpha = 1) => {
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = alpha;
+        ctx.globalCompositeOperation = blendMode;
+        ctx.drawImage(source, 0, 0);
+        ctx.restore();
+    };
+
+    const drawLeaf = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+        if (layer.type === 'adjustment') {
+            applyAdjustmentLayer(ctx, layer, images);
+            return;
+        }
+        ctx.save();
+        ctx.globalAlpha = layer.opacity / 100;
+        ctx.globalCompositeOperation = layer.blendMode;
+        drawInLayerBox(ctx, layer, images, localCtx => drawLayerContent(localCtx, layer, images));
+        ctx.restore();
+    };
+
+    // Groups are drawn onto a canvas of their own first, so their opacity and blend mode apply to the group as a whole.
+    const drawNode = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+        if (layer.type !== 'group') {
+            drawLeaf(ctx, layer);
+            return;
+        }
+        const group = createFrameCanvas();
+        drawChildren(group.ctx, layer.id);
+        compositeCanvas(ctx, group.canvas, layer.blendMode, layer.opacity / 100);
+    };
+
+    const renderedIds = new Set(layersToRender.map(l => l.id));
+    const drawChildren = (ctx: CanvasRenderingContext2D, parentId: string | undefined) => {
+        const children = layersToRender.filter(l => (l.parentId && renderedIds.has(l.parentId) ? l.parentId : undefined) === parentId);
+        // The layer that clipped layers are currently cut to. A hidden base hides them too; without a base they draw normally.
+        let clipBase: { canvas: HTMLCanvasElement | null; isHidden: boolean } | null = null;
+        for (let i = children.length - 1; i >= 0; i--) {
+            const layer = children[i];
+            if (!layer.clipToBelow || layer.type === 'artboard') {
+                clipBase = layer.type === 'artboard' ? null : { canvas: null, isHidden: !layer.isVisible };
+                if (!layer.isVisible) continue;
+                drawNode(ctx, layer);
+                if (clipBase && children[i - 1]?.clipToBelow) {
+                    const base = createFrameCanvas();
+                    drawNode(base.ctx, layer);
+                    clipBase.canvas = base.canvas;
+                }
+                continue;
+            }
+            if (!layer.isVisible || clipBase?.isHidden) continue;
+            if (layer.type === 'adjustment') {
+                applyAdjustmentLayer(ctx, layer, images, clipBase?.canvas);
+                continue;
+            }
+            if (!clipBase?.canvas) {
+                drawNode(ctx, layer);
+                continue;
+            }
+            const clipped = createFrameCanvas();
+            drawNode(clipped.ctx, layer);
+            compositeCanvas(clipped.ctx, clipBase.canvas, 'destination-in');
+            compositeCanvas(ctx, clipped.canvas, layer.blendMode);
+        }
+    };
+
+    const { canvas, ctx } = createFrameCanvas();
+    drawChildren(ctx, undefined);
+    return canvas;
+};
+
+export const captureCanvas = async (
+    layersToCapture: Layer[],
+    boundsToCapture: Rect,
+    backgroundColor: string | null
+): Promise<string> => {
+    const canvas = await renderLayers(layersToCapture, boundsToCapture.width, boundsToCapture.height, ctx => ctx.translate(-boundsToCapture.x, -boundsToCapture.y));
+    if (backgroundColor) {
+        const ctx = canvas.getContext('2d')!;
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+    }
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders an area of the canvas scaled down so its longer side is at most maxSize pixels, for thumbnails and previews.
+ */
+export const renderCanvasPreview = async (
+    layersToRender: Layer[],
+    bounds: Rect,
+    backgroundColor: string | null,
+    maxSize: number
+): Promise<HTMLCanvasElement> => {
+    const factor = Math.min(1, maxSize / Math.max(bounds.width, bounds.height, 1));
+    const canvas = await renderLayers(layersToRender, Math.max(1, Math.round(bounds.width * factor)), Math.max(1, Math.round(bounds.height * factor)), ctx => {
+        ctx.scale(factor, factor);
+        ctx.translate(-bounds.x, -bounds.y);
+    });
+    if (backgroundColor) {
+        const ctx = canvas.getContext('2d')!;
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+    }
+    return canvas;
+};
+
+/**
+ * Captures a single layer at full resolution: images at their natural size, text, shapes and paths scaled up.
+ * The layer's mask is applied; clipping is not, since it depends on the layers below. The given
+ * adjustment layers (in paint order, see getAdjustmentLayersAbove) are run over the result.
+ */
+export const captureLayer = async (layer: Layer, adjustmentLayers: Layer[] = []): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    const images = await loadLayerImages([layer, ...adjustmentLayers]);
+    await loadTextLayerFonts([layer]);
+    const img = (layer.type === 'image' && layer.url) ? images.get(layer.url) : undefined;
+    let captureWidth = layer.width;
+    let captureHeight = layer.height;
+    if (img) {
+        captureWidth = img.naturalWidth;
+        captureHeight = img.naturalHeight;
+    } else if (layer.type === 'text' || layer.type === 'shape' || layer.type === 'path') {
+        captureWidth = layer.width * EXPORT_SCALE_FACTOR;
+        captureHeight = layer.height * EXPORT_SCALE_FACTOR;
+    }
+
+    canvas.width = captureWidth;
+    canvas.height = captureHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get context for layer capture");
+
+    if (layer.width > 0 && layer.height > 0) {
+        ctx.scale(captureWidth / layer.width, captureHeight / layer.height);
+        drawLayerContent(ctx, layer, images);
+    }
+    if (hasActiveMask(layer)) {
+        applyMask(ctx, layer.mask!, images, captureWidth, captureHeight);
+    }
+    if (layer.width > 0 && layer.height > 0) {
+        [...adjustmentLayers].reverse().forEach(adjustmentLayer => {
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            layerBoxFrame(layer, captureWidth, captureHeight)(ctx);
+            applyAdjustmentLayer(ctx, adjustmentLayer, images);
+        });
+    }
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders one layer (with its children) onto a canvas covering `bounds`, as it composites into the document
+ * but before its own opacity and blend mode: masked, cut to its clipping base and drawn even when hidden.
+ * An adjustment layer comes out as what it makes of the layers beneath it, within its box and mask.
+ * The layered exports use this and store opacity, blend mode and visibility alongside.
+ */
+export const renderLayerForExport = async (layers: Layer[], layer: Layer, bounds: Rect): Promise<HTMLCanvasElement> => {
+    const frame = (ctx: CanvasRenderingContext2D) => ctx.translate(-bounds.x, -bounds.y);
+    const own = { ...layer, opacity: 100, blendMode: 'source-over' as const, clipToBelow: false, isVisible: true };
+    const cutTo = (canvas: HTMLCanvasElement, shape: HTMLCanvasElement) => {
+        const ctx = canvas.getContext('2d')!;
+        ctx.save();
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(shape, 0, 0);
+        ctx.restore();
+    };
+
+    let canvas: HTMLCanvasElement;
+    if (layer.type === 'adjustment') {
+        const beneath = getLayersBeneath(layers, layer).map(l => l.id === layer.id ? own : l);
+        canvas = await renderLayers(beneath, bounds.width, bounds.height, frame);
+        const region: Layer = { ...own, type: 'shape', shapeType: 'rectangle', fillColor: '#ffffff', fillGradient: undefined, borderRadius: 0, parentId: undefined };
+        cutTo(canvas, await renderLayers([region], bounds.width, bounds.height, frame));
+    } else {
+        const subtree = getLayersWithDescendants(layers, [layer.id]).map(l => l.id === layer.id ? { ...own, parentId: undefined } : l);
+        canvas = await renderLayers(subtree, bounds.width, bounds.height, frame);
+    }
+    const base = layer.clipToBelow ? getClippingBase(layers, layer) : null;
+    if (base) {
+        cutTo(canvas, await renderLayers(getLayersWithDescendants(layers, [base.id]), bounds.width, bounds.height, frame));
+    }
+    return canvas;
+};
+
+const getPreviewSize = (layer: Layer) => {
+    const scale = Math.min(1, MAX_PREVIEW_SIZE / Math.max(layer.width, layer.height));
+    return { width: Math.max(1, Math.ceil(layer.width * scale)), height: Math.max(1, Math.ceil(layer.height * scale)) };
+};
+
+/**
+ * Renders the alpha of a clipped layer's base in the clipped layer's own (rotated) box, combined
+ * with its painted mask. Used as a CSS mask for the on-screen preview; null when the layer isn't clipped.
+ */
+export const renderClipMask = async (layers: Layer[], target: Layer): Promise<string | null> => {
+    const base = target.clipToBelow ? getClippingBase(layers, target) : null;
+    if (!base || target.width <= 0 || target.height <= 0) return null;
+    const { width, height } = getPreviewSize(target);
+    const canvas = await renderLayers(getLayersWithDescendants(layers, [base.id]), width, height, layerBoxFrame(target, width, height));
+    if (hasActiveMask(target)) {
+        const images = await loadLayerImages([target]);
+        applyMask(canvas.getContext('2d')!, target.mask!, images, width, height);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders what an adjustment layer shows on screen: everything beneath it, adjusted, in its own (rotated)
+ * box. Its opacity, blend mode, mask and clipping are left out, since the preview gets those from CSS
+ * like any other layer.
+ */
+export const renderAdjustmentPreview = async (layers: Layer[], target: Layer): Promise<string | null> => {
+    if (target.type !== 'adjustment' || target.width <= 0 || target.height <= 0) return null;
+    const beneath = getLayersBeneath(layers, target).map(l => l.id === target.id
+        ? { ...l, opacity: 100, blendMode: 'source-over' as const, mask: undefined, clipToBelow: false }
+        : l);
+    const { width, height } = getPreviewSize(target);
+    const canvas = await renderLayers(beneath, width, height, layerBoxFrame(target, width, height));
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, getBoundingBoxForLayers } from './LayerComposer.types';
+
+// Groups are stored in the same flat `layers` array as everything else: a group is a layer of type
+// 'group', and its children point at it through `parentId`. The array stays in paint order (index 0
+// is the top), with each group followed directly by its descendants, so code that only cares about
+// leaf layers can keep iterating the array as before. Artboards always sit at the bottom of the stack.
+
+const newLayerId = () => Math.random().toString(36).substring(2, 9);
+
+const buildLayerMap = (layers: Layer[]) => new Map(layers.map(l => [l.id, l]));
+
+/**
+ * The name a layer goes by in the layer list and in layered exports.
+ */
+export const getLayerDisplayName = (layer: Layer): string => {
+    switch(layer.type) {
+        case 'image': return 'Image Layer';
+        case 'text': return layer.text || 'Text Layer';
+        case 'shape': return `${layer.shapeType === 'rectangle' ? 'Rectangle' : 'Ellipse'} Shape`;
+        case 'group': return layer.name || 'Group';
+        case 'artboard': return layer.name || 'Artboard';
+        case 'adjustment': return layer.name || 'Adjustment';
+        case 'path': return layer.name || 'Path';
+        default: return 'Layer';
+    }
+};
+
+/**
+ * Returns the ids of all ancestors of a layer, nearest first.
+ */
+export const getAncestorIds = (layers: Layer[], layer: Layer): string[] => {
+    const layerMap = buildLayerMap(layers);
+    const ancestors: string[] = [];
+    let parentId = layer.parentId;
+    while (parentId && !ancestors.includes(parentId)) {
+        const parent = layerMap.get(parentId);
+        if (!parent) break;
+        ancestors.push(parentId);
+        parentId = parent.parentId;
+    }
+    return ancestors;
+};
+
+/**
+ * Returns the outermost group containing a layer, or the layer itself when it's not in a group.
+ */
+export const getTopLevelLayer = (layers: Layer[], layer: Layer): Layer => {
+    const ancestors = getAncestorIds(layers, layer);
+    if (ancestors.length === 0) return layer;
+    return layers.find(l => l.id === ancestors[ancestors.length - 1]) || layer;
+};
+
+export const getChildLayers = (layers: Layer[], parentId?: string): Layer[] =>
+    layers.filter(l => (l.parentId || undefined) === parentId);
+
+/**
+ * Returns the given layers together with all of their descendants, in paint order.
+ */
+export const getLayersWithDescendants = (layers: Layer[], ids: string[]): Layer[] => {
+    const idSet = new Set(ids);
+    return layers.filter(l => idSet.has(l.id) || getAncestorIds(layers, l).some(id => idSet.has(id)));
+};
+
+/**
+ * The layers that actually move when the given layers are transformed: groups contribute their
+ * descendants instead of themselves, since a group's box always follows its children.
+ */
+export const getTransformTargets = (layers: Layer[], ids: string[]): Layer[] =>
+    getLayersWithDescendants(layers, ids).filter(l => l.type !== 'group');
+
+/**
+ * Turns a change to a group's box into updates for its descendants, which are moved and scaled
+ * so that they fill the new box.
+ */
+export const getGroupTransformUpdates = (layers: Layer[], group: Layer, box: Partial<Rect>): { id: string; props: Partial<Layer> }[] => {
+    const newX = box.x ?? group.x;
+    const newY = box.y ?? group.y;
+    const scaleX = group.width > 0 ? (box.width ?? group.width) / group.width : 1;
+    const scaleY = group.height > 0 ? (box.height ?? group.height) / group.height : 1;
+    return getTransformTargets(layers, [group.id]).map(child => ({
+        id: child.id,
+        props: {
+            x: newX + (child.x - group.x) * scaleX,
+            y: newY + (child.y - group.y) * scaleY,
+            width: child.width * scaleX,
+            height: child.height * scaleY,
+        },
+    }));
+};
+
+/**
+ * Returns the layer a clipped layer is clipped to: the nearest sibling below it that isn't clipped
+ * itself. Returns null when there is none (artboards never act as a base).
+ */
+export const getClippingBase = (layers: Layer[], layer: Layer): Layer | null => {
+    const siblings = getChildLayers(layers, layer.parentId || undefined);
+    for (let i = siblings.findIndex(l => l.id === layer.id) + 1; i > 0 && i < siblings.length; i++) {
+        if (!siblings[i].clipToBelow) return siblings[i].type === 'artboard' ? null : siblings[i];
+    }
+    return null;
+};
+
+/**
+ * Returns the layers painted beneath a layer, including the layer itself and the groups containing it,
+ * in paint order. Everything above it is left out.
+ */
+export const getLayersBeneath = (layers: Layer[], layer: Layer): Layer[] => {
+    const index = layers.findIndex(l => l.id === layer.id);
+    const ancestors = getAncestorIds(layers, layer);
+    return layers.filter((l, i) => i >= index || ancestors.includes(l.id));
+};
+
+/**
+ * Returns the visible adjustment layers that affect a layer, in paint order: those above it in its own
+ * group or in any group containing it. Clipped adjustments only count when the layer is (or is inside) their base.
+ */
+export const getAdjustmentLayersAbove = (layers: Layer[], layer: Layer): Layer[] => {
+    const index = layers.findIndex(l => l.id === layer.id);
+    const ancestors = getAncestorIds(layers, layer);
+    const scopes = new Set<string | undefined>([undefined, ...ancestors]);
+    return layers.filter((l, i) => {
+        if (i >= index || l.type !== 'adjustment' || !l.isVisible || !scopes.has(l.parentId || undefined)) return false;
+        if (!l.clipToBelow) return true;
+        const base = getClippingBase(layers, l);
+        return !!base && (base.id === layer.id || ancestors.includes(base.id));
+    });
+};
+
+export const isLayerLocked = (layers: Layer[], layer: Layer): boolean => {
+    if (layer.isLocked) return true;
+    const layerMap = buildLayerMap(layers);
+    return getAncestorIds(layers, layer).some(id => layerMap.get(id)?.isLocked);
+};
+
+/**
+ * Rebuilds the flat array from the parent/child relationships: drops dangling parent ids, keeps each
+ * group's descendants directly below it, moves artboards to the bottom, removes empty groups and
+ * updates every group's box to the bounds of its children.
+ */
+export const normalizeLayers = (layers: Layer[]): Layer[] => {
+    const layerMap = buildLayerMap(layers);
+    const validParent = (layer: Layer) => {
+        if (layer.type === 'artboard' || !layer.parentId) return undefined;
+        const parent = layerMap.get(layer.parentId);
+        return parent?.type === 'group' && parent.id !== layer.id ? parent.id : undefined;
+    };
+
+    const childrenByParent = new Map<string | undefined, Layer[]>();
+    layers.forEach(layer => {
+        const parentId = validParent(layer);
+        const siblings = childrenByParent.get(parentId) || [];
+        siblings.push(parentId === layer.parentId ? layer : { ...layer, parentId: undefined });
+        childrenByParent.set(parentId, siblings);
+    });
+
+    const visited = new Set<string>();
+    const flatten = (parentId: string | undefined): Layer[] => {
+        const result: Layer[] = [];
+        (childrenByParent.get(parentId) || []).forEach(layer => {
+            if (visited.has(layer.id)) return;
+            visited.add(layer.id);
+            if (layer.type !== 'group') {
+                result.push(layer);
+                return;
+            }
+            const descendants = flatten(layer.id);
+            const leaves = descendants.filter(l => l.type !== 'group');
+            if (leaves.length === 0) return; // Empty groups disappear, like in other editors.
+            const bounds = getBoundingBoxForLayers(leaves)!;
+            const group = (layer.x === bounds.x && layer.y === bounds.y && layer.width === bounds.width && layer.height === bounds.height && layer.rotation === 0)
+                ? layer
+                : { ...layer, ...bounds, rotation: 0 };
+            result.push(group, ...descendants);
+        });
+        return result;
+    };
+
+    const flat = flatten(undefined);
+    return [...flat.filter(l => l.type !== 'artboard'), ...flat.filter(l => l.type === 'artboard')];
+};
+
+/**
+ * Replaces the order of one parent's direct children and returns the rebuilt flat array.
+ */
+export const reorderChildLayers = (layers: Layer[], parentId: string | undefined, reorderedChildren: Layer[]): Layer[] => {
+    const order = new Map(reorderedChildren.map((l, index) => [l.id, index]));
+    const children = getChildLayers(layers, parentId).sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+    const rest = layers.filter(l => (l.parentId || undefined) !== parentId);
+    return normalizeLayers([...children, ...rest]);
+};
+
+/**
+ * Copies the given layers (and the descendants of any groups among them) with fresh ids.
+ * The copies keep the structure of the originals and are returned in paint order.
+ */
+export const cloneLayers = (layers: Layer[], ids: string[], offset: { x: number; y: number }): Layer[] => {
+    const toClone = getLayersWithDescendants(layers, ids);
+    const idMap = new Map(toClone.map(l => [l.id, newLayerId()]));
+    return toClone.map(layer => ({
+        ...layer,
+        id: idMap.get(layer.id)!,
+        parentId: layer.parentId ? (idMap.get(layer.parentId) ?? layer.parentId) : undefined,
+        x: layer.x + offset.x,
+        y: layer.y + offset.y,
+    }));
+};
+
+/**
+ * Wraps the given layers in a new group placed where the topmost of them was.
+ * Returns the new layers array and the id of the group.
+ */
+export const groupLayers = (layers: Layer[], ids: string[], name: string): { layers: Layer[]; groupId: string } | null => {
+    const roots = layers.filter(l => ids.includes(l.id) && l.type !== 'artboard' && !getAncestorIds(layers, l).some(id => ids.includes(id)));
+    if (roots.length === 0) return null;
+    const parentIds = new Set(roots.map(l => l.parentId || undefined));
+    const parentId = parentIds.size === 1 ? roots[0].parentId : undefined;
+    const group: Layer = {
+        id: newLayerId(), type: 'group', name, parentId,
+        x: 0, y: 0, width: 0, height: 0, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false,
+    };
+    const rootIds = new Set(roots.map(l => l.id));
+    const topmostIndex = layers.findIndex(l => rootIds.has(l.id));
+    const updated = layers.map(l => rootIds.has(l.id) ? { ...l, parentId: group.id } : l);
+    updated.splice(topmostIndex, 0, group);
+    return { layers: normalizeLayers(updated), groupId: group.id };
+};
+
+/**
+ * Dissolves a group, handing its children to the group's parent. The group's opacity is folded
+ * into each child so the result looks the same; its blend mode cannot be kept.
+ */
+export const ungroupLayer = (layers: Layer[], groupId: string): { layers: Layer[]; childIds: string[] } | null => {
+    const group = layers.find(l => l.id === groupId && l.type === 'group');
+    if (!group) return null;
+    const childIds = getChildLayers(layers, groupId).map(l => l.id);
+    const updated = layers
+        .filter(l => l.id !== groupId)
+        .map(l => l.parentId === groupId
+            ? { ...l, parentId: group.parentId, opacity: Math.round(l.opacity * group.opacity / 100), isVisible: l.isVisible && group.isVisible }
+            : l);
+    return { layers: normalizeLayers(updated), childIds };
+};
@@ -0,0 +1,429 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { type Layer, type TextRun, type TextRunStyle, type CustomFont, type Point } from './LayerComposer.types';
+import { scaleVectorPath, flattenSubpaths, createCanvasGradient, toCssGradient, subpathsToSvgData, gradientToSvg, escapeXml, fmt } from './vectorPaths';
+
+// A text layer's own font fields are its base style; `textRuns` restyle ranges of its text on top of
+// that. Both the DOM preview (LayerItem) and the canvas renderer (layerRendering.ts) split the text into
+// segments with getTextSegments, so runs resolve the same way in both.
+
+export type ResolvedTextStyle = Required<TextRunStyle>;
+export type TextSegment = { text: string; style: ResolvedTextStyle };
+
+const STYLE_KEYS: (keyof TextRunStyle)[] = ['fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'color', 'letterSpacing'];
+
+export const getBaseTextStyle = (layer: Layer): ResolvedTextStyle => ({
+    fontFamily: layer.fontFamily || 'Be Vietnam Pro',
+    fontSize: layer.fontSize || 50,
+    fontWeight: layer.fontWeight || '400',
+    fontStyle: layer.fontStyle || 'normal',
+    color: layer.color || '#000000',
+    letterSpacing: layer.letterSpacing || 0,
+});
+
+export const toCssFont = (style: ResolvedTextStyle) => `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px "${style.fontFamily}"`;
+
+const copyStyleValue = <K extends keyof TextRunStyle>(target: TextRunStyle, source: TextRunStyle, key: K) => {
+    if (source[key] !== undefined) target[key] = source[key];
+};
+
+const cleanStyle = (style: TextRunStyle): TextRunStyle => {
+    const result: TextRunStyle = {};
+    STYLE_KEYS.forEach(key => copyStyleValue(result, style, key));
+    return result;
+};
+
+const isSameStyle = (a: TextRunStyle, b: TextRunStyle) => STYLE_KEYS.every(key => a[key] === b[key]);
+
+/**
+ * Sorts runs, clamps them to the text, drops empty ones and merges neighbours with the same style.
+ */
+export const normalizeTextRuns = (runs: TextRun[], textLength: number): TextRun[] => {
+    const result: TextRun[] = [];
+    [...runs]
+        .map(run => ({ start: Math.max(0, run.start), end: Math.min(textLength, run.end), style: cleanStyle(run.style) }))
+        .filter(run => run.end > run.start && Object.keys(run.style).length > 0)
+        .sort((a, b) => a.start - b.start)
+        .forEach(run => {
+            const previous = result[result.length - 1];
+            if (previous && previous.end === run.start && isSameStyle(previous.style, run.style)) {
+                previous.end = run.end;
+            } else if (!previous || run.start >= previous.end) {
+                result.push(run);
+            }
+        });
+    return result;
+};
+
+/**
+ * Applies a style to the characters from start to end, on top of whatever runs already cover them.
+ */
+export const applyTextRunStyle = (runs: TextRun[] = [], start: number, end: number, style: TextRunStyle, textLength: number): TextRun[] => {
+    if (end <= start) return runs;
+    const result: TextRun[] = [];
+    runs.forEach(run => {
+        if (run.end <= start || run.start >= end) { result.push(run); return; }
+        if (run.start < start) result.push({ ...run, end: start });
+        result.push({ start: Math.max(run.start, start), end: Math.min(run.end, end), style: { ...run.style, ...style } });
+        if (run.end > end) result.push({ ...run, start: end });
+    });
+    // Parts of the range no run covered yet get a run of their own.
+    let position = start;
+    result.filter(run => run.start < end && run.end > start).sort((a, b) => a.start - b.start).forEach(run => {
+        if (run.start > position) result.push({ start: position, end: run.start, style: { ...style } });
+        position = Math.max(position, run.end);
+    });
+    if (position < end) result.push({ start: position, end, style: { ...style } });
+    return normalizeTextRuns(result, textLength);
+};
+
+/**
+ * Removes all run styling from the characters from start to end.
+ */
+export const clearTextRunStyles = (runs: TextRun[] = [], start: number, end: number, textLength: number): TextRun[] =>
+    normalizeTextRuns(runs.flatMap(run => {
+        if (run.end <= start || run.start >= end) return [run];
+        return [{ ...run, end: start }, { ...run, start: end }];
+    }), textLength);
+
+/**
+ * Moves runs along with an edit of the text. Typing at the end of a run extends it, like in other editors.
+ */
+export const adjustTextRunsForEdit = (runs: TextRun[] = [], oldText: string, newText: string): TextRun[] => {
+    let prefix = 0;
+    while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < oldText.length - prefix && suffix < newText.length - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) suffix++;
+    const delta = newText.length - oldText.length;
+    const mapOffset = (offset: number) => offset < prefix ? offset : Math.max(prefix, offset + delta);
+    return normalizeTextRuns(runs.map(run => ({ ...run, start: mapOffset(run.start), end: mapOffset(run.end) })), newText.length);
+};
+
+/**
+ * The resolved style of the character at an offset.
+ */
+export const getTextStyleAt = (layer: Layer, offset: number): ResolvedTextStyle => {
+    const run = (layer.textRuns || []).find(r => r.start <= offset && offset < r.end);
+    return { ...getBaseTextStyle(layer), ...(run ? cleanStyle(run.style) : {}) };
+};
+
+export const getTextSegments = (layer: Layer): TextSegment[] => {
+    const text = layer.text || '';
+    const base = getBaseTextStyle(layer);
+    const transform = (value: string) => layer.textTransform === 'uppercase' ? value.toUpperCase() : value;
+    const segments: TextSegment[] = [];
+    const push = (start: number, end: number, style: ResolvedTextStyle) => {
+        if (end > start) segments.push({ text: transform(text.slice(start, end)), style });
+    };
+    let position = 0;
+    normalizeTextRuns(layer.textRuns || [], text.length).forEach(run => {
+        push(position, run.start, base);
+        push(run.start, run.end, { ...base, ...run.style });
+        position = run.end;
+    });
+    push(position, text.length, base);
+    return segments;
+};
+
+// --- Fonts ---
+
+const registeredFonts = new Set<string>();
+
+/**
+ * Loads an uploaded font and adds it to the page (and so to canvas rendering). Throws if the file isn't a usable font.
+ */
+export const loadCustomFont = async (font: CustomFont) => {
+    const face = await new FontFace(font.family, `url(${font.url})`).load();
+    document.fonts.add(face);
+    registeredFonts.add(font.family);
+};
+
+/**
+ * Makes a canvas's saved fonts available. Fonts that are already loaded are skipped, so this is safe to call repeatedly.
+ */
+export const registerCustomFonts = async (fonts: CustomFont[] = []) => {
+    await Promise.all(fonts.filter(font => !registeredFonts.has(font.family)).map(font =>
+        loadCustomFont(font).catch(err => console.error(`Failed to load font "${font.family}":`, err))
+    ));
+};
+
+/**
+ * Waits for every font the given text layers use, so the canvas doesn't fall back to a default font.
+ */
+export const loadTextLayerFonts = async (layers: Layer[]) => {
+    if (!document.fonts) return;
+    const fonts = new Set<string>();
+    layers.filter(l => l.type === 'text').forEach(l => getTextSegments(l).forEach(segment => fonts.add(toCssFont(segment.style))));
+    await Promise.all(Array.from(fonts).map(font => document.fonts.load(font).catch(() => [])));
+};
+
+// --- DOM preview ---
+
+/**
+ * Outline, shadow and gradient of a text layer as CSS for the element holding its text.
+ */
+export const getTextEffectStyle = (layer: Layer): React.CSSProperties => {
+    const style: React.CSSProperties = {};
+    if (layer.textStroke && layer.textStroke.width > 0) {
+        style.WebkitTextStroke = `${layer.textStroke.width * 2}px ${layer.textStroke.color}`;
+        style.paintOrder = 'stroke fill';
+    }
+    if (layer.textShadow) {
+        const { offsetX, offsetY, blur, color } = layer.textShadow;
+        style.filter = `drop-shadow(${offsetX}px ${offsetY}px ${blur / 2}px ${color})`;
+    }
+    if (layer.fillGradient) {
+        style.backgroundImage = toCssGradient(layer.fillGradient);
+        style.WebkitBackgroundClip = 'text';
+        style.backgroundClip = 'text';
+        style.color = 'transparent';
+    }
+    return style;
+};
+
+// --- Canvas rendering ---
+
+type TextPainter = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, style: ResolvedTextStyle) => void;
+
+const setFont = (ctx: CanvasRenderingContext2D, style: ResolvedTextStyle) => {
+    ctx.font = toCssFont(style);
+    ctx.letterSpacing = `${style.letterSpacing}px`;
+};
+
+const measure = (ctx: CanvasRenderingContext2D, text: string, style: ResolvedTextStyle) => {
+    setFont(ctx, style);
+    return ctx.measureText(text).width;
+};
+
+type Piece = { text: string; style: ResolvedTextStyle; width: number };
+type Line = { pieces: Piece[]; width: number; style: ResolvedTextStyle };
+
+/**
+ * Wraps the segments into lines the way the preview's `white-space: pre-wrap` does: at spaces and
+ * newlines, with spaces hanging at the end of the line they follow.
+ */
+const layoutLines = (ctx: CanvasRenderingContext2D, segments: TextSegment[], maxWidth: number, baseStyle: ResolvedTextStyle): Line[] => {
+    const lines: Line[] = [];
+    let line: Line = { pieces: [], width: 0, style: baseStyle };
+    let word: Piece[] = [];
+    const hasContent = (l: Line) => l.pieces.some(piece => piece.text.trim() !== '');
+    const append = (piece: Piece) => {
+        if (line.pieces.length === 0) line.style = piece.style;
+        line.pieces.push(piece);
+        line.width += piece.width;
+    };
+    const flushWord = () => {
+        const width = word.reduce((sum, piece) => sum + piece.width, 0);
+        if (word.length > 0 && hasContent(line) && line.width + width > maxWidth) {
+            lines.push(line);
+            line = { pieces: [], width: 0, style: word[0].style };
+        }
+        word.forEach(append);
+        word = [];
+    };
+    segments.forEach(segment => segment.text.split(/(\n| +)/).forEach(token => {
+        if (!token) return;
+        if (token === '\n') {
+            flushWord();
+            lines.push(line);
+            line = { pieces: [], width: 0, style: segment.style };
+            return;
+        }
+        const piece = { text: token, style: segment.style, width: measure(ctx, token, segment.style) };
+        if (token.trim() === '') {
+            flushWord();
+            append(piece);
+        } else {
+            word.push(piece);
+        }
+    }));
+    flushWord();
+    lines.push(line);
+    return lines;
+};
+
+const getFontMetrics = (ctx: CanvasRenderingContext2D, style: ResolvedTextStyle) => {
+    setFont(ctx, style);
+    const metrics = ctx.measureText('Hg');
+    return {
+        ascent: metrics.fontBoundingBoxAscent ?? style.fontSize * 0.8,
+        descent: metrics.fontBoundingBoxDescent ?? style.fontSize * 0.2,
+    };
+};
+
+const paintBoxText = (ctx: CanvasRenderingContext2D, layer: Layer, paint: TextPainter) => {
+    const lineHeight = layer.lineHeight || 1.2;
+    const lines = layoutLines(ctx, getTextSegments(layer), layer.width, getBaseTextStyle(layer));
+    let top = 0;
+    lines.forEach(line => {
+        const styles = line.pieces.length > 0 ? line.pieces.map(piece => piece.style) : [line.style];
+        // Like CSS, the line is as tall as its largest text and the baseline sits in the middle of the leading.
+        const largest = styles.reduce((a, b) => b.fontSize > a.fontSize ? b : a);
+        const { ascent, descent } = getFontMetrics(ctx, largest);
+        const height = largest.fontSize * lineHeight;
+        const baseline = top + (height - (ascent + descent)) / 2 + ascent;
+        let trailingSpace = 0;
+        for (let i = line.pieces.length - 1; i >= 0 && line.pieces[i].text.trim() === ''; i--) trailingSpace += line.pieces[i].width;
+        const visibleWidth = line.width - trailingSpace;
+        let x = layer.textAlign === 'center' ? (layer.width - visibleWidth) / 2 : layer.textAlign === 'right' ? layer.width - visibleWidth : 0;
+        line.pieces.forEach(piece => {
+            setFont(ctx, piece.style);
+            paint(ctx, piece.text, x, baseline, piece.style);
+            x += piece.width;
+        });
+        top += height;
+    });
+};
+
+/**
+ * Sets each character on the text's path with its middle on the curve, turned to follow it, as SVG's
+ * <textPath> does. Characters that run off either end are left out.
+ */
+const paintTextOnPath = (ctx: CanvasRenderingContext2D, layer: Layer, paint: TextPainter) => {
+    const textPath = layer.textPath!;
+    const subpath = scaleVectorPath(textPath.path, layer.width, layer.height)[0];
+    if (!subpath) return;
+    const points = flattenSubpaths([subpath])[0];
+    if (subpath.closed && points.length > 1) points.push(points[0]);
+    const lengths = [0];
+    for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+    const totalLength = lengths[lengths.length - 1];
+    if (totalLength === 0) return;
+    const pointAt = (distance: number): { point: Point; angle: number } => {
+        let i = 1;
+        while (i < lengths.length - 1 && lengths[i] < distance) i++;
+        const a = points[i - 1], b = points[i];
+        const t = lengths[i] > lengths[i - 1] ? (distance - lengths[i - 1]) / (lengths[i] - lengths[i - 1]) : 0;
+        return { point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, angle: Math.atan2(b.y - a.y, b.x - a.x) };
+    };
+
+    const glyphs = getTextSegments(layer).flatMap(segment => Array.from(segment.text.replace(/\n/g, ' ')).map(char => ({
+        char, style: segment.style, advance: measure(ctx, char, segment.style),
+    })));
+    const textWidth = glyphs.reduce((sum, glyph) => sum + glyph.advance, 0);
+    const anchor = totalLength * textPath.startOffset / 100;
+    let position = anchor - textWidth * (layer.textAlign === 'center' ? 0.5 : layer.textAlign === 'right' ? 1 : 0);
+    glyphs.forEach(glyph => {
+        const middle = position + glyph.advance / 2;
+        position += glyph.advance;
+        if (middle < 0 || middle > totalLength || glyph.char === ' ') return;
+        const { point, angle } = pointAt(middle);
+        ctx.save();
+        ctx.translate(point.x, point.y);
+        ctx.rotate(angle);
+        setFont(ctx, glyph.style);
+        paint(ctx, glyph.char, -glyph.advance / 2, 0, glyph.style);
+        ctx.restore();
+    });
+};
+
+const createMatchingCanvas = (ctx: CanvasRenderingContext2D) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = ctx.canvas.width;
+    canvas.height = ctx.canvas.height;
+    const matchingCtx = canvas.getContext('2d');
+    if (!matchingCtx) throw new Error("Could not create canvas context for text");
+    matchingCtx.setTransform(ctx.getTransform());
+    return { canvas, ctx: matchingCtx };
+};
+
+/**
+ * Draws a text layer in its local space (top-left corner of the box at the origin). The text is drawn
+ * on a canvas of its own first, so its outline, fill and shadow blend with what's below as one.
+ */
+export const drawTextLayer = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+    const paintText = (target: CanvasRenderingContext2D, paint: TextPainter) => {
+        target.textAlign = 'left';
+        target.textBaseline = 'alphabetic';
+        if (layer.textPath) paintTextOnPath(target, layer, paint);
+        else paintBoxText(target, layer, paint);
+    };
+    const text = createMatchingCanvas(ctx);
+
+    const stroke = layer.textStroke;
+    if (stroke && stroke.width > 0) {
+        text.ctx.strokeStyle = stroke.color;
+        text.ctx.lineWidth = stroke.width * 2;
+        text.ctx.lineJoin = 'round';
+        paintText(text.ctx, (c, value, x, y) => c.strokeText(value, x, y));
+    }
+    if (layer.fillGradient) {
+        // A gradient spans the whole box, so the characters are drawn first and then filled with it.
+        const fills = createMatchingCanvas(ctx);
+        paintText(fills.ctx, (c, value, x, y) => c.fillText(value, x, y));
+        fills.ctx.globalCompositeOperation = 'source-in';
+        fills.ctx.fillStyle = createCanvasGradient(fills.ctx, layer.fillGradient, layer.width, layer.height);
+        fills.ctx.fillRect(-layer.width, -layer.height, layer.width * 3, layer.height * 3);
+        text.ctx.save();
+        text.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        text.ctx.drawImage(fills.canvas, 0, 0);
+        text.ctx.restore();
+    } else {
+        paintText(text.ctx, (c, value, x, y, style) => { c.fillStyle = style.color; c.fillText(value, x, y); });
+    }
+
+    ctx.save();
+    const shadow = layer.textShadow;
+    if (shadow) {
+        // Canvas shadows ignore the transform, so the offset and blur are mapped into device pixels here.
+        const m = ctx.getTransform();
+        ctx.shadowColor = shadow.color;
+        ctx.shadowOffsetX = m.a * shadow.offsetX + m.c * shadow.offsetY;
+        ctx.shadowOffsetY = m.b * shadow.offsetX + m.d * shadow.offsetY;
+        ctx.shadowBlur = shadow.blur * Math.hypot(m.a, m.b);
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(text.canvas, 0, 0);
+    ctx.restore();
+};
+
+// --- SVG export ---
+
+const tspanStyleAttributes = (style: ResolvedTextStyle, fill: string) =>
+    `font-family="${escapeXml(style.fontFamily)}" font-size="${fmt(style.fontSize)}" font-weight="${style.fontWeight}" font-style="${style.fontStyle}"`
+    + (style.letterSpacing ? ` letter-spacing="${fmt(style.letterSpacing)}"` : '')
+    + ` fill="${escapeXml(fill)}"`;
+
+/**
+ * SVG markup for a text layer in its box's units, kept as live text. Lines are broken where the canvas
+ * breaks them, each piece placed with its own <tspan>. Gradient and shadow definitions go into `defs`.
+ */
+export const textLayerToSvg = (layer: Layer, idPrefix: string, defs: string[]): string => {
+    let gradientFill: string | null = null;
+    if (layer.fillGradient) {
+        defs.push(gradientToSvg(layer.fillGradient, `${idPrefix}-gradient`, layer.width, layer.height));
+        gradientFill = `url(#${idPrefix}-gradient)`;
+    }
+    let attributes = ' xml:space="preserve"';
+    const stroke = layer.textStroke;
+    if (stroke && stroke.width > 0) {
+        attributes += ` stroke="${escapeXml(stroke.color)}" stroke-width="${fmt(stroke.width * 2)}" stroke-linejoin="round" paint-order="stroke"`;
+    }
+    const shadow = layer.textShadow;
+    if (shadow) {
+        // A canvas shadow's blur is about twice the standard deviation of the matching Gaussian.
+        defs.push(`<filter id="${idPrefix}-shadow" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="${fmt(shadow.offsetX)}" dy="${fmt(shadow.offsetY)}" stdDeviation="${fmt(shadow.blur / 2)}" flood-color="${escapeXml(shadow.color)}"/></filter>`);
+        attributes += ` filter="url(#${idPrefix}-shadow)"`;
+    }
+
+    if (layer.textPath) {
+        const subpath = scaleVectorPath(layer.textPath.path, layer.width, layer.height)[0];
+        if (!subpath) return '';
+        defs.push(`<path id="${idPrefix}-path" d="${subpathsToSvgData([subpath])}"/>`);
+        const anchor = layer.textAlign === 'center' ? 'middle' : layer.textAlign === 'right' ? 'end' : 'start';
+        const spans = getTextSegments(layer).map(segment =>
+            `<tspan ${tspanStyleAttributes(segment.style, gradientFill || segment.style.color)}>${escapeXml(segment.text.replace(/\n/g, ' '))}</tspan>`);
+        return `<text${attributes} text-anchor="${anchor}"><textPath href="#${idPrefix}-path" startOffset="${fmt(layer.textPath.startOffset)}%">${spans.join('')}</textPath></text>`;
+    }
+
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error("Could not create canvas context for text");
+    const spans: string[] = [];
+    paintBoxText(ctx, layer, (_, text, x, y, style) => {
+        spans.push(`<tspan x="${fmt(x)}" y="${fmt(y)}" ${tspanStyleAttributes(style, gradientFill || style.color)}>${escapeXml(text)}</tspan>`);
+    });
+    return `<text${attributes}>${spans.join('')}</text>`;
+};
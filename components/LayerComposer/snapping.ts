@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Rect, type Point, type Guide, type SpacingGuide, type UserGuide } from './LayerComposer.types';
+
+export const DEFAULT_NUDGE_STEP = 1;
+
+// A line the moving box can snap to: a canvas edge or centre, or a guide dragged out of a ruler.
+// start/end give the extent to draw it over; without them only the moving box's side is drawn.
+export type SnapLine = { axis: 'x' | 'y'; position: number; start?: number; end?: number };
+
+export interface SnapContext {
+    // The boxes of the other layers.
+    targets: Rect[];
+    lines: SnapLine[];
+    // Only while moving: resizing never keeps a gap equal.
+    snapToSpacing: boolean;
+}
+
+export interface SnapResult {
+    guides: Guide[];
+    spacingGuides: SpacingGuide[];
+    offset: Point;
+}
+
+// Along an axis: where a box starts and ends, and where it sits on the other axis.
+type Span = { start: number; end: number; crossStart: number; crossEnd: number };
+
+const toSpan = (rect: Rect, axis: 'x' | 'y'): Span => axis === 'x'
+    ? { start: rect.x, end: rect.x + rect.width, crossStart: rect.y, crossEnd: rect.y + rect.height }
+    : { start: rect.y, end: rect.y + rect.height, crossStart: rect.x, crossEnd: rect.x + rect.width };
+
+const getStops = (span: Span) => [span.start, (span.start + span.end) / 2, span.end];
+
+const crossOverlaps = (a: Span, b: Span) => a.crossStart < b.crossEnd && b.crossStart < a.crossEnd;
+
+// Where a gap's measurement line is drawn: across the middle of what the two boxes have in common.
+const crossMiddle = (a: Span, b: Span) => {
+    const start = Math.max(a.crossStart, b.crossStart), end = Math.min(a.crossEnd, b.crossEnd);
+    return start < end ? (start + end) / 2 : (a.crossStart + a.crossEnd) / 2;
+};
+
+/**
+ * The gaps between neighbouring boxes in the row (or column) the moving box is in, and the nearest box
+ * on either side of it.
+ */
+const getSpacingNeighbours = (moving: Span, targets: Span[], tolerance: number) => {
+    const row = targets.filter(t => crossOverlaps(t, moving) && t.end > t.start).sort((a, b) => a.start - b.start);
+    const gaps: { from: Span; to: Span; size: number }[] = [];
+    for (let i = 1; i < row.length; i++) {
+        const size = row[i].start - row[i - 1].end;
+        if (size > 0) gaps.push({ from: row[i - 1], to: row[i], size });
+    }
+    let before: Span | null = null, after: Span | null = null;
+    row.forEach(t => {
+        if (t.end <= moving.start + tolerance && (!before || t.end > before.end)) before = t;
+        if (t.start >= moving.end - tolerance && (!after || t.start < after.start)) after = t;
+    });
+    // The gap the moving box sits in isn't one to copy.
+    return { gaps: gaps.filter(gap => gap.from !== before || gap.to !== after), before: before as Span | null, after: after as Span | null };
+};
+
+/**
+ * Snaps the moving box along one axis. Candidates are aligning any of its edges or its centre with
+ * another box or a line, and, when moving, leaving the same gap to a neighbour as other neighbours in
+ * the row have, or sitting halfway between two neighbours. The closest candidate within the threshold wins.
+ */
+const snapAxis = (movingBox: Rect, context: SnapContext, axis: 'x' | 'y', threshold: number) => {
+    const moving = toSpan(movingBox, axis);
+    const targets = context.targets.map(t => toSpan(t, axis));
+    const size = moving.end - moving.start;
+    let best: { offset: number; distance: number; spacing?: number } | null = null;
+    const consider = (offset: number, spacing?: number) => {
+        const distance = Math.abs(offset);
+        if (distance < threshold && (!best || distance < best.distance - 0.01)) best = { offset, distance, spacing };
+    };
+
+    const movingStops = getStops(moving);
+    const stops = [...targets.flatMap(getStops), ...context.lines.filter(l => l.axis === axis).map(l => l.position)];
+    stops.forEach(stop => movingStops.forEach(m => consider(stop - m)));
+
+    const neighbours = context.snapToSpacing ? getSpacingNeighbours(moving, targets, threshold) : null;
+    if (neighbours) {
+        const { gaps, before, after } = neighbours;
+        gaps.forEach(gap => {
+            if (before) consider(before.end + gap.size - moving.start, gap.size);
+            if (after) consider(after.start - gap.size - moving.end, gap.size);
+        });
+        if (before && after && after.start - before.end > size) {
+            const gap = (after.start - before.end - size) / 2;
+            consider(before.end + gap - moving.start, gap);
+        }
+    }
+    if (!best) return { offset: 0, guides: [] as Guide[], spacingGuides: [] as SpacingGuide[] };
+    const { offset, spacing } = best as { offset: number; spacing?: number };
+
+    const snapped: Span = { ...moving, start: moving.start + offset, end: moving.end + offset };
+    const snappedStops = getStops(snapped);
+    const guides: Guide[] = [];
+    // Every alignment the snapped box ends up on gets a guide, not just the one that won.
+    context.targets.forEach(rect => {
+        const target = toSpan(rect, axis);
+        getStops(target).forEach(stop => {
+            if (snappedStops.some(m => Math.abs(m - stop) < 0.1)) {
+                guides.push({ axis, position: stop, start: Math.min(snapped.crossStart, target.crossStart), end: Math.max(snapped.crossEnd, target.crossEnd) });
+            }
+        });
+    });
+    context.lines.filter(l => l.axis === axis).forEach(line => {
+        if (snappedStops.some(m => Math.abs(m - line.position) < 0.1)) {
+            guides.push({ axis, position: line.position, start: Math.min(snapped.crossStart, line.start ?? snapped.crossStart), end: Math.max(snapped.crossEnd, line.end ?? snapped.crossEnd) });
+        }
+    });
+
+    const spacingGuides: SpacingGuide[] = [];
+    if (neighbours && spacing !== undefined) {
+        const isEqual = (value: number) => Math.abs(value - spacing) < 0.5;
+        const addGap = (from: Span, to: Span) => spacingGuides.push({ axis, start: from.end, end: to.start, position: crossMiddle(from, to), distance: to.start - from.end });
+        neighbours.gaps.filter(gap => isEqual(gap.size)).forEach(gap => addGap(gap.from, gap.to));
+        if (neighbours.before && isEqual(snapped.start - neighbours.before.end)) addGap(neighbours.before, snapped);
+        if (neighbours.after && isEqual(neighbours.after.start - snapped.end)) addGap(snapped, neighbours.after);
+    }
+    return { offset, guides, spacingGuides };
+};
+
+/**
+ * Finds how far to shift a box being moved or resized so it lines up with the other layers, the canvas
+ * and the user's guides, along with the guides and equal-spacing hints to show for it.
+ */
+export const findSnap = (movingBox: Rect, context: SnapContext, threshold: number): SnapResult => {
+    const x = snapAxis(movingBox, context, 'x', threshold);
+    const y = snapAxis(movingBox, context, 'y', threshold);
+    return { guides: [...x.guides, ...y.guides], spacingGuides: [...x.spacingGuides, ...y.spacingGuides], offset: { x: x.offset, y: y.offset } };
+};
+
+/**
+ * The lines every box can snap to: the user's guides, and the canvas's edges and centre lines when
+ * there is a canvas to snap to.
+ */
+export const getSnapLines = (userGuides: UserGuide[], canvasBounds: Rect | null): SnapLine[] => {
+    const lines: SnapLine[] = userGuides.map(guide => ({ axis: guide.axis, position: guide.position }));
+    if (canvasBounds) {
+        const { x, y, width, height } = canvasBounds;
+        [x, x + width / 2, x + width].forEach(position => lines.push({ axis: 'x', position, start: y, end: y + height }));
+        [y, y + height / 2, y + height].forEach(position => lines.push({ axis: 'y', position, start: x, end: x + width }));
+    }
+    return lines;
+};
+
+export interface Measurement {
+    axis: 'x' | 'y';
+    start: number;
+    end: number;
+    // Where the line sits on the other axis.
+    position: number;
+}
+
+/**
+ * The distances between two boxes, as lines to draw: the gap on each axis where they are apart, or from
+ * each side of the inner box to the outer one where one overlaps the other.
+ */
+export const measureBetween = (a: Rect, b: Rect): Measurement[] => {
+    const measurements: Measurement[] = [];
+    (['x', 'y'] as const).forEach(axis => {
+        const first = toSpan(a, axis), second = toSpan(b, axis);
+        const position = crossMiddle(first, second);
+        if (first.end <= second.start) measurements.push({ axis, start: first.end, end: second.start, position });
+        else if (second.end <= first.start) measurements.push({ axis, start: second.end, end: first.start, position });
+        else {
+            // Overlapping on this axis: measure from the sides of a to the matching sides of b.
+            if (Math.abs(first.start - second.start) > 0.5) measurements.push({ axis, start: Math.min(first.start, second.start), end: Math.max(first.start, second.start), position: (first.crossStart + first.crossEnd) / 2 });
+            if (Math.abs(first.end - second.end) > 0.5) measurements.push({ axis, start: Math.min(first.end, second.end), end: Math.max(first.end, second.end), position: (first.crossStart + first.crossEnd) / 2 });
+        }
+    });
+    return measurements;
+};
+
+/**
+ * A guide dragged out of a ruler. Guides sit on whole pixels.
+ */
+export const createUserGuide = (axis: 'x' | 'y', position: number): UserGuide => ({
+    id: Math.random().toString(36).substring(2, 9),
+    axis,
+    position: Math.round(position),
+});
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Rect, type SlotFit, type CanvasDocumentState, type CanvasTemplateRecord } from './LayerComposer.types';
+import { loadImage } from './layerRendering';
+
+// The aspect ratios image generation accepts.
+const GENERATION_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export interface TemplateSlot {
+    name: string;
+    kind: 'image' | 'text';
+    fit: SlotFit;
+    // The first slot layer's box; generated images are asked for in its shape.
+    box: Rect;
+    // What the template shows there now: an image URL or the text.
+    placeholder: string;
+    layerIds: string[];
+}
+
+export type SlotContent = { kind: 'image'; url: string } | { kind: 'text'; text: string };
+
+const getSlotKind = (layer: Layer): 'image' | 'text' | null =>
+    layer.type === 'image' ? 'image' : layer.type === 'text' ? 'text' : null;
+
+/**
+ * The named slots in a composition, in layer order. Layers sharing a name are one slot; a layer whose
+ * type doesn't match the slot's first layer is left out of it.
+ */
+export const getTemplateSlots = (layers: Layer[]): TemplateSlot[] => {
+    const slots = new Map<string, TemplateSlot>();
+    layers.forEach(layer => {
+        const kind = getSlotKind(layer);
+        const name = layer.slot?.name.trim();
+        if (!kind || !name) return;
+        const existing = slots.get(name);
+        if (existing) {
+            if (existing.kind === kind) existing.layerIds.push(layer.id);
+            return;
+        }
+        slots.set(name, {
+            name, kind, fit: layer.slot!.fit,
+            box: { x: layer.x, y: layer.y, width: layer.width, height: layer.height },
+            placeholder: (kind === 'image' ? layer.url : layer.text) || '',
+            layerIds: [layer.id],
+        });
+    });
+    return Array.from(slots.values());
+};
+
+/**
+ * The part of an image with the given aspect ratio that covers a box of that shape, cut from its middle.
+ */
+const cropToAspect = (img: HTMLImageElement, aspect: number): string => {
+    const sourceAspect = img.naturalWidth / img.naturalHeight;
+    const width = sourceAspect > aspect ? Math.round(img.naturalHeight * aspect) : img.naturalWidth;
+    const height = sourceAspect > aspect ? img.naturalHeight : Math.round(img.naturalWidth / aspect);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, width); canvas.height = Math.max(1, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.drawImage(img, (img.naturalWidth - width) / 2, (img.naturalHeight - height) / 2, width, height, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * The changes that put new content into a slot layer, following the slot's fit.
+ */
+export const fillSlotLayer = async (layer: Layer, content: SlotContent): Promise<Partial<Layer>> => {
+    if (content.kind === 'text') return { text: content.text, textRuns: undefined };
+    const fit = layer.slot?.fit ?? 'fill';
+    if (fit === 'stretch') return { url: content.url };
+    const img = await loadImage(content.url);
+    if (fit === 'fill') return { url: cropToAspect(img, layer.width / layer.height) };
+    // 'fit': the largest box of the image's shape inside the slot, centred on it.
+    const scale = Math.min(layer.width / img.naturalWidth, layer.height / img.naturalHeight);
+    const width = img.naturalWidth * scale, height = img.naturalHeight * scale;
+    return { url: content.url, x: layer.x + (layer.width - width) / 2, y: layer.y + (layer.height - height) / 2, width, height };
+};
+
+/**
+ * The composition a template makes with the given content in its slots. Slots without content keep
+ * what the template has.
+ */
+export const applyTemplate = async (template: CanvasTemplateRecord, contents: Record<string, SlotContent>): Promise<CanvasDocumentState> => {
+    const layers = await Promise.all(template.state.layers.map(async layer => {
+        const name = layer.slot?.name.trim();
+        const content = name ? contents[name] : undefined;
+        if (!content || getSlotKind(layer) !== content.kind) return layer;
+        return { ...layer, ...await fillSlotLayer(layer, content) };
+    }));
+    return { layers, canvasSettings: template.state.canvasSettings, isInfiniteCanvas: template.state.isInfiniteCanvas };
+};
+
+/**
+ * The generation aspect ratio closest to a box's shape.
+ */
+export const getClosestAspectRatio = (box: Rect): string => {
+    const target = Math.log(box.width / box.height);
+    const distance = (ratio: string) => {
+        const [w, h] = ratio.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - target);
+    };
+    return GENERATION_ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { type Layer, type CanvasSettings, type Point, type CollabStatus, type CollabSession, type CollabPeer, type CollabPresence } from './LayerComposer.types';
+import {
+    type CollabDocument, type CollabOp, type CollabChange, createCollabDocument, applyOps, materializeLayers, materializeSettings,
+    diffLayers, diffSettings, mergeChanges, revertChanges, changesToOps
+} from './collaboration';
+
+const SEND_INTERVAL_MS = 40;
+const PRESENCE_INTERVAL_MS = 50;
+const RECONNECT_DELAY_MS = 2000;
+// The relay closes with this code when the room token doesn't match (see server/collab-relay.mjs).
+const CLOSE_WRONG_TOKEN = 4003;
+const PEER_COLORS = ['#F87171', '#FB923C', '#FACC15', '#4ADE80', '#2DD4BF', '#60A5FA', '#A78BFA', '#F472B6'];
+
+export const getPeerColor = (clientId: string) => {
+    let hash = 0;
+    for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+    return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+/** What the relay (server/collab-relay.mjs) sends to a client. */
+type RelayMessage =
+    | { type: 'welcome'; clientId: string; ops?: CollabOp[]; peers?: { clientId: string; presence: CollabPresence }[] }
+    | { type: 'ops'; ops?: CollabOp[] }
+    | { type: 'presence'; clientId: string; presence: CollabPresence }
+    | { type: 'leave'; clientId: string };
+
+interface UseCollaborationOptions {
+    layers: Layer[];
+    setLayers: React.Dispatch<React.SetStateAction<Layer[]>>;
+    canvasSettings: CanvasSettings;
+    setCanvasSettings: React.Dispatch<React.SetStateAction<CanvasSettings>>;
+    selectedLayerIds: string[];
+    history: Layer[][];
+    setHistory: (history: Layer[][]) => void;
+    setHistoryIndex: (index: number) => void;
+    setError: (error: string | null) => void;
+    t: (key: string, ...args: any[]) => string;
+}
+
+/**
+ * Shares the open document with everyone in a relay room. Local edits are diffed into operations
+ * and sent; operations from others are merged and replace the local layers. While connected, undo
+ * and redo work on this user's own edits only, so they never take back somebody else's work.
+ */
+export const useCollaboration = ({
+    layers, setLayers, canvasSettings, setCanvasSettings, selectedLayerIds, history, setHistory, setHistoryIndex, setError, t
+}: UseCollaborationOptions) => {
+    const [session, setSession] = useState<CollabSession | null>(null);
+    const [status, setStatus] = useState<CollabStatus>('disconnected');
+    const [peers, setPeers] = useState<CollabPeer[]>([]);
+    const [ownColor, setOwnColor] = useState<string | null>(null);
+    const [undoState, setUndoState] = useState({ canUndo: false, canRedo: false });
+
+    const socketRef = useRef<WebSocket | null>(null);
+    const docRef = useRef<CollabDocument | null>(null);
+    // The layers and settings the document currently describes. Anything that differs from them locally is a local edit.
+    const syncedLayersRef = useRef<Layer[] | null>(null);
+    const syncedSettingsRef = useRef<CanvasSettings | null>(null);
+    const outboxRef = useRef(new Map<string, CollabOp>());
+    const sendTimerRef = useRef<number | null>(null);
+    const pendingStepRef = useRef<CollabChange[]>([]);
+    const undoStackRef = useRef<CollabChange[][]>([]);
+    const redoStackRef = useRef<CollabChange[][]>([]);
+    const presenceRef = useRef<CollabPresence | null>(null);
+    const presenceTimerRef = useRef<number | null>(null);
+    const cursorRef = useRef<Point | null>(null);
+    const latestRef = useRef({ layers, canvasSettings });
+    latestRef.current = { layers, canvasSettings };
+
+    const updateUndoState = useCallback(() => {
+        setUndoState({ canUndo: undoStackRef.current.length > 0 || pendingStepRef.current.length > 0, canRedo: redoStackRef.current.length > 0 });
+    }, []);
+
+    const resetUndo = useCallback(() => {
+        pendingStepRef.current = [];
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        updateUndoState();
+    }, [updateUndoState]);
+
+    const flushOutbox = useCallback(() => {
+        sendTimerRef.current = null;
+        const socket = socketRef.current;
+        if (!socket || socket.readyState !== WebSocket.OPEN || outboxRef.current.size === 0) return;
+        socket.send(JSON.stringify({ type: 'ops', ops: Array.from(outboxRef.current.values()) }));
+        outboxRef.current.clear();
+    }, []);
+
+    // Operations are batched; during a drag only the latest value of each entry goes out.
+    const queueOps = useCallback((ops: CollabOp[]) => {
+        ops.forEach(op => outboxRef.current.set(op.key, op));
+        if (sendTimerRef.current === null) sendTimerRef.current = window.setTimeout(flushOutbox, SEND_INTERVAL_MS);
+    }, [flushOutbox]);
+
+    const sendPresence = useCallback(() => {
+        presenceTimerRef.current = null;
+        const socket = socketRef.current;
+        if (socket && socket.readyState === WebSocket.OPEN && presenceRef.current) {
+            socket.send(JSON.stringify({ type: 'presence', presence: { ...presenceRef.current, cursor: cursorRef.current } }));
+        }
+    }, []);
+
+    const queuePresence = useCallback(() => {
+        if (presenceTimerRef.current === null) presenceTimerRef.current = window.setTimeout(sendPresence, PRESENCE_INTERVAL_MS);
+    }, [sendPresence]);
+
+    // Sends local edits the document doesn't have yet.
+    const emitLocalChanges = useCallback((currentLayers: Layer[], currentSettings: CanvasSettings) => {
+        const doc = docRef.current;
+        if (!doc || !syncedLayersRef.current) return;
+        const layerChanges = diffLayers(syncedLayersRef.current, currentLayers);
+        const settingsChanges = diffSettings(syncedSettingsRef.current, currentSettings);
+        if (layerChanges.length === 0 && settingsChanges.length === 0) return;
+        queueOps(changesToOps(doc, [...layerChanges, ...settingsChanges]));
+        syncedLayersRef.current = currentLayers;
+        syncedSettingsRef.current = currentSettings;
+        // Canvas settings aren't part of undo outside a session either.
+        if (layerChanges.length > 0) {
+            pendingStepRef.current = mergeChanges(pendingStepRef.current, layerChanges);
+            updateUndoState();
+        }
+    }, [queueOps, updateUndoState]);
+
+    // Replaces the local state with what the document now says.
+    const adoptDocument = useCallback(() => {
+        const doc = docRef.current;
+        if (!doc) return;
+        const nextLayers = materializeLayers(doc);
+        syncedLayersRef.current = nextLayers;
+        setLayers(nextLayers);
+        const nextSettings = materializeSettings(doc);
+        if (nextSettings && JSON.stringify(nextSettings) !== JSON.stringify(syncedSettingsRef.current)) {
+            syncedSettingsRef.current = nextSettings;
+            setCanvasSettings(nextSettings);
+        }
+    }, [setLayers, setCanvasSettings]);
+
+    const handleMessage = useCallback((message: RelayMessage) => {
+        if (message.type === 'welcome') {
+            const { layers: currentLayers, canvasSettings: currentSettings } = latestRef.current;
+            const isReconnect = !!docRef.current;
+            const doc = docRef.current || createCollabDocument(message.clientId);
+            doc.clientId = message.clientId;
+            docRef.current = doc;
+            applyOps(doc, message.ops || []);
+            setOwnColor(getPeerColor(message.clientId));
+            setPeers((message.peers || []).map(peer => ({ ...peer.presence, clientId: peer.clientId })));
+            setStatus('connected');
+            if (isReconnect) {
+                // Edits made while offline are already in the document; send all of it and let the relay keep what's newest.
+                outboxRef.current.clear();
+                queueOps(Array.from(doc.entries.values()));
+                adoptDocument();
+            } else if (doc.entries.size === 0) {
+                // First one in: the room starts as a copy of this document.
+                syncedLayersRef.current = [];
+                syncedSettingsRef.current = null;
+                emitLocalChanges(currentLayers, currentSettings);
+                resetUndo();
+            } else {
+                adoptDocument();
+                setHistory([materializeLayers(doc)]);
+                setHistoryIndex(0);
+            }
+            queuePresence();
+        } else if (message.type === 'ops' && docRef.current) {
+            const { layers: currentLayers, canvasSettings: currentSettings } = latestRef.current;
+            emitLocalChanges(currentLayers, currentSettings);
+            if (applyOps(docRef.current, message.ops || [])) adoptDocument();
+        } else if (message.type === 'presence') {
+            setPeers(prev => [...prev.filter(p => p.clientId !== message.clientId), { ...message.presence, clientId: message.clientId }]);
+        } else if (message.type === 'leave') {
+            setPeers(prev => prev.filter(p => p.clientId !== message.clientId));
+        }
+    }, [adoptDocument, emitLocalChanges, queueOps, queuePresence, resetUndo, setHistory, setHistoryIndex]);
+
+    const handleMessageRef = useRef(handleMessage);
+    handleMessageRef.current = handleMessage;
+
+    useEffect(() => {
+        if (!session) return;
+        let reconnectTimer: number | null = null;
+        let isClosed = false;
+        const connect = () => {
+            let socket: WebSocket;
+            try {
+                socket = new WebSocket(`${session.url.replace(/\/+$/, '')}/${encodeURIComponent(session.room)}?token=${encodeURIComponent(session.token)}`);
+            } catch (err) {
+                setError(t('layerComposer_collab_invalidUrl', session.url));
+                setSession(null);
+                return;
+            }
+            socketRef.current = socket;
+            setStatus('connecting');
+            socket.onmessage = (event) => {
+                try {
+                    handleMessageRef.current(JSON.parse(event.data));
+                } catch (err) {
+                    console.error('Failed to handle collaboration message:', err);
+                }
+            };
+            socket.onclose = (event) => {
+                if (socketRef.current === socket) socketRef.current = null;
+                setPeers([]);
+                if (isClosed) return;
+                if (event.code === CLOSE_WRONG_TOKEN) {
+                    setError(t('layerComposer_collab_wrongToken', session.room));
+                    setSession(null);
+                    setStatus('disconnected');
+                    return;
+                }
+                setStatus('connecting');
+                reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+            };
+        };
+        connect();
+        return () => {
+            isClosed = true;
+            if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+            socketRef.current?.close();
+            socketRef.current = null;
+        };
+    }, [session]);
+
+    useEffect(() => {
+        if (session) emitLocalChanges(layers, canvasSettings);
+    }, [layers, canvasSettings, session, emitLocalChanges]);
+
+    // A new history entry marks the end of an edit: everything since the last one becomes one undo step.
+    useEffect(() => {
+        if (!session || pendingStepRef.current.length === 0) return;
+        undoStackRef.current.push(pendingStepRef.current);
+        pendingStepRef.current = [];
+        redoStackRef.current = [];
+        updateUndoState();
+    }, [history]);
+
+    useEffect(() => {
+        if (!session || !ownColor) return;
+        presenceRef.current = { name: session.name, color: ownColor, cursor: null, selection: selectedLayerIds };
+        queuePresence();
+    }, [session, ownColor, selectedLayerIds, queuePresence]);
+
+    const updateCollabCursor = useCallback((point: Point | null) => {
+        cursorRef.current = point;
+        if (socketRef.current) queuePresence();
+    }, [queuePresence]);
+
+    const stepHistory = useCallback((from: React.MutableRefObject<CollabChange[][]>, to: React.MutableRefObject<CollabChange[][]>) => {
+        const doc = docRef.current;
+        if (!doc) return;
+        emitLocalChanges(latestRef.current.layers, latestRef.current.canvasSettings);
+        if (pendingStepRef.current.length > 0) {
+            undoStackRef.current.push(pendingStepRef.current);
+            pendingStepRef.current = [];
+        }
+        const step = from.current.pop();
+        if (step) {
+            const { ops, inverse } = revertChanges(doc, step);
+            if (inverse.length > 0) to.current.push(inverse);
+            queueOps(ops);
+            adoptDocument();
+        }
+        updateUndoState();
+    }, [emitLocalChanges, queueOps, adoptDocument, updateUndoState]);
+
+    const collabUndo = useCallback(() => stepHistory(undoStackRef, redoStackRef), [stepHistory]);
+    const collabRedo = useCallback(() => stepHistory(redoStackRef, undoStackRef), [stepHistory]);
+
+    const joinCollabSession = useCallback((nextSession: CollabSession) => {
+        docRef.current = null;
+        syncedLayersRef.current = null;
+        syncedSettingsRef.current = null;
+        outboxRef.current.clear();
+        resetUndo();
+        setSession(nextSession);
+    }, [resetUndo]);
+
+    const leaveCollabSession = useCallback(() => {
+        setSession(null);
+        setStatus('disconnected');
+        setPeers([]);
+        setOwnColor(null);
+        docRef.current = null;
+        syncedLayersRef.current = null;
+        presenceRef.current = null;
+        outboxRef.current.clear();
+        resetUndo();
+        // The snapshot history doesn't know about other people's edits, so it starts over from here.
+        setHistory([latestRef.current.layers]);
+        setHistoryIndex(0);
+    }, [resetUndo, setHistory, setHistoryIndex]);
+
+    return {
+        collabSession: session, collabStatus: status, collabPeers: peers, collabColor: ownColor,
+        isCollaborating: !!session, collabCanUndo: undoState.canUndo, collabCanRedo: undoState.canRedo,
+        collabUndo, collabRedo, joinCollabSession, leaveCollabSession, updateCollabCursor,
+    };
+};
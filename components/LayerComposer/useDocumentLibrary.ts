@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { type Layer, type CanvasSettings, type CanvasDocumentState, type CanvasDocumentRecord, type CanvasVersionRecord } from './LayerComposer.types';
+import { createDocumentThumbnail, compareDocumentLayers, renderVisualDiff, type LayerChanges, type VisualDiff } from './documentLibrary';
+import { getLocalizedErrorMessage } from '../../services/geminiService';
+import { useDebounce } from '../uiHooks';
+import * as db from '../../lib/db';
+
+const DEFAULT_GRID_SETTINGS = { visible: false, snap: false, size: 50, color: '#cccccc' };
+const DEFAULT_GUIDE_SETTINGS = { enabled: true, color: '#ff4d4d' };
+
+interface UseDocumentLibraryOptions {
+    isOpen: boolean;
+    layers: Layer[];
+    setLayers: React.Dispatch<React.SetStateAction<Layer[]>>;
+    history: Layer[][];
+    historyIndex: number;
+    setHistory: (history: Layer[][]) => void;
+    setHistoryIndex: (index: number) => void;
+    canvasSettings: CanvasSettings;
+    setCanvasSettings: React.Dispatch<React.SetStateAction<CanvasSettings>>;
+    isInfiniteCanvas: boolean;
+    setIsInfiniteCanvas: (isInfinite: boolean) => void;
+    canvasInitialized: boolean;
+    setCanvasInitialized: (initialized: boolean) => void;
+    setSelectedLayerIds: (ids: string[]) => void;
+    setRunningJobCount: React.Dispatch<React.SetStateAction<number>>;
+    setError: (error: string | null) => void;
+    // Called before another document replaces the open one.
+    onBeforeDocumentChange: () => void;
+    t: (key: string, ...args: any[]) => string;
+}
+
+const createId = () => Math.random().toString(36).substring(2, 9);
+
+/**
+ * Keeps the open canvas saved as a document in the library, and opens, renames, duplicates and deletes
+ * documents and their named versions.
+ */
+export const useDocumentLibrary = ({
+    isOpen, layers, setLayers, history, historyIndex, setHistory, setHistoryIndex, canvasSettings, setCanvasSettings,
+    isInfiniteCanvas, setIsInfiniteCanvas, canvasInitialized, setCanvasInitialized, setSelectedLayerIds, setRunningJobCount,
+    setError, onBeforeDocumentChange, t
+}: UseDocumentLibraryOptions) => {
+    const [documents, setDocuments] = useState<CanvasDocumentRecord[]>([]);
+    const [activeDocument, setActiveDocument] = useState<CanvasDocumentRecord | null>(null);
+    const [versions, setVersions] = useState<CanvasVersionRecord[]>([]);
+    const [isDocumentLibraryOpen, setIsDocumentLibraryOpen] = useState(false);
+
+    // Refs, because saves run after awaits and must see the latest state rather than the render they started in.
+    const activeDocumentRef = useRef<CanvasDocumentRecord | null>(null);
+    const latestRef = useRef({ layers, history, historyIndex, canvasSettings, isInfiniteCanvas, canvasInitialized });
+    latestRef.current = { layers, history, historyIndex, canvasSettings, isInfiniteCanvas, canvasInitialized };
+    // What was last written, so opening a document doesn't count as editing it.
+    const savedStateRef = useRef<{ layers: Layer[]; history: Layer[][]; canvasSettings: CanvasSettings; isInfiniteCanvas: boolean } | null>(null);
+    const isLoadingRef = useRef(false);
+
+    const updateActiveDocument = useCallback((record: CanvasDocumentRecord | null) => {
+        activeDocumentRef.current = record;
+        setActiveDocument(record);
+        if (record) setDocuments(prev => prev.some(d => d.id === record.id) ? prev.map(d => d.id === record.id ? record : d) : [record, ...prev]);
+    }, []);
+
+    const getCurrentState = (): CanvasDocumentState => {
+        const { layers, history, historyIndex, canvasSettings, isInfiniteCanvas } = latestRef.current;
+        return { layers, history, historyIndex, canvasSettings, isInfiniteCanvas };
+    };
+
+    /**
+     * Writes the open canvas to its document, creating the document on the first save.
+     */
+    const saveActiveDocument = useCallback(async () => {
+        const { canvasInitialized: isInitialized, ...current } = latestRef.current;
+        if (!isInitialized || isLoadingRef.current) return;
+        const saved = savedStateRef.current;
+        if (saved && saved.layers === current.layers && saved.history === current.history && saved.canvasSettings === current.canvasSettings && saved.isInfiniteCanvas === current.isInfiniteCanvas) return;
+        const now = Date.now();
+        const existing = activeDocumentRef.current;
+        const record: CanvasDocumentRecord = existing
+            ? { ...existing, updatedAt: now }
+            : { id: createId(), name: t('layerComposer_library_untitled'), createdAt: now, updatedAt: now };
+        savedStateRef.current = { layers: current.layers, history: current.history, canvasSettings: current.canvasSettings, isInfiniteCanvas: current.isInfiniteCanvas };
+        updateActiveDocument(record);
+        await db.saveCanvasDocument(record, getCurrentState());
+        if (!existing) await db.setActiveCanvasDocumentId(record.id);
+    }, [t, updateActiveDocument]);
+
+    const applyDocumentState = useCallback((state: CanvasDocumentState) => {
+        const loadedSettings = state.canvasSettings as CanvasSettings & { isInfinite?: boolean };
+        const settings = { ...loadedSettings, grid: { ...DEFAULT_GRID_SETTINGS, ...(loadedSettings.grid || {}) }, guides: { ...DEFAULT_GUIDE_SETTINGS, ...(loadedSettings.guides || {}) } };
+        const validHistory = Array.isArray(state.history) && state.history.length > 0 ? state.history : [state.layers];
+        const validHistoryIndex = typeof state.historyIndex === 'number' ? Math.min(state.historyIndex, validHistory.length - 1) : validHistory.length - 1;
+        const isInfinite = state.isInfiniteCanvas ?? loadedSettings.isInfinite ?? true;
+        setLayers(state.layers);
+        setHistory(validHistory);
+        setHistoryIndex(validHistoryIndex);
+        setCanvasSettings(settings);
+        setIsInfiniteCanvas(isInfinite);
+        setSelectedLayerIds([]);
+        setCanvasInitialized(true);
+        savedStateRef.current = null;
+    }, [setLayers, setHistory, setHistoryIndex, setCanvasSettings, setIsInfiniteCanvas, setSelectedLayerIds, setCanvasInitialized]);
+
+    // After a document is opened, its state as loaded is the saved state.
+    useEffect(() => {
+        if (canvasInitialized && !savedStateRef.current && activeDocumentRef.current) {
+            savedStateRef.current = { layers, history, canvasSettings, isInfiniteCanvas };
+        }
+    }, [layers, history, canvasSettings, isInfiniteCanvas, canvasInitialized]);
+
+    const loadDocument = useCallback(async (id: string): Promise<boolean> => {
+        const [state, records] = await Promise.all([db.loadCanvasDocumentState(id), db.getCanvasDocuments()]);
+        const record = records.find(d => d.id === id);
+        setDocuments(records);
+        if (!state || !record || !Array.isArray(state.layers) || typeof state.canvasSettings !== 'object') return false;
+        updateActiveDocument(record);
+        applyDocumentState(state);
+        await db.setActiveCanvasDocumentId(id);
+        return true;
+    }, [applyDocumentState, updateActiveDocument]);
+
+    useEffect(() => {
+        if (!isOpen || canvasInitialized) return;
+        const loadInitialDocument = async () => {
+            isLoadingRef.current = true;
+            try {
+                const id = await db.getActiveCanvasDocumentId();
+                if (id) await loadDocument(id);
+            } catch (err) {
+                console.error("Failed to load canvas document:", err);
+            } finally {
+                isLoadingRef.current = false;
+            }
+        };
+        loadInitialDocument();
+    }, [isOpen, canvasInitialized]);
+
+    const debouncedLayers = useDebounce(layers, 500);
+    const debouncedSettings = useDebounce(canvasSettings, 500);
+    const debouncedInfinite = useDebounce(isInfiniteCanvas, 500);
+    // Thumbnails take a render, so they wait for a longer pause.
+    const thumbnailLayers = useDebounce(layers, 3000);
+
+    useEffect(() => {
+        saveActiveDocument().catch(err => console.error("Failed to save canvas document:", err));
+    }, [debouncedLayers, debouncedSettings, debouncedInfinite, history, historyIndex, canvasInitialized]);
+
+    useEffect(() => {
+        const record = activeDocumentRef.current;
+        if (!record || !canvasInitialized) return;
+        createDocumentThumbnail(getCurrentState()).then(thumbnail => {
+            const current = activeDocumentRef.current;
+            if (!current || current.id !== record.id || current.thumbnail === thumbnail) return;
+            const updated = { ...current, thumbnail };
+            updateActiveDocument(updated);
+            return db.saveCanvasDocument(updated);
+        }).catch(err => console.error("Failed to update document thumbnail:", err));
+    }, [thumbnailLayers, activeDocument?.id]);
+
+    const refreshVersions = useCallback(async () => {
+        const record = activeDocumentRef.current;
+        setVersions(record ? await db.getCanvasVersions(record.id) : []);
+    }, []);
+
+    useEffect(() => {
+        if (!isDocumentLibraryOpen) return;
+        db.getCanvasDocuments().then(setDocuments).catch(err => console.error("Failed to list canvas documents:", err));
+        refreshVersions().catch(err => console.error("Failed to list document versions:", err));
+    }, [isDocumentLibraryOpen, activeDocument?.id]);
+
+    // Library actions show progress and errors the same way other long-running actions do.
+    const runLibraryAction = useCallback(async (action: () => Promise<void>) => {
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try { await action(); }
+        catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [setRunningJobCount, setError, t]);
+
+    const handleOpenDocument = useCallback((id: string) => runLibraryAction(async () => {
+        if (id === activeDocumentRef.current?.id && latestRef.current.canvasInitialized) { setIsDocumentLibraryOpen(false); return; }
+        await saveActiveDocument();
+        onBeforeDocumentChange();
+        if (!await loadDocument(id)) throw new Error(t('layerComposer_library_openError'));
+        setIsDocumentLibraryOpen(false);
+    }), [runLibraryAction, saveActiveDocument, onBeforeDocumentChange, loadDocument, t]);
+
+    /**
+     * Saves the open document and detaches from it, so the next canvas is saved as a new document.
+     */
+    const startNewDocument = useCallback(async () => {
+        await saveActiveDocument();
+        updateActiveDocument(null);
+        savedStateRef.current = null;
+        await db.setActiveCanvasDocumentId(null);
+    }, [saveActiveDocument, updateActiveDocument]);
+
+    /**
+     * Opens a composition made elsewhere (from a template) as a new document, saving the open one first.
+     */
+    const openAsNewDocument = useCallback(async (state: CanvasDocumentState, name: string) => {
+        await startNewDocument();
+        onBeforeDocumentChange();
+        // Until the new document is in place, autosave would file the old canvas under a new document.
+        isLoadingRef.current = true;
+        try {
+            const now = Date.now();
+            const record: CanvasDocumentRecord = { id: createId(), name, createdAt: now, updatedAt: now };
+            const documentState = { ...state, history: [state.layers], historyIndex: 0 };
+            await db.saveCanvasDocument(record, documentState);
+            await db.setActiveCanvasDocumentId(record.id);
+            updateActiveDocument(record);
+            applyDocumentState(documentState);
+        } finally {
+            isLoadingRef.current = false;
+        }
+    }, [startNewDocument, onBeforeDocumentChange, updateActiveDocument, applyDocumentState]);
+
+    const handleRenameDocument = useCallback((id: string, name: string) => runLibraryAction(async () => {
+        const record = documents.find(d => d.id === id);
+        const trimmed = name.trim();
+        if (!record || !trimmed || trimmed === record.name) return;
+        const updated = { ...record, name: trimmed };
+        if (activeDocumentRef.current?.id === id) updateActiveDocument({ ...activeDocumentRef.current, name: trimmed });
+        else setDocuments(prev => prev.map(d => d.id === id ? updated : d));
+        await db.saveCanvasDocument(activeDocumentRef.current?.id === id ? activeDocumentRef.current : updated);
+    }), [documents, runLibraryAction, updateActiveDocument]);
+
+    const handleDuplicateDocument = useCallback((id: string) => runLibraryAction(async () => {
+        const record = documents.find(d => d.id === id);
+        if (!record) return;
+        if (activeDocumentRef.current?.id === id) await saveActiveDocument();
+        const state = await db.loadCanvasDocumentState(id);
+        if (!state) throw new Error(t('layerComposer_library_openError'));
+        const now = Date.now();
+        const copy: CanvasDocumentRecord = { ...record, id: createId(), name: t('layerComposer_library_copyName', record.name), createdAt: now, updatedAt: now };
+        await db.saveCanvasDocument(copy, state);
+        setDocuments(await db.getCanvasDocuments());
+    }), [documents, runLibraryAction, saveActiveDocument, t]);
+
+    const handleDeleteDocument = useCallback((id: string) => runLibraryAction(async () => {
+        const isActive = activeDocumentRef.current?.id === id;
+        if (isActive) {
+            onBeforeDocumentChange();
+            // Nothing is left to save into; go back to the start screen.
+            updateActiveDocument(null);
+            savedStateRef.current = null;
+            setCanvasInitialized(false);
+            setLayers([]);
+            setHistory([[]]);
+            setHistoryIndex(0);
+            setSelectedLayerIds([]);
+            await db.setActiveCanvasDocumentId(null);
+        }
+        await db.deleteCanvasDocument(id);
+        setDocuments(prev => prev.filter(d => d.id !== id));
+    }), [runLibraryAction, onBeforeDocumentChange, updateActiveDocument, setCanvasInitialized, setLayers, setHistory, setHistoryIndex, setSelectedLayerIds]);
+
+    const handleSaveVersion = useCallback((name: string) => runLibraryAction(async () => {
+        await saveActiveDocument();
+        const record = activeDocumentRef.current;
+        if (!record) return;
+        const { layers, canvasSettings, isInfiniteCanvas } = getCurrentState();
+        const state = { layers, canvasSettings, isInfiniteCanvas };
+        const version: CanvasVersionRecord = {
+            id: createId(), documentId: record.id, createdAt: Date.now(), state,
+            name: name.trim() || t('layerComposer_library_versionDefaultName', new Date().toLocaleString()),
+            thumbnail: await createDocumentThumbnail(state),
+        };
+        await db.saveCanvasVersion(version);
+        await refreshVersions();
+    }), [runLibraryAction, saveActiveDocument, refreshVersions, t]);
+
+    /**
+     * Puts a version's layers and canvas back as a new history step, so the restore can be undone.
+     */
+    const handleRestoreVersion = useCallback((id: string) => {
+        const version = versions.find(v => v.id === id);
+        if (!version) return;
+        const { history, historyIndex } = latestRef.current;
+        const newHistory = history.slice(0, historyIndex + 1); newHistory.push(version.state.layers);
+        setLayers(version.state.layers);
+        setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        setCanvasSettings(version.state.canvasSettings);
+        setIsInfiniteCanvas(version.state.isInfiniteCanvas);
+        setSelectedLayerIds([]);
+        setIsDocumentLibraryOpen(false);
+    }, [versions, setLayers, setHistory, setHistoryIndex, setCanvasSettings, setIsInfiniteCanvas, setSelectedLayerIds]);
+
+    const handleDeleteVersion = useCallback((id: string) => runLibraryAction(async () => {
+        await db.deleteCanvasVersion(id);
+        setVersions(prev => prev.filter(v => v.id !== id));
+    }), [runLibraryAction]);
+
+    /**
+     * Compares a version with the open canvas.
+     */
+    const compareVersion = useCallback(async (id: string): Promise<{ changes: LayerChanges; visual: VisualDiff | null } | null> => {
+        const version = versions.find(v => v.id === id);
+        if (!version) return null;
+        const current = getCurrentState();
+        return { changes: compareDocumentLayers(version.state.layers, current.layers), visual: await renderVisualDiff(version.state, current) };
+    }, [versions]);
+
+    return {
+        documents, activeDocument, versions, isDocumentLibraryOpen, setIsDocumentLibraryOpen, saveActiveDocument, startNewDocument, openAsNewDocument,
+        handleOpenDocument, handleRenameDocument, handleDuplicateDocument, handleDeleteDocument,
+        handleSaveVersion, handleRestoreVersion, handleDeleteVersion, compareVersion,
+    };
+};
@@ -4,197 +4,38 @@
 */
 import React, { useState, useRef, useEffect, useCallback, useMemo, ChangeEvent } from 'react';
 import { useMotionValue, useMotionValueEvent } from 'framer-motion';
-import { useAppControls, downloadImage, downloadJson, useImageEditor, extractJsonFromPng } from "../uiUtils";
+import { useAppControls, downloadImage, downloadJson, downloadBlob, useImageEditor, extractJsonFromPng } from "../uiUtils";
 import { 
     generateFromPreset, 
     editImageWithPrompt, 
     generateFromMultipleImages, 
     refineArchitecturePrompt, 
     generateFreeImage,
-    refineImageAndPrompt
+    refineImageAndPrompt,
+    getLocalizedErrorMessage
 } from '../../services/geminiService';
 import { type Layer, type CanvasSettings, type Interaction, type Rect, type MultiLayerAction, getBoundingBoxForLayers, type CanvasTool, type AIPreset } from './LayerComposer.types';
 import { type GenerationHistoryEntry } from '../uiTypes';
 import { type AILogMessage } from './AIProcessLogger';
-import { useDebounce } from '../uiHooks';
-import * as db from '../../lib/db';
+import {
+    normalizeLayers, getLayersWithDescendants, getTransformTargets, getGroupTransformUpdates, getChildLayers,
+    reorderChildLayers, cloneLayers, groupLayers, ungroupLayer, getAdjustmentLayersAbove, getLayersBeneath, isLayerLocked
+} from './layerTree';
+import { captureCanvas, captureLayer } from './layerRendering';
+import { INITIAL_PIXEL_ADJUSTMENTS } from '../ImageEditor/ImageEditor.constants';
+import {
+    type BooleanOperation, getLayerOutline, combineOutlines, ringsToSubpaths, createPathFromCanvasSubpaths,
+    importSvgAsPathLayers, buildSvgDocument, padVectorPath
+} from './vectorPaths';
+import { loadCustomFont, registerCustomFonts } from './richText';
+import { type DocumentExportFormat, type ExportRegion, getExportBounds, buildDocumentSvg, buildOpenRasterArchive } from './documentExport';
+import { useCollaboration } from './useCollaboration';
+import { useDocumentLibrary } from './useDocumentLibrary';
+import { useTemplates } from './useTemplates';
+import { DEFAULT_NUDGE_STEP } from './snapping';
 
 // --- Utility Functions ---
 
-const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split(' ');
-    let line = '';
-    for (let n = 0; n < words.length; n++) {
-        const testLine = line + words[n] + ' ';
-        const metrics = ctx.measureText(testLine);
-        const testWidth = metrics.width;
-        if (testWidth > maxWidth && n > 0) {
-            ctx.fillText(line, x, y);
-            line = words[n] + ' ';
-            y += lineHeight;
-        } else {
-            line = testLine;
-        }
-    }
-    ctx.fillText(line, x, y);
-};
-
-const captureCanvas = async (
-    layersToCapture: Layer[],
-    boundsToCapture: Rect,
-    backgroundColor: string | null
-): Promise<string> => {
-    const canvas = document.createElement('canvas');
-    canvas.width = boundsToCapture.width;
-    canvas.height = boundsToCapture.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Could not create canvas context for capture");
-
-    if (backgroundColor) {
-        ctx.fillStyle = backgroundColor;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-    } else {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-    }
-
-    const imagesToLoad = layersToCapture.filter(l => l.type === 'image' && l.url);
-    const imageElements = await Promise.all(imagesToLoad.map(l => {
-        return new Promise<HTMLImageElement>((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'Anonymous';
-            img.onload = () => resolve(img);
-            img.onerror = reject;
-            img.src = l.url!;
-        });
-    }));
-    const imageMap = new Map(imagesToLoad.map((l, i) => [l.id, imageElements[i]]));
-
-    for (let i = layersToCapture.length - 1; i >= 0; i--) {
-        const layer = layersToCapture[i];
-        if (!layer.isVisible) continue;
-        const drawX = layer.x - boundsToCapture.x;
-        const drawY = layer.y - boundsToCapture.y;
-
-        ctx.save();
-        ctx.globalAlpha = layer.opacity / 100;
-        ctx.globalCompositeOperation = layer.blendMode;
-        ctx.translate(drawX + layer.width / 2, drawY + layer.height / 2);
-        ctx.rotate(layer.rotation * Math.PI / 180);
-        ctx.translate(-layer.width / 2, -layer.height / 2);
-
-        if (layer.type === 'text' && layer.text) {
-            ctx.font = `${layer.fontStyle || 'normal'} ${layer.fontWeight || '400'} ${layer.fontSize || 50}px "${layer.fontFamily || 'Be Vietnam Pro'}"`;
-            ctx.fillStyle = layer.color || '#000000';
-            ctx.textBaseline = 'top';
-            let startX = 0;
-            if (layer.textAlign === 'center') { ctx.textAlign = 'center'; startX = layer.width / 2; }
-            else if (layer.textAlign === 'right') { ctx.textAlign = 'right'; startX = layer.width; }
-            else { ctx.textAlign = 'left'; }
-            const lineHeight = (layer.fontSize || 50) * (layer.lineHeight || 1.2);
-            const textToRender = layer.textTransform === 'uppercase' ? (layer.text || '').toUpperCase() : (layer.text || '');
-            wrapText(ctx, textToRender, startX, 0, layer.width, lineHeight);
-        } else if (layer.type === 'image') {
-            const loadedImage = imageMap.get(layer.id);
-            if (loadedImage) {
-                ctx.drawImage(loadedImage, 0, 0, layer.width, layer.height);
-            }
-        } else if (layer.type === 'shape') {
-            ctx.fillStyle = layer.fillColor || '#FFFFFF';
-            if (layer.shapeType === 'ellipse') {
-                ctx.beginPath();
-                ctx.ellipse(layer.width / 2, layer.height / 2, layer.width / 2, layer.height / 2, 0, 0, 2 * Math.PI);
-                ctx.fill();
-            } else { // rectangle
-                ctx.beginPath();
-                const r = layer.borderRadius || 0;
-                ctx.moveTo(r, 0);
-                ctx.lineTo(layer.width - r, 0);
-                ctx.arcTo(layer.width, 0, layer.width, r, r);
-                ctx.lineTo(layer.width, layer.height - r);
-                ctx.arcTo(layer.width, layer.height, layer.width - r, layer.height, r);
-                ctx.lineTo(r, layer.height);
-                ctx.arcTo(0, layer.height, 0, layer.height - r, r);
-                ctx.lineTo(0, r);
-                ctx.arcTo(0, 0, r, 0, r);
-                ctx.closePath();
-                ctx.fill();
-            }
-        }
-        ctx.restore();
-    }
-    return canvas.toDataURL('image/png');
-};
-
-const captureLayer = async (layer: Layer): Promise<string> => {
-    const canvas = document.createElement('canvas');
-    let captureWidth = layer.width;
-    let captureHeight = layer.height;
-    const EXPORT_SCALE_FACTOR = 4;
-
-    const loadImage = (url: string): Promise<HTMLImageElement> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = 'Anonymous';
-            img.onload = () => resolve(img);
-            img.onerror = (err) => reject(new Error(`Failed to load image: ${url.substring(0, 50)}...`));
-            img.src = url;
-        });
-    };
-
-    const img = (layer.type === 'image' && layer.url) ? await loadImage(layer.url) : null;
-    if (img) {
-        captureWidth = img.naturalWidth;
-        captureHeight = img.naturalHeight;
-    } else if (layer.type === 'text' || layer.type === 'shape') {
-        captureWidth = layer.width * EXPORT_SCALE_FACTOR;
-        captureHeight = layer.height * EXPORT_SCALE_FACTOR;
-    }
-
-    canvas.width = captureWidth;
-    canvas.height = captureHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error("Could not get context for layer capture");
-
-    if (layer.type === 'image' && img) {
-        ctx.drawImage(img, 0, 0, captureWidth, captureHeight);
-    } else if (layer.type === 'text' && layer.text) {
-        ctx.scale(EXPORT_SCALE_FACTOR, EXPORT_SCALE_FACTOR);
-        ctx.font = `${layer.fontStyle || 'normal'} ${layer.fontWeight || '400'} ${layer.fontSize || 50}px "${layer.fontFamily || 'Be Vietnam Pro'}"`;
-        ctx.fillStyle = layer.color || '#000000';
-        ctx.textBaseline = 'top';
-        let startX = 0;
-        if (layer.textAlign === 'center') { ctx.textAlign = 'center'; startX = layer.width / 2; }
-        else if (layer.textAlign === 'right') { ctx.textAlign = 'right'; startX = layer.width; }
-        else { ctx.textAlign = 'left'; }
-        const lineHeight = (layer.fontSize || 50) * (layer.lineHeight || 1.2);
-        const textToRender = layer.textTransform === 'uppercase' ? (layer.text || '').toUpperCase() : (layer.text || '');
-        wrapText(ctx, textToRender, startX, 0, layer.width, lineHeight);
-    } else if (layer.type === 'shape') {
-        ctx.scale(EXPORT_SCALE_FACTOR, EXPORT_SCALE_FACTOR);
-        ctx.fillStyle = layer.fillColor || '#FFFFFF';
-        if (layer.shapeType === 'ellipse') {
-            ctx.beginPath();
-            ctx.ellipse(layer.width / 2, layer.height / 2, layer.width / 2, layer.height / 2, 0, 0, 2 * Math.PI);
-            ctx.fill();
-        } else { // rectangle
-             const r = layer.borderRadius || 0;
-            ctx.beginPath();
-            ctx.moveTo(r, 0);
-            ctx.lineTo(layer.width - r, 0);
-            ctx.arcTo(layer.width, 0, layer.width, r, r);
-            ctx.lineTo(layer.width, layer.height - r);
-            ctx.arcTo(layer.width, layer.height, layer.width - r, layer.height, r);
-            ctx.lineTo(r, layer.height);
-            ctx.arcTo(0, layer.height, 0, layer.height - r, r);
-            ctx.lineTo(0, r);
-            ctx.arcTo(0, 0, r, 0, r);
-            ctx.closePath();
-            ctx.fill();
-        }
-    }
-    return canvas.toDataURL('image/png');
-};
-
 const parseMultiPrompt = (prompt: string): string[] => {
     const match = prompt.match(/^(.*?)\{(.*?)\}(.*)$/s);
     if (match) {
@@ -209,6 +50,8 @@ const parseMultiPrompt = (prompt: string): string[] => {
 };
 
 
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+
 export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boolean; onClose: () => void; onHide: () => void; }) => {
     const { imageGallery, addImagesToGallery, t, settings, language, generationHistory } = useAppControls();
     const { openImageEditor } = useImageEditor();
@@ -222,7 +65,11 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     });
     const [isInfiniteCanvas, setIsInfiniteCanvas] = useState(true);
     const [canvasInitialized, setCanvasInitialized] = useState(false);
-    const [layers, setLayers] = useState<Layer[]>([]);
+    const [layers, setRawLayers] = useState<Layer[]>([]);
+    // Every change goes through normalizeLayers, which keeps groups wrapped around their children.
+    const setLayers = useCallback<React.Dispatch<React.SetStateAction<Layer[]>>>((next) => {
+        setRawLayers(prev => normalizeLayers(typeof next === 'function' ? next(prev) : next));
+    }, []);
     const [history, setHistory] = useState<Layer[][]>([[]]);
     const [historyIndex, setHistoryIndex] = useState(0);
     const interactionStartHistoryState = useRef<Layer[] | null>(null);
@@ -237,6 +84,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const [interaction, setInteraction] = useState<Interaction | null>(null);
     const [isConfirmingClose, setIsConfirmingClose] = useState(false);
     const [isConfirmingNew, setIsConfirmingNew] = useState(false);
+    const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
     const [aiPrompt, setAiPrompt] = useState('');
     const [isSimpleImageMode, setIsSimpleImageMode] = useState(false);
     const [aiPreset, setAiPreset] = useState<string>('default');
@@ -244,8 +92,8 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const [aiProcessLog, setAiProcessLog] = useState<AILogMessage[]>([]);
     const [isLogVisible, setIsLogVisible] = useState(false);
     const [isChatbotOpen, setIsChatbotOpen] = useState(false);
+    // The layer whose painted mask is being edited with the mask brush.
     const [editingMaskForLayerId, setEditingMaskForLayerId] = useState<string | null>(null);
-    const [rectBorderRadius, setRectBorderRadius] = useState(0);
     const [loadedPreset, setLoadedPreset] = useState<any | null>(null);
     const [activeCanvasTool, setActiveCanvasTool] = useState<CanvasTool>('select');
     const [shapeFillColor, setShapeFillColor] = useState<string>('#FFFFFF');
@@ -262,28 +110,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         appStateRef.current.canvasSettings = canvasSettings;
     }, [layers, history, historyIndex, canvasInitialized, canvasSettings]);
 
-    useEffect(() => {
-        if (isOpen && !canvasInitialized) {
-            const loadInitialState = async () => {
-                try {
-                    const savedState = await db.loadCanvasState();
-                    if (savedState && Array.isArray(savedState.layers) && savedState.layers.length > 0 && typeof savedState.canvasSettings === 'object') {
-                        setLayers(savedState.layers);
-                        const validHistory = savedState.history && Array.isArray(savedState.history) && savedState.history.length > 0 ? savedState.history : [savedState.layers];
-                        setHistory(validHistory);
-                        const validHistoryIndex = typeof savedState.historyIndex === 'number' ? savedState.historyIndex : validHistory.length - 1;
-                        setHistoryIndex(validHistoryIndex);
-                        setCanvasSettings(savedState.canvasSettings);
-                        setIsInfiniteCanvas(savedState.isInfiniteCanvas ?? true);
-                        setCanvasInitialized(true);
-                    }
-                } catch (err) {
-                    console.error("Failed to load canvas state:", err);
-                }
-            };
-            loadInitialState();
-        }
-    }, [isOpen, canvasInitialized]);
+    useEffect(() => { registerCustomFonts(canvasSettings.customFonts); }, [canvasSettings.customFonts]);
 
     const addLog = useCallback((message: string, type: AILogMessage['type']) => {
         setAiProcessLog(prev => {
@@ -298,8 +125,6 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         });
     }, []);
 
-    const onRectBorderRadiusChange = (radius: number) => { setRectBorderRadius(radius); };
-    const onReleaseMask = (layerId: string) => { setEditingMaskForLayerId(null); };
     
     const panX = useMotionValue(0);
     const panY = useMotionValue(0);
@@ -314,9 +139,31 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const [isStartScreenDraggingOver, setIsStartScreenDraggingOver] = useState(false);
 
     const selectedLayers = useMemo(() => { return selectedLayerIds.map(id => layers.find(l => l.id === id)).filter((l): l is Layer => !!l); }, [layers, selectedLayerIds]);
+
+    useEffect(() => {
+        if (editingMaskForLayerId && !selectedLayerIds.includes(editingMaskForLayerId)) setEditingMaskForLayerId(null);
+    }, [editingMaskForLayerId, selectedLayerIds]);
     const selectionBoundingBox = useMemo(() => { return getBoundingBoxForLayers(selectedLayers); }, [selectedLayers]);
     const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : null;
 
+    // Groups and artboards have no pixels of their own, so they are captured together with what they contain;
+    // adjustment layers are captured with what they adjust. Adjustment layers above a layer are applied to it.
+    const captureLayerWithChildren = useCallback(async (layer: Layer): Promise<string> => {
+        const currentLayers = appStateRef.current.layers;
+        const bounds = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
+        if (layer.type === 'group') {
+            return captureCanvas([...getAdjustmentLayersAbove(currentLayers, layer), ...getLayersWithDescendants(currentLayers, [layer.id])], bounds, null);
+        }
+        if (layer.type === 'artboard') {
+            const content = currentLayers.filter(l => l.type !== 'artboard');
+            return captureCanvas([...content, layer], bounds, null);
+        }
+        if (layer.type === 'adjustment') {
+            return captureCanvas(getLayersBeneath(currentLayers, layer), bounds, null);
+        }
+        return captureLayer(layer, getAdjustmentLayersAbove(currentLayers, layer));
+    }, []);
+
     const prevIsLoadingRef = useRef(false);
     const generationController = useRef<AbortController | null>(null);
 
@@ -389,15 +236,18 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const handleResizeSelectedLayers = useCallback((dimension: 'width' | 'height', newValue: number) => {
         if (selectedLayers.length === 0 || !newValue || newValue <= 0) return;
         beginInteraction();
-        const updates = selectedLayers.map(layer => {
+        const updates = selectedLayers.flatMap(layer => {
+            // Artboards are page sizes, so their sides change independently.
+            if (layer.type === 'artboard') return [{ id: layer.id, props: { [dimension]: newValue } }];
             const aspectRatio = (layer.width > 0 && layer.height > 0) ? layer.width / layer.height : 1;
             let newWidth, newHeight;
             if (dimension === 'width') { newWidth = newValue; newHeight = newValue / aspectRatio; }
             else { newHeight = newValue; newWidth = newValue * aspectRatio; }
-            return { id: layer.id, props: { width: newWidth, height: newHeight } };
+            if (layer.type === 'group') return getGroupTransformUpdates(layers, layer, { width: newWidth, height: newHeight });
+            return [{ id: layer.id, props: { width: newWidth, height: newHeight } }];
         });
         updateMultipleLayers(updates, true);
-    }, [selectedLayers, beginInteraction, updateMultipleLayers]);
+    }, [layers, selectedLayers, beginInteraction, updateMultipleLayers]);
 
     const reorderLayers = useCallback((reorderedLayers: Layer[]) => {
         beginInteraction();
@@ -409,15 +259,33 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         interactionStartHistoryState.current = null;
     }, [beginInteraction, history, historyIndex]);
     
-    const canUndo = historyIndex > 0;
-    const canRedo = historyIndex < history.length - 1;
+    const collaboration = useCollaboration({ layers, setLayers, canvasSettings, setCanvasSettings, selectedLayerIds, history, setHistory, setHistoryIndex, setError, t });
+    const { isCollaborating, collabCanUndo, collabCanRedo, collabUndo, collabRedo } = collaboration;
+
+    const documentLibrary = useDocumentLibrary({
+        isOpen, layers, setLayers, history, historyIndex, setHistory, setHistoryIndex, canvasSettings, setCanvasSettings, isInfiniteCanvas,
+        setIsInfiniteCanvas, canvasInitialized, setCanvasInitialized, setSelectedLayerIds, setRunningJobCount, setError, t,
+        // Another document replacing the canvas mustn't replace it for everyone in a shared room.
+        onBeforeDocumentChange: () => { if (isCollaborating) collaboration.leaveCollabSession(); },
+    });
+
+    const templates = useTemplates({
+        layers, canvasSettings, isInfiniteCanvas, removeWatermark, setRunningJobCount, setError, t,
+        openAsNewDocument: documentLibrary.openAsNewDocument,
+    });
+
+    // In a shared session, undo takes back this user's own edits rather than stepping through snapshots of everyone's.
+    const canUndo = isCollaborating ? collabCanUndo : historyIndex > 0;
+    const canRedo = isCollaborating ? collabCanRedo : historyIndex < history.length - 1;
 
-    const handleUndo = useCallback(() => { if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex]);
-    const handleRedo = useCallback(() => { if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex]);
+    const handleUndo = useCallback(() => { if (isCollaborating) { collabUndo(); return; } if (historyIndex > 0) { const newIndex = historyIndex - 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex, isCollaborating, collabUndo]);
+    const handleRedo = useCallback(() => { if (isCollaborating) { collabRedo(); return; } if (historyIndex < history.length - 1) { const newIndex = historyIndex + 1; setHistoryIndex(newIndex); setLayers(history[newIndex]); } }, [history, historyIndex, isCollaborating, collabRedo]);
 
     const handleCreateNew = useCallback(() => { setCanvasSettings({ width: 2048, height: 2048, background: '#ffffff', grid: { visible: false, snap: false, size: 50, color: '#cccccc' }, guides: { enabled: true, color: '#ff4d4d' } }); setCanvasInitialized(true); }, []);
     
     const handleResetState = useCallback(() => {
+        // Starting over is a local decision; leave the room first so it doesn't clear everyone else's canvas.
+        if (collaboration.isCollaborating) collaboration.leaveCollabSession();
         setLayers([]);
         setSelectedLayerIds([]);
         setCanvasSettings({ width: 1024, height: 1024, background: '#ffffff', grid: { visible: false, snap: false, size: 50, color: '#cccccc' }, guides: { enabled: true, color: '#ff4d4d' } });
@@ -430,13 +298,14 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         setAiProcessLog([]);
         setIsLogVisible(false);
         setLoadedPreset(null);
-    }, []);
+    }, [collaboration.isCollaborating, collaboration.leaveCollabSession]);
 
-    const handleCloseAndReset = useCallback(() => { handleResetState(); onClose(); }, [onClose, handleResetState]);
+    const handleCloseAndReset = useCallback(() => { documentLibrary.saveActiveDocument(); handleResetState(); onClose(); }, [onClose, handleResetState, documentLibrary.saveActiveDocument]);
 
     const handleRequestClose = useCallback(() => { if (layers.length > 0) { setIsConfirmingClose(true); } else { handleCloseAndReset(); } }, [layers, handleCloseAndReset]);
     
-    const handleConfirmNew = useCallback(async () => { await db.clearCanvasState(); handleResetState(); handleCreateNew(); }, [handleResetState, handleCreateNew]);
+    // The open canvas stays in the document library; the new one becomes a document of its own.
+    const handleConfirmNew = useCallback(async () => { setIsConfirmingNew(false); await documentLibrary.startNewDocument(); handleResetState(); handleCreateNew(); }, [handleResetState, handleCreateNew, documentLibrary.startNewDocument]);
     
     const handleNew = useCallback(() => { if (layers.length > 0) { setIsConfirmingNew(true); } else { handleCreateNew(); } }, [layers.length, handleCreateNew]);
     
@@ -509,6 +378,24 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1); interactionStartHistoryState.current = null;
     }, [layers, canvasSettings.width, canvasSettings.height, history, historyIndex, beginInteraction, canvasInitialized]);
     
+    // Adjustment layers go directly above the selected layer and cover it, or on top of everything covering the canvas.
+    const handleAddAdjustmentLayer = useCallback(() => {
+        if (!canvasInitialized) { setCanvasInitialized(true); } beginInteraction();
+        const target = selectedLayer && selectedLayer.type !== 'artboard' ? selectedLayer : null;
+        const box = target
+            ? { x: target.x, y: target.y, width: target.width, height: target.height, rotation: target.rotation }
+            : { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height, rotation: 0 };
+        const newLayer: Layer = {
+            id: Math.random().toString(36).substring(2, 9), type: 'adjustment', name: t('layerComposer_adjustment_defaultName'), parentId: target?.parentId,
+            ...box, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false,
+            adjustments: { ...INITIAL_PIXEL_ADJUSTMENTS, blur: 0 },
+        };
+        const insertAt = target ? layers.findIndex(l => l.id === target.id) : 0;
+        const newLayers = [...layers.slice(0, insertAt), newLayer, ...layers.slice(insertAt)];
+        setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
+        const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1); interactionStartHistoryState.current = null;
+    }, [layers, selectedLayer, canvasSettings.width, canvasSettings.height, history, historyIndex, beginInteraction, canvasInitialized, setLayers, t]);
+
     const addLayer = useCallback((layerData: Omit<Layer, 'id'>) => {
         if (!canvasInitialized) { setCanvasInitialized(true); } beginInteraction();
         const newLayer: Layer = Object.assign({}, layerData, { id: Math.random().toString(36).substring(2, 9) });
@@ -524,8 +411,8 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         const fileReadPromises = imageFiles.map(file => new Promise<string>((resolve, reject) => { const reader = new FileReader(); reader.onloadend = () => { if (typeof reader.result === 'string') resolve(reader.result); else reject(new Error('Failed to read file')); }; reader.onerror = reject; reader.readAsDataURL(file); }));
         Promise.all(fileReadPromises).then(dataUrls => {
             const imageLoadPromises = dataUrls.map(url => new Promise<HTMLImageElement>((resolve, reject) => { const img = new Image(); img.crossOrigin = "Anonymous"; img.onload = () => resolve(img); img.onerror = reject; img.src = url; }));
-            Promise.all(imageLoadPromises).then(loadedImages => addImagesAsLayers(loadedImages)).catch(err => { console.error("Error loading images:", err); setError(t('layerComposer_error', err instanceof Error ? err.message : "Image loading failed.")); });
-        }).catch(err => { console.error("Error reading files:", err); setError(t('layerComposer_error', err instanceof Error ? err.message : "File reading failed.")); });
+            Promise.all(imageLoadPromises).then(loadedImages => addImagesAsLayers(loadedImages)).catch(err => { console.error("Error loading images:", err); setError(t('layerComposer_error', getLocalizedErrorMessage(err, t, "Image loading failed."))); });
+        }).catch(err => { console.error("Error reading files:", err); setError(t('layerComposer_error', getLocalizedErrorMessage(err, t, "File reading failed."))); });
     };
 
     const handleUploadClick = () => fileInputRef.current?.click();
@@ -536,20 +423,20 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
 
     const deleteSelectedLayers = useCallback(() => {
         if (selectedLayerIds.length === 0) return; beginInteraction();
-        const newLayers = layers.filter(l => !selectedLayerIds.includes(l.id)); setLayers(newLayers);
+        const removedIds = new Set(getLayersWithDescendants(layers, selectedLayerIds).map(l => l.id));
+        const newLayers = layers.filter(l => !removedIds.has(l.id)); setLayers(newLayers);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null; setSelectedLayerIds([]);
     }, [selectedLayerIds, layers, history, historyIndex, beginInteraction]);
     
     const duplicateSelectedLayers = () => {
         if (selectedLayers.length === 0) return []; beginInteraction();
-        let newLayers = [...layers]; const newSelectedIds: string[] = [];
-        const topMostSelectedIndex = layers.findIndex(l => l.id === selectedLayers[0].id);
-        const layersToDuplicate = [...selectedLayers].reverse(); 
-        for(const layerToDup of layersToDuplicate) {
-             const newLayer: Layer = { ...layerToDup, id: Math.random().toString(36).substring(2, 9), x: layerToDup.x + 20, y: layerToDup.y + 20 };
-            newLayers.splice(topMostSelectedIndex, 0, newLayer); newSelectedIds.push(newLayer.id);
-        }
+        const newLayers = [...layers];
+        const topMostSelectedIndex = layers.findIndex(l => selectedLayerIds.includes(l.id));
+        const copies = cloneLayers(layers, selectedLayerIds, { x: 20, y: 20 });
+        const copyIds = new Set(copies.map(l => l.id));
+        const newSelectedIds = copies.filter(l => !l.parentId || !copyIds.has(l.parentId)).map(l => l.id);
+        newLayers.splice(topMostSelectedIndex, 0, ...copies);
         setLayers(newLayers); const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers);
         setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null; setSelectedLayerIds(newSelectedIds);
@@ -558,72 +445,79 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
 
     const handleDuplicateForDrag = (): Layer[] => {
         if (selectedLayers.length === 0) return []; beginInteraction();
-        let newLayersState = [...layers]; const newDuplicatedLayers: Layer[] = []; const newSelectedIds: string[] = [];
-        const topMostLayerInSelection = selectedLayers[0]; const topMostSelectedIndex = layers.findIndex(l => l.id === topMostLayerInSelection.id);
-        // FIX: Replaced spread operator with Object.assign to resolve a "Spread types may only be created from object types" error that occurred due to a subtle type inference issue.
-        [...selectedLayers].reverse().forEach(layerToDup => {
-            const newLayer: Layer = Object.assign({}, layerToDup, { id: Math.random().toString(36).substring(2, 9), x: layerToDup.x, y: layerToDup.y });
-            newLayersState.splice(topMostSelectedIndex, 0, newLayer); newDuplicatedLayers.unshift(newLayer); newSelectedIds.push(newLayer.id);
-        });
-        setLayers(newLayersState); setSelectedLayerIds(newSelectedIds);
-        return newDuplicatedLayers;
+        const newLayersState = [...layers];
+        const topMostSelectedIndex = layers.findIndex(l => selectedLayerIds.includes(l.id));
+        const copies = cloneLayers(layers, selectedLayerIds, { x: 0, y: 0 });
+        const copyIds = new Set(copies.map(l => l.id));
+        newLayersState.splice(topMostSelectedIndex, 0, ...copies);
+        setLayers(newLayersState); setSelectedLayerIds(copies.filter(l => !l.parentId || !copyIds.has(l.parentId)).map(l => l.id));
+        // The canvas drags the copies' leaf layers; the copied groups follow them.
+        return copies.filter(l => l.type !== 'group');
     };
     
     const handleExportSelectedLayers = useCallback(async () => {
         if (selectedLayers.length < 1) return; setRunningJobCount(prev => prev + 1); setError(null);
         try {
             for (const layer of selectedLayers) {
-                const exportedUrl = await captureLayer(layer); addImagesToGallery([exportedUrl]);
-                await new Promise(resolve => setTimeout(resolve, 200)); downloadImage(exportedUrl, `aPix-canvas-export-${layer.id || 'layer'}`);
+                const exportedUrl = await captureLayerWithChildren(layer); addImagesToGallery([exportedUrl]);
+                await new Promise(resolve => setTimeout(resolve, 200)); downloadImage(exportedUrl, `aPix-canvas-export-${layer.name || layer.id || 'layer'}`);
             }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+        } catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [selectedLayers, addImagesToGallery, t]);
 
-    const debouncedLayers = useDebounce(layers, 500);
-    const debouncedSettings = useDebounce(canvasSettings, 500);
-    const debouncedInfinite = useDebounce(isInfiniteCanvas, 500);
-
-    useEffect(() => {
-        if (canvasInitialized) {
-            const stateToSave = {
-                layers: debouncedLayers,
-                history,
-                historyIndex,
-                canvasSettings: debouncedSettings,
-                isInfiniteCanvas: debouncedInfinite,
-            };
-            db.saveCanvasState(stateToSave);
-        }
-    }, [debouncedLayers, debouncedSettings, debouncedInfinite, history, historyIndex, canvasInitialized]);
-
     const handleSave = async () => {
         setRunningJobCount(prev => prev + 1); setError(null);
         try {
             const canvasState = { canvasSettings: { ...canvasSettings, isInfinite: isInfiniteCanvas }, layers };
-            await db.saveCanvasState(canvasState); // Persist state before exporting
+            await documentLibrary.saveActiveDocument(); // Persist state before exporting
             downloadJson(canvasState, `aPix-canvas-state-${Date.now()}.json`);
             if (!isInfiniteCanvas) {
                 const dataUrl = await captureCanvas( layers, { x: 0, y: 0, width: canvasSettings.width, height: canvasSettings.height }, canvasSettings.background );
                 addImagesToGallery([dataUrl]);
             }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+        } catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally {
             setRunningJobCount(prev => Math.max(0, prev - 1));
         }
     };
     
+    const handleExportDocument = useCallback(async (format: DocumentExportFormat, region: ExportRegion) => {
+        const bounds = getExportBounds(layers, region, canvasSettings, selectedLayerIds);
+        if (!bounds) { setError(t('layerComposer_exportDocument_emptyRegion')); return; }
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            // Artboards and the fixed canvas export with their own background; the infinite canvas has none.
+            const background = region.type === 'canvas' && !isInfiniteCanvas ? canvasSettings.background : null;
+            const name = `aPix-document-${Date.now()}`;
+            if (format === 'png') {
+                const dataUrl = await captureCanvas(layers, bounds, background);
+                addImagesToGallery([dataUrl]); downloadImage(dataUrl, name);
+            } else if (format === 'svg') {
+                const svg = await buildDocumentSvg(layers, bounds, background, canvasSettings.customFonts);
+                downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${name}.svg`);
+            } else {
+                downloadBlob(await buildOpenRasterArchive(layers, bounds, background), `${name}.ora`);
+            }
+            setIsExportDialogOpen(false);
+        } catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [layers, canvasSettings, isInfiniteCanvas, selectedLayerIds, addImagesToGallery, t]);
+
     const handleMergeLayers = useCallback(async () => {
         if (selectedLayers.length < 2) return; beginInteraction(); setRunningJobCount(prev => prev + 1); setError(null);
         try {
             const bbox = getBoundingBoxForLayers(selectedLayers); if (!bbox) throw new Error("Could not calculate bounding box.");
-            const mergedImageUrl = await captureCanvas(selectedLayers, bbox, null);
-            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: mergedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
-            const topMostLayerIndex = layers.findIndex(l => l.id === selectedLayerIds[0]); const newLayers = layers.filter(l => !selectedLayerIds.includes(l.id));
+            const layersToMerge = getLayersWithDescendants(layers, selectedLayerIds);
+            const mergedImageUrl = await captureCanvas(layersToMerge, bbox, null);
+            const parentIds = new Set(selectedLayers.map(l => l.parentId));
+            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: mergedImageUrl, parentId: parentIds.size === 1 ? selectedLayers[0].parentId : undefined, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
+            const mergedIds = new Set(layersToMerge.map(l => l.id));
+            const topMostLayerIndex = layers.findIndex(l => mergedIds.has(l.id)); const newLayers = layers.filter(l => !mergedIds.has(l.id));
             newLayers.splice(topMostLayerIndex, 0, newLayer); setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
             const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
             interactionStartHistoryState.current = null;
-        } catch (err) { const msg = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', msg)); interactionStartHistoryState.current = null; }
+        } catch (err) { const msg = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', msg)); interactionStartHistoryState.current = null; }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [selectedLayers, layers, selectedLayerIds, beginInteraction, history, historyIndex, t]);
     
@@ -674,7 +568,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     
                 if (currentPreset.refine && hasLayerContext) {
                     addLog(t('layerComposer_ai_log_refining'), 'spinner');
-                    const tempImageUrls = await Promise.all(selectedLayers.map(l => captureLayer(l)));
+                    const tempImageUrls = await Promise.all(selectedLayers.map(l => captureLayerWithChildren(l)));
                     if (currentPreset.id === 'architecture') {
                         finalPrompt = await refineArchitecturePrompt(template, userPromptChunk, tempImageUrls);
                     } else {
@@ -696,11 +590,11 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                     if (isBatchMode) {
                         addLog(t('layerComposer_ai_log_capturingLayers', selectedLayers.length), 'info');
                         const generationPromises = selectedLayers.map(async (layer) => {
-                            const layerUrl = await captureLayer(layer);
+                            const layerUrl = await captureLayerWithChildren(layer);
                             if (signal.aborted) return [];
                             
                             const imagePromises = Array.from({ length: aiNumberOfImages }).map(() =>
-                                editImageWithPrompt(layerUrl, finalPrompt, aiAspectRatio, removeWatermark)
+                                editImageWithPrompt(layerUrl, finalPrompt, aiAspectRatio, removeWatermark, { signal, appId: 'layer-composer' })
                             );
                             
                             const imageUrls = await Promise.all(imagePromises);
@@ -712,11 +606,11 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                         results = resultsArrays.flat();
                     } else { 
                         addLog(t('layerComposer_ai_log_capturingLayers', selectedLayers.length), 'info');
-                        const imageUrlsToCombine = await Promise.all(selectedLayers.map(l => captureLayer(l)));
+                        const imageUrlsToCombine = await Promise.all(selectedLayers.map(l => captureLayerWithChildren(l)));
                         if (signal.aborted) throw new Error("Cancelled");
                         
                         const generationPromises = Array.from({ length: aiNumberOfImages }).map(() =>
-                            generateFromMultipleImages(imageUrlsToCombine, finalPrompt, aiAspectRatio, removeWatermark)
+                            generateFromMultipleImages(imageUrlsToCombine, finalPrompt, aiAspectRatio, removeWatermark, { signal, appId: 'layer-composer' })
                         );
                         
                         const generatedUrls = await Promise.all(generationPromises);
@@ -726,7 +620,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 } else { 
                     if (signal.aborted) throw new Error("Cancelled");
                     const finalNumImages = finalPrompts.length > 1 ? 1 : aiNumberOfImages;
-                    const resultUrls = await generateFreeImage(finalPrompt, finalNumImages, aiAspectRatio, undefined, undefined, undefined, undefined, removeWatermark);
+                    const resultUrls = await generateFreeImage(finalPrompt, finalNumImages, aiAspectRatio, undefined, undefined, undefined, undefined, removeWatermark, { signal, appId: 'layer-composer' });
                     results.push(...resultUrls);
                 }
                 allResults.push(...results);
@@ -757,7 +651,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             if (signal.aborted || (err instanceof Error && err.message === 'Cancelled')) {
                 console.log("Generation process was cancelled.");
             } else {
-                const errorMessage = err instanceof Error ? err.message : "Unknown error.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error.");
                 setError(errorMessage);
                 addLog(t('layerComposer_ai_log_error', errorMessage), 'error');
             }
@@ -768,13 +662,23 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 generationController.current = null;
             }
         }
-    }, [aiPrompt, aiPreset, isSimpleImageMode, selectedLayers, aiNumberOfImages, aiAspectRatio, removeWatermark, presets, language, t, addLog, aiProcessLog.length, addImagesAsLayers, captureLayer]);
+    }, [aiPrompt, aiPreset, isSimpleImageMode, selectedLayers, aiNumberOfImages, aiAspectRatio, removeWatermark, presets, language, t, addLog, aiProcessLog.length, addImagesAsLayers, captureLayerWithChildren]);
     
     const handleCancelGeneration = useCallback(() => { if (generationController.current) { generationController.current.abort(); addLog(`${t('layerComposer_ai_cancel')}...`, 'error'); } }, [t, addLog]);
 
+    // Arrow keys move the selection by the canvas's nudge step, one undo step per press.
+    const handleNudgeSelection = useCallback((dx: number, dy: number) => {
+        const targets = getTransformTargets(layers, selectedLayerIds).filter(l => !isLayerLocked(layers, l));
+        if (targets.length === 0) return;
+        beginInteraction();
+        updateMultipleLayers(targets.map(l => ({ id: l.id, props: { x: l.x + dx, y: l.y + dy } })), true);
+    }, [layers, selectedLayerIds, beginInteraction, history, historyIndex]);
+
     const handleMoveLayers = useCallback((direction: 'up' | 'down') => {
         if (selectedLayerIds.length === 0) return; beginInteraction();
-        const newLayers = [...layers]; const selectedIndices = selectedLayerIds.map(id => newLayers.findIndex(l => l.id === id)).filter(index => index !== -1).sort((a, b) => a - b);
+        // Layers move among their siblings, so a layer never leaves its group by being moved up or down.
+        const parentId = layers.find(l => l.id === selectedLayerIds[0])?.parentId;
+        const newLayers = getChildLayers(layers, parentId); const selectedIndices = selectedLayerIds.map(id => newLayers.findIndex(l => l.id === id)).filter(index => index !== -1).sort((a, b) => a - b);
         if (direction === 'up') {
             for (let i = 0; i < selectedIndices.length; i++) {
                 const currentIndex = selectedIndices[i];
@@ -792,13 +696,161 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 }
             }
         }
-        reorderLayers(newLayers);
+        reorderLayers(reorderChildLayers(layers, parentId, newLayers));
     }, [layers, selectedLayerIds, reorderLayers, beginInteraction]);
     
     const handleSelectLayer = useCallback((id: string) => { setSelectedLayerIds([id]); }, []);
 
+    const commitLayers = useCallback((newLayers: Layer[]) => {
+        setLayers(newLayers);
+        const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
+        interactionStartHistoryState.current = null;
+    }, [history, historyIndex, setLayers]);
+
+    const handleGroupSelectedLayers = useCallback(() => {
+        if (selectedLayerIds.length === 0) return;
+        const groupCount = layers.filter(l => l.type === 'group').length;
+        const result = groupLayers(layers, selectedLayerIds, t('layerComposer_group_defaultName', groupCount + 1));
+        if (!result) return;
+        beginInteraction(); commitLayers(result.layers); setSelectedLayerIds([result.groupId]);
+    }, [layers, selectedLayerIds, beginInteraction, commitLayers, t]);
+
+    const handleUngroupSelected = useCallback(() => {
+        const groupIds = selectedLayers.filter(l => l.type === 'group').map(l => l.id);
+        if (groupIds.length === 0) return; beginInteraction();
+        let newLayers = layers; const childIds: string[] = [];
+        groupIds.forEach(groupId => {
+            const result = ungroupLayer(newLayers, groupId);
+            if (result) { newLayers = result.layers; childIds.push(...result.childIds); }
+        });
+        commitLayers(newLayers); setSelectedLayerIds(childIds);
+    }, [layers, selectedLayers, beginInteraction, commitLayers]);
+
+    const handleAddArtboard = useCallback((rect?: Rect) => {
+        if (!canvasInitialized) { setCanvasInitialized(true); } beginInteraction();
+        const { panX: currentPanX, panY: currentPanY, scale: currentScale } = appStateRef.current;
+        const viewRect = canvasViewRef.current?.getBoundingClientRect();
+        const size = 1080;
+        const center = viewRect
+            ? { x: (viewRect.width / 2 - currentPanX) / currentScale, y: (viewRect.height / 2 - currentPanY) / currentScale }
+            : { x: canvasSettings.width / 2, y: canvasSettings.height / 2 };
+        const artboardCount = layers.filter(l => l.type === 'artboard').length;
+        const artboard: Layer = {
+            id: Math.random().toString(36).substring(2, 9), type: 'artboard', name: t('layerComposer_artboard_defaultName', artboardCount + 1), fillColor: '#ffffff',
+            x: rect?.x ?? center.x - size / 2, y: rect?.y ?? center.y - size / 2, width: rect?.width ?? size, height: rect?.height ?? size,
+            rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false,
+        };
+        commitLayers([...layers, artboard]); setSelectedLayerIds([artboard.id]);
+    }, [layers, canvasInitialized, canvasSettings.width, canvasSettings.height, beginInteraction, commitLayers, t]);
+
+    const handleExportArtboards = useCallback(async (ids?: string[]) => {
+        const artboards = layers.filter(l => l.type === 'artboard' && (!ids || ids.includes(l.id)));
+        if (artboards.length === 0) return; setRunningJobCount(prev => prev + 1); setError(null);
+        try {
+            for (const artboard of artboards) {
+                const exportedUrl = await captureLayerWithChildren(artboard); addImagesToGallery([exportedUrl]);
+                await new Promise(resolve => setTimeout(resolve, 200)); downloadImage(exportedUrl, `aPix-artboard-${artboard.name || artboard.id}`);
+            }
+        } catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [layers, captureLayerWithChildren, addImagesToGallery, t]);
+
+    const handleBooleanOperation = useCallback((operation: BooleanOperation) => {
+        const operands = layers.filter(l => selectedLayerIds.includes(l.id) && (l.type === 'shape' || l.type === 'path'));
+        if (operands.length < 2) return;
+        // Shapes are combined from the bottom up, so subtracting takes everything above away from the bottom shape,
+        // which also gives the result its style.
+        const [bottom, ...others] = [...operands].reverse();
+        const rings = others.reduce((result, layer) => combineOutlines(result, getLayerOutline(layer), operation), getLayerOutline(bottom));
+        const geometry = createPathFromCanvasSubpaths(ringsToSubpaths(rings), 'evenodd');
+        if (!geometry) { setError(t('layerComposer_boolean_emptyResult')); return; }
+        beginInteraction();
+        const topmost = operands[0];
+        const result: Layer = {
+            id: Math.random().toString(36).substring(2, 9), type: 'path', name: t(`layerComposer_boolean_${operation}`), parentId: topmost.parentId, ...geometry,
+            fillColor: bottom.fillColor && bottom.fillColor !== 'none' ? bottom.fillColor : '#FFFFFF', fillGradient: bottom.fillGradient, stroke: bottom.stroke,
+            rotation: 0, opacity: bottom.opacity, blendMode: bottom.blendMode, isVisible: true, isLocked: false,
+        };
+        const operandIds = new Set(operands.map(l => l.id));
+        const insertAt = layers.findIndex(l => l.id === topmost.id);
+        const newLayers = [...layers.slice(0, insertAt), result, ...layers.slice(insertAt)].filter(l => !operandIds.has(l.id));
+        commitLayers(normalizeLayers(newLayers)); setSelectedLayerIds([result.id]);
+    }, [layers, selectedLayerIds, beginInteraction, commitLayers, t]);
+
+    const handleExportSvg = useCallback(() => {
+        const vectorLayers = getLayersWithDescendants(layers, selectedLayerIds).filter(l => (l.type === 'path' || l.type === 'shape') && l.isVisible);
+        const bounds = getBoundingBoxForLayers(vectorLayers);
+        if (!bounds) return;
+        // Leave room for strokes and arrowheads, which reach past the layers' boxes.
+        const padding = Math.max(0, ...vectorLayers.map(l => l.stroke ? Math.max(l.stroke.width * 3, 8) : 0));
+        const svg = buildSvgDocument(vectorLayers, { x: bounds.x - padding, y: bounds.y - padding, width: bounds.width + padding * 2, height: bounds.height + padding * 2 });
+        const name = selectedLayers.length === 1 ? (selectedLayers[0].name || selectedLayers[0].id) : 'layers';
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `aPix-vector-${name}.svg`);
+    }, [layers, selectedLayerIds, selectedLayers]);
+
+    const handleImportSvg = useCallback(async (file: File) => {
+        setError(null);
+        try {
+            const imported = importSvgAsPathLayers(await file.text())
+                .map(layer => ({ ...layer, id: Math.random().toString(36).substring(2, 9) } as Layer));
+            const bounds = getBoundingBoxForLayers(imported);
+            if (!bounds) { setError(t('layerComposer_svg_noShapes')); return; }
+            if (!canvasInitialized) { setCanvasInitialized(true); } beginInteraction();
+            // Imported artwork lands in the middle of the view, keeping its size and layout.
+            const { panX: currentPanX, panY: currentPanY, scale: currentScale } = appStateRef.current;
+            const viewRect = canvasViewRef.current?.getBoundingClientRect();
+            const center = viewRect
+                ? { x: (viewRect.width / 2 - currentPanX) / currentScale, y: (viewRect.height / 2 - currentPanY) / currentScale }
+                : { x: canvasSettings.width / 2, y: canvasSettings.height / 2 };
+            const dx = center.x - (bounds.x + bounds.width / 2), dy = center.y - (bounds.y + bounds.height / 2);
+            const placed = imported.map(layer => ({ ...layer, x: layer.x + dx, y: layer.y + dy }));
+            let newLayers = [...placed, ...layers];
+            let selection = placed.map(l => l.id);
+            if (placed.length > 1) {
+                const grouped = groupLayers(newLayers, selection, file.name.replace(/\.svg$/i, ''));
+                if (grouped) { newLayers = grouped.layers; selection = [grouped.groupId]; }
+            }
+            commitLayers(normalizeLayers(newLayers)); setSelectedLayerIds(selection);
+        } catch (err) {
+            console.error("Failed to import SVG:", err);
+            setError(t('layerComposer_svg_importError', getLocalizedErrorMessage(err, t, "Unknown error.")));
+        }
+    }, [layers, canvasInitialized, canvasSettings.width, canvasSettings.height, beginInteraction, commitLayers, t]);
+
+    const handleAttachTextToPath = useCallback(() => {
+        const text = selectedLayers.find(l => l.type === 'text');
+        const path = selectedLayers.find(l => l.type === 'path');
+        if (selectedLayers.length !== 2 || !text || !path?.path) return;
+        beginInteraction();
+        // The text takes over the path's box, grown by a line so the glyphs stay inside it.
+        const padding = text.fontSize || 50;
+        const textPath = { path: padVectorPath(path.path, path.width, path.height, padding), startOffset: text.textAlign === 'center' ? 50 : text.textAlign === 'right' ? 100 : 0 };
+        const attached: Partial<Layer> = { textPath, x: path.x - padding, y: path.y - padding, width: path.width + padding * 2, height: path.height + padding * 2, rotation: path.rotation };
+        commitLayers(normalizeLayers(layers.filter(l => l.id !== path.id).map(l => l.id === text.id ? { ...l, ...attached } : l)));
+        setSelectedLayerIds([text.id]);
+    }, [layers, selectedLayers, beginInteraction, commitLayers]);
+
+    const handleUploadFont = useCallback(async (file: File): Promise<string | null> => {
+        setError(null);
+        try {
+            const url = await new Promise<string>((resolve, reject) => { const reader = new FileReader(); reader.onloadend = () => { if (typeof reader.result === 'string') resolve(reader.result); else reject(new Error('Failed to read file')); }; reader.onerror = reject; reader.readAsDataURL(file); });
+            const family = file.name.replace(/\.[^.]+$/, '');
+            await loadCustomFont({ family, url });
+            // Fonts are stored with the canvas settings so saved canvases and exports keep rendering with them.
+            setCanvasSettings(s => ({ ...s, customFonts: [...(s.customFonts || []).filter(f => f.family !== family), { family, url }] }));
+            return family;
+        } catch (err) {
+            console.error("Failed to load font:", err);
+            setError(t('layerComposer_font_uploadError', getLocalizedErrorMessage(err, t, "Unknown error.")));
+            return null;
+        }
+    }, [t]);
+
     const handleMultiLayerAction = useCallback((action: MultiLayerAction) => {
-        switch (action) { case 'delete': deleteSelectedLayers(); return; case 'duplicate': duplicateSelectedLayers(); return; case 'export': handleExportSelectedLayers(); return; }
+        if (action === 'text-on-path') { handleAttachTextToPath(); return; }
+        if (action.startsWith('boolean-')) { handleBooleanOperation(action.replace('boolean-', '') as BooleanOperation); return; }
+        if (action === 'export-svg') { handleExportSvg(); return; }
+        switch (action) { case 'delete': deleteSelectedLayers(); return; case 'duplicate': duplicateSelectedLayers(); return; case 'export': handleExportSelectedLayers(); return; case 'group': handleGroupSelectedLayers(); return; }
         if (selectedLayers.length < 2) return; beginInteraction();
         if (action === 'merge') { handleMergeLayers(); return; }
         const bbox = getBoundingBoxForLayers(selectedLayers); if (!bbox) { interactionStartHistoryState.current = null; return; }
@@ -815,23 +867,29 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             case 'distribute-and-scale-horizontal': { const sorted = [...selectedLayers].sort((a, b) => a.x - b.x); if (sorted.length === 0) break; const totalHeight = sorted.reduce((sum, l) => sum + l.height, 0); const avgHeight = totalHeight / sorted.length; if (avgHeight <= 0) break; let currentX = bbox.x; sorted.forEach(layer => { const aspectRatio = (layer.height > 0) ? layer.width / layer.height : 1; const newWidth = avgHeight * aspectRatio; updates.push({ id: layer.id, props: { width: newWidth, height: avgHeight, x: currentX, y: bbox.y } }); currentX += newWidth + GAP; }); break; }
             case 'distribute-and-scale-vertical': { const sorted = [...selectedLayers].sort((a, b) => a.y - b.y); if (sorted.length === 0) break; const totalWidth = sorted.reduce((sum, l) => sum + l.width, 0); const avgWidth = totalWidth / sorted.length; if (avgWidth <= 0) break; let currentY = bbox.y; sorted.forEach(layer => { const aspectRatio = (layer.width > 0) ? layer.height / layer.width : 1; const newHeight = avgWidth * aspectRatio; updates.push({ id: layer.id, props: { width: avgWidth, height: newHeight, x: bbox.x, y: currentY } }); currentY += newHeight + GAP; }); break; }
         }
-        if (updates.length > 0) { updateMultipleLayers(updates, true); } else { interactionStartHistoryState.current = null; }
-    }, [selectedLayers, layers, beginInteraction, updateMultipleLayers, deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleMergeLayers]);
+        // A group's box follows its children, so moving a group means moving what's inside it.
+        const resolvedUpdates = updates.flatMap(update => {
+            const layer = layers.find(l => l.id === update.id);
+            return layer?.type === 'group' ? getGroupTransformUpdates(layers, layer, update.props) : [update];
+        });
+        if (resolvedUpdates.length > 0) { updateMultipleLayers(resolvedUpdates, true); } else { interactionStartHistoryState.current = null; }
+    }, [selectedLayers, layers, beginInteraction, updateMultipleLayers, deleteSelectedLayers, duplicateSelectedLayers, handleExportSelectedLayers, handleMergeLayers, handleGroupSelectedLayers, handleBooleanOperation, handleExportSvg, handleAttachTextToPath]);
     
     const handleBakeSelectedLayer = useCallback(async () => {
         if (selectedLayers.length !== 1) return; const layerToBake = selectedLayers[0];
         beginInteraction(); setRunningJobCount(prev => prev + 1); setError(null);
         try {
             const bbox = getBoundingBoxForLayers([layerToBake]); if (!bbox) throw new Error("Could not calculate layer bounds.");
-            const bakedImageUrl = await captureCanvas([layerToBake], bbox, null);
-            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: bakedImageUrl, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: layerToBake.isVisible, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
+            const bakedImageUrl = await captureCanvas(getLayersWithDescendants(layers, [layerToBake.id]), bbox, null);
+            const newLayer: Layer = { id: Math.random().toString(36).substring(2, 9), type: 'image', url: bakedImageUrl, parentId: layerToBake.parentId, clipToBelow: layerToBake.clipToBelow, x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: layerToBake.isVisible, isLocked: false, fontWeight: 'normal', fontStyle: 'normal', textTransform: 'none', textAlign: undefined, color: undefined, lineHeight: undefined, };
             const oldLayers = layers; const oldHistoryIndex = historyIndex;
-            const newLayers = oldLayers.map(l => l.id === layerToBake.id ? newLayer : l);
+            const bakedIds = new Set(getLayersWithDescendants(oldLayers, [layerToBake.id]).map(l => l.id));
+            const newLayers = oldLayers.flatMap(l => l.id === layerToBake.id ? [newLayer] : bakedIds.has(l.id) ? [] : [l]);
             setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
             const newHistory = history.slice(0, oldHistoryIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
             interactionStartHistoryState.current = null;
-            if (editingMaskForLayerId === layerToBake.id) { setEditingMaskForLayerId(null); setRectBorderRadius(0); }
-        } catch (err) { const errorMessage = err instanceof Error ? err.message : "Unknown error."; setError(t('layerComposer_error', errorMessage)); }
+            if (editingMaskForLayerId === layerToBake.id) { setEditingMaskForLayerId(null); }
+        } catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
         finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [selectedLayers, layers, history, historyIndex, beginInteraction, editingMaskForLayerId, setLayers, setHistory, setHistoryIndex, setSelectedLayerIds, setError, t]);
 
@@ -848,9 +906,9 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             addLog(t('layerComposer_ai_log_generating'), 'spinner');
             if (isBatchMode) {
                 addLog(`Starting batch generation for ${selectedLayers.length} layers.`, 'info');
-                const generationPromises = selectedLayers.map(async (layer) => { const layerUrl = await captureLayer(layer); return generateFromPreset(loadedPreset, [layerUrl]); });
+                const generationPromises = selectedLayers.map(async (layer) => { const layerUrl = await captureLayerWithChildren(layer); return generateFromPreset(loadedPreset, [layerUrl]); });
                 const resultsFromAllLayers = await Promise.all(generationPromises); resultUrls = resultsFromAllLayers.flat();
-            } else { const selectedLayerUrls = await Promise.all(selectedLayers.map(l => captureLayer(l))); resultUrls = await generateFromPreset(loadedPreset, selectedLayerUrls); }
+            } else { const selectedLayerUrls = await Promise.all(selectedLayers.map(l => captureLayerWithChildren(l))); resultUrls = await generateFromPreset(loadedPreset, selectedLayerUrls); }
             setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner'));
             if (resultUrls.length === 0) { throw new Error(t('layerComposer_ai_log_noImagesGenerated')); }
             addLog(t('layerComposer_ai_log_generatedCount', resultUrls.length), 'info'); addLog(t('layerComposer_ai_log_loadingResults'), 'info');
@@ -861,7 +919,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             const position = referenceBounds ? { x: referenceBounds.x + referenceBounds.width + 20, y: referenceBounds.y } : undefined; addImagesAsLayers(loadedImages, position);
             addLog(t('layerComposer_ai_log_success'), 'success');
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Unknown error during preset generation.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error during preset generation.");
             setError(errorMessage); setAiProcessLog(prev => prev.filter(l => l.type !== 'spinner')); addLog(t('layerComposer_ai_log_error', errorMessage), 'error');
         } finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
     }, [loadedPreset, selectedLayers, layers, t, isSimpleImageMode, addLog, aiProcessLog.length]);
@@ -879,12 +937,21 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
             const isDelete = (e.code === 'Delete' || e.code === 'Backspace'); const isDuplicate = (e.metaKey || e.ctrlKey) && e.code === 'KeyJ';
             const isMoveDown = (e.metaKey || e.ctrlKey) && e.code === 'BracketLeft'; const isMoveUp = (e.metaKey || e.ctrlKey) && e.code === 'BracketRight';
             const isDeselectAll = (e.metaKey || e.ctrlKey) && e.code === 'KeyD'; const isExport = (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'e';
+            const isGroup = (e.metaKey || e.ctrlKey) && e.code === 'KeyG' && !e.shiftKey; const isUngroup = (e.metaKey || e.ctrlKey) && e.code === 'KeyG' && e.shiftKey;
             const isToggleChatbot = e.code === 'Backquote';
             if (isToggleChatbot) { e.preventDefault(); setIsChatbotOpen(v => !v); return; }
             if (selectedLayerIds.length > 0) {
                 if (isDelete) { e.preventDefault(); deleteSelectedLayers(); return; } if (isDuplicate) { e.preventDefault(); duplicateSelectedLayers(); return; }
                 if (isMoveDown) { e.preventDefault(); handleMoveLayers('down'); return; } if (isMoveUp) { e.preventDefault(); handleMoveLayers('up'); return; }
                 if (isExport) { e.preventDefault(); handleExportSelectedLayers(); return; }
+                if (isGroup) { e.preventDefault(); handleGroupSelectedLayers(); return; } if (isUngroup) { e.preventDefault(); handleUngroupSelected(); return; }
+            }
+            const nudge = NUDGE_DIRECTIONS[e.code];
+            if (nudge && selectedLayerIds.length > 0 && !e.metaKey && !e.ctrlKey && !e.altKey) {
+                e.preventDefault();
+                const step = (canvasSettings.nudgeStep || DEFAULT_NUDGE_STEP) * (e.shiftKey ? 10 : 1);
+                handleNudgeSelection(nudge[0] * step, nudge[1] * step);
+                return;
             }
             if (isDeselectAll) { e.preventDefault(); setSelectedLayerIds([]); return; }
             const isSimpleKey = !e.metaKey && !e.ctrlKey && !e.shiftKey && !e.altKey;
@@ -895,6 +962,9 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                     case 'KeyH': setActiveCanvasTool('hand'); handled = true; break;
                     case 'KeyR': setActiveCanvasTool('rectangle'); handled = true; break;
                     case 'KeyE': setActiveCanvasTool('ellipse'); handled = true; break;
+                    case 'KeyA': setActiveCanvasTool('artboard'); handled = true; break;
+                    case 'KeyP': setActiveCanvasTool('pen'); handled = true; break;
+                    case 'KeyM': setActiveCanvasTool('measure'); handled = true; break;
                 }
                 if (handled) e.preventDefault();
             }
@@ -902,7 +972,7 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         const handleKeyUp = (e: KeyboardEvent) => { if (!isOpen) return; if (e.code === 'Space') { setIsSpacePanning(false); } };
         window.addEventListener('keydown', handleKeyDown); window.addEventListener('keyup', handleKeyUp);
         return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); };
-    }, [ isOpen, handleUndo, handleRedo, deleteSelectedLayers, duplicateSelectedLayers, handleMoveLayers, setSelectedLayerIds, selectedLayerIds, activeCanvasTool, selectedLayer, handleExportSelectedLayers ]);
+    }, [ isOpen, handleUndo, handleRedo, deleteSelectedLayers, duplicateSelectedLayers, handleMoveLayers, setSelectedLayerIds, selectedLayerIds, activeCanvasTool, selectedLayer, handleExportSelectedLayers, handleGroupSelectedLayers, handleUngroupSelected, handleNudgeSelection, canvasSettings.nudgeStep ]);
 
     useEffect(() => {
         const handleTabKey = (e: KeyboardEvent) => {
@@ -927,12 +997,13 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
                 if (appConfig && (appConfig as any).supportsCanvasPreset) { setLoadedPreset(settingsData); }
                 else { throw new Error(`The app "${settingsData.viewId}" does not support presets.`); }
             } else { throw new Error("Invalid preset file format."); }
-        } catch (e) { console.error("Failed to load preset file", e); setError(e instanceof Error ? e.message : "Could not read preset file."); }
+        } catch (e) { console.error("Failed to load preset file", e); setError(getLocalizedErrorMessage(e, t, "Could not read preset file.")); }
     };
     
     const deleteLayer = useCallback((layerId: string) => {
         if (!layerId) return; beginInteraction();
-        const newLayers = layers.filter(l => l.id !== layerId); setLayers(newLayers);
+        const removedIds = new Set(getLayersWithDescendants(layers, [layerId]).map(l => l.id));
+        const newLayers = layers.filter(l => !removedIds.has(l.id)); setLayers(newLayers);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null; setSelectedLayerIds(ids => ids.filter(id => id !== layerId));
     }, [layers, history, historyIndex, beginInteraction]);
@@ -940,8 +1011,8 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
     const duplicateLayer = useCallback((layerId: string): Layer => {
         beginInteraction(); let newLayers = [...layers]; const layerToDup = layers.find(l => l.id === layerId);
         if (!layerToDup) { console.error("Layer to duplicate not found:", layerId); return { id: '', type: 'image', x:0, y:0, width:0, height:0, rotation: 0, opacity: 100, blendMode: 'source-over', isVisible: true, isLocked: false }; }
-        const newLayer: Layer = { ...layerToDup, id: Math.random().toString(36).substring(2, 9), x: layerToDup.x + 20, y: layerToDup.y + 20 };
-        const originalIndex = layers.findIndex(l => l.id === layerId); newLayers.splice(originalIndex >= 0 ? originalIndex : 0, 0, newLayer);
+        const copies = cloneLayers(layers, [layerId], { x: 20, y: 20 }); const newLayer = copies[0];
+        const originalIndex = layers.findIndex(l => l.id === layerId); newLayers.splice(originalIndex >= 0 ? originalIndex : 0, 0, ...copies);
         setLayers(newLayers); setSelectedLayerIds([newLayer.id]);
         const newHistory = history.slice(0, historyIndex + 1); newHistory.push(newLayers); setHistory(newHistory); setHistoryIndex(newHistory.length - 1);
         interactionStartHistoryState.current = null;
@@ -964,8 +1035,10 @@ export const useLayerComposerState = ({ isOpen, onClose, onHide }: { isOpen: boo
         onResizeSelectedLayers: handleResizeSelectedLayers, onOpenChatbot: handleOpenChatbot, onUpdateLayers: updateMultipleLayers,
         exportSelectedLayer: handleExportSelectedLayers, onFilesDrop: handleFilesDrop, onMultiLayerAction: handleMultiLayerAction,
         onDuplicateForDrag: handleDuplicateForDrag, handleMergeLayers, openImageEditor, deleteSelectedLayers, duplicateSelectedLayers,
-        handleExportSelectedLayers, handleBakeSelectedLayer, captureLayer, addLayer, deleteLayer, duplicateLayer, handleCreateNew, handleUploadClick,
+        handleExportSelectedLayers, handleBakeSelectedLayer, captureLayer: captureLayerWithChildren, addLayer, deleteLayer, duplicateLayer, handleCreateNew, handleUploadClick,
+        handleGroupSelectedLayers, handleUngroupSelected, handleAddArtboard, handleExportArtboards, editingMaskForLayerId, setEditingMaskForLayerId,
+        handleAddAdjustmentLayer, handleExportSvg, handleImportSvg, handleUploadFont, isExportDialogOpen, setIsExportDialogOpen, handleExportDocument,
         handleFileSelected, handleStartScreenDragOver, handleStartScreenDragLeave, handleStartScreenDrop, isStartScreenDraggingOver,
-        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio, removeWatermark, setRemoveWatermark
+        aiNumberOfImages, setAiNumberOfImages, aiAspectRatio, setAiAspectRatio, removeWatermark, setRemoveWatermark, ...collaboration, ...documentLibrary, ...templates
     };
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useCallback } from 'react';
+import { type Layer, type Rect, type CanvasSettings, type CanvasDocumentState, type CanvasTemplateRecord } from './LayerComposer.types';
+import { getTemplateSlots, applyTemplate, getClosestAspectRatio, type SlotContent } from './templates';
+import { createDocumentThumbnail } from './documentLibrary';
+import { generateFreeImage, getLocalizedErrorMessage } from '../../services/geminiService';
+import * as db from '../../lib/db';
+
+interface UseTemplatesOptions {
+    layers: Layer[];
+    canvasSettings: CanvasSettings;
+    isInfiniteCanvas: boolean;
+    removeWatermark: boolean;
+    // Opens the filled-in template as a document of its own. See useDocumentLibrary.ts.
+    openAsNewDocument: (state: CanvasDocumentState, name: string) => Promise<void>;
+    setRunningJobCount: React.Dispatch<React.SetStateAction<number>>;
+    setError: (error: string | null) => void;
+    t: (key: string, ...args: any[]) => string;
+}
+
+const createId = () => Math.random().toString(36).substring(2, 9);
+
+/**
+ * Saves the open canvas as a template, and starts new documents from templates with their slots filled in.
+ */
+export const useTemplates = ({
+    layers, canvasSettings, isInfiniteCanvas, removeWatermark, openAsNewDocument, setRunningJobCount, setError, t
+}: UseTemplatesOptions) => {
+    const [templates, setTemplates] = useState<CanvasTemplateRecord[]>([]);
+    const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+
+    useEffect(() => {
+        if (!isTemplateDialogOpen) return;
+        setError(null);
+        db.getCanvasTemplates().then(setTemplates).catch(err => console.error("Failed to list canvas templates:", err));
+    }, [isTemplateDialogOpen]);
+
+    const runTemplateAction = useCallback(async (action: () => Promise<void>) => {
+        setRunningJobCount(prev => prev + 1); setError(null);
+        try { await action(); }
+        catch (err) { const errorMessage = getLocalizedErrorMessage(err, t, "Unknown error."); setError(t('layerComposer_error', errorMessage)); }
+        finally { setRunningJobCount(prev => Math.max(0, prev - 1)); }
+    }, [setRunningJobCount, setError, t]);
+
+    const handleSaveTemplate = useCallback((name: string) => runTemplateAction(async () => {
+        if (getTemplateSlots(layers).length === 0) throw new Error(t('layerComposer_templates_noSlots'));
+        const state = { layers, canvasSettings, isInfiniteCanvas };
+        const template: CanvasTemplateRecord = {
+            id: createId(), createdAt: Date.now(), state,
+            name: name.trim() || t('layerComposer_templates_defaultName', new Date().toLocaleString()),
+            thumbnail: await createDocumentThumbnail(state),
+        };
+        await db.saveCanvasTemplate(template);
+        setTemplates(prev => [template, ...prev]);
+    }), [layers, canvasSettings, isInfiniteCanvas, runTemplateAction, t]);
+
+    const handleDeleteTemplate = useCallback((id: string) => runTemplateAction(async () => {
+        await db.deleteCanvasTemplate(id);
+        setTemplates(prev => prev.filter(template => template.id !== id));
+    }), [runTemplateAction]);
+
+    const handleApplyTemplate = useCallback((id: string, contents: Record<string, SlotContent>) => runTemplateAction(async () => {
+        const template = templates.find(item => item.id === id);
+        if (!template) return;
+        await openAsNewDocument(await applyTemplate(template, contents), template.name);
+        setIsTemplateDialogOpen(false);
+    }), [templates, openAsNewDocument, runTemplateAction]);
+
+    /**
+     * Generates an image for a slot in the shape of its box. Resolves to null when generation fails;
+     * the error is shown like other errors.
+     */
+    const generateSlotImage = useCallback(async (prompt: string, box: Rect): Promise<string | null> => {
+        let url: string | null = null;
+        await runTemplateAction(async () => {
+            const [result] = await generateFreeImage(prompt, 1, getClosestAspectRatio(box), undefined, undefined, undefined, undefined, removeWatermark, { appId: 'layer-composer' });
+            url = result || null;
+        });
+        return url;
+    }, [removeWatermark, runTemplateAction]);
+
+    return {
+        templates, isTemplateDialogOpen, setIsTemplateDialogOpen,
+        handleSaveTemplate, handleDeleteTemplate, handleApplyTemplate, generateSlotImage,
+    };
+};
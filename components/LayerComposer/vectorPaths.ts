@@ -0,0 +1,676 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type Layer, type Point, type VectorPath, type VectorSubpath, type StrokeStyle, type GradientFill } from './LayerComposer.types';
+import { type PenNode } from '../ImageEditor/ImageEditor.types';
+import { approximateCubicBezier } from '../ImageEditor/ImageEditor.utils';
+
+// Path layers keep their geometry as Bézier nodes (the same PenNode the ImageEditor's pen tool uses) in a
+// space of path.width × path.height, stretched over the layer's box when drawn. Everything that draws a
+// path (the DOM preview, layerRendering.ts and SVG export) goes through the helpers here, so they agree.
+
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+type Ring = Point[];
+
+export const DEFAULT_STROKE: StrokeStyle = { color: '#000000', width: 4, dash: 'solid', lineCap: 'round' };
+
+const cornerNode = (point: Point): PenNode => ({ anchor: point, inHandle: point, outHandle: point });
+
+const mapNode = (node: PenNode, map: (p: Point) => Point): PenNode => ({
+    anchor: map(node.anchor), inHandle: map(node.inHandle), outHandle: map(node.outHandle),
+});
+
+const mapSubpaths = (subpaths: VectorSubpath[], map: (p: Point) => Point): VectorSubpath[] =>
+    subpaths.map(subpath => ({ ...subpath, nodes: subpath.nodes.map(node => mapNode(node, map)) }));
+
+/**
+ * A path's subpaths stretched over a box of width × height.
+ */
+export const scaleVectorPath = (path: VectorPath, width: number, height: number): VectorSubpath[] => {
+    const sx = path.width > 0 ? width / path.width : 1;
+    const sy = path.height > 0 ? height / path.height : 1;
+    return mapSubpaths(path.subpaths, p => ({ x: p.x * sx, y: p.y * sy }));
+};
+
+/**
+ * A path's nodes in a box of width × height, with padding added around them on every side.
+ */
+export const padVectorPath = (path: VectorPath, width: number, height: number, padding: number): VectorPath => ({
+    ...path,
+    width: width + padding * 2,
+    height: height + padding * 2,
+    subpaths: mapSubpaths(scaleVectorPath(path, width, height), p => ({ x: p.x + padding, y: p.y + padding })),
+});
+
+/**
+ * The layer's subpaths in its box's units (0,0 at the top-left of the box).
+ */
+export const getLayerSubpaths = (layer: Layer): VectorSubpath[] =>
+    layer.path ? scaleVectorPath(layer.path, layer.width, layer.height) : [];
+
+const isStraight = (from: PenNode, to: PenNode) =>
+    from.outHandle.x === from.anchor.x && from.outHandle.y === from.anchor.y &&
+    to.inHandle.x === to.anchor.x && to.inHandle.y === to.anchor.y;
+
+const forEachSegment = (subpath: VectorSubpath, callback: (from: PenNode, to: PenNode) => void) => {
+    const { nodes, closed } = subpath;
+    for (let i = 1; i < nodes.length; i++) callback(nodes[i - 1], nodes[i]);
+    if (closed && nodes.length > 1) callback(nodes[nodes.length - 1], nodes[0]);
+};
+
+export const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+export const subpathsToSvgData = (subpaths: VectorSubpath[]): string => subpaths
+    .filter(subpath => subpath.nodes.length > 0)
+    .map(subpath => {
+        const start = subpath.nodes[0].anchor;
+        let d = `M${fmt(start.x)} ${fmt(start.y)}`;
+        forEachSegment(subpath, (from, to) => {
+            d += isStraight(from, to)
+                ? ` L${fmt(to.anchor.x)} ${fmt(to.anchor.y)}`
+                : ` C${fmt(from.outHandle.x)} ${fmt(from.outHandle.y)} ${fmt(to.inHandle.x)} ${fmt(to.inHandle.y)} ${fmt(to.anchor.x)} ${fmt(to.anchor.y)}`;
+        });
+        return subpath.closed ? `${d} Z` : d;
+    })
+    .join(' ');
+
+/**
+ * Flattens subpaths into polylines (closed subpaths repeat no point; the closing edge is implied).
+ */
+export const flattenSubpaths = (subpaths: VectorSubpath[]): Ring[] => subpaths
+    .filter(subpath => subpath.nodes.length > 0)
+    .map(subpath => {
+        const points: Point[] = [subpath.nodes[0].anchor];
+        forEachSegment(subpath, (from, to) => {
+            if (isStraight(from, to)) {
+                points.push(to.anchor);
+            } else {
+                points.push(...approximateCubicBezier(from.anchor, from.outHandle, to.inHandle, to.anchor, 16).slice(1));
+            }
+        });
+        if (subpath.closed && points.length > 1) points.pop();
+        return points;
+    });
+
+const getPointsBounds = (points: Point[]) => {
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+};
+
+/**
+ * Turns subpaths drawn in canvas coordinates into the box and path of a new path layer.
+ * Straight lines get a box at least 1 unit thick so they can still be scaled.
+ */
+export const createPathFromCanvasSubpaths = (subpaths: VectorSubpath[], fillRule?: VectorPath['fillRule']): Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'path'> | null => {
+    const points = flattenSubpaths(subpaths).flat();
+    if (points.length < 2) return null;
+    const bounds = getPointsBounds(points);
+    const width = Math.max(1, bounds.width);
+    const height = Math.max(1, bounds.height);
+    const x = bounds.x - (width - bounds.width) / 2;
+    const y = bounds.y - (height - bounds.height) / 2;
+    return {
+        x, y, width, height,
+        path: { width, height, subpaths: mapSubpaths(subpaths, p => ({ x: p.x - x, y: p.y - y })), fillRule },
+    };
+};
+
+export const getDashArray = (stroke: StrokeStyle): number[] => {
+    switch (stroke.dash) {
+        case 'dashed': return [stroke.width * 3, stroke.width * 2];
+        case 'dotted': return stroke.lineCap === 'butt' ? [stroke.width, stroke.width] : [0.01, stroke.width * 2];
+        default: return [];
+    }
+};
+
+/**
+ * Arrowhead triangles for the ends of open subpaths, in the same units as the subpaths.
+ */
+export const getArrowHeads = (subpaths: VectorSubpath[], stroke: StrokeStyle): Ring[] => {
+    const size = Math.max(stroke.width * 3, 8);
+    const arrowAt = (tip: Point, from: Point): Ring | null => {
+        const dx = tip.x - from.x, dy = tip.y - from.y;
+        const length = Math.hypot(dx, dy);
+        if (length === 0) return null;
+        const ux = dx / length, uy = dy / length;
+        const base = { x: tip.x - ux * size, y: tip.y - uy * size };
+        return [tip, { x: base.x - uy * size / 2, y: base.y + ux * size / 2 }, { x: base.x + uy * size / 2, y: base.y - ux * size / 2 }];
+    };
+    // The direction at an end comes from its handle, or from the neighbouring anchor when the end is a corner.
+    const directionFrom = (end: PenNode, handle: Point, neighbour: PenNode) =>
+        (handle.x !== end.anchor.x || handle.y !== end.anchor.y) ? handle : neighbour.anchor;
+    const heads: Ring[] = [];
+    subpaths.forEach(({ nodes, closed }) => {
+        if (closed || nodes.length < 2) return;
+        const first = nodes[0], last = nodes[nodes.length - 1];
+        if (stroke.startArrow) {
+            const head = arrowAt(first.anchor, directionFrom(first, first.outHandle, nodes[1]));
+            if (head) heads.push(head);
+        }
+        if (stroke.endArrow) {
+            const head = arrowAt(last.anchor, directionFrom(last, last.inHandle, nodes[nodes.length - 2]));
+            if (head) heads.push(head);
+        }
+    });
+    return heads;
+};
+
+export const ringToSvgData = (ring: Ring) =>
+    ring.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join(' ') + ' Z';
+
+/**
+ * Where a gradient runs inside a box of width × height. Linear gradients span the box the way CSS
+ * linear-gradient() does; radial ones reach the farthest corner.
+ */
+export const getGradientGeometry = (gradient: GradientFill, width: number, height: number) => {
+    const cx = width / 2, cy = height / 2;
+    if (gradient.type === 'radial') {
+        return { type: 'radial' as const, cx, cy, r: Math.hypot(cx, cy) };
+    }
+    const rad = gradient.angle * Math.PI / 180;
+    const half = (Math.abs(width * Math.cos(rad)) + Math.abs(height * Math.sin(rad))) / 2;
+    return {
+        type: 'linear' as const,
+        x1: cx - Math.cos(rad) * half, y1: cy - Math.sin(rad) * half,
+        x2: cx + Math.cos(rad) * half, y2: cy + Math.sin(rad) * half,
+    };
+};
+
+export const toCssGradient = (gradient: GradientFill): string => {
+    const stops = gradient.stops.map(stop => `${stop.color} ${stop.offset * 100}%`).join(', ');
+    return gradient.type === 'radial'
+        ? `radial-gradient(circle, ${stops})`
+        : `linear-gradient(${gradient.angle + 90}deg, ${stops})`;
+};
+
+export const createCanvasGradient = (ctx: CanvasRenderingContext2D, gradient: GradientFill, width: number, height: number): CanvasGradient => {
+    const geometry = getGradientGeometry(gradient, width, height);
+    const canvasGradient = geometry.type === 'radial'
+        ? ctx.createRadialGradient(geometry.cx, geometry.cy, 0, geometry.cx, geometry.cy, geometry.r)
+        : ctx.createLinearGradient(geometry.x1, geometry.y1, geometry.x2, geometry.y2);
+    gradient.stops.forEach(stop => canvasGradient.addColorStop(Math.max(0, Math.min(1, stop.offset)), stop.color));
+    return canvasGradient;
+};
+
+// --- Boolean operations ---
+
+/**
+ * A path or shape layer's outline in canvas coordinates, as closed polygons.
+ */
+export const getLayerOutline = (layer: Layer): Ring[] => {
+    let rings: Ring[] = [];
+    if (layer.type === 'path') {
+        rings = flattenSubpaths(getLayerSubpaths(layer));
+    } else if (layer.type === 'shape' && layer.shapeType === 'ellipse') {
+        rings = [Array.from({ length: 64 }, (_, i) => {
+            const a = (i / 64) * 2 * Math.PI;
+            return { x: layer.width / 2 + Math.cos(a) * layer.width / 2, y: layer.height / 2 + Math.sin(a) * layer.height / 2 };
+        })];
+    } else if (layer.type === 'shape') {
+        const r = Math.max(0, Math.min(layer.borderRadius || 0, layer.width / 2, layer.height / 2));
+        const corners = [
+            { x: layer.width - r, y: r, start: -90 }, { x: layer.width - r, y: layer.height - r, start: 0 },
+            { x: r, y: layer.height - r, start: 90 }, { x: r, y: r, start: 180 },
+        ];
+        rings = [corners.flatMap(corner => r === 0
+            ? [{ x: corner.x, y: corner.y }]
+            : Array.from({ length: 9 }, (_, i) => {
+                const a = (corner.start + i * 90 / 8) * Math.PI / 180;
+                return { x: corner.x + Math.cos(a) * r, y: corner.y + Math.sin(a) * r };
+            }))];
+    }
+    const rad = layer.rotation * Math.PI / 180;
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    const cx = layer.width / 2, cy = layer.height / 2;
+    return rings.filter(ring => ring.length >= 3).map(ring => ring.map(p => ({
+        x: layer.x + cx + (p.x - cx) * cos - (p.y - cy) * sin,
+        y: layer.y + cy + (p.x - cx) * sin + (p.y - cy) * cos,
+    })));
+};
+
+const isInside = (point: Point, rings: Ring[]): boolean => {
+    let inside = false;
+    rings.forEach(ring => {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const a = ring[i], b = ring[j];
+            if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+                inside = !inside;
+            }
+        }
+    });
+    return inside;
+};
+
+type Vertex = Point & { isCrossing?: boolean };
+
+/**
+ * Inserts the crossings between the edges of `a` and `b` into both. Crossing points are shared
+ * objects, so the chains cut from either side meet exactly.
+ */
+const insertCrossings = (a: Ring[], b: Ring[]): { a: Vertex[][]; b: Vertex[][] } => {
+    const splitsA = a.map(ring => ring.map(() => [] as { t: number; point: Vertex }[]));
+    const splitsB = b.map(ring => ring.map(() => [] as { t: number; point: Vertex }[]));
+    a.forEach((ringA, ra) => ringA.forEach((p1, i) => {
+        const p2 = ringA[(i + 1) % ringA.length];
+        b.forEach((ringB, rb) => ringB.forEach((q1, j) => {
+            const q2 = ringB[(j + 1) % ringB.length];
+            const d = (p2.x - p1.x) * (q2.y - q1.y) - (p2.y - p1.y) * (q2.x - q1.x);
+            if (d === 0) return;
+            const t = ((q1.x - p1.x) * (q2.y - q1.y) - (q1.y - p1.y) * (q2.x - q1.x)) / d;
+            const u = ((q1.x - p1.x) * (p2.y - p1.y) - (q1.y - p1.y) * (p2.x - p1.x)) / d;
+            if (t < 0 || t >= 1 || u < 0 || u >= 1) return;
+            const point: Vertex = { x: p1.x + t * (p2.x - p1.x), y: p1.y + t * (p2.y - p1.y), isCrossing: true };
+            splitsA[ra][i].push({ t, point });
+            splitsB[rb][j].push({ t: u, point });
+        }));
+    }));
+    const build = (rings: Ring[], splits: { t: number; point: Vertex }[][][]) => rings.map((ring, r) => ring.flatMap((p, i) => [
+        p as Vertex,
+        ...splits[r][i].sort((s1, s2) => s1.t - s2.t).map(s => s.point),
+    ]));
+    return { a: build(a, splitsA), b: build(b, splitsB) };
+};
+
+/**
+ * Cuts rings at their crossings into chains that run from one crossing to the next. Rings without
+ * crossings stay whole (and closed).
+ */
+const cutIntoChains = (rings: Vertex[][]): { points: Vertex[]; isClosed: boolean }[] => rings.flatMap(ring => {
+    const firstCrossing = ring.findIndex(p => p.isCrossing);
+    if (firstCrossing === -1) return [{ points: ring, isClosed: true }];
+    const rotated = [...ring.slice(firstCrossing), ...ring.slice(0, firstCrossing), ring[firstCrossing]];
+    const chains: { points: Vertex[]; isClosed: boolean }[] = [];
+    let current: Vertex[] = [rotated[0]];
+    for (let i = 1; i < rotated.length; i++) {
+        current.push(rotated[i]);
+        if (rotated[i].isCrossing) {
+            chains.push({ points: current, isClosed: false });
+            current = [rotated[i]];
+        }
+    }
+    return chains;
+});
+
+const chainMidpoint = (points: Point[]): Point => {
+    const a = points[0], b = points[1] || points[0];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+};
+
+/**
+ * Combines two sets of closed polygons. The boundary of both is cut at every crossing, the pieces
+ * that bound the result are kept (by whether they lie inside the other shape) and joined back up
+ * into rings. The result is meant to be filled with the even-odd rule.
+ */
+export const combineOutlines = (a: Ring[], b: Ring[], operation: BooleanOperation): Ring[] => {
+    // Shapes that share an edge exactly give crossings that can't be classified; a nudge far below a
+    // pixel keeps them apart.
+    const nudged = b.map(ring => ring.map(p => ({ x: p.x + 0.0013, y: p.y + 0.0017 })));
+    const { a: cutA, b: cutB } = insertCrossings(a, nudged);
+    const keep = (chains: ReturnType<typeof cutIntoChains>, other: Ring[], wantInside: boolean, reverse: boolean) => chains
+        .filter(chain => chain.points.length > 1 && isInside(chainMidpoint(chain.points), other) === wantInside)
+        .map(chain => ({ ...chain, points: reverse ? [...chain.points].reverse() : chain.points }));
+    const chainsA = cutIntoChains(cutA), chainsB = cutIntoChains(cutB);
+    const selected = {
+        union: () => [...keep(chainsA, nudged, false, false), ...keep(chainsB, a, false, false)],
+        intersect: () => [...keep(chainsA, nudged, true, false), ...keep(chainsB, a, true, false)],
+        subtract: () => [...keep(chainsA, nudged, false, false), ...keep(chainsB, a, true, true)],
+        exclude: () => [
+            ...keep(chainsA, nudged, false, false), ...keep(chainsB, a, false, false),
+            ...keep(chainsA, nudged, true, true), ...keep(chainsB, a, true, true),
+        ],
+    }[operation]();
+
+    const result: Ring[] = selected.filter(chain => chain.isClosed).map(chain => chain.points);
+    const open = selected.filter(chain => !chain.isClosed);
+    const used = new Set<number>();
+    open.forEach((chain, start) => {
+        if (used.has(start)) return;
+        used.add(start);
+        const ring: Point[] = [...chain.points];
+        const origin = chain.points[0];
+        let end = chain.points[chain.points.length - 1];
+        while (end !== origin) {
+            const next = open.findIndex((c, i) => !used.has(i) && c.points[0] === end);
+            if (next === -1) return; // A broken loop (degenerate input) is dropped.
+            used.add(next);
+            ring.push(...open[next].points.slice(1));
+            end = open[next].points[open[next].points.length - 1];
+        }
+        ring.pop();
+        if (ring.length >= 3) result.push(ring);
+    });
+    return result.map(ring => ring.map(({ x, y }) => ({ x, y })));
+};
+
+export const ringsToSubpaths = (rings: Ring[]): VectorSubpath[] =>
+    rings.map(ring => ({ nodes: ring.map(cornerNode), closed: true }));
+
+// --- SVG ---
+
+const tokenizePathData = (d: string): (string | number)[] =>
+    (d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || [])
+        .map(token => /[a-z]/i.test(token) && !/e/i.test(token) ? token : parseFloat(token));
+
+/**
+ * Converts an elliptical arc (SVG endpoint parameterization) into cubic Bézier segments.
+ */
+const arcToCubics = (p0: Point, rx: number, ry: number, xAxisRotation: number, largeArc: boolean, sweep: boolean, p: Point): [Point, Point, Point][] => {
+    if (rx === 0 || ry === 0) return [[p0, p, p]];
+    const phi = xAxisRotation * Math.PI / 180;
+    const cosPhi = Math.cos(phi), sinPhi = Math.sin(phi);
+    const dx = (p0.x - p.x) / 2, dy = (p0.y - p.y) / 2;
+    const x1 = cosPhi * dx + sinPhi * dy, y1 = -sinPhi * dx + cosPhi * dy;
+    rx = Math.abs(rx); ry = Math.abs(ry);
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+    const sign = largeArc === sweep ? -1 : 1;
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const coef = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cxp = coef * rx * y1 / ry, cyp = -coef * ry * x1 / rx;
+    const cx = cosPhi * cxp - sinPhi * cyp + (p0.x + p.x) / 2;
+    const cy = sinPhi * cxp + cosPhi * cyp + (p0.y + p.y) / 2;
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+    let delta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+    const step = delta / segments;
+    const k = 4 / 3 * Math.tan(step / 4);
+    const pointAt = (t: number) => ({
+        x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+        y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+    });
+    const derivativeAt = (t: number) => ({
+        x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+        y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+    });
+    const result: [Point, Point, Point][] = [];
+    for (let i = 0; i < segments; i++) {
+        const t1 = theta1 + i * step, t2 = t1 + step;
+        const a = pointAt(t1), b = pointAt(t2), da = derivativeAt(t1), db = derivativeAt(t2);
+        result.push([{ x: a.x + k * da.x, y: a.y + k * da.y }, { x: b.x - k * db.x, y: b.y - k * db.y }, i === segments - 1 ? p : b]);
+    }
+    return result;
+};
+
+/**
+ * Parses SVG path data into subpaths. Quadratic curves and arcs become cubic Béziers.
+ */
+export const parseSvgPathData = (d: string): VectorSubpath[] => {
+    const tokens = tokenizePathData(d);
+    const subpaths: VectorSubpath[] = [];
+    let current: VectorSubpath | null = null;
+    let point: Point = { x: 0, y: 0 };
+    let start: Point = { x: 0, y: 0 };
+    let lastControl: Point | null = null;
+    let lastCommand = '';
+    let i = 0;
+    const num = () => {
+        const value = tokens[i++];
+        if (typeof value !== 'number') throw new Error('Invalid SVG path data.');
+        return value;
+    };
+    const lastNode = () => current!.nodes[current!.nodes.length - 1];
+    const ensureSubpath = () => {
+        if (!current) {
+            current = { nodes: [cornerNode(point)], closed: false };
+            subpaths.push(current);
+        }
+    };
+    const lineTo = (p: Point) => { ensureSubpath(); current!.nodes.push(cornerNode(p)); point = p; lastControl = null; };
+    const curveTo = (c1: Point, c2: Point, p: Point) => {
+        ensureSubpath();
+        lastNode().outHandle = c1;
+        current!.nodes.push({ anchor: p, inHandle: c2, outHandle: p });
+        point = p;
+        lastControl = c2;
+    };
+
+    let command = '';
+    while (i < tokens.length) {
+        if (typeof tokens[i] === 'string') {
+            command = tokens[i++] as string;
+        } else if (command === 'M') {
+            command = 'L';
+        } else if (command === 'm') {
+            command = 'l';
+        } else if (!command) {
+            throw new Error('Invalid SVG path data.');
+        }
+        const isRelative = command === command.toLowerCase();
+        const abs = (x: number, y: number): Point => isRelative ? { x: point.x + x, y: point.y + y } : { x, y };
+        const upper = command.toUpperCase();
+        const previousQuadControl: Point | null = (lastCommand === 'Q' || lastCommand === 'T') ? lastControl : null;
+        switch (upper) {
+            case 'M': {
+                point = abs(num(), num());
+                start = point;
+                current = { nodes: [cornerNode(point)], closed: false };
+                subpaths.push(current);
+                lastControl = null;
+                break;
+            }
+            case 'L': lineTo(abs(num(), num())); break;
+            case 'H': { const x = num(); lineTo({ x: isRelative ? point.x + x : x, y: point.y }); break; }
+            case 'V': { const y = num(); lineTo({ x: point.x, y: isRelative ? point.y + y : y }); break; }
+            case 'C': { const c1 = abs(num(), num()); const c2 = abs(num(), num()); curveTo(c1, c2, abs(num(), num())); break; }
+            case 'S': {
+                const c1 = (lastCommand === 'C' || lastCommand === 'S') && lastControl ? { x: 2 * point.x - lastControl.x, y: 2 * point.y - lastControl.y } : point;
+                const c2 = abs(num(), num());
+                curveTo(c1, c2, abs(num(), num()));
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const q = upper === 'Q'
+                    ? abs(num(), num())
+                    : previousQuadControl ? { x: 2 * point.x - previousQuadControl.x, y: 2 * point.y - previousQuadControl.y } : point;
+                const p = abs(num(), num());
+                const from = point;
+                curveTo(
+                    { x: from.x + 2 / 3 * (q.x - from.x), y: from.y + 2 / 3 * (q.y - from.y) },
+                    { x: p.x + 2 / 3 * (q.x - p.x), y: p.y + 2 / 3 * (q.y - p.y) },
+                    p,
+                );
+                lastControl = q;
+                break;
+            }
+            case 'A': {
+                const rx = num(), ry = num(), rotation = num(), largeArc = num() !== 0, sweep = num() !== 0;
+                const p = abs(num(), num());
+                arcToCubics(point, rx, ry, rotation, largeArc, sweep, p).forEach(([c1, c2, end]) => curveTo(c1, c2, end));
+                lastControl = null;
+                break;
+            }
+            case 'Z': {
+                if (current) {
+                    const subpath: VectorSubpath = current;
+                    const first = subpath.nodes[0], last = subpath.nodes[subpath.nodes.length - 1];
+                    if (subpath.nodes.length > 1 && Math.abs(first.anchor.x - last.anchor.x) < 1e-6 && Math.abs(first.anchor.y - last.anchor.y) < 1e-6) {
+                        first.inHandle = last.inHandle;
+                        subpath.nodes.pop();
+                    }
+                    subpath.closed = true;
+                }
+                current = null;
+                point = start;
+                lastControl = null;
+                break;
+            }
+            default: throw new Error('Invalid SVG path data.');
+        }
+        lastCommand = upper;
+    }
+    return subpaths.filter(subpath => subpath.nodes.length > 1);
+};
+
+const rgbToHex = (color: string): string | null => {
+    const match = color.match(/rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)/);
+    if (!match) return color.startsWith('#') ? color : null;
+    return '#' + match.slice(1, 4).map(v => Number(v).toString(16).padStart(2, '0')).join('');
+};
+
+const getElementPathData = (el: SVGElement): string => {
+    const length = (value: SVGAnimatedLength) => value.baseVal.value;
+    switch (el.tagName.toLowerCase()) {
+        case 'path': return el.getAttribute('d') || '';
+        case 'rect': {
+            const r = el as SVGRectElement;
+            const x = length(r.x), y = length(r.y), w = length(r.width), h = length(r.height);
+            const rx = Math.min(length(r.rx) || length(r.ry), w / 2), ry = Math.min(length(r.ry) || length(r.rx), h / 2);
+            if (!rx || !ry) return `M${x} ${y} H${x + w} V${y + h} H${x} Z`;
+            return `M${x + rx} ${y} H${x + w - rx} A${rx} ${ry} 0 0 1 ${x + w} ${y + ry} V${y + h - ry} A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h} H${x + rx} A${rx} ${ry} 0 0 1 ${x} ${y + h - ry} V${y + ry} A${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+        }
+        case 'circle':
+        case 'ellipse': {
+            const e = el as SVGCircleElement & SVGEllipseElement;
+            const cx = length(e.cx), cy = length(e.cy);
+            const rx = el.tagName.toLowerCase() === 'circle' ? length(e.r) : length(e.rx);
+            const ry = el.tagName.toLowerCase() === 'circle' ? length(e.r) : length(e.ry);
+            return `M${cx - rx} ${cy} A${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+        }
+        case 'line': {
+            const l = el as SVGLineElement;
+            return `M${length(l.x1)} ${length(l.y1)} L${length(l.x2)} ${length(l.y2)}`;
+        }
+        case 'polyline':
+        case 'polygon': {
+            const points = Array.from((el as SVGPolygonElement).points);
+            if (points.length === 0) return '';
+            const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x} ${p.y}`).join(' ');
+            return el.tagName.toLowerCase() === 'polygon' ? `${d} Z` : d;
+        }
+        default: return '';
+    }
+};
+
+/**
+ * Turns the shapes in an SVG document into path layers (in paint order, topmost first), positioned in the
+ * SVG's user units. Transforms and CSS styles are resolved by the browser, so the document is briefly
+ * attached off-screen.
+ */
+export const importSvgAsPathLayers = (svgText: string): Omit<Layer, 'id'>[] => {
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    if (doc.documentElement.nodeName.toLowerCase() !== 'svg' || doc.querySelector('parsererror')) {
+        throw new Error('Invalid SVG file.');
+    }
+    const svg = document.importNode(doc.documentElement, true) as unknown as SVGSVGElement;
+    const host = document.createElement('div');
+    host.style.cssText = 'position:absolute;left:-100000px;top:0;width:0;height:0;overflow:hidden;';
+    host.appendChild(svg);
+    document.body.appendChild(host);
+    try {
+        const layers: Omit<Layer, 'id'>[] = [];
+        svg.querySelectorAll<SVGGraphicsElement>('path, rect, circle, ellipse, line, polyline, polygon').forEach(el => {
+            if (el.closest('defs, clipPath, mask, symbol, marker, pattern')) return;
+            let subpaths: VectorSubpath[];
+            try {
+                subpaths = parseSvgPathData(getElementPathData(el));
+            } catch {
+                return;
+            }
+            if (subpaths.length === 0) return;
+
+            let matrix = new DOMMatrix();
+            for (let node: Element | null = el; node && node !== svg; node = node.parentElement) {
+                const transform = (node as SVGGraphicsElement).transform?.baseVal.consolidate();
+                if (transform) {
+                    const m = transform.matrix;
+                    matrix = new DOMMatrix([m.a, m.b, m.c, m.d, m.e, m.f]).multiply(matrix);
+                }
+            }
+            const transformed = mapSubpaths(subpaths, p => {
+                const result = matrix.transformPoint(new DOMPoint(p.x, p.y));
+                return { x: result.x, y: result.y };
+            });
+
+            const style = window.getComputedStyle(el);
+            const isOpenShape = el.tagName.toLowerCase() === 'line' || el.tagName.toLowerCase() === 'polyline';
+            const fill = style.fill === 'none' || isOpenShape ? 'none' : (rgbToHex(style.fill) || '#000000');
+            const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c)) || 1;
+            const strokeWidth = (parseFloat(style.strokeWidth) || 1) * scale;
+            const stroke = style.stroke && style.stroke !== 'none'
+                ? {
+                    color: rgbToHex(style.stroke) || '#000000',
+                    width: strokeWidth,
+                    dash: style.strokeDasharray && style.strokeDasharray !== 'none' ? 'dashed' as const : 'solid' as const,
+                    lineCap: (['butt', 'round', 'square'].includes(style.strokeLinecap) ? style.strokeLinecap : 'butt') as StrokeStyle['lineCap'],
+                }
+                : undefined;
+            const geometry = createPathFromCanvasSubpaths(transformed, style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero');
+            if (!geometry) return;
+            layers.push({
+                type: 'path', ...geometry, fillColor: fill, stroke,
+                rotation: 0, opacity: Math.round((parseFloat(style.opacity) || 1) * 100), blendMode: 'source-over', isVisible: true, isLocked: false,
+            });
+        });
+        return layers.reverse();
+    } finally {
+        host.remove();
+    }
+};
+
+export const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * SVG markup for a path or shape layer in its box's units. Gradient definitions are added to `defs`
+ * under ids starting with `idPrefix`.
+ */
+export const vectorLayerToSvg = (layer: Layer, idPrefix: string, defs: string[]): string => {
+    let fill = layer.fillColor || (layer.type === 'path' ? 'none' : '#FFFFFF');
+    if (layer.fillGradient && fill !== 'none') {
+        const id = `${idPrefix}-gradient`;
+        defs.push(gradientToSvg(layer.fillGradient, id, layer.width, layer.height));
+        fill = `url(#${id})`;
+    }
+    if (layer.type === 'shape') {
+        return layer.shapeType === 'ellipse'
+            ? `<ellipse cx="${fmt(layer.width / 2)}" cy="${fmt(layer.height / 2)}" rx="${fmt(layer.width / 2)}" ry="${fmt(layer.height / 2)}" fill="${escapeXml(fill)}"/>`
+            : `<rect width="${fmt(layer.width)}" height="${fmt(layer.height)}" rx="${fmt(layer.borderRadius || 0)}" fill="${escapeXml(fill)}"/>`;
+    }
+    const subpaths = getLayerSubpaths(layer);
+    const stroke = layer.stroke;
+    const strokeAttributes = stroke
+        ? ` stroke="${escapeXml(stroke.color)}" stroke-width="${fmt(stroke.width)}" stroke-linecap="${stroke.lineCap}" stroke-linejoin="round"${getDashArray(stroke).length ? ` stroke-dasharray="${getDashArray(stroke).map(fmt).join(' ')}"` : ''}`
+        : '';
+    let content = `<path d="${subpathsToSvgData(subpaths)}" fill="${escapeXml(fill)}" fill-rule="${layer.path?.fillRule || 'nonzero'}"${strokeAttributes}/>`;
+    if (stroke) {
+        content += getArrowHeads(subpaths, stroke).map(head => `<path d="${ringToSvgData(head)}" fill="${escapeXml(stroke.color)}"/>`).join('');
+    }
+    return content;
+};
+
+/**
+ * A <linearGradient> or <radialGradient> spanning a box of width × height, in user space.
+ */
+export const gradientToSvg = (gradient: GradientFill, id: string, width: number, height: number): string => {
+    const geometry = getGradientGeometry(gradient, width, height);
+    const stops = gradient.stops.map(stop => `<stop offset="${stop.offset}" stop-color="${escapeXml(stop.color)}"/>`).join('');
+    return geometry.type === 'radial'
+        ? `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${fmt(geometry.cx)}" cy="${fmt(geometry.cy)}" r="${fmt(geometry.r)}">${stops}</radialGradient>`
+        : `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${fmt(geometry.x1)}" y1="${fmt(geometry.y1)}" x2="${fmt(geometry.x2)}" y2="${fmt(geometry.y2)}">${stops}</linearGradient>`;
+};
+
+/**
+ * The transform that places a layer's box (drawn from 0,0) on a document whose top-left corner is at origin.
+ */
+export const layerBoxTransform = (layer: Layer, origin: Point): string =>
+    `translate(${fmt(layer.x - origin.x + layer.width / 2)} ${fmt(layer.y - origin.y + layer.height / 2)}) rotate(${fmt(layer.rotation)}) translate(${fmt(-layer.width / 2)} ${fmt(-layer.height / 2)})`;
+
+/**
+ * Writes path and shape layers (in paint order, topmost first) into a standalone SVG document
+ * cropped to their bounds.
+ */
+export const buildSvgDocument = (layers: Layer[], bounds: { x: number; y: number; width: number; height: number }): string => {
+    const defs: string[] = [];
+    const body = [...layers].reverse().map((layer, index) => {
+        const blend = layer.blendMode === 'source-over' ? '' : ` style="mix-blend-mode:${layer.blendMode}"`;
+        return `<g transform="${layerBoxTransform(layer, bounds)}" opacity="${layer.opacity / 100}"${blend}>${vectorLayerToSvg(layer, `layer-${index}`, defs)}</g>`;
+    });
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(bounds.width)}" height="${fmt(bounds.height)}" viewBox="0 0 ${fmt(bounds.width)} ${fmt(bounds.height)}">`
+        + (defs.length ? `<defs>${defs.join('')}</defs>` : '')
+        + body.join('')
+        + '</svg>';
+};
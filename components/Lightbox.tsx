@@ -2,10 +2,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { downloadImage } from './uiUtils';
-import { DownloadIcon } from './icons';
+import { downloadImage, isVideoUrl, useAppControls } from './uiUtils';
+import { DownloadIcon, InfoIcon } from './icons';
+import { ProvenancePanel } from './ProvenancePanel';
 
 interface LightboxProps {
     images: string[];
@@ -15,6 +16,11 @@ interface LightboxProps {
 }
 
 const Lightbox: React.FC<LightboxProps> = ({ images, selectedIndex, onClose, onNavigate }) => {
+    const { galleryItems, t } = useAppControls();
+    const [isInfoOpen, setIsInfoOpen] = useState(false);
+    const selectedUrl = selectedIndex !== null ? images[selectedIndex] : undefined;
+    const selectedRecord = selectedUrl ? galleryItems.find(item => item.url === selectedUrl)?.record : undefined;
+
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
         if (selectedIndex === null) return;
         if (e.key === 'Escape') {
@@ -61,7 +67,7 @@ const Lightbox: React.FC<LightboxProps> = ({ images, selectedIndex, onClose, onN
                                 exit={{ opacity: 0, scale: 0.95 }}
                                 transition={{ duration: 0.2, ease: "easeInOut" }}
                             >
-                                {images[selectedIndex].startsWith('blob:') ? (
+                                {isVideoUrl(images[selectedIndex]) ? (
                                     <video
                                         src={images[selectedIndex]}
                                         controls
@@ -82,6 +88,20 @@ const Lightbox: React.FC<LightboxProps> = ({ images, selectedIndex, onClose, onN
                                 >
                                     <DownloadIcon className="h-6 w-6" strokeWidth={2} />
                                 </button>
+                                <button
+                                    className="lightbox-action-btn !right-16"
+                                    onClick={() => setIsInfoOpen(open => !open)}
+                                    aria-label={t('provenance_title')}
+                                    title={t('provenance_title')}
+                                >
+                                    <InfoIcon className="h-6 w-6" />
+                                </button>
+                                {isInfoOpen && (
+                                    <div className="absolute left-3 right-3 bottom-3 max-h-[60%] overflow-y-auto bg-neutral-900/90 backdrop-blur-md border border-white/10 rounded-lg p-4 z-[120]">
+                                        <h4 className="base-font font-bold text-lg text-yellow-400 mb-2">{t('provenance_title')}</h4>
+                                        <ProvenancePanel record={selectedRecord} />
+                                    </div>
+                                )}
                             </motion.div>
                         </AnimatePresence>
                     </div>
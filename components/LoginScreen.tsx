@@ -7,11 +7,13 @@ import { motion } from 'framer-motion';
 import { useAuth, useAppControls } from './uiUtils';
 
 const LoginScreen: React.FC = () => {
-    const { login } = useAuth();
+    const { login, authError } = useAuth();
     const { t } = useAppControls();
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState<string | null>(null);
+    const isConfigUnavailable = authError === 'configUnavailable' || authError === 'proxyRequired';
+    const message = error || (authError ? t(`login_error_${authError}`) : null);
     const [isLoading, setIsLoading] = useState(false);
 
     const handleSubmit = async (e: FormEvent) => {
@@ -71,14 +73,14 @@ const LoginScreen: React.FC = () => {
                         </div>
                     </div>
                     
-                    {error && (
+                    {message && (
                         <motion.p 
                             initial={{ height: 0, opacity: 0 }}
                             animate={{ height: 'auto', opacity: 1 }}
                             className="text-red-400 text-sm text-center mt-4"
                             role="alert"
                         >
-                            {error}
+                            {message}
                         </motion.p>
                     )}
 
@@ -86,7 +88,7 @@ const LoginScreen: React.FC = () => {
                         <button 
                             type="submit"
                             className="btn btn-primary w-full"
-                            disabled={isLoading}
+                            disabled={isLoading || isConfigUnavailable}
                         >
                             {isLoading ? t('login_loading') : t('login_submit')}
                         </button>
@@ -5,7 +5,7 @@
 import React, { useState, ChangeEvent, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { generateMidAutumnImage, analyzeForConcepts } from '../services/geminiService';
+import { generateMidAutumnImage, analyzeForConcepts, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -169,7 +169,7 @@ const MidAutumnCreator: React.FC<MidAutumnCreatorProps> = (props) => {
                 });
                 addImagesToGallery([urlWithMetadata]);
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                 // FIX: Pass a state object instead of a function to `onStateChange`.
                 onStateChange({
                     ...generatingState,
@@ -239,9 +239,6 @@ const MidAutumnCreator: React.FC<MidAutumnCreatorProps> = (props) => {
         
         onStateChange({ ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate });
 
-        const concurrencyLimit = 2;
-        const ideasQueue = [...ideasToGenerate];
-        
         let currentAppState: MidAutumnCreatorState = { ...appState, stage: stage, generatedImages: initialGeneratedImages, selectedIdeas: ideasToGenerate };
         const settingsToEmbed = {
             viewId: 'mid-autumn-creator',
@@ -271,7 +268,7 @@ const MidAutumnCreator: React.FC<MidAutumnCreatorProps> = (props) => {
                 addImagesToGallery([urlWithMetadata]);
 
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                  currentAppState = {
                     ...currentAppState,
                     generatedImages: {
@@ -285,16 +282,8 @@ const MidAutumnCreator: React.FC<MidAutumnCreatorProps> = (props) => {
             }
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (ideasQueue.length > 0) {
-                const idea = ideasQueue.shift();
-                if (idea) {
-                    await processIdea(idea);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // The central job queue enforces the provider's concurrency limit, so every idea is submitted at once.
+        await Promise.all(ideasToGenerate.map(processIdea));
         
         onStateChange({ ...currentAppState, stage: 'results' });
     };
@@ -347,7 +336,7 @@ const MidAutumnCreator: React.FC<MidAutumnCreatorProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
              onStateChange({
                 ...appState,
                 // FIX: Add 'as const' to prevent type widening of 'status' to string.
@@ -4,7 +4,7 @@
 */
 import React, { useState, ChangeEvent, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { restoreOldPhoto, editImageWithPrompt } from '../services/geminiService';
+import { restoreOldPhoto, editImageWithPrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -134,7 +134,7 @@ const PhotoRestoration: React.FC<PhotoRestorationProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -161,7 +161,7 @@ const PhotoRestoration: React.FC<PhotoRestorationProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -5,7 +5,7 @@
 import React, { memo, type DragEvent, type MouseEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../lib/utils';
-import { useAppControls } from './uiUtils';
+import { useAppControls, isVideoUrl } from './uiUtils';
 import { 
     LoadingSpinnerIcon, 
     ErrorIcon, 
@@ -85,7 +85,7 @@ const Placeholder = ({ type = 'person' }: { type?: string }) => {
 const PolaroidCard: React.FC<PolaroidCardProps> = ({ mediaUrl, caption, status, error, onShake, onDownload, onEdit, onClear, onSwapImage, onSelectFromGallery, onCaptureFromWebcam, isMobile, placeholderType = 'person', onClick, isDraggingOver, onDragOver, onDragLeave, onDrop }) => {
     const { t } = useAppControls();
     const hasMedia = status === 'done' && mediaUrl;
-    const isVideo = hasMedia && mediaUrl!.startsWith('blob:');
+    const isVideo = hasMedia && isVideoUrl(mediaUrl!);
     const isClickable = !!onClick;
 
     const handleClick = (e: MouseEvent<HTMLDivElement>) => {
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import toast from 'react-hot-toast';
+import { useAppControls } from './uiUtils';
+import { type GalleryItemRecord } from './uiTypes';
+import { cn } from '../lib/utils';
+
+const shortHash = (hash: string) => hash.substring(0, 12);
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div className="flex gap-2">
+        <dt className="text-neutral-400 flex-shrink-0 w-28">{label}</dt>
+        <dd className="text-neutral-200 min-w-0 break-words">{children}</dd>
+    </div>
+);
+
+interface ProvenancePanelProps {
+    record: GalleryItemRecord | undefined;
+    className?: string;
+}
+
+/**
+ * Shows how a gallery image was made: the app, the exact prompt, model and inputs.
+ */
+export const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ record, className }) => {
+    const { t, settings } = useAppControls();
+
+    if (!record) {
+        return <p className={cn("text-sm text-neutral-400", className)}>{t('provenance_notInGallery')}</p>;
+    }
+
+    const provenance = record.provenance;
+    const appId = provenance?.appId || record.sourceApp;
+    const app = settings?.apps.find(a => a.id === appId);
+    const prompt = provenance?.prompt || record.prompt;
+
+    const handleCopyPrompt = () => {
+        if (!prompt) return;
+        navigator.clipboard.writeText(prompt);
+        toast.success(t('provenance_promptCopied'));
+    };
+
+    return (
+        <div className={cn("text-sm space-y-3", className)}>
+            <dl className="space-y-1">
+                {appId && <Row label={t('provenance_app')}>{app ? t(app.titleKey) : appId}</Row>}
+                <Row label={t('provenance_createdAt')}>{new Date(provenance?.timestamp ?? record.createdAt).toLocaleString()}</Row>
+                {record.width && record.height && <Row label={t('provenance_dimensions')}>{`${record.width} × ${record.height}`}</Row>}
+                <Row label={t('provenance_file')}>{`${record.mimeType} · ${formatBytes(record.size)}`}</Row>
+                {provenance && (
+                    <>
+                        <Row label={t('provenance_model')}>{`${provenance.model} (${provenance.providerId})`}</Row>
+                        {provenance.aspectRatio && <Row label={t('provenance_aspectRatio')}>{provenance.aspectRatio}</Row>}
+                        {provenance.seed !== undefined && <Row label={t('provenance_seed')}>{provenance.seed}</Row>}
+                        <Row label={t('provenance_attempt')}>{provenance.cached ? t('provenance_fromCache') : provenance.attempt}</Row>
+                        {provenance.inputImageHashes.length > 0 && (
+                            <Row label={t('provenance_inputs')}>
+                                <span className="font-mono text-xs" title={provenance.inputImageHashes.join('\n')}>
+                                    {provenance.inputImageHashes.map(shortHash).join(', ')}
+                                </span>
+                            </Row>
+                        )}
+                    </>
+                )}
+                {record.parentHash && (
+                    <Row label={t('provenance_parent')}>
+                        <span className="font-mono text-xs" title={record.parentHash}>{shortHash(record.parentHash)}</span>
+                    </Row>
+                )}
+                <Row label={t('provenance_hash')}>
+                    <span className="font-mono text-xs" title={record.hash}>{shortHash(record.hash)}</span>
+                </Row>
+            </dl>
+            {prompt ? (
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="text-neutral-400">{t('provenance_prompt')}</span>
+                        <button onClick={handleCopyPrompt} className="btn btn-secondary btn-sm">{t('provenance_copyPrompt')}</button>
+                    </div>
+                    <p className="text-neutral-200 whitespace-pre-wrap bg-black/30 rounded-md p-2 max-h-48 overflow-y-auto">{prompt}</p>
+                </div>
+            ) : (
+                <p className="text-neutral-400">{t('provenance_noRecord')}</p>
+            )}
+        </div>
+    );
+};
@@ -11,7 +11,7 @@ import { useLightbox } from './uiHooks';
 import { downloadImage } from './uiFileUtilities';
 import type { SceneState } from './uiTypes';
 import { CloseIcon, CloudUploadIcon, UndoIcon, RedoIcon } from './icons';
-import { createScriptSummaryFromIdea, createScriptSummaryFromText, createScriptSummaryFromAudio, developScenesFromSummary, type ScriptSummary, generateVideoPromptFromScenes, refineSceneDescription, refineSceneTransition, startVideoGeneration, pollVideoOperation } from '../services/geminiService';
+import { createScriptSummaryFromIdea, createScriptSummaryFromText, createScriptSummaryFromAudio, developScenesFromSummary, type ScriptSummary, generateVideoPromptFromScenes, refineSceneDescription, refineSceneTransition, startVideoGeneration, pollVideoOperation, downloadGeneratedVideo, getLocalizedErrorMessage } from '../services/geminiService';
 import { generateFreeImage } from '../services/gemini/freeGenerationService';
 import toast from 'react-hot-toast';
 import StoryboardingInput from './storyboarding/StoryboardingInput';
@@ -310,7 +310,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             }
             setScriptSummary(result);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_scenario');
+            const errorMessage = getLocalizedErrorMessage(err, t, t('storyboarding_error_scenario'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -336,7 +336,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 updateScenesAndHistory(finalScenario.scenes.map(mapServiceSceneToState));
             }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_develop');
+            const errorMessage = getLocalizedErrorMessage(err, t, t('storyboarding_error_develop'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -377,7 +377,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             
             setScriptSummary(summaryForDevelopment);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_develop');
+            const errorMessage = getLocalizedErrorMessage(err, t, t('storyboarding_error_develop'));
             setError(errorMessage);
         } finally {
             setIsLoading(false);
@@ -467,7 +467,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 throw new Error(t('storyboarding_error_noImage'));
             }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : t('storyboarding_error_imageGen');
+            const errorMessage = getLocalizedErrorMessage(err, t, t('storyboarding_error_imageGen'));
             setScenes(prev => prev.map((s, i) => {
                 if (i === sceneIndex) {
                     if (frameType === 'start') return { ...s, startFrame: { ...s.startFrame, status: 'error', error: errorMessage } };
@@ -506,7 +506,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             const operation = await startVideoGeneration(videoPrompt, inputImage);
             setScenes(prev => prev.map((s, i) => i === sceneIndex ? { ...s, videoOperation: operation } : s));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             setScenes(prev => prev.map((s, i) => i === sceneIndex ? { ...s, videoStatus: 'error', videoError: errorMessage } : s));
         }
     }, [t]);
@@ -534,9 +534,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                     if (updatedOp.done) {
                         if (updatedOp.response?.generatedVideos?.[0]?.video?.uri) {
                             const downloadLink = updatedOp.response.generatedVideos[0].video.uri;
-                            const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                            if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
-                            const blob = await response.blob();
+                            const blob = await downloadGeneratedVideo(downloadLink);
                             const blobUrl = URL.createObjectURL(blob);
                             
                             newScenes[sceneIndex] = { ...newScenes[sceneIndex], videoStatus: 'done', videoUrl: blobUrl, videoOperation: undefined };
@@ -549,7 +547,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                     }
                     tasksUpdated = true;
                 } catch (err) {
-                    const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                    const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                     newScenes[sceneIndex] = { ...newScenes[sceneIndex], videoStatus: 'error', videoError: errorMessage, videoOperation: undefined };
                     tasksUpdated = true;
                 }
@@ -574,15 +572,48 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
     }, [scenes, addImagesToGallery]);
 
     const handleGenerateAll = async () => {
+        // All frames are submitted at once and the job queue limits how many run concurrently.
+        // A frame that uses another frame of this batch as its source waits for that frame first.
+        const needsGeneration = (sceneIndex: number, frameType: 'start' | 'end') => {
+            const scene = scenesRef.current[sceneIndex];
+            if (!scene) return false;
+            const frame = frameType === 'start' ? scene.startFrame : scene.endFrame;
+            return frame.status !== 'done' && frame.status !== 'pending';
+        };
+
+        const framePromises = new Map<string, Promise<void>>();
+        const generateFrame = (sceneIndex: number, frameType: 'start' | 'end', visiting: Set<string>): Promise<void> => {
+            const key = `${sceneIndex}-${frameType}`;
+            const existing = framePromises.get(key);
+            if (existing) return existing;
+
+            const scene = scenesRef.current[sceneIndex];
+            const source = (frameType === 'start' ? scene.startFrame : scene.endFrame).imageSource;
+            let dependency: Promise<void> = Promise.resolve();
+            if (source !== 'reference' && !source.startsWith('data:image')) {
+                const [sourceSceneIndexStr, sourceFrameType] = source.split('-');
+                const sourceSceneIndex = parseInt(sourceSceneIndexStr, 10);
+                const sourceKey = `${sourceSceneIndex}-${sourceFrameType}`;
+                if ((sourceFrameType === 'start' || sourceFrameType === 'end') && !visiting.has(sourceKey) && needsGeneration(sourceSceneIndex, sourceFrameType)) {
+                    dependency = generateFrame(sourceSceneIndex, sourceFrameType, new Set([...visiting, key]));
+                }
+            }
+
+            const promise = dependency.then(() => handleGenerateImage(sceneIndex, frameType));
+            framePromises.set(key, promise);
+            return promise;
+        };
+
+        const frames: Promise<void>[] = [];
         for (let i = 0; i < scenesRef.current.length; i++) {
-            const scene = scenesRef.current[i];
-            if (scene.startFrame.status !== 'done' && scene.startFrame.status !== 'pending') {
-                await handleGenerateImage(i, 'start');
+            if (needsGeneration(i, 'start')) {
+                frames.push(generateFrame(i, 'start', new Set()));
             }
-             if (scene.endFrame.status !== 'done' && scene.endFrame.status !== 'pending') {
-                await handleGenerateImage(i, 'end');
+            if (needsGeneration(i, 'end')) {
+                frames.push(generateFrame(i, 'end', new Set()));
             }
         }
+        await Promise.all(frames);
     };
 
     const handleDownloadAll = async () => {
@@ -719,16 +750,16 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
         }
     };
 
+    // The frames' own URLs; the gallery holds its own copies, so the same image has a different URL there.
+    const lightboxImages = scenes.flatMap(scene => [scene.startFrame.imageUrl, scene.endFrame.imageUrl]).filter((url): url is string => !!url);
+
     const handlePreviewImage = (index: number, frameType: 'start' | 'end') => {
         const scene = scenes[index];
         if (!scene) return;
         const frame = frameType === 'start' ? scene.startFrame : scene.endFrame;
         
         if (frame && frame.imageUrl) {
-            const globalIndex = imageGallery.indexOf(frame.imageUrl);
-            if (globalIndex !== -1) {
-                openLightbox(globalIndex);
-            }
+            openLightbox(lightboxImages.indexOf(frame.imageUrl));
         }
     };
 
@@ -800,7 +831,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             handleEditSceneDescription(index, frameType, newDescription);
             toast.success(`Đã tạo lại prompt cho Cảnh ${originalScene.scene}.`);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Không thể tạo lại prompt.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "Không thể tạo lại prompt.");
             setError(errorMessage);
             toast.error(errorMessage);
         } finally {
@@ -821,7 +852,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
             handleEditSceneAnimation(index, newTransition);
             toast.success(`Đã tạo lại chuyển động cho Cảnh ${originalScene.scene}.`);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Không thể tạo lại chuyển động.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "Không thể tạo lại chuyển động.");
             setError(errorMessage);
             toast.error(errorMessage);
         } finally {
@@ -903,7 +934,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 toast.success(t('storyboarding_import_success'));
 
             } catch (err) {
-                toast.error(err instanceof Error ? err.message : t('storyboarding_import_error'));
+                toast.error(getLocalizedErrorMessage(err, t, t('storyboarding_import_error')));
                 console.error("Failed to import storyboard:", err);
             }
         };
@@ -1210,7 +1241,7 @@ export const StoryboardingModal: React.FC<StoryboardingModalProps> = ({ isOpen,
                 images={imageGallery}
             />
             <Lightbox
-                images={imageGallery}
+                images={lightboxImages}
                 selectedIndex={lightboxIndex}
                 onClose={closeLightbox}
                 onNavigate={navigateLightbox}
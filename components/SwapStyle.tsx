@@ -5,7 +5,7 @@
 import React, { ChangeEvent, useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 // FIX: Import 'editImageWithPrompt' to resolve 'Cannot find name' error.
-import { swapImageStyle, mixImageStyle, editImageWithPrompt } from '../services/geminiService';
+import { swapImageStyle, mixImageStyle, editImageWithPrompt, getLocalizedErrorMessage } from '../services/geminiService';
 import ActionablePolaroidCard from './ActionablePolaroidCard';
 import Lightbox from './Lightbox';
 import { 
@@ -138,7 +138,7 @@ const SwapStyle: React.FC<SwapStyleProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
@@ -165,7 +165,7 @@ const SwapStyle: React.FC<SwapStyleProps> = (props) => {
             });
             addImagesToGallery([urlWithMetadata]);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             onStateChange({ ...appState, stage: 'results', error: errorMessage });
         }
     };
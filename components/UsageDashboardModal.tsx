@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAppControls } from './uiUtils';
+import {
+    getUsageEntries, getUsageBudgets, subscribeToUsageLedger, summarizeUsage, toUsageDay, emptyUsageTotals,
+    type UsageEntry, type UsageTotals
+} from '../services/geminiService';
+import { CloseIcon, LoadingSpinnerIcon } from './icons';
+import { cn } from '../lib/utils';
+
+const DAILY_TABLE_DAYS = 14;
+const BREAKDOWN_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const totalTokens = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+const BudgetBar: React.FC<{ label: string; used: number; limit?: number }> = ({ label, used, limit }) => {
+    const { t } = useAppControls();
+    const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+    const barColor = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-orange-400' : 'bg-yellow-400';
+
+    return (
+        <div className="p-3 bg-neutral-800/50 rounded-lg">
+            <div className="flex justify-between items-baseline text-sm mb-2">
+                <span className="text-neutral-300">{label}</span>
+                <span className="text-neutral-200 font-mono">
+                    {used.toLocaleString()}{limit ? ` / ${limit.toLocaleString()}` : ''}
+                </span>
+            </div>
+            {limit ? (
+                <div className="h-1.5 w-full bg-neutral-700 rounded-full overflow-hidden">
+                    <div className={cn("h-full transition-all", barColor)} style={{ width: `${percent}%` }} />
+                </div>
+            ) : (
+                <p className="text-xs text-neutral-500">{t('usage_noBudget')}</p>
+            )}
+        </div>
+    );
+};
+
+const UsageTable: React.FC<{ keyLabel: string; rows: [string, UsageTotals][] }> = ({ keyLabel, rows }) => {
+    const { t } = useAppControls();
+    return (
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-left text-neutral-400 border-b border-white/10">
+                    <th className="py-1.5 pr-2 font-normal">{keyLabel}</th>
+                    <th className="py-1.5 px-2 font-normal text-right">{t('usage_calls')}</th>
+                    <th className="py-1.5 px-2 font-normal text-right">{t('usage_inputTokens')}</th>
+                    <th className="py-1.5 px-2 font-normal text-right">{t('usage_outputTokens')}</th>
+                    <th className="py-1.5 px-2 font-normal text-right">{t('usage_metric_images')}</th>
+                    <th className="py-1.5 pl-2 font-normal text-right">{t('usage_metric_videoSeconds')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(([key, totals]) => (
+                    <tr key={key} className="border-b border-white/5 text-neutral-200">
+                        <td className="py-1.5 pr-2 truncate max-w-[12rem]" title={key}>{key}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{totals.calls.toLocaleString()}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{totals.inputTokens.toLocaleString()}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{totals.outputTokens.toLocaleString()}</td>
+                        <td className="py-1.5 px-2 text-right font-mono">{totals.imageCount.toLocaleString()}</td>
+                        <td className="py-1.5 pl-2 text-right font-mono">{totals.videoSeconds.toLocaleString()}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+interface UsageDashboardModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Shows the usage ledger: today's usage against the soft budgets, a daily table and per-app / per-user breakdowns.
+ */
+const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({ isOpen, onClose }) => {
+    const { t, settings } = useAppControls();
+    const [entries, setEntries] = useState<UsageEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+        setIsLoading(true);
+        getUsageEntries(Date.now() - BREAKDOWN_DAYS * DAY_MS)
+            .then(loaded => { if (!isCancelled) setEntries(loaded); })
+            .catch(error => console.error('Failed to load usage entries:', error))
+            .finally(() => { if (!isCancelled) setIsLoading(false); });
+
+        const unsubscribe = subscribeToUsageLedger(event => {
+            if (event.type === 'recorded') {
+                setEntries(prev => [...prev, event.entry]);
+            }
+        });
+        return () => {
+            isCancelled = true;
+            unsubscribe();
+        };
+    }, [isOpen]);
+
+    const budgets = getUsageBudgets();
+    const today = toUsageDay(Date.now());
+
+    const { todayTotals, dailyRows, appRows, userRows } = useMemo(() => {
+        const byDay = new Map(summarizeUsage(entries, entry => entry.day));
+        const dailyRows: [string, UsageTotals][] = [];
+        for (let i = 0; i < DAILY_TABLE_DAYS; i++) {
+            const day = toUsageDay(Date.now() - i * DAY_MS);
+            dailyRows.push([day, byDay.get(day) || emptyUsageTotals()]);
+        }
+        const byUsage = (a: [string, UsageTotals], b: [string, UsageTotals]) =>
+            b[1].imageCount - a[1].imageCount || totalTokens(b[1]) - totalTokens(a[1]);
+        const appTitle = (appId: string) => {
+            const app = settings?.apps.find(a => a.id === appId);
+            return app ? t(app.titleKey) : appId;
+        };
+        return {
+            todayTotals: byDay.get(today) || emptyUsageTotals(),
+            dailyRows,
+            appRows: summarizeUsage(entries, entry => entry.appId ? appTitle(entry.appId) : t('usage_unknown')).sort(byUsage),
+            userRows: summarizeUsage(entries, entry => entry.user || t('usage_unknown')).sort(byUsage),
+        };
+    }, [entries, today, settings, t]);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                    className="modal-overlay"
+                    aria-modal="true"
+                    role="dialog"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+                        animate={{ scale: 1, opacity: 1, y: 0 }}
+                        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="modal-content !max-w-4xl !h-[85vh] flex flex-col relative"
+                    >
+                        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+                            <h3 className="base-font font-bold text-2xl text-yellow-400">{t('usage_title')}</h3>
+                            <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors" aria-label={t('usage_close')}>
+                                <CloseIcon className="h-6 w-6" strokeWidth={2} />
+                            </button>
+                        </div>
+
+                        {isLoading ? (
+                            <div className="flex-grow flex items-center justify-center">
+                                <LoadingSpinnerIcon className="h-6 w-6 animate-spin text-yellow-400" />
+                            </div>
+                        ) : (
+                            <div className="flex-grow overflow-y-auto space-y-6 pr-1">
+                                <section>
+                                    <h4 className="text-neutral-300 font-bold mb-2">{t('usage_today')}</h4>
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                        <BudgetBar label={t('usage_metric_tokens')} used={totalTokens(todayTotals)} limit={budgets.dailyTokens} />
+                                        <BudgetBar label={t('usage_metric_images')} used={todayTotals.imageCount} limit={budgets.dailyImages} />
+                                        <BudgetBar label={t('usage_metric_videoSeconds')} used={todayTotals.videoSeconds} limit={budgets.dailyVideoSeconds} />
+                                    </div>
+                                </section>
+                                <section>
+                                    <h4 className="text-neutral-300 font-bold mb-2">{t('usage_daily', DAILY_TABLE_DAYS)}</h4>
+                                    <UsageTable keyLabel={t('usage_day')} rows={dailyRows} />
+                                </section>
+                                {entries.length > 0 ? (
+                                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                        <section>
+                                            <h4 className="text-neutral-300 font-bold mb-2">{t('usage_byApp', BREAKDOWN_DAYS)}</h4>
+                                            <UsageTable keyLabel={t('usage_app')} rows={appRows} />
+                                        </section>
+                                        <section>
+                                            <h4 className="text-neutral-300 font-bold mb-2">{t('usage_byUser', BREAKDOWN_DAYS)}</h4>
+                                            <UsageTable keyLabel={t('usage_user')} rows={userRows} />
+                                        </section>
+                                    </div>
+                                ) : (
+                                    <p className="text-center text-neutral-400">{t('usage_empty')}</p>
+                                )}
+                            </div>
+                        )}
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default UsageDashboardModal;
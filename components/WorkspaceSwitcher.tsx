@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAppControls } from './uiUtils';
+import { AccordionArrowIcon, AddIcon, DeleteIcon } from './icons';
+import { cn } from '../lib/utils';
+
+/**
+ * Lists the current user's workspaces and switches between them. Each workspace keeps its own
+ * gallery, generation history, Layer Composer canvas and storyboard.
+ */
+const WorkspaceSwitcher: React.FC = () => {
+    const { t, workspaces, activeWorkspaceId, switchWorkspace, createWorkspace, deleteWorkspace } = useAppControls();
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const workspaceLabel = (name: string) => name || t('workspace_default');
+    const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        await createWorkspace(newName);
+        setNewName('');
+        setIsOpen(false);
+    };
+
+    const handleDelete = async (id: string, name: string) => {
+        if (!window.confirm(t('workspace_deleteConfirm', name))) return;
+        await deleteWorkspace(id);
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="flex items-center gap-2 rounded-full bg-black/30 pl-4 pr-3 py-1.5 text-sm text-neutral-200 backdrop-blur-sm border border-white/10 hover:bg-white/10 transition-colors"
+                aria-label={t('workspace_switch')}
+                aria-expanded={isOpen}
+            >
+                <span className="max-w-[10rem] truncate">{activeWorkspace ? workspaceLabel(activeWorkspace.name) : '…'}</span>
+                <AccordionArrowIcon className={cn("h-4 w-4 transition-transform", isOpen && 'rotate-180')} />
+            </button>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        transition={{ duration: 0.15 }}
+                        className="absolute left-0 top-full mt-2 w-64 p-2 bg-neutral-900/95 backdrop-blur-md border border-white/10 rounded-lg shadow-lg z-30"
+                    >
+                        <p className="px-2 pb-1 text-xs text-neutral-400">{t('workspace_title')}</p>
+                        <ul className="max-h-64 overflow-y-auto">
+                            {workspaces.map(workspace => (
+                                <li key={workspace.key} className="group flex items-center">
+                                    <button
+                                        onClick={() => { switchWorkspace(workspace.id); setIsOpen(false); }}
+                                        className={cn(
+                                            "flex-grow text-left px-2 py-1.5 rounded-md text-sm truncate transition-colors",
+                                            workspace.id === activeWorkspaceId ? 'text-yellow-400 font-bold' : 'text-neutral-200 hover:bg-white/10'
+                                        )}
+                                    >
+                                        {workspaceLabel(workspace.name)}
+                                    </button>
+                                    {workspace.name && (
+                                        <button
+                                            onClick={() => handleDelete(workspace.id, workspace.name)}
+                                            className="p-1.5 rounded-md text-neutral-400 opacity-0 group-hover:opacity-100 hover:text-red-400 hover:bg-white/10 transition"
+                                            aria-label={t('workspace_delete', workspace.name)}
+                                        >
+                                            <DeleteIcon className="h-4 w-4" />
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                        <form onSubmit={handleCreate} className="flex items-center gap-1 mt-2 pt-2 border-t border-white/10">
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                placeholder={t('workspace_newPlaceholder')}
+                                className="form-input !p-1.5 !text-sm flex-grow min-w-0"
+                            />
+                            <button type="submit" className="p-1.5 rounded-md text-neutral-200 hover:bg-white/10 disabled:opacity-40" disabled={!newName.trim()} aria-label={t('workspace_create')}>
+                                <AddIcon className="h-4 w-4" strokeWidth={2} />
+                            </button>
+                        </form>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+export default WorkspaceSwitcher;
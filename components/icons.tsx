@@ -244,6 +244,18 @@ export const HistoryIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const QueueIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5M3.75 17.25h10.5M18 15.75v4.5m0 0l-1.5-1.5m1.5 1.5l1.5-1.5" />
+    </svg>
+);
+
+export const UsageIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z" />
+    </svg>
+);
+
 export const ReloadIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0011.664 0l3.181-3.183m-11.664 0l3.181-3.183a8.25 8.25 0 00-11.664 0l3.181 3.183" />
@@ -332,6 +344,13 @@ export const EraserIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const MaskBrushIcon: React.FC<IconProps> = (props) => (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" xmlns="http://www.w3.org/2000/svg" {...props}>
+        <rect x="3" y="3" width="18" height="18" rx="2" strokeWidth="1.5" strokeDasharray="3 3"></rect>
+        <path d="M7 16c1.5-3.5 3.5-1 5-3.5s2.5-4 5-4" strokeWidth="3"></path>
+    </svg>
+);
+
 export const ColorPickerIcon: React.FC<IconProps> = (props) => (
     <svg fill="currentColor" version="1.1" xmlns="http://www.w3.org/2000/svg" xmlnsXlink="http://www.w3.org/1999/xlink" viewBox="796 796 200 200" enable-background="new 796 796 200 200" xmlSpace="preserve" {...props}>
         <path d="M996,834.79c0-10.362-4.036-20.104-11.363-27.431c-7.327-7.328-17.069-11.364-27.433-11.364s-20.105,4.036-27.433,11.363 l-24.531,24.532c-2.965,2.965-7.772,2.965-10.737,0c-4.769-4.77-12.5-4.769-17.271,0c-4.77,4.77-4.769,12.502,0,17.271l5.368,5.368 l-57.19,57.19c-7.336,7.33-11.721,19.991-10.913,31.504c0.231,3.294-0.975,6.522-3.307,8.854l-9.253,9.251 c-7.917,7.922-7.917,20.808,0.001,28.728c3.836,3.835,8.938,5.947,14.363,5.947s10.526-2.112,14.365-5.948l9.251-9.253 c2.308-2.307,5.563-3.547,8.855-3.306c0.892,0.063,1.808,0.094,2.721,0.094c0.001,0,0.001,0,0.001,0 c10.798,0,22.095-4.321,28.775-11.008l57.192-57.191l5.369,5.369c2.386,2.384,5.511,3.577,8.637,3.577s6.25-1.193,8.636-3.577 c4.769-4.769,4.769-12.502,0-17.271c-1.424-1.424-2.225-3.355-2.225-5.369s0.8-3.945,2.225-5.369l24.53-24.53 C991.964,854.895,996,845.152,996,834.79z M871.634,957.951c-4.736,4.739-14,7.935-22.006,7.363 c-6.877-0.475-13.498,2.008-18.346,6.855l-9.249,9.249c-1.531,1.53-3.567,2.373-5.731,2.373s-4.199-0.843-5.728-2.37 c-3.157-3.158-3.157-8.298,0-11.456l9.252-9.251c4.835-4.835,7.333-11.521,6.854-18.347c-0.631-8.988,3.227-17.876,7.365-22.012 l57.191-57.191l37.592,37.593L871.634,957.951z" />
@@ -402,6 +421,78 @@ export const BakeIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const GroupIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 7V5a1 1 0 011-1h2m10 0h2a1 1 0 011 1v2m0 10v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2" />
+        <rect x="8" y="8" width="5" height="5" rx="1" />
+        <rect x="11" y="11" width="5" height="5" rx="1" />
+    </svg>
+);
+
+export const UngroupIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 7V5a1 1 0 011-1h2m10 0h2a1 1 0 011 1v2m0 10v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2" strokeDasharray="2 2" />
+        <rect x="7" y="7" width="5" height="5" rx="1" />
+        <rect x="12" y="12" width="5" height="5" rx="1" />
+    </svg>
+);
+
+export const ArtboardIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M7 3v18M17 3v18M3 7h18M3 17h18" />
+    </svg>
+);
+
+export const RulerIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M3 16.5L16.5 3 21 7.5 7.5 21z" />
+        <path d="M7.5 12l2 2M10.5 9l2 2M13.5 6l2 2" />
+    </svg>
+);
+
+export const AdjustmentsIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 6h9M17 6h3M4 12h3M11 12h9M4 18h11M19 18h1" />
+        <circle cx="15" cy="6" r="2" />
+        <circle cx="9" cy="12" r="2" />
+        <circle cx="17" cy="18" r="2" />
+    </svg>
+);
+
+export const UnionIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 4h10v6h6v10H10v-6H4z" fill="currentColor" fillOpacity="0.35" />
+    </svg>
+);
+
+export const SubtractIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 4h10v6h-4v4H4z" fill="currentColor" fillOpacity="0.35" />
+        <path d="M10 10h10v10H10z" strokeDasharray="2 2" />
+    </svg>
+);
+
+export const IntersectIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 4h10v10H4zM10 10h10v10H10z" strokeDasharray="2 2" />
+        <path d="M10 10h4v4h-4z" fill="currentColor" fillOpacity="0.35" />
+    </svg>
+);
+
+export const ExcludeIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M4 4h10v6h-4v4H4zM14 10h6v10H10v-6h4z" fill="currentColor" fillOpacity="0.35" />
+        <path d="M10 10h4v4h-4z" />
+    </svg>
+);
+
+export const TextOnPathIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <path d="M3 19c4-8 14-8 18 0" strokeDasharray="2 2" />
+        <path d="M8 4h8M12 4v9" />
+    </svg>
+);
+
 export const DuplicateIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
@@ -576,6 +667,12 @@ export const NewFileIcon: React.FC<IconProps> = (props) => (
     </svg>
 );
 
+export const FolderIcon: React.FC<IconProps> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+    </svg>
+);
+
 export const DocumentTextIcon: React.FC<IconProps> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
@@ -9,6 +9,7 @@ import { PencilIcon, DuplicateIcon, LoadingSpinnerIcon, RegenerateIcon, Animatio
 import toast from 'react-hot-toast';
 import type { SceneState } from '../uiTypes';
 import { cn } from '../../lib/utils';
+import { getLocalizedErrorMessage } from '../../services/geminiService';
 
 interface TransitionPanelProps {
     scene: SceneState;
@@ -77,7 +78,7 @@ const TransitionPanel: React.FC<TransitionPanelProps> = ({ scene, index, onEditA
         try {
             await onGenerateVideoPrompt(promptMode);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "Error";
+            const errorMessage = getLocalizedErrorMessage(err, t, "Error");
             toast.error(`Failed to generate video prompt: ${errorMessage}`);
         } finally {
             setIsGenerating(false);
@@ -13,7 +13,8 @@ import { useLightbox } from './uiHooks';
 import { ImageThumbnail } from './ImageThumbnail';
 import { GalleryToolbar } from './GalleryToolbar';
 import { ImageThumbnailActions } from './ImageThumbnailActions';
-import { combineImages, downloadJson } from './uiFileUtilities';
+import { combineImages, downloadJson, isVideoUrl } from './uiFileUtilities';
+import { resolveGalleryImageUrl } from '../lib/db';
 import Lightbox from './Lightbox';
 import { AvatarCreatorState, BabyPhotoCreatorState, ViewState } from './uiTypes';
 export * from './SearchableSelect';
@@ -579,20 +580,21 @@ export const GalleryPicker: React.FC<GalleryPickerProps> = ({ isOpen, onClose, o
         setIsSelectionMode(false);
     };
 
-    const handleThumbnailClick = (index: number) => {
+    const handleThumbnailClick = async (index: number) => {
         if (isSelectionMode) {
             setSelectedIndices(prev =>
                 prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]
             );
         } else {
-            onSelect(images[index]);
+            // Picked images end up in app state and AI requests, which take data URLs.
+            onSelect(await resolveGalleryImageUrl(images[index]));
         }
     };
     
     const handleEditImage = (indexToEdit: number, e: React.MouseEvent) => {
         e.stopPropagation();
         const urlToEdit = images[indexToEdit];
-        if (!urlToEdit || urlToEdit.startsWith('blob:')) {
+        if (!urlToEdit || isVideoUrl(urlToEdit)) {
             alert('Không thể chỉnh sửa video.');
             return;
         }
@@ -2,115 +2,171 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useCallback, useContext, createContext } from 'react';
+import React, { useState, useEffect, useCallback, useContext, createContext, useRef, useMemo } from 'react';
 import toast from 'react-hot-toast';
 import {
     type ImageToEdit, type ViewState, type AnyAppState, type Theme,
     type AppConfig, THEMES, getInitialStateForApp, type Settings,
-    type GenerationHistoryEntry
+    type GenerationHistoryEntry, type GalleryItem, type GalleryImageMetadata, type WorkspaceRecord
 } from './uiTypes';
+import { dataURLtoBlob } from './uiFileUtilities';
 import * as db from '../lib/db';
+import {
+    configureImageProviders, configureJobQueue, resumePersistedJobs, subscribeToJobQueue,
+    imageGenerationResultToDataUrls, IMAGE_GENERATION_JOB, getImageProvenance,
+    configureUsageLedger, setUsageContext, subscribeToUsageLedger,
+    configureResponseCache, setForceFreshGeneration, loginToApiProxy, logoutFromApiProxy,
+    getApiProxySession, isUsingApiProxy, type ApiProxySession
+} from '../services/geminiService';
 
 // --- Auth Context ---
-interface Account {
-    username: string;
-    password?: string;
+export type UserRole = 'admin' | 'creator' | 'viewer';
+
+const USER_ROLES: UserRole[] = ['admin', 'creator', 'viewer'];
+
+const isUserRole = (role: unknown): role is UserRole => USER_ROLES.some(known => known === role);
+
+interface RoleSettings {
+    // App ids this role sees on Home, or "*" for all apps.
+    apps?: string[] | '*';
 }
 
+// The part of setting-login.json the API proxy shares with the app. Accounts and password hashes
+// stay on the server, which checks every sign-in.
 interface LoginSettings {
     enabled: boolean;
-    accounts: Account[];
+    sessionHours?: number;
+    roles?: Partial<Record<UserRole, RoleSettings>>;
 }
 
+// Why the login screen is shown without a signed-in user: the config couldn't be loaded, sign-in is on
+// but the app was built without the API proxy that checks passwords, or the session ran out.
+export type AuthError = 'configUnavailable' | 'proxyRequired' | 'sessionExpired';
+
 interface AuthContextType {
     loginSettings: LoginSettings | null;
     isLoggedIn: boolean;
     currentUser: string | null;
+    currentRole: UserRole | null;
+    authError: AuthError | null;
     isLoading: boolean;
     login: (username: string, password?: string) => Promise<boolean>;
     logout: () => void;
+    canAccessApp: (appId: string) => boolean;
 }
 
+// Accounts without a (known) role get the least privileged one.
+const DEFAULT_ROLE: UserRole = 'viewer';
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [loginSettings, setLoginSettings] = useState<LoginSettings | null>(null);
     const [isLoggedIn, setIsLoggedIn] = useState(false);
     const [currentUser, setCurrentUser] = useState<string | null>(null);
+    const [currentRole, setCurrentRole] = useState<UserRole | null>(null);
+    const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+    const [authError, setAuthError] = useState<AuthError | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
+    const applySession = useCallback((session: ApiProxySession & { username: string }) => {
+        setCurrentUser(session.username);
+        setCurrentRole(isUserRole(session.role) ? session.role : DEFAULT_ROLE);
+        setSessionExpiresAt(session.expiresAt);
+        setIsLoggedIn(true);
+    }, []);
+
     useEffect(() => {
         const initializeAuth = async () => {
-            const defaultSettingsOnError: LoginSettings = {
-                enabled: true,
-                accounts: [
-                    { username: "aPix", password: "sdvn" },
-                    { username: "guest", password: "123" }
-                ]
-            };
-            
-            const handleEnabledLogin = (settings: LoginSettings) => {
-                const storedUser = sessionStorage.getItem('currentUser');
-                if (storedUser && settings.accounts.some(acc => acc.username === storedUser)) {
-                    setCurrentUser(storedUser);
+            try {
+                const response = await fetch('/setting-login.json');
+                if (!response.ok) {
+                    throw new Error(`setting-login.json could not be loaded (${response.status}).`);
+                }
+                const settings: LoginSettings = await response.json();
+                if (typeof settings !== 'object' || settings === null) {
+                    throw new Error('setting-login.json is not a settings object.');
+                }
+                setLoginSettings(settings);
+
+                if (settings.enabled === false) {
+                    // Login is disabled. Bypass the login screen. No user is set.
                     setIsLoggedIn(true);
+                    setCurrentUser(null);
+                    return;
                 }
-            };
 
-            try {
-                const response = await fetch('/setting-login.json');
-                if (response.ok) {
-                    const settings: LoginSettings = await response.json();
-                    setLoginSettings(settings);
-                    
-                    if (settings.enabled === false) {
-                        // Login is disabled. Bypass the login screen. No user is set.
-                        setIsLoggedIn(true);
-                        setCurrentUser(null);
-                        sessionStorage.removeItem('currentUser');
-                    } else {
-                        // Treat enabled:true or missing enabled property as login required.
-                        handleEnabledLogin(settings);
-                    }
-                } else {
-                    // File not found. Default to login enabled.
-                    console.warn("setting-login.json not found. Defaulting to login enabled.");
-                    setLoginSettings(defaultSettingsOnError);
-                    handleEnabledLogin(defaultSettingsOnError);
+                // Treat enabled:true or missing enabled property as login required.
+                // Passwords are checked by the API proxy; without it there is nothing to sign in against.
+                if (!isUsingApiProxy()) {
+                    console.error('Login is enabled in setting-login.json, but the app was built without API_PROXY_URL.');
+                    setAuthError('proxyRequired');
+                    return;
+                }
+                // A reload keeps the proxy's session cookie; the proxy says whether it is still valid.
+                const session = await getApiProxySession();
+                if (session?.username) {
+                    applySession({ ...session, username: session.username });
                 }
             } catch (error) {
-                // On any other error (parsing, network), default to login enabled.
-                console.error("Error processing setting-login.json. Defaulting to login enabled.", error);
-                setLoginSettings(defaultSettingsOnError);
-                handleEnabledLogin(defaultSettingsOnError);
+                // Fail closed: without a readable config nobody can sign in.
+                console.error("Error processing setting-login.json. Login is unavailable.", error);
+                setLoginSettings(null);
+                setAuthError('configUnavailable');
             } finally {
                 setIsLoading(false);
             }
         };
 
         initializeAuth();
-    }, []);
+    }, [applySession]);
 
     const login = useCallback(async (username: string, password?: string): Promise<boolean> => {
         if (!loginSettings) return false;
-
-        const account = loginSettings.accounts.find(acc => acc.username === username);
-        if (account && account.password === password) {
-            setCurrentUser(username);
-            setIsLoggedIn(true);
-            sessionStorage.setItem('currentUser', username);
-            return true;
+        let session: ApiProxySession | null;
+        try {
+            session = await loginToApiProxy(username, password);
+        } catch (error) {
+            console.error('Could not sign in to the API proxy:', error);
+            return false;
         }
-        return false;
-    }, [loginSettings]);
+        if (!session?.username) return false;
+        applySession({ ...session, username: session.username });
+        setAuthError(null);
+        return true;
+    }, [loginSettings, applySession]);
 
     const logout = useCallback(() => {
+        logoutFromApiProxy().catch(error => console.error('Could not sign out of the API proxy:', error));
         setCurrentUser(null);
+        setCurrentRole(null);
+        setSessionExpiresAt(null);
         setIsLoggedIn(false);
-        sessionStorage.removeItem('currentUser');
     }, []);
 
-    const value = { loginSettings, isLoggedIn, currentUser, isLoading, login, logout };
+    useEffect(() => {
+        if (sessionExpiresAt === null) return;
+        const timer = setTimeout(() => {
+            logout();
+            setAuthError('sessionExpired');
+        }, Math.max(0, sessionExpiresAt - Date.now()));
+        return () => clearTimeout(timer);
+    }, [sessionExpiresAt, logout]);
+
+    useEffect(() => {
+        setUsageContext({ user: currentUser });
+    }, [currentUser]);
+
+    const canAccessApp = useCallback((appId: string): boolean => {
+        // Without login (disabled) every app is visible.
+        if (!currentRole) return true;
+        // A role with no apps configured sees nothing rather than everything.
+        const allowedApps = loginSettings?.roles?.[currentRole]?.apps;
+        if (!allowedApps) return false;
+        return allowedApps === '*' || allowedApps.includes(appId);
+    }, [currentRole, loginSettings]);
+
+    const value = { loginSettings, isLoggedIn, currentUser, currentRole, authError, isLoading, login, logout, canAccessApp };
 
     return (
         <AuthContext.Provider value={value}>
@@ -149,7 +205,8 @@ export const ImageEditorProvider: React.FC<{children: React.ReactNode}> = ({ chi
             console.error("openImageEditor called with no URL.");
             return;
         }
-        setImageToEdit({ url, onSave });
+        // The editor keeps and re-saves its source, so gallery object URLs are opened as data URLs.
+        db.resolveGalleryImageUrl(url).then(resolvedUrl => setImageToEdit({ url: resolvedUrl, onSave }));
     }, []);
 
     const openEmptyImageEditor = useCallback((onSave: (newUrl: string) => void) => {
@@ -189,12 +246,17 @@ interface AppControlContextType {
     settings: Settings | null;
     theme: Theme;
     imageGallery: string[];
+    galleryItems: GalleryItem[];
+    workspaces: WorkspaceRecord[];
+    activeWorkspaceId: string | null;
     historyIndex: number;
     viewHistory: ViewState[];
     isSearchOpen: boolean;
     isGalleryOpen: boolean;
     isInfoOpen: boolean;
     isHistoryPanelOpen: boolean;
+    isJobQueuePanelOpen: boolean;
+    isUsageDashboardOpen: boolean;
     isExtraToolsOpen: boolean;
     isImageLayoutModalOpen: boolean;
     isBeforeAfterModalOpen: boolean;
@@ -204,13 +266,19 @@ interface AppControlContextType {
     isLayerComposerMounted: boolean;
     isLayerComposerVisible: boolean;
     language: 'vi' | 'en';
+    forceFreshGeneration: boolean;
     generationHistory: GenerationHistoryEntry[];
     addGenerationToHistory: (entryData: Omit<GenerationHistoryEntry, 'id' | 'timestamp'>) => void;
-    addImagesToGallery: (newImages: string[]) => void;
+    addImagesToGallery: (newImages: string[], metadata?: GalleryImageMetadata) => void;
     removeImageFromGallery: (imageIndex: number) => void;
     replaceImageInGallery: (imageIndex: number, newImageUrl: string) => void;
+    switchWorkspace: (workspaceId: string) => void;
+    createWorkspace: (name: string) => Promise<void>;
+    deleteWorkspace: (workspaceId: string) => Promise<void>;
+    copyGalleryItemsToWorkspace: (imageIndices: number[], workspaceId: string, move: boolean) => Promise<number>;
     handleThemeChange: (newTheme: Theme) => void;
     handleLanguageChange: (lang: 'vi' | 'en') => void;
+    handleForceFreshGenerationChange: (value: boolean) => void;
     navigateTo: (viewId: string) => void;
     handleStateChange: (newAppState: AnyAppState) => void;
     handleSelectApp: (appId: string) => void;
@@ -226,6 +294,10 @@ interface AppControlContextType {
     handleCloseInfo: () => void;
     handleOpenHistoryPanel: () => void;
     handleCloseHistoryPanel: () => void;
+    handleOpenJobQueuePanel: () => void;
+    handleCloseJobQueuePanel: () => void;
+    handleOpenUsageDashboard: () => void;
+    handleCloseUsageDashboard: () => void;
     toggleExtraTools: () => void;
     openImageLayoutModal: () => void;
     closeImageLayoutModal: () => void;
@@ -261,6 +333,8 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const [isGalleryOpen, setIsGalleryOpen] = useState(false);
     const [isInfoOpen, setIsInfoOpen] = useState(false);
     const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
+    const [isJobQueuePanelOpen, setIsJobQueuePanelOpen] = useState(false);
+    const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState(false);
     const [isExtraToolsOpen, setIsExtraToolsOpen] = useState(false);
     const [isImageLayoutModalOpen, setIsImageLayoutModalOpen] = useState(false);
     const [isBeforeAfterModalOpen, setIsBeforeAfterModalOpen] = useState(false);
@@ -269,11 +343,18 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const [isStoryboardingModalVisible, setIsStoryboardingModalVisible] = useState(false);
     const [isLayerComposerMounted, setIsLayerComposerMounted] = useState(false);
     const [isLayerComposerVisible, setIsLayerComposerVisible] = useState(false);
-    const [imageGallery, setImageGallery] = useState<string[]>([]);
+    const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
+    const imageGallery = useMemo(() => galleryItems.map(item => item.url), [galleryItems]);
     const [generationHistory, setGenerationHistory] = useState<GenerationHistoryEntry[]>([]);
     const [isDbLoaded, setIsDbLoaded] = useState(false);
+    const [isDbMigrated, setIsDbMigrated] = useState(false);
+    const { currentUser } = useAuth();
+    const workspaceOwner = currentUser || '';
+    const [savedWorkspaces, setSavedWorkspaces] = useState<WorkspaceRecord[]>([]);
+    const [activeWorkspace, setActiveWorkspace] = useState<{ owner: string; id: string } | null>(null);
 
     const [language, setLanguage] = useState<'vi' | 'en'>(() => (localStorage.getItem('app-language') as 'vi' | 'en') || 'vi');
+    const [forceFreshGeneration, setForceFreshGenerationState] = useState(() => localStorage.getItem('app-force-fresh') === 'true');
     const [translations, setTranslations] = useState<Record<string, any>>({});
     const [settings, setSettings] = useState<Settings | null>(null);
 
@@ -326,20 +407,71 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         fetchTranslations();
     }, [language]);
     
-    // Effect to initialize DB, migrate, and load data on app start
+    // Effect to initialize DB and migrate older data on app start
     useEffect(() => {
-        async function loadData() {
+        async function migrateData() {
             await db.migrateFromLocalStorageToIdb();
+            await db.migrateGalleryToBlobStore();
+            setIsDbMigrated(true);
+        }
+        migrateData();
+    }, []);
+
+    // Each user has their own workspaces; reopen the one they used last.
+    useEffect(() => {
+        if (!isDbMigrated) return;
+        let isCancelled = false;
+        setActiveWorkspace(null);
+        db.claimLegacyWorkspaceData(workspaceOwner)
+            .catch(error => console.error('Failed to move existing data into the default workspace:', error))
+            .then(() => db.getWorkspaces(workspaceOwner))
+            .then(saved => {
+                if (isCancelled) return;
+                const lastUsedId = localStorage.getItem(`activeWorkspace:${workspaceOwner}`);
+                setSavedWorkspaces(saved);
+                setActiveWorkspace({
+                    owner: workspaceOwner,
+                    id: saved.some(workspace => workspace.id === lastUsedId) ? lastUsedId! : db.DEFAULT_WORKSPACE_ID,
+                });
+            });
+        return () => { isCancelled = true; };
+    }, [isDbMigrated, workspaceOwner]);
+
+    // Effect to load the gallery and history of the active workspace
+    useEffect(() => {
+        if (!activeWorkspace) return;
+        let isCancelled = false;
+        db.setActiveWorkspace(activeWorkspace.owner, activeWorkspace.id);
+        setGalleryItems([]);
+        setGenerationHistory([]);
+        let loadedGallery: GalleryItem[] = [];
+        async function loadData() {
             const [gallery, history] = await Promise.all([
-                db.getAllGalleryImages(),
+                db.getAllGalleryItems(),
                 db.getAllHistoryEntries()
             ]);
-            setImageGallery(gallery);
+            loadedGallery = gallery;
+            if (isCancelled) {
+                gallery.forEach(item => db.revokeGalleryUrl(item.url));
+                return;
+            }
+            setGalleryItems(gallery);
             setGenerationHistory(history);
             setIsDbLoaded(true);
         }
         loadData();
-    }, []);
+        return () => {
+            isCancelled = true;
+            // Leaving the workspace; its items' object URLs are no longer shown.
+            loadedGallery.forEach(item => db.revokeGalleryUrl(item.url));
+        };
+    }, [activeWorkspace]);
+
+    // The default workspace always exists; its empty name is shown as "Default".
+    const workspaces = useMemo<WorkspaceRecord[]>(() => [
+        { key: `${workspaceOwner}/${db.DEFAULT_WORKSPACE_ID}`, owner: workspaceOwner, id: db.DEFAULT_WORKSPACE_ID, name: '', createdAt: 0 },
+        ...savedWorkspaces,
+    ], [workspaceOwner, savedWorkspaces]);
 
     const t = useCallback((key: string, ...args: any[]): any => {
         const keys = key.split('.');
@@ -385,35 +517,116 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setLanguage(lang);
         localStorage.setItem('app-language', lang);
     }, []);
+
+    useEffect(() => {
+        setForceFreshGeneration(forceFreshGeneration);
+    }, [forceFreshGeneration]);
+
+    const handleForceFreshGenerationChange = useCallback((value: boolean) => {
+        setForceFreshGenerationState(value);
+        localStorage.setItem('app-force-fresh', String(value));
+    }, []);
     
-    const addImagesToGallery = useCallback(async (newImages: string[]) => {
-        const uniqueNewImages = newImages.filter(img => img && !imageGallery.includes(img));
-        if (uniqueNewImages.length === 0) {
+    const addImagesToGallery = useCallback(async (newImages: string[], metadata: GalleryImageMetadata = {}) => {
+        const validImages = newImages.filter(Boolean);
+        if (validImages.length === 0) {
             return;
         }
-        await db.addMultipleGalleryImages(uniqueNewImages);
-        setImageGallery(prev => [...uniqueNewImages, ...prev]);
-    }, [imageGallery]);
+        // Images are deduplicated by content hash, so re-adding an existing image is a no-op.
+        const added = await db.addGalleryImages(validImages, { ...metadata, sourceApp: metadata.sourceApp || currentView.viewId }, getImageProvenance);
+        if (added.length === 0) {
+            return;
+        }
+        setGalleryItems(prev => {
+            const knownHashes = new Set(prev.map(item => item.record.hash));
+            return [...added.filter(item => !knownHashes.has(item.record.hash)), ...prev];
+        });
+    }, [currentView.viewId]);
+
+    // Jobs resumed after a reload have no component waiting on them, so their results go straight to the gallery.
+    const addImagesToGalleryRef = useRef(addImagesToGallery);
+    addImagesToGalleryRef.current = addImagesToGallery;
+    const tRef = useRef(t);
+    tRef.current = t;
+
+    const isSettingsLoaded = settings !== null;
+    useEffect(() => {
+        // Wait for settings so resumed jobs use the configured providers and concurrency limits.
+        if (!isDbLoaded || !isSettingsLoaded) return;
+
+        const unsubscribe = subscribeToJobQueue(event => {
+            if (event.type === 'done' && event.job.resumed && event.job.type === IMAGE_GENERATION_JOB) {
+                addImagesToGalleryRef.current(imageGenerationResultToDataUrls(event.result), { sourceApp: event.job.appId });
+                toast.success(tRef.current('jobQueue_resumedResult'));
+            }
+        });
+
+        resumePersistedJobs()
+            .then(count => {
+                if (count > 0) {
+                    toast(tRef.current('jobQueue_resumedNotice', count));
+                }
+            })
+            .catch(error => console.error('Failed to resume generation jobs:', error));
+
+        return unsubscribe;
+    }, [isDbLoaded, isSettingsLoaded]);
+
+    useEffect(() => {
+        return subscribeToUsageLedger(event => {
+            if (event.type !== 'warning') return;
+            const { metric, used, limit, exceeded } = event.warning;
+            const metricLabel = tRef.current(`usage_metric_${metric}`);
+            const message = exceeded
+                ? tRef.current('usage_budgetExceeded', metricLabel, used.toLocaleString(), limit.toLocaleString())
+                : tRef.current('usage_budgetWarning', metricLabel, used.toLocaleString(), limit.toLocaleString());
+            toast(message, { icon: exceeded ? '⛔' : '⚠️', duration: 6000 });
+        });
+    }, []);
 
     const removeImageFromGallery = useCallback(async (indexToRemove: number) => {
-        const urlToDelete = imageGallery[indexToRemove];
-        if (urlToDelete) {
-            await db.deleteGalleryImage(urlToDelete);
-            setImageGallery(prev => prev.filter((_, index) => index !== indexToRemove));
+        const itemToDelete = galleryItems[indexToRemove];
+        if (itemToDelete) {
+            await db.deleteGalleryItem(itemToDelete.record.hash);
+            setGalleryItems(prev => prev.filter(item => item.record.hash !== itemToDelete.record.hash));
+            db.revokeGalleryUrl(itemToDelete.url);
         }
-    }, [imageGallery]);
+    }, [galleryItems]);
 
     const replaceImageInGallery = useCallback(async (indexToReplace: number, newImageUrl: string) => {
-        const oldUrl = imageGallery[indexToReplace];
-        if (oldUrl) {
-            await db.replaceGalleryImage(oldUrl, newImageUrl);
-            setImageGallery(prev => {
-                const newImages = [...prev];
-                newImages[indexToReplace] = newImageUrl;
-                return newImages;
-            });
+        const oldItem = galleryItems[indexToReplace];
+        if (!oldItem) {
+            return;
         }
-    }, [imageGallery]);
+        const newHash = await db.hashBlob(await dataURLtoBlob(newImageUrl));
+        if (newHash === oldItem.record.hash) {
+            return;
+        }
+        // The edited image keeps its slot (creation time) and records the image it was made from.
+        const [newItem] = await db.addGalleryImages([newImageUrl], {
+            sourceApp: oldItem.record.sourceApp,
+            prompt: oldItem.record.prompt,
+            parentHash: oldItem.record.hash,
+            createdAt: oldItem.record.createdAt,
+        }, getImageProvenance);
+        await db.deleteGalleryItem(oldItem.record.hash);
+        db.revokeGalleryUrl(oldItem.url);
+        // Without a new item the edited image was already in the gallery, so replacing just drops the old one.
+        setGalleryItems(prev => newItem
+            ? prev.map(item => item.record.hash === oldItem.record.hash ? newItem : item)
+            : prev.filter(item => item.record.hash !== oldItem.record.hash));
+    }, [galleryItems]);
+
+    const copyGalleryItemsToWorkspace = useCallback(async (imageIndices: number[], workspaceId: string, move: boolean): Promise<number> => {
+        const hashes = imageIndices.map(index => galleryItems[index]?.record.hash).filter(Boolean);
+        if (hashes.length === 0) return 0;
+        const copied = await db.copyGalleryItemsToWorkspace(hashes, workspaceOwner, workspaceId, { move });
+        if (move) {
+            setGalleryItems(prev => prev.filter(item => !hashes.includes(item.record.hash)));
+            imageIndices.forEach(index => galleryItems[index] && db.revokeGalleryUrl(galleryItems[index].url));
+        }
+        return copied;
+    }, [galleryItems, workspaceOwner]);
 
     useEffect(() => {
         const fetchSettings = async () => {
@@ -424,6 +637,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
                     return;
                 }
                 const data = await response.json();
+                configureImageProviders(data.imageProvider);
+                configureJobQueue(data.jobQueue);
+                configureUsageLedger(data.usageBudgets);
+                configureResponseCache(data.responseCache);
                 setSettings(data);
             } catch (error) {
                 console.error("Failed to fetch or parse setting.json:", error);
@@ -445,8 +662,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setTheme(newTheme);
     };
 
-    const restoreStateFromGallery = useCallback((stateToRestore: any, gallery: string[]): AnyAppState => {
+    const restoreStateFromGallery = useCallback(async (stateToRestore: any, gallery: string[]): Promise<AnyAppState> => {
         const restoredState = JSON.parse(JSON.stringify(stateToRestore));
+        // App state holds data URLs, so referenced gallery images are read back from their object URLs.
+        const pendingRefs: Promise<void>[] = [];
     
         const restoreRefs = (obj: any) => {
             if (typeof obj !== 'object' || obj === null) return;
@@ -457,6 +676,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
                         const galleryIndex = obj[key].index;
                         if (gallery[galleryIndex]) {
                             obj[key] = gallery[galleryIndex];
+                            pendingRefs.push(db.resolveGalleryImageUrl(gallery[galleryIndex]).then(url => { obj[key] = url; }));
                         } else {
                             console.warn(`Gallery reference with index ${galleryIndex} not found.`);
                             obj[key] = null;
@@ -469,6 +689,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         };
     
         restoreRefs(restoredState);
+        await Promise.all(pendingRefs);
         return restoredState;
     }, []);
 
@@ -500,7 +721,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         setHistoryIndex(newHistory.length - 1);
     }, [viewHistory, historyIndex]);
 
-    const importSettingsAndNavigate = useCallback((settings: any) => {
+    const importSettingsAndNavigate = useCallback(async (settings: any) => {
         if (!settings || typeof settings.viewId !== 'string' || typeof settings.state !== 'object') {
             alert('Invalid settings file.');
             return;
@@ -514,7 +735,7 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
             return;
         }
     
-        const restoredState = restoreStateFromGallery(importedState, imageGallery);
+        const restoredState = await restoreStateFromGallery(importedState, imageGallery);
         const mergedState = { ...initialState, ...restoredState };
     
         const newHistory = viewHistory.slice(0, historyIndex + 1);
@@ -567,6 +788,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const handleCloseInfo = useCallback(() => setIsInfoOpen(false), []);
     const handleOpenHistoryPanel = useCallback(() => setIsHistoryPanelOpen(true), []);
     const handleCloseHistoryPanel = useCallback(() => setIsHistoryPanelOpen(false), []);
+    const handleOpenJobQueuePanel = useCallback(() => setIsJobQueuePanelOpen(true), []);
+    const handleCloseJobQueuePanel = useCallback(() => setIsJobQueuePanelOpen(false), []);
+    const handleOpenUsageDashboard = useCallback(() => setIsUsageDashboardOpen(true), []);
+    const handleCloseUsageDashboard = useCallback(() => setIsUsageDashboardOpen(false), []);
     const toggleExtraTools = useCallback(() => setIsExtraToolsOpen(prev => !prev), []);
     const openImageLayoutModal = useCallback(() => {
         setIsImageLayoutModalOpen(true);
@@ -628,17 +853,65 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         }
     }, [isLayerComposerVisible, hideLayerComposer, openLayerComposer]);
 
+    const switchWorkspace = useCallback((workspaceId: string) => {
+        if (activeWorkspace?.id === workspaceId) return;
+        // The canvas and storyboard belong to the workspace; close them so they reload from the new one.
+        closeLayerComposer();
+        closeStoryboardingModal();
+        localStorage.setItem(`activeWorkspace:${workspaceOwner}`, workspaceId);
+        setActiveWorkspace({ owner: workspaceOwner, id: workspaceId });
+    }, [activeWorkspace, workspaceOwner, closeLayerComposer, closeStoryboardingModal]);
+
+    const createWorkspace = useCallback(async (name: string) => {
+        const workspace: WorkspaceRecord = {
+            key: '',
+            owner: workspaceOwner,
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`,
+            name: name.trim(),
+            createdAt: Date.now(),
+        };
+        workspace.key = `${workspace.owner}/${workspace.id}`;
+        await db.saveWorkspace(workspace);
+        setSavedWorkspaces(prev => [...prev, workspace]);
+        switchWorkspace(workspace.id);
+    }, [workspaceOwner, switchWorkspace]);
+
+    const deleteWorkspace = useCallback(async (workspaceId: string) => {
+        if (workspaceId === db.DEFAULT_WORKSPACE_ID) return;
+        if (activeWorkspace?.id === workspaceId) {
+            switchWorkspace(db.DEFAULT_WORKSPACE_ID);
+            // The effect that follows the switch runs after this render; point the database at the
+            // default workspace now so nothing reopens the one being deleted in the meantime.
+            db.setActiveWorkspace(workspaceOwner, db.DEFAULT_WORKSPACE_ID);
+        }
+        await db.deleteWorkspace(workspaceOwner, workspaceId);
+        setSavedWorkspaces(prev => prev.filter(workspace => workspace.id !== workspaceId));
+    }, [activeWorkspace, workspaceOwner, switchWorkspace]);
+
+    useEffect(() => {
+        // Calls that don't name their app are charged to whatever the user is looking at.
+        const activeAppId = isLayerComposerVisible
+            ? 'layer-composer'
+            : isStoryboardingModalVisible ? 'storyboarding' : currentView.viewId;
+        setUsageContext({ appId: activeAppId });
+    }, [currentView.viewId, isLayerComposerVisible, isStoryboardingModalVisible]);
+
     const value: AppControlContextType = {
         currentView,
         settings,
         theme,
         imageGallery,
+        galleryItems,
+        workspaces,
+        activeWorkspaceId: activeWorkspace?.id ?? null,
         historyIndex,
         viewHistory,
         isSearchOpen,
         isGalleryOpen,
         isInfoOpen,
         isHistoryPanelOpen,
+        isJobQueuePanelOpen,
+        isUsageDashboardOpen,
         isExtraToolsOpen,
         isImageLayoutModalOpen,
         isBeforeAfterModalOpen,
@@ -648,13 +921,19 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         isLayerComposerMounted,
         isLayerComposerVisible,
         language,
+        forceFreshGeneration,
         generationHistory,
         addGenerationToHistory,
         addImagesToGallery,
         removeImageFromGallery,
         replaceImageInGallery,
+        switchWorkspace,
+        createWorkspace,
+        deleteWorkspace,
+        copyGalleryItemsToWorkspace,
         handleThemeChange,
         handleLanguageChange,
+        handleForceFreshGenerationChange,
         navigateTo,
         handleStateChange,
         handleSelectApp,
@@ -670,6 +949,10 @@ export const AppControlProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         handleCloseInfo,
         handleOpenHistoryPanel,
         handleCloseHistoryPanel,
+        handleOpenJobQueuePanel,
+        handleCloseJobQueuePanel,
+        handleOpenUsageDashboard,
+        handleCloseUsageDashboard,
         toggleExtraTools,
         openImageLayoutModal,
         closeImageLayoutModal,
@@ -4,6 +4,8 @@
 */
 import toast from 'react-hot-toast';
 import { type ImageForZip, type VideoTask } from './uiTypes';
+import { linkImageProvenance } from '../services/provenance';
+import { getGalleryUrlBlob } from '../lib/db';
 // FIX: Add missing React import.
 import React, { type ChangeEvent } from 'react';
 
@@ -31,6 +33,17 @@ export const handleFileUpload = (
     }
 };
 
+/**
+ * Whether a URL points to a video. Generated videos are blob URLs; so are the images loaded from the
+ * gallery, which are told apart by the file type stored behind them.
+ * @param url A data, blob or remote URL.
+ */
+export const isVideoUrl = (url: string): boolean => {
+    if (!url.startsWith('blob:')) return false;
+    const galleryBlob = getGalleryUrlBlob(url);
+    return !galleryBlob || galleryBlob.type.startsWith('video/');
+};
+
 /**
  * Triggers a browser download for a given URL, automatically determining the file extension.
  * @param url The URL of the file to download (can be a data URL or blob URL).
@@ -48,10 +61,14 @@ export const downloadImage = (url: string, filenameWithoutExtension: string) =>
         extension = 'jpg';
     } else if (url.startsWith('data:image/webp')) {
         extension = 'webp';
-    } else if (url.startsWith('blob:')) {
+    } else if (isVideoUrl(url)) {
         // This is likely a video from video generation or a blob from another source.
         // It's safer to assume mp4 for videos.
         extension = 'mp4';
+    } else if (url.startsWith('blob:')) {
+        // A gallery image; its stored file knows the real type.
+        const subtype = getGalleryUrlBlob(url)?.type.split('/')[1];
+        extension = subtype === 'jpeg' || !subtype ? 'jpg' : subtype;
     }
 
     const filename = `${filenameWithoutExtension}.${extension}`;
@@ -87,6 +104,21 @@ export const downloadJson = (data: object, filenameWithExtension: string) => {
     }
 };
 
+/**
+ * Triggers a browser download for a Blob, such as a generated document.
+ * @param blob The file contents.
+ * @param filenameWithExtension The desired filename, including its extension.
+ */
+export const downloadBlob = (blob: Blob, filenameWithExtension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filenameWithExtension;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
 
 /**
  * Converts a data URL string to a Blob object.
@@ -212,7 +244,7 @@ export const processAndDownloadAll = async ({
         // Sanitize the filename part
         const namePart = namePartRaw.substring(0, 30).replace(/[\s()]/g, '_').replace(/[^\w-]/g, '');
         
-        const isVideo = url.startsWith('blob:');
+        const isVideo = isVideoUrl(url);
 
         allItemsToZip.push({
             url,
@@ -312,6 +344,7 @@ export const embedJsonInPng = async (imageDataUrl: string, jsonData: object, ena
         newPngData.set(view.slice(iendIndex), iendIndex + fullChunk.length);
 
         const newBlob = new Blob([newPngData], { type: 'image/png' });
+        await linkImageProvenance(blob, newBlob);
 
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
@@ -5,7 +5,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAppControls } from './uiContexts';
 // FIX: Changed startVideoGenerationFromImage to startVideoGeneration and imported parseDataUrl.
-import { startVideoGeneration, pollVideoOperation, parseDataUrl } from '../services/geminiService';
+import { startVideoGeneration, pollVideoOperation, downloadGeneratedVideo, parseDataUrl, getJobs, subscribeToJobQueue, type GenerationJob, getLocalizedErrorMessage } from '../services/geminiService';
 import { type VideoTask } from './uiTypes';
 
 /**
@@ -54,6 +54,21 @@ export const useLightbox = () => {
     };
 };
 
+/**
+ * Custom hook that subscribes to the central generation job queue.
+ * @returns The current list of active and recently finished jobs.
+ */
+export const useJobQueue = (): GenerationJob[] => {
+    const [jobs, setJobs] = useState<GenerationJob[]>(() => getJobs());
+
+    useEffect(() => {
+        setJobs(getJobs());
+        return subscribeToJobQueue(() => setJobs(getJobs()));
+    }, []);
+
+    return jobs;
+};
+
 // --- NEW: Debounce Hook ---
 /**
  * Custom hook to debounce a value.
@@ -78,7 +93,7 @@ export function useDebounce<T>(value: T, delay: number): T {
 // --- NEW: Video Generation Hook ---
 
 export const useVideoGeneration = () => {
-    const { addImagesToGallery } = useAppControls();
+    const { addImagesToGallery, t } = useAppControls();
     const [videoTasks, setVideoTasks] = useState<Record<string, VideoTask>>({});
 
     const generateVideo = useCallback(async (sourceUrl: string, prompt: string) => {
@@ -90,10 +105,10 @@ export const useVideoGeneration = () => {
             const op = await startVideoGeneration(finalPrompt, image);
             setVideoTasks(prev => ({ ...prev, [sourceUrl]: { status: 'pending', operation: op } }));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
             setVideoTasks(prev => ({ ...prev, [sourceUrl]: { status: 'error', error: errorMessage } }));
         }
-    }, [addImagesToGallery]);
+    }, [addImagesToGallery, t]);
 
     useEffect(() => {
         const tasksToPoll = Object.entries(videoTasks).filter(([, task]) => (task as VideoTask).status === 'pending' && (task as VideoTask).operation);
@@ -117,9 +132,7 @@ export const useVideoGeneration = () => {
                     if (updatedOp.done) {
                         if (updatedOp.response?.generatedVideos?.[0]?.video?.uri) {
                             const downloadLink = updatedOp.response.generatedVideos[0].video.uri;
-                            const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                            if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
-                            const blob = await response.blob();
+                            const blob = await downloadGeneratedVideo(downloadLink);
                             const blobUrl = URL.createObjectURL(blob);
                             newTasks[sourceUrl] = { status: 'done', resultUrl: blobUrl };
                             addImagesToGallery([blobUrl]);
@@ -132,7 +145,7 @@ export const useVideoGeneration = () => {
                     }
                     tasksUpdated = true;
                 } catch (err) {
-                    const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                    const errorMessage = getLocalizedErrorMessage(err, t, "An unknown error occurred.");
                     newTasks[sourceUrl] = { status: 'error', error: errorMessage };
                     tasksUpdated = true;
                 }
@@ -154,7 +167,7 @@ export const useVideoGeneration = () => {
             isCancelled = true;
             clearTimeout(timeoutId);
         };
-    }, [videoTasks, addImagesToGallery]);
+    }, [videoTasks, addImagesToGallery, t]);
 
     return { videoTasks, generateVideo };
 };
\ No newline at end of file
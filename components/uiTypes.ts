@@ -4,6 +4,11 @@
 */
 
 // This file contains shared type definitions for UI components and application state.
+import type { ImageProviderSettings } from '../services/providers/types';
+import type { JobQueueSettings } from '../services/jobQueue';
+import type { ImageProvenance } from '../services/provenance';
+import type { UsageBudgetSettings } from '../services/usageLedger';
+import type { ResponseCacheSettings } from '../services/responseCache';
 
 // Base types
 export interface ImageForZip {
@@ -48,6 +53,10 @@ export interface Settings {
     enableImageMetadata: boolean;
     // FIX: Add missing enableWebcam property to the Settings interface.
     enableWebcam: boolean;
+    imageProvider?: ImageProviderSettings;
+    jobQueue?: JobQueueSettings;
+    usageBudgets?: UsageBudgetSettings;
+    responseCache?: ResponseCacheSettings;
     architectureIdeator: AppSettings;
     avatarCreator: AppSettings & { minIdeas: number; maxIdeas: number; };
     babyPhotoCreator: AppSettings & { minIdeas: number; maxIdeas: number; };
@@ -476,6 +485,43 @@ export interface GenerationHistoryEntry {
     };
 }
 
+// --- Gallery Types ---
+// Gallery files are stored once per SHA-256 content hash; this record describes one of them.
+export interface GalleryItemRecord {
+    hash: string;
+    mimeType: string;
+    size: number;
+    width?: number;
+    height?: number;
+    createdAt: number;
+    sourceApp?: string;
+    prompt?: string;
+    parentHash?: string;
+    // How the image was generated, when it came from an AI generation in this browser.
+    provenance?: ImageProvenance;
+}
+
+// Optional details supplied by the caller when adding images to the gallery.
+export interface GalleryImageMetadata {
+    sourceApp?: string;
+    prompt?: string;
+    parentHash?: string;
+}
+
+// A gallery entry as used by the UI: its metadata plus a URL that can be displayed.
+export interface WorkspaceRecord {
+    key: string; // `${owner}/${id}`
+    owner: string; // The signed-in username, or '' when signed out
+    id: string;
+    name: string;
+    createdAt: number;
+}
+
+export interface GalleryItem {
+    url: string;
+    record: GalleryItemRecord;
+}
+
 // --- Context Types ---
 
 export interface AppControlContextType {
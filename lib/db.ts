@@ -2,24 +2,53 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { type GenerationHistoryEntry } from '../components/uiTypes';
+import { type GenerationHistoryEntry, type GalleryItemRecord, type GalleryImageMetadata, type GalleryItem, type WorkspaceRecord } from '../components/uiTypes';
+import type { GenerationJob } from '../services/jobQueue';
+import type { ImageProvenance } from '../services/provenance';
+import type { UsageEntry } from '../services/usageLedger';
+import type { ResponseCacheEntry } from '../services/responseCache';
+import type { CanvasDocumentRecord, CanvasDocumentState, CanvasVersionRecord, CanvasTemplateRecord } from '../components/LayerComposer/LayerComposer.types';
+import type { AdjustmentPresetRecord, EditSessionRecord } from '../components/ImageEditor/ImageEditor.types';
 
 const DB_NAME = 'aPixDatabase';
-const DB_VERSION = 3;
+const DB_VERSION = 12;
+// Legacy gallery store (v1-v4): full data-URL strings under auto-increment keys. Emptied by `migrateGalleryToBlobStore`.
 const GALLERY_STORE = 'imageGallery';
+const GALLERY_BLOB_STORE = 'galleryBlobs';
+const GALLERY_ITEM_STORE = 'galleryItems';
 const HISTORY_STORE = 'generationHistory';
 const CANVAS_STORE = 'canvasState';
+const CANVAS_DOCUMENT_STORE = 'canvasDocuments';
+const CANVAS_VERSION_STORE = 'canvasVersions';
+const CANVAS_TEMPLATE_STORE = 'canvasTemplates';
+const ADJUSTMENT_PRESET_STORE = 'adjustmentPresets';
+const EDIT_SESSION_STORE = 'editSessions';
 const STORYBOARD_STORE = 'storyboardState';
+const JOBS_STORE = 'generationJobs';
+const USAGE_STORE = 'usageLedger';
+const RESPONSE_CACHE_STORE = 'responseCache';
+const WORKSPACE_STORE = 'workspaces';
 
-let dbPromise: Promise<IDBDatabase> | null = null;
+// The signed-out user's default workspace uses the main database; every other workspace gets its own.
+const WORKSPACE_DB_PREFIX = 'aPixWorkspace';
+export const DEFAULT_WORKSPACE_ID = 'default';
+// Stores holding a workspace's own data, as opposed to the shared ones that only the main database uses.
+const WORKSPACE_STORES = [
+    GALLERY_STORE, GALLERY_BLOB_STORE, GALLERY_ITEM_STORE, HISTORY_STORE, CANVAS_STORE, CANVAS_DOCUMENT_STORE,
+    CANVAS_VERSION_STORE, CANVAS_TEMPLATE_STORE, ADJUSTMENT_PRESET_STORE, EDIT_SESSION_STORE, STORYBOARD_STORE,
+];
 
-const initDB = (): Promise<IDBDatabase> => {
-    if (dbPromise) {
-        return dbPromise;
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+let activeWorkspaceDbName = DB_NAME;
+
+const openDB = (name: string): Promise<IDBDatabase> => {
+    const existing = dbPromises.get(name);
+    if (existing) {
+        return existing;
     }
 
-    dbPromise = new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, DB_VERSION);
 
         request.onerror = () => {
             console.error('IndexedDB error:', request.error);
@@ -44,11 +73,67 @@ const initDB = (): Promise<IDBDatabase> => {
             if (!db.objectStoreNames.contains(STORYBOARD_STORE)) {
                 db.createObjectStore(STORYBOARD_STORE);
             }
+            if (!db.objectStoreNames.contains(JOBS_STORE)) {
+                db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+            }
+            // v5: content-addressed gallery. Blobs keyed by SHA-256 hash, metadata in its own store.
+            if (!db.objectStoreNames.contains(GALLERY_BLOB_STORE)) {
+                db.createObjectStore(GALLERY_BLOB_STORE);
+            }
+            if (!db.objectStoreNames.contains(GALLERY_ITEM_STORE)) {
+                const itemStore = db.createObjectStore(GALLERY_ITEM_STORE, { keyPath: 'hash' });
+                itemStore.createIndex('createdAt', 'createdAt');
+            }
+            // v6: usage ledger.
+            if (!db.objectStoreNames.contains(USAGE_STORE)) {
+                const usageStore = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+                usageStore.createIndex('timestamp', 'timestamp');
+            }
+            // v7: opt-in response cache.
+            if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+                const cacheStore = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+                cacheStore.createIndex('lastUsedAt', 'lastUsedAt');
+            }
+            // v8: named workspaces, each with its own database.
+            if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+                const workspaceStore = db.createObjectStore(WORKSPACE_STORE, { keyPath: 'key' });
+                workspaceStore.createIndex('owner', 'owner');
+            }
+            // v9: Layer Composer document library. Document layers stay in CANVAS_STORE, keyed by document id.
+            if (!db.objectStoreNames.contains(CANVAS_DOCUMENT_STORE)) {
+                const documentStore = db.createObjectStore(CANVAS_DOCUMENT_STORE, { keyPath: 'id' });
+                documentStore.createIndex('updatedAt', 'updatedAt');
+            }
+            if (!db.objectStoreNames.contains(CANVAS_VERSION_STORE)) {
+                const versionStore = db.createObjectStore(CANVAS_VERSION_STORE, { keyPath: 'id' });
+                versionStore.createIndex('documentId', 'documentId');
+            }
+            // v10: Layer Composer templates.
+            if (!db.objectStoreNames.contains(CANVAS_TEMPLATE_STORE)) {
+                db.createObjectStore(CANVAS_TEMPLATE_STORE, { keyPath: 'id' });
+            }
+            // v11: Image Editor looks.
+            if (!db.objectStoreNames.contains(ADJUSTMENT_PRESET_STORE)) {
+                db.createObjectStore(ADJUSTMENT_PRESET_STORE, { keyPath: 'id' });
+            }
+            // v12: Image Editor sessions, found by the hash of the image they started from or last saved.
+            if (!db.objectStoreNames.contains(EDIT_SESSION_STORE)) {
+                const sessionStore = db.createObjectStore(EDIT_SESSION_STORE, { keyPath: 'id' });
+                sessionStore.createIndex('sourceHash', 'sourceHash');
+                sessionStore.createIndex('resultHash', 'resultHash');
+            }
         };
     });
+    dbPromises.set(name, dbPromise);
     return dbPromise;
 };
 
+// Shared data (jobs, usage ledger, response cache, workspace list) always lives in the main database.
+const initDB = (): Promise<IDBDatabase> => openDB(DB_NAME);
+
+// Gallery, history, canvas and storyboard live in the active workspace's database.
+const initWorkspaceDB = (): Promise<IDBDatabase> => openDB(activeWorkspaceDbName);
+
 // --- MIGRATION ---
 export const migrateFromLocalStorageToIdb = async (): Promise<void> => {
     const migrationFlag = 'migratedToIDB_v1';
@@ -104,88 +189,233 @@ export const migrateFromLocalStorageToIdb = async (): Promise<void> => {
 
 // --- GALLERY OPERATIONS ---
 
-export const addGalleryImage = async (imageUrl: string): Promise<void> => {
-    const db = await initDB();
-    const tx = db.transaction(GALLERY_STORE, 'readwrite');
-    const store = tx.objectStore(GALLERY_STORE);
-    store.add(imageUrl);
-    return new Promise(resolve => tx.oncomplete = () => resolve());
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+    const response = await fetch(url);
+    return response.blob();
 };
 
-export const addMultipleGalleryImages = async (imageUrls: string[]): Promise<void> => {
-    const db = await initDB();
-    const tx = db.transaction(GALLERY_STORE, 'readwrite');
-    const store = tx.objectStore(GALLERY_STORE);
-    // Add in reverse to maintain newest-first order
-    for (const url of [...imageUrls].reverse()) {
-        store.add(url);
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Stored files are shown through object URLs, so loading the gallery never reads every file as base64.
+// The blobs behind those URLs are kept so they can tell images from videos and be turned into data URLs
+// for the code (AI requests, saved app state) that needs one.
+const galleryObjectUrls = new Map<string, Blob>();
+
+const blobToDisplayUrl = (blob: Blob): string => {
+    const url = URL.createObjectURL(blob);
+    galleryObjectUrls.set(url, blob);
+    return url;
+};
+
+/**
+ * The file behind a gallery object URL, or undefined for any other URL.
+ */
+export const getGalleryUrlBlob = (url: string): Blob | undefined => galleryObjectUrls.get(url);
+
+/**
+ * Turns a gallery image's object URL into a data URL. Any other URL is returned unchanged.
+ */
+export const resolveGalleryImageUrl = async (url: string): Promise<string> => {
+    const blob = galleryObjectUrls.get(url);
+    return blob && blob.type.startsWith('image/') ? blobToDataUrl(blob) : url;
+};
+
+/**
+ * Releases a gallery object URL once its item is deleted or no longer loaded. Other URLs are left alone.
+ */
+export const revokeGalleryUrl = (url: string): void => {
+    if (galleryObjectUrls.delete(url)) {
+        URL.revokeObjectURL(url);
     }
-    return new Promise(resolve => tx.oncomplete = () => resolve());
 };
 
-export const getAllGalleryImages = async (): Promise<string[]> => {
-    const db = await initDB();
-    const tx = db.transaction(GALLERY_STORE, 'readonly');
-    const store = tx.objectStore(GALLERY_STORE);
-    const allItems = store.getAll();
-    return new Promise((resolve) => {
-        tx.oncomplete = () => {
-            // Reverse to get newest first, as they are added with auto-incrementing keys
-            resolve((allItems.result as string[]).reverse());
+const readImageDimensions = async (blob: Blob): Promise<{ width?: number; height?: number }> => {
+    if (!blob.type.startsWith('image/')) return {};
+    try {
+        const bitmap = await createImageBitmap(blob);
+        const dimensions = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        return dimensions;
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Computes the SHA-256 content hash that identifies a gallery file.
+ * @param blob The file contents.
+ * @returns The hash as a lowercase hex string.
+ */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    return toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+};
+
+interface PreparedGalleryEntry {
+    url: string;
+    blob: Blob;
+    record: GalleryItemRecord;
+}
+
+type ProvenanceLookup = (imageHash: string) => ImageProvenance | undefined;
+
+const prepareGalleryEntry = async (
+    url: string,
+    metadata: GalleryImageMetadata & { createdAt?: number },
+    createdAt: number,
+    getProvenance?: ProvenanceLookup
+): Promise<PreparedGalleryEntry> => {
+    const blob = await urlToBlob(url);
+    const [hash, dimensions] = await Promise.all([hashBlob(blob), readImageDimensions(blob)]);
+    const provenance = getProvenance?.(hash);
+    return {
+        url,
+        blob,
+        record: {
+            hash,
+            mimeType: blob.type || 'application/octet-stream',
+            size: blob.size,
+            ...dimensions,
+            ...metadata,
+            createdAt: metadata.createdAt ?? createdAt,
+            prompt: metadata.prompt ?? provenance?.prompt,
+            parentHash: metadata.parentHash ?? provenance?.parentHash,
+            ...(provenance && { provenance: { ...provenance, appId: provenance.appId ?? metadata.sourceApp } }),
+        },
+    };
+};
+
+/**
+ * Stores images (data, blob or remote URLs) in the gallery. Files whose hash is already stored are skipped.
+ * @param imageUrls The images to add, newest first.
+ * @param metadata Details recorded with every added image; `createdAt` overrides the timestamp.
+ * @param getProvenance Looks up how an image was generated, by content hash.
+ * @returns The newly stored items, newest first. Their URLs are the ones passed in.
+ */
+export const addGalleryImages = async (
+    imageUrls: string[],
+    metadata: GalleryImageMetadata & { createdAt?: number } = {},
+    getProvenance?: ProvenanceLookup
+): Promise<GalleryItem[]> => {
+    const now = Date.now();
+    // Later entries get older timestamps so the gallery keeps the given newest-first order.
+    const prepared = await Promise.all(imageUrls.map((url, index) => prepareGalleryEntry(url, metadata, now - index, getProvenance)));
+
+    const db = await initWorkspaceDB();
+    const tx = db.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE], 'readwrite');
+    const blobStore = tx.objectStore(GALLERY_BLOB_STORE);
+    const itemStore = tx.objectStore(GALLERY_ITEM_STORE);
+    const added: GalleryItem[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of prepared) {
+        if (seen.has(entry.record.hash)) continue;
+        seen.add(entry.record.hash);
+        const existing = itemStore.getKey(entry.record.hash);
+        existing.onsuccess = () => {
+            if (existing.result !== undefined) return;
+            blobStore.put(entry.blob, entry.record.hash);
+            itemStore.put(entry.record);
+            added.push({ url: entry.url, record: entry.record });
         };
+    }
+
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve(added.sort((a, b) => b.record.createdAt - a.record.createdAt));
+        tx.onerror = () => reject(tx.error);
     });
 };
 
-export const deleteGalleryImage = async (imageUrl: string): Promise<void> => {
-    const db = await initDB();
-    const tx = db.transaction(GALLERY_STORE, 'readwrite');
-    const store = tx.objectStore(GALLERY_STORE);
-    const cursorReq = store.openCursor(null, 'prev'); // Iterate backwards to find the first match
-    return new Promise((resolve) => {
-        cursorReq.onsuccess = () => {
-            const cursor = cursorReq.result;
-            if (cursor) {
-                if (cursor.value === imageUrl) {
-                    cursor.delete();
-                    resolve();
-                    return;
-                }
-                cursor.continue();
-            } else {
-                resolve(); // Not found
-            }
-        };
+/**
+ * Loads every gallery item with an object URL, newest first. Revoke the URLs with `revokeGalleryUrl`.
+ */
+export const getAllGalleryItems = async (): Promise<GalleryItem[]> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE], 'readonly');
+    const recordsReq = tx.objectStore(GALLERY_ITEM_STORE).index('createdAt').getAll();
+    const blobsReq = tx.objectStore(GALLERY_BLOB_STORE).getAll();
+    const keysReq = tx.objectStore(GALLERY_BLOB_STORE).getAllKeys();
+
+    await new Promise<void>((resolve, reject) => {
         tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
     });
+
+    const blobs = new Map<string, Blob>();
+    (keysReq.result as string[]).forEach((key, index) => blobs.set(key, blobsReq.result[index]));
+    const records = (recordsReq.result as GalleryItemRecord[]).reverse().filter(record => blobs.has(record.hash));
+    return records.map(record => ({ url: blobToDisplayUrl(blobs.get(record.hash)!), record }));
 };
 
-export const replaceGalleryImage = async (oldImageUrl: string, newImageUrl: string): Promise<void> => {
+export const getGalleryItemRecord = async (hash: string): Promise<GalleryItemRecord | null> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(GALLERY_ITEM_STORE, 'readonly');
+    const request = tx.objectStore(GALLERY_ITEM_STORE).get(hash);
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => resolve(request.result || null);
+    });
+};
+
+export const deleteGalleryItem = async (hash: string): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE], 'readwrite');
+    tx.objectStore(GALLERY_BLOB_STORE).delete(hash);
+    tx.objectStore(GALLERY_ITEM_STORE).delete(hash);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+/**
+ * Moves images from the legacy data-URL store into the content-addressed stores.
+ * Each legacy entry is removed only once copied, so an interrupted migration picks up where it left off.
+ */
+export const migrateGalleryToBlobStore = async (): Promise<void> => {
     const db = await initDB();
-    const tx = db.transaction(GALLERY_STORE, 'readwrite');
-    const store = tx.objectStore(GALLERY_STORE);
-    const cursorReq = store.openCursor(null, 'prev');
-     return new Promise((resolve) => {
-        cursorReq.onsuccess = () => {
-            const cursor = cursorReq.result;
-            if (cursor) {
-                if (cursor.value === oldImageUrl) {
-                    cursor.update(newImageUrl);
-                    resolve();
-                    return;
-                }
-                cursor.continue();
-            } else {
-                resolve(); // Not found
+    const readTx = db.transaction(GALLERY_STORE, 'readonly');
+    const keysReq = readTx.objectStore(GALLERY_STORE).getAllKeys();
+    await new Promise(resolve => readTx.oncomplete = resolve);
+    const keys = keysReq.result as number[];
+    if (keys.length === 0) return;
+
+    console.log(`Migrating ${keys.length} gallery items to the content-addressed store...`);
+    // Oldest first (lowest key), one at a time to keep memory use flat for large galleries.
+    for (const [position, key] of keys.entries()) {
+        try {
+            const getTx = db.transaction(GALLERY_STORE, 'readonly');
+            const valueReq = getTx.objectStore(GALLERY_STORE).get(key);
+            await new Promise(resolve => getTx.oncomplete = resolve);
+            const url = valueReq.result as string | undefined;
+            // Object URLs did not survive the reload that brought us here; there is nothing to recover.
+            if (url && !url.startsWith('blob:')) {
+                // Spread timestamps in the past so the original order is kept.
+                const entry = await prepareGalleryEntry(url, {}, Date.now() - (keys.length - position) * 1000);
+                const writeTx = db.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE], 'readwrite');
+                writeTx.objectStore(GALLERY_BLOB_STORE).put(entry.blob, entry.record.hash);
+                writeTx.objectStore(GALLERY_ITEM_STORE).put(entry.record);
+                await new Promise(resolve => writeTx.oncomplete = resolve);
             }
-        };
-        tx.oncomplete = () => resolve();
-    });
+            const deleteTx = db.transaction(GALLERY_STORE, 'readwrite');
+            deleteTx.objectStore(GALLERY_STORE).delete(key);
+            await new Promise(resolve => deleteTx.oncomplete = resolve);
+        } catch (error) {
+            // Leave the legacy entry in place; the next start will try again.
+            console.error(`Could not migrate gallery item ${key}:`, error);
+        }
+    }
+    console.log('Gallery migration complete.');
 };
 
 // --- HISTORY OPERATIONS ---
 
 export const addHistoryEntry = async (entry: GenerationHistoryEntry): Promise<void> => {
-    const db = await initDB();
+    const db = await initWorkspaceDB();
     const tx = db.transaction(HISTORY_STORE, 'readwrite');
     const store = tx.objectStore(HISTORY_STORE);
     store.add(entry);
@@ -193,7 +423,7 @@ export const addHistoryEntry = async (entry: GenerationHistoryEntry): Promise<vo
 };
 
 export const getAllHistoryEntries = async (): Promise<GenerationHistoryEntry[]> => {
-    const db = await initDB();
+    const db = await initWorkspaceDB();
     const tx = db.transaction(HISTORY_STORE, 'readonly');
     const store = tx.objectStore(HISTORY_STORE);
     const allItems = store.getAll();
@@ -205,20 +435,102 @@ export const getAllHistoryEntries = async (): Promise<GenerationHistoryEntry[]>
     });
 };
 
-// --- CANVAS OPERATIONS ---
-export const saveCanvasState = async (state: any): Promise<void> => {
-    const db = await initDB();
-    const tx = db.transaction(CANVAS_STORE, 'readwrite');
-    const store = tx.objectStore(CANVAS_STORE);
-    store.put(state, 'currentState'); // Use a fixed key
+// --- CANVAS DOCUMENT OPERATIONS ---
+// The library lists documents from CANVAS_DOCUMENT_STORE (name, dates, thumbnail) without reading their
+// layers; a document's layers and history live in CANVAS_STORE under its id, next to the id of the open one.
+const ACTIVE_CANVAS_KEY = 'activeDocumentId';
+// Before the library there was a single autosave slot.
+const LEGACY_CANVAS_KEY = 'currentState';
+
+/**
+ * Turns the old single autosave slot into a document, so work from before the library isn't lost.
+ * The read and the writes share one readwrite transaction; IndexedDB runs overlapping readwrite
+ * transactions one after another, so callers racing on startup can't both copy the slot.
+ */
+const migrateLegacyCanvasState = (db: IDBDatabase): Promise<void> => new Promise((resolve, reject) => {
+    const tx = db.transaction([CANVAS_STORE, CANVAS_DOCUMENT_STORE], 'readwrite');
+    const canvasStore = tx.objectStore(CANVAS_STORE);
+    const request = canvasStore.get(LEGACY_CANVAS_KEY);
+    request.onsuccess = () => {
+        const legacyState = request.result as CanvasDocumentState | undefined;
+        if (!legacyState) return;
+        if (Array.isArray(legacyState.layers) && legacyState.layers.length > 0) {
+            const id = Math.random().toString(36).substring(2, 9);
+            const now = Date.now();
+            tx.objectStore(CANVAS_DOCUMENT_STORE).put({ id, name: 'Untitled', createdAt: now, updatedAt: now } satisfies CanvasDocumentRecord);
+            canvasStore.put(legacyState, id);
+            canvasStore.put(id, ACTIVE_CANVAS_KEY);
+        }
+        canvasStore.delete(LEGACY_CANVAS_KEY);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+});
+
+/**
+ * Lists the documents in the active workspace, most recently edited first.
+ */
+export const getCanvasDocuments = async (): Promise<CanvasDocumentRecord[]> => {
+    const db = await initWorkspaceDB();
+    await migrateLegacyCanvasState(db);
+    const tx = db.transaction(CANVAS_DOCUMENT_STORE, 'readonly');
+    const request = tx.objectStore(CANVAS_DOCUMENT_STORE).getAll();
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            resolve((request.result as CanvasDocumentRecord[]).sort((a, b) => b.updatedAt - a.updatedAt));
+        };
+    });
+};
+
+/**
+ * Saves a document's details and, when given, its contents.
+ */
+export const saveCanvasDocument = async (record: CanvasDocumentRecord, state?: CanvasDocumentState): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction([CANVAS_DOCUMENT_STORE, CANVAS_STORE], 'readwrite');
+    tx.objectStore(CANVAS_DOCUMENT_STORE).put(record);
+    if (state) tx.objectStore(CANVAS_STORE).put(state, record.id);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const loadCanvasDocumentState = async (id: string): Promise<CanvasDocumentState | null> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_STORE, 'readonly');
+    const request = tx.objectStore(CANVAS_STORE).get(id);
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            resolve(request.result || null);
+        };
+    });
+};
+
+/**
+ * Deletes a document together with its contents and snapshots.
+ */
+export const deleteCanvasDocument = async (id: string): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction([CANVAS_DOCUMENT_STORE, CANVAS_STORE, CANVAS_VERSION_STORE], 'readwrite');
+    tx.objectStore(CANVAS_DOCUMENT_STORE).delete(id);
+    tx.objectStore(CANVAS_STORE).delete(id);
+    const versionStore = tx.objectStore(CANVAS_VERSION_STORE);
+    const versionKeys = versionStore.index('documentId').getAllKeys(id);
+    versionKeys.onsuccess = () => versionKeys.result.forEach(key => versionStore.delete(key));
     return new Promise(resolve => tx.oncomplete = () => resolve());
 };
 
-export const loadCanvasState = async (): Promise<any | null> => {
-    const db = await initDB();
+/**
+ * The document the Layer Composer reopens, or null when it should show the start screen.
+ */
+export const getActiveCanvasDocumentId = async (): Promise<string | null> => {
+    const db = await initWorkspaceDB();
+    await migrateLegacyCanvasState(db);
     const tx = db.transaction(CANVAS_STORE, 'readonly');
-    const store = tx.objectStore(CANVAS_STORE);
-    const request = store.get('currentState');
+    const request = tx.objectStore(CANVAS_STORE).get(ACTIVE_CANVAS_KEY);
     return new Promise((resolve, reject) => {
         request.onerror = () => reject(request.error);
         tx.oncomplete = () => {
@@ -227,17 +539,145 @@ export const loadCanvasState = async (): Promise<any | null> => {
     });
 };
 
-export const clearCanvasState = async (): Promise<void> => {
-    const db = await initDB();
+export const setActiveCanvasDocumentId = async (id: string | null): Promise<void> => {
+    const db = await initWorkspaceDB();
     const tx = db.transaction(CANVAS_STORE, 'readwrite');
     const store = tx.objectStore(CANVAS_STORE);
-    store.clear();
+    if (id) store.put(id, ACTIVE_CANVAS_KEY);
+    else store.delete(ACTIVE_CANVAS_KEY);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+/**
+ * Lists a document's snapshots, newest first.
+ */
+export const getCanvasVersions = async (documentId: string): Promise<CanvasVersionRecord[]> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_VERSION_STORE, 'readonly');
+    const request = tx.objectStore(CANVAS_VERSION_STORE).index('documentId').getAll(documentId);
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            resolve((request.result as CanvasVersionRecord[]).sort((a, b) => b.createdAt - a.createdAt));
+        };
+    });
+};
+
+export const saveCanvasVersion = async (version: CanvasVersionRecord): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_VERSION_STORE, 'readwrite');
+    tx.objectStore(CANVAS_VERSION_STORE).put(version);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteCanvasVersion = async (id: string): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_VERSION_STORE, 'readwrite');
+    tx.objectStore(CANVAS_VERSION_STORE).delete(id);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+/**
+ * Lists the templates in the active workspace, newest first.
+ */
+export const getCanvasTemplates = async (): Promise<CanvasTemplateRecord[]> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_TEMPLATE_STORE, 'readonly');
+    const request = tx.objectStore(CANVAS_TEMPLATE_STORE).getAll();
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            resolve((request.result as CanvasTemplateRecord[]).sort((a, b) => b.createdAt - a.createdAt));
+        };
+    });
+};
+
+export const saveCanvasTemplate = async (template: CanvasTemplateRecord): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_TEMPLATE_STORE, 'readwrite');
+    tx.objectStore(CANVAS_TEMPLATE_STORE).put(template);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteCanvasTemplate = async (id: string): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(CANVAS_TEMPLATE_STORE, 'readwrite');
+    tx.objectStore(CANVAS_TEMPLATE_STORE).delete(id);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+// --- IMAGE EDITOR LOOK OPERATIONS ---
+/**
+ * Saved Image Editor looks, newest first.
+ */
+export const getAdjustmentPresets = async (): Promise<AdjustmentPresetRecord[]> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(ADJUSTMENT_PRESET_STORE, 'readonly');
+    const request = tx.objectStore(ADJUSTMENT_PRESET_STORE).getAll();
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        tx.oncomplete = () => {
+            resolve((request.result as AdjustmentPresetRecord[]).sort((a, b) => b.createdAt - a.createdAt));
+        };
+    });
+};
+
+export const saveAdjustmentPreset = async (preset: AdjustmentPresetRecord): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(ADJUSTMENT_PRESET_STORE, 'readwrite');
+    tx.objectStore(ADJUSTMENT_PRESET_STORE).put(preset);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteAdjustmentPreset = async (id: string): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(ADJUSTMENT_PRESET_STORE, 'readwrite');
+    tx.objectStore(ADJUSTMENT_PRESET_STORE).delete(id);
     return new Promise(resolve => tx.oncomplete = () => resolve());
 };
 
+// --- IMAGE EDITOR SESSION OPERATIONS ---
+export const saveEditSession = async (session: EditSessionRecord): Promise<void> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(EDIT_SESSION_STORE, 'readwrite');
+    tx.objectStore(EDIT_SESSION_STORE).put(session);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * The most recently saved session that produced an image, or else the latest one that started from it.
+ * @param imageHash The image's gallery content hash.
+ */
+export const findEditSession = async (imageHash: string): Promise<EditSessionRecord | null> => {
+    const db = await initWorkspaceDB();
+    const tx = db.transaction(EDIT_SESSION_STORE, 'readonly');
+    const store = tx.objectStore(EDIT_SESSION_STORE);
+    const byResult = store.index('resultHash').getAll(imageHash);
+    const bySource = store.index('sourceHash').getAll(imageHash);
+    const latest = (sessions: EditSessionRecord[]) => sessions.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    return new Promise((resolve, reject) => {
+        tx.onerror = () => reject(tx.error);
+        tx.oncomplete = () => {
+            resolve(latest(byResult.result as EditSessionRecord[]) ?? latest(bySource.result as EditSessionRecord[]) ?? null);
+        };
+    });
+};
+
 // --- STORYBOARD OPERATIONS ---
 export const saveStoryboardState = async (state: any): Promise<void> => {
-    const db = await initDB();
+    const db = await initWorkspaceDB();
     const tx = db.transaction(STORYBOARD_STORE, 'readwrite');
     const store = tx.objectStore(STORYBOARD_STORE);
     store.put(state, 'currentStoryboard'); // Use a fixed key
@@ -245,7 +685,7 @@ export const saveStoryboardState = async (state: any): Promise<void> => {
 };
 
 export const loadStoryboardState = async (): Promise<any | null> => {
-    const db = await initDB();
+    const db = await initWorkspaceDB();
     const tx = db.transaction(STORYBOARD_STORE, 'readonly');
     const store = tx.objectStore(STORYBOARD_STORE);
     const request = store.get('currentStoryboard');
@@ -258,9 +698,289 @@ export const loadStoryboardState = async (): Promise<any | null> => {
 };
 
 export const clearStoryboardState = async (): Promise<void> => {
-    const db = await initDB();
+    const db = await initWorkspaceDB();
     const tx = db.transaction(STORYBOARD_STORE, 'readwrite');
     const store = tx.objectStore(STORYBOARD_STORE);
     store.clear();
     return new Promise(resolve => tx.oncomplete = () => resolve());
-};
\ No newline at end of file
+};
+
+// --- GENERATION JOB OPERATIONS ---
+export const saveGenerationJob = async (job: GenerationJob): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+    store.put(job);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const deleteGenerationJob = async (jobId: string): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(JOBS_STORE, 'readwrite');
+    const store = tx.objectStore(JOBS_STORE);
+    store.delete(jobId);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const getAllGenerationJobs = async (): Promise<GenerationJob[]> => {
+    const db = await initDB();
+    const tx = db.transaction(JOBS_STORE, 'readonly');
+    const store = tx.objectStore(JOBS_STORE);
+    const allItems = store.getAll();
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            const sorted = (allItems.result as GenerationJob[]).sort((a, b) => a.createdAt - b.createdAt);
+            resolve(sorted);
+        };
+    });
+};
+
+// --- USAGE LEDGER OPERATIONS ---
+export const addUsageEntry = async (entry: UsageEntry): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    const store = tx.objectStore(USAGE_STORE);
+    store.put(entry);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const getUsageEntriesSince = async (sinceTimestamp: number): Promise<UsageEntry[]> => {
+    const db = await initDB();
+    const tx = db.transaction(USAGE_STORE, 'readonly');
+    const store = tx.objectStore(USAGE_STORE);
+    const allItems = store.index('timestamp').getAll(IDBKeyRange.lowerBound(sinceTimestamp));
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            resolve(allItems.result as UsageEntry[]);
+        };
+    });
+};
+
+// --- RESPONSE CACHE OPERATIONS ---
+export const getResponseCacheEntry = async (key: string): Promise<ResponseCacheEntry | null> => {
+    const db = await initDB();
+    const tx = db.transaction(RESPONSE_CACHE_STORE, 'readonly');
+    const store = tx.objectStore(RESPONSE_CACHE_STORE);
+    const request = store.get(key);
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            resolve((request.result as ResponseCacheEntry | undefined) || null);
+        };
+    });
+};
+
+export const putResponseCacheEntry = async (entry: ResponseCacheEntry): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(RESPONSE_CACHE_STORE);
+    store.put(entry);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+/**
+ * Deletes expired entries, then the least recently used ones until the cache fits the limits.
+ */
+export const pruneResponseCache = async (limits: { maxEntries: number; maxBytes: number; expiresBefore: number }): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(RESPONSE_CACHE_STORE);
+    let count = 0;
+    let bytes = 0;
+    const cursorRequest = store.index('lastUsedAt').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const entry = cursor.value as ResponseCacheEntry;
+        if (entry.createdAt < limits.expiresBefore || count + 1 > limits.maxEntries || bytes + entry.size > limits.maxBytes) {
+            cursor.delete();
+        } else {
+            count += 1;
+            bytes += entry.size;
+        }
+        cursor.continue();
+    };
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(RESPONSE_CACHE_STORE);
+    store.clear();
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+// --- WORKSPACE OPERATIONS ---
+/**
+ * Names the database of a workspace. The signed-out user's default workspace keeps the main database,
+ * so data from before workspaces existed stays where it was.
+ * @param owner The signed-in username, or '' when signed out.
+ * @param workspaceId The workspace id.
+ */
+export const getWorkspaceDbName = (owner: string, workspaceId: string): string => {
+    if (!owner && workspaceId === DEFAULT_WORKSPACE_ID) {
+        return DB_NAME;
+    }
+    return `${WORKSPACE_DB_PREFIX}:${encodeURIComponent(owner)}:${workspaceId}`;
+};
+
+const LEGACY_DATA_OWNER_KEY = 'legacyWorkspaceDataOwner';
+let legacyDataClaim: Promise<void> | null = null;
+
+/**
+ * Moves the data from before workspaces existed, which sits in the main database, into the default
+ * workspace of the first user who signs in. It happens once per browser; later users start empty.
+ * @param owner The signed-in username, or '' when signed out (the main database is already theirs).
+ */
+export const claimLegacyWorkspaceData = (owner: string): Promise<void> => {
+    if (!owner || localStorage.getItem(LEGACY_DATA_OWNER_KEY) !== null) {
+        return Promise.resolve();
+    }
+    legacyDataClaim ??= (async () => {
+        const sourceDb = await initDB();
+        const targetDb = await openDB(getWorkspaceDbName(owner, DEFAULT_WORKSPACE_ID));
+
+        const readTx = sourceDb.transaction(WORKSPACE_STORES, 'readonly');
+        const contents = WORKSPACE_STORES.map(storeName => ({
+            storeName,
+            keys: readTx.objectStore(storeName).getAllKeys(),
+            values: readTx.objectStore(storeName).getAll(),
+        }));
+        await new Promise(resolve => readTx.oncomplete = resolve);
+
+        const writeTx = targetDb.transaction(WORKSPACE_STORES, 'readwrite');
+        contents.forEach(({ storeName, keys, values }) => {
+            const store = writeTx.objectStore(storeName);
+            values.result.forEach((value, index) => store.keyPath === null ? store.put(value, keys.result[index]) : store.put(value));
+        });
+        await new Promise<void>((resolve, reject) => {
+            writeTx.oncomplete = () => resolve();
+            writeTx.onerror = () => reject(writeTx.error);
+        });
+        localStorage.setItem(LEGACY_DATA_OWNER_KEY, owner);
+
+        const clearTx = sourceDb.transaction(WORKSPACE_STORES, 'readwrite');
+        WORKSPACE_STORES.forEach(storeName => clearTx.objectStore(storeName).clear());
+        await new Promise(resolve => clearTx.oncomplete = resolve);
+    })().finally(() => { legacyDataClaim = null; });
+    return legacyDataClaim;
+};
+
+/**
+ * Points gallery, history, canvas and storyboard operations at a workspace.
+ */
+export const setActiveWorkspace = (owner: string, workspaceId: string): void => {
+    activeWorkspaceDbName = getWorkspaceDbName(owner, workspaceId);
+};
+
+export const getWorkspaces = async (owner: string): Promise<WorkspaceRecord[]> => {
+    const db = await initDB();
+    const tx = db.transaction(WORKSPACE_STORE, 'readonly');
+    const request = tx.objectStore(WORKSPACE_STORE).index('owner').getAll(owner);
+    return new Promise((resolve) => {
+        tx.oncomplete = () => {
+            resolve((request.result as WorkspaceRecord[]).sort((a, b) => a.createdAt - b.createdAt));
+        };
+    });
+};
+
+export const saveWorkspace = async (workspace: WorkspaceRecord): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(WORKSPACE_STORE, 'readwrite');
+    tx.objectStore(WORKSPACE_STORE).put(workspace);
+    return new Promise(resolve => tx.oncomplete = () => resolve());
+};
+
+/**
+ * Deletes a workspace and its database. Every workspace store is cleared first, so its gallery, history,
+ * canvas, storyboard and editor data are gone even while another tab keeps the database open and the
+ * deletion itself has to wait. The signed-out default workspace is the main database and is never deleted.
+ */
+export const deleteWorkspace = async (owner: string, workspaceId: string): Promise<void> => {
+    const dbName = getWorkspaceDbName(owner, workspaceId);
+    if (dbName === DB_NAME) return;
+
+    const db = await initDB();
+    const tx = db.transaction(WORKSPACE_STORE, 'readwrite');
+    tx.objectStore(WORKSPACE_STORE).delete(`${owner}/${workspaceId}`);
+    await new Promise(resolve => tx.oncomplete = resolve);
+
+    const workspaceDb = await openDB(dbName);
+    const clearTx = workspaceDb.transaction(WORKSPACE_STORES, 'readwrite');
+    WORKSPACE_STORES.forEach(storeName => clearTx.objectStore(storeName).clear());
+    await new Promise<void>((resolve, reject) => {
+        clearTx.oncomplete = () => resolve();
+        clearTx.onerror = () => reject(clearTx.error);
+    });
+    workspaceDb.close();
+    dbPromises.delete(dbName);
+
+    await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(dbName);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        // Another tab still has it open; the data is already cleared and the database goes once that tab closes it.
+        request.onblocked = () => resolve();
+    });
+};
+
+/**
+ * Copies gallery items from the active workspace to another one of the same owner, optionally
+ * removing them from the active workspace. Items the target already has are left as they are.
+ * The Image Editor sessions of the items go with them, so their edits can still be resumed.
+ * @returns The number of items newly added to the target workspace.
+ */
+export const copyGalleryItemsToWorkspace = async (
+    hashes: string[],
+    owner: string,
+    targetWorkspaceId: string,
+    options: { move?: boolean } = {}
+): Promise<number> => {
+    const sourceDb = await initWorkspaceDB();
+    const targetDb = await openDB(getWorkspaceDbName(owner, targetWorkspaceId));
+    if (sourceDb === targetDb) return 0;
+
+    const readTx = sourceDb.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE, EDIT_SESSION_STORE], 'readonly');
+    const sessionStore = readTx.objectStore(EDIT_SESSION_STORE);
+    const entries = hashes.map(hash => ({
+        blob: readTx.objectStore(GALLERY_BLOB_STORE).get(hash),
+        record: readTx.objectStore(GALLERY_ITEM_STORE).get(hash),
+        sessions: [sessionStore.index('resultHash').getAll(hash), sessionStore.index('sourceHash').getAll(hash)],
+    }));
+    await new Promise(resolve => readTx.oncomplete = resolve);
+
+    const writeTx = targetDb.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE, EDIT_SESSION_STORE], 'readwrite');
+    entries.forEach(({ sessions }) => sessions.forEach(request => {
+        (request.result as EditSessionRecord[]).forEach(session => writeTx.objectStore(EDIT_SESSION_STORE).put(session));
+    }));
+    let added = 0;
+    entries.forEach(({ blob, record }) => {
+        const itemRecord = record.result as GalleryItemRecord | undefined;
+        if (!itemRecord || !blob.result) return;
+        const existing = writeTx.objectStore(GALLERY_ITEM_STORE).getKey(itemRecord.hash);
+        existing.onsuccess = () => {
+            if (existing.result !== undefined) return;
+            writeTx.objectStore(GALLERY_BLOB_STORE).put(blob.result, itemRecord.hash);
+            writeTx.objectStore(GALLERY_ITEM_STORE).put(itemRecord);
+            added++;
+        };
+    });
+    await new Promise<void>((resolve, reject) => {
+        writeTx.oncomplete = () => resolve();
+        writeTx.onerror = () => reject(writeTx.error);
+    });
+
+    if (options.move) {
+        // Sessions that only started from a moved image may still have produced images that stay here.
+        const deleteTx = sourceDb.transaction([GALLERY_BLOB_STORE, GALLERY_ITEM_STORE, EDIT_SESSION_STORE], 'readwrite');
+        hashes.forEach(hash => {
+            deleteTx.objectStore(GALLERY_BLOB_STORE).delete(hash);
+            deleteTx.objectStore(GALLERY_ITEM_STORE).delete(hash);
+        });
+        entries.forEach(({ sessions: [producedSessions] }) => {
+            (producedSessions.result as EditSessionRecord[]).forEach(session => deleteTx.objectStore(EDIT_SESSION_STORE).delete(session.id));
+        });
+        await new Promise(resolve => deleteTx.oncomplete = resolve);
+    }
+    return added;
+};
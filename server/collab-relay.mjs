@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// WebSocket relay for collaborative Layer Composer sessions. Clients in the same room exchange
+// operations and presence through it. Operations are last-writer-wins entries
+// (`{ key, value, clock: [counter, clientId] }`, see components/LayerComposer/collaboration.ts),
+// so the relay keeps each room's document by keeping the newest entry per key. Anyone who joins
+// gets that document and catches up, even when nobody else is online.
+//
+// Usage: npm run collab   (clients connect to ws://localhost:8788/<room>?token=<room token>)
+//
+// The first client in a room sets its token; later clients must present the same one. Browsers
+// send an Origin header, and only pages served from an allowed origin may connect.
+//
+// Environment:
+//   COLLAB_PORT              Port to listen on. Default 8788.
+//   COLLAB_ALLOWED_ORIGINS   Comma-separated origins of the app. Default http://localhost:3000,http://127.0.0.1:3000.
+//   COLLAB_ROOM_TTL_MINUTES  How long an empty room keeps its document. Default 60.
+//   COLLAB_MAX_MESSAGE_MB    Largest message accepted (image layers travel as data URLs). Default 64.
+
+import http from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.COLLAB_PORT) || 8788;
+const ROOM_TTL_MS = (Number(process.env.COLLAB_ROOM_TTL_MINUTES) || 60) * 60 * 1000;
+const MAX_MESSAGE_BYTES = (Number(process.env.COLLAB_MAX_MESSAGE_MB) || 64) * 1024 * 1024;
+const ALLOWED_ORIGINS = new Set(
+    (process.env.COLLAB_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',').map(origin => origin.trim()).filter(Boolean)
+);
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_CONTINUATION = 0x0, OPCODE_TEXT = 0x1, OPCODE_CLOSE = 0x8, OPCODE_PING = 0x9, OPCODE_PONG = 0xA;
+// Application close code for a room token that doesn't match; the client stops reconnecting on it.
+const CLOSE_WRONG_TOKEN = 4003;
+
+/** @type {Map<string, { tokenHash: Buffer; clients: Map<string, Client>; entries: Map<string, any>; emptySince: number | null }>} */
+const rooms = new Map();
+
+/**
+ * @typedef {{ id: string; socket: import('node:net').Socket; presence: any; isAlive: boolean }} Client
+ */
+
+// --- WebSocket framing (RFC 6455) ---
+
+function encodeFrame(opcode, payload) {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+function send(client, message) {
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+}
+
+function close(socket, code = 1000) {
+    if (socket.destroyed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+}
+
+/**
+ * Reads frames off a socket and calls onMessage with each complete text message.
+ */
+function readFrames(socket, onMessage) {
+    // Incoming chunks are kept as a list and joined once a whole frame has arrived; joining on every
+    // chunk would copy a large image message over and over.
+    /** @type {Buffer[]} */
+    let chunks = [];
+    let buffered = 0;
+    // Full size of the frame at the front once its header has been read, 0 before that.
+    let frameSize = 0;
+    /** @type {Buffer[]} */
+    let fragments = [];
+    let fragmentBytes = 0;
+    socket.on('data', chunk => {
+        chunks.push(chunk);
+        buffered += chunk.length;
+        while (buffered >= Math.max(2, frameSize)) {
+            const buffer = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks, buffered);
+            chunks = [buffer];
+            const fin = (buffer[0] & 0x80) !== 0;
+            const opcode = buffer[0] & 0x0F;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7F;
+            let offset = 2;
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (!masked || length > MAX_MESSAGE_BYTES) {
+                // Browsers always mask; anything else isn't a client we talk to.
+                close(socket, length > MAX_MESSAGE_BYTES ? 1009 : 1002);
+                return;
+            }
+            frameSize = offset + 4 + length;
+            if (buffer.length < frameSize) return;
+            const mask = buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(buffer.subarray(offset + 4, frameSize));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+            const rest = buffer.subarray(frameSize);
+            chunks = rest.length > 0 ? [rest] : [];
+            buffered = rest.length;
+            frameSize = 0;
+
+            if (opcode === OPCODE_PING) {
+                socket.write(encodeFrame(OPCODE_PONG, payload));
+            } else if (opcode === OPCODE_PONG) {
+                socket.emit('pong');
+            } else if (opcode === OPCODE_CLOSE) {
+                close(socket);
+                return;
+            } else if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+                fragments.push(payload);
+                fragmentBytes += payload.length;
+                if (fragmentBytes > MAX_MESSAGE_BYTES) {
+                    close(socket, 1009);
+                    return;
+                }
+                if (fin) {
+                    const message = Buffer.concat(fragments, fragmentBytes).toString('utf8');
+                    fragments = [];
+                    fragmentBytes = 0;
+                    onMessage(message);
+                }
+            }
+        }
+    });
+}
+
+// --- Rooms ---
+
+const compareClocks = (a, b) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+function isValidOp(op) {
+    return op && typeof op.key === 'string' && Array.isArray(op.clock) && typeof op.clock[0] === 'number' && typeof op.clock[1] === 'string';
+}
+
+/**
+ * Merges the well-formed operations into the room's document and returns them; malformed ones are dropped.
+ */
+function mergeOps(room, ops) {
+    const validOps = ops.filter(isValidOp);
+    validOps.forEach(op => {
+        const current = room.entries.get(op.key);
+        if (!current || compareClocks(op.clock, current.clock) > 0) room.entries.set(op.key, op);
+    });
+    return validOps;
+}
+
+function broadcast(room, message, exceptId) {
+    room.clients.forEach(client => {
+        if (client.id !== exceptId) send(client, message);
+    });
+}
+
+const hashToken = token => createHash('sha256').update(token).digest();
+
+function joinRoom(roomName, token, socket) {
+    const tokenHash = hashToken(token);
+    let room = rooms.get(roomName);
+    if (!room) {
+        room = { tokenHash, clients: new Map(), entries: new Map(), emptySince: null };
+        rooms.set(roomName, room);
+    } else if (!timingSafeEqual(room.tokenHash, tokenHash)) {
+        close(socket, CLOSE_WRONG_TOKEN);
+        return;
+    }
+    room.emptySince = null;
+    /** @type {Client} */
+    const client = { id: randomUUID().slice(0, 8), socket, presence: null, isAlive: true };
+    room.clients.set(client.id, client);
+
+    send(client, {
+        type: 'welcome',
+        clientId: client.id,
+        ops: Array.from(room.entries.values()),
+        peers: Array.from(room.clients.values()).filter(c => c.id !== client.id && c.presence).map(c => ({ clientId: c.id, presence: c.presence })),
+    });
+
+    readFrames(socket, text => {
+        let message;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            return;
+        }
+        if (message.type === 'ops' && Array.isArray(message.ops)) {
+            const ops = mergeOps(room, message.ops);
+            if (ops.length > 0) broadcast(room, { type: 'ops', ops }, client.id);
+        } else if (message.type === 'presence') {
+            client.presence = message.presence;
+            broadcast(room, { type: 'presence', clientId: client.id, presence: message.presence }, client.id);
+        }
+    });
+    socket.on('pong', () => { client.isAlive = true; });
+    const leave = () => {
+        if (!room.clients.delete(client.id)) return;
+        broadcast(room, { type: 'leave', clientId: client.id });
+        if (room.clients.size === 0) room.emptySince = Date.now();
+    };
+    socket.on('close', leave);
+    socket.on('error', leave);
+    // Upgraded sockets allow half-open connections; a client that went away without a close frame only sends FIN.
+    socket.on('end', () => {
+        leave();
+        socket.end();
+    });
+}
+
+const server = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('This is the Layer Composer collaboration relay. Connect with a WebSocket to ws://<host>/<room>?token=<room token>.');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!ALLOWED_ORIGINS.has(req.headers.origin || '')) {
+        socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+        return;
+    }
+    let roomName, token;
+    try {
+        const url = new URL(req.url, 'http://localhost');
+        roomName = decodeURIComponent(url.pathname.slice(1));
+        token = url.searchParams.get('token');
+    } catch {
+        // A malformed escape such as `/%E0` is a bad request, not a reason to take the relay down.
+        roomName = '';
+    }
+    if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || !key || !roomName || !token) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+    socket.setNoDelay(true);
+    joinRoom(roomName, token, socket);
+});
+
+// Drop connections that stopped answering pings, and rooms that have been empty for a while.
+setInterval(() => {
+    const now = Date.now();
+    rooms.forEach((room, name) => {
+        room.clients.forEach(client => {
+            if (!client.isAlive) {
+                client.socket.destroy();
+                return;
+            }
+            client.isAlive = false;
+            client.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+        });
+        if (room.emptySince && now - room.emptySince > ROOM_TTL_MS) rooms.delete(name);
+    });
+}, 30 * 1000).unref();
+
+server.listen(PORT, () => {
+    console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Prints a salted hash for an account's `passwordHash` in setting-login.json.
+// Usage: npm run hash-password -- <password>
+
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+const ITERATIONS = 600000;
+
+const password = process.argv[2];
+if (!password) {
+    console.error('Usage: npm run hash-password -- <password>');
+    process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = pbkdf2Sync(password, salt, ITERATIONS, 32, 'sha256');
+console.log(`pbkdf2-sha256$${ITERATIONS}$${salt.toString('hex')}$${hash.toString('hex')}`);
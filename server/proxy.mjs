@@ -0,0 +1,457 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Optional API proxy. It holds the Gemini (and OpenAI) API keys on the server so they never reach the browser,
+// signs in the accounts listed in setting-login.json, rate-limits each account and streams video
+// downloads. It can also serve the built app (dist/), so the app and the proxy share one origin,
+// together with the settings, presets and translations the app fetches at runtime.
+//
+// Usage: GEMINI_API_KEY=... npm run proxy   (then build the app with API_PROXY_URL=/api)
+//
+// Environment:
+//   GEMINI_API_KEY           The key used for every upstream Gemini call (required).
+//   OPENAI_API_KEY           The key for the OpenAI-compatible image provider. Optional.
+//   OPENAI_BASE_URL          That provider's endpoint. Default https://api.openai.com/v1.
+//   PROXY_PORT               Port to listen on. Default 8787.
+//   PROXY_RATE_LIMIT         Requests per minute per account (or per IP when login is disabled). Default 30.
+//   PROXY_SESSION_HOURS      How long a proxy session lasts when setting-login.json sets no sessionHours. Default 12.
+//   PROXY_LOGIN_SETTINGS     Path to the login settings. Default ./setting-login.json.
+//   PROXY_STATIC_DIR         Directory with the built app. Default ./dist (skipped when missing).
+//   PROXY_APP_ROOT           Directory with setting.json, presets.json, info.json and locales/. Default ./.
+
+import http from 'node:http';
+import { pbkdf2, randomBytes, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 30;
+const DEFAULT_SESSION_HOURS = Number(process.env.PROXY_SESSION_HOURS) || 12;
+const LOGIN_SETTINGS_PATH = path.resolve(process.env.PROXY_LOGIN_SETTINGS || 'setting-login.json');
+const STATIC_DIR = path.resolve(process.env.PROXY_STATIC_DIR || 'dist');
+const APP_ROOT = path.resolve(process.env.PROXY_APP_ROOT || '.');
+
+const GEMINI_ORIGIN = 'https://generativelanguage.googleapis.com';
+const SESSION_COOKIE = 'apix_proxy_session';
+const RATE_WINDOW_MS = 60 * 1000;
+// Sign-in attempts: each IP gets a few per window, and an account locks for the rest of the window
+// after repeated wrong passwords. Hashing a password is deliberately slow, so both also cap CPU use.
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_ATTEMPTS_PER_IP = 20;
+const LOGIN_FAILURES_PER_ACCOUNT = 5;
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+// Request headers that are passed upstream; everything else (cookies, the dummy key) is dropped.
+const FORWARDED_HEADERS = ['content-type', 'accept', 'x-goog-api-client', 'x-goog-upload-protocol', 'x-goog-upload-command', 'x-goog-upload-header-content-length', 'x-goog-upload-header-content-type', 'x-goog-upload-offset'];
+// Files the app fetches at runtime. vite build doesn't copy them into dist/, so they are served from
+// the app root, and editing them takes effect without a rebuild.
+const RUNTIME_FILES = ['setting.json', 'presets.json', 'info.json'];
+const RUNTIME_DIRS = ['locales'];
+const MIME_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+};
+
+if (!API_KEY) {
+    console.error('GEMINI_API_KEY is not set. The proxy needs it to call the Gemini API.');
+    process.exit(1);
+}
+
+/** @type {Map<string, { username: string | null; expiresAt: number }>} */
+const sessions = new Map();
+/** @type {Map<string, number[]>} */
+const requestLog = new Map();
+/** @type {Map<string, number[]>} */
+const loginAttemptLog = new Map();
+/** @type {Map<string, number[]>} */
+const loginFailureLog = new Map();
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// --- Helpers ---
+
+async function loadLoginSettings() {
+    try {
+        return JSON.parse(await readFile(LOGIN_SETTINGS_PATH, 'utf8'));
+    } catch (error) {
+        // Fail closed: without readable settings nobody is allowed through.
+        console.error(`Could not read ${LOGIN_SETTINGS_PATH}:`, error.message);
+        return { enabled: true, accounts: [] };
+    }
+}
+
+function sendJson(res, status, body, headers = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// The proxy's own refusals carry these `status` values, so the app can tell them apart from a provider
+// rejecting the API key (see processApiError in services/gemini/baseService.ts).
+function sendNotSignedIn(res) {
+    sendJson(res, 401, { error: { code: 401, message: 'Not signed in to the API proxy.', status: 'PROXY_NOT_SIGNED_IN' } });
+}
+
+function sendModelNotAllowed(res, model) {
+    sendJson(res, 403, { error: { code: 403, message: `Model ${model} is not allowed for this account.`, status: 'PROXY_MODEL_NOT_ALLOWED' } });
+}
+
+function parseCookies(header = '') {
+    return Object.fromEntries(header.split(';').map(part => part.trim().split('=')).filter(([key]) => key).map(([key, ...rest]) => [key, decodeURIComponent(rest.join('='))]));
+}
+
+async function readBody(req) {
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw Object.assign(new Error('Request body too large'), { status: 413 });
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+// Same format as server/hash-password.mjs writes: pbkdf2-sha256$<iterations>$<saltHex>$<hashHex>.
+// Hashed off the main thread, so a sign-in doesn't stall every other request.
+async function verifyPassword(password, storedHash) {
+    const [prefix, iterationsText, saltHex, expectedHex] = String(storedHash || '').split('$');
+    const iterations = parseInt(iterationsText, 10);
+    if (prefix !== 'pbkdf2-sha256' || !iterations || !saltHex || !expectedHex) return false;
+    const expected = Buffer.from(expectedHex, 'hex');
+    const actual = await pbkdf2Async(String(password), Buffer.from(saltHex, 'hex'), iterations, expected.length, 'sha256');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// What the app may know of setting-login.json: whether sign-in is on and what each role sees.
+// Accounts and their password hashes never leave the server.
+function publicLoginSettings(settings) {
+    return { enabled: settings.enabled !== false, sessionHours: settings.sessionHours, roles: settings.roles || {} };
+}
+
+// Accounts without a role get the least privileged one.
+function accountRole(account) {
+    return account.role || 'viewer';
+}
+
+function getSessionMs(settings) {
+    return (Number(settings.sessionHours) || DEFAULT_SESSION_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Resolves the caller: the signed-in account of the session cookie, or an anonymous caller
+ * (keyed by IP) when login is disabled in setting-login.json. Returns null when not allowed.
+ */
+async function resolveCaller(req) {
+    const settings = await loadLoginSettings();
+    if (settings.enabled === false) {
+        return { id: `ip:${req.socket.remoteAddress}`, account: null };
+    }
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    const session = token && sessions.get(token);
+    if (!session || session.expiresAt < Date.now()) {
+        if (session) sessions.delete(token);
+        return null;
+    }
+    // Accounts removed from setting-login.json lose access immediately.
+    const account = settings.accounts?.find(acc => acc.username === session.username);
+    return account ? { id: `user:${account.username}`, account, expiresAt: session.expiresAt } : null;
+}
+
+/**
+ * Sliding-window limit over the timestamps recorded for a key. Returns the number of seconds to wait,
+ * or 0 when fewer than `limit` were recorded in the last `windowMs`.
+ */
+function secondsUntilAllowed(log, key, limit, windowMs) {
+    const now = Date.now();
+    const recent = (log.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length > 0) log.set(key, recent);
+    else log.delete(key);
+    return recent.length >= limit ? Math.ceil((windowMs - (now - recent[0])) / 1000) : 0;
+}
+
+function recordHit(log, key) {
+    log.set(key, [...(log.get(key) || []), Date.now()]);
+}
+
+/**
+ * Rate limit for API calls. Returns the number of seconds to wait, or 0 when the call may proceed.
+ */
+function checkRateLimit(callerId, limit) {
+    const retryAfter = secondsUntilAllowed(requestLog, callerId, limit, RATE_WINDOW_MS);
+    if (retryAfter === 0) recordHit(requestLog, callerId);
+    return retryAfter;
+}
+
+// Gemini paths look like /v1beta/models/<model>:generateContent.
+function modelFromPath(upstreamPath) {
+    const match = upstreamPath.match(/\/models\/([^/:?]+)/);
+    return match ? match[1] : null;
+}
+
+// OpenAI requests name the model in the body: JSON for generations, multipart form data for edits.
+function openAIModelFromBody(contentType = '', body) {
+    const text = body.toString('utf8');
+    if (contentType.includes('application/json')) {
+        try {
+            return JSON.parse(text).model ?? null;
+        } catch {
+            return null;
+        }
+    }
+    const match = text.match(/name="model"\r\n\r\n([^\r\n]*)/);
+    return match ? match[1] : null;
+}
+
+function pipeUpstream(res, upstream) {
+    const responseHeaders = {};
+    upstream.headers.forEach((value, name) => {
+        if (!['content-encoding', 'content-length', 'transfer-encoding', 'connection'].includes(name)) {
+            responseHeaders[name] = value;
+        }
+    });
+    res.writeHead(upstream.status, responseHeaders);
+    if (upstream.body) {
+        Readable.fromWeb(upstream.body).pipe(res);
+    } else {
+        res.end();
+    }
+}
+
+// --- Routes ---
+
+async function handleLogin(req, res) {
+    const settings = await loadLoginSettings();
+    let credentials;
+    try {
+        credentials = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+    } catch {
+        return sendJson(res, 400, { error: 'Invalid JSON body' });
+    }
+    let username = null;
+    let role = null;
+    if (settings.enabled !== false) {
+        const ipKey = String(req.socket.remoteAddress);
+        const accountKey = String(credentials.username);
+        const retryAfter = Math.max(
+            secondsUntilAllowed(loginAttemptLog, ipKey, LOGIN_ATTEMPTS_PER_IP, LOGIN_WINDOW_MS),
+            secondsUntilAllowed(loginFailureLog, accountKey, LOGIN_FAILURES_PER_ACCOUNT, LOGIN_WINDOW_MS),
+        );
+        if (retryAfter > 0) {
+            return sendJson(res, 429, { error: 'Too many sign-in attempts. Please try again later.' }, { 'Retry-After': String(retryAfter) });
+        }
+        recordHit(loginAttemptLog, ipKey);
+        const account = settings.accounts?.find(acc => acc.username === credentials.username);
+        if (!account || !(await verifyPassword(credentials.password ?? '', account.passwordHash))) {
+            recordHit(loginFailureLog, accountKey);
+            return sendJson(res, 401, { error: 'Invalid username or password' });
+        }
+        loginFailureLog.delete(accountKey);
+        username = account.username;
+        role = accountRole(account);
+    }
+    const sessionMs = getSessionMs(settings);
+    const expiresAt = Date.now() + sessionMs;
+    const token = randomBytes(32).toString('hex');
+    sessions.set(token, { username, expiresAt });
+    sendJson(res, 200, { username, role, expiresAt }, {
+        'Set-Cookie': `${SESSION_COOKIE}=${token}; HttpOnly; SameSite=Strict; Path=/; Max-Age=${Math.floor(sessionMs / 1000)}`,
+    });
+}
+
+// The signed-in account behind the session cookie, so the app can restore a sign-in after a reload.
+async function handleSession(req, res) {
+    const caller = await resolveCaller(req);
+    if (!caller) {
+        return sendNotSignedIn(res);
+    }
+    sendJson(res, 200, caller.account
+        ? { username: caller.account.username, role: accountRole(caller.account), expiresAt: caller.expiresAt }
+        : { username: null, role: null, expiresAt: null });
+}
+
+function handleLogout(req, res) {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (token) sessions.delete(token);
+    sendJson(res, 200, { ok: true }, { 'Set-Cookie': `${SESSION_COOKIE}=; HttpOnly; SameSite=Strict; Path=/; Max-Age=0` });
+}
+
+async function handleGemini(req, res, caller, upstreamPath) {
+    const model = modelFromPath(upstreamPath);
+    const allowedModels = caller.account?.allowedModels;
+    if (model && Array.isArray(allowedModels) && !allowedModels.includes(model)) {
+        return sendModelNotAllowed(res, model);
+    }
+
+    const headers = { 'x-goog-api-key': API_KEY };
+    FORWARDED_HEADERS.forEach(name => {
+        if (req.headers[name]) headers[name] = req.headers[name];
+    });
+    const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+    const upstream = await fetch(`${GEMINI_ORIGIN}${upstreamPath}`, { method: req.method, headers, body });
+    pipeUpstream(res, upstream);
+}
+
+async function handleOpenAI(req, res, caller, upstreamPath) {
+    if (!OPENAI_API_KEY) {
+        return sendJson(res, 503, { error: { code: 503, message: 'The API proxy has no OPENAI_API_KEY.' } });
+    }
+    const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+    const allowedModels = caller.account?.allowedModels;
+    if (body && Array.isArray(allowedModels)) {
+        const model = openAIModelFromBody(req.headers['content-type'], body);
+        if (model && !allowedModels.includes(model)) {
+            return sendModelNotAllowed(res, model);
+        }
+    }
+
+    const headers = { Authorization: `Bearer ${OPENAI_API_KEY}` };
+    ['content-type', 'accept'].forEach(name => {
+        if (req.headers[name]) headers[name] = req.headers[name];
+    });
+    const upstream = await fetch(`${OPENAI_BASE_URL}${upstreamPath}`, { method: req.method, headers, body });
+    pipeUpstream(res, upstream);
+}
+
+async function handleDownload(req, res, url) {
+    const uri = url.searchParams.get('uri');
+    let target;
+    try {
+        target = new URL(uri);
+    } catch {
+        return sendJson(res, 400, { error: 'Missing or invalid uri' });
+    }
+    // Only Gemini file downloads get the key; anything else would leak it.
+    if (target.origin !== GEMINI_ORIGIN) {
+        return sendJson(res, 400, { error: 'Only Gemini file URIs can be downloaded' });
+    }
+    const upstream = await fetch(target, { headers: { 'x-goog-api-key': API_KEY }, redirect: 'follow' });
+    res.writeHead(upstream.status, {
+        'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+        ...(upstream.headers.get('content-length') && { 'Content-Length': upstream.headers.get('content-length') }),
+    });
+    if (upstream.body) {
+        Readable.fromWeb(upstream.body).pipe(res);
+    } else {
+        res.end();
+    }
+}
+
+/**
+ * Resolves a relative path inside a directory. Returns null for paths that escape it, including
+ * sibling directories that merely share its name as a prefix.
+ */
+function resolveInside(dir, relativePath) {
+    const filePath = path.resolve(dir, relativePath);
+    const relative = path.relative(dir, filePath);
+    return relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative) ? null : filePath;
+}
+
+// The file a runtime config path maps to, null when such a path escapes its directory, or undefined
+// when it isn't a runtime file and belongs to the built app. setting-login.json is answered separately.
+function resolveRuntimeFile(relativePath) {
+    if (RUNTIME_FILES.includes(relativePath)) return path.join(APP_ROOT, relativePath);
+    const [dir, ...rest] = relativePath.split('/');
+    if (RUNTIME_DIRS.includes(dir) && rest.length > 0) return resolveInside(path.join(APP_ROOT, dir), rest.join('/'));
+    return undefined;
+}
+
+async function serveStatic(req, res, url) {
+    const relativePath = decodeURIComponent(url.pathname).replace(/^\/+/, '');
+    const runtimeFile = resolveRuntimeFile(relativePath);
+    let filePath = runtimeFile === undefined ? resolveInside(STATIC_DIR, relativePath) : runtimeFile;
+    if (!filePath) {
+        return sendJson(res, 403, { error: 'Forbidden' });
+    }
+    try {
+        const info = await stat(filePath);
+        if (info.isDirectory()) filePath = path.join(filePath, 'index.html');
+    } catch {
+        // Missing files are a 404, so a missing setting or translation fails visibly. Other unknown
+        // paths are client-side routes and fall back to the app shell.
+        if (runtimeFile !== undefined || path.extname(filePath)) {
+            return sendJson(res, 404, { error: 'Not found' });
+        }
+        filePath = path.join(STATIC_DIR, 'index.html');
+    }
+    try {
+        await stat(filePath);
+    } catch {
+        return sendJson(res, 404, { error: 'Not found' });
+    }
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    createReadStream(filePath).pipe(res);
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+    try {
+        if (url.pathname === '/api/auth/login' && req.method === 'POST') {
+            return await handleLogin(req, res);
+        }
+        if (url.pathname === '/api/auth/logout' && req.method === 'POST') {
+            return handleLogout(req, res);
+        }
+        if (url.pathname === '/api/auth/session' && req.method === 'GET') {
+            return await handleSession(req, res);
+        }
+        if (url.pathname === '/setting-login.json') {
+            return sendJson(res, 200, publicLoginSettings(await loadLoginSettings()));
+        }
+        if (url.pathname.startsWith('/api/')) {
+            const caller = await resolveCaller(req);
+            if (!caller) {
+                return sendNotSignedIn(res);
+            }
+            const retryAfter = checkRateLimit(caller.id, Number(caller.account?.rateLimitPerMinute) || RATE_LIMIT);
+            if (retryAfter > 0) {
+                return sendJson(res, 429, { error: { code: 429, message: 'Rate limit exceeded. Please try again later.', status: 'RESOURCE_EXHAUSTED' } }, { 'Retry-After': String(retryAfter) });
+            }
+            if (url.pathname === '/api/download') {
+                return await handleDownload(req, res, url);
+            }
+            if (url.pathname.startsWith('/api/gemini/')) {
+                return await handleGemini(req, res, caller, url.pathname.substring('/api/gemini'.length) + url.search);
+            }
+            if (url.pathname.startsWith('/api/openai/')) {
+                return await handleOpenAI(req, res, caller, url.pathname.substring('/api/openai'.length) + url.search);
+            }
+            return sendJson(res, 404, { error: 'Not found' });
+        }
+        return await serveStatic(req, res, url);
+    } catch (error) {
+        console.error(`${req.method} ${url.pathname} failed:`, error);
+        if (!res.headersSent) {
+            sendJson(res, error.status || 502, { error: { code: error.status || 502, message: error.message } });
+        } else {
+            res.destroy(error);
+        }
+    }
+});
+
+// Drop expired sessions and stale sign-in counters now and then.
+setInterval(() => {
+    const now = Date.now();
+    sessions.forEach((session, token) => {
+        if (session.expiresAt < now) sessions.delete(token);
+    });
+    [loginAttemptLog, loginFailureLog].forEach(log => {
+        Array.from(log.keys()).forEach(key => secondsUntilAllowed(log, key, Infinity, LOGIN_WINDOW_MS));
+    });
+}, 10 * 60 * 1000).unref();
+
+server.listen(PORT, () => {
+    console.log(`API proxy listening on http://localhost:${PORT}`);
+});
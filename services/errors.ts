@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed errors for AI provider calls. `processApiError` classifies whatever a provider throws into
+// one of these, so retry policy and UI can branch on the type instead of matching message text.
+// Messages are English developer messages; user-facing text comes from `i18nKey` resolved via `t()`.
+
+export type AiErrorCode =
+    | 'QUOTA_EXCEEDED'
+    | 'INVALID_KEY'
+    | 'PROXY_ACCESS'
+    | 'SAFETY_BLOCKED'
+    | 'NO_IMAGE_RETURNED'
+    | 'EMPTY_RESPONSE'
+    | 'NETWORK'
+    | 'INTERNAL';
+
+interface AiServiceErrorOptions {
+    i18nKey?: string;
+    i18nArgs?: (string | number)[];
+    retryAfterMs?: number;
+    raw?: unknown;
+    cause?: unknown;
+}
+
+export class AiServiceError extends Error {
+    readonly code: AiErrorCode;
+    readonly i18nKey: string;
+    readonly i18nArgs: (string | number)[];
+    // Suggested wait before trying again, when the provider gave one.
+    readonly retryAfterMs?: number;
+    // The untouched provider payload (error body, text response, ...), for debugging.
+    readonly raw?: unknown;
+    readonly retryable: boolean;
+
+    constructor(code: AiErrorCode, message: string, retryable: boolean, defaultI18nKey: string, options: AiServiceErrorOptions = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+        this.name = 'AiServiceError';
+        this.code = code;
+        this.retryable = retryable;
+        this.i18nKey = options.i18nKey || defaultI18nKey;
+        this.i18nArgs = options.i18nArgs || [];
+        this.retryAfterMs = options.retryAfterMs;
+        this.raw = options.raw;
+    }
+}
+
+export class QuotaExceededError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('QUOTA_EXCEEDED', message, false, 'error_quotaExceeded', options);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class InvalidKeyError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('INVALID_KEY', message, false, 'error_invalidKey', options);
+        this.name = 'InvalidKeyError';
+    }
+}
+
+// The API proxy refused the call itself: the user isn't signed in, or their account may not use the model.
+export class ProxyAccessError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('PROXY_ACCESS', message, false, 'error_proxyNotSignedIn', options);
+        this.name = 'ProxyAccessError';
+    }
+}
+
+export class SafetyBlockedError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('SAFETY_BLOCKED', message, false, 'error_safetyBlocked', options);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class NoImageReturnedError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('NO_IMAGE_RETURNED', message, true, 'error_noImageReturned', options);
+        this.name = 'NoImageReturnedError';
+    }
+}
+
+export class EmptyResponseError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('EMPTY_RESPONSE', message, true, 'error_emptyResponse', options);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export class NetworkError extends AiServiceError {
+    constructor(message: string, options?: AiServiceErrorOptions) {
+        super('NETWORK', message, true, 'error_network', options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class InternalError extends AiServiceError {
+    constructor(message: string, retryable: boolean, options?: AiServiceErrorOptions) {
+        super('INTERNAL', message, retryable, 'error_internal', options);
+        this.name = 'InternalError';
+    }
+}
+
+export function isAiServiceError(error: unknown): error is AiServiceError {
+    return error instanceof AiServiceError;
+}
+
+/**
+ * Reads a retry hint from an HTTP `Retry-After` value (seconds or a date) or from
+ * a Gemini error body (`"retryDelay": "32s"`). Returns milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const delayMatch = value.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    if (delayMatch) {
+        return Math.round(parseFloat(delayMatch[1]) * 1000);
+    }
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+    const date = Date.parse(trimmed);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+/**
+ * Resolves any error into a message for the current UI language. Typed AI errors are translated
+ * through their i18n key (plus the retry-after hint); anything else falls back to its own message.
+ */
+export function getLocalizedErrorMessage(error: unknown, t: (key: string, ...args: any[]) => string, fallback?: string): string {
+    if (error instanceof AiServiceError) {
+        const message = t(error.i18nKey, ...error.i18nArgs);
+        if (error.retryAfterMs) {
+            return `${message} ${t('error_retryAfter', Math.ceil(error.retryAfterMs / 1000))}`;
+        }
+        return message;
+    }
+    if (error instanceof Error && error.message) {
+        return error.message;
+    }
+    return fallback ?? String(error);
+}
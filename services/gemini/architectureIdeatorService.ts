@@ -2,13 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client';
 import { 
     processApiError,
+    generateContentWithCache,
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import { EmptyResponseError } from '../errors';
 
 interface ArchitectureOptions {
     context: string;
@@ -32,19 +33,19 @@ async function analyzeArchitecturalStyle(styleImageDataUrl: string): Promise<str
 Không mô tả hình dạng của tòa nhà, chỉ mô tả phong cách và bối cảnh của nó.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được phong cách của ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the style image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeArchitecturalStyle:", error);
-        throw new Error("Lỗi khi phân tích ảnh phong cách.");
+        throw processApiError(error);
     }
 }
 
@@ -175,7 +176,7 @@ export async function refineArchitecturePrompt(basePrompt: string, userPrompt: s
 
     try {
         console.log("Attempting to refine architecture prompt...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts },
         });
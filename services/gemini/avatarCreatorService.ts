@@ -3,13 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
 import { 
     processApiError, 
+    generateContentWithCache,
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import { EmptyResponseError, NoImageReturnedError, SafetyBlockedError } from '../errors';
 
 /**
  * Creates the primary prompt for the patriotic theme.
@@ -51,19 +52,19 @@ async function analyzePatrioticConceptImage(styleImageDataUrl: string): Promise<
     const prompt = `Phân tích hình ảnh này và mô tả concept yêu nước của nó. Tập trung vào không khí, ánh sáng, bối cảnh, trang phục và các yếu tố biểu tượng. Mô tả phải phù hợp để hướng dẫn AI tái tạo một chủ đề yêu nước tương tự.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được concept từ ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the concept image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzePatrioticConceptImage:", error);
-        throw new Error("Lỗi khi phân tích ảnh concept.");
+        throw processApiError(error);
     }
 }
 
@@ -113,15 +114,11 @@ export async function generatePatrioticImage(
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
 
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
+        // Only a missing image or a safety block is worth retrying with the softer fallback prompt.
+        const isBlockedError = processedError instanceof NoImageReturnedError || processedError instanceof SafetyBlockedError;
 
-        if (isNoImageError) {
+        if (isBlockedError) {
             console.warn(`Original prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             
             // --- Second attempt with the fallback prompt ---
@@ -134,16 +131,12 @@ export async function generatePatrioticImage(
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
                 const processedFallbackError = processApiError(fallbackError);
-                if (processedFallbackError.message.includes("API key not valid")) {
-                   throw processedFallbackError;
-                }
-                const finalErrorMessage = processedFallbackError.message;
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
+                throw processedFallbackError;
             }
         } else {
             // This is for other errors, like a final internal server error after retries.
             console.error("Error during image generation:", processedError);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            throw processedError;
         }
     }
 }
@@ -173,7 +166,7 @@ export async function analyzeAvatarForConcepts(
 
     try {
         console.log("Analyzing avatar for concept suggestions...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
@@ -2,13 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client';
 import {
     processApiError,
+    generateContentWithCache,
     parseDataUrl,
     callGeminiWithRetry,
     processGeminiResponse
 } from './baseService';
+import { EmptyResponseError, NoImageReturnedError, SafetyBlockedError } from '../errors';
 
 /**
  * Estimates the age group of a child in an image.
@@ -22,7 +23,7 @@ export async function estimateAgeGroup(imageDataUrl: string): Promise<'newborn'
     const prompt = "Analyze the image of the child and estimate their age group. Respond with only ONE of the following keywords: 'newborn' (0-1 year), 'toddler' (1-3 years), 'preschool' (3-5 years), 'child' (5-10 years).";
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, { text: prompt }] },
         });
@@ -66,18 +67,18 @@ async function analyzeBabyConceptImage(styleImageDataUrl: string): Promise<strin
     const prompt = `Phân tích bức ảnh em bé này và mô tả concept sáng tạo của nó. Tập trung vào chủ đề, đạo cụ, ánh sáng, và bảng màu. Mô tả phải phù hợp để hướng dẫn AI tái tạo một concept tương tự cho một em bé khác.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được concept từ ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the concept image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeBabyConceptImage:", error);
-        throw new Error("Lỗi khi phân tích ảnh concept.");
+        throw processApiError(error);
     }
 }
 
@@ -121,14 +122,11 @@ export async function generateBabyPhoto(
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
 
-        if (isNoImageError) {
+        // Only a missing image or a safety block is worth retrying with the softer fallback prompt.
+        const isBlockedError = processedError instanceof NoImageReturnedError || processedError instanceof SafetyBlockedError;
+
+        if (isBlockedError) {
             console.warn(`Primary prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             try {
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
@@ -138,7 +136,7 @@ export async function generateBabyPhoto(
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
                 const processedFallbackError = processApiError(fallbackError);
-                throw new Error(`The AI model failed with both primary and fallback prompts. Last error: ${processedFallbackError.message}`);
+                throw processedFallbackError;
             }
         } else {
             console.error("Error during baby photo generation:", processedError);
@@ -2,32 +2,126 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { GenerateContentResponse, type GenerateContentParameters } from "@google/genai";
 import ai from './client'; // Import the shared client instance
+import { getActiveImageProvider, getImageProvider, buildImageRequest, type ImageGenerationResult, type ImageRequestConfig } from '../providers';
+import { delay } from '../providers/providerUtils';
+import { registerJobHandler, submitJob, JobCancelledError, type JobContext, type JobOptions } from '../jobQueue';
+import { recordGenerationProvenance } from '../provenance';
+import { checkUsageBudget, getCurrentAppId, recordResponseUsage, recordUsage } from '../usageLedger';
+import { getResponseCacheKey, readResponseCache, writeResponseCache } from '../responseCache';
+import {
+    AiServiceError,
+    InternalError,
+    InvalidKeyError,
+    NetworkError,
+    NoImageReturnedError,
+    ProxyAccessError,
+    QuotaExceededError,
+    SafetyBlockedError,
+    parseRetryAfter,
+} from '../errors';
 
 // --- Centralized Error Processor ---
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Shape of the errors thrown by the Gemini SDK and the provider adapters: an HTTP status,
+// plus the response body and Retry-After header when available.
+interface HttpErrorLike {
+    status: unknown;
+    body?: unknown;
+    retryAfter?: unknown;
+}
+
+function isHttpErrorLike(error: unknown): error is HttpErrorLike {
+    return typeof error === 'object' && error !== null && 'status' in error;
+}
+
+const QUOTA_ERROR_CODES = ['RESOURCE_EXHAUSTED', 'rate_limit_exceeded', 'insufficient_quota'];
+// What fetch throws when the request never got a response, per browser (and Node).
+const FETCH_FAILURE_MESSAGES = ['failed to fetch', 'networkerror', 'fetch failed', 'load failed', 'econnreset'];
+
+/**
+ * Reads the structured error code from a JSON error body: `error.status` for Gemini and the API proxy
+ * (e.g. RESOURCE_EXHAUSTED), `error.code` for OpenAI (e.g. insufficient_quota).
+ */
+function getStructuredErrorCode(body: string): string | undefined {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+    const detail = typeof parsed === 'object' && parsed !== null && 'error' in parsed ? parsed.error : undefined;
+    if (typeof detail !== 'object' || detail === null) return undefined;
+    if ('status' in detail && typeof detail.status === 'string') return detail.status;
+    if ('code' in detail && typeof detail.code === 'string') return detail.code;
+    return undefined;
+}
+
+/**
+ * Classifies any error thrown by a provider or the Gemini SDK into a typed AiServiceError.
+ * Typed errors, cancellations and aborts are returned unchanged, so calling this twice is safe.
+ * @param error The caught error.
+ * @returns A typed error (or the original cancellation error).
+ */
 export function processApiError(error: unknown): Error {
+    if (error instanceof AiServiceError || error instanceof JobCancelledError) {
+        return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+        return error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+    const lowerMessage = errorMessage.toLowerCase();
+    const httpError = isHttpErrorLike(error) ? error : undefined;
+    const status = typeof httpError?.status === 'number' ? httpError.status : undefined;
+    const raw = httpError?.body ?? errorMessage;
+    const options = { raw, cause: error };
+    // The SDK puts the JSON error body in the message; the provider adapters attach it as `body`.
+    const errorCode = getStructuredErrorCode(typeof httpError?.body === 'string' ? httpError.body : errorMessage);
 
     if (errorMessage.includes('ReadableStream uploading is not supported')) {
-        return new Error("Ứng dụng tạm thời chưa tương thích ứng dụng di động, mong mọi người thông cảm");
+        return new InternalError(errorMessage, false, { ...options, i18nKey: 'error_mobileUnsupported' });
     }
-    if (errorMessage.toLowerCase().includes('api key not valid')) {
-        return new Error("API Key không hợp lệ. Vui lòng liên hệ quản trị viên để được hỗ trợ.");
+    if (errorCode === 'PROXY_NOT_SIGNED_IN') {
+        return new ProxyAccessError(errorMessage, options);
     }
-    if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('rate limit') || errorMessage.toLowerCase().includes('resource_exhausted')) {
-        return new Error("Ứng dụng tạm thời đạt giới hạn sử dụng trong ngày, hãy quay trở lại vào ngày tiếp theo.");
+    if (errorCode === 'PROXY_MODEL_NOT_ALLOWED') {
+        return new ProxyAccessError(errorMessage, { ...options, i18nKey: 'error_proxyModelNotAllowed' });
     }
-    if (errorMessage.toLowerCase().includes('safety') || errorMessage.toLowerCase().includes('blocked')) {
-        return new Error("Yêu cầu của bạn đã bị chặn vì lý do an toàn. Vui lòng thử với một hình ảnh hoặc prompt khác.");
+    if (lowerMessage.includes('api key not valid') || lowerMessage.includes('api_key_invalid') || lowerMessage.includes('invalid api key') || status === 401 || status === 403) {
+        return new InvalidKeyError(errorMessage, options);
     }
-    
-    // Return original Error object or a new one for other cases
-    if (error instanceof Error) {
-        return new Error("Đã xảy ra lỗi không mong muốn từ AI. Vui lòng thử lại sau. Chi tiết: " + error.message);
+    if (status === 429 || (errorCode !== undefined && QUOTA_ERROR_CODES.includes(errorCode))) {
+        const retryAfterMs = parseRetryAfter(typeof httpError?.retryAfter === 'string' ? httpError.retryAfter : undefined) ?? parseRetryAfter(errorMessage);
+        return new QuotaExceededError(errorMessage, { ...options, retryAfterMs });
+    }
+    if (lowerMessage.includes('safety') || lowerMessage.includes('blocked')) {
+        return new SafetyBlockedError(errorMessage, options);
+    }
+    if (FETCH_FAILURE_MESSAGES.some(fragment => lowerMessage.includes(fragment))) {
+        return new NetworkError(errorMessage, options);
+    }
+
+    // Server-side failures (5xx, INTERNAL, UNAVAILABLE) are worth retrying; anything else is not.
+    const isServerError = (status !== undefined && status >= 500) || errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL') || errorMessage.includes('UNAVAILABLE');
+    return new InternalError(errorMessage, isServerError, { ...options, i18nArgs: [errorMessage] });
+}
+
+/**
+ * Builds the error for a response without an image: a safety block when the provider
+ * says so, otherwise a (retryable) "no image returned" error carrying the text response.
+ */
+function noImageError(textResponse: string | undefined, raw: unknown): AiServiceError {
+    const response = raw as GenerateContentResponse | undefined;
+    const blockReason = response?.promptFeedback?.blockReason;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+        return new SafetyBlockedError(`The request was blocked by the provider (${blockReason || finishReason}).`, { raw });
     }
-    return new Error("Đã có lỗi không mong muốn từ AI: " + errorMessage);
+    return new NoImageReturnedError(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`, { raw: textResponse ?? raw });
 }
 
 /**
@@ -59,71 +153,186 @@ export function processGeminiResponse(response: GenerateContentResponse): string
 
     const textResponse = response.text;
     console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+    throw noImageError(textResponse, response);
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors
- * and for responses that don't contain an image.
- * @param parts An array of parts for the request payload (e.g., image parts, text parts).
- * @param config Optional configuration object for the generateContent call.
- * @returns The GenerateContentResponse from the API.
+ * Wraps a provider result in a GenerateContentResponse so existing callers
+ * (e.g. `processGeminiResponse`) work regardless of the active provider.
  */
-export async function callGeminiWithRetry(parts: object[], config: any = {}): Promise<GenerateContentResponse> {
+function toGenerateContentResponse(result: ImageGenerationResult): GenerateContentResponse {
+    if (result.raw instanceof GenerateContentResponse) {
+        return result.raw;
+    }
+    const response = new GenerateContentResponse();
+    const parts: object[] = result.images.map(image => ({ inlineData: image }));
+    if (result.text) {
+        parts.push({ text: result.text });
+    }
+    response.candidates = [{ content: { role: 'model', parts } }];
+    response.modelVersion = result.model;
+    if (result.usage) {
+        response.usageMetadata = {
+            promptTokenCount: result.usage.inputTokens,
+            candidatesTokenCount: result.usage.outputTokens,
+            totalTokenCount: result.usage.totalTokens,
+        };
+    }
+    return response;
+}
+
+export const IMAGE_GENERATION_JOB = 'image-generation';
+
+interface ImageGenerationJobPayload {
+    providerId: string;
+    parts: object[];
+    config: ImageRequestConfig;
+}
+
+/**
+ * Runs one image generation job against its provider, retrying errors marked `retryable`
+ * (server and network errors, responses without an image).
+ */
+async function runImageGenerationJob(
+    payload: ImageGenerationJobPayload,
+    { signal, reportProgress, appId }: JobContext
+): Promise<ImageGenerationResult> {
     const maxRetries = 3;
     const initialDelay = 1000;
     let lastError: Error | null = null;
+    const provider = getImageProvider(payload.providerId);
+    const request = buildImageRequest(payload.parts, payload.config);
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        reportProgress((attempt - 1) / maxRetries);
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                    ...config,
-                },
-            });
+            const result = await provider.generateImage(request, signal);
 
             // Validate that the response contains an image.
-            const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-            if (imagePart?.inlineData) {
-                return response; // Success! The response is valid.
+            if (result.images.length > 0) {
+                await recordGenerationProvenance(request, result, { providerId: provider.id, appId, attempt });
+                await recordUsage({
+                    kind: 'image',
+                    model: result.model,
+                    appId,
+                    inputTokens: result.usage?.inputTokens,
+                    outputTokens: result.usage?.outputTokens,
+                    imageCount: result.images.length,
+                });
+                return result; // Success! The response is valid.
             }
 
-            // If no image is found, treat it as a failure and prepare for retry.
-            const textResponse = response.text || "No text response received.";
-            lastError = new Error(`The AI model responded with text instead of an image: "${textResponse}"`);
-            console.warn(`Attempt ${attempt}/${maxRetries}: No image returned. Retrying... Response text: ${textResponse}`);
+            // If no image is found, treat it as a failure and prepare for retry (unless it was a safety block).
+            const noImage = noImageError(result.text, result.raw);
+            if (!noImage.retryable) {
+                throw noImage;
+            }
+            lastError = noImage;
+            console.warn(`Attempt ${attempt}/${maxRetries}: No image returned. Retrying... Response text: ${result.text || "No text response received."}`);
 
         } catch (error) {
+            if (signal.aborted) {
+                throw error;
+            }
             const processedError = processApiError(error);
             lastError = processedError;
-            const errorMessage = processedError.message;
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, errorMessage);
+            console.error(`Error calling ${provider.label} API (Attempt ${attempt}/${maxRetries}):`, processedError);
 
-            // Don't retry on critical errors like invalid API key or quota issues.
-            if (errorMessage.includes('API Key không hợp lệ') || errorMessage.includes('429') || errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('rate limit') || errorMessage.toLowerCase().includes('resource_exhausted')) {
-                throw processedError;
-            }
-
-            // If it's not a retriable server error and we're out of retries, fail.
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-            if (!isInternalError && attempt >= maxRetries) {
+            // Don't retry on critical errors like an invalid API key, quota or safety blocks.
+            if (!(processedError instanceof AiServiceError) || !processedError.retryable) {
                 throw processedError;
             }
         }
         
         // Wait before the next attempt, but not after the last one.
         if (attempt < maxRetries) {
-            const delay = initialDelay * Math.pow(2, attempt - 1);
-            console.log(`Waiting ${delay}ms before next attempt...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            // Honour the provider's retry-after hint when it asks for a longer wait than the backoff.
+            const hintedDelay = lastError instanceof AiServiceError ? lastError.retryAfterMs || 0 : 0;
+            const retryDelay = Math.max(initialDelay * Math.pow(2, attempt - 1), hintedDelay);
+            console.log(`Waiting ${retryDelay}ms before next attempt...`);
+            await delay(retryDelay, signal);
         }
     }
     
     // If the loop completes without returning, all retries have failed. Throw the last error.
-    throw lastError || new Error("Gemini API call failed after all retries without returning a valid image.");
+    throw lastError || new Error(`${provider.label} API call failed after all retries without returning a valid image.`);
+}
+
+registerJobHandler(IMAGE_GENERATION_JOB, runImageGenerationJob);
+
+/**
+ * Submits an image generation request to the central job queue and waits for its result.
+ * The request is sent to the image provider selected in setting.json (Gemini by default),
+ * subject to that provider's concurrency limit. When the response cache is enabled, an identical
+ * earlier request is answered from the cache unless "force fresh" is on.
+ * @param parts An array of parts for the request payload (e.g., image parts, text parts).
+ * @param config Optional configuration object for the generateContent call.
+ * @param jobOptions Optional queue options: priority, app id, label and an AbortSignal to cancel the job.
+ * @param variant The request's index when the caller sends the same request several times for
+ * variations. Each index has its own cache slot, so a cached batch still returns different images.
+ * @returns The GenerateContentResponse from the API.
+ */
+export async function callGeminiWithRetry(parts: object[], config: ImageRequestConfig = {}, jobOptions: JobOptions = {}, variant = 0): Promise<GenerateContentResponse> {
+    const provider = getActiveImageProvider();
+    const payload: ImageGenerationJobPayload = { providerId: provider.id, parts, config };
+    const request = buildImageRequest(parts, config);
+    const prompt = request.prompt.replace(/[*#]/g, '').replace(/\s+/g, ' ').trim();
+    const label = jobOptions.label || (prompt.length > 80 ? `${prompt.substring(0, 77)}...` : prompt);
+
+    const { abortSignal, ...cacheableConfig } = config;
+    const baseCacheKey = await getResponseCacheKey('image', `${provider.id}:${provider.model}`, {
+        prompt: request.prompt,
+        images: request.images,
+        config: cacheableConfig,
+    });
+    const cacheKey = baseCacheKey && `${baseCacheKey}:${variant}`;
+    const cached = await readResponseCache<ImageGenerationResult>(cacheKey);
+    if (cached) {
+        // The gallery looks provenance up by image hash, so cached images need a record too.
+        await recordGenerationProvenance(request, cached, { providerId: provider.id, appId: jobOptions.appId ?? getCurrentAppId(), attempt: 0, cached: true });
+        return toGenerateContentResponse(cached);
+    }
+
+    void checkUsageBudget();
+    const result = await submitJob<ImageGenerationResult>(IMAGE_GENERATION_JOB, payload, provider.id, { ...jobOptions, label });
+    const { raw, ...cacheableResult } = result;
+    void writeResponseCache(cacheKey, 'image', result.model, cacheableResult);
+    return toGenerateContentResponse(result);
+}
+
+/**
+ * Converts the images of a finished image generation job into data URLs.
+ * Used to recover the results of jobs resumed after a page reload.
+ */
+export function imageGenerationResultToDataUrls(result: ImageGenerationResult): string[] {
+    return result.images.map(({ mimeType, data }) => `data:${mimeType};base64,${data}`);
+}
+
+/**
+ * Runs a text (analysis or refinement) request against Gemini. Identical requests are answered
+ * from the response cache when it is enabled; only real calls are checked against the budgets
+ * and recorded in the usage ledger.
+ * @param params The generateContent parameters.
+ * @returns The GenerateContentResponse, either fresh or rebuilt from the cache.
+ */
+export async function generateContentWithCache(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const cacheKey = await getResponseCacheKey('text', params.model, { contents: params.contents, config: params.config });
+    const cached = await readResponseCache<Pick<GenerateContentResponse, 'candidates' | 'usageMetadata' | 'modelVersion'>>(cacheKey);
+    if (cached) {
+        return Object.assign(new GenerateContentResponse(), cached);
+    }
+
+    void checkUsageBudget();
+    const response = await ai.models.generateContent(params);
+    void recordResponseUsage(response, 'text', params.model);
+    if (response.text) {
+        void writeResponseCache(cacheKey, 'text', params.model, {
+            candidates: response.candidates,
+            usageMetadata: response.usageMetadata,
+            modelVersion: response.modelVersion,
+        });
+    }
+    return response;
 }
 
 /**
@@ -139,7 +348,7 @@ Prompt của người dùng: "${userPrompt}"
 **Đầu ra:** Chỉ xuất ra văn bản prompt đã được tinh chỉnh, không có bất kỳ cụm từ giới thiệu nào.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: metaPrompt,
         });
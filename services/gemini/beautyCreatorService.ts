@@ -3,13 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
 import {
     processApiError,
+    generateContentWithCache,
     parseDataUrl,
     callGeminiWithRetry,
     processGeminiResponse
 } from './baseService';
+import { EmptyResponseError } from '../errors';
 
 interface BeautyOptions {
     notes: string;
@@ -31,19 +32,19 @@ async function analyzeBeautyConceptImage(styleImageDataUrl: string): Promise<str
 Chỉ trả lời bằng một đoạn văn mô tả liền mạch, súc tích.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được phong cách của ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the style image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeBeautyConceptImage:", error);
-        throw new Error("Lỗi khi phân tích ảnh concept.");
+        throw processApiError(error);
     }
 }
 
@@ -65,7 +66,7 @@ export async function analyzeForBeautyConcepts(
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
@@ -4,7 +4,69 @@
 */
 import { GoogleGenAI } from "@google/genai";
 
+// When the app is built with API_PROXY_URL (e.g. "/api"), every Gemini call goes through the
+// API proxy in server/proxy.mjs, which holds the key. Otherwise the key is baked into the bundle.
+const API_PROXY_URL = process.env.API_PROXY_URL ? new URL(process.env.API_PROXY_URL, window.location.origin).href.replace(/\/$/, '') : '';
+
+export const isUsingApiProxy = (): boolean => !!API_PROXY_URL;
+
 // This creates a single, shared instance of the GoogleGenAI client.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Behind the proxy the SDK still needs a key; the proxy discards it and uses its own.
+const ai = API_PROXY_URL
+    ? new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: `${API_PROXY_URL}/gemini` } })
+    : new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+/**
+ * Builds the URL for downloading a generated file (e.g. a Veo video) from its Gemini URI.
+ */
+export function getGeneratedFileUrl(uri: string): string {
+    if (API_PROXY_URL) {
+        return `${API_PROXY_URL}/download?uri=${encodeURIComponent(uri)}`;
+    }
+    return `${uri}&key=${process.env.API_KEY}`;
+}
+
+/**
+ * The proxy route that stands in for an OpenAI-compatible endpoint, or null without the proxy.
+ */
+export function getOpenAIProxyUrl(): string | null {
+    return API_PROXY_URL ? `${API_PROXY_URL}/openai` : null;
+}
+
+// A proxy sign-in. `username` and `role` are null when sign-in is disabled in setting-login.json.
+export interface ApiProxySession {
+    username: string | null;
+    role: string | null;
+    expiresAt: number | null;
+}
+
+/**
+ * Signs in to the API proxy, which checks the password against setting-login.json.
+ * @returns The new session, or null when the proxy rejected the credentials or there is no proxy.
+ */
+export async function loginToApiProxy(username: string, password?: string): Promise<ApiProxySession | null> {
+    if (!API_PROXY_URL) return null;
+    const response = await fetch(`${API_PROXY_URL}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+    });
+    return response.ok ? response.json() : null;
+}
+
+/**
+ * Asks the API proxy who its session cookie belongs to.
+ * @returns The session, or null when it has expired, was never opened or there is no proxy.
+ */
+export async function getApiProxySession(): Promise<ApiProxySession | null> {
+    if (!API_PROXY_URL) return null;
+    const response = await fetch(`${API_PROXY_URL}/auth/session`);
+    return response.ok ? response.json() : null;
+}
+
+export async function logoutFromApiProxy(): Promise<void> {
+    if (!API_PROXY_URL) return;
+    await fetch(`${API_PROXY_URL}/auth/logout`, { method: 'POST' });
+}
 
-export default ai;
\ No newline at end of file
+export default ai;
@@ -3,13 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
 import {
     processApiError,
+    generateContentWithCache,
     parseDataUrl,
     callGeminiWithRetry,
     processGeminiResponse
 } from './baseService';
+import { EmptyResponseError, NoImageReturnedError, SafetyBlockedError } from '../errors';
 
 function getPrimaryPrompt(idea: string, customPrompt?: string, removeWatermark?: boolean, aspectRatio?: string): string {
     const modificationText = customPrompt ? ` Yêu cầu chỉnh sửa bổ sung: "${customPrompt}".` : '';
@@ -34,18 +35,18 @@ async function analyzeEntrepreneurConceptImage(styleImageDataUrl: string): Promi
     const prompt = `Phân tích bức ảnh chân dung này và mô tả concept chuyên nghiệp/doanh nhân của nó. Tập trung vào bối cảnh, ánh sáng, trang phục, tư thế và thần thái chung (ví dụ: tự tin, sáng tạo, quyền lực).`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được concept từ ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the concept image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeEntrepreneurConceptImage:", error);
-        throw new Error("Lỗi khi phân tích ảnh concept.");
+        throw processApiError(error);
     }
 }
 
@@ -79,15 +80,11 @@ export async function generateEntrepreneurImage(
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
 
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
+        // Only a missing image or a safety block is worth retrying with the softer fallback prompt.
+        const isBlockedError = processedError instanceof NoImageReturnedError || processedError instanceof SafetyBlockedError;
 
-        if (isNoImageError) {
+        if (isBlockedError) {
             console.warn(`Primary prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             try {
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
@@ -97,7 +94,7 @@ export async function generateEntrepreneurImage(
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
                 const processedFallbackError = processApiError(fallbackError);
-                throw new Error(`The AI model failed with both primary and fallback prompts. Last error: ${processedFallbackError.message}`);
+                throw processedFallbackError;
             }
         } else {
             console.error("Error during entrepreneur image generation:", processedError);
@@ -126,7 +123,7 @@ export async function analyzeForEntrepreneurConcepts(
 
     try {
         console.log("Analyzing image for entrepreneur concept suggestions...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
@@ -2,14 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Modality } from "@google/genai";
-import ai from './client'; // Import the shared client instance
 import { 
     processApiError, 
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import type { JobOptions } from '../jobQueue';
 
 export async function generateFreeImage(
     prompt: string,
@@ -19,14 +18,14 @@ export async function generateFreeImage(
     imageDataUrl2?: string,
     imageDataUrl3?: string,
     imageDataUrl4?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    jobOptions?: JobOptions
 ): Promise<string[]> {
     try {
         const allImageUrls = [imageDataUrl1, imageDataUrl2, imageDataUrl3, imageDataUrl4].filter(Boolean) as string[];
-        
-        const results: string[] = [];
 
-        for (let i = 0; i < numberOfImages; i++) {
+        // Each image is its own queued job; the job queue decides how many run concurrently.
+        const generateOne = async (index: number): Promise<string> => {
             const parts: object[] = [];
 
             if (allImageUrls.length > 0) {
@@ -58,11 +57,11 @@ export async function generateFreeImage(
                 config.imageConfig = { aspectRatio: finalAspectRatio };
             }
 
-            const response = await callGeminiWithRetry(parts, config);
-            results.push(processGeminiResponse(response));
-        }
+            const response = await callGeminiWithRetry(parts, config, jobOptions, index);
+            return processGeminiResponse(response);
+        };
 
-        return results;
+        return await Promise.all(Array.from({ length: numberOfImages }, (_, index) => generateOne(index)));
 
     } catch (error) {
         const processedError = processApiError(error);
@@ -3,13 +3,15 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client'; // Import the shared client instance
 import { 
     processApiError, 
+    generateContentWithCache,
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import type { JobOptions } from '../jobQueue';
+import { getActiveImageProvider } from '../providers';
 
 /**
  * Edits an image based on a text prompt.
@@ -17,13 +19,15 @@ import {
  * @param prompt The text prompt with editing instructions.
  * @param aspectRatio Optional target aspect ratio.
  * @param removeWatermark Optional boolean to request watermark removal.
+ * @param jobOptions Optional job queue options, e.g. an AbortSignal to cancel the request.
  * @returns A promise that resolves to a base64-encoded image data URL of the edited image.
  */
 export async function editImageWithPrompt(
     imageDataUrl: string,
     prompt: string,
     aspectRatio?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    jobOptions?: JobOptions
 ): Promise<string> {
     try {
         const { mimeType, data: base64Data } = parseDataUrl(imageDataUrl);
@@ -70,7 +74,7 @@ export async function editImageWithPrompt(
             config.imageConfig = { aspectRatio };
         }
 
-        const response = await callGeminiWithRetry([imagePart, textPart], config);
+        const response = await callGeminiWithRetry([imagePart, textPart], config, jobOptions);
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
@@ -79,6 +83,50 @@ export async function editImageWithPrompt(
     }
 }
 
+/**
+ * Edits only the masked area of an image. Providers that support inpainting receive the mask as their
+ * mask input; the others get it as a second image, described in the prompt. Either way the model may
+ * still touch pixels outside the mask, so callers should composite the result back through it.
+ * @param imageDataUrl A data URL string of the source image to edit.
+ * @param maskDataUrl A data URL string of a PNG the size of the image, white where it may change and black elsewhere.
+ * @param prompt The text prompt with editing instructions.
+ * @param jobOptions Optional job queue options, e.g. an AbortSignal to cancel the request.
+ * @returns A promise that resolves to a base64-encoded image data URL of the edited image.
+ */
+export async function inpaintImageWithPrompt(
+    imageDataUrl: string,
+    maskDataUrl: string,
+    prompt: string,
+    jobOptions?: JobOptions
+): Promise<string> {
+    try {
+        const imagePart = { inlineData: parseDataUrl(imageDataUrl) };
+        const mask = parseDataUrl(maskDataUrl);
+
+        if (getActiveImageProvider().supportsInpainting) {
+            const response = await callGeminiWithRetry([imagePart, { text: prompt }], { inpaintMask: mask }, jobOptions);
+            return processGeminiResponse(response);
+        }
+
+        const fullPrompt = [
+            '**YÊU CẦU CHỈNH SỬA ẢNH - ƯU TIÊN CAO NHẤT:**',
+            'Ảnh thứ nhất là ảnh cần chỉnh sửa. Ảnh thứ hai là MẶT NẠ (MASK) đen trắng có cùng kích thước: vùng TRẮNG là khu vực duy nhất được phép thay đổi, vùng ĐEN phải giữ nguyên tuyệt đối.',
+            'Thực hiện yêu cầu sau đây bên trong vùng trắng:',
+            `"${prompt}"`,
+            '**LƯU Ý QUAN TRỌNG:**',
+            '- Phần được chỉnh sửa phải hòa hợp liền mạch với ánh sáng, màu sắc và phối cảnh xung quanh.',
+            '- Giữ nguyên bố cục, khung hình và kích thước của ảnh thứ nhất.',
+            '- Chỉ trả về ảnh thứ nhất đã được chỉnh sửa, không trả về mặt nạ.'
+        ].join('\n');
+        const response = await callGeminiWithRetry([imagePart, { inlineData: mask }, { text: fullPrompt }], {}, jobOptions);
+        return processGeminiResponse(response);
+    } catch (error) {
+        const processedError = processApiError(error);
+        console.error("Error during masked image editing:", processedError);
+        throw processedError;
+    }
+}
+
 /**
  * Removes the background from an image, making it transparent.
  * @param imageDataUrl A data URL string of the source image.
@@ -115,7 +163,8 @@ export async function generateFromMultipleImages(
     imageDataUrls: string[],
     prompt: string,
     aspectRatio?: string,
-    removeWatermark?: boolean
+    removeWatermark?: boolean,
+    jobOptions?: JobOptions
 ): Promise<string> {
     try {
         const imageParts = await Promise.all(
@@ -154,7 +203,7 @@ export async function generateFromMultipleImages(
         }
 
         console.log("Attempting to generate image from multiple sources with config:", config);
-        const response = await callGeminiWithRetry(allParts, config);
+        const response = await callGeminiWithRetry(allParts, config, jobOptions);
         return processGeminiResponse(response);
 
     } catch (error) {
@@ -192,7 +241,7 @@ export async function refinePrompt(userPrompt: string, imageDataUrls?: string[])
 
     try {
         console.log("Attempting to refine prompt...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts },
         });
@@ -250,7 +299,7 @@ Phân tích (các) "Ảnh đính kèm", "Prompt Gốc", và "Ghi chú của ngư
 
   try {
     console.log("Refining prompt with image context...");
-    const response = await ai.models.generateContent({
+    const response = await generateContentWithCache({
       model: 'gemini-2.5-flash',
       contents: { parts },
     });
@@ -287,7 +336,7 @@ export async function analyzePromptForImageGenerationParams(prompt: string): Pro
 
     try {
         console.log("Analyzing prompt for image generation parameters...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: metaPrompt,
             config: {
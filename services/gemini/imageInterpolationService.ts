@@ -3,9 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client'; // Import the shared client instance
 import { 
     processApiError, 
+    generateContentWithCache,
     parseDataUrl,
 } from './baseService';
 
@@ -38,7 +38,7 @@ export async function analyzeImagePairForPrompt(inputImageDataUrl: string, outpu
     
     try {
         console.log("Attempting to analyze image pair for prompt...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
@@ -109,7 +109,7 @@ export async function analyzeImagePairForPromptDeep(inputImageDataUrl: string, o
     
     try {
         console.log("Attempting to analyze image pair for DETAILED prompt...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
@@ -183,7 +183,7 @@ export async function analyzeImagePairForPromptExpert(inputImageDataUrl: string,
     
     try {
         console.log("Attempting to analyze image pair for EXPERT prompt...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [textPart, inputImagePart, outputImagePart] },
             config: {
@@ -257,7 +257,7 @@ export async function interpolatePrompts(basePrompt: string, userNotes: string):
 
     try {
         console.log("Attempting to interpolate prompts with prioritization...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: prompt,
         });
@@ -292,7 +292,7 @@ export async function adaptPromptToContext(imageDataUrl: string, basePrompt: str
     
     try {
         console.log("Attempting to adapt prompt to image context...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, textPart] },
         });
@@ -3,13 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { Type } from "@google/genai";
-import ai from './client';
 import { 
     processApiError, 
+    generateContentWithCache,
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import { EmptyResponseError, NoImageReturnedError, SafetyBlockedError } from '../errors';
 
 function getPrimaryPrompt(idea: string, customPrompt?: string, removeWatermark?: boolean, aspectRatio?: string): string {
     const modificationText = customPrompt ? ` Yêu cầu chỉnh sửa bổ sung: "${customPrompt}".` : '';
@@ -34,18 +35,18 @@ async function analyzeMidAutumnConceptImage(styleImageDataUrl: string): Promise<
     const prompt = `Phân tích hình ảnh này và mô tả concept Trung Thu của nó. Tập trung vào chủ đề, đèn lồng, mặt trăng, màu sắc và không khí chung. Mô tả phải phù hợp để hướng dẫn AI tái tạo một chủ đề tương tự.`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được concept từ ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the concept image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeMidAutumnConceptImage:", error);
-        throw new Error("Lỗi khi phân tích ảnh concept.");
+        throw processApiError(error);
     }
 }
 
@@ -79,15 +80,11 @@ export async function generateMidAutumnImage(
         return processGeminiResponse(response);
     } catch (error) {
         const processedError = processApiError(error);
-        const errorMessage = processedError.message;
-        
-        if (errorMessage.includes("API key not valid") || errorMessage.includes("Ứng dụng tạm thời")) {
-            throw processedError;
-        }
 
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
+        // Only a missing image or a safety block is worth retrying with the softer fallback prompt.
+        const isBlockedError = processedError instanceof NoImageReturnedError || processedError instanceof SafetyBlockedError;
 
-        if (isNoImageError) {
+        if (isBlockedError) {
             console.warn(`Primary prompt was likely blocked for idea: ${finalIdea}. Trying a fallback prompt.`);
             try {
                 const fallbackPrompt = getFallbackPrompt(finalIdea, customPrompt, removeWatermark, aspectRatio);
@@ -97,7 +94,7 @@ export async function generateMidAutumnImage(
             } catch (fallbackError) {
                 console.error("Fallback prompt also failed.", fallbackError);
                 const processedFallbackError = processApiError(fallbackError);
-                throw new Error(`The AI model failed with both primary and fallback prompts. Last error: ${processedFallbackError.message}`);
+                throw processedFallbackError;
             }
         } else {
             console.error("Error during Mid-Autumn image generation:", processedError);
@@ -125,7 +122,7 @@ export async function analyzeForConcepts(
 
     try {
         console.log("Analyzing image for concept suggestions...");
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, { text: prompt }] },
             config: {
@@ -2,13 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client'; // Import the shared client instance
 import { 
     processApiError,
+    generateContentWithCache,
     parseDataUrl, 
     callGeminiWithRetry, 
     processGeminiResponse 
 } from './baseService';
+import { EmptyResponseError } from '../errors';
 
 interface MixStyleOptions {
     styleStrength: string;
@@ -28,19 +29,19 @@ async function analyzeStyle(styleImageDataUrl: string): Promise<string> {
     const prompt = `Phân tích hình ảnh này và mô tả phong cách nghệ thuật, bảng màu, kết cấu, chất liệu, và không khí chung của nó một cách tổng quát, chính xác và súc tích. Chỉ tập trung vào các đặc điểm phong cách có thể áp dụng lại, không mô tả nội dung cụ thể (con người, đồ vật). Ví dụ: "Phong cách tranh sơn dầu với nét cọ dày, bảng màu ấm áp với tông vàng và cam, ánh sáng dịu nhẹ, không khí hoài cổ."`;
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateContentWithCache({
             model: 'gemini-2.5-flash',
             contents: { parts: [imagePart, {text: prompt}] },
         });
 
         const text = response.text;
         if (!text) {
-             throw new Error("AI không thể phân tích được phong cách của ảnh.");
+             throw new EmptyResponseError("The AI returned no analysis for the style image.", { i18nKey: 'error_analysisEmpty' });
         }
         return text.trim();
     } catch (error) {
         console.error("Error in analyzeStyle:", error);
-        throw new Error("Lỗi khi phân tích ảnh phong cách.");
+        throw processApiError(error);
     }
 }
 
@@ -2,9 +2,10 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Type } from "@google/genai";
+import { Type, type GenerateContentParameters } from "@google/genai";
 import ai from './client';
 import { processApiError, parseDataUrl } from './baseService';
+import { checkUsageBudget, recordResponseUsage } from '../usageLedger';
 
 // --- TYPES ---
 interface Scene {
@@ -159,6 +160,15 @@ const getDetailedVideoPromptSchema = (language: 'vi' | 'en' | 'zh') => {
     };
 };
 
+// --- USAGE ---
+// Every storyboarding call goes through here so its token usage lands in the usage ledger.
+const generateStoryboardContent = async (params: GenerateContentParameters) => {
+    void checkUsageBudget();
+    const response = await ai.models.generateContent(params);
+    void recordResponseUsage(response, 'text', params.model);
+    return response;
+};
+
 // --- PROMPT HELPERS ---
 const getScriptSummaryBasePrompt = (language: 'vi' | 'en' | 'zh'): { P1: string, P2: string } => {
     if (language === 'zh') {
@@ -186,7 +196,7 @@ const generateImageDescriptions = async (referenceImages: { mimeType: string; da
     const prompt = "Briefly describe the key visual elements of each image provided, focusing on character appearance, setting, and overall mood. Combine the descriptions into a single paragraph.";
     
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: { parts: [...imageParts, { text: prompt }] },
         });
@@ -199,7 +209,7 @@ const generateImageDescriptions = async (referenceImages: { mimeType: string; da
 
 // --- API FUNCTIONS ---
 const executeScriptSummaryGeneration = async (prompt: string, parts: any[] = [], language: 'vi' | 'en' | 'zh'): Promise<ScriptSummary> => {
-    const response = await ai.models.generateContent({
+    const response = await generateStoryboardContent({
         model: 'gemini-2.5-flash',
         contents: { parts: [...parts, { text: prompt }] },
         config: {
@@ -337,7 +347,7 @@ export async function createScriptSummaryFromAudio(audio: { mimeType: string; da
         
         const audioPart = { inlineData: audio };
         const imageParts = referenceImagesData.map(img => ({ inlineData: img }));
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: { parts: [audioPart, ...imageParts, { text: prompt }] },
              config: {
@@ -426,7 +436,7 @@ Each shot should logically follow the previous one.${notesInstruction_en}${scrip
     }
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: prompt,
             config: {
@@ -496,7 +506,7 @@ export async function refineSceneDescription(
     }
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: prompt,
         });
@@ -560,7 +570,7 @@ export async function refineSceneTransition(
     }
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: prompt,
         });
@@ -634,7 +644,7 @@ Generate a detailed JSON according to the schema. **IMPORTANT: All text values i
 根据模式生成一个详细的JSON。**重要提示：JSON中的所有文本值都必须是中文。**`,
                 };
                 
-                const response = await ai.models.generateContent({
+                const response = await generateStoryboardContent({
                     model: 'gemini-2.5-flash',
                     contents: prompts_json[language],
                     config: {
@@ -669,7 +679,7 @@ Generate a detailed JSON according to the schema. **IMPORTANT: All text values i
                 break;
         }
 
-        const response = await ai.models.generateContent({
+        const response = await generateStoryboardContent({
             model: 'gemini-2.5-flash',
             contents: prompt,
         });
@@ -2,11 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import ai from './client'; // Import the shared client instance
+import ai, { getGeneratedFileUrl } from './client'; // Import the shared client instance
 import { 
     processApiError,
     parseDataUrl, 
 } from './baseService';
+import { checkUsageBudget, recordUsage, DEFAULT_VIDEO_SECONDS } from '../usageLedger';
+
+const VIDEO_MODEL = 'veo-2.0-generate-001';
 
 export async function startVideoGeneration(
     prompt: string,
@@ -15,8 +18,9 @@ export async function startVideoGeneration(
     try {
         console.log(`Starting video generation. Image provided: ${!!image}`);
         
+        void checkUsageBudget();
         const operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
+            model: VIDEO_MODEL,
             prompt,
             ...(image && { image: { imageBytes: image.data, mimeType: image.mimeType } }),
             config: {
@@ -38,10 +42,27 @@ export async function pollVideoOperation(
 ): Promise<any> {
     try {
         console.log("Polling video operation status...");
-        return await ai.operations.getVideosOperation({ operation });
+        const updatedOperation = await ai.operations.getVideosOperation({ operation });
+        const videoCount = updatedOperation.done ? updatedOperation.response?.generatedVideos?.length || 0 : 0;
+        if (videoCount > 0) {
+            void recordUsage({ kind: 'video', model: VIDEO_MODEL, videoSeconds: videoCount * DEFAULT_VIDEO_SECONDS });
+        }
+        return updatedOperation;
     } catch (error) {
          const processedError = processApiError(error);
         console.error("Error polling video operation:", processedError);
         throw processedError;
     }
 }
+
+/**
+ * Downloads a finished video. Behind the API proxy the download is streamed through it,
+ * so the API key never appears in the browser.
+ * @param uri The video URI from the finished operation.
+ * @returns The video as a Blob.
+ */
+export async function downloadGeneratedVideo(uri: string): Promise<Blob> {
+    const response = await fetch(getGeneratedFileUrl(uri));
+    if (!response.ok) throw new Error(`Failed to fetch video: ${response.statusText}`);
+    return response.blob();
+}
@@ -27,3 +27,10 @@ export * from './gemini/videoGenerationService';
 export * from './gemini/presetService'; // NEW: Export the centralized preset service
 export * from './gemini/chatService'; // NEW: Export the new chat service
 export * from './gemini/storyboardingService'; // NEW: Export the new storyboarding service
+export * from './providers'; // Pluggable image-model providers
+export * from './jobQueue'; // Central generation job queue
+export * from './errors'; // Typed AI service errors
+export * from './provenance'; // Provenance records for generated images
+export * from './usageLedger'; // Usage and cost ledger for AI calls
+export * from './responseCache'; // Opt-in cache for AI responses
+export { isUsingApiProxy, loginToApiProxy, logoutFromApiProxy, getApiProxySession, type ApiProxySession } from './gemini/client'; // Optional API proxy session
@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from '../lib/db';
+import { getCurrentAppId } from './usageLedger';
+
+// A central, persistent queue for generation jobs. Jobs are plain serializable records so that
+// pending work can be written to IndexedDB and resumed after a page reload. The work itself is
+// done by a handler registered for the job's `type`.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface GenerationJob {
+    id: string;
+    type: string;
+    payload: any;
+    providerId: string;
+    priority: number;
+    status: JobStatus;
+    progress: number; // 0..1
+    label: string;
+    appId?: string;
+    error?: string;
+    // True when the job was restored from IndexedDB after a reload and has no caller waiting on it.
+    resumed?: boolean;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface JobOptions {
+    priority?: number;
+    appId?: string;
+    label?: string;
+    signal?: AbortSignal;
+}
+
+export interface JobContext {
+    signal: AbortSignal;
+    reportProgress: (progress: number) => void;
+    // The app the job was submitted from.
+    appId?: string;
+}
+
+export type JobHandler<TPayload = any, TResult = any> = (payload: TPayload, context: JobContext) => Promise<TResult>;
+
+export type JobQueueEvent =
+    | { type: 'added' | 'started' | 'progress' | 'cancelled'; job: GenerationJob }
+    | { type: 'done'; job: GenerationJob; result: any }
+    | { type: 'error'; job: GenerationJob; error: Error }
+    | { type: 'cleared' };
+
+export interface JobQueueSettings {
+    // Maximum number of running jobs per provider id. `default` applies to unlisted providers.
+    concurrency?: Record<string, number>;
+}
+
+interface JobEntry {
+    job: GenerationJob;
+    controller: AbortController;
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+// Finished jobs stay visible in the queue panel for a while.
+const FINISHED_JOB_LIMIT = 30;
+
+const handlers = new Map<string, JobHandler>();
+const entries = new Map<string, JobEntry>();
+const listeners = new Set<(event: JobQueueEvent) => void>();
+let concurrency: Record<string, number> = { default: DEFAULT_CONCURRENCY };
+let finishedJobs: GenerationJob[] = [];
+
+export class JobCancelledError extends Error {
+    constructor(message = 'Cancelled') {
+        super(message);
+        this.name = 'JobCancelledError';
+    }
+}
+
+function emit(event: JobQueueEvent) {
+    listeners.forEach(listener => {
+        try {
+            listener(event);
+        } catch (error) {
+            console.error('Job queue listener failed:', error);
+        }
+    });
+}
+
+function persist(job: GenerationJob) {
+    db.saveGenerationJob(job).catch(error => console.error('Failed to persist generation job:', error));
+}
+
+function unpersist(jobId: string) {
+    db.deleteGenerationJob(jobId).catch(error => console.error('Failed to remove generation job:', error));
+}
+
+function limitFor(providerId: string): number {
+    return Math.max(1, concurrency[providerId] ?? concurrency.default ?? DEFAULT_CONCURRENCY);
+}
+
+function finish(entry: JobEntry, status: JobStatus, error?: string) {
+    entry.job = { ...entry.job, status, error, finishedAt: Date.now(), progress: status === 'done' ? 1 : entry.job.progress };
+    entries.delete(entry.job.id);
+    finishedJobs = [entry.job, ...finishedJobs].slice(0, FINISHED_JOB_LIMIT);
+    unpersist(entry.job.id);
+}
+
+async function runJob(entry: JobEntry) {
+    const handler = handlers.get(entry.job.type);
+    entry.job = { ...entry.job, status: 'running', startedAt: Date.now() };
+    persist(entry.job);
+    emit({ type: 'started', job: entry.job });
+
+    try {
+        if (!handler) {
+            throw new Error(`No handler registered for job type "${entry.job.type}".`);
+        }
+        const result = await handler(entry.job.payload, {
+            signal: entry.controller.signal,
+            appId: entry.job.appId,
+            reportProgress: (progress: number) => {
+                if (entry.job.status !== 'running') return;
+                entry.job = { ...entry.job, progress: Math.min(1, Math.max(0, progress)) };
+                emit({ type: 'progress', job: entry.job });
+            },
+        });
+        if (entry.controller.signal.aborted) {
+            throw new JobCancelledError();
+        }
+        finish(entry, 'done');
+        emit({ type: 'done', job: entry.job, result });
+        entry.resolve(result);
+    } catch (err) {
+        if (entry.controller.signal.aborted) {
+            finish(entry, 'cancelled');
+            emit({ type: 'cancelled', job: entry.job });
+            entry.reject(new JobCancelledError());
+        } else {
+            const error = err instanceof Error ? err : new Error(String(err));
+            finish(entry, 'error', error.message);
+            emit({ type: 'error', job: entry.job, error });
+            entry.reject(error);
+        }
+    } finally {
+        schedule();
+    }
+}
+
+/**
+ * Starts as many queued jobs as the per-provider concurrency limits allow,
+ * highest priority first, then oldest first.
+ */
+function schedule() {
+    const all = Array.from(entries.values());
+    const runningByProvider = new Map<string, number>();
+    all.filter(e => e.job.status === 'running').forEach(e => {
+        runningByProvider.set(e.job.providerId, (runningByProvider.get(e.job.providerId) || 0) + 1);
+    });
+
+    const queued = all
+        .filter(e => e.job.status === 'queued')
+        .sort((a, b) => b.job.priority - a.job.priority || a.job.createdAt - b.job.createdAt);
+
+    for (const entry of queued) {
+        const running = runningByProvider.get(entry.job.providerId) || 0;
+        if (running >= limitFor(entry.job.providerId)) continue;
+        runningByProvider.set(entry.job.providerId, running + 1);
+        runJob(entry);
+    }
+}
+
+function enqueue(job: GenerationJob, signal?: AbortSignal): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const entry: JobEntry = { job, controller: new AbortController(), resolve, reject };
+        entries.set(job.id, entry);
+
+        if (signal) {
+            if (signal.aborted) {
+                entry.controller.abort();
+            }
+            signal.addEventListener('abort', () => cancelJob(job.id), { once: true });
+        }
+
+        persist(job);
+        emit({ type: 'added', job });
+        if (entry.controller.signal.aborted) {
+            cancelJob(job.id);
+            return;
+        }
+        schedule();
+    });
+}
+
+export function registerJobHandler<TPayload, TResult>(type: string, handler: JobHandler<TPayload, TResult>): void {
+    handlers.set(type, handler);
+}
+
+export function configureJobQueue(settings?: JobQueueSettings): void {
+    concurrency = { default: DEFAULT_CONCURRENCY, ...(settings?.concurrency || {}) };
+    schedule();
+}
+
+/**
+ * Submits a job and resolves with the handler's result once it has run. A job that doesn't name its
+ * app is attributed to the app open when it was submitted.
+ * The promise rejects with a JobCancelledError if the job is cancelled.
+ */
+export function submitJob<TResult = any>(type: string, payload: any, providerId: string, options: JobOptions = {}): Promise<TResult> {
+    const job: GenerationJob = {
+        id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        type,
+        payload,
+        providerId,
+        priority: options.priority ?? 0,
+        status: 'queued',
+        progress: 0,
+        label: options.label || type,
+        appId: options.appId ?? getCurrentAppId(),
+        createdAt: Date.now(),
+    };
+    return enqueue(job, options.signal);
+}
+
+export function cancelJob(jobId: string): void {
+    const entry = entries.get(jobId);
+    if (!entry) return;
+
+    entry.controller.abort();
+    // Running jobs settle through their handler; queued ones are removed right away.
+    if (entry.job.status === 'queued') {
+        finish(entry, 'cancelled');
+        emit({ type: 'cancelled', job: entry.job });
+        entry.reject(new JobCancelledError());
+    }
+}
+
+export function cancelAllJobs(predicate: (job: GenerationJob) => boolean = () => true): void {
+    Array.from(entries.values())
+        .filter(entry => predicate(entry.job))
+        .forEach(entry => cancelJob(entry.job.id));
+}
+
+export function setJobPriority(jobId: string, priority: number): void {
+    const entry = entries.get(jobId);
+    if (!entry || entry.job.status !== 'queued') return;
+    entry.job = { ...entry.job, priority };
+    persist(entry.job);
+    emit({ type: 'progress', job: entry.job });
+    schedule();
+}
+
+export function clearFinishedJobs(): void {
+    finishedJobs = [];
+    emit({ type: 'cleared' });
+}
+
+/**
+ * Returns active jobs (running first, then queued by priority) followed by recently finished ones.
+ */
+export function getJobs(): GenerationJob[] {
+    const active = Array.from(entries.values())
+        .map(entry => entry.job)
+        .sort((a, b) => {
+            if (a.status !== b.status) return a.status === 'running' ? -1 : 1;
+            return b.priority - a.priority || a.createdAt - b.createdAt;
+        });
+    return [...active, ...finishedJobs];
+}
+
+export function subscribeToJobQueue(listener: (event: JobQueueEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Re-queues jobs that were pending or running when the page was last closed.
+ * Their results are delivered through `subscribeToJobQueue` with `job.resumed` set.
+ */
+export async function resumePersistedJobs(): Promise<number> {
+    const persisted = await db.getAllGenerationJobs();
+    let resumedCount = 0;
+    for (const job of persisted) {
+        if (entries.has(job.id)) continue;
+        if (job.status !== 'queued' && job.status !== 'running') {
+            unpersist(job.id);
+            continue;
+        }
+        enqueue({ ...job, status: 'queued', progress: 0, startedAt: undefined, resumed: true })
+            .catch(() => { /* Reported through queue events. */ });
+        resumedCount++;
+    }
+    return resumedCount;
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { hashBlob } from '../lib/db';
+import { inlineImageToBlob } from './providers/providerUtils';
+import type { ImageGenerationRequest, ImageGenerationResult, InlineImage } from './providers/types';
+
+// Records how each generated image was made. Services return bare data URLs, so provenance is kept
+// here keyed by the image's SHA-256 hash (the same hash the gallery stores it under) until the
+// gallery picks it up.
+
+export interface ImageProvenance {
+    appId?: string;
+    // The final prompt text sent to the provider.
+    prompt: string;
+    inputImageHashes: string[];
+    providerId: string;
+    model: string;
+    aspectRatio?: string;
+    seed?: number;
+    // 0 when the result was answered from the response cache instead of the provider.
+    attempt: number;
+    cached?: boolean;
+    timestamp: number;
+    // The image this result was derived from (the first input image), if any.
+    parentHash?: string;
+}
+
+// Only recent results need to wait for the gallery; older ones were either saved or discarded.
+const MAX_PENDING_RECORDS = 200;
+const pendingRecords = new Map<string, ImageProvenance>();
+
+function remember(hash: string, provenance: ImageProvenance) {
+    pendingRecords.delete(hash);
+    pendingRecords.set(hash, provenance);
+    if (pendingRecords.size > MAX_PENDING_RECORDS) {
+        pendingRecords.delete(pendingRecords.keys().next().value!);
+    }
+}
+
+const hashInlineImage = (image: InlineImage): Promise<string> => hashBlob(inlineImageToBlob(image));
+
+/**
+ * Records provenance for every image of a successful generation.
+ * Failures are logged and never affect the generation itself.
+ */
+export async function recordGenerationProvenance(
+    request: ImageGenerationRequest,
+    result: ImageGenerationResult,
+    details: { providerId: string; appId?: string; attempt: number; cached?: boolean }
+): Promise<void> {
+    try {
+        const [inputImageHashes, outputHashes] = await Promise.all([
+            Promise.all(request.images.map(hashInlineImage)),
+            Promise.all(result.images.map(hashInlineImage)),
+        ]);
+        const provenance: ImageProvenance = {
+            appId: details.appId,
+            prompt: request.prompt,
+            inputImageHashes,
+            providerId: details.providerId,
+            model: result.model,
+            aspectRatio: request.aspectRatio,
+            seed: result.seed,
+            attempt: details.attempt,
+            cached: details.cached || undefined,
+            timestamp: Date.now(),
+            parentHash: inputImageHashes[0],
+        };
+        outputHashes.forEach(hash => remember(hash, provenance));
+    } catch (error) {
+        console.error('Failed to record image provenance:', error);
+    }
+}
+
+export function getImageProvenance(imageHash: string): ImageProvenance | undefined {
+    return pendingRecords.get(imageHash);
+}
+
+/**
+ * Carries provenance over to a re-encoded copy of an image (e.g. after embedding metadata),
+ * whose bytes, and therefore hash, differ from the original.
+ */
+export async function linkImageProvenance(source: Blob, derived: Blob): Promise<void> {
+    try {
+        const provenance = pendingRecords.get(await hashBlob(source));
+        if (provenance) {
+            remember(await hashBlob(derived), provenance);
+        }
+    } catch (error) {
+        console.error('Failed to link image provenance:', error);
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ComfyUIProviderConfig, ImageProvider, InlineImage } from './types';
+import { blobToInlineImage, delay, dimensionsForAspectRatio, inlineImageToBlob, throwForStatus } from './providerUtils';
+
+// An output node of a finished prompt in ComfyUI's /history response; nodes that save images list their files.
+interface ComfyUIOutputNode {
+    images?: { filename: string; subfolder?: string; type?: string }[];
+}
+
+/**
+ * Recursively replaces {{placeholder}} tokens in a workflow. A string that consists of a single
+ * placeholder is replaced by the raw value, so numeric inputs such as {{width}} stay numbers.
+ */
+function fillWorkflow(node: unknown, values: Record<string, string | number>): unknown {
+    if (typeof node === 'string') {
+        const exact = node.match(/^\{\{(\w+)\}\}$/);
+        if (exact && exact[1] in values) {
+            return values[exact[1]];
+        }
+        return node.replace(/\{\{(\w+)\}\}/g, (token, key) => (key in values ? String(values[key]) : token));
+    }
+    if (Array.isArray(node)) {
+        return node.map(item => fillWorkflow(item, values));
+    }
+    if (typeof node === 'object' && node !== null) {
+        return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fillWorkflow(value, values)]));
+    }
+    return node;
+}
+
+/**
+ * A provider for a local ComfyUI server. The workflow (in API format) comes from setting.json;
+ * the first input image, if any, is uploaded and exposed to the workflow as {{image}}, and an inpainting
+ * mask as {{mask}}.
+ */
+export function createComfyUIProvider(config: ComfyUIProviderConfig = {}): ImageProvider {
+    const baseUrl = (config.baseUrl || 'http://127.0.0.1:8188').replace(/\/$/, '');
+    const model = config.model || 'comfyui-workflow';
+    const label = 'ComfyUI';
+    const clientId = `apix-${Math.random().toString(36).substring(2, 11)}`;
+
+    const uploadImage = async (image: InlineImage, signal?: AbortSignal): Promise<string> => {
+        const form = new FormData();
+        const extension = image.mimeType.split('/')[1] || 'png';
+        form.append('image', inlineImageToBlob(image), `apix-input-${Date.now()}.${extension}`);
+        form.append('overwrite', 'true');
+        const response = await fetch(`${baseUrl}/upload/image`, { method: 'POST', body: form, signal });
+        await throwForStatus(response, label);
+        const json = await response.json();
+        return json.subfolder ? `${json.subfolder}/${json.name}` : json.name;
+    };
+
+    return {
+        id: 'comfyui',
+        label,
+        model,
+        supportsInpainting: JSON.stringify(config.workflow || {}).includes('{{mask}}'),
+        generateImage: async (request, signal) => {
+            if (!config.workflow) {
+                throw new Error('ComfyUI provider requires a "workflow" in the imageProvider.comfyui settings.');
+            }
+
+            const { width, height } = dimensionsForAspectRatio(request.aspectRatio, config.baseSize ?? 1024, 8);
+            const values: Record<string, string | number> = {
+                prompt: request.prompt,
+                negativePrompt: config.negativePrompt || '',
+                width,
+                height,
+                seed: Math.floor(Math.random() * 2 ** 32),
+            };
+            if (request.images.length > 0) {
+                values.image = await uploadImage(request.images[0], signal);
+            }
+            if (request.mask) {
+                values.mask = await uploadImage(request.mask, signal);
+            }
+
+            const queueResponse = await fetch(`${baseUrl}/prompt`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ prompt: fillWorkflow(config.workflow, values), client_id: clientId }),
+                signal,
+            });
+            await throwForStatus(queueResponse, label);
+            const { prompt_id: promptId } = await queueResponse.json();
+
+            const pollInterval = config.pollIntervalMs ?? 1000;
+            const deadline = Date.now() + (config.timeoutMs ?? 300000);
+            let outputs: Record<string, ComfyUIOutputNode> | null = null;
+
+            while (!outputs) {
+                if (Date.now() > deadline) {
+                    throw new Error(`${label} request timed out waiting for prompt ${promptId}.`);
+                }
+                await delay(pollInterval, signal);
+                const historyResponse = await fetch(`${baseUrl}/history/${promptId}`, { signal });
+                await throwForStatus(historyResponse, label);
+                const history = await historyResponse.json();
+                const entry = history[promptId];
+                if (entry?.status?.status_str === 'error') {
+                    throw new Error(`${label} workflow failed: ${JSON.stringify(entry.status.messages || [])}`);
+                }
+                if (entry?.outputs && Object.keys(entry.outputs).length > 0) {
+                    outputs = entry.outputs;
+                }
+            }
+
+            const images: InlineImage[] = [];
+            for (const output of Object.values(outputs)) {
+                for (const file of output.images || []) {
+                    if (file.type === 'temp') continue;
+                    const params = new URLSearchParams({ filename: file.filename, subfolder: file.subfolder || '', type: file.type || 'output' });
+                    const viewResponse = await fetch(`${baseUrl}/view?${params.toString()}`, { signal });
+                    await throwForStatus(viewResponse, label);
+                    images.push(await blobToInlineImage(await viewResponse.blob()));
+                }
+            }
+
+            return { images, model, seed: values.seed as number, raw: { promptId, outputs } };
+        },
+    };
+}
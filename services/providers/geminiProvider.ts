@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Modality } from "@google/genai";
+import ai from '../gemini/client'; // Import the shared client instance
+import type { GeminiProviderConfig, ImageProvider, InlineImage } from './types';
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+export function createGeminiProvider(config: GeminiProviderConfig = {}): ImageProvider {
+    const model = config.model || DEFAULT_GEMINI_IMAGE_MODEL;
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        model,
+        generateImage: async (request, signal) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: request.parts },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    ...request.config,
+                    ...(signal ? { abortSignal: signal } : {}),
+                },
+            });
+
+            const images: InlineImage[] = (response.candidates?.[0]?.content?.parts || [])
+                .filter(part => part.inlineData?.data)
+                .map(part => ({ mimeType: part.inlineData!.mimeType || 'image/png', data: part.inlineData!.data! }));
+
+            return {
+                images,
+                text: images.length === 0 ? response.text : undefined,
+                model,
+                usage: {
+                    inputTokens: response.usageMetadata?.promptTokenCount,
+                    outputTokens: response.usageMetadata?.candidatesTokenCount,
+                    totalTokens: response.usageMetadata?.totalTokenCount,
+                },
+                raw: response,
+            };
+        },
+    };
+}
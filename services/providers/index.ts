@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Aggregator for the image-model provider layer.
+
+export * from './types';
+export * from './registry';
+export { buildImageRequest } from './providerUtils';
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, InlineImage, MockProviderConfig } from './types';
+import { delay, dimensionsForAspectRatio } from './providerUtils';
+
+// FNV-1a, so the same request always yields the same image.
+function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function loadImage(image: InlineImage): Promise<HTMLImageElement | null> {
+    return new Promise(resolve => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = `data:${image.mimeType};base64,${image.data}`;
+    });
+}
+
+/**
+ * An offline provider that renders a canned PNG derived from the request, for developing the UI
+ * without an API key or quota. The first input image, if any, is drawn into the result so that
+ * editing flows show a recognisable output.
+ */
+export function createMockProvider(config: MockProviderConfig = {}): ImageProvider {
+    const model = 'mock-image-v1';
+
+    return {
+        id: 'mock',
+        label: 'Mock (offline)',
+        model,
+        generateImage: async (request, signal) => {
+            await delay(config.delayMs ?? 600, signal);
+
+            const hash = hashString(`${request.prompt}|${request.images.length}|${request.aspectRatio || ''}`);
+            const { width, height } = dimensionsForAspectRatio(request.aspectRatio, config.baseSize ?? 512, 8);
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Mock provider could not create a canvas context.');
+            }
+
+            const hue = hash % 360;
+            const gradient = ctx.createLinearGradient(0, 0, width, height);
+            gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+            gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+
+            const source = request.images[0] ? await loadImage(request.images[0]) : null;
+            if (source) {
+                const scale = Math.min(width / source.width, height / source.height) * 0.8;
+                const drawWidth = source.width * scale;
+                const drawHeight = source.height * scale;
+                ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+            }
+
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+            ctx.fillRect(0, height - 72, width, 72);
+            ctx.fillStyle = '#ffffff';
+            ctx.font = 'bold 20px sans-serif';
+            ctx.fillText(`MOCK #${hash.toString(16).padStart(8, '0')}`, 16, height - 44);
+            ctx.font = '14px sans-serif';
+            const snippet = request.prompt.replace(/\s+/g, ' ').trim();
+            ctx.fillText(snippet.length > 60 ? `${snippet.substring(0, 57)}...` : snippet, 16, height - 18);
+
+            const data = canvas.toDataURL('image/png').split(',')[1];
+            return { images: [{ mimeType: 'image/png', data }], model, seed: hash, raw: { hash } };
+        },
+    };
+}
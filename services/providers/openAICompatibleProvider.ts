@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, InlineImage, OpenAICompatibleProviderConfig } from './types';
+import { blobToInlineImage, inlineImageToBlob, parseAspectRatio, throwForStatus } from './providerUtils';
+import { getOpenAIProxyUrl } from '../gemini/client';
+
+const DEFAULT_SIZES = {
+    square: '1024x1024',
+    landscape: '1536x1024',
+    portrait: '1024x1536',
+};
+
+function sizeForAspectRatio(aspectRatio: string | undefined, sizes?: Record<string, string>): string {
+    if (aspectRatio && sizes?.[aspectRatio]) {
+        return sizes[aspectRatio];
+    }
+    const ratio = parseAspectRatio(aspectRatio);
+    if (ratio > 1.1) return DEFAULT_SIZES.landscape;
+    if (ratio < 0.9) return DEFAULT_SIZES.portrait;
+    return DEFAULT_SIZES.square;
+}
+
+/**
+ * The Images API takes a mask as a PNG whose transparent pixels mark the area to edit, so the white of
+ * the request mask becomes transparent.
+ */
+async function maskToAlphaPng(mask: InlineImage): Promise<Blob> {
+    const bitmap = await createImageBitmap(inlineImageToBlob(mask));
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create a canvas context for the inpainting mask.');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = 255 - data[i];
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return new Promise((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the inpainting mask.')), 'image/png'));
+}
+
+/**
+ * A provider for any endpoint implementing the OpenAI Images API (`/images/generations` and `/images/edits`).
+ * The API key is read from the OPENAI_API_KEY environment variable at build time. Behind the API proxy
+ * requests go to the proxy instead, which holds the key and the endpoint (OPENAI_BASE_URL).
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleProviderConfig = {}): ImageProvider {
+    const proxyUrl = getOpenAIProxyUrl();
+    const baseUrl = (proxyUrl || config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const model = config.model || 'gpt-image-1';
+    const label = 'OpenAI-compatible';
+
+    const headers = (): Record<string, string> => {
+        // The proxy authenticates with its session cookie and adds the key itself.
+        if (proxyUrl) return {};
+        const apiKey = process.env.OPENAI_API_KEY;
+        return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    };
+
+    return {
+        id: 'openai',
+        label,
+        model,
+        supportsInpainting: true,
+        generateImage: async (request, signal) => {
+            const size = sizeForAspectRatio(request.aspectRatio, config.sizes);
+            let response: Response;
+
+            if (request.images.length > 0) {
+                const form = new FormData();
+                form.append('model', model);
+                form.append('prompt', request.prompt);
+                form.append('n', '1');
+                form.append('size', size);
+                if (config.quality) form.append('quality', config.quality);
+                if (config.responseFormat) form.append('response_format', config.responseFormat);
+                request.images.forEach((image, index) => {
+                    const extension = image.mimeType.split('/')[1] || 'png';
+                    form.append('image[]', inlineImageToBlob(image), `image-${index}.${extension}`);
+                });
+                if (request.mask) {
+                    form.append('mask', await maskToAlphaPng(request.mask), 'mask.png');
+                }
+                response = await fetch(`${baseUrl}/images/edits`, { method: 'POST', headers: headers(), body: form, signal });
+            } else {
+                const body: Record<string, unknown> = { model, prompt: request.prompt, n: 1, size };
+                if (config.quality) body.quality = config.quality;
+                if (config.responseFormat) body.response_format = config.responseFormat;
+                response = await fetch(`${baseUrl}/images/generations`, {
+                    method: 'POST',
+                    headers: { ...headers(), 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body),
+                    signal,
+                });
+            }
+
+            await throwForStatus(response, label);
+            const json = await response.json();
+
+            const images: InlineImage[] = [];
+            for (const item of json.data || []) {
+                if (item.b64_json) {
+                    images.push({ mimeType: 'image/png', data: item.b64_json });
+                } else if (item.url) {
+                    const imageResponse = await fetch(item.url, { signal });
+                    await throwForStatus(imageResponse, label);
+                    images.push(await blobToInlineImage(await imageResponse.blob()));
+                }
+            }
+
+            return {
+                images,
+                model,
+                usage: json.usage ? {
+                    inputTokens: json.usage.input_tokens,
+                    outputTokens: json.usage.output_tokens,
+                    totalTokens: json.usage.total_tokens,
+                } : undefined,
+                raw: json,
+            };
+        },
+    };
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageGenerationRequest, ImageRequestConfig, InlineImage } from './types';
+
+function isInlineImagePart(part: object): part is { inlineData: InlineImage } {
+    if (!('inlineData' in part) || typeof part.inlineData !== 'object' || part.inlineData === null) return false;
+    const { inlineData } = part;
+    return 'data' in inlineData && typeof inlineData.data === 'string' && inlineData.data !== ''
+        && 'mimeType' in inlineData && typeof inlineData.mimeType === 'string';
+}
+
+function isTextPart(part: object): part is { text: string } {
+    return 'text' in part && typeof part.text === 'string';
+}
+
+/**
+ * Converts the Gemini-style parts and config used by the app services into a provider-neutral request.
+ * @param parts An array of parts (inlineData image parts and text parts).
+ * @param config The generateContent config object, possibly containing `imageConfig.aspectRatio`, and
+ * `inpaintMask` for inpainting. The mask becomes `request.mask` and is left out of `request.config`.
+ * @returns The normalized request.
+ */
+export function buildImageRequest(parts: object[], config: ImageRequestConfig = {}): ImageGenerationRequest {
+    const { inpaintMask, ...generateConfig } = config;
+    const images: InlineImage[] = [];
+    const texts: string[] = [];
+
+    for (const part of parts) {
+        if (isInlineImagePart(part)) {
+            images.push({ mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+        } else if (isTextPart(part)) {
+            texts.push(part.text);
+        }
+    }
+
+    return {
+        prompt: texts.join('\n'),
+        images,
+        aspectRatio: config.imageConfig?.aspectRatio,
+        mask: inpaintMask,
+        parts,
+        config: generateConfig,
+    };
+}
+
+/**
+ * Parses an aspect ratio string like '16:9' into its numeric ratio (width / height).
+ * @returns The ratio, or 1 if the string is missing or invalid.
+ */
+export function parseAspectRatio(aspectRatio?: string): number {
+    const match = aspectRatio?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+    if (!match) return 1;
+    const width = parseFloat(match[1]);
+    const height = parseFloat(match[2]);
+    return width > 0 && height > 0 ? width / height : 1;
+}
+
+/**
+ * Computes output dimensions for an aspect ratio, keeping roughly `baseSize * baseSize` pixels.
+ * @param aspectRatio The aspect ratio string, e.g. '3:4'.
+ * @param baseSize The edge length of the equivalent square image.
+ * @param multiple Dimensions are rounded to this multiple (diffusion models usually need 8 or 64).
+ */
+export function dimensionsForAspectRatio(aspectRatio: string | undefined, baseSize = 1024, multiple = 64): { width: number; height: number } {
+    const ratio = parseAspectRatio(aspectRatio);
+    const round = (value: number) => Math.max(multiple, Math.round(value / multiple) * multiple);
+    return {
+        width: round(baseSize * Math.sqrt(ratio)),
+        height: round(baseSize / Math.sqrt(ratio)),
+    };
+}
+
+export function inlineImageToBlob({ mimeType, data }: InlineImage): Blob {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToInlineImage(blob: Blob): Promise<InlineImage> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            const result = reader.result as string;
+            const [header, data] = result.split(',');
+            const mimeType = header.match(/^data:(.*?);base64$/)?.[1] || blob.type || 'image/png';
+            resolve({ mimeType, data });
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Throws an Error carrying the HTTP status, the `Retry-After` header and the response body, so that
+ * `processApiError` can classify failures from non-Gemini providers the same way it does for Gemini.
+ */
+export async function throwForStatus(response: Response, providerLabel: string): Promise<void> {
+    if (response.ok) return;
+    let body = '';
+    try {
+        body = await response.text();
+    } catch {
+        // Ignore unreadable bodies, the status code is enough.
+    }
+    const error = new Error(`${providerLabel} request failed with status ${response.status}: ${body}`);
+    Object.assign(error, { status: response.status, retryAfter: response.headers.get('Retry-After'), body });
+    throw error;
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+}
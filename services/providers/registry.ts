@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, ImageProviderConfigs, ImageProviderId, ImageProviderSettings } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createStableDiffusionProvider } from './stableDiffusionProvider';
+import { createComfyUIProvider } from './comfyUIProvider';
+import { createMockProvider } from './mockProvider';
+
+// Each built-in factory gets its own, typed section of the settings.
+type BuiltInImageProviderFactories = { [Id in keyof ImageProviderConfigs]-?: (config?: ImageProviderConfigs[Id]) => ImageProvider };
+
+// Providers registered at runtime get their raw settings section and narrow it themselves.
+type ImageProviderFactory = (config: unknown) => ImageProvider;
+
+const builtInFactories: BuiltInImageProviderFactories = {
+    'gemini': createGeminiProvider,
+    'openai': createOpenAICompatibleProvider,
+    'stable-diffusion': createStableDiffusionProvider,
+    'comfyui': createComfyUIProvider,
+    'mock': createMockProvider,
+};
+const BUILT_IN_IDS = Object.keys(builtInFactories);
+const isBuiltInProviderId = (id: string): id is ImageProviderId => BUILT_IN_IDS.includes(id);
+
+const factories = new Map<string, ImageProviderFactory>();
+
+let providerSettings: ImageProviderSettings = { active: 'gemini' };
+const instances = new Map<string, ImageProvider>();
+
+const hasImageProvider = (id: string) => factories.has(id) || isBuiltInProviderId(id);
+
+/**
+ * Registers (or replaces) a provider factory, e.g. for tests or custom in-house backends.
+ */
+export function registerImageProvider(id: ImageProviderId | string, factory: ImageProviderFactory): void {
+    factories.set(id, factory);
+    instances.delete(id);
+}
+
+/**
+ * Applies the `imageProvider` section of setting.json. Called once settings are loaded.
+ * An unknown active provider falls back to Gemini so the app keeps working.
+ */
+export function configureImageProviders(settings?: Partial<ImageProviderSettings>): void {
+    const active = settings?.active && hasImageProvider(settings.active) ? settings.active : 'gemini';
+    if (settings?.active && active !== settings.active) {
+        console.warn(`Unknown image provider "${settings.active}", falling back to Gemini.`);
+    }
+    providerSettings = { ...settings, active };
+    instances.clear();
+}
+
+function createBuiltInProvider<Id extends ImageProviderId>(id: Id): ImageProvider {
+    const configs: ImageProviderConfigs = providerSettings;
+    const factory: BuiltInImageProviderFactories[Id] = builtInFactories[id];
+    return factory(configs[id]);
+}
+
+export function getImageProvider(id: ImageProviderId | string): ImageProvider {
+    const cached = instances.get(id);
+    if (cached) return cached;
+
+    const factory = factories.get(id);
+    let provider: ImageProvider;
+    if (factory) {
+        const sections: Record<string, unknown> = { ...providerSettings };
+        provider = factory(sections[id]);
+    } else if (isBuiltInProviderId(id)) {
+        provider = createBuiltInProvider(id);
+    } else {
+        throw new Error(`Image provider "${id}" is not registered.`);
+    }
+    instances.set(id, provider);
+    return provider;
+}
+
+export function getActiveImageProvider(): ImageProvider {
+    return getImageProvider(providerSettings.active);
+}
+
+export function listImageProviderIds(): string[] {
+    return Array.from(new Set([...BUILT_IN_IDS, ...factories.keys()]));
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, StableDiffusionProviderConfig } from './types';
+import { dimensionsForAspectRatio, throwForStatus } from './providerUtils';
+
+/**
+ * A provider for a local Stable Diffusion server exposing the AUTOMATIC1111 / Forge `sdapi/v1` HTTP API.
+ * Requests with input images go to img2img using the first image as the init image, and a mask
+ * makes it inpaint only the masked area.
+ */
+export function createStableDiffusionProvider(config: StableDiffusionProviderConfig = {}): ImageProvider {
+    const baseUrl = (config.baseUrl || 'http://127.0.0.1:7860').replace(/\/$/, '');
+    const model = config.model || 'stable-diffusion';
+    const label = 'Stable Diffusion';
+
+    return {
+        id: 'stable-diffusion',
+        label,
+        model,
+        supportsInpainting: true,
+        generateImage: async (request, signal) => {
+            const { width, height } = dimensionsForAspectRatio(request.aspectRatio, config.baseSize ?? 1024, 64);
+            const payload: Record<string, unknown> = {
+                prompt: request.prompt,
+                negative_prompt: config.negativePrompt || '',
+                steps: config.steps ?? 28,
+                cfg_scale: config.cfgScale ?? 7,
+                sampler_name: config.samplerName || 'Euler a',
+                width,
+                height,
+                seed: -1,
+            };
+            if (config.model) {
+                payload.override_settings = { sd_model_checkpoint: config.model };
+            }
+
+            let endpoint = 'txt2img';
+            if (request.images.length > 0) {
+                endpoint = 'img2img';
+                payload.init_images = [request.images[0].data];
+                payload.denoising_strength = config.denoisingStrength ?? 0.6;
+                if (request.mask) {
+                    payload.mask = request.mask.data;
+                    payload.mask_blur = 4;
+                    payload.inpainting_fill = 1; // Start from the original pixels.
+                    payload.inpaint_full_res = true;
+                    payload.inpaint_full_res_padding = 32;
+                }
+            }
+
+            const response = await fetch(`${baseUrl}/sdapi/v1/${endpoint}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+                signal,
+            });
+            await throwForStatus(response, label);
+            const json = await response.json();
+            let seed: number | undefined;
+            try {
+                seed = JSON.parse(json.info || '{}').seed;
+            } catch {
+                // `info` is informational only.
+            }
+
+            return {
+                images: (json.images || []).map((data: string) => ({ mimeType: 'image/png', data })),
+                model,
+                seed,
+                raw: { ...json, images: undefined },
+            };
+        },
+    };
+}
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared type definitions for the pluggable image-model provider layer.
+
+import type { GenerateContentConfig } from '@google/genai';
+
+export type ImageProviderId = 'gemini' | 'openai' | 'stable-diffusion' | 'comfyui' | 'mock';
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // base64, without the data URL prefix
+}
+
+// The generateContent config the app services build, plus the mask of an inpainting request.
+export type ImageRequestConfig = GenerateContentConfig & { inpaintMask?: InlineImage };
+
+/**
+ * A provider-neutral image generation request. It is derived from the Gemini-style
+ * `parts` array that every app service builds, so services don't need to change.
+ */
+export interface ImageGenerationRequest {
+    prompt: string;
+    images: InlineImage[];
+    aspectRatio?: string;
+    // For inpainting: a PNG the size of the first image, white where it may change and black where it must not.
+    mask?: InlineImage;
+    // The original Gemini-style parts and config, for providers that can use them directly.
+    parts: object[];
+    config: GenerateContentConfig;
+}
+
+export interface ImageGenerationUsage {
+    inputTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+}
+
+export interface ImageGenerationResult {
+    images: InlineImage[];
+    text?: string;
+    model: string;
+    usage?: ImageGenerationUsage;
+    // The sampling seed, for providers that report one.
+    seed?: number;
+    // The untouched provider payload, useful for debugging.
+    raw?: unknown;
+}
+
+export interface ImageProvider {
+    id: ImageProviderId;
+    label: string;
+    model: string;
+    // Whether the provider edits only inside `request.mask`. Others never receive one.
+    supportsInpainting?: boolean;
+    generateImage: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<ImageGenerationResult>;
+}
+
+// --- Per-provider configuration, read from the `imageProvider` section of setting.json ---
+
+export interface GeminiProviderConfig {
+    model?: string;
+}
+
+export interface OpenAICompatibleProviderConfig {
+    baseUrl?: string;
+    model?: string;
+    quality?: string;
+    responseFormat?: 'b64_json' | 'url';
+    // Maps an aspect ratio ('1:1', '16:9', ...) to a size string the endpoint accepts.
+    sizes?: Record<string, string>;
+}
+
+export interface StableDiffusionProviderConfig {
+    baseUrl?: string;
+    model?: string;
+    steps?: number;
+    cfgScale?: number;
+    samplerName?: string;
+    negativePrompt?: string;
+    denoisingStrength?: number;
+    baseSize?: number;
+}
+
+export interface ComfyUIProviderConfig {
+    baseUrl?: string;
+    model?: string;
+    // A workflow in ComfyUI's API format. String values may contain the placeholders
+    // {{prompt}}, {{negativePrompt}}, {{width}}, {{height}}, {{seed}}, {{image}} and {{mask}}.
+    // A workflow that uses {{mask}} is sent inpainting requests.
+    workflow?: Record<string, unknown>;
+    negativePrompt?: string;
+    baseSize?: number;
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+}
+
+export interface MockProviderConfig {
+    delayMs?: number;
+    baseSize?: number;
+}
+
+// Each built-in provider's own section of the settings, keyed by its id.
+export interface ImageProviderConfigs {
+    gemini?: GeminiProviderConfig;
+    openai?: OpenAICompatibleProviderConfig;
+    'stable-diffusion'?: StableDiffusionProviderConfig;
+    comfyui?: ComfyUIProviderConfig;
+    mock?: MockProviderConfig;
+}
+
+export interface ImageProviderSettings extends ImageProviderConfigs {
+    active: ImageProviderId;
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from '../lib/db';
+import { inlineImageToBlob } from './providers/providerUtils';
+import type { InlineImage } from './providers/types';
+
+// Opt-in cache for AI responses, stored in IndexedDB. Entries are keyed on a SHA-256 of
+// (model, prompt/contents, input image hashes, config), so the same request is billed only once.
+// Enabled with the `responseCache` section of setting.json.
+
+export type ResponseCacheKind = 'text' | 'image';
+
+export interface ResponseCacheSettings {
+    enabled?: boolean;
+    // How long an entry stays valid. Defaults to one week.
+    ttlHours?: number;
+    maxEntries?: number;
+    maxSizeMB?: number;
+    // Also cache image generation results (analysis and refinement calls are always cached). Defaults to true.
+    imageGeneration?: boolean;
+}
+
+export interface ResponseCacheEntry {
+    key: string;
+    kind: ResponseCacheKind;
+    model: string;
+    createdAt: number;
+    lastUsedAt: number;
+    // Approximate size in bytes, used for the size limit.
+    size: number;
+    value: unknown;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_SIZE_MB = 200;
+
+let cacheSettings: ResponseCacheSettings = {};
+let forceFreshGeneration = false;
+
+/**
+ * Applies the `responseCache` section of setting.json.
+ */
+export function configureResponseCache(settings?: ResponseCacheSettings): void {
+    cacheSettings = settings || {};
+}
+
+export function isResponseCacheEnabled(kind: ResponseCacheKind = 'text'): boolean {
+    if (!cacheSettings.enabled) return false;
+    return kind === 'text' || cacheSettings.imageGeneration !== false;
+}
+
+/**
+ * When set, image generation skips the cache lookup (fresh results are still stored).
+ */
+export function setForceFreshGeneration(value: boolean): void {
+    forceFreshGeneration = value;
+}
+
+const ttlMs = () => (cacheSettings.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+
+const hashText = (text: string): Promise<string> => db.hashBlob(new Blob([text]));
+
+const isInlineImage = (value: any): value is InlineImage =>
+    typeof value?.mimeType === 'string' && typeof value?.data === 'string';
+
+/**
+ * Replaces every inline image in a request with the hash of its bytes, so keys stay small
+ * and identical images produce identical keys.
+ */
+async function withImageHashes(value: unknown): Promise<unknown> {
+    if (Array.isArray(value)) {
+        return Promise.all(value.map(withImageHashes));
+    }
+    if (value && typeof value === 'object') {
+        if (isInlineImage(value)) {
+            return { mimeType: value.mimeType, hash: await db.hashBlob(inlineImageToBlob(value)) };
+        }
+        const entries = await Promise.all(
+            Object.entries(value).map(async ([key, item]) => [key, await withImageHashes(item)] as const)
+        );
+        return Object.fromEntries(entries);
+    }
+    return value;
+}
+
+/**
+ * Builds the cache key for a request, or returns null when the request shouldn't use the cache.
+ */
+export async function getResponseCacheKey(kind: ResponseCacheKind, model: string, request: unknown): Promise<string | null> {
+    if (!isResponseCacheEnabled(kind)) return null;
+    try {
+        const normalized = await withImageHashes(request);
+        return await hashText(JSON.stringify({ kind, model, request: normalized }));
+    } catch (error) {
+        console.error('Failed to build response cache key:', error);
+        return null;
+    }
+}
+
+/**
+ * Looks up a cached response. Image lookups are skipped while "force fresh" is on.
+ */
+export async function readResponseCache<T>(key: string | null): Promise<T | undefined> {
+    if (!key) return undefined;
+    try {
+        const entry = await db.getResponseCacheEntry(key);
+        if (!entry || (entry.kind === 'image' && forceFreshGeneration)) return undefined;
+        if (Date.now() - entry.createdAt > ttlMs()) return undefined;
+        void db.putResponseCacheEntry({ ...entry, lastUsedAt: Date.now() });
+        return entry.value as T;
+    } catch (error) {
+        console.error('Failed to read response cache:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Stores a response and prunes the cache back within its TTL and size limits.
+ * Failures are logged and never affect the call being cached.
+ */
+export async function writeResponseCache(key: string | null, kind: ResponseCacheKind, model: string, value: unknown): Promise<void> {
+    if (!key) return;
+    try {
+        const now = Date.now();
+        await db.putResponseCacheEntry({
+            key,
+            kind,
+            model,
+            createdAt: now,
+            lastUsedAt: now,
+            size: JSON.stringify(value).length,
+            value,
+        });
+        await db.pruneResponseCache({
+            maxEntries: cacheSettings.maxEntries ?? DEFAULT_MAX_ENTRIES,
+            maxBytes: (cacheSettings.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+            expiresBefore: now - ttlMs(),
+        });
+    } catch (error) {
+        console.error('Failed to write response cache:', error);
+    }
+}
+
+export function clearResponseCache(): Promise<void> {
+    return db.clearResponseCache();
+}
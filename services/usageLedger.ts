@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as db from '../lib/db';
+
+// Records the usage (tokens, images, video seconds) of every AI call in IndexedDB, tagged with the
+// app and the signed-in user, and warns when today's usage approaches the soft budgets from setting.json.
+
+export type UsageKind = 'image' | 'text' | 'chat' | 'video';
+
+export interface UsageEntry {
+    id: string;
+    timestamp: number;
+    day: string; // Local date, YYYY-MM-DD
+    kind: UsageKind;
+    model: string;
+    appId?: string;
+    user?: string;
+    inputTokens: number;
+    outputTokens: number;
+    imageCount: number;
+    videoSeconds: number;
+}
+
+export interface UsageBudgetSettings {
+    dailyTokens?: number;
+    dailyImages?: number;
+    dailyVideoSeconds?: number;
+    // Warn once today's usage reaches this share of a budget. Defaults to 80.
+    warnAtPercent?: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    imageCount: number;
+    videoSeconds: number;
+}
+
+export type UsageMetric = 'tokens' | 'images' | 'videoSeconds';
+
+export interface UsageBudgetWarning {
+    metric: UsageMetric;
+    used: number;
+    limit: number;
+    exceeded: boolean;
+}
+
+export type UsageLedgerEvent =
+    | { type: 'recorded'; entry: UsageEntry }
+    | { type: 'warning'; warning: UsageBudgetWarning };
+
+const DEFAULT_WARN_AT_PERCENT = 80;
+// Veo does not report the clip length; this is the length of its default clip.
+export const DEFAULT_VIDEO_SECONDS = 8;
+
+let budgets: UsageBudgetSettings = {};
+let context: { user?: string; appId?: string } = {};
+let todayTotals: { day: string; totals: Promise<UsageTotals> } | null = null;
+// Warnings already shown today, so each level is raised once per metric and day.
+const issuedWarnings = new Set<string>();
+const listeners = new Set<(event: UsageLedgerEvent) => void>();
+
+export const emptyUsageTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, imageCount: 0, videoSeconds: 0 });
+
+export const toUsageDay = (timestamp: number): string => new Date(timestamp).toLocaleDateString('en-CA');
+
+function emit(event: UsageLedgerEvent) {
+    listeners.forEach(listener => {
+        try {
+            listener(event);
+        } catch (error) {
+            console.error('Usage ledger listener failed:', error);
+        }
+    });
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): UsageTotals {
+    totals.calls += 1;
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.imageCount += entry.imageCount;
+    totals.videoSeconds += entry.videoSeconds;
+    return totals;
+}
+
+function getTodayTotals(): Promise<UsageTotals> {
+    const day = toUsageDay(Date.now());
+    if (!todayTotals || todayTotals.day !== day) {
+        issuedWarnings.clear();
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+        todayTotals = {
+            day,
+            totals: db.getUsageEntriesSince(startOfDay.getTime())
+                .then(entries => entries.reduce(addToTotals, emptyUsageTotals()))
+                .catch(error => {
+                    console.error('Failed to load usage totals:', error);
+                    return emptyUsageTotals();
+                }),
+        };
+    }
+    return todayTotals.totals;
+}
+
+/**
+ * Applies the `usageBudgets` section of setting.json.
+ */
+export function configureUsageLedger(settings?: UsageBudgetSettings): void {
+    budgets = settings || {};
+    issuedWarnings.clear();
+}
+
+export function getUsageBudgets(): UsageBudgetSettings {
+    return budgets;
+}
+
+/**
+ * Sets the user and app that new entries are attributed to when a call doesn't name its app.
+ */
+export function setUsageContext(update: { user?: string | null; appId?: string }): void {
+    context = {
+        user: 'user' in update ? update.user ?? undefined : context.user,
+        appId: 'appId' in update ? update.appId : context.appId,
+    };
+}
+
+/**
+ * The app that is open now, which calls that don't name their app are attributed to.
+ */
+export function getCurrentAppId(): string | undefined {
+    return context.appId;
+}
+
+export function getBudgetStatus(totals: UsageTotals): UsageBudgetWarning[] {
+    const warnAt = (budgets.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT) / 100;
+    const checks: [UsageMetric, number, number | undefined][] = [
+        ['tokens', totals.inputTokens + totals.outputTokens, budgets.dailyTokens],
+        ['images', totals.imageCount, budgets.dailyImages],
+        ['videoSeconds', totals.videoSeconds, budgets.dailyVideoSeconds],
+    ];
+    return checks
+        .filter(([, used, limit]) => limit !== undefined && limit > 0 && used >= limit * warnAt)
+        .map(([metric, used, limit]) => ({ metric, used, limit: limit!, exceeded: used >= limit! }));
+}
+
+/**
+ * Compares today's usage with the soft budgets and emits a warning event when a threshold is reached.
+ * Budgets never block a call; this is called right before one so the team hears about it early.
+ */
+export async function checkUsageBudget(): Promise<void> {
+    if (!budgets.dailyTokens && !budgets.dailyImages && !budgets.dailyVideoSeconds) return;
+    const totals = await getTodayTotals();
+    for (const warning of getBudgetStatus(totals)) {
+        const key = `${warning.metric}:${warning.exceeded ? 'exceeded' : 'warn'}`;
+        if (issuedWarnings.has(key)) continue;
+        issuedWarnings.add(key);
+        emit({ type: 'warning', warning });
+    }
+}
+
+/**
+ * Adds an entry to the ledger. Failures are logged and never affect the call being recorded.
+ */
+export async function recordUsage(usage: {
+    kind: UsageKind;
+    model: string;
+    appId?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    imageCount?: number;
+    videoSeconds?: number;
+}): Promise<void> {
+    const timestamp = Date.now();
+    const entry: UsageEntry = {
+        id: `${timestamp}-${Math.random().toString(36).substring(2, 9)}`,
+        timestamp,
+        day: toUsageDay(timestamp),
+        kind: usage.kind,
+        model: usage.model,
+        appId: usage.appId || context.appId,
+        user: context.user,
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        imageCount: usage.imageCount || 0,
+        videoSeconds: usage.videoSeconds || 0,
+    };
+    try {
+        const totals = await getTodayTotals();
+        addToTotals(totals, entry);
+        await db.addUsageEntry(entry);
+        emit({ type: 'recorded', entry });
+    } catch (error) {
+        console.error('Failed to record usage:', error);
+    }
+}
+
+/**
+ * Records the token usage reported in a Gemini response's `usageMetadata`.
+ */
+export function recordResponseUsage(
+    response: { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } } | undefined,
+    kind: UsageKind,
+    model: string,
+    appId?: string
+): Promise<void> {
+    return recordUsage({
+        kind,
+        model,
+        appId,
+        inputTokens: response?.usageMetadata?.promptTokenCount,
+        outputTokens: response?.usageMetadata?.candidatesTokenCount,
+    });
+}
+
+export function getUsageEntries(sinceTimestamp: number): Promise<UsageEntry[]> {
+    return db.getUsageEntriesSince(sinceTimestamp);
+}
+
+/**
+ * Groups entries by a key (e.g. day, app or user) and sums each group.
+ */
+export function summarizeUsage(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): [string, UsageTotals][] {
+    const groups = new Map<string, UsageTotals>();
+    entries.forEach(entry => {
+        const key = keyOf(entry);
+        groups.set(key, addToTotals(groups.get(key) || emptyUsageTotals(), entry));
+    });
+    return Array.from(groups.entries());
+}
+
+export function subscribeToUsageLedger(listener: (event: UsageLedgerEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
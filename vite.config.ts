@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With API_PROXY_URL set, Gemini and OpenAI calls go through server/proxy.mjs and the keys stay out of the bundle.
+    const useApiProxy = !!env.API_PROXY_URL;
+    const geminiApiKey = useApiProxy ? '' : env.GEMINI_API_KEY;
+    const openAIApiKey = useApiProxy ? '' : env.OPENAI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        ...(useApiProxy && {
+          proxy: {
+            '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+          },
+        }),
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(openAIApiKey || '')
       },
       resolve: {
         alias: {